@@ -117,6 +117,13 @@ async function cleanupTestDataInternal(testIds: {
       .where("inventory_item_id", "in", testIds.inventoryItemIds)
       .execute();
   }
+  // Delete invoice items that sold inventory items we're cleaning up
+  if (testIds.inventoryItemIds && testIds.inventoryItemIds.length > 0) {
+    await db
+      .deleteFrom("invoice_items")
+      .where("inventory_item_id", "in", testIds.inventoryItemIds)
+      .execute();
+  }
   // 2. Delete inventory items (they depend on locations)
   if (testIds.inventoryItemIds && testIds.inventoryItemIds.length > 0) {
     await db
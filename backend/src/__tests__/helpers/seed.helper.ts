@@ -135,6 +135,30 @@ export async function assignUserToLocation(
     .execute();
 }
 
+/**
+ * Give a user a role in the user_roles table, which technician lookups read
+ */
+export async function assignUserRole(
+  userId: string,
+  companyId: string,
+  role: UserRole,
+  isPrimary = true
+): Promise<void> {
+  await db
+    .insertInto("user_roles")
+    .values({
+      id: uuidv4(),
+      user_id: userId,
+      role,
+      is_primary: isPrimary,
+      company_id: companyId,
+      created_at: sql`now()`,
+      updated_at: sql`now()`,
+    })
+    .onConflict((oc) => oc.columns(["user_id", "role", "company_id"]).doNothing())
+    .execute();
+}
+
 /**
  * Create a test user in the database
  */
@@ -308,6 +332,7 @@ export async function createTestTicket(
       completed_date: overrides?.completedDate
         ? overrides.completedDate.toISOString()
         : null,
+      first_assigned_at: overrides?.technicianId ? sql`now()` : null,
       created_at: sql`now()`,
       updated_at: sql`now()`,
       deleted_at: null,
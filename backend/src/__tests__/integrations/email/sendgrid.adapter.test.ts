@@ -147,4 +147,67 @@ describe('SendGridAdapter', () => {
       ).rejects.toThrow('Invalid SendGrid API key');
     });
   });
+
+  describe('parseInbound', () => {
+    it('should read the sender address and drop the quoted original', () => {
+      const inbound = sendGridAdapter.parseInbound({
+        from: 'Jane Customer <Jane@Example.com>',
+        to: 'Shop Replies <replies@shop.example.com>',
+        subject: ' Re: Ticket TKT-12345678-001 ',
+        text: 'Thanks, see you then!\r\n\r\nOn Mon, Jan 5, 2026 at 9:00 AM Shop wrote:\r\n> Your repair is ready',
+      });
+
+      expect(inbound).toEqual({
+        from: 'jane@example.com',
+        to: 'replies@shop.example.com',
+        subject: 'Re: Ticket TKT-12345678-001',
+        text: 'Thanks, see you then!',
+      });
+    });
+
+    it('should fall back to the HTML body', () => {
+      const inbound = sendGridAdapter.parseInbound({
+        from: 'jane@example.com',
+        html: '<p>Is it &amp; the case ready?</p><blockquote>earlier</blockquote>',
+      });
+
+      expect(inbound?.text).toBe('Is it & the case ready?\nearlier');
+    });
+
+    it('should return null without a sender', () => {
+      expect(sendGridAdapter.parseInbound({ text: 'Hello' })).toBeNull();
+    });
+  });
+
+  describe('parseEvents', () => {
+    it('should read the events we track and skip the rest', () => {
+      const events = sendGridAdapter.parseEvents([
+        { event: 'processed', sg_message_id: 'abc123.filter0001', timestamp: 1767225600 },
+        { event: 'delivered', sg_message_id: 'abc123.filter0001', email_message_id: 'message-1', timestamp: 1767225600 },
+        { event: 'dropped', sg_message_id: 'def456.filter0002', reason: 'Bounced Address', timestamp: 1767225660 },
+        'not an event',
+      ]);
+
+      expect(events).toEqual([
+        {
+          type: 'delivered',
+          emailMessageId: 'message-1',
+          providerMessageId: 'abc123',
+          reason: null,
+          occurredAt: new Date(1767225600000),
+        },
+        {
+          type: 'bounced',
+          emailMessageId: null,
+          providerMessageId: 'def456',
+          reason: 'Bounced Address',
+          occurredAt: new Date(1767225660000),
+        },
+      ]);
+    });
+
+    it('should ignore a body that is not a list of events', () => {
+      expect(sendGridAdapter.parseEvents({ event: 'delivered' })).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,136 @@
+import { jest } from '@jest/globals';
+import { SmsIntegrationConfig } from '../../../config/integrations.js';
+import twilioAdapter from '../../../integrations/sms/twilio.adapter.js';
+
+// Mock fetch for Twilio API calls
+global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+
+const mockFetch = () => global.fetch as jest.MockedFunction<typeof fetch>;
+
+describe('TwilioAdapter', () => {
+  const mockConfig: SmsIntegrationConfig = {
+    type: 'sms',
+    provider: 'twilio',
+    enabled: true,
+    credentials: {
+      accountSid: 'AC00000000000000000000000000000000',
+      authToken: '12345',
+    },
+    settings: {
+      fromNumber: '+15550001111',
+    },
+  };
+
+  const expectedAuth = `Basic ${Buffer.from('AC00000000000000000000000000000000:12345').toString('base64')}`;
+
+  beforeEach(() => {
+    mockFetch().mockReset();
+  });
+
+  describe('testConnection', () => {
+    it('should return success when the account can be fetched', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: true, status: 200 } as Response);
+
+      const result = await twilioAdapter.testConnection(mockConfig);
+
+      expect(result.success).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.twilio.com/2010-04-01/Accounts/AC00000000000000000000000000000000.json',
+        expect.objectContaining({
+          method: 'GET',
+          headers: expect.objectContaining({ Authorization: expectedAuth }),
+        })
+      );
+    });
+
+    it('should return error for invalid credentials (401)', async () => {
+      mockFetch().mockResolvedValueOnce({ ok: false, status: 401 } as Response);
+
+      const result = await twilioAdapter.testConnection(mockConfig);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid account SID or auth token');
+    });
+  });
+
+  describe('sendSms', () => {
+    it('should post the message from the configured number', async () => {
+      mockFetch().mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({ sid: 'SM123' }),
+      } as Response);
+
+      const result = await twilioAdapter.sendSms(mockConfig, {
+        to: '+15552223333',
+        body: 'Your repair is ready',
+      });
+
+      expect(result.messageId).toBe('SM123');
+      const [url, init] = mockFetch().mock.calls[0];
+      expect(url).toBe(
+        'https://api.twilio.com/2010-04-01/Accounts/AC00000000000000000000000000000000/Messages.json'
+      );
+      expect(init?.method).toBe('POST');
+      expect(Object.fromEntries(new URLSearchParams(init?.body as string))).toEqual({
+        To: '+15552223333',
+        From: '+15550001111',
+        Body: 'Your repair is ready',
+      });
+    });
+
+    it('should throw with the Twilio error message', async () => {
+      mockFetch().mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: async () => ({ message: "The 'To' number is not a valid phone number." }),
+      } as Response);
+
+      await expect(
+        twilioAdapter.sendSms(mockConfig, { to: '+1', body: 'Hello' })
+      ).rejects.toThrow("Twilio API error: 400 - The 'To' number is not a valid phone number.");
+    });
+  });
+
+  describe('parseInbound', () => {
+    it('should read the form fields Twilio posts', () => {
+      expect(
+        twilioAdapter.parseInbound({
+          From: '+15552223333',
+          To: '+15550001111',
+          Body: 'STOP',
+          MessageSid: 'SM456',
+        })
+      ).toEqual({ from: '+15552223333', to: '+15550001111', body: 'STOP', messageId: 'SM456' });
+    });
+
+    it('should return null for anything else', () => {
+      expect(twilioAdapter.parseInbound({ foo: 'bar' })).toBeNull();
+    });
+  });
+
+  describe('isValidSignature', () => {
+    // Example request from Twilio's webhook security documentation
+    const url = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+    const params = {
+      CallSid: 'CA1234567890ABCDE',
+      Caller: '+12349013030',
+      Digits: '1234',
+      From: '+12349013030',
+      To: '+18005551212',
+    };
+
+    it('should accept a correctly signed request', () => {
+      expect(
+        twilioAdapter.isValidSignature(mockConfig, url, params, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+      ).toBe(true);
+    });
+
+    it('should reject a missing or wrong signature', () => {
+      expect(twilioAdapter.isValidSignature(mockConfig, url, params, undefined)).toBe(false);
+      expect(
+        twilioAdapter.isValidSignature(mockConfig, url, { ...params, Digits: '9999' }, '0/KCTR6DLpKmkAf8muzZqo1nDgQ=')
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  assignUserRole,
+  createTestCompany,
+  createTestCustomer,
+} from "../helpers/seed.helper.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Tomorrow at the given UTC hour (test locations use the default UTC time zone)
+function tomorrowAt(hour: number): Date {
+  const date = new Date(Date.now() + DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+}
+
+describe("Appointment Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let frontdeskToken: string;
+  let technicianId: string;
+  let customerId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianId = users.technician.userId;
+    // Technician lookups read user_roles, which the auth helper doesn't fill in
+    await assignUserRole(technicianId, testCompanyId, "technician");
+
+    customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const book = (overrides: Record<string, unknown> = {}) =>
+    request(app)
+      .post("/api/appointments")
+      .set(getAuthHeader(frontdeskToken))
+      .send({
+        customerId,
+        technicianId,
+        startsAt: tomorrowAt(10).toISOString(),
+        endsAt: tomorrowAt(11).toISOString(),
+        deviceType: "Phone",
+        issueDescription: "Cracked screen",
+        ...overrides,
+      });
+
+  describe("POST /api/appointments", () => {
+    it("should book an appointment", async () => {
+      const response = await book();
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        customerId,
+        technicianId,
+        appointmentType: "drop_off",
+        status: "scheduled",
+        source: "staff",
+        seriesId: null,
+      });
+    });
+
+    it("should reject a time that clashes with the technician's schedule", async () => {
+      await book();
+
+      const response = await book({
+        startsAt: new Date(tomorrowAt(10).getTime() + HOUR_MS / 2).toISOString(),
+        endsAt: new Date(tomorrowAt(11).getTime() + HOUR_MS / 2).toISOString(),
+      });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain("already has an appointment");
+    });
+
+    it("should allow back-to-back appointments", async () => {
+      await book();
+
+      const response = await book({
+        startsAt: tomorrowAt(11).toISOString(),
+        endsAt: tomorrowAt(12).toISOString(),
+      });
+
+      expect(response.status).toBe(201);
+    });
+
+    it("should book every appointment in a repeating series", async () => {
+      const response = await book({ recurrence: { frequency: "weekly", count: 3 } });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toHaveLength(3);
+      const seriesIds = new Set(response.body.data.map((a: { seriesId: string }) => a.seriesId));
+      expect(seriesIds.size).toBe(1);
+      expect(new Date(response.body.data[2].startsAt).getTime()).toBe(
+        tomorrowAt(10).getTime() + 14 * DAY_MS
+      );
+    });
+
+    it("should book none of a series if any appointment clashes", async () => {
+      await book({
+        startsAt: new Date(tomorrowAt(10).getTime() + 7 * DAY_MS).toISOString(),
+        endsAt: new Date(tomorrowAt(11).getTime() + 7 * DAY_MS).toISOString(),
+      });
+
+      const response = await book({ recurrence: { frequency: "weekly", count: 3 } });
+      expect(response.status).toBe(409);
+
+      const list = await request(app)
+        .get("/api/appointments")
+        .set(getAuthHeader(adminToken));
+      expect(list.body.data).toHaveLength(1);
+    });
+
+    it("should reject an appointment that ends before it starts", async () => {
+      const response = await book({ endsAt: tomorrowAt(9).toISOString() });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/appointments", () => {
+    it("should list appointments overlapping a date range", async () => {
+      await book();
+      await book({
+        startsAt: new Date(tomorrowAt(10).getTime() + 7 * DAY_MS).toISOString(),
+        endsAt: new Date(tomorrowAt(11).getTime() + 7 * DAY_MS).toISOString(),
+      });
+
+      const response = await request(app)
+        .get("/api/appointments")
+        .query({
+          start: tomorrowAt(0).toISOString(),
+          end: new Date(tomorrowAt(0).getTime() + DAY_MS).toISOString(),
+        })
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].technicianName).toBe("Technician User");
+    });
+  });
+
+  describe("POST /api/appointments/:id/cancel", () => {
+    it("should cancel the rest of a series and free the technician", async () => {
+      const created = await book({ recurrence: { frequency: "daily", count: 3 } });
+      const second = created.body.data[1];
+
+      const response = await request(app)
+        .post(`/api/appointments/${second.id}/cancel`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ includeFollowing: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("cancelled");
+
+      const list = await request(app)
+        .get("/api/appointments")
+        .set(getAuthHeader(adminToken));
+      expect(list.body.data.map((a: { status: string }) => a.status)).toEqual([
+        "scheduled",
+        "cancelled",
+        "cancelled",
+      ]);
+
+      const rebooked = await book({
+        startsAt: second.startsAt,
+        endsAt: second.endsAt,
+      });
+      expect(rebooked.status).toBe(201);
+    });
+  });
+
+  describe("POST /api/appointments/:id/check-in", () => {
+    it("should open a ticket for the appointment", async () => {
+      const created = await book();
+      const appointmentId = created.body.data[0].id;
+
+      const response = await request(app)
+        .post(`/api/appointments/${appointmentId}/check-in`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ deviceBrand: "Apple" });
+
+      expect(response.status).toBe(201);
+      testTicketIds.push(response.body.data.ticket.id);
+      expect(response.body.data.ticket).toMatchObject({
+        customerId,
+        technicianId,
+        deviceType: "Phone",
+        deviceBrand: "Apple",
+        issueDescription: "Cracked screen",
+      });
+      expect(response.body.data.appointment).toMatchObject({
+        status: "checked_in",
+        ticketId: response.body.data.ticket.id,
+      });
+    });
+
+    it("should not check in the same appointment twice", async () => {
+      const created = await book();
+      const appointmentId = created.body.data[0].id;
+
+      const first = await request(app)
+        .post(`/api/appointments/${appointmentId}/check-in`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({});
+      testTicketIds.push(first.body.data.ticket.id);
+
+      const second = await request(app)
+        .post(`/api/appointments/${appointmentId}/check-in`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({});
+
+      expect(second.status).toBe(400);
+    });
+
+    it("should require the device type when the booking didn't give one", async () => {
+      const created = await book({ deviceType: null });
+
+      const response = await request(app)
+        .post(`/api/appointments/${created.body.data[0].id}/check-in`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.data?.ticket).toBeUndefined();
+    });
+  });
+});
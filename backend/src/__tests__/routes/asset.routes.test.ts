@@ -710,4 +710,50 @@ describe("Asset Routes Integration Tests", () => {
       expect(assetIds).not.toContain(assetId);
     });
   });
+
+  describe("/api/assets/:id/attachments", () => {
+    it("should upload and list attachments for an asset", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const assetId = await createTestAsset(testCompanyId, customerId, {
+        deviceType: "Laptop",
+      });
+      testAssetIds.push(assetId);
+
+      const upload = await request(app)
+        .post(`/api/assets/${assetId}/attachments`)
+        .set(getAuthHeader(frontdeskToken))
+        .attach("files", Buffer.from("%PDF-1.4\n"), {
+          filename: "purchase-receipt.pdf",
+          contentType: "application/pdf",
+        });
+
+      expect(upload.status).toBe(201);
+      expect(upload.body.data[0].assetId).toBe(assetId);
+      expect(upload.body.data[0].ticketId).toBeNull();
+
+      const list = await request(app)
+        .get(`/api/assets/${assetId}/attachments`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(list.status).toBe(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].fileName).toBe("purchase-receipt.pdf");
+    });
+
+    it("should not expose attachments from another company", async () => {
+      const customerId = await createTestCustomer(testCompany2Id);
+      testCustomerIds.push(customerId);
+
+      const assetId = await createTestAsset(testCompany2Id, customerId);
+      testAssetIds.push(assetId);
+
+      const response = await request(app)
+        .get(`/api/assets/${assetId}/attachments`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData, getTestDb } from "../helpers/db.helper.js";
+import { assignUserRole, createTestCompany } from "../helpers/seed.helper.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Open every day so the tests don't depend on which weekday they run
+const ALL_WEEK = Object.fromEntries(
+  ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"].map((day) => [
+    day,
+    { open: "09:00", close: "12:00" },
+  ])
+);
+
+// Tomorrow's date in UTC, the test location's time zone
+function tomorrow(): string {
+  return new Date(Date.now() + DAY_MS).toISOString().slice(0, 10);
+}
+
+describe("Booking Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let adminToken: string;
+  let technicianId: string;
+  let locationId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianId = users.technician.userId;
+    locationId = users.locationId;
+    // Online booking picks technicians from user_roles, which the auth helper doesn't fill in
+    await assignUserRole(technicianId, testCompanyId, "technician");
+
+    await getTestDb()
+      .updateTable("locations")
+      .set({
+        booking_enabled: true,
+        business_hours: ALL_WEEK,
+        booking_slot_minutes: 60,
+      })
+      .where("id", "=", locationId)
+      .execute();
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+    });
+    testUserIds = [];
+  });
+
+  const book = (startsAt: string) =>
+    request(app).post(`/api/booking/${locationId}`).send({
+      startsAt,
+      firstName: "Jane",
+      lastName: "Doe",
+      email: "jane.doe@example.com",
+      deviceType: "Laptop",
+      issueDescription: "Won't turn on",
+    });
+
+  describe("GET /api/booking/:locationId", () => {
+    it("should return the location's booking details", async () => {
+      const response = await request(app).get(`/api/booking/${locationId}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        locationName: "Default Test Location",
+        timezone: "UTC",
+        slotMinutes: 60,
+      });
+    });
+
+    it("should return 404 when online booking is turned off", async () => {
+      await getTestDb()
+        .updateTable("locations")
+        .set({ booking_enabled: false })
+        .where("id", "=", locationId)
+        .execute();
+
+      const response = await request(app).get(`/api/booking/${locationId}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/booking/:locationId/slots", () => {
+    it("should list the slots within opening hours", async () => {
+      const response = await request(app)
+        .get(`/api/booking/${locationId}/slots`)
+        .query({ date: tomorrow() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((slot: { startsAt: string }) => slot.startsAt)).toEqual([
+        `${tomorrow()}T09:00:00.000Z`,
+        `${tomorrow()}T10:00:00.000Z`,
+        `${tomorrow()}T11:00:00.000Z`,
+      ]);
+    });
+
+    it("should leave out slots the technician is already booked for", async () => {
+      await book(`${tomorrow()}T10:00:00.000Z`);
+
+      const response = await request(app)
+        .get(`/api/booking/${locationId}/slots`)
+        .query({ date: tomorrow() });
+
+      expect(response.body.data.map((slot: { startsAt: string }) => slot.startsAt)).toEqual([
+        `${tomorrow()}T09:00:00.000Z`,
+        `${tomorrow()}T11:00:00.000Z`,
+      ]);
+    });
+  });
+
+  describe("POST /api/booking/:locationId", () => {
+    it("should book the slot with a free technician", async () => {
+      const response = await book(`${tomorrow()}T09:00:00.000Z`);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        locationName: "Default Test Location",
+        startsAt: `${tomorrow()}T09:00:00.000Z`,
+        endsAt: `${tomorrow()}T10:00:00.000Z`,
+      });
+      expect(response.body.data.technicianId).toBeUndefined();
+
+      const appointment = await request(app)
+        .get(`/api/appointments/${response.body.data.appointmentId}`)
+        .set(getAuthHeader(adminToken));
+      expect(appointment.body.data).toMatchObject({
+        source: "online",
+        technicianId,
+        customerId: null,
+        customerName: "Jane Doe",
+        contactEmail: "jane.doe@example.com",
+      });
+    });
+
+    it("should not double-book the only technician", async () => {
+      await book(`${tomorrow()}T09:00:00.000Z`);
+
+      const response = await book(`${tomorrow()}T09:00:00.000Z`);
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should reject a time outside opening hours", async () => {
+      const response = await book(`${tomorrow()}T13:00:00.000Z`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
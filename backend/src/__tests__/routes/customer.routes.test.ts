@@ -1,13 +1,17 @@
+import { jest } from "@jest/globals";
 import request from "supertest";
 import app from "../../app.js";
+import { db } from "../../config/connection.js";
+import paymentService from "../../integrations/payment/payment.service.js";
 import { cleanupTestData } from "../helpers/db.helper.js";
-import { createTestCompany, createTestCustomer } from "../helpers/seed.helper.js";
+import { createTestCompany, createTestCustomer, createTestTicket } from "../helpers/seed.helper.js";
 import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
 
 describe("Customer Routes Integration Tests", () => {
   let testCompanyId: string;
   let testUserIds: string[] = [];
   let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
   let authToken: string;
   let adminToken: string;
   let frontdeskToken: string;
@@ -31,9 +35,11 @@ describe("Customer Routes Integration Tests", () => {
       companyIds: [testCompanyId],
       userIds: testUserIds,
       customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
     });
     testUserIds = [];
     testCustomerIds = [];
+    testTicketIds = [];
   });
 
   describe("GET /api/customers", () => {
@@ -350,4 +356,189 @@ describe("Customer Routes Integration Tests", () => {
       expect(response.body.data).toEqual([]);
     });
   });
+
+  describe("customer deposits", () => {
+    const takeDeposit = (customerId: string, data: Record<string, unknown>) =>
+      request(app)
+        .post(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(adminToken))
+        .send(data);
+
+    const getDeposits = (customerId: string) =>
+      request(app)
+        .get(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(authToken));
+
+    it("should take a deposit for a ticket and add it to the credit balance", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const ticketId = await createTestTicket(testCompanyId, customerId);
+      testTicketIds.push(ticketId);
+
+      const response = await takeDeposit(customerId, {
+        ticketId,
+        amount: 150,
+        paymentMethod: "Cash",
+        notes: "Screen on order",
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        customerId,
+        ticketId,
+        amount: 150,
+        remainingAmount: 150,
+        paymentMethod: "Cash",
+        isProviderPayment: false,
+      });
+
+      const deposits = await getDeposits(customerId);
+      expect(deposits.status).toBe(200);
+      expect(deposits.body.data.creditBalance).toBe(150);
+      expect(deposits.body.data.deposits).toHaveLength(1);
+    });
+
+    it("should reject a ticket that belongs to another customer", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      const otherCustomerId = await createTestCustomer(testCompanyId, { email: "other@example.com" });
+      testCustomerIds.push(customerId, otherCustomerId);
+      const ticketId = await createTestTicket(testCompanyId, otherCustomerId);
+      testTicketIds.push(ticketId);
+
+      const response = await takeDeposit(customerId, {
+        ticketId,
+        amount: 50,
+        paymentMethod: "Cash",
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let technicians take deposits", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const response = await request(app)
+        .post(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(authToken))
+        .send({ amount: 50, paymentMethod: "Cash" });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should refund what's left of a cash deposit", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const deposit = (await takeDeposit(customerId, { amount: 80, paymentMethod: "Cash" })).body.data;
+
+      const refund = await request(app)
+        .post(`/api/customers/${customerId}/deposits/${deposit.id}/refund`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: 30 });
+
+      expect(refund.status).toBe(200);
+      expect(refund.body.data).toMatchObject({ amountRefunded: 30, remainingAmount: 50 });
+
+      const overRefund = await request(app)
+        .post(`/api/customers/${customerId}/deposits/${deposit.id}/refund`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: 60 });
+
+      expect(overRefund.status).toBe(400);
+      expect((await getDeposits(customerId)).body.data.creditBalance).toBe(50);
+    });
+
+    it("should refund a card deposit through the payment provider", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const deposit = (await takeDeposit(customerId, { amount: 200, paymentMethod: "CARD" })).body.data;
+      // As if the deposit had been charged through the payment integration
+      await db
+        .updateTable("customer_deposits")
+        .set({ is_provider_payment: true, payment_reference: "sq-payment-1" })
+        .where("id", "=", deposit.id)
+        .execute();
+
+      const refundPayment = jest.spyOn(paymentService, "refundPayment").mockResolvedValue({
+        refundId: "sq-refund-1",
+        status: "succeeded",
+        amount: 200,
+        currency: "USD",
+        transactionId: "sq-payment-1",
+      });
+
+      try {
+        const response = await request(app)
+          .post(`/api/customers/${customerId}/deposits/${deposit.id}/refund`)
+          .set(getAuthHeader(adminToken))
+          .send({ reason: "Part cancelled" });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data).toMatchObject({ amountRefunded: 200, remainingAmount: 0 });
+        expect(refundPayment).toHaveBeenCalledWith(testCompanyId, {
+          transactionId: "sq-payment-1",
+          amount: 200,
+          reason: "Part cancelled",
+        });
+      } finally {
+        refundPayment.mockRestore();
+      }
+    });
+  });
+
+  describe("customer store credit", () => {
+    it("should adjust store credit by hand and keep the history", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const given = await request(app)
+        .post(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: 40, notes: "Late repair" });
+      expect(given.status).toBe(201);
+      expect(given.body.data).toMatchObject({ type: "adjustment", amount: 40, balanceAfter: 40 });
+
+      const takenAway = await request(app)
+        .post(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: -15, notes: "Entered twice" });
+      expect(takenAway.body.data.balanceAfter).toBe(25);
+
+      const response = await request(app)
+        .get(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(authToken));
+      expect(response.status).toBe(200);
+      expect(response.body.data.balance).toBe(25);
+      expect(response.body.data.transactions).toHaveLength(2);
+
+      const customer = await request(app)
+        .get(`/api/customers/${customerId}`)
+        .set(getAuthHeader(authToken));
+      expect(customer.body.data.storeCreditBalance).toBe(25);
+    });
+
+    it("should not take away more store credit than the customer has", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const response = await request(app)
+        .post(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: -5, notes: "Correction" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let technicians adjust store credit", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const response = await request(app)
+        .post(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(authToken))
+        .send({ amount: 10, notes: "Goodwill" });
+
+      expect(response.status).toBe(403);
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import request from "supertest";
+import app from "../../app.js";
+import ticketFeedService, { TicketChange } from "../../services/ticket-feed.service.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  assignUserRole,
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+describe("Dispatch Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let frontdeskToken: string;
+  let technicianId: string;
+  let locationId: string;
+  let customerId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianId = users.technician.userId;
+    locationId = users.locationId;
+    // Technician lists come from user_roles, which the auth helper doesn't fill in
+    await assignUserRole(technicianId, testCompanyId, "technician");
+
+    customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const createTicket = async (overrides: Parameters<typeof createTestTicket>[2] = {}) => {
+    const ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId,
+      ...overrides,
+    });
+    testTicketIds.push(ticketId);
+    return ticketId;
+  };
+
+  describe("GET /api/dispatch/board", () => {
+    it("should list open tickets with technician workloads", async () => {
+      const openTicketId = await createTicket({ technicianId, status: "assigned", priority: "low" });
+      const urgentTicketId = await createTicket({ priority: "urgent" });
+      const closedTicketId = await createTicket({ technicianId, status: "completed" });
+
+      const response = await request(app)
+        .get("/api/dispatch/board")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      const ticketIds = response.body.data.tickets.map((t: { id: string }) => t.id);
+      expect(ticketIds).toEqual([urgentTicketId, openTicketId]);
+      expect(ticketIds).not.toContain(closedTicketId);
+      expect(response.body.data.tickets[1]).toMatchObject({
+        technicianId,
+        status: "assigned",
+        priority: "low",
+      });
+      expect(response.body.data.tickets[1].customerName).toBeTruthy();
+
+      const technician = response.body.data.technicians.find(
+        (t: { id: string }) => t.id === technicianId
+      );
+      expect(technician).toMatchObject({ openTickets: 1 });
+    });
+
+    it("should be limited to admins and managers", async () => {
+      const response = await request(app)
+        .get("/api/dispatch/board")
+        .set(getAuthHeader(frontdeskToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Dispatching from a stale board", () => {
+    it("should refuse an assignment if the ticket was reassigned in the meantime", async () => {
+      const ticketId = await createTicket({ technicianId });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/assign`)
+        .set(getAuthHeader(adminToken))
+        .send({ technicianId: null, expectedTechnicianId: null });
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should assign when the expected technician matches", async () => {
+      const ticketId = await createTicket();
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/assign`)
+        .set(getAuthHeader(adminToken))
+        .send({ technicianId, expectedTechnicianId: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.technicianId).toBe(technicianId);
+    });
+
+    it("should refuse a status change if the ticket already moved", async () => {
+      const ticketId = await createTicket({ status: "in_progress" });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(adminToken))
+        .send({ status: "on_hold", expectedStatus: "new" });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("Live updates", () => {
+    it("should publish ticket changes to the company's subscribers", async () => {
+      const ticketId = await createTicket();
+      const changes: TicketChange[] = [];
+      const unsubscribe = ticketFeedService.subscribe(testCompanyId, (change) =>
+        changes.push(change)
+      );
+
+      try {
+        await request(app)
+          .post(`/api/tickets/${ticketId}/assign`)
+          .set(getAuthHeader(adminToken))
+          .send({ technicianId });
+      } finally {
+        unsubscribe();
+      }
+
+      expect(changes).toEqual([
+        expect.objectContaining({ ticketId, eventTypes: ["technician_assigned"] }),
+      ]);
+    });
+  });
+});
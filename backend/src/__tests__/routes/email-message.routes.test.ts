@@ -0,0 +1,288 @@
+import { jest } from "@jest/globals";
+import { sql } from "kysely";
+import request from "supertest";
+import app from "../../app.js";
+import { db } from "../../config/connection.js";
+import emailService from "../../integrations/email/email.service.js";
+import sendGridAdapter from "../../integrations/email/sendgrid.adapter.js";
+import credentialService from "../../services/credential.service.js";
+import ticketService from "../../services/ticket.service.js";
+import { generateEmailEventsToken } from "../../utils/auth.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+// Stand in for SendGrid, which turns the email away or accepts it with a message ID
+const sendEmail = jest.spyOn(sendGridAdapter, "sendEmail");
+
+describe("Email Message Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+
+    const customerId = await createTestCustomer(testCompanyId, { email: "jane@example.com" });
+    ticketId = await createTestTicket(testCompanyId, customerId, { status: "new" });
+    testCustomerIds.push(customerId);
+    testTicketIds.push(ticketId);
+
+    await credentialService.saveIntegration(testCompanyId, "email", {
+      provider: "sendgrid",
+      enabled: true,
+      credentials: { apiKey: "SG.test-api-key-123" },
+      settings: { fromEmail: "shop@example.com" },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+    sendEmail.mockReset();
+  });
+
+  const getLog = (query: Record<string, string> = {}) =>
+    request(app)
+      .get("/api/email-messages")
+      .query(query)
+      .set(getAuthHeader(adminToken));
+
+  // A ticket status email that SendGrid turned away
+  const failStatusEmail = async () => {
+    sendEmail.mockRejectedValue(new Error("Service Unavailable"));
+    await ticketService.updateStatus(ticketId, "in_progress", testCompanyId);
+    const log = await getLog();
+    return log.body.data[0];
+  };
+
+  describe("GET /api/email-messages", () => {
+    it("should log a sent email with SendGrid's message ID", async () => {
+      sendEmail.mockResolvedValue("sg-message-1");
+
+      await ticketService.updateStatus(ticketId, "in_progress", testCompanyId);
+
+      const response = await getLog();
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        template: "ticket_status",
+        sender: "company",
+        toAddress: "jane@example.com",
+        status: "sent",
+        attempts: 1,
+        providerMessageId: "sg-message-1",
+        error: null,
+      });
+      expect(response.body.pagination).toMatchObject({ page: 1, total: 1 });
+
+      expect(sendEmail.mock.calls[0][1].customArgs?.email_message_id).toBe(response.body.data[0].id);
+    });
+
+    it("should filter by status", async () => {
+      await failStatusEmail();
+
+      const pending = await getLog({ status: "pending" });
+      const sent = await getLog({ status: "sent" });
+
+      expect(pending.body.data).toHaveLength(1);
+      expect(sent.body.data).toHaveLength(0);
+    });
+
+    it("should reject an unknown status", async () => {
+      const response = await getLog({ status: "lost" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should be admin only", async () => {
+      const response = await request(app)
+        .get("/api/email-messages")
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("retry queue", () => {
+    it("should keep a failed send and retry it with backoff", async () => {
+      const message = await failStatusEmail();
+
+      expect(message).toMatchObject({
+        status: "pending",
+        attempts: 1,
+        error: "Service Unavailable",
+      });
+      expect(new Date(message.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+
+      // Nothing is due yet (the queue is shared with other companies, so check this message only)
+      await emailService.retryDueMessages();
+      const untouched = await request(app)
+        .get(`/api/email-messages/${message.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(untouched.body.data).toMatchObject({ status: "pending", attempts: 1 });
+
+      await db
+        .updateTable("email_messages")
+        .set({ next_attempt_at: sql`now() - interval '1 second'` })
+        .where("id", "=", message.id)
+        .execute();
+      sendEmail.mockResolvedValue("sg-message-2");
+
+      await emailService.retryDueMessages();
+
+      const retried = await request(app)
+        .get(`/api/email-messages/${message.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(retried.body.data).toMatchObject({
+        status: "sent",
+        attempts: 2,
+        nextAttemptAt: null,
+        providerMessageId: "sg-message-2",
+        error: null,
+      });
+    });
+
+    it("should mark the email failed once it's out of attempts", async () => {
+      const message = await failStatusEmail();
+
+      await db
+        .updateTable("email_messages")
+        .set({ attempts: 4, next_attempt_at: sql`now() - interval '1 second'` })
+        .where("id", "=", message.id)
+        .execute();
+
+      await emailService.retryDueMessages();
+
+      const response = await request(app)
+        .get(`/api/email-messages/${message.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(response.body.data).toMatchObject({
+        status: "failed",
+        attempts: 5,
+        nextAttemptAt: null,
+      });
+    });
+  });
+
+  describe("POST /api/email-messages/:id/resend", () => {
+    it("should send a failed email again", async () => {
+      const message = await failStatusEmail();
+      await db
+        .updateTable("email_messages")
+        .set({ status: "failed", next_attempt_at: null })
+        .where("id", "=", message.id)
+        .execute();
+      sendEmail.mockResolvedValue("sg-message-3");
+
+      const response = await request(app)
+        .post(`/api/email-messages/${message.id}/resend`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        status: "sent",
+        providerMessageId: "sg-message-3",
+      });
+    });
+
+    it("should show why a resend failed", async () => {
+      const message = await failStatusEmail();
+      await db
+        .updateTable("email_messages")
+        .set({ status: "failed", next_attempt_at: null })
+        .where("id", "=", message.id)
+        .execute();
+
+      const response = await request(app)
+        .post(`/api/email-messages/${message.id}/resend`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("Service Unavailable");
+    });
+
+    it("should not resend an email that went out", async () => {
+      sendEmail.mockResolvedValue("sg-message-4");
+      await ticketService.updateStatus(ticketId, "in_progress", testCompanyId);
+      const log = await getLog();
+
+      const response = await request(app)
+        .post(`/api/email-messages/${log.body.data[0].id}/resend`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(400);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("POST /api/email/events/:companyId/:token", () => {
+    const postEvents = (events: unknown, token = generateEmailEventsToken(testCompanyId)) =>
+      request(app).post(`/api/email/events/${testCompanyId}/${token}`).send(events);
+
+    it("should track delivery and opens", async () => {
+      sendEmail.mockResolvedValue("sg-message-5");
+      await ticketService.updateStatus(ticketId, "in_progress", testCompanyId);
+      const { id } = (await getLog()).body.data[0];
+
+      const response = await postEvents([
+        { event: "processed", sg_message_id: "sg-message-5.filter0001", timestamp: 1767225600 },
+        { event: "delivered", sg_message_id: "sg-message-5.filter0001", timestamp: 1767225600 },
+        { event: "open", email_message_id: id, timestamp: 1767225660 },
+      ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.processed).toBe(2);
+
+      const message = (await getLog()).body.data[0];
+      expect(message).toMatchObject({ status: "opened" });
+      expect(new Date(message.deliveredAt).getTime()).toBe(1767225600000);
+      expect(new Date(message.openedAt).getTime()).toBe(1767225660000);
+    });
+
+    it("should record bounces", async () => {
+      sendEmail.mockResolvedValue("sg-message-6");
+      await ticketService.updateStatus(ticketId, "in_progress", testCompanyId);
+
+      await postEvents([
+        {
+          event: "bounce",
+          sg_message_id: "sg-message-6.filter0001",
+          reason: "550 5.1.1 The email account does not exist",
+          timestamp: 1767225600,
+        },
+      ]);
+
+      const message = (await getLog({ status: "bounced" })).body.data[0];
+      expect(message).toMatchObject({
+        status: "bounced",
+        error: "550 5.1.1 The email account does not exist",
+      });
+    });
+
+    it("should reject the wrong token", async () => {
+      const response = await postEvents([], "0".repeat(64));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
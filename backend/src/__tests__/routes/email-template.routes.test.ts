@@ -0,0 +1,198 @@
+import { jest } from "@jest/globals";
+import request from "supertest";
+import app from "../../app.js";
+import sendGridAdapter from "../../integrations/email/sendgrid.adapter.js";
+import credentialService from "../../services/credential.service.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import { createTestCompany } from "../helpers/seed.helper.js";
+
+// Stub SendGrid so test emails aren't really sent
+const sendEmail = jest.spyOn(sendGridAdapter, "sendEmail");
+
+describe("Email Template Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+    });
+    testUserIds = [];
+    sendEmail.mockReset();
+  });
+
+  describe("GET /api/email-templates", () => {
+    it("should return the built-in templates and default branding", async () => {
+      const response = await request(app)
+        .get("/api/email-templates")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.templates.map((template: { key: string }) => template.key)).toEqual([
+        "ticket_status",
+        "invoice",
+        "invitation",
+        "password_reset",
+      ]);
+      expect(response.body.data.templates[0]).toMatchObject({
+        key: "ticket_status",
+        isCustom: false,
+        subject: "Ticket {{ticketNumber}} Status Update: {{status}}",
+      });
+      expect(response.body.data.branding).toEqual({
+        primaryColor: "#2563eb",
+        accentColor: "#2563eb",
+        logoUrl: null,
+      });
+    });
+
+    it("should be admin only", async () => {
+      const response = await request(app)
+        .get("/api/email-templates")
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("PUT /api/email-templates/:key", () => {
+    it("should save the company's version and reset back to the default", async () => {
+      const saved = await request(app)
+        .put("/api/email-templates/ticket_status")
+        .set(getAuthHeader(adminToken))
+        .send({
+          subject: "{{ticketNumber}} is now {{status}}",
+          body: "Hi {{customerFirstName}},\n\nYour {{device}} is {{status}}.\n\n[Track it]({{portalLink}})",
+        });
+
+      expect(saved.status).toBe(200);
+      expect(saved.body.data).toMatchObject({
+        key: "ticket_status",
+        isCustom: true,
+        subject: "{{ticketNumber}} is now {{status}}",
+      });
+
+      const reset = await request(app)
+        .delete("/api/email-templates/ticket_status")
+        .set(getAuthHeader(adminToken));
+
+      expect(reset.status).toBe(200);
+      expect(reset.body.data).toMatchObject({
+        isCustom: false,
+        subject: "Ticket {{ticketNumber}} Status Update: {{status}}",
+      });
+    });
+
+    it("should reject variables the template doesn't have", async () => {
+      const response = await request(app)
+        .put("/api/email-templates/invoice")
+        .set(getAuthHeader(adminToken))
+        .send({ subject: "Invoice {{invoiceNumber}}", body: "Hello {{firstName}}" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("{{firstName}}");
+    });
+
+    it("should reject an unknown template", async () => {
+      const response = await request(app)
+        .put("/api/email-templates/newsletter")
+        .set(getAuthHeader(adminToken))
+        .send({ subject: "Hello", body: "Hello" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("branding", () => {
+    it("should use the brand colors in previews", async () => {
+      const branding = await request(app)
+        .put("/api/email-templates/branding")
+        .set(getAuthHeader(adminToken))
+        .send({ primaryColor: "#aa0000" });
+
+      expect(branding.status).toBe(200);
+      expect(branding.body.data).toMatchObject({ primaryColor: "#aa0000", accentColor: "#2563eb" });
+
+      const preview = await request(app)
+        .post("/api/email-templates/invitation/preview")
+        .set(getAuthHeader(adminToken))
+        .send({});
+
+      expect(preview.status).toBe(200);
+      expect(preview.body.data.html).toContain("border-top: 4px solid #aa0000");
+      expect(preview.body.data.html).toContain(">Accept Invitation</a>");
+    });
+
+    it("should reject colors that aren't hex", async () => {
+      const response = await request(app)
+        .put("/api/email-templates/branding")
+        .set(getAuthHeader(adminToken))
+        .send({ accentColor: "red" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/email-templates/:key/preview", () => {
+    it("should render unsaved edits with sample data", async () => {
+      const response = await request(app)
+        .post("/api/email-templates/ticket_status/preview")
+        .set(getAuthHeader(adminToken))
+        .send({
+          subject: "{{ticketNumber}}: {{status}}",
+          body: "Hi {{customerFirstName}}{{#repairNotes}}\n\n{{repairNotes}}{{/repairNotes}}",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.subject).toBe("TKT-20250101-001: Ready for pickup");
+      expect(response.body.data.text).toBe(
+        "Hi Jane\n\nReplaced the screen and tested touch and Face ID."
+      );
+    });
+  });
+
+  describe("POST /api/email-templates/:key/test", () => {
+    it("should need an email integration", async () => {
+      const response = await request(app)
+        .post("/api/email-templates/invoice/test")
+        .set(getAuthHeader(adminToken))
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("should send a sample to the signed-in admin", async () => {
+      await credentialService.saveIntegration(testCompanyId, "email", {
+        provider: "sendgrid",
+        enabled: true,
+        credentials: { apiKey: "SG.test-api-key-123" },
+        settings: { fromEmail: "shop@example.com" },
+      });
+      sendEmail.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post("/api/email-templates/invoice/test")
+        .set(getAuthHeader(adminToken))
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      const emailData = sendEmail.mock.calls[0][1] as { to: string; subject: string };
+      expect(emailData.to).toBe(response.body.data.sentTo);
+      expect(emailData.subject).toBe("[Test] Invoice INV-20250101-001: Payment Due");
+    });
+  });
+});
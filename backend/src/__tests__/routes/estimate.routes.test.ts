@@ -0,0 +1,276 @@
+import request from "supertest";
+import app from "../../app.js";
+import { db } from "../../config/connection.js";
+import { generateEstimateToken } from "../../utils/auth.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+const estimateItems = [
+  { description: "Replacement screen", quantity: 1, unitPrice: 120, type: "part" },
+  { description: "Labor", quantity: 2, unitPrice: 40, type: "service" },
+];
+
+describe("Estimate Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+
+    const customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+
+    ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId: users.locationId,
+      status: "in_progress",
+    });
+    testTicketIds.push(ticketId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const createEstimate = async (overrides: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post("/api/estimates")
+      .set(getAuthHeader(technicianToken))
+      .send({ ticketId, items: estimateItems, ...overrides });
+    expect(response.status).toBe(201);
+    return response.body.data;
+  };
+
+  const sendEstimate = async (overrides: Record<string, unknown> = {}) => {
+    const estimate = await createEstimate(overrides);
+    const response = await request(app)
+      .post(`/api/estimates/${estimate.id}/send`)
+      .set(getAuthHeader(technicianToken));
+    expect(response.status).toBe(200);
+    return response.body.data;
+  };
+
+  const getTicketStatus = async () => {
+    const ticket = await db
+      .selectFrom("tickets")
+      .select("status")
+      .where("id", "=", ticketId)
+      .executeTakeFirstOrThrow();
+    return ticket.status;
+  };
+
+  describe("POST /api/estimates", () => {
+    it("should create a draft estimate with line totals", async () => {
+      const estimate = await createEstimate();
+
+      expect(estimate).toMatchObject({ status: "draft", ticketId, subtotal: 200 });
+      expect(estimate.estimateNumber).toMatch(/^EST-/);
+      expect(estimate.items).toHaveLength(2);
+      expect(estimate.items[1]).toMatchObject({ description: "Labor", subtotal: 80 });
+    });
+
+    it("should return 404 for a ticket in another company", async () => {
+      const otherCompanyId = await createTestCompany();
+      const otherCustomerId = await createTestCustomer(otherCompanyId);
+      const otherTicketId = await createTestTicket(otherCompanyId, otherCustomerId);
+
+      const response = await request(app)
+        .post("/api/estimates")
+        .set(getAuthHeader(technicianToken))
+        .send({ ticketId: otherTicketId, items: estimateItems });
+
+      expect(response.status).toBe(404);
+
+      await cleanupTestData({
+        companyIds: [otherCompanyId],
+        customerIds: [otherCustomerId],
+        ticketIds: [otherTicketId],
+      });
+    });
+  });
+
+  describe("POST /api/estimates/:id/send", () => {
+    it("should hold the ticket in Awaiting Approval", async () => {
+      await sendEstimate();
+
+      expect(await getTicketStatus()).toBe("awaiting_approval");
+
+      const statusChange = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(adminToken))
+        .send({ status: "completed" });
+      expect(statusChange.status).toBe(400);
+    });
+
+    it("should not allow a sent estimate to be edited", async () => {
+      const estimate = await sendEstimate();
+
+      const response = await request(app)
+        .put(`/api/estimates/${estimate.id}`)
+        .set(getAuthHeader(technicianToken))
+        .send({ notes: "Changed" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("Only draft estimates can be edited");
+    });
+
+    it("should not send a second estimate while one is awaiting approval", async () => {
+      await sendEstimate();
+      const second = await createEstimate();
+
+      const response = await request(app)
+        .post(`/api/estimates/${second.id}/send`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/estimates/:id/withdraw", () => {
+    it("should release the ticket back to its previous status", async () => {
+      const estimate = await sendEstimate();
+
+      const response = await request(app)
+        .post(`/api/estimates/${estimate.id}/withdraw`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("withdrawn");
+      expect(await getTicketStatus()).toBe("in_progress");
+    });
+  });
+
+  describe("Customer approval", () => {
+    it("should approve the estimate and create a draft invoice", async () => {
+      const estimate = await sendEstimate();
+      const token = generateEstimateToken(estimate.id, testCompanyId);
+
+      const view = await request(app).get(`/api/portal/estimates/${token}`);
+      expect(view.status).toBe(200);
+      expect(view.body.data).toMatchObject({ status: "sent", totalAmount: estimate.totalAmount });
+
+      const response = await request(app)
+        .post(`/api/portal/estimates/${token}/approve`)
+        .send({ name: "Jane Customer" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ status: "approved", approvedByName: "Jane Customer" });
+      expect(await getTicketStatus()).toBe("in_progress");
+
+      const saved = await request(app)
+        .get(`/api/estimates/${estimate.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(saved.body.data.invoiceId).toBeTruthy();
+
+      const invoice = await request(app)
+        .get(`/api/invoices/${saved.body.data.invoiceId}`)
+        .set(getAuthHeader(adminToken));
+      expect(invoice.body.data).toMatchObject({ status: "draft", ticketId });
+      expect(invoice.body.data.invoiceItems).toHaveLength(2);
+    });
+
+    it("should create only one invoice when it's converted twice at once", async () => {
+      const estimate = await sendEstimate();
+      // Approved, but as if the automatic conversion had failed
+      await db
+        .updateTable("estimates")
+        .set({ status: "approved" })
+        .where("id", "=", estimate.id)
+        .execute();
+
+      const convert = () =>
+        request(app)
+          .post(`/api/estimates/${estimate.id}/convert`)
+          .set(getAuthHeader(adminToken));
+      const responses = await Promise.all([convert(), convert()]);
+
+      expect(responses.map((response: { status: number }) => response.status).sort()).toEqual([200, 400]);
+      const invoices = await db
+        .selectFrom("invoices")
+        .select("id")
+        .where("ticket_id", "=", ticketId)
+        .where("deleted_at", "is", null)
+        .execute();
+      expect(invoices).toHaveLength(1);
+    });
+
+    it("should record a decline without creating an invoice", async () => {
+      const estimate = await sendEstimate();
+      const token = generateEstimateToken(estimate.id, testCompanyId);
+
+      const response = await request(app)
+        .post(`/api/portal/estimates/${token}/decline`)
+        .send({ reason: "Too expensive" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("declined");
+      expect(await getTicketStatus()).toBe("in_progress");
+
+      const saved = await request(app)
+        .get(`/api/estimates/${estimate.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(saved.body.data).toMatchObject({ declineReason: "Too expensive", invoiceId: null });
+    });
+
+    it("should not accept a second response", async () => {
+      const estimate = await sendEstimate();
+      const token = generateEstimateToken(estimate.id, testCompanyId);
+
+      await request(app).post(`/api/portal/estimates/${token}/decline`).send({});
+      const response = await request(app)
+        .post(`/api/portal/estimates/${token}/approve`)
+        .send({ name: "Jane Customer" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("This estimate has already been declined");
+    });
+
+    it("should not allow an expired estimate to be approved", async () => {
+      const estimate = await sendEstimate();
+      await db
+        .updateTable("estimates")
+        .set({ valid_until: new Date(Date.now() - 60 * 1000).toISOString() })
+        .where("id", "=", estimate.id)
+        .execute();
+      const token = generateEstimateToken(estimate.id, testCompanyId);
+
+      const response = await request(app)
+        .post(`/api/portal/estimates/${token}/approve`)
+        .send({ name: "Jane Customer" });
+
+      expect(response.status).toBe(400);
+      expect(await getTicketStatus()).toBe("awaiting_approval");
+    });
+
+    it("should not show draft estimates to customers", async () => {
+      const estimate = await createEstimate();
+      const token = generateEstimateToken(estimate.id, testCompanyId);
+
+      const response = await request(app).get(`/api/portal/estimates/${token}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
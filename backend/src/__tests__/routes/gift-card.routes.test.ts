@@ -0,0 +1,183 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestInvoice,
+} from "../helpers/seed.helper.js";
+
+describe("Gift Card Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testInvoiceIds: string[] = [];
+  let testLocationId: string;
+  let adminToken: string;
+  let technicianToken: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    testLocationId = users.locationId;
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      invoiceIds: testInvoiceIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testInvoiceIds = [];
+  });
+
+  const sellGiftCard = (data: Record<string, unknown>) =>
+    request(app).post("/api/gift-cards").set(getAuthHeader(adminToken)).send(data);
+
+  const getGiftCard = (id: string) =>
+    request(app).get(`/api/gift-cards/${id}`).set(getAuthHeader(adminToken));
+
+  describe("POST /api/gift-cards", () => {
+    it("should sell a gift card with a generated code", async () => {
+      const response = await sellGiftCard({ amount: 50, paymentMethod: "Cash" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        initialAmount: 50,
+        balance: 50,
+        isActive: true,
+      });
+      expect(response.body.data.code).toMatch(/^[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}$/);
+
+      const card = await getGiftCard(response.body.data.id);
+      expect(card.body.data.transactions).toHaveLength(1);
+      expect(card.body.data.transactions[0]).toMatchObject({
+        type: "sale",
+        amount: 50,
+        balanceAfter: 50,
+        paymentMethod: "Cash",
+      });
+    });
+
+    it("should reject a code that's already in use", async () => {
+      await sellGiftCard({ amount: 25, paymentMethod: "Cash", code: "HOLIDAY-0001" });
+
+      const response = await sellGiftCard({ amount: 25, paymentMethod: "Cash", code: "holiday0001" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let technicians sell gift cards", async () => {
+      const response = await request(app)
+        .post("/api/gift-cards")
+        .set(getAuthHeader(technicianToken))
+        .send({ amount: 50, paymentMethod: "Cash" });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /api/gift-cards/code/:code", () => {
+    it("should find a card however the code is typed", async () => {
+      const sold = await sellGiftCard({ amount: 40, paymentMethod: "Card", code: "SPRING-2026" });
+
+      const response = await request(app)
+        .get("/api/gift-cards/code/spring 2026")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ id: sold.body.data.id, balance: 40 });
+    });
+
+    it("should return 404 for an unknown code", async () => {
+      const response = await request(app)
+        .get("/api/gift-cards/code/NOPE-NOPE")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("paying invoices with gift cards", () => {
+    const payWithGiftCard = (invoiceId: string, code: string, amount: number) =>
+      request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(adminToken))
+        .send({ payments: [{ paymentMethod: "Gift Card", amount, giftCardCode: code }] });
+
+    it("should spend the card and keep its balance history", async () => {
+      const { id, code } = (await sellGiftCard({ amount: 100, paymentMethod: "Cash" })).body.data;
+      const customerId = await createTestCustomer(testCompanyId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 60,
+      });
+      testCustomerIds.push(customerId);
+      testInvoiceIds.push(invoiceId);
+
+      const response = await payWithGiftCard(invoiceId, code, 60);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("paid");
+      expect(response.body.data.payments[0]).toMatchObject({
+        paymentMethod: "Gift Card",
+        amount: 60,
+        giftCardId: id,
+      });
+
+      const card = await getGiftCard(id);
+      expect(card.body.data.balance).toBe(40);
+      expect(card.body.data.transactions[0]).toMatchObject({
+        type: "redemption",
+        amount: -60,
+        balanceAfter: 40,
+        invoiceId,
+      });
+    });
+
+    it("should not spend more than is on the card", async () => {
+      const { id, code } = (await sellGiftCard({ amount: 20, paymentMethod: "Cash" })).body.data;
+      const customerId = await createTestCustomer(testCompanyId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 60,
+      });
+      testCustomerIds.push(customerId);
+      testInvoiceIds.push(invoiceId);
+
+      const response = await payWithGiftCard(invoiceId, code, 30);
+
+      expect(response.status).toBe(400);
+      expect((await getGiftCard(id)).body.data.balance).toBe(20);
+    });
+
+    it("should not spend a deactivated card", async () => {
+      const { id, code } = (await sellGiftCard({ amount: 50, paymentMethod: "Cash" })).body.data;
+      await request(app)
+        .patch(`/api/gift-cards/${id}`)
+        .set(getAuthHeader(adminToken))
+        .send({ isActive: false });
+      const customerId = await createTestCustomer(testCompanyId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 10,
+      });
+      testCustomerIds.push(customerId);
+      testInvoiceIds.push(invoiceId);
+
+      const response = await payWithGiftCard(invoiceId, code, 10);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
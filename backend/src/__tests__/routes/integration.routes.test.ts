@@ -167,6 +167,53 @@ describe('Integration Routes Integration Tests', () => {
         })
         .expect(403);
     });
+
+    it('should save Twilio SMS integration configuration', async () => {
+      const response = await request(app)
+        .post('/api/integrations/sms')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          provider: 'twilio',
+          credentials: {
+            accountSid: 'AC00000000000000000000000000000000',
+            authToken: 'test-auth-token-123',
+          },
+          settings: { fromNumber: '+15551234567', ticketStatusUpdates: true },
+        })
+        .expect(200);
+
+      expect(response.body.data.type).toBe('sms');
+      expect(response.body.data.provider).toBe('twilio');
+      expect(response.body.data.credentials.authToken).toContain('****'); // Masked
+      expect(response.body.data.settings.fromNumber).toBe('+15551234567');
+    });
+
+    it('should require a from number in international format for Twilio', async () => {
+      const response = await request(app)
+        .post('/api/integrations/sms')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          provider: 'twilio',
+          credentials: {
+            accountSid: 'AC00000000000000000000000000000000',
+            authToken: 'test-auth-token-123',
+          },
+          settings: { fromNumber: '555-123-4567' },
+        })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should save the SMS log provider without credentials', async () => {
+      const response = await request(app)
+        .post('/api/integrations/sms')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ provider: 'log' })
+        .expect(200);
+
+      expect(response.body.data.provider).toBe('log');
+    });
   });
 
   describe('POST /api/integrations/:type/test', () => {
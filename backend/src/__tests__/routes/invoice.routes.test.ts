@@ -921,5 +921,549 @@ describe("Invoice Routes Integration Tests", () => {
       expect(response.body.data.status).toBe("paid");
       expect(response.body.data.paidDate).toBeDefined();
     });
+
+    it("should leave the invoice partially paid until the balance is covered", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const first = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "cash", amount: 40 });
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.status).toBe("partially_paid");
+      expect(first.body.data.amountPaid).toBe(40);
+      expect(first.body.data.balanceDue).toBe(60);
+      expect(first.body.data.paidDate).toBeNull();
+
+      // With no amount, the rest of the balance is paid
+      const second = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "credit_card", paymentReference: "REF456" });
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.status).toBe("paid");
+      expect(second.body.data.amountPaid).toBe(100);
+      expect(second.body.data.balanceDue).toBe(0);
+      expect(second.body.data.payments).toHaveLength(2);
+      expect(second.body.data.payments[1]).toMatchObject({
+        paymentMethod: "credit_card",
+        amount: 60,
+        paymentReference: "REF456",
+      });
+    });
+
+    it("should take a split tender in one request", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          payments: [
+            { paymentMethod: "Cash", amount: 30 },
+            { paymentMethod: "Credit Card", amount: 70, paymentReference: "REF789" },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("paid");
+      expect(response.body.data.paymentMethod).toBe("Split");
+      expect(response.body.data.paymentReference).toBe("REF789");
+
+      const payments = await request(app)
+        .get(`/api/invoices/${invoiceId}/payments`)
+        .set(getAuthHeader(managerToken));
+
+      expect(payments.status).toBe(200);
+      expect(payments.body.data).toHaveLength(2);
+      expect(payments.body.data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ paymentMethod: "Cash", amount: 30 }),
+          expect.objectContaining({ paymentMethod: "Credit Card", amount: 70 }),
+        ])
+      );
+    });
+
+    it("should reject payments over the balance due", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          payments: [
+            { paymentMethod: "Cash", amount: 60 },
+            { paymentMethod: "Credit Card", amount: 60 },
+          ],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe("customer deposits on invoices", () => {
+    const takeDeposit = (customerId: string, data: Record<string, unknown>) =>
+      request(app)
+        .post(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(adminToken))
+        .send(data);
+
+    it("should apply the ticket's deposit once its invoice is issued", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const ticketId = await createTestTicket(testCompanyId, customerId, { locationId: testLocationId });
+      testTicketIds.push(ticketId);
+      const deposit = (await takeDeposit(customerId, { ticketId, amount: 40, paymentMethod: "Cash" })).body.data;
+
+      // Drafts start empty and are left alone while their lines are filled in
+      const created = await request(app)
+        .post("/api/invoices")
+        .set(getAuthHeader(managerToken))
+        .send({ customerId, ticketId });
+      testInvoiceIds.push(created.body.data.id);
+      expect(created.status).toBe(201);
+
+      await request(app)
+        .post(`/api/invoices/${created.body.data.id}/items`)
+        .set(getAuthHeader(managerToken))
+        .send({ description: "Screen repair", quantity: 1, unitPrice: 100, type: "service" });
+      const draft = await request(app)
+        .get(`/api/invoices/${created.body.data.id}`)
+        .set(getAuthHeader(managerToken));
+      expect(draft.body.data).toMatchObject({ status: "draft", amountPaid: 0 });
+
+      const response = await request(app)
+        .put(`/api/invoices/${created.body.data.id}`)
+        .set(getAuthHeader(managerToken))
+        .send({ status: "issued" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        status: "partially_paid",
+        amountPaid: 40,
+        balanceDue: Number(draft.body.data.totalAmount) - 40,
+      });
+
+      const deposits = await request(app)
+        .get(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(managerToken));
+      expect(deposits.body.data.creditBalance).toBe(0);
+      expect(deposits.body.data.deposits[0]).toMatchObject({ id: deposit.id, amountApplied: 40 });
+    });
+
+    it("should apply deposits to lines added after an invoice is issued", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      await takeDeposit(customerId, { amount: 25, paymentMethod: "Cash" });
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        subtotal: 0,
+        totalAmount: 0,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      await request(app)
+        .post(`/api/invoices/${invoiceId}/items`)
+        .set(getAuthHeader(managerToken))
+        .send({ description: "Diagnostics", quantity: 1, unitPrice: 50, type: "service" });
+
+      const response = await request(app)
+        .get(`/api/invoices/${invoiceId}`)
+        .set(getAuthHeader(managerToken));
+      expect(response.body.data).toMatchObject({ status: "partially_paid", amountPaid: 25 });
+    });
+
+    it("should not apply deposits to a draft", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      await takeDeposit(customerId, { amount: 30, paymentMethod: "Cash" });
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "draft",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/apply-deposits`)
+        .set(getAuthHeader(managerToken))
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should apply customer deposits by hand", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      await takeDeposit(customerId, { amount: 30, paymentMethod: "Cash" });
+      await takeDeposit(customerId, { amount: 100, paymentMethod: "Check", paymentReference: "1042" });
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/apply-deposits`)
+        .set(getAuthHeader(managerToken))
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("paid");
+      expect(response.body.data.payments.map((p: { amount: number }) => p.amount).sort()).toEqual([30, 70]);
+
+      const deposits = await request(app)
+        .get(`/api/customers/${customerId}/deposits`)
+        .set(getAuthHeader(managerToken));
+      expect(deposits.body.data.creditBalance).toBe(30);
+    });
+
+    it("should not apply more than is left on a deposit", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const deposit = (await takeDeposit(customerId, { amount: 20, paymentMethod: "Cash" })).body.data;
+
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ payments: [{ paymentMethod: "Deposit", amount: 50, customerDepositId: deposit.id }] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("store credit and credit memos", () => {
+    const getStoreCredit = (customerId: string) =>
+      request(app)
+        .get(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(managerToken));
+
+    it("should refund to store credit with a credit memo on the invoice", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 100,
+      });
+      testInvoiceIds.push(invoiceId);
+      await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "Cash" });
+
+      const refund = await request(app)
+        .post(`/api/invoices/${invoiceId}/refund`)
+        .set(getAuthHeader(managerToken))
+        .send({ refundAmount: 25, refundReason: "Case returned", refundMethod: "store_credit" });
+
+      expect(refund.status).toBe(200);
+      expect(refund.body.data.refundAmount).toBe(25);
+
+      const memos = await request(app)
+        .get(`/api/invoices/${invoiceId}/credit-memos`)
+        .set(getAuthHeader(managerToken));
+      expect(memos.body.data).toHaveLength(1);
+      expect(memos.body.data[0]).toMatchObject({
+        invoiceId,
+        customerId,
+        amount: 25,
+        refundMethod: "store_credit",
+        reason: "Case returned",
+      });
+      expect(memos.body.data[0].creditMemoNumber).toMatch(/^CM-/);
+
+      const storeCredit = await getStoreCredit(customerId);
+      expect(storeCredit.body.data.balance).toBe(25);
+      expect(storeCredit.body.data.transactions[0]).toMatchObject({
+        type: "refund",
+        amount: 25,
+        balanceAfter: 25,
+        creditMemoId: memos.body.data[0].id,
+      });
+    });
+
+    it("should write up a credit memo for a manual refund", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 80,
+      });
+      testInvoiceIds.push(invoiceId);
+      await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "Cash" });
+
+      await request(app)
+        .post(`/api/invoices/${invoiceId}/refund`)
+        .set(getAuthHeader(managerToken))
+        .send({ refundAmount: 80 });
+
+      const memos = await request(app)
+        .get(`/api/invoices/${invoiceId}/credit-memos`)
+        .set(getAuthHeader(managerToken));
+      expect(memos.body.data[0]).toMatchObject({ amount: 80, refundMethod: "manual" });
+      expect((await getStoreCredit(customerId)).body.data.balance).toBe(0);
+    });
+
+    it("should pay an invoice with store credit", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      await request(app)
+        .post(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(adminToken))
+        .send({ amount: 30, notes: "Goodwill credit" });
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 50,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          payments: [
+            { paymentMethod: "Store Credit", amount: 30 },
+            { paymentMethod: "Cash", amount: 20 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("paid");
+
+      const storeCredit = await getStoreCredit(customerId);
+      expect(storeCredit.body.data.balance).toBe(0);
+      expect(storeCredit.body.data.transactions[0]).toMatchObject({
+        type: "redemption",
+        amount: -30,
+        balanceAfter: 0,
+        invoiceId,
+      });
+    });
+
+    it("should not spend more store credit than the customer has", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+        totalAmount: 50,
+      });
+      testInvoiceIds.push(invoiceId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "Store Credit", amount: 10 });
+
+      expect(response.status).toBe(400);
+
+      const invoice = await request(app)
+        .get(`/api/invoices/${invoiceId}`)
+        .set(getAuthHeader(managerToken));
+      expect(invoice.body.data.amountPaid).toBe(0);
+    });
+  });
+
+  describe("item returns", () => {
+    // A paid invoice for two of a $50 part with 10% tax: $100 + $10 tax
+    const createPaidPartInvoice = async (customerId: string, inventoryItemId: string) => {
+      await db
+        .updateTable("locations")
+        .set({ tax_enabled: true, state_tax: 10, county_tax: 0, city_tax: 0 })
+        .where("id", "=", testLocationId)
+        .execute();
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+      });
+      testInvoiceIds.push(invoiceId);
+      const item = await request(app)
+        .post(`/api/invoices/${invoiceId}/items`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          inventoryItemId,
+          description: "Screen",
+          quantity: 2,
+          unitPrice: 50,
+          type: "part",
+        });
+      await request(app)
+        .post(`/api/invoices/${invoiceId}/paid`)
+        .set(getAuthHeader(managerToken))
+        .send({ paymentMethod: "Cash" });
+      return { invoiceId, invoiceItemId: item.body.data.id as string };
+    };
+
+    it("should refund a returned line with its tax, less the restocking fee, and restock it", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const inventoryItemId = await createTestInventoryItem(testCompanyId, testLocationId, {
+        quantity: 10,
+      });
+      const { invoiceId, invoiceItemId } = await createPaidPartInvoice(customerId, inventoryItemId);
+      expect(await getQuantityAtLocation(inventoryItemId, testLocationId)).toBe(8);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          items: [{ invoiceItemId, quantity: 1, disposition: "restock" }],
+          restockingFee: 5,
+          reason: "Wrong model",
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        invoiceId,
+        subtotal: 50,
+        taxAmount: 5,
+        restockingFee: 5,
+        refundAmount: 50,
+        refundMethod: "manual",
+      });
+      expect(response.body.data.returnNumber).toMatch(/^RET-/);
+      expect(response.body.data.items[0]).toMatchObject({
+        invoiceItemId,
+        quantity: 1,
+        unitPrice: 50,
+        disposition: "restock",
+      });
+      expect(await getQuantityAtLocation(inventoryItemId, testLocationId)).toBe(9);
+
+      const invoice = await request(app)
+        .get(`/api/invoices/${invoiceId}`)
+        .set(getAuthHeader(managerToken));
+      expect(invoice.body.data.refundAmount).toBe(50);
+
+      const memos = await request(app)
+        .get(`/api/invoices/${invoiceId}/credit-memos`)
+        .set(getAuthHeader(managerToken));
+      expect(memos.body.data[0].id).toBe(response.body.data.creditMemoId);
+      expect(memos.body.data[0].amount).toBe(50);
+
+      const document = await request(app)
+        .get(`/api/invoices/${invoiceId}/returns/${response.body.data.id}`)
+        .set(getAuthHeader(managerToken));
+      expect(document.status).toBe(200);
+      expect(document.body.data.items).toHaveLength(1);
+    });
+
+    it("should leave stock alone for written-off items and not return more than was sold", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const inventoryItemId = await createTestInventoryItem(testCompanyId, testLocationId, {
+        quantity: 10,
+      });
+      const { invoiceId, invoiceItemId } = await createPaidPartInvoice(customerId, inventoryItemId);
+
+      const writeOff = await request(app)
+        .post(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(managerToken))
+        .send({
+          items: [{ invoiceItemId, quantity: 2, disposition: "write_off" }],
+          refundMethod: "store_credit",
+        });
+      expect(writeOff.status).toBe(201);
+      expect(writeOff.body.data.refundAmount).toBe(110);
+      expect(await getQuantityAtLocation(inventoryItemId, testLocationId)).toBe(8);
+
+      const storeCredit = await request(app)
+        .get(`/api/customers/${customerId}/store-credit`)
+        .set(getAuthHeader(managerToken));
+      expect(storeCredit.body.data.balance).toBe(110);
+
+      const again = await request(app)
+        .post(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(managerToken))
+        .send({ items: [{ invoiceItemId, quantity: 1, disposition: "write_off" }] });
+      expect(again.status).toBe(400);
+
+      const returns = await request(app)
+        .get(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(managerToken));
+      expect(returns.body.data).toHaveLength(1);
+    });
+
+    it("should not take returns on an unpaid invoice", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "issued",
+      });
+      testInvoiceIds.push(invoiceId);
+      const itemId = await createTestInvoiceItem(invoiceId);
+      testInvoiceItemIds.push(itemId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(managerToken))
+        .send({ items: [{ invoiceItemId: itemId, quantity: 1, disposition: "write_off" }] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let technicians create returns", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      const invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testInvoiceIds.push(invoiceId);
+      const itemId = await createTestInvoiceItem(invoiceId);
+      testInvoiceItemIds.push(itemId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/returns`)
+        .set(getAuthHeader(authToken))
+        .send({ items: [{ invoiceItemId: itemId, quantity: 1, disposition: "write_off" }] });
+
+      expect(response.status).toBe(403);
+    });
   });
 });
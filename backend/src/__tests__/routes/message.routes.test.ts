@@ -0,0 +1,216 @@
+import request from "supertest";
+import app from "../../app.js";
+import credentialService from "../../services/credential.service.js";
+import customerService from "../../services/customer.service.js";
+import ticketService from "../../services/ticket.service.js";
+import { generateInboundEmailToken, generateInboundSmsToken } from "../../utils/auth.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+describe("Message Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let frontdeskToken: string;
+  let frontdeskUserId: string;
+  let customerId: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    frontdeskToken = users.frontdesk.token;
+    frontdeskUserId = users.frontdesk.userId;
+
+    customerId = await createTestCustomer(testCompanyId, {
+      email: "jane@example.com",
+      phone: "(555) 123-4567",
+    });
+    ticketId = await createTestTicket(testCompanyId, customerId);
+    testCustomerIds.push(customerId);
+    testTicketIds.push(ticketId);
+
+    await credentialService.saveIntegration(testCompanyId, "sms", {
+      provider: "log",
+      enabled: true,
+      credentials: {},
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const sendMessage = (body: Record<string, unknown>) =>
+    request(app)
+      .post("/api/messages")
+      .set(getAuthHeader(frontdeskToken))
+      .send(body);
+
+  const getUnreadCount = (query: Record<string, string> = {}) =>
+    request(app)
+      .get("/api/messages/unread-count")
+      .query(query)
+      .set(getAuthHeader(frontdeskToken));
+
+  describe("POST /api/messages", () => {
+    it("should text a customer who opted in and keep it on the ticket", async () => {
+      await customerService.setSmsOptIn(customerId, testCompanyId, true);
+
+      const response = await sendMessage({
+        ticketId,
+        channel: "sms",
+        body: "Your screen is in, can you drop the phone off today?",
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        customerId,
+        ticketId,
+        channel: "sms",
+        direction: "outbound",
+        toAddress: "+15551234567",
+        sentBy: frontdeskUserId,
+      });
+      expect(response.body.data.sender.id).toBe(frontdeskUserId);
+    });
+
+    it("should refuse to text a customer who has not opted in", async () => {
+      const response = await sendMessage({
+        customerId,
+        channel: "sms",
+        body: "Hello",
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("opted in");
+    });
+
+    it("should reject a ticket that belongs to another customer", async () => {
+      const otherCustomerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(otherCustomerId);
+
+      const response = await sendMessage({
+        customerId: otherCustomerId,
+        ticketId,
+        channel: "sms",
+        body: "Hello",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/messages", () => {
+    it("should require a customer or ticket", async () => {
+      const response = await request(app)
+        .get("/api/messages")
+        .set(getAuthHeader(frontdeskToken));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("inbound replies", () => {
+    it("should thread a texted reply onto the ticket and track it as unread", async () => {
+      await customerService.setSmsOptIn(customerId, testCompanyId, true);
+      await sendMessage({ ticketId, channel: "sms", body: "Can you drop it off today?" }).expect(201);
+
+      await request(app)
+        .post(`/api/sms/inbound/${testCompanyId}/${generateInboundSmsToken(testCompanyId)}`)
+        .send({ from: "+15551234567", to: "+15550001111", body: "Yes, around 3pm" })
+        .expect(200);
+
+      const thread = await request(app)
+        .get("/api/messages")
+        .query({ ticketId })
+        .set(getAuthHeader(frontdeskToken));
+
+      expect(thread.status).toBe(200);
+      expect(thread.body.data.map((message: { direction: string }) => message.direction)).toEqual([
+        "outbound",
+        "inbound",
+      ]);
+      expect(thread.body.data[1]).toMatchObject({
+        customerId,
+        ticketId,
+        body: "Yes, around 3pm",
+        readAt: null,
+      });
+
+      expect((await getUnreadCount()).body.data.count).toBe(1);
+      expect((await getUnreadCount({ ticketId })).body.data.count).toBe(1);
+
+      const conversations = await request(app)
+        .get("/api/messages/conversations")
+        .set(getAuthHeader(frontdeskToken));
+      expect(conversations.body.data).toHaveLength(1);
+      expect(conversations.body.data[0]).toMatchObject({ customerId, unreadCount: 1 });
+
+      const read = await request(app)
+        .post("/api/messages/read")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ customerId });
+      expect(read.body.data.updated).toBe(1);
+      expect((await getUnreadCount({ customerId })).body.data.count).toBe(0);
+    });
+
+    it("should match an emailed reply to the customer and the ticket in the subject", async () => {
+      await credentialService.saveIntegration(testCompanyId, "email", {
+        provider: "sendgrid",
+        enabled: true,
+        credentials: { apiKey: "SG.test-api-key-123" },
+        settings: { fromEmail: "shop@example.com" },
+      });
+      const ticket = await ticketService.findById(ticketId, testCompanyId);
+
+      const response = await request(app)
+        .post(`/api/email/inbound/${testCompanyId}/${generateInboundEmailToken(testCompanyId)}`)
+        .field("from", "Jane Customer <Jane@Example.com>")
+        .field("to", "replies@shop.example.com")
+        .field("subject", `Re: Ticket ${ticket!.ticketNumber} Status Update: Ready`)
+        .field("text", "Great, I'll pick it up tomorrow.\n\nOn Mon, Jan 5, 2026 at 9:00 AM Shop wrote:\n> Your repair is ready");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.messageId).toBeTruthy();
+
+      const thread = await request(app)
+        .get("/api/messages")
+        .query({ customerId })
+        .set(getAuthHeader(frontdeskToken));
+      expect(thread.body.data).toHaveLength(1);
+      expect(thread.body.data[0]).toMatchObject({
+        ticketId,
+        channel: "email",
+        direction: "inbound",
+        fromAddress: "jane@example.com",
+        body: "Great, I'll pick it up tomorrow.",
+      });
+    });
+
+    it("should reject inbound email with the wrong token", async () => {
+      const response = await request(app)
+        .post(`/api/email/inbound/${testCompanyId}/${"0".repeat(64)}`)
+        .field("from", "jane@example.com")
+        .field("text", "Hello");
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData, getTestDb } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestInventoryItem,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+describe("Part Reservation Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let testInventoryItemIds: string[] = [];
+  let testInvoiceIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let frontdeskToken: string;
+  let locationId: string;
+  let customerId: string;
+  let ticketId: string;
+  let inventoryItemId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    frontdeskToken = users.frontdesk.token;
+    locationId = users.locationId;
+
+    customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    ticketId = await createTestTicket(testCompanyId, customerId, { locationId });
+    testTicketIds.push(ticketId);
+    inventoryItemId = await createTestInventoryItem(testCompanyId, locationId, { quantity: 5 });
+    testInventoryItemIds.push(inventoryItemId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+      inventoryItemIds: testInventoryItemIds,
+      invoiceIds: testInvoiceIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+    testInventoryItemIds = [];
+    testInvoiceIds = [];
+  });
+
+  const reserve = (quantity: number, ticket = ticketId) =>
+    request(app)
+      .post(`/api/tickets/${ticket}/parts`)
+      .set(getAuthHeader(technicianToken))
+      .send({ inventoryItemId, quantity });
+
+  const getStock = async () =>
+    getTestDb()
+      .selectFrom("inventory_location_quantities")
+      .select(["quantity", "reserved_quantity"])
+      .where("inventory_item_id", "=", inventoryItemId)
+      .where("location_id", "=", locationId)
+      .executeTakeFirstOrThrow();
+
+  describe("POST /api/tickets/:id/parts", () => {
+    it("should hold stock without taking it off hand", async () => {
+      const response = await reserve(2);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        inventoryItemId,
+        quantity: 2,
+        reservedQuantity: 2,
+        shortageQuantity: 0,
+        status: "reserved",
+      });
+      expect(await getStock()).toEqual({ quantity: 5, reserved_quantity: 2 });
+
+      const itemResponse = await request(app)
+        .get(`/api/inventory/${inventoryItemId}`)
+        .set(getAuthHeader(adminToken));
+      const stock = itemResponse.body.data.locationQuantities.find(
+        (qty: { locationId: string }) => qty.locationId === locationId
+      );
+      expect(stock).toMatchObject({ quantity: 5, reservedQuantity: 2, availableQuantity: 3 });
+    });
+
+    it("should record a shortage when there isn't enough available", async () => {
+      const otherTicketId = await createTestTicket(testCompanyId, customerId, { locationId });
+      testTicketIds.push(otherTicketId);
+      await reserve(4, otherTicketId);
+
+      const response = await reserve(3);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        quantity: 3,
+        reservedQuantity: 1,
+        shortageQuantity: 2,
+      });
+      expect(await getStock()).toEqual({ quantity: 5, reserved_quantity: 5 });
+    });
+
+    it("should not let front desk staff reserve parts", async () => {
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/parts`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ inventoryItemId, quantity: 1 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Releasing reservations", () => {
+    it("should release a reservation back to available stock", async () => {
+      const reserved = await reserve(2);
+
+      const response = await request(app)
+        .delete(`/api/tickets/${ticketId}/parts/${reserved.body.data.id}`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("released");
+      expect(await getStock()).toEqual({ quantity: 5, reserved_quantity: 0 });
+    });
+
+    it("should release reservations when the ticket is cancelled", async () => {
+      await reserve(2);
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(adminToken))
+        .send({ status: "cancelled" });
+
+      expect(response.status).toBe(200);
+      expect(await getStock()).toEqual({ quantity: 5, reserved_quantity: 0 });
+    });
+  });
+
+  describe("Invoicing reserved parts", () => {
+    it("should turn reservations into invoice items", async () => {
+      await reserve(2);
+
+      const response = await request(app)
+        .post("/api/invoices")
+        .set(getAuthHeader(adminToken))
+        .send({ customerId, ticketId });
+
+      expect(response.status).toBe(201);
+      testInvoiceIds.push(response.body.data.id);
+
+      const invoiceResponse = await request(app)
+        .get(`/api/invoices/${response.body.data.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(invoiceResponse.body.data.invoiceItems).toEqual([
+        expect.objectContaining({ inventoryItemId, quantity: 2, type: "part" }),
+      ]);
+      expect(await getStock()).toEqual({ quantity: 3, reserved_quantity: 0 });
+
+      const partsResponse = await request(app)
+        .get(`/api/tickets/${ticketId}/parts`)
+        .set(getAuthHeader(technicianToken));
+      expect(partsResponse.body.data[0]).toMatchObject({ status: "consumed" });
+    });
+  });
+});
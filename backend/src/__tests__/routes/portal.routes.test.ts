@@ -0,0 +1,183 @@
+import request from "supertest";
+import app from "../../app.js";
+import { db } from "../../config/connection.js";
+import { generatePortalToken } from "../../utils/auth.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestInvoice,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+describe("Customer Portal Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let testInvoiceIds: string[] = [];
+  let adminToken: string;
+  let customerId: string;
+  let ticketId: string;
+  let ticketNumber: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+
+    customerId = await createTestCustomer(testCompanyId, {
+      email: `portal-${Date.now()}@example.com`,
+      phone: "(555) 123-4567",
+    });
+    testCustomerIds.push(customerId);
+
+    ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId: users.locationId,
+      status: "in_progress",
+      diagnosticNotes: "Internal diagnostic notes",
+    });
+    testTicketIds.push(ticketId);
+
+    const ticket = await db
+      .selectFrom("tickets")
+      .select("ticket_number")
+      .where("id", "=", ticketId)
+      .executeTakeFirstOrThrow();
+    ticketNumber = ticket.ticket_number;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+      invoiceIds: testInvoiceIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+    testInvoiceIds = [];
+  });
+
+  describe("POST /api/portal/lookup", () => {
+    it("should return a token for a matching phone number in any format", async () => {
+      const response = await request(app)
+        .post("/api/portal/lookup")
+        .send({ ticketNumber, contact: "555-123-4567" });
+
+      expect(response.status).toBe(200);
+      expect(typeof response.body.data.token).toBe("string");
+    });
+
+    it("should return a token for a matching email regardless of case", async () => {
+      const customer = await db
+        .selectFrom("customers")
+        .select("email")
+        .where("id", "=", customerId)
+        .executeTakeFirstOrThrow();
+
+      const response = await request(app)
+        .post("/api/portal/lookup")
+        .send({ ticketNumber, contact: customer.email.toUpperCase() });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should not reveal whether the ticket exists when contact details don't match", async () => {
+      const wrongContact = await request(app)
+        .post("/api/portal/lookup")
+        .send({ ticketNumber, contact: "someone@example.com" });
+      const wrongTicket = await request(app)
+        .post("/api/portal/lookup")
+        .send({ ticketNumber: "TKT-00000000-000", contact: "555-123-4567" });
+
+      expect(wrongContact.status).toBe(404);
+      expect(wrongTicket.status).toBe(404);
+      expect(wrongContact.body.error.message).toBe(wrongTicket.body.error.message);
+    });
+  });
+
+  describe("GET /api/portal/tickets/:token", () => {
+    it("should show status and customer-visible updates only", async () => {
+      await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(adminToken))
+        .send({ body: "Screen ordered", visibility: "customer" });
+      await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(adminToken))
+        .send({ body: "Customer was rude", visibility: "internal" });
+
+      const response = await request(app).get(
+        `/api/portal/tickets/${generatePortalToken(ticketId, testCompanyId)}`
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.ticket).toMatchObject({
+        ticketNumber,
+        status: "in_progress",
+        statusLabel: "In Progress",
+      });
+      expect(response.body.data.ticket.diagnosticNotes).toBeUndefined();
+      expect(response.body.data.updates.map((u: { body: string }) => u.body)).toEqual([
+        "Screen ordered",
+      ]);
+      expect(response.body.data.invoice).toBeNull();
+    });
+
+    it("should include the ticket's issued invoice but not drafts", async () => {
+      const draftId = await createTestInvoice(testCompanyId, customerId, {
+        ticketId,
+        status: "draft",
+      });
+      testInvoiceIds.push(draftId);
+
+      const token = generatePortalToken(ticketId, testCompanyId);
+      const withDraft = await request(app).get(`/api/portal/tickets/${token}`);
+      expect(withDraft.body.data.invoice).toBeNull();
+
+      const issuedId = await createTestInvoice(testCompanyId, customerId, {
+        ticketId,
+        status: "issued",
+        subtotal: 100,
+        taxRate: 0,
+      });
+      testInvoiceIds.push(issuedId);
+
+      const response = await request(app).get(`/api/portal/tickets/${token}`);
+      expect(response.status).toBe(200);
+      expect(response.body.data.invoice).toMatchObject({
+        status: "issued",
+        totalAmount: 100,
+      });
+    });
+
+    it("should reject an invalid token", async () => {
+      const response = await request(app).get("/api/portal/tickets/not-a-token");
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not accept a staff access token", async () => {
+      const response = await request(app).get(`/api/portal/tickets/${adminToken}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("This link is invalid or has expired");
+    });
+  });
+
+  describe("POST /api/portal/tickets/:token/pay", () => {
+    it("should return 404 when there is no invoice to pay", async () => {
+      const response = await request(app)
+        .post(`/api/portal/tickets/${generatePortalToken(ticketId, testCompanyId)}/pay`)
+        .send({ sourceId: "cnon:card-nonce-ok" });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { jest } from "@jest/globals";
+import { sql } from "kysely";
+import request from "supertest";
+import app from "../../app.js";
+import { db } from "../../config/connection.js";
+import paymentService from "../../integrations/payment/payment.service.js";
+import invoiceService from "../../services/invoice.service.js";
+import recurringInvoiceService from "../../services/recurring-invoice.service.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import { createTestCompany, createTestCustomer } from "../helpers/seed.helper.js";
+
+describe("Recurring Invoice Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+  });
+
+  const createSchedule = async (overrides: Record<string, unknown> = {}) => {
+    const customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    return request(app)
+      .post("/api/recurring-invoices")
+      .set(getAuthHeader(adminToken))
+      .send({
+        customerId,
+        name: "Managed devices",
+        frequency: "monthly",
+        nextIssueDate: "2099-01-15T09:00:00.000Z",
+        dueDays: 14,
+        autoEmail: false,
+        items: [
+          { description: "Device monitoring", quantity: 3, unitPrice: 20 },
+          { description: "Backup storage", quantity: 1, unitPrice: 15.5 },
+        ],
+        ...overrides,
+      });
+  };
+
+  describe("POST /api/recurring-invoices", () => {
+    it("should create a schedule with its line items", async () => {
+      const response = await createSchedule();
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        name: "Managed devices",
+        frequency: "monthly",
+        status: "active",
+        dueDays: 14,
+        autoEmail: false,
+        autopayEnabled: false,
+        hasSavedCard: false,
+        amount: 75.5,
+      });
+      expect(response.body.data.items).toHaveLength(2);
+      expect(response.body.data.items[0]).toMatchObject({
+        description: "Device monitoring",
+        quantity: 3,
+        unitPrice: 20,
+        type: "service",
+      });
+    });
+
+    it("should reject an unknown frequency", async () => {
+      const response = await createSchedule({ frequency: "weekly" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject a next issue date in the past", async () => {
+      const response = await createSchedule({ nextIssueDate: "2020-01-15T09:00:00.000Z" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 for a customer that doesn't exist", async () => {
+      const response = await createSchedule({
+        customerId: "00000000-0000-0000-0000-000000000000",
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should not let technicians create schedules", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const response = await request(app)
+        .post("/api/recurring-invoices")
+        .set(getAuthHeader(technicianToken))
+        .send({
+          customerId,
+          name: "Managed devices",
+          frequency: "monthly",
+          nextIssueDate: "2099-01-15T09:00:00.000Z",
+          items: [{ description: "Device monitoring", quantity: 1, unitPrice: 20 }],
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /api/recurring-invoices", () => {
+    it("should list the company's schedules", async () => {
+      const created = await createSchedule();
+
+      const response = await request(app)
+        .get("/api/recurring-invoices")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].id).toBe(created.body.data.id);
+    });
+  });
+
+  describe("POST /api/recurring-invoices/:id/issue", () => {
+    it("should issue an invoice with the schedule's line items and move the schedule on", async () => {
+      const schedule = (await createSchedule()).body.data;
+
+      const response = await request(app)
+        .post(`/api/recurring-invoices/${schedule.id}/issue`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        customerId: schedule.customerId,
+        status: "issued",
+        recurringInvoiceId: schedule.id,
+      });
+      expect(Number(response.body.data.subtotal)).toBe(75.5);
+
+      const updated = await request(app)
+        .get(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(new Date(updated.body.data.nextIssueDate).toISOString()).toBe(
+        "2099-02-15T09:00:00.000Z"
+      );
+      expect(updated.body.data.lastInvoiceId).toBe(response.body.data.id);
+      expect(updated.body.data.invoices).toHaveLength(1);
+      expect(updated.body.data.invoices[0].id).toBe(response.body.data.id);
+    });
+
+    it("should end the schedule once the next date passes the end date", async () => {
+      const schedule = (
+        await createSchedule({ frequency: "yearly", endDate: "2099-06-30T00:00:00.000Z" })
+      ).body.data;
+
+      await request(app)
+        .post(`/api/recurring-invoices/${schedule.id}/issue`)
+        .set(getAuthHeader(adminToken));
+
+      const updated = await request(app)
+        .get(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(updated.body.data.status).toBe("ended");
+    });
+
+    it("should give the period back and leave no invoice when issuing fails", async () => {
+      const schedule = (await createSchedule()).body.data;
+      const createInvoiceItem = jest
+        .spyOn(invoiceService, "createInvoiceItem")
+        .mockRejectedValueOnce(new Error("Database unavailable"));
+
+      try {
+        const response = await request(app)
+          .post(`/api/recurring-invoices/${schedule.id}/issue`)
+          .set(getAuthHeader(adminToken));
+
+        expect(response.status).toBe(500);
+      } finally {
+        createInvoiceItem.mockRestore();
+      }
+
+      const updated = await request(app)
+        .get(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(new Date(updated.body.data.nextIssueDate).toISOString()).toBe(
+        "2099-01-15T09:00:00.000Z"
+      );
+      expect(updated.body.data.status).toBe("active");
+      expect(updated.body.data.lastInvoiceId).toBeNull();
+      expect(updated.body.data.invoices).toHaveLength(0);
+    });
+
+    it("should not issue from a paused schedule", async () => {
+      const schedule = (await createSchedule()).body.data;
+
+      const paused = await request(app)
+        .put(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken))
+        .send({ status: "paused" });
+      expect(paused.status).toBe(200);
+      expect(paused.body.data.status).toBe("paused");
+
+      const response = await request(app)
+        .post(`/api/recurring-invoices/${schedule.id}/issue`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("processDueInvoices", () => {
+    it("should issue one missed period per run", async () => {
+      const schedule = (await createSchedule()).body.data;
+      // Three months behind, as if the server had been down
+      await db
+        .updateTable("recurring_invoices")
+        .set({ next_issue_date: sql`now() - interval '3 months'` })
+        .where("id", "=", schedule.id)
+        .execute();
+
+      await recurringInvoiceService.processDueInvoices();
+
+      const updated = await request(app)
+        .get(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(updated.body.data.invoices).toHaveLength(1);
+      expect(new Date(updated.body.data.nextIssueDate).getTime()).toBeLessThan(Date.now());
+    });
+  });
+
+  describe("autopay", () => {
+    it("should not turn on autopay without a saved card", async () => {
+      const schedule = (await createSchedule()).body.data;
+
+      const response = await request(app)
+        .put(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken))
+        .send({ autopayEnabled: true });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not record a charge that went through as an autopay failure", async () => {
+      const schedule = (await createSchedule()).body.data;
+      await db
+        .updateTable("recurring_invoices")
+        .set({ autopay_enabled: true, square_card_id: "card-on-file" })
+        .where("id", "=", schedule.id)
+        .execute();
+      const getCurrency = jest.spyOn(paymentService, "getCurrency").mockResolvedValue("USD");
+      const processPayment = jest.spyOn(paymentService, "processPayment").mockResolvedValue({
+        transactionId: "txn-autopay",
+        status: "succeeded",
+        paymentMethod: "Credit Card",
+        amount: 75.5,
+        currency: "USD",
+      });
+      const markInvoiceAsPaid = jest
+        .spyOn(invoiceService, "markInvoiceAsPaid")
+        .mockRejectedValueOnce(new Error("Database unavailable"));
+
+      try {
+        const response = await request(app)
+          .post(`/api/recurring-invoices/${schedule.id}/issue`)
+          .set(getAuthHeader(adminToken));
+
+        expect(response.status).toBe(201);
+        expect(processPayment).toHaveBeenCalledTimes(1);
+      } finally {
+        getCurrency.mockRestore();
+        processPayment.mockRestore();
+        markInvoiceAsPaid.mockRestore();
+      }
+
+      const updated = await request(app)
+        .get(`/api/recurring-invoices/${schedule.id}`)
+        .set(getAuthHeader(adminToken));
+      expect(updated.body.data.lastAutopayError).toBeNull();
+    });
+
+    it("should reject saving a card when no payment integration is set up", async () => {
+      const schedule = (await createSchedule()).body.data;
+
+      const response = await request(app)
+        .post(`/api/recurring-invoices/${schedule.id}/card`)
+        .set(getAuthHeader(adminToken))
+        .send({ sourceId: "cnon:card-nonce-ok" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
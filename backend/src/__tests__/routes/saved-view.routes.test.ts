@@ -0,0 +1,174 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import { createTestCompany } from "../helpers/seed.helper.js";
+
+describe("Saved View Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let frontdeskToken: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    frontdeskToken = users.frontdesk.token;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+    });
+    testUserIds = [];
+  });
+
+  const saveView = (token: string, body: Record<string, unknown>) =>
+    request(app)
+      .post("/api/saved-views")
+      .set(getAuthHeader(token))
+      .send({ resource: "tickets", ...body });
+
+  describe("POST /api/saved-views", () => {
+    it("should save a personal view", async () => {
+      const response = await saveView(technicianToken, {
+        name: "My open jobs",
+        filter: "technician:me -status:completed,cancelled",
+        sort: "-updatedAt",
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        resource: "tickets",
+        name: "My open jobs",
+        filter: "technician:me -status:completed,cancelled",
+        sort: "-updatedAt",
+        visibility: "user",
+        pinned: false,
+      });
+    });
+
+    it("should reject a filter the list doesn't understand", async () => {
+      const response = await saveView(technicianToken, {
+        name: "Broken",
+        filter: "total:>100",
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toMatch(/^Unknown filter "total"/);
+    });
+
+    it("should only let admins and managers share views with the company", async () => {
+      const technicianResponse = await saveView(technicianToken, {
+        name: "Urgent",
+        filter: "priority:urgent",
+        visibility: "company",
+      });
+      expect(technicianResponse.status).toBe(403);
+
+      const adminResponse = await saveView(adminToken, {
+        name: "Urgent",
+        filter: "priority:urgent",
+        visibility: "company",
+      });
+      expect(adminResponse.status).toBe(201);
+    });
+  });
+
+  describe("GET /api/saved-views", () => {
+    it("should list the user's own views and the company's shared ones", async () => {
+      await saveView(adminToken, { name: "Shared", visibility: "company" });
+      await saveView(adminToken, { name: "Admin only" });
+      await saveView(technicianToken, { name: "Mine" });
+      await saveView(technicianToken, { resource: "inventory", name: "Low cost parts", filter: "cost:<5" });
+
+      const response = await request(app)
+        .get("/api/saved-views")
+        .query({ resource: "tickets" })
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((view: { name: string }) => view.name)).toEqual([
+        "Mine",
+        "Shared",
+      ]);
+    });
+  });
+
+  describe("PUT /api/saved-views/:id", () => {
+    it("should not let other users change someone's view", async () => {
+      const view = await saveView(adminToken, { name: "Shared", visibility: "company" });
+
+      const response = await request(app)
+        .put(`/api/saved-views/${view.body.data.id}`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ name: "Renamed" });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 404 for another user's personal view", async () => {
+      const view = await saveView(adminToken, { name: "Admin only" });
+
+      const response = await request(app)
+        .put(`/api/saved-views/${view.body.data.id}`)
+        .set(getAuthHeader(technicianToken))
+        .send({ name: "Renamed" });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/saved-views/:id/pin", () => {
+    it("should pin a shared view for the current user only", async () => {
+      const view = await saveView(adminToken, { name: "Shared", visibility: "company" });
+
+      const pinResponse = await request(app)
+        .post(`/api/saved-views/${view.body.data.id}/pin`)
+        .set(getAuthHeader(technicianToken));
+      expect(pinResponse.status).toBe(200);
+      expect(pinResponse.body.data.pinned).toBe(true);
+
+      const technicianPins = await request(app)
+        .get("/api/saved-views")
+        .query({ pinned: "true" })
+        .set(getAuthHeader(technicianToken));
+      expect(technicianPins.body.data.map((pinned: { id: string }) => pinned.id)).toEqual([
+        view.body.data.id,
+      ]);
+
+      const adminPins = await request(app)
+        .get("/api/saved-views")
+        .query({ pinned: "true" })
+        .set(getAuthHeader(adminToken));
+      expect(adminPins.body.data).toEqual([]);
+
+      const unpinResponse = await request(app)
+        .delete(`/api/saved-views/${view.body.data.id}/pin`)
+        .set(getAuthHeader(technicianToken));
+      expect(unpinResponse.body.data.pinned).toBe(false);
+    });
+  });
+
+  describe("DELETE /api/saved-views/:id", () => {
+    it("should delete the user's own view", async () => {
+      const view = await saveView(technicianToken, { name: "Mine" });
+
+      const response = await request(app)
+        .delete(`/api/saved-views/${view.body.data.id}`)
+        .set(getAuthHeader(technicianToken));
+      expect(response.status).toBe(200);
+
+      const getResponse = await request(app)
+        .get(`/api/saved-views/${view.body.data.id}`)
+        .set(getAuthHeader(technicianToken));
+      expect(getResponse.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+// 1x1 transparent PNG
+const signatureImage =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+describe("Signature Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let frontdeskToken: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    frontdeskToken = users.frontdesk.token;
+
+    const customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+
+    ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId: users.locationId,
+    });
+    testTicketIds.push(ticketId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const captureSignature = (overrides: Record<string, unknown> = {}) =>
+    request(app)
+      .post(`/api/tickets/${ticketId}/signatures`)
+      .set(getAuthHeader(frontdeskToken))
+      .set("User-Agent", "Counter iPad")
+      .send({
+        kind: "intake",
+        signerName: "Jane Customer",
+        signatureImage,
+        termsVersion: 0,
+        ...overrides,
+      });
+
+  describe("Signature terms", () => {
+    it("should return the default terms as version 0", async () => {
+      const response = await request(app)
+        .get("/api/signature-terms")
+        .set(getAuthHeader(frontdeskToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0]).toMatchObject({ kind: "intake", version: 0 });
+    });
+
+    it("should add a new version each time the text changes", async () => {
+      await request(app)
+        .put("/api/signature-terms/intake")
+        .set(getAuthHeader(adminToken))
+        .send({ body: "First terms" });
+      const response = await request(app)
+        .put("/api/signature-terms/intake")
+        .set(getAuthHeader(adminToken))
+        .send({ body: "Second terms" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ version: 2, body: "Second terms" });
+
+      const history = await request(app)
+        .get("/api/signature-terms/intake/history")
+        .set(getAuthHeader(adminToken));
+      expect(history.body.data.map((terms: { version: number }) => terms.version)).toEqual([2, 1]);
+    });
+
+    it("should not let non-admins change the terms", async () => {
+      const response = await request(app)
+        .put("/api/signature-terms/intake")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ body: "New terms" });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /api/tickets/:id/signatures", () => {
+    it("should record the signature with the terms text and device", async () => {
+      const response = await captureSignature();
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        kind: "intake",
+        signerName: "Jane Customer",
+        termsVersion: 0,
+        userAgent: "Counter iPad",
+      });
+      expect(response.body.data.termsText).toBeTruthy();
+      expect(response.body.data.signedAt).toBeTruthy();
+
+      const list = await request(app)
+        .get(`/api/tickets/${ticketId}/signatures`)
+        .set(getAuthHeader(adminToken));
+      expect(list.body.data).toHaveLength(1);
+    });
+
+    it("should reject a signature made against outdated terms", async () => {
+      await request(app)
+        .put("/api/signature-terms/intake")
+        .set(getAuthHeader(adminToken))
+        .send({ body: "Updated terms" });
+
+      const response = await captureSignature({ termsVersion: 0 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should only take one signature of each kind per ticket", async () => {
+      await captureSignature();
+      const response = await captureSignature();
+
+      expect(response.status).toBe(409);
+
+      const pickup = await captureSignature({ kind: "pickup" });
+      expect(pickup.status).toBe(201);
+    });
+
+    it("should reject images that are not PNG data URLs", async () => {
+      const response = await captureSignature({
+        signatureImage: "data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=",
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import request from "supertest";
+import app from "../../app.js";
+import slaService from "../../services/sla.service.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import { createTestCompany, createTestCustomer, createTestTicket } from "../helpers/seed.helper.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("SLA Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let technicianUserId: string;
+  let testLocationId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    testLocationId = users.locationId;
+
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    technicianUserId = users.technician.userId;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const createTicket = async (
+    overrides: { status?: string; priority?: "low" | "medium" | "high" | "urgent"; technicianId?: string | null } = {}
+  ) => {
+    const customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    const ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId: testLocationId,
+      ...overrides,
+    });
+    testTicketIds.push(ticketId);
+    return ticketId;
+  };
+
+  const savePolicies = (policies: Record<string, unknown>[]) =>
+    request(app)
+      .put("/api/sla-policies")
+      .set(getAuthHeader(adminToken))
+      .send({ policies });
+
+  describe("GET /api/sla-policies", () => {
+    it("should return an empty policy for every priority by default", async () => {
+      const response = await request(app)
+        .get("/api/sla-policies")
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(4);
+      expect(response.body.data[0]).toMatchObject({
+        priority: "low",
+        assignmentTargetMinutes: null,
+        completionTargetMinutes: null,
+        warningPercent: 80,
+      });
+    });
+  });
+
+  describe("PUT /api/sla-policies", () => {
+    it("should save policies", async () => {
+      const response = await savePolicies([
+        { priority: "urgent", assignmentTargetMinutes: 30, completionTargetMinutes: 240, warningPercent: 75 },
+      ]);
+
+      expect(response.status).toBe(200);
+      const urgent = response.body.data.find((p: { priority: string }) => p.priority === "urgent");
+      expect(urgent).toMatchObject({
+        assignmentTargetMinutes: 30,
+        completionTargetMinutes: 240,
+        warningPercent: 75,
+      });
+    });
+
+    it("should remove a policy when both targets are cleared", async () => {
+      await savePolicies([{ priority: "high", completionTargetMinutes: 60 }]);
+      const response = await savePolicies([
+        { priority: "high", assignmentTargetMinutes: null, completionTargetMinutes: null },
+      ]);
+
+      expect(response.status).toBe(200);
+      const high = response.body.data.find((p: { priority: string }) => p.priority === "high");
+      expect(high.completionTargetMinutes).toBeNull();
+      expect(high.updatedAt).toBeNull();
+    });
+
+    it("should reject invalid targets", async () => {
+      const response = await savePolicies([{ priority: "high", completionTargetMinutes: 0 }]);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 403 for non-admins", async () => {
+      const response = await request(app)
+        .put("/api/sla-policies")
+        .set(getAuthHeader(technicianToken))
+        .send({ policies: [{ priority: "high", completionTargetMinutes: 60 }] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("SLA checks", () => {
+    beforeEach(async () => {
+      await savePolicies([
+        { priority: "high", assignmentTargetMinutes: 60, completionTargetMinutes: 240, warningPercent: 50 },
+      ]);
+    });
+
+    it("should flag tickets that are at risk or in breach", async () => {
+      const unassigned = await createTicket({ priority: "high", technicianId: null });
+      const assigned = await createTicket({ priority: "high", technicianId: technicianUserId });
+      await createTicket({ priority: "low" });
+
+      // 2 hours in: assignment target missed, completion target half used
+      const result = await slaService.checkCompany(testCompanyId, new Date(Date.now() + 2 * HOUR));
+
+      expect(result.breached).toBe(1);
+      expect(result.atRisk).toBe(2);
+
+      const response = await request(app)
+        .get("/api/tickets?slaBreached=true")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      const ids = response.body.data.map((t: { id: string }) => t.id);
+      expect(ids).toEqual([unassigned]);
+      expect(ids).not.toContain(assigned);
+    });
+
+    it("should only raise each alert once", async () => {
+      await createTicket({ priority: "high", technicianId: null });
+      const later = new Date(Date.now() + 2 * HOUR);
+
+      await slaService.checkCompany(testCompanyId, later);
+      const second = await slaService.checkCompany(testCompanyId, later);
+
+      expect(second.breached).toBe(0);
+      expect(second.atRisk).toBe(0);
+    });
+
+    it("should ignore closed tickets", async () => {
+      await createTicket({ priority: "high", status: "completed" });
+
+      const result = await slaService.checkCompany(testCompanyId, new Date(Date.now() + 5 * HOUR));
+
+      expect(result.ticketsChecked).toBe(0);
+    });
+
+    it("should count breached tickets on the dashboard", async () => {
+      await createTicket({ priority: "high", technicianId: null });
+      await slaService.checkCompany(testCompanyId, new Date(Date.now() + 2 * HOUR));
+
+      const response = await request(app)
+        .get("/api/reporting/dashboard-stats")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.slaBreachedTickets).toBe(1);
+    });
+  });
+});
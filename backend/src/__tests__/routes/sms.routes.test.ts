@@ -0,0 +1,108 @@
+import request from 'supertest';
+import app from '../../app.js';
+import credentialService from '../../services/credential.service.js';
+import customerService from '../../services/customer.service.js';
+import { generateInboundSmsToken } from '../../utils/auth.js';
+import { cleanupTestData } from '../helpers/db.helper.js';
+import { createTestCompany, createTestCustomer } from '../helpers/seed.helper.js';
+
+describe('SMS Routes Integration Tests', () => {
+  let testCompanyId: string;
+  let testCustomerIds: string[] = [];
+  let customerId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+    customerId = await createTestCustomer(testCompanyId, { phone: '(555) 123-4567' });
+    testCustomerIds.push(customerId);
+    await customerService.update(customerId, { smsOptIn: true }, testCompanyId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({ companyIds: [testCompanyId], customerIds: testCustomerIds });
+    testCustomerIds = [];
+  });
+
+  const inboundUrl = (token = generateInboundSmsToken(testCompanyId)) =>
+    `/api/sms/inbound/${testCompanyId}/${token}`;
+
+  const sendInbound = (body: Record<string, string>, token?: string) =>
+    request(app).post(inboundUrl(token)).send(body);
+
+  describe('POST /api/sms/inbound/:companyId/:token', () => {
+    it('should return 404 when SMS is not configured', async () => {
+      await sendInbound({ from: '+15551234567', body: 'STOP' }).expect(404);
+    });
+
+    describe('with the log provider', () => {
+      beforeEach(async () => {
+        await credentialService.saveIntegration(testCompanyId, 'sms', {
+          provider: 'log',
+          enabled: true,
+          credentials: {},
+        });
+      });
+
+      it('should opt the customer out on STOP and back in on START', async () => {
+        const stopResponse = await sendInbound({ from: '+15551234567', body: ' stop ' }).expect(200);
+        expect(stopResponse.body.data).toEqual({ action: 'opted_out', customerIds: [customerId] });
+
+        const optedOut = await customerService.findById(customerId, testCompanyId);
+        expect(optedOut?.smsOptIn).toBe(false);
+        expect(optedOut?.smsOptInChangedAt).not.toBeNull();
+
+        await sendInbound({ from: '+15551234567', body: 'START' }).expect(200);
+        const optedIn = await customerService.findById(customerId, testCompanyId);
+        expect(optedIn?.smsOptIn).toBe(true);
+      });
+
+      it('should leave opt-in alone for other messages', async () => {
+        const response = await sendInbound({
+          from: '+15551234567',
+          body: 'Is my phone ready?',
+        }).expect(200);
+
+        expect(response.body.data.action).toBeNull();
+        const customer = await customerService.findById(customerId, testCompanyId);
+        expect(customer?.smsOptIn).toBe(true);
+      });
+
+      it('should reject a body the provider does not recognize', async () => {
+        await sendInbound({ text: 'STOP' }).expect(400);
+      });
+
+      it('should reject a request without the company token', async () => {
+        await sendInbound({ from: '+15551234567', body: 'STOP' }, 'abcdef0123456789').expect(403);
+        await sendInbound(
+          { from: '+15551234567', body: 'STOP' },
+          generateInboundSmsToken('00000000-0000-0000-0000-000000000000')
+        ).expect(403);
+
+        const customer = await customerService.findById(customerId, testCompanyId);
+        expect(customer?.smsOptIn).toBe(true);
+      });
+    });
+
+    it('should reject Twilio webhooks without a valid signature', async () => {
+      await credentialService.saveIntegration(testCompanyId, 'sms', {
+        provider: 'twilio',
+        enabled: true,
+        credentials: {
+          accountSid: 'AC00000000000000000000000000000000',
+          authToken: 'test-auth-token-123',
+        },
+        settings: { fromNumber: '+15550001111' },
+      });
+
+      await request(app)
+        .post(inboundUrl())
+        .type('form')
+        .set('X-Twilio-Signature', 'not-a-signature')
+        .send({ From: '+15551234567', To: '+15550001111', Body: 'STOP' })
+        .expect(403);
+
+      const customer = await customerService.findById(customerId, testCompanyId);
+      expect(customer?.smsOptIn).toBe(true);
+    });
+  });
+});
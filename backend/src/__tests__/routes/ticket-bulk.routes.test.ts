@@ -0,0 +1,207 @@
+import { IncomingMessage } from "http";
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+// Collect binary responses so the PDF bytes can be inspected
+const binaryParser = (
+  res: IncomingMessage,
+  callback: (err: Error | null, body: Buffer) => void
+) => {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+describe("Ticket Bulk Routes Integration Tests", () => {
+  let testCompanyIds: string[] = [];
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let frontdeskToken: string;
+  let technicianToken: string;
+  let technicianId: string;
+  let ticketIds: string[];
+
+  beforeEach(async () => {
+    const companyId = await createTestCompany();
+    testCompanyIds.push(companyId);
+
+    const users = await createTestUsersWithRoles(companyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianToken = users.technician.token;
+    technicianId = users.technician.userId;
+
+    const customerId = await createTestCustomer(companyId);
+    testCustomerIds.push(customerId);
+
+    ticketIds = [
+      await createTestTicket(companyId, customerId, { locationId: users.locationId }),
+      await createTestTicket(companyId, customerId, { locationId: users.locationId }),
+    ];
+    testTicketIds.push(...ticketIds);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: testCompanyIds,
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testCompanyIds = [];
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  describe("POST /api/tickets/bulk", () => {
+    it("should assign a technician to every selected ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(adminToken))
+        .send({ action: "assign", ticketIds, technicianId });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ action: "assign", succeeded: 2, failed: 0 });
+      for (const result of response.body.data.results) {
+        expect(result.success).toBe(true);
+        expect(result.ticket.technicianId).toBe(technicianId);
+      }
+    });
+
+    it("should return 403 when the user can't take the action on a single ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ action: "assign", ticketIds, technicianId });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should report tickets that can't be changed without stopping the rest", async () => {
+      const otherCompanyId = await createTestCompany();
+      testCompanyIds.push(otherCompanyId);
+      const otherCustomerId = await createTestCustomer(otherCompanyId);
+      testCustomerIds.push(otherCustomerId);
+      const otherTicketId = await createTestTicket(otherCompanyId, otherCustomerId);
+      testTicketIds.push(otherTicketId);
+
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(adminToken))
+        .send({
+          action: "status",
+          ticketIds: [ticketIds[0], otherTicketId],
+          status: "in_progress",
+          notifyCustomer: false,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ succeeded: 1, failed: 1 });
+      expect(response.body.data.results[0]).toMatchObject({
+        ticketId: ticketIds[0],
+        success: true,
+        ticket: { status: "in_progress" },
+      });
+      expect(response.body.data.results[1]).toEqual({
+        ticketId: otherTicketId,
+        success: false,
+        error: "Ticket not found",
+      });
+    });
+
+    it("should apply the workflow's role rules to each ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ action: "status", ticketIds, status: "in_progress", notifyCustomer: false });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ succeeded: 0, failed: 2 });
+    });
+
+    it("should change the priority of every selected ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(technicianToken))
+        .send({ action: "priority", ticketIds, priority: "urgent" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.succeeded).toBe(2);
+      for (const result of response.body.data.results) {
+        expect(result.ticket.priority).toBe("urgent");
+      }
+    });
+
+    it("should require the value the action sets", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(adminToken))
+        .send({ action: "priority", ticketIds });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 when no tickets are selected", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk")
+        .set(getAuthHeader(adminToken))
+        .send({ action: "priority", ticketIds: [], priority: "high" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/tickets/bulk/labels", () => {
+    it("should render every label in one PDF", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk/labels")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ ticketIds })
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+      expect(response.headers["content-disposition"]).toBe('inline; filename="labels-2.pdf"');
+      expect((response.body as Buffer).subarray(0, 4).toString()).toBe("%PDF");
+    });
+
+    it("should render one ZPL label per ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk/labels")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ ticketIds, format: "zpl" });
+
+      expect(response.status).toBe(200);
+      expect(response.text.match(/\^XA/g)).toHaveLength(2);
+    });
+  });
+
+  describe("POST /api/tickets/bulk/export", () => {
+    it("should export the selected tickets as CSV", async () => {
+      const response = await request(app)
+        .post("/api/tickets/bulk/export")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ ticketIds });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(response.headers["content-disposition"]).toMatch(/^attachment; filename="tickets-/);
+
+      const lines = response.text.trim().split("\r\n");
+      expect(lines[0]).toMatch(/^Ticket Number,Status,Priority,Customer,/);
+      expect(lines).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { IncomingMessage } from "http";
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+// Collect binary responses so the PDF bytes can be inspected
+const binaryParser = (
+  res: IncomingMessage,
+  callback: (err: Error | null, body: Buffer) => void
+) => {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+describe("Ticket Document Routes Integration Tests", () => {
+  let testCompanyIds: string[] = [];
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let technicianToken: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    const companyId = await createTestCompany();
+    testCompanyIds.push(companyId);
+
+    const users = await createTestUsersWithRoles(companyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    technicianToken = users.technician.token;
+
+    const customerId = await createTestCustomer(companyId);
+    testCustomerIds.push(customerId);
+
+    ticketId = await createTestTicket(companyId, customerId, {
+      locationId: users.locationId,
+    });
+    testTicketIds.push(ticketId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: testCompanyIds,
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testCompanyIds = [];
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  describe("GET /api/tickets/:id/receipt", () => {
+    it("should render the intake receipt as a PDF", async () => {
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/receipt`)
+        .set(getAuthHeader(technicianToken))
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+      expect(response.headers["content-disposition"]).toMatch(/^inline; filename="receipt-/);
+      expect((response.body as Buffer).subarray(0, 4).toString()).toBe("%PDF");
+    });
+
+    it("should not render receipts for another company's ticket", async () => {
+      const otherCompanyId = await createTestCompany();
+      testCompanyIds.push(otherCompanyId);
+      const otherUsers = await createTestUsersWithRoles(otherCompanyId);
+      testUserIds.push(
+        otherUsers.admin.userId,
+        otherUsers.frontdesk.userId,
+        otherUsers.technician.userId
+      );
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/receipt`)
+        .set(getAuthHeader(otherUsers.admin.token));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/tickets/:id/label", () => {
+    it("should render a PDF label by default", async () => {
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/label`)
+        .set(getAuthHeader(technicianToken))
+        .buffer(true)
+        .parse(binaryParser);
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+      expect((response.body as Buffer).subarray(0, 4).toString()).toBe("%PDF");
+    });
+
+    it("should render ZPL with a QR code linking to the ticket", async () => {
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/label?format=zpl&size=2x1&dpi=300`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toMatch(/^text\/plain/);
+      expect(response.headers["content-disposition"]).toMatch(/^attachment; filename="label-.*\.zpl"/);
+      expect(response.text.startsWith("^XA")).toBe(true);
+      expect(response.text.trim().endsWith("^XZ")).toBe(true);
+      // 2x1 inches at 300 dpi
+      expect(response.text).toContain("^PW600");
+      expect(response.text).toContain("^LL300");
+      expect(response.text).toContain(`/tickets/${ticketId}`);
+    });
+
+    it("should reject unsupported formats and sizes", async () => {
+      const badFormat = await request(app)
+        .get(`/api/tickets/${ticketId}/label?format=png`)
+        .set(getAuthHeader(technicianToken));
+      expect(badFormat.status).toBe(400);
+
+      const badSize = await request(app)
+        .get(`/api/tickets/${ticketId}/label?size=4x6`)
+        .set(getAuthHeader(technicianToken));
+      expect(badSize.status).toBe(400);
+    });
+  });
+});
@@ -1,3 +1,5 @@
+import sharp from "sharp";
+import { Readable } from "stream";
 import request from "supertest";
 import app from "../../app.js";
 import { createAuthenticatedUser, createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
@@ -12,6 +14,7 @@ describe("Ticket Routes Integration Tests", () => {
   let authToken: string;
   let adminToken: string;
   let managerToken: string;
+  let frontdeskToken: string;
   let technicianUserId: string;
   let testLocationId: string;
 
@@ -26,6 +29,7 @@ describe("Ticket Routes Integration Tests", () => {
 
     authToken = users.technician.token;
     adminToken = users.admin.token;
+    frontdeskToken = users.frontdesk.token;
     technicianUserId = users.technician.userId;
 
     // Create manager user and assign to the same location
@@ -148,6 +152,130 @@ describe("Ticket Routes Integration Tests", () => {
       expect(response.body.data[0].status).toBe("completed");
     });
 
+    it("should filter tickets with a filter expression", async () => {
+      const customerId = await createTestCustomer(testCompanyId, {
+        firstName: "Alice",
+        lastName: "Johnson",
+        email: "alice@example.com",
+      });
+      testCustomerIds.push(customerId);
+
+      const appleTicketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+        deviceBrand: "Apple",
+        technicianId: technicianUserId,
+        status: "in_progress",
+      });
+      const dellTicketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+        deviceBrand: "Dell",
+        status: "in_progress",
+      });
+      const cancelledTicketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+        deviceBrand: "Apple",
+        status: "cancelled",
+      });
+      testTicketIds.push(appleTicketId, dellTicketId, cancelledTicketId);
+
+      const byBrand = await request(app)
+        .get("/api/tickets")
+        .query({ filter: "brand:apple -status:cancelled" })
+        .set(getAuthHeader(authToken));
+      expect(byBrand.status).toBe(200);
+      expect(byBrand.body.data.map((t: { id: string }) => t.id)).toEqual([appleTicketId]);
+
+      const mine = await request(app)
+        .get("/api/tickets")
+        .query({ filter: "technician:me" })
+        .set(getAuthHeader(authToken));
+      expect(mine.body.data.map((t: { id: string }) => t.id)).toEqual([appleTicketId]);
+
+      const unassigned = await request(app)
+        .get("/api/tickets")
+        .query({ filter: `technician:none created:>=today "alice johnson"` })
+        .set(getAuthHeader(authToken));
+      expect(unassigned.body.data.map((t: { id: string }) => t.id).sort()).toEqual(
+        [dellTicketId, cancelledTicketId].sort()
+      );
+    });
+
+    it("should return 400 for a filter the list doesn't understand", async () => {
+      const response = await request(app)
+        .get("/api/tickets")
+        .query({ filter: "colour:red" })
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toMatch(/^Unknown filter "colour"/);
+    });
+
+    it("should page through tickets in sort order", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      for (let i = 0; i < 3; i++) {
+        testTicketIds.push(
+          await createTestTicket(testCompanyId, customerId, { locationId: testLocationId })
+        );
+      }
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await request(app)
+          .get("/api/tickets")
+          .query({ sort: "ticketNumber", limit: 2, ...(cursor ? { cursor } : {}) })
+          .set(getAuthHeader(authToken));
+        expect(response.status).toBe(200);
+        expect(response.body.data.length).toBeLessThanOrEqual(2);
+        seen.push(...response.body.data.map((t: { ticketNumber: string }) => t.ticketNumber));
+        cursor = response.body.pagination.nextCursor ?? undefined;
+      } while (cursor);
+
+      const all = await request(app)
+        .get("/api/tickets")
+        .query({ sort: "ticketNumber" })
+        .set(getAuthHeader(authToken));
+      expect(all.body.pagination.nextCursor).toBeNull();
+      expect(seen).toEqual(all.body.data.map((t: { ticketNumber: string }) => t.ticketNumber));
+      expect(seen).toHaveLength(3);
+    });
+
+    it("should reject a tampered cursor", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+      for (let i = 0; i < 2; i++) {
+        testTicketIds.push(
+          await createTestTicket(testCompanyId, customerId, { locationId: testLocationId })
+        );
+      }
+
+      const firstPage = await request(app)
+        .get("/api/tickets")
+        .query({ limit: 1 })
+        .set(getAuthHeader(authToken));
+      const cursor = firstPage.body.pagination.nextCursor as string;
+      const secondPage = await request(app)
+        .get("/api/tickets")
+        .query({ limit: 1, cursor })
+        .set(getAuthHeader(authToken));
+      expect(secondPage.status).toBe(200);
+      expect(secondPage.body.data).toHaveLength(1);
+
+      const [name, value] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      for (const tampered of [
+        [name, "yesterday", firstPage.body.data[0].id],
+        [name, value, "not-a-uuid"],
+      ]) {
+        const response = await request(app)
+          .get("/api/tickets")
+          .query({ limit: 1, cursor: Buffer.from(JSON.stringify(tampered)).toString("base64url") })
+          .set(getAuthHeader(authToken));
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toBe("Invalid cursor");
+      }
+    });
+
     it("should return 401 without authentication token", async () => {
       const response = await request(app).get("/api/tickets");
 
@@ -588,6 +716,25 @@ describe("Ticket Routes Integration Tests", () => {
         .set(getAuthHeader(authToken))
         .send({ status: "invalid_status" });
 
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.message).toBe("Unknown ticket status: invalid_status");
+    });
+
+    it("should return 400 for a malformed status key", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(authToken))
+        .send({ status: "Not A Status!" });
+
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
       expect(response.body.error.message).toBe("Validation failed");
@@ -860,4 +1007,501 @@ describe("Ticket Routes Integration Tests", () => {
       expect(response.body.error.message).toBe("Validation failed");
     });
   });
+
+  describe("GET /api/tickets/:id/timeline", () => {
+    it("should record status changes with actor and old/new values", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+        status: "new",
+      });
+      testTicketIds.push(ticketId);
+
+      await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(authToken))
+        .send({ status: "in_progress" });
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/timeline`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].eventType).toBe("status_changed");
+      expect(response.body.data[0].oldValue).toBe("new");
+      expect(response.body.data[0].newValue).toBe("in_progress");
+      expect(response.body.data[0].actorId).toBe(technicianUserId);
+      expect(response.body.data[0].actor.firstName).toBeDefined();
+    });
+
+    it("should record technician assignment and notes in order", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      await request(app)
+        .post(`/api/tickets/${ticketId}/assign`)
+        .set(getAuthHeader(managerToken))
+        .send({ technicianId: technicianUserId });
+
+      await request(app)
+        .post(`/api/tickets/${ticketId}/diagnostic-notes`)
+        .set(getAuthHeader(authToken))
+        .send({ notes: "Screen is cracked" });
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/timeline`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+      const eventTypes = response.body.data.map((e: { eventType: string }) => e.eventType);
+      expect(eventTypes).toEqual(["technician_assigned", "diagnostic_notes_added"]);
+      expect(response.body.data[0].newValue).toBe(technicianUserId);
+      expect(response.body.data[1].newValue).toBe("Screen is cracked");
+    });
+
+    it("should record only the fields that changed on update", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+        priority: "medium",
+      });
+      testTicketIds.push(ticketId);
+
+      await request(app)
+        .put(`/api/tickets/${ticketId}`)
+        .set(getAuthHeader(authToken))
+        .send({ priority: "urgent", deviceType: "Smartphone" });
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/timeline`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+      const priorityEvent = response.body.data.find(
+        (e: { field: string }) => e.field === "priority"
+      );
+      expect(priorityEvent.eventType).toBe("updated");
+      expect(priorityEvent.oldValue).toBe("medium");
+      expect(priorityEvent.newValue).toBe("urgent");
+    });
+
+    it("should return 404 when ticket not found", async () => {
+      const fakeId = "00000000-0000-0000-0000-000000000000";
+      const response = await request(app)
+        .get(`/api/tickets/${fakeId}/timeline`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe("/api/tickets/:id/comments", () => {
+    it("should create a comment and return replies nested under it", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const parent = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Waiting on a replacement screen" });
+
+      expect(parent.status).toBe(201);
+      expect(parent.body.data.visibility).toBe("internal");
+      expect(parent.body.data.authorId).toBe(technicianUserId);
+
+      const reply = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(managerToken))
+        .send({ body: "Ordered, arrives Friday", parentId: parent.body.data.id });
+
+      expect(reply.status).toBe(201);
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].body).toBe("Waiting on a replacement screen");
+      expect(response.body.data[0].replies).toHaveLength(1);
+      expect(response.body.data[0].replies[0].body).toBe("Ordered, arrives Friday");
+    });
+
+    it("should filter comments by visibility", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Internal note", visibility: "internal" });
+      await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Your device is ready for pickup", visibility: "customer" });
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/comments?visibility=customer`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].body).toBe("Your device is ready for pickup");
+    });
+
+    it("should reject customer-visible replies to internal comments", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const parent = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Internal note" });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Shared reply", visibility: "customer", parentId: parent.body.data.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it("should keep thread visibility consistent when comments are edited", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const internalParent = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Internal note" });
+      const internalReply = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Internal reply", parentId: internalParent.body.data.id });
+
+      const sharedReply = await request(app)
+        .put(`/api/tickets/${ticketId}/comments/${internalReply.body.data.id}`)
+        .set(getAuthHeader(authToken))
+        .send({ visibility: "customer" });
+
+      expect(sharedReply.status).toBe(400);
+
+      const sharedParent = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Update for the customer", visibility: "customer" });
+      await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Thanks", visibility: "customer", parentId: sharedParent.body.data.id });
+
+      const hiddenParent = await request(app)
+        .put(`/api/tickets/${ticketId}/comments/${sharedParent.body.data.id}`)
+        .set(getAuthHeader(authToken))
+        .send({ visibility: "internal" });
+
+      expect(hiddenParent.status).toBe(400);
+    });
+
+    it("should keep edit history when a comment is edited", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const created = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Battry swelling" });
+      const commentId = created.body.data.id;
+
+      const updated = await request(app)
+        .put(`/api/tickets/${ticketId}/comments/${commentId}`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Battery swelling", visibility: "customer" });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.body).toBe("Battery swelling");
+      expect(updated.body.data.visibility).toBe("customer");
+      expect(updated.body.data.editedAt).not.toBeNull();
+
+      const history = await request(app)
+        .get(`/api/tickets/${ticketId}/comments/${commentId}/history`)
+        .set(getAuthHeader(authToken));
+
+      expect(history.status).toBe(200);
+      expect(history.body.data).toHaveLength(1);
+      expect(history.body.data[0].body).toBe("Battry swelling");
+      expect(history.body.data[0].visibility).toBe("internal");
+    });
+
+    it("should only allow the author or a manager to edit a comment", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const created = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "Original" });
+      const commentId = created.body.data.id;
+
+      const forbidden = await request(app)
+        .put(`/api/tickets/${ticketId}/comments/${commentId}`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ body: "Changed by someone else" });
+
+      expect(forbidden.status).toBe(403);
+
+      const allowed = await request(app)
+        .put(`/api/tickets/${ticketId}/comments/${commentId}`)
+        .set(getAuthHeader(managerToken))
+        .send({ body: "Changed by manager" });
+
+      expect(allowed.status).toBe(200);
+      expect(allowed.body.data.body).toBe("Changed by manager");
+    });
+
+    it("should delete a comment", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const created = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "To be removed" });
+
+      const response = await request(app)
+        .delete(`/api/tickets/${ticketId}/comments/${created.body.data.id}`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(200);
+
+      const list = await request(app)
+        .get(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken));
+
+      expect(list.body.data).toHaveLength(0);
+    });
+
+    it("should return 400 for an empty comment body", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/comments`)
+        .set(getAuthHeader(authToken))
+        .send({ body: "   " });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("Validation failed");
+    });
+
+    it("should return 404 when ticket not found", async () => {
+      const fakeId = "00000000-0000-0000-0000-000000000000";
+      const response = await request(app)
+        .get(`/api/tickets/${fakeId}/comments`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe("/api/tickets/:id/attachments", () => {
+    const createTestImage = () =>
+      sharp({
+        create: { width: 800, height: 600, channels: 3, background: "#ff0000" },
+      })
+        .png()
+        .toBuffer();
+
+    it("should upload an image and generate a thumbnail", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(frontdeskToken))
+        .attach("files", await createTestImage(), {
+          filename: "cracked-screen.png",
+          contentType: "image/png",
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].fileName).toBe("cracked-screen.png");
+      expect(response.body.data[0].contentType).toBe("image/png");
+      expect(response.body.data[0].hasThumbnail).toBe(true);
+      expect(response.body.data[0].storageKey).toBeUndefined();
+
+      const attachmentId = response.body.data[0].id;
+
+      const list = await request(app)
+        .get(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(authToken));
+
+      expect(list.status).toBe(200);
+      expect(list.body.data).toHaveLength(1);
+
+      const thumbnail = await request(app)
+        .get(`/api/tickets/${ticketId}/attachments/${attachmentId}/thumbnail`)
+        .set(getAuthHeader(authToken));
+
+      expect(thumbnail.status).toBe(200);
+      expect(thumbnail.headers["content-type"]).toBe("image/webp");
+      const metadata = await sharp(thumbnail.body).metadata();
+      expect(metadata.width).toBeLessThanOrEqual(320);
+    });
+
+    it("should download the original file", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const pdf = Buffer.from("%PDF-1.4\n%signed waiver\n");
+      const upload = await request(app)
+        .post(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(authToken))
+        .attach("files", pdf, { filename: "waiver.pdf", contentType: "application/pdf" });
+
+      expect(upload.status).toBe(201);
+      expect(upload.body.data[0].hasThumbnail).toBe(false);
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/attachments/${upload.body.data[0].id}/download`)
+        .set(getAuthHeader(authToken))
+        .buffer(true)
+        .parse((res: Readable, callback: (err: Error | null, body: Buffer) => void) => {
+          const chunks: Buffer[] = [];
+          res.on("data", (chunk: Buffer) => chunks.push(chunk));
+          res.on("end", () => callback(null, Buffer.concat(chunks)));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toBe("application/pdf");
+      expect(Buffer.compare(response.body, pdf)).toBe(0);
+    });
+
+    it("should reject unsupported file types", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(authToken))
+        .attach("files", Buffer.from("#!/bin/sh"), {
+          filename: "script.sh",
+          contentType: "application/x-sh",
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it("should delete an attachment", async () => {
+      const customerId = await createTestCustomer(testCompanyId);
+      testCustomerIds.push(customerId);
+
+      const ticketId = await createTestTicket(testCompanyId, customerId, {
+        locationId: testLocationId,
+      });
+      testTicketIds.push(ticketId);
+
+      const upload = await request(app)
+        .post(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(authToken))
+        .attach("files", await createTestImage(), {
+          filename: "liquid-damage.png",
+          contentType: "image/png",
+        });
+
+      const response = await request(app)
+        .delete(`/api/tickets/${ticketId}/attachments/${upload.body.data[0].id}`)
+        .set(getAuthHeader(managerToken));
+
+      expect(response.status).toBe(200);
+
+      const list = await request(app)
+        .get(`/api/tickets/${ticketId}/attachments`)
+        .set(getAuthHeader(authToken));
+
+      expect(list.body.data).toHaveLength(0);
+    });
+
+    it("should return 404 when ticket not found", async () => {
+      const fakeId = "00000000-0000-0000-0000-000000000000";
+      const response = await request(app)
+        .get(`/api/tickets/${fakeId}/attachments`)
+        .set(getAuthHeader(authToken));
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
 });
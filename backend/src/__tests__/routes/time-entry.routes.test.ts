@@ -0,0 +1,228 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData, getTestDb } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestInvoice,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+describe("Time Entry Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let testInvoiceIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let frontdeskToken: string;
+  let technicianId: string;
+  let locationId: string;
+  let customerId: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianId = users.technician.userId;
+    locationId = users.locationId;
+
+    customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    ticketId = await createTestTicket(testCompanyId, customerId, { locationId, technicianId });
+    testTicketIds.push(ticketId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+      invoiceIds: testInvoiceIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+    testInvoiceIds = [];
+  });
+
+  const logTime = (durationMinutes: number, laborCategoryId?: string) =>
+    request(app)
+      .post(`/api/tickets/${ticketId}/time-entries`)
+      .set(getAuthHeader(technicianToken))
+      .send({ durationMinutes, laborCategoryId });
+
+  describe("Timers", () => {
+    it("should start and stop a timer", async () => {
+      const startResponse = await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries/start`)
+        .set(getAuthHeader(technicianToken))
+        .send({ notes: "Diagnosing" });
+
+      expect(startResponse.status).toBe(201);
+      expect(startResponse.body.data).toMatchObject({
+        userId: technicianId,
+        endedAt: null,
+        durationMinutes: null,
+      });
+
+      const stopResponse = await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries/${startResponse.body.data.id}/stop`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(stopResponse.status).toBe(200);
+      expect(stopResponse.body.data.endedAt).toBeTruthy();
+      expect(stopResponse.body.data.durationMinutes).toBe(1);
+    });
+
+    it("should not allow a second running timer", async () => {
+      await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries/start`)
+        .set(getAuthHeader(technicianToken))
+        .send({});
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries/start`)
+        .set(getAuthHeader(technicianToken))
+        .send({});
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should not allow front desk staff to track time", async () => {
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries/start`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({});
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Manual entries", () => {
+    it("should log time and include it in the ticket totals", async () => {
+      const response = await logTime(45);
+      expect(response.status).toBe(201);
+      expect(response.body.data.durationMinutes).toBe(45);
+
+      const listResponse = await request(app)
+        .get(`/api/tickets/${ticketId}/time-entries`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.body.data).toMatchObject({
+        totalMinutes: 45,
+        billedMinutes: 0,
+        unbilledMinutes: 45,
+        runningTimers: 0,
+      });
+    });
+
+    it("should not let technicians log time for someone else", async () => {
+      const users = await getTestDb()
+        .selectFrom("users")
+        .select("id")
+        .where("company_id", "=", testCompanyId)
+        .where("id", "!=", technicianId)
+        .execute();
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/time-entries`)
+        .set(getAuthHeader(technicianToken))
+        .send({ durationMinutes: 30, userId: users[0].id });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("POST /api/invoices/:id/labor", () => {
+    let invoiceId: string;
+
+    beforeEach(async () => {
+      invoiceId = await createTestInvoice(testCompanyId, customerId, {
+        locationId,
+        ticketId,
+        status: "draft",
+        subtotal: 0,
+        taxRate: 0,
+      });
+      testInvoiceIds.push(invoiceId);
+    });
+
+    it("should bill unbilled time as labor items at the category or default rate", async () => {
+      await request(app)
+        .put("/api/labor/rate")
+        .set(getAuthHeader(adminToken))
+        .send({ hourlyRate: 60 });
+      const categoryResponse = await request(app)
+        .post("/api/labor/categories")
+        .set(getAuthHeader(adminToken))
+        .send({ name: "Board Repair", hourlyRate: 120 });
+      expect(categoryResponse.status).toBe(201);
+
+      await logTime(90);
+      await logTime(30, categoryResponse.body.data.id);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/labor`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.minutes).toBe(120);
+      const items = response.body.data.items as { type: string; unitPrice: number | string }[];
+      expect(items).toHaveLength(2);
+      expect(items.every((item) => item.type === "service")).toBe(true);
+      expect(items.map((item) => Number(item.unitPrice)).sort()).toEqual([60, 90]);
+
+      const listResponse = await request(app)
+        .get(`/api/tickets/${ticketId}/time-entries`)
+        .set(getAuthHeader(technicianToken));
+      expect(listResponse.body.data).toMatchObject({ billedMinutes: 120, unbilledMinutes: 0 });
+
+      // Billed time is locked
+      const entryId = listResponse.body.data.entries[0].id;
+      const deleteResponse = await request(app)
+        .delete(`/api/tickets/${ticketId}/time-entries/${entryId}`)
+        .set(getAuthHeader(technicianToken));
+      expect(deleteResponse.status).toBe(400);
+    });
+
+    it("should bill the same time only once when asked twice at once", async () => {
+      await request(app)
+        .put("/api/labor/rate")
+        .set(getAuthHeader(adminToken))
+        .send({ hourlyRate: 60 });
+      await logTime(60);
+
+      const bill = () =>
+        request(app)
+          .post(`/api/invoices/${invoiceId}/labor`)
+          .set(getAuthHeader(adminToken));
+      const responses = await Promise.all([bill(), bill()]);
+
+      expect(responses.map((response: { status: number }) => response.status).sort()).toEqual([201, 400]);
+      const invoice = await request(app)
+        .get(`/api/invoices/${invoiceId}`)
+        .set(getAuthHeader(adminToken));
+      expect(invoice.body.data.invoiceItems).toHaveLength(1);
+    });
+
+    it("should require a labor rate", async () => {
+      await logTime(30);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoiceId}/labor`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
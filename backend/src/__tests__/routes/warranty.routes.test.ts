@@ -0,0 +1,269 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData, getTestDb } from "../helpers/db.helper.js";
+import {
+  createTestCompany,
+  createTestCustomer,
+  createTestInventoryItem,
+  createTestTicket,
+} from "../helpers/seed.helper.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Warranty Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let testInventoryItemIds: string[] = [];
+  let testInvoiceIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let frontdeskToken: string;
+  let technicianId: string;
+  let locationId: string;
+  let customerId: string;
+  let ticketId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianId = users.technician.userId;
+    locationId = users.locationId;
+
+    customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId,
+      technicianId,
+      status: "in_progress",
+    });
+    testTicketIds.push(ticketId);
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+      inventoryItemIds: testInventoryItemIds,
+      invoiceIds: testInvoiceIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+    testInventoryItemIds = [];
+    testInvoiceIds = [];
+  });
+
+  const setDefaultWarranty = (defaultWarrantyDays: number | null) =>
+    request(app)
+      .put("/api/warranty/settings")
+      .set(getAuthHeader(adminToken))
+      .send({ defaultWarrantyDays });
+
+  const complete = (id = ticketId) =>
+    request(app)
+      .post(`/api/tickets/${id}/status`)
+      .set(getAuthHeader(adminToken))
+      .send({ status: "completed" });
+
+  const createInvoice = async (id = ticketId) => {
+    const response = await request(app)
+      .post("/api/invoices")
+      .set(getAuthHeader(adminToken))
+      .send({ customerId, ticketId: id });
+    testInvoiceIds.push(response.body.data.id);
+    return response;
+  };
+
+  const createClaim = async (originalTicketId = ticketId) => {
+    const response = await request(app)
+      .post("/api/tickets")
+      .set(getAuthHeader(adminToken))
+      .send({
+        customerId,
+        ticketType: "warranty_claim",
+        originalTicketId,
+        deviceType: "iPhone",
+        issueDescription: "Screen stopped working again",
+      });
+    if (response.body.data?.id) {
+      testTicketIds.push(response.body.data.id);
+    }
+    return response;
+  };
+
+  describe("PUT /api/warranty/settings", () => {
+    it("should let admins set the default warranty", async () => {
+      const response = await setDefaultWarranty(30);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.defaultWarrantyDays).toBe(30);
+    });
+
+    it("should not let frontdesk change the default warranty", async () => {
+      const response = await request(app)
+        .put("/api/warranty/settings")
+        .set(getAuthHeader(frontdeskToken))
+        .send({ defaultWarrantyDays: 30 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Completing a repair", () => {
+    it("should record the longest warranty among the parts used", async () => {
+      await setDefaultWarranty(30);
+      const inventoryItemId = await createTestInventoryItem(testCompanyId, locationId, {
+        quantity: 5,
+      });
+      testInventoryItemIds.push(inventoryItemId);
+      await getTestDb()
+        .updateTable("inventory_items")
+        .set({ warranty_days: 90 })
+        .where("id", "=", inventoryItemId)
+        .execute();
+      await request(app)
+        .post(`/api/tickets/${ticketId}/parts`)
+        .set(getAuthHeader(technicianToken))
+        .send({ inventoryItemId, quantity: 1 });
+
+      const response = await complete();
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.warrantyDays).toBe(90);
+      const { warrantyStartsAt, warrantyExpiresAt } = response.body.data;
+      expect(new Date(warrantyExpiresAt).getTime() - new Date(warrantyStartsAt).getTime()).toBe(
+        90 * DAY_MS
+      );
+    });
+
+    it("should fall back to the default warranty and copy it onto the invoice", async () => {
+      await setDefaultWarranty(30);
+
+      const completed = await complete();
+      expect(completed.body.data.warrantyDays).toBe(30);
+
+      const invoice = await createInvoice();
+      expect(invoice.status).toBe(201);
+      expect(invoice.body.data.warrantyExpiresAt).toBe(completed.body.data.warrantyExpiresAt);
+    });
+
+    it("should not record a warranty when nothing gives one", async () => {
+      const response = await complete();
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.warrantyExpiresAt).toBeNull();
+    });
+  });
+
+  describe("Warranty claims", () => {
+    beforeEach(async () => {
+      await setDefaultWarranty(30);
+      await createInvoice();
+      await complete();
+    });
+
+    it("should link a claim to the original ticket and invoice", async () => {
+      const response = await createClaim();
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        ticketType: "warranty_claim",
+        originalTicketId: ticketId,
+        originalInvoiceId: testInvoiceIds[0],
+      });
+    });
+
+    it("should refuse a claim once the warranty has expired", async () => {
+      await getTestDb()
+        .updateTable("tickets")
+        .set({ warranty_expires_at: new Date(Date.now() - DAY_MS).toISOString() })
+        .where("id", "=", ticketId)
+        .execute();
+
+      const response = await createClaim();
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should refuse a claim without an original ticket", async () => {
+      const response = await request(app)
+        .post("/api/tickets")
+        .set(getAuthHeader(adminToken))
+        .send({
+          customerId,
+          ticketType: "warranty_claim",
+          deviceType: "iPhone",
+          issueDescription: "Screen stopped working again",
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should bill labor on a claim at no charge", async () => {
+      const claim = await createClaim();
+      const claimId = claim.body.data.id;
+      await request(app)
+        .post(`/api/tickets/${claimId}/time-entries`)
+        .set(getAuthHeader(technicianToken))
+        .send({ durationMinutes: 60 });
+      const invoice = await createInvoice(claimId);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoice.body.data.id}/labor`)
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.items).toHaveLength(1);
+      expect(Number(response.body.data.items[0].unitPrice)).toBe(0);
+    });
+
+    it("should charge nothing for labor added by hand to a claim's invoice", async () => {
+      const claim = await createClaim();
+      const invoice = await createInvoice(claim.body.data.id);
+
+      const response = await request(app)
+        .post(`/api/invoices/${invoice.body.data.id}/items`)
+        .set(getAuthHeader(adminToken))
+        .send({ description: "Screen replacement labor", quantity: 1, unitPrice: 80, type: "service" });
+
+      expect(response.status).toBe(201);
+      expect(Number(response.body.data.unitPrice)).toBe(0);
+      expect(Number(response.body.data.subtotal)).toBe(0);
+    });
+
+    it("should list the repair as covered for the customer", async () => {
+      const response = await request(app)
+        .get("/api/warranty/coverage")
+        .query({ customerId })
+        .set(getAuthHeader(frontdeskToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ ticketId, warrantyDays: 30, isActive: true }),
+      ]);
+    });
+
+    it("should report the return against the technician", async () => {
+      await createClaim();
+
+      const response = await request(app)
+        .get("/api/reporting/warranty-returns")
+        .set(getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.byTechnician).toEqual([
+        expect.objectContaining({ technicianId, repairs: 1, warrantyClaims: 1, returnRate: 100 }),
+      ]);
+    });
+  });
+});
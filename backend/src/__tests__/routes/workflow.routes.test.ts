@@ -0,0 +1,262 @@
+import request from "supertest";
+import app from "../../app.js";
+import { createTestUsersWithRoles, getAuthHeader } from "../helpers/auth.helper.js";
+import { cleanupTestData } from "../helpers/db.helper.js";
+import { createTestCompany, createTestCustomer, createTestTicket } from "../helpers/seed.helper.js";
+
+// Built-in statuses plus a shop-specific one
+const customWorkflow = {
+  statuses: [
+    { key: "new", label: "New" },
+    { key: "assigned", label: "Assigned" },
+    { key: "in_progress", label: "In Progress" },
+    { key: "awaiting_parts", label: "Awaiting Parts", color: "orange" },
+    { key: "on_hold", label: "On Hold" },
+    { key: "completed", label: "Completed" },
+    { key: "cancelled", label: "Cancelled" },
+  ],
+  transitions: [
+    { from: "new", to: "in_progress", allowedRoles: ["admin", "technician"], requiredConditions: ["technician_assigned"] },
+    { from: "new", to: "awaiting_parts", allowedRoles: ["admin", "technician"] },
+    { from: "awaiting_parts", to: "in_progress", allowedRoles: ["admin", "technician"] },
+    { from: "in_progress", to: "completed", allowedRoles: ["admin", "technician"], requiredConditions: ["checklist_complete"] },
+    { from: "completed", to: "cancelled", allowedRoles: ["frontdesk"] },
+  ],
+};
+
+describe("Workflow Routes Integration Tests", () => {
+  let testCompanyId: string;
+  let testUserIds: string[] = [];
+  let testCustomerIds: string[] = [];
+  let testTicketIds: string[] = [];
+  let adminToken: string;
+  let technicianToken: string;
+  let frontdeskToken: string;
+  let technicianUserId: string;
+  let testLocationId: string;
+
+  beforeEach(async () => {
+    testCompanyId = await createTestCompany();
+
+    const users = await createTestUsersWithRoles(testCompanyId);
+    testUserIds.push(users.admin.userId, users.frontdesk.userId, users.technician.userId);
+    testLocationId = users.locationId;
+
+    adminToken = users.admin.token;
+    technicianToken = users.technician.token;
+    frontdeskToken = users.frontdesk.token;
+    technicianUserId = users.technician.userId;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData({
+      companyIds: [testCompanyId],
+      userIds: testUserIds,
+      customerIds: testCustomerIds,
+      ticketIds: testTicketIds,
+    });
+    testUserIds = [];
+    testCustomerIds = [];
+    testTicketIds = [];
+  });
+
+  const createTicket = async (overrides: { status?: string; technicianId?: string | null } = {}) => {
+    const customerId = await createTestCustomer(testCompanyId);
+    testCustomerIds.push(customerId);
+    const ticketId = await createTestTicket(testCompanyId, customerId, {
+      locationId: testLocationId,
+      ...overrides,
+    });
+    testTicketIds.push(ticketId);
+    return ticketId;
+  };
+
+  describe("GET /api/workflow", () => {
+    it("should return the default workflow when none is configured", async () => {
+      const response = await request(app)
+        .get("/api/workflow")
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isDefault).toBe(true);
+      expect(response.body.data.statuses.map((s: { key: string }) => s.key)).toEqual([
+        "new",
+        "assigned",
+        "in_progress",
+        "on_hold",
+        "awaiting_approval",
+        "completed",
+        "cancelled",
+      ]);
+    });
+  });
+
+  describe("PUT /api/workflow", () => {
+    it("should save a custom workflow", async () => {
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send(customWorkflow);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isDefault).toBe(false);
+      const awaitingParts = response.body.data.statuses.find(
+        (s: { key: string }) => s.key === "awaiting_parts"
+      );
+      expect(awaitingParts).toMatchObject({ label: "Awaiting Parts", color: "orange", isSystem: false });
+      expect(response.body.data.transitions).toHaveLength(customWorkflow.transitions.length);
+    });
+
+    it("should not allow built-in statuses to be removed", async () => {
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send({
+          statuses: customWorkflow.statuses.filter((s) => s.key !== "on_hold"),
+          transitions: [],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("on_hold");
+    });
+
+    it("should not remove a status that tickets are still in", async () => {
+      await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send(customWorkflow);
+      await createTicket({ status: "awaiting_parts" });
+
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send({
+          statuses: customWorkflow.statuses.filter((s) => s.key !== "awaiting_parts"),
+          transitions: [],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("awaiting_parts (1)");
+    });
+
+    it("should keep the Awaiting Approval status when it is left out", async () => {
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send(customWorkflow);
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.data.statuses.find((s: { key: string }) => s.key === "awaiting_approval")
+      ).toMatchObject({ isSystem: true, isClosed: false });
+    });
+
+    it("should not allow transitions into Awaiting Approval", async () => {
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send({
+          statuses: customWorkflow.statuses,
+          transitions: [
+            ...customWorkflow.transitions,
+            { from: "in_progress", to: "awaiting_approval", allowedRoles: ["admin"] },
+          ],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("awaiting_approval");
+    });
+
+    it("should return 403 for non-admins", async () => {
+      const response = await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(technicianToken))
+        .send(customWorkflow);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("Ticket status changes", () => {
+    beforeEach(async () => {
+      await request(app)
+        .put("/api/workflow")
+        .set(getAuthHeader(adminToken))
+        .send(customWorkflow);
+    });
+
+    it("should allow a configured transition to a custom status", async () => {
+      const ticketId = await createTicket({ status: "new" });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(technicianToken))
+        .send({ status: "awaiting_parts" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe("awaiting_parts");
+    });
+
+    it("should reject a transition the workflow doesn't allow", async () => {
+      const ticketId = await createTicket({ status: "new" });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(technicianToken))
+        .send({ status: "completed" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toBe("Cannot move ticket from New to Completed");
+    });
+
+    it("should enforce required conditions", async () => {
+      const ticketId = await createTicket({ status: "new", technicianId: null });
+
+      const response = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(technicianToken))
+        .send({ status: "in_progress" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain("A technician must be assigned");
+
+      const assigned = await createTicket({ status: "new", technicianId: technicianUserId });
+      const allowed = await request(app)
+        .post(`/api/tickets/${assigned}/status`)
+        .set(getAuthHeader(technicianToken))
+        .send({ status: "in_progress" });
+
+      expect(allowed.status).toBe(200);
+    });
+
+    it("should only let the roles on a transition make it", async () => {
+      const ticketId = await createTicket({ status: "completed" });
+
+      const forbidden = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(technicianToken))
+        .send({ status: "cancelled" });
+      expect(forbidden.status).toBe(403);
+
+      const allowed = await request(app)
+        .post(`/api/tickets/${ticketId}/status`)
+        .set(getAuthHeader(frontdeskToken))
+        .send({ status: "cancelled" });
+      expect(allowed.status).toBe(200);
+      expect(allowed.body.data.status).toBe("cancelled");
+    });
+
+    it("should list the transitions available to the user", async () => {
+      const ticketId = await createTicket({ status: "new" });
+
+      const response = await request(app)
+        .get(`/api/tickets/${ticketId}/transitions`)
+        .set(getAuthHeader(technicianToken));
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.data.map((t: { status: { key: string } }) => t.status.key)
+      ).toEqual(["in_progress", "awaiting_parts"]);
+    });
+  });
+});
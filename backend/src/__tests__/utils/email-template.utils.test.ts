@@ -0,0 +1,105 @@
+import {
+  findTemplateVariables,
+  renderTemplate,
+  toHtmlContent,
+  toPlainText,
+  wrapEmailLayout,
+} from "../../utils/email-template.utils.js";
+
+const branding = {
+  companyName: "Main Street Repairs",
+  logoSrc: null,
+  primaryColor: "#112233",
+  accentColor: "#445566",
+};
+
+describe("email template utils", () => {
+  describe("renderTemplate", () => {
+    it("should fill in variables and leave unknown ones empty", () => {
+      expect(renderTemplate("Hello {{ name }}, ticket {{ticket}}{{missing}}", { name: "Jane", ticket: "TKT-1" })).toBe(
+        "Hello Jane, ticket TKT-1"
+      );
+    });
+
+    it("should keep sections only when their variable has a value", () => {
+      const template = "{{#paid}}Paid, thanks!{{/paid}}{{^paid}}Payment due{{/paid}}";
+
+      expect(renderTemplate(template, { paid: "yes" })).toBe("Paid, thanks!");
+      expect(renderTemplate(template, { paid: "" })).toBe("Payment due");
+      expect(renderTemplate(template, {})).toBe("Payment due");
+    });
+
+    it("should drop standalone section lines without leaving blank lines", () => {
+      const template = "Subtotal: {{subtotal}}\n{{#tax}}\nTax: {{tax}}\n{{/tax}}\nTotal: {{total}}";
+
+      expect(renderTemplate(template, { subtotal: "$10.00", total: "$10.00" })).toBe(
+        "Subtotal: $10.00\nTotal: $10.00"
+      );
+      expect(renderTemplate(template, { subtotal: "$10.00", tax: "$0.80", total: "$10.80" })).toBe(
+        "Subtotal: $10.00\nTax: $0.80\nTotal: $10.80"
+      );
+    });
+
+    it("should handle sections inside other sections", () => {
+      const template = "{{#notes}}Notes{{#author}} from {{author}}{{/author}}: {{notes}}{{/notes}}";
+
+      expect(renderTemplate(template, { notes: "Fragile", author: "Alex" })).toBe("Notes from Alex: Fragile");
+      expect(renderTemplate(template, { notes: "Fragile" })).toBe("Notes: Fragile");
+    });
+  });
+
+  describe("findTemplateVariables", () => {
+    it("should list variables and section names once each", () => {
+      expect(findTemplateVariables("{{#notes}}{{notes}}{{/notes}} {{ total }} {{^paid}}due{{/paid}}")).toEqual([
+        "notes",
+        "total",
+        "paid",
+      ]);
+    });
+  });
+
+  describe("toPlainText", () => {
+    it("should spell buttons out as links", () => {
+      expect(toPlainText("[Pay now](https://example.com/pay)")).toBe("Pay now: https://example.com/pay");
+    });
+  });
+
+  describe("toHtmlContent", () => {
+    it("should escape text, split paragraphs and link URLs", () => {
+      const html = toHtmlContent("Hello <b>Jane</b>,\nsee https://example.com/a?b=1&c=2.\n\nThanks", branding);
+
+      expect(html).toContain("<p>Hello &lt;b&gt;Jane&lt;/b&gt;,<br>see ");
+      expect(html).toContain('<a href="https://example.com/a?b=1&amp;c=2" style="color: #445566;">');
+      expect(html).toContain("</a>.</p>");
+      expect(html).toContain("<p>Thanks</p>");
+    });
+
+    it("should turn a paragraph that is only a [label](link) into a button", () => {
+      const html = toHtmlContent("[Pay now](https://example.com/pay)", branding);
+
+      expect(html).toContain(
+        '<a href="https://example.com/pay" style="background-color: #112233; color: #ffffff;'
+      );
+      expect(html).toContain(">Pay now</a>");
+    });
+
+    it("should keep inline [label](link)s as links", () => {
+      const html = toHtmlContent("Questions? [Email us](https://example.com/contact) any time.", branding);
+
+      expect(html).toContain(
+        '<p>Questions? <a href="https://example.com/contact" style="color: #445566;">Email us</a> any time.</p>'
+      );
+    });
+  });
+
+  describe("wrapEmailLayout", () => {
+    it("should show the logo when there is one, or the company name", () => {
+      expect(wrapEmailLayout("<p>Hi</p>", { ...branding, logoSrc: "cid:company-logo" })).toContain(
+        '<img src="cid:company-logo" alt="Main Street Repairs"'
+      );
+      expect(wrapEmailLayout("<p>Hi</p>", branding)).toContain(
+        '<h2 style="color: #112233; margin: 0;">Main Street Repairs</h2>'
+      );
+    });
+  });
+});
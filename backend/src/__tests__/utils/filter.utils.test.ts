@@ -0,0 +1,128 @@
+import {
+  DummyDriver,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  RawBuilder,
+  SqlBool,
+} from "kysely";
+import { BadRequestError } from "../../config/errors.js";
+import {
+  buildFilter,
+  FilterSchema,
+  likePattern,
+  parseFilterExpression,
+  searchColumns,
+} from "../../utils/filter.utils.js";
+
+// Compiles queries without a database connection
+const compiler = new Kysely<Record<string, never>>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new PostgresIntrospector(db),
+    createQueryCompiler: () => new PostgresQueryCompiler(),
+  },
+});
+
+const schema: FilterSchema = {
+  fields: {
+    status: { column: "tickets.status", type: "enum" },
+    priority: { column: "tickets.priority", type: "enum", values: ["low", "high"] },
+    technician: { column: "tickets.technician_id", type: "id", nullable: true },
+    brand: { column: "tickets.device_brand", type: "text", nullable: true },
+    created: { column: "tickets.created_at", type: "date" },
+    total: { column: "tickets.total", type: "number" },
+  },
+  search: searchColumns(["tickets.ticket_number", "tickets.issue_description"]),
+};
+
+const USER_ID = "11111111-2222-3333-4444-555555555555";
+
+function compile(expression: string) {
+  const condition = buildFilter(expression, schema, { userId: USER_ID }) as RawBuilder<SqlBool>;
+  return condition.compile(compiler);
+}
+
+describe("Filter Utilities", () => {
+  describe("parseFilterExpression", () => {
+    it("should split fields, negation, quoted values and free text", () => {
+      expect(
+        parseFilterExpression('status:new,assigned -priority:low brand:"google pixel" cracked')
+      ).toEqual([
+        { field: "status", negate: false, value: "new,assigned" },
+        { field: "priority", negate: true, value: "low" },
+        { field: "brand", negate: false, value: "google pixel" },
+        { field: null, negate: false, value: "cracked" },
+      ]);
+    });
+
+    it("should return no terms for an empty expression", () => {
+      expect(parseFilterExpression("   ")).toEqual([]);
+      expect(parseFilterExpression(undefined)).toEqual([]);
+    });
+  });
+
+  describe("buildFilter", () => {
+    it("should return null when there is nothing to filter on", () => {
+      expect(buildFilter("", schema)).toBeNull();
+    });
+
+    it("should match any of several values", () => {
+      const { sql, parameters } = compile("status:new,assigned");
+
+      expect(sql).toBe('(("tickets"."status" in ($1, $2)))');
+      expect(parameters).toEqual(["new", "assigned"]);
+    });
+
+    it("should resolve me and none for id fields", () => {
+      const { sql, parameters } = compile("technician:me,none");
+
+      expect(sql).toBe('(("tickets"."technician_id" is null or "tickets"."technician_id" in ($1)))');
+      expect(parameters).toEqual([USER_ID]);
+    });
+
+    it("should keep empty columns when negating", () => {
+      const { sql } = compile("-brand:apple");
+
+      expect(sql).toBe('(not coalesce((("tickets"."device_brand" ilike $1)), false))');
+    });
+
+    it("should cover whole days in a date range", () => {
+      const { sql, parameters } = compile("created:2025-01-01..2025-01-31");
+
+      expect(sql).toBe('(("tickets"."created_at" >= $1 and "tickets"."created_at" < $2))');
+      expect(parameters).toEqual(["2025-01-01T00:00:00.000Z", "2025-02-01T00:00:00.000Z"]);
+    });
+
+    it("should compare numbers", () => {
+      const { sql, parameters } = compile("total:>100");
+
+      expect(sql).toBe('(("tickets"."total" > $1))');
+      expect(parameters).toEqual([100]);
+    });
+
+    it("should search free text across the search columns", () => {
+      const { sql, parameters } = compile("50%_off");
+
+      expect(sql).toBe(
+        '(("tickets"."ticket_number" ilike $1 or "tickets"."issue_description" ilike $2))'
+      );
+      expect(parameters).toEqual([likePattern("50%_off"), likePattern("50%_off")]);
+      expect(likePattern("50%_off")).toBe("%50\\%\\_off%");
+    });
+
+    it.each([
+      ["an unknown field", "colour:red"],
+      ["a value outside an enum", "priority:urgent"],
+      ["none on a field that is always set", "status:none"],
+      ["a malformed id", "technician:bob"],
+      ["an invalid date", "created:yesterday"],
+      ["an invalid number", "total:lots"],
+      ["an open range with no ends", "total:.."],
+    ])("should reject %s", (_description, expression) => {
+      expect(() => buildFilter(expression, schema, { userId: USER_ID })).toThrow(BadRequestError);
+    });
+  });
+});
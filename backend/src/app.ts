@@ -9,12 +9,20 @@ import logger from "./config/logger.js";
 import { checkMaintenanceMode } from "./middlewares/maintenance.middleware.js";
 import { apiLimiter } from "./middlewares/rate-limit.middleware.js";
 import { requestLogger } from "./middlewares/request-logger.middleware.js";
+import appointmentRoutes from "./routes/appointment.routes.js";
 import assetRoutes from "./routes/asset.routes.js";
+import bookingRoutes from "./routes/booking.routes.js";
 import cashDrawerRoutes from "./routes/cash-drawer.routes.js";
 import companyRoutes from "./routes/company.routes.js";
 import customerRoutes from "./routes/customer.routes.js";
 import diagnosticChecklistRoutes from "./routes/diagnostic-checklist.routes.js";
+import dispatchRoutes from "./routes/dispatch.routes.js";
+import emailRoutes from "./routes/email.routes.js";
+import emailMessageRoutes from "./routes/email-message.routes.js";
+import emailTemplateRoutes from "./routes/email-template.routes.js";
+import estimateRoutes from "./routes/estimate.routes.js";
 import featureFlagsRoutes from "./routes/feature-flags.routes.js";
+import giftCardRoutes from "./routes/gift-card.routes.js";
 import integrationRoutes from "./routes/integration.routes.js";
 import inventoryTransferRoutes from "./routes/inventory-transfer.routes.js";
 import inventoryRoutes from "./routes/inventory.routes.js";
@@ -24,15 +32,25 @@ import inventoryBrandRoutes from "./routes/inventory-brand.routes.js";
 import inventoryModelRoutes from "./routes/inventory-model.routes.js";
 import invitationRoutes from "./routes/invitation.routes.js";
 import invoiceRoutes from "./routes/invoice.routes.js";
+import laborRoutes from "./routes/labor.routes.js";
 import locationRoutes from "./routes/location.routes.js";
+import messageRoutes from "./routes/message.routes.js";
 import newsletterRoutes from "./routes/newsletter.routes.js";
 import paymentRoutes from "./routes/payment.routes.js";
+import portalRoutes from "./routes/portal.routes.js";
 import purchaseOrderRoutes from "./routes/purchase-order.routes.js";
+import recurringInvoiceRoutes from "./routes/recurring-invoice.routes.js";
 import reportingRoutes from "./routes/reporting.routes.js";
+import savedViewRoutes from "./routes/saved-view.routes.js";
+import signatureTermsRoutes from "./routes/signature-terms.routes.js";
+import smsRoutes from "./routes/sms.routes.js";
+import slaRoutes from "./routes/sla.routes.js";
 import subscriptionRoutes from "./routes/subscription.routes.js";
 import systemRoutes from "./routes/system.routes.js";
 import ticketRoutes from "./routes/ticket.routes.js";
 import userRoutes from "./routes/user.routes.js";
+import warrantyRoutes from "./routes/warranty.routes.js";
+import workflowRoutes from "./routes/workflow.routes.js";
 
 // Import routes
 
@@ -117,11 +135,19 @@ app.use(checkMaintenanceMode);
 app.use("/api/auth", userRoutes);
 app.use("/api/users", userRoutes); // Also mount user routes at /api/users for technicians endpoint
 app.use("/api/companies", companyRoutes);
+app.use("/api/appointments", appointmentRoutes);
 app.use("/api/assets", assetRoutes);
+app.use("/api/booking", bookingRoutes);
 app.use("/api/cash-drawer", cashDrawerRoutes);
 app.use("/api/customers", customerRoutes);
 app.use("/api/diagnostic-checklists", diagnosticChecklistRoutes);
+app.use("/api/dispatch", dispatchRoutes);
+app.use("/api/email", emailRoutes);
+app.use("/api/email-messages", emailMessageRoutes);
+app.use("/api/email-templates", emailTemplateRoutes);
+app.use("/api/estimates", estimateRoutes);
 app.use("/api/feature-flags", featureFlagsRoutes);
+app.use("/api/gift-cards", giftCardRoutes);
 app.use("/api/tickets", ticketRoutes);
 app.use("/api/invoices", invoiceRoutes);
 app.use("/api/inventory", inventoryRoutes);
@@ -131,14 +157,24 @@ app.use("/api/inventory-brands", inventoryBrandRoutes);
 app.use("/api/inventory-models", inventoryModelRoutes);
 app.use("/api/inventory-transfers", inventoryTransferRoutes);
 app.use("/api/purchase-orders", purchaseOrderRoutes);
+app.use("/api/recurring-invoices", recurringInvoiceRoutes);
 app.use("/api/reporting", reportingRoutes);
 app.use("/api/invitations", invitationRoutes);
 app.use("/api/integrations", integrationRoutes);
+app.use("/api/labor", laborRoutes);
 app.use("/api/locations", locationRoutes);
+app.use("/api/messages", messageRoutes);
 app.use("/api/newsletter", newsletterRoutes);
 app.use("/api/payments", paymentRoutes);
+app.use("/api/portal", portalRoutes);
+app.use("/api/saved-views", savedViewRoutes);
+app.use("/api/signature-terms", signatureTermsRoutes);
+app.use("/api/sms", smsRoutes);
+app.use("/api/sla-policies", slaRoutes);
 app.use("/api/subscriptions", subscriptionRoutes);
 app.use("/api/system", systemRoutes);
+app.use("/api/warranty", warrantyRoutes);
+app.use("/api/workflow", workflowRoutes);
 
 // Health check endpoint
 app.get("/health", async (req: Request, res: Response) => {
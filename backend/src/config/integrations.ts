@@ -8,6 +8,8 @@ export type EmailProvider = 'sendgrid';
 
 export type PaymentProvider = 'square';
 
+export type SmsProvider = 'twilio' | 'log';
+
 /**
  * Base integration configuration structure
  */
@@ -48,6 +50,20 @@ export interface PaymentIntegrationConfig extends IntegrationConfig {
   };
 }
 
+/**
+ * SMS integration configuration
+ */
+export interface SmsIntegrationConfig extends IntegrationConfig {
+  type: 'sms';
+  provider: SmsProvider;
+  settings?: {
+    // E.164 number texts are sent from, e.g. +15551234567
+    fromNumber?: string;
+    // Text customers who opted in when their ticket status changes
+    ticketStatusUpdates?: boolean;
+  };
+}
+
 /**
  * Provider metadata for UI display
  */
@@ -83,6 +99,23 @@ export const PAYMENT_PROVIDERS: Record<PaymentProvider, ProviderMetadata> = {
   },
 };
 
+/**
+ * SMS provider metadata
+ */
+export const SMS_PROVIDERS: Record<SmsProvider, ProviderMetadata> = {
+  twilio: {
+    id: 'twilio',
+    displayName: 'Twilio',
+    description: 'Twilio programmable messaging (pay per message)',
+    documentationUrl: 'https://www.twilio.com/docs/messaging/api/message-resource',
+  },
+  log: {
+    id: 'log',
+    displayName: 'Log only',
+    description: 'Writes texts to the server log instead of sending them, for development and testing',
+  },
+};
+
 /**
  * Get provider metadata
  */
@@ -93,6 +126,9 @@ export function getProviderMetadata(type: IntegrationType, provider: string): Pr
   if (type === 'payment') {
     return PAYMENT_PROVIDERS[provider as PaymentProvider];
   }
+  if (type === 'sms') {
+    return SMS_PROVIDERS[provider as SmsProvider];
+  }
   return undefined;
 }
 
@@ -106,5 +142,8 @@ export function getAvailableProviders(type: IntegrationType): ProviderMetadata[]
   if (type === 'payment') {
     return Object.values(PAYMENT_PROVIDERS);
   }
+  if (type === 'sms') {
+    return Object.values(SMS_PROVIDERS);
+  }
   return [];
 }
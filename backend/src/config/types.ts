@@ -13,10 +13,21 @@ export type SoftDelete = ColumnType<
 
 // Database interface
 export interface Database {
+  appointments: AppointmentTable;
   assets: AssetTable;
+  attachments: AttachmentTable;
   cash_drawer_sessions: CashDrawerSessionTable;
   companies: CompanyTable;
   customers: CustomerTable;
+  credit_memos: CreditMemoTable;
+  customer_deposits: CustomerDepositTable;
+  customer_messages: CustomerMessageTable;
+  email_messages: EmailMessageTable;
+  email_templates: EmailTemplateTable;
+  estimates: EstimateTable;
+  estimate_items: EstimateItemTable;
+  gift_cards: GiftCardTable;
+  gift_card_transactions: GiftCardTransactionTable;
   diagnostic_checklist_templates: DiagnosticChecklistTemplateTable;
   diagnostic_checklist_items: DiagnosticChecklistItemTable;
   diagnostic_checklist_responses: DiagnosticChecklistResponseTable;
@@ -28,15 +39,35 @@ export interface Database {
   inventory_models: InventoryModelTable;
   invoices: InvoiceTable;
   invoice_items: InvoiceItemTable;
+  invoice_payments: InvoicePaymentTable;
+  invoice_returns: InvoiceReturnTable;
+  invoice_return_items: InvoiceReturnItemTable;
   invitations: InvitationTable;
+  labor_categories: LaborCategoryTable;
   locations: LocationTable;
   purchase_orders: PurchaseOrderTable;
   purchase_order_items: PurchaseOrderItemTable;
+  recurring_invoices: RecurringInvoiceTable;
+  recurring_invoice_items: RecurringInvoiceItemTable;
   role_permissions: RolePermissionTable;
+  saved_views: SavedViewTable;
+  saved_view_pins: SavedViewPinTable;
+  signature_terms: SignatureTermsTable;
+  sla_policies: SlaPolicyTable;
+  store_credit_transactions: StoreCreditTransactionTable;
   subscriptions: SubscriptionTable;
   subscription_payments: SubscriptionPaymentTable;
   system_settings: SystemSettingsTable;
   tickets: TicketTable;
+  ticket_events: TicketEventTable;
+  ticket_comments: TicketCommentTable;
+  ticket_comment_revisions: TicketCommentRevisionTable;
+  ticket_sla_alerts: TicketSlaAlertTable;
+  ticket_part_reservations: TicketPartReservationTable;
+  ticket_signatures: TicketSignatureTable;
+  ticket_time_entries: TicketTimeEntryTable;
+  ticket_workflow_statuses: TicketWorkflowStatusTable;
+  ticket_workflow_transitions: TicketWorkflowTransitionTable;
   user_locations: UserLocationTable;
   user_roles: UserRoleTable;
   users: UserTable;
@@ -72,6 +103,21 @@ export interface AssetTable {
   deleted_at: SoftDelete;
 }
 
+export interface AttachmentTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID | null;
+  asset_id: UUID | null;
+  uploaded_by: UUID | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  thumbnail_size_bytes: number;
+  created_at: Timestamp;
+}
+
 export interface CustomerTable {
   id: UUID;
   company_id: UUID;
@@ -84,11 +130,50 @@ export interface CustomerTable {
   state: string | null;
   zip_code: string | null;
   notes: string | null;
+  sms_opt_in: ColumnType<boolean, boolean | undefined, boolean>;
+  sms_opt_in_changed_at: Timestamp | null;
+  store_credit_balance: ColumnType<number, number | undefined, number>;
   created_at: Timestamp;
   updated_at: Timestamp;
   deleted_at: SoftDelete;
 }
 
+export type StoreCreditTransactionType = "refund" | "redemption" | "adjustment";
+
+export interface StoreCreditTransactionTable {
+  id: UUID;
+  company_id: UUID;
+  customer_id: UUID;
+  type: StoreCreditTransactionType;
+  amount: number;
+  balance_after: number;
+  invoice_id: UUID | null;
+  invoice_payment_id: UUID | null;
+  credit_memo_id: UUID | null;
+  notes: string | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+}
+
+export interface CustomerDepositTable {
+  id: UUID;
+  company_id: UUID;
+  customer_id: UUID;
+  ticket_id: UUID | null;
+  location_id: UUID | null;
+  amount: number;
+  amount_applied: ColumnType<number, number | undefined, number>;
+  amount_refunded: ColumnType<number, number | undefined, number>;
+  payment_method: string;
+  payment_reference: string | null;
+  is_provider_payment: ColumnType<boolean, boolean | undefined, boolean>;
+  cash_drawer_session_id: UUID | null;
+  notes: string | null;
+  received_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
 export interface InventoryCategoryTable {
   id: UUID;
   company_id: UUID;
@@ -148,6 +233,7 @@ export interface InventoryItemTable {
   location: string | null;
   supplier: string | null;
   supplier_part_number: string | null;
+  warranty_days: number | null;
   is_active: boolean;
   is_taxable: boolean;
   track_quantity: boolean;
@@ -161,6 +247,7 @@ export interface InventoryLocationQuantityTable {
   inventory_item_id: UUID;
   location_id: UUID;
   quantity: number;
+  reserved_quantity: ColumnType<number, number | undefined, number>;
   created_at: Timestamp;
   updated_at: Timestamp;
 }
@@ -168,6 +255,7 @@ export interface InventoryLocationQuantityTable {
 export type InvoiceStatus =
   | "draft"
   | "issued"
+  | "partially_paid"
   | "paid"
   | "overdue"
   | "cancelled";
@@ -188,6 +276,8 @@ export interface InvoiceTable {
   tax_amount: number;
   discount_amount: number;
   total_amount: number;
+  // Total of the invoice's payments, kept in step with invoice_payments
+  amount_paid: ColumnType<number, number | undefined, number>;
   refund_amount: number;
   refund_date: Timestamp | null;
   refund_reason: string | null;
@@ -196,6 +286,8 @@ export interface InvoiceTable {
   payment_method: string | null;
   payment_reference: string | null;
   cash_drawer_session_id: UUID | null;
+  warranty_expires_at: Timestamp | null;
+  recurring_invoice_id: ColumnType<string | null, string | null | undefined, string | null>;
   created_at: Timestamp;
   updated_at: Timestamp;
   deleted_at: SoftDelete;
@@ -217,14 +309,200 @@ export interface InvoiceItemTable {
   updated_at: Timestamp;
 }
 
-export type TicketStatus =
+export interface InvoicePaymentTable {
+  id: UUID;
+  company_id: UUID;
+  invoice_id: UUID;
+  amount: number;
+  payment_method: string;
+  payment_reference: string | null;
+  cash_drawer_session_id: UUID | null;
+  // Deposit the payment was applied from
+  customer_deposit_id: ColumnType<string | null, string | null | undefined, string | null>;
+  // Gift card the payment was made with
+  gift_card_id: ColumnType<string | null, string | null | undefined, string | null>;
+  notes: string | null;
+  received_by: UUID | null;
+  paid_at: Timestamp;
+  created_at: Timestamp;
+}
+
+export interface CreditMemoTable {
+  id: UUID;
+  company_id: UUID;
+  credit_memo_number: string;
+  invoice_id: UUID;
+  customer_id: UUID | null;
+  amount: number;
+  refund_method: string;
+  reason: string | null;
+  issued_by: UUID | null;
+  created_at: Timestamp;
+}
+
+export interface GiftCardTable {
+  id: UUID;
+  company_id: UUID;
+  code: string;
+  customer_id: UUID | null;
+  initial_amount: number;
+  balance: number;
+  is_active: ColumnType<boolean, boolean | undefined, boolean>;
+  notes: string | null;
+  issued_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export type GiftCardTransactionType = "sale" | "redemption";
+
+export interface GiftCardTransactionTable {
+  id: UUID;
+  company_id: UUID;
+  gift_card_id: UUID;
+  type: GiftCardTransactionType;
+  amount: number;
+  balance_after: number;
+  payment_method: string | null;
+  payment_reference: string | null;
+  cash_drawer_session_id: UUID | null;
+  invoice_id: UUID | null;
+  invoice_payment_id: UUID | null;
+  notes: string | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+}
+
+export interface InvoiceReturnTable {
+  id: UUID;
+  company_id: UUID;
+  return_number: string;
+  invoice_id: UUID;
+  customer_id: UUID | null;
+  credit_memo_id: UUID | null;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  restocking_fee: number;
+  refund_amount: number;
+  refund_method: string;
+  reason: string | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+}
+
+export type ReturnDisposition = "restock" | "write_off";
+
+export interface InvoiceReturnItemTable {
+  id: UUID;
+  return_id: UUID;
+  invoice_item_id: UUID | null;
+  inventory_item_id: UUID | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  tax_amount: number;
+  disposition: ReturnDisposition;
+  created_at: Timestamp;
+}
+
+export type RecurringInvoiceFrequency = "monthly" | "quarterly" | "yearly";
+export type RecurringInvoiceStatus = "active" | "paused" | "ended";
+
+export interface RecurringInvoiceTable {
+  id: UUID;
+  company_id: UUID;
+  location_id: UUID;
+  customer_id: UUID;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  status: ColumnType<RecurringInvoiceStatus, RecurringInvoiceStatus | undefined, RecurringInvoiceStatus>;
+  next_issue_date: Timestamp;
+  end_date: Timestamp | null;
+  due_days: number;
+  notes: string | null;
+  auto_email: boolean;
+  autopay_enabled: boolean;
+  square_customer_id: string | null;
+  square_card_id: string | null;
+  last_invoice_id: UUID | null;
+  last_issued_at: Timestamp | null;
+  last_autopay_error: string | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  deleted_at: SoftDelete;
+}
+
+export interface RecurringInvoiceItemTable {
+  id: UUID;
+  recurring_invoice_id: UUID;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  type: "service" | "other";
+  sort_order: number;
+  created_at: Timestamp;
+}
+
+export type EstimateStatus = "draft" | "sent" | "approved" | "declined" | "withdrawn";
+
+export interface EstimateTable {
+  id: UUID;
+  company_id: UUID;
+  location_id: UUID | null;
+  ticket_id: UUID;
+  customer_id: UUID;
+  estimate_number: string;
+  status: EstimateStatus;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total_amount: number;
+  notes: string | null;
+  valid_until: Timestamp | null;
+  previous_ticket_status: string | null;
+  sent_at: Timestamp | null;
+  responded_at: Timestamp | null;
+  approved_by_name: string | null;
+  decline_reason: string | null;
+  invoice_id: UUID | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  deleted_at: SoftDelete;
+}
+
+export interface EstimateItemTable {
+  id: UUID;
+  estimate_id: UUID;
+  inventory_item_id: UUID | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  discount_amount: number;
+  subtotal: number;
+  type: "part" | "service" | "other";
+  is_taxable: boolean;
+  sort_order: number;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export type BuiltInTicketStatus =
   | "new"
   | "assigned"
   | "in_progress"
   | "on_hold"
+  | "awaiting_approval"
   | "completed"
   | "cancelled";
+// Companies can add their own statuses (e.g. "awaiting_parts") through their workflow
+export type TicketStatus = BuiltInTicketStatus | (string & {});
 export type TicketPriority = "low" | "medium" | "high" | "urgent";
+export type TicketType = "repair" | "warranty_claim";
 
 export interface TicketTable {
   id: UUID;
@@ -233,6 +511,9 @@ export interface TicketTable {
   asset_id: UUID | null;
   checklist_template_id: UUID | null;
   ticket_number: string;
+  ticket_type: ColumnType<TicketType, TicketType | undefined, TicketType>;
+  original_ticket_id: UUID | null;
+  original_invoice_id: UUID | null;
   customer_id: UUID;
   technician_id: UUID | null;
   status: TicketStatus;
@@ -246,11 +527,320 @@ export interface TicketTable {
   repair_notes: string | null;
   estimated_completion_date: Timestamp | null;
   completed_date: Timestamp | null;
+  first_assigned_at: Timestamp | null;
+  sla_breached_at: Timestamp | null;
+  warranty_days: number | null;
+  warranty_starts_at: Timestamp | null;
+  warranty_expires_at: Timestamp | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  deleted_at: SoftDelete;
+}
+
+export type TicketEventType =
+  | "created"
+  | "updated"
+  | "status_changed"
+  | "technician_assigned"
+  | "diagnostic_notes_added"
+  | "repair_notes_added"
+  | "sla_breached"
+  | "estimate_sent"
+  | "estimate_approved"
+  | "estimate_declined"
+  | "deleted";
+
+export interface TicketEventTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  actor_id: UUID | null;
+  event_type: TicketEventType;
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: Timestamp;
+}
+
+export type TicketCommentVisibility = "internal" | "customer";
+
+export interface TicketCommentTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  parent_id: UUID | null;
+  author_id: UUID | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  edited_at: Timestamp | null;
   created_at: Timestamp;
   updated_at: Timestamp;
   deleted_at: SoftDelete;
 }
 
+export interface TicketCommentRevisionTable {
+  id: UUID;
+  comment_id: UUID;
+  editor_id: UUID | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  created_at: Timestamp;
+}
+
+export interface TicketWorkflowStatusTable {
+  id: UUID;
+  company_id: UUID;
+  key: string;
+  label: string;
+  color: string;
+  sort_order: number;
+  is_closed: boolean;
+  is_system: boolean;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export interface TicketWorkflowTransitionTable {
+  id: UUID;
+  company_id: UUID;
+  from_status: string;
+  to_status: string;
+  allowed_roles: string[];
+  required_conditions: string[];
+  created_at: Timestamp;
+}
+
+export type SlaTarget = "assignment" | "completion";
+export type SlaAlertLevel = "at_risk" | "breached";
+
+export interface SlaPolicyTable {
+  id: UUID;
+  company_id: UUID;
+  priority: TicketPriority;
+  assignment_target_minutes: number | null;
+  completion_target_minutes: number | null;
+  warning_percent: number;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export interface TicketSlaAlertTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  target: SlaTarget;
+  level: SlaAlertLevel;
+  due_at: Timestamp;
+  created_at: Timestamp;
+}
+
+export type SignatureKind = "intake" | "pickup";
+
+// Each edit adds a new version; older versions are kept so signatures can point at them
+export interface SignatureTermsTable {
+  id: UUID;
+  company_id: UUID;
+  kind: SignatureKind;
+  version: number;
+  body: string;
+  created_by: UUID | null;
+  created_at: Timestamp;
+}
+
+export interface TicketSignatureTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  kind: SignatureKind;
+  signer_name: string;
+  signature_image: string;
+  terms_version: number;
+  terms_text: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  captured_by: UUID | null;
+  signed_at: Timestamp;
+}
+
+export type PartReservationStatus = "reserved" | "consumed" | "released";
+
+export interface TicketPartReservationTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  inventory_item_id: UUID;
+  location_id: UUID;
+  quantity: number;
+  reserved_quantity: number;
+  status: PartReservationStatus;
+  invoice_item_id: UUID | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  closed_at: Timestamp | null;
+}
+
+export interface LaborCategoryTable {
+  id: UUID;
+  company_id: UUID;
+  name: string;
+  hourly_rate: number | null;
+  warranty_days: number | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+  deleted_at: SoftDelete;
+}
+
+export interface TicketTimeEntryTable {
+  id: UUID;
+  company_id: UUID;
+  ticket_id: UUID;
+  user_id: UUID;
+  labor_category_id: UUID | null;
+  started_at: Timestamp;
+  ended_at: Timestamp | null;
+  duration_minutes: number | null;
+  notes: string | null;
+  invoice_item_id: UUID | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export type AppointmentType = "drop_off" | "on_site";
+export type AppointmentStatus = "scheduled" | "checked_in" | "cancelled" | "no_show";
+export type AppointmentSource = "staff" | "online";
+
+export interface AppointmentTable {
+  id: UUID;
+  company_id: UUID;
+  location_id: UUID;
+  customer_id: UUID | null;
+  technician_id: UUID | null;
+  ticket_id: UUID | null;
+  series_id: UUID | null;
+  appointment_type: ColumnType<AppointmentType, AppointmentType | undefined, AppointmentType>;
+  status: ColumnType<AppointmentStatus, AppointmentStatus | undefined, AppointmentStatus>;
+  source: ColumnType<AppointmentSource, AppointmentSource | undefined, AppointmentSource>;
+  starts_at: Timestamp;
+  ends_at: Timestamp;
+  contact_first_name: string | null;
+  contact_last_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  device_type: string | null;
+  device_brand: string | null;
+  device_model: string | null;
+  issue_description: string | null;
+  address: string | null;
+  notes: string | null;
+  checked_in_at: Timestamp | null;
+  created_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export type SavedViewResource = "tickets" | "invoices" | "inventory";
+export type SavedViewVisibility = "user" | "company";
+
+export type MessageChannel = "email" | "sms";
+
+export type MessageDirection = "inbound" | "outbound";
+
+export interface CustomerMessageTable {
+  id: UUID;
+  company_id: UUID;
+  customer_id: UUID;
+  ticket_id: UUID | null;
+  channel: MessageChannel;
+  direction: MessageDirection;
+  from_address: string | null;
+  to_address: string;
+  subject: string | null;
+  body: string;
+  provider_message_id: string | null;
+  sent_by: UUID | null;
+  read_at: Timestamp | null;
+  created_at: Timestamp;
+}
+
+export type EmailTemplateKey = "ticket_status" | "invoice" | "invitation" | "password_reset";
+
+export interface EmailTemplateTable {
+  id: UUID;
+  company_id: UUID;
+  template_key: EmailTemplateKey;
+  subject: string;
+  body: string;
+  updated_by: UUID | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export type EmailMessageStatus = "pending" | "sent" | "delivered" | "opened" | "bounced" | "failed";
+
+export type EmailSender = "company" | "site_wide";
+
+// A file sent with an email; set contentId to show it inline in the HTML (<img src="cid:...">)
+export interface EmailAttachment {
+  content: string; // base64
+  filename: string;
+  type: string;
+  contentId?: string;
+}
+
+// Everything needed to send an email again
+export interface EmailMessagePayload {
+  to: string | string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  from?: string;
+  fromName?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailMessageTable {
+  id: UUID;
+  company_id: UUID | null;
+  template: string;
+  sender: EmailSender;
+  to_address: string;
+  subject: string;
+  payload: EmailMessagePayload;
+  status: EmailMessageStatus;
+  attempts: number;
+  next_attempt_at: Timestamp | null;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_at: Timestamp | null;
+  delivered_at: Timestamp | null;
+  opened_at: Timestamp | null;
+  bounced_at: Timestamp | null;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export interface SavedViewTable {
+  id: UUID;
+  company_id: UUID;
+  user_id: UUID;
+  resource: SavedViewResource;
+  name: string;
+  filter: ColumnType<string, string | undefined, string>;
+  sort: string | null;
+  visibility: ColumnType<SavedViewVisibility, SavedViewVisibility | undefined, SavedViewVisibility>;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+export interface SavedViewPinTable {
+  user_id: UUID;
+  saved_view_id: UUID;
+  created_at: Timestamp;
+}
+
 export type UserRole = "admin" | "manager" | "technician" | "frontdesk" | "superuser";
 
 export type PurchaseOrderStatus =
@@ -326,11 +916,27 @@ export interface LocationTable {
   tax_inclusive: boolean;
   is_active: boolean;
   is_free: boolean;
+  timezone: ColumnType<string, string | undefined, string>;
+  business_hours: BusinessHours | null;
+  booking_enabled: ColumnType<boolean, boolean | undefined, boolean>;
+  booking_slot_minutes: ColumnType<number, number | undefined, number>;
   created_at: Timestamp;
   updated_at: Timestamp;
   deleted_at: SoftDelete;
 }
 
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+// Opening hours as "HH:MM" in the location's time zone; a missing day is closed
+export type BusinessHours = Partial<Record<Weekday, { open: string; close: string }>>;
+
 export interface UserLocationTable {
   user_id: UUID;
   location_id: UUID;
@@ -0,0 +1,87 @@
+// src/config/workflow.ts
+import { BuiltInTicketStatus, UserRole } from "./types.js";
+
+// Checks a ticket must pass before a transition is allowed
+export const WORKFLOW_CONDITIONS = {
+  checklist_complete: "Required diagnostic checklist items are answered",
+  technician_assigned: "A technician is assigned",
+  diagnostic_notes: "Diagnostic notes are recorded",
+  repair_notes: "Repair notes are recorded",
+} as const;
+
+export type WorkflowCondition = keyof typeof WORKFLOW_CONDITIONS;
+
+// Colors the frontend knows how to render as status badges
+export const WORKFLOW_STATUS_COLORS = [
+  "gray",
+  "blue",
+  "purple",
+  "yellow",
+  "orange",
+  "green",
+  "red",
+  "teal",
+  "indigo",
+  "pink",
+] as const;
+
+// Roles a transition can be granted to (superusers bypass workflow role checks)
+export const WORKFLOW_ROLES: UserRole[] = ["admin", "manager", "technician", "frontdesk"];
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  color: string;
+  sortOrder: number;
+  isClosed: boolean;
+  isSystem: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  allowedRoles: UserRole[];
+  requiredConditions: WorkflowCondition[];
+}
+
+// Status a ticket waits in while the customer reviews an estimate
+export const AWAITING_APPROVAL_STATUS = "awaiting_approval";
+
+// Statuses only the app moves tickets in and out of, so they can't be used in transitions
+export const MANAGED_WORKFLOW_STATUSES: string[] = [AWAITING_APPROVAL_STATUS];
+
+// Built-in statuses every workflow must keep; reports and other features rely on them
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = [
+  { key: "new", label: "New", color: "blue", sortOrder: 0, isClosed: false, isSystem: true },
+  { key: "assigned", label: "Assigned", color: "purple", sortOrder: 1, isClosed: false, isSystem: true },
+  { key: "in_progress", label: "In Progress", color: "yellow", sortOrder: 2, isClosed: false, isSystem: true },
+  { key: "on_hold", label: "On Hold", color: "orange", sortOrder: 3, isClosed: false, isSystem: true },
+  { key: AWAITING_APPROVAL_STATUS, label: "Awaiting Approval", color: "indigo", sortOrder: 4, isClosed: false, isSystem: true },
+  { key: "completed", label: "Completed", color: "green", sortOrder: 5, isClosed: true, isSystem: true },
+  { key: "cancelled", label: "Cancelled", color: "gray", sortOrder: 6, isClosed: true, isSystem: true },
+];
+
+export const BUILT_IN_TICKET_STATUSES = DEFAULT_WORKFLOW_STATUSES.map(
+  (status) => status.key
+) as BuiltInTicketStatus[];
+
+// Built-in statuses staff move tickets between
+const TRANSITION_STATUSES = BUILT_IN_TICKET_STATUSES.filter(
+  (status) => !MANAGED_WORKFLOW_STATUSES.includes(status)
+);
+
+/**
+ * Default transitions used until a company saves its own workflow
+ * Matches the behaviour before workflows were configurable: admins, managers and
+ * technicians can move a ticket between any statuses, and completing a ticket
+ * requires its diagnostic checklist to be done
+ */
+export const DEFAULT_WORKFLOW_TRANSITIONS: WorkflowTransition[] = TRANSITION_STATUSES.flatMap(
+  (from) =>
+    TRANSITION_STATUSES.filter((to) => to !== from).map((to) => ({
+      from,
+      to,
+      allowedRoles: ["admin", "manager", "technician"] as UserRole[],
+      requiredConditions: (to === "completed" ? ["checklist_complete"] : []) as WorkflowCondition[],
+    }))
+);
@@ -1,12 +1,44 @@
 // src/integrations/email/email.service.ts
 import { db } from '../../config/connection.js';
+import { BadRequestError, NotFoundError } from '../../config/errors.js';
 import { EmailIntegrationConfig } from '../../config/integrations.js';
 import logger from '../../config/logger.js';
+import { EmailMessagePayload, EmailSender, EmailTemplateKey } from '../../config/types.js';
 import credentialService from '../../services/credential.service.js';
-import { Customer } from '../../services/customer.service.js';
+import customerMessageService, { CustomerMessage } from '../../services/customer-message.service.js';
+import customerService, { Customer } from '../../services/customer.service.js';
+import emailMessageService, { EmailMessage } from '../../services/email-message.service.js';
+import emailTemplateService, { EmailTemplateContentDto } from '../../services/email-template.service.js';
+import { Estimate } from '../../services/estimate.service.js';
 import { Invoice } from '../../services/invoice.service.js';
+import { TicketComment } from '../../services/ticket-comment.service.js';
 import { Ticket } from '../../services/ticket.service.js';
-import sendGridAdapter, { EmailData } from './sendgrid.adapter.js';
+import workflowService from '../../services/workflow.service.js';
+import { generateEstimateToken, generatePortalToken } from '../../utils/auth.js';
+import { getFrontendUrl } from '../../utils/url.utils.js';
+import sendGridAdapter, { EMAIL_MESSAGE_ID_ARG, EmailData, EmailDeliveryEvent, InboundEmail } from './sendgrid.adapter.js';
+
+export interface CustomerEmailMessage {
+  subject?: string;
+  body: string;
+}
+
+export interface SendCustomerEmailOptions {
+  ticket?: Ticket | null;
+  // Staff member writing the email
+  sentBy?: string | null;
+}
+
+export interface SendLoggedEmailOptions {
+  // Which email this is in the delivery log, e.g. ticket_status
+  template: string;
+  // Whether a failed send is queued for retry; off when someone is waiting on the result
+  retry?: boolean;
+}
+
+function formatDevice(ticket: Ticket): string {
+  return `${ticket.deviceType}${ticket.deviceBrand ? ` - ${ticket.deviceBrand}` : ''}${ticket.deviceModel ? ` ${ticket.deviceModel}` : ''}`;
+}
 
 /**
  * High-level email service for sending notifications
@@ -84,13 +116,18 @@ export class EmailService {
   }
 
   /**
-   * Send email using configured provider
+   * Get the config an email goes out through: the company's integration or site-wide SendGrid
    */
-  private async sendEmailInternal(
-    companyId: string,
-    emailData: EmailData
-  ): Promise<void> {
-    const config = await this.getEmailConfig(companyId);
+  private async getSenderConfig(companyId: string | null, sender: EmailSender): Promise<EmailIntegrationConfig> {
+    if (sender === 'site_wide') {
+      const siteWideConfig = this.getSiteWideSendGridConfig();
+      if (!siteWideConfig) {
+        throw new Error('Site-wide SendGrid is not configured');
+      }
+      return siteWideConfig;
+    }
+
+    const config = companyId ? await this.getEmailConfig(companyId) : null;
     if (!config) {
       throw new Error('Email integration not configured');
     }
@@ -99,21 +136,113 @@ export class EmailService {
       throw new Error('Email integration is disabled');
     }
 
-    // Route to appropriate adapter based on provider
-    if (config.provider === 'sendgrid') {
-      await sendGridAdapter.sendEmail(config, emailData);
-    } else {
-      throw new Error(`Email provider ${config.provider} is not yet supported`);
+    return config;
+  }
+
+  /**
+   * Send a logged email and record how it went
+   * A failure is queued for retry (unless retry is false) and rethrown
+   * Returns the address the email was sent from
+   */
+  private async deliver(
+    message: { id: string; attempts: number },
+    companyId: string | null,
+    sender: EmailSender,
+    payload: EmailMessagePayload,
+    retry: boolean
+  ): Promise<string> {
+    let config: EmailIntegrationConfig;
+    let providerMessageId: string | null;
+    try {
+      config = await this.getSenderConfig(companyId, sender);
+
+      // Route to appropriate adapter based on provider
+      if (config.provider === 'sendgrid') {
+        providerMessageId = await sendGridAdapter.sendEmail(config, {
+          ...payload,
+          customArgs: { [EMAIL_MESSAGE_ID_ARG]: message.id },
+        });
+      } else {
+        throw new Error(`Email provider ${config.provider} is not yet supported`);
+      }
+    } catch (error) {
+      await emailMessageService.markFailed(
+        message,
+        error instanceof Error ? error.message : 'Unknown error',
+        retry
+      );
+      throw error;
     }
+
+    await emailMessageService.markSent(message.id, providerMessageId || null);
+    return payload.from || config.settings?.fromEmail || '';
+  }
+
+  /**
+   * Log an email in the company's delivery log, then send it
+   * Returns the address the email was sent from
+   */
+  private async sendLogged(
+    companyId: string | null,
+    sender: EmailSender,
+    emailData: EmailData,
+    options: SendLoggedEmailOptions
+  ): Promise<string> {
+    const retry = options.retry ?? true;
+    const message = await emailMessageService.create(companyId, {
+      template: options.template,
+      sender,
+      payload: emailData,
+    });
+
+    return this.deliver(message, companyId, sender, message.payload, retry);
+  }
+
+  /**
+   * Send email using the company's configured provider
+   * Returns the address the email was sent from
+   */
+  private async sendEmailInternal(
+    companyId: string,
+    emailData: EmailData,
+    options: SendLoggedEmailOptions
+  ): Promise<string> {
+    return this.sendLogged(companyId, 'company', emailData, options);
+  }
+
+  /**
+   * Keep an email sent to a customer in their conversation
+   */
+  private async recordCustomerEmail(
+    companyId: string,
+    customer: Customer,
+    ticketId: string | null,
+    fromAddress: string,
+    emailData: EmailData,
+    sentBy: string | null = null
+  ): Promise<CustomerMessage> {
+    return customerMessageService.create(companyId, {
+      customerId: customer.id,
+      ticketId,
+      channel: 'email',
+      direction: 'outbound',
+      fromAddress,
+      toAddress: customer.email,
+      subject: emailData.subject,
+      body: (emailData.text || '').trim(),
+      sentBy,
+    });
   }
 
   /**
    * Send ticket status update email to customer
+   * Any customer-visible comments passed in are listed as updates from the shop
    */
   async sendTicketStatusEmail(
     companyId: string,
     ticket: Ticket,
-    customer: Customer
+    customer: Customer,
+    comments: TicketComment[] = []
   ): Promise<void> {
     try {
       if (!(await this.isEmailConfigured(companyId))) {
@@ -126,65 +255,125 @@ export class EmailService {
         return;
       }
 
-      const statusDisplayNames: Record<string, string> = {
-        new: 'New',
-        assigned: 'Assigned',
-        in_progress: 'In Progress',
-        on_hold: 'On Hold',
-        completed: 'Completed',
-        cancelled: 'Cancelled',
+      // Use the company's own label so custom statuses read naturally
+      const statusDisplay = await workflowService.getStatusLabel(companyId, ticket.status);
+
+      // Never leak internal notes, even if a caller passes them in
+      const customerComments = comments.filter((comment) => comment.visibility === 'customer');
+      const formatCommentDate = (date: Date) => new Date(date).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      });
+
+      const { subject, text, html, attachments } = await emailTemplateService.render(companyId, 'ticket_status', {
+        customerFirstName: customer.firstName,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        ticketNumber: ticket.ticketNumber,
+        status: statusDisplay,
+        device: formatDevice(ticket),
+        diagnosticNotes: ticket.diagnosticNotes || '',
+        repairNotes: ticket.repairNotes || '',
+        teamUpdates: customerComments
+          .map((comment) => `${formatCommentDate(comment.createdAt)}${comment.author ? ` - ${comment.author.firstName}` : ''}\n${comment.body}`)
+          .join('\n\n'),
+        // Signed, expiring link so the customer can check on the repair (and pay) without logging in
+        portalLink: `${getFrontendUrl()}/portal/${generatePortalToken(ticket.id, companyId)}`,
+      });
+
+      const emailData = {
+        to: customer.email,
+        subject,
+        text,
+        html,
+        attachments,
       };
+      const fromAddress = await this.sendEmailInternal(companyId, emailData, { template: 'ticket_status' });
 
-      const statusDisplay = statusDisplayNames[ticket.status] || ticket.status;
+      logger.info(`Ticket status email sent to ${customer.email} for ticket ${ticket.ticketNumber}`);
 
-      const subject = `Ticket ${ticket.ticketNumber} Status Update: ${statusDisplay}`;
+      await this.recordCustomerEmail(companyId, customer, ticket.id, fromAddress, emailData);
+    } catch (error) {
+      // Don't fail the ticket update if email fails; it's in the delivery log and retried from there
+      logger.error(`Failed to send ticket status email for ticket ${ticket.ticketNumber}:`, error);
+    }
+  }
 
-      const html = `
+  /**
+   * Send an SLA alert for a ticket to staff (the assigned technician and managers)
+   */
+  async sendSlaAlertEmail(
+    companyId: string,
+    ticket: Ticket,
+    alert: {
+      target: 'assignment' | 'completion';
+      level: 'at_risk' | 'breached';
+      dueAt: Date;
+    },
+    recipients: { email: string; firstName: string }[]
+  ): Promise<void> {
+    try {
+      if (!(await this.isEmailConfigured(companyId))) {
+        logger.debug('Email integration not configured, skipping SLA alert email');
+        return;
+      }
+
+      const targetDisplay = alert.target === 'assignment' ? 'technician assignment' : 'completion';
+      const levelDisplay = alert.level === 'breached' ? 'SLA breached' : 'SLA at risk';
+      const dueDisplay = new Date(alert.dueAt).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+      const summary = alert.level === 'breached'
+        ? `The ${targetDisplay} target for this ticket was due ${dueDisplay} and has been missed.`
+        : `The ${targetDisplay} target for this ticket is due ${dueDisplay}.`;
+      const ticketLink = `${getFrontendUrl()}/tickets/${ticket.id}`;
+      const subject = `${levelDisplay}: Ticket ${ticket.ticketNumber}`;
+
+      for (const recipient of recipients) {
+        const html = `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">Ticket Status Update</h2>
-          <p>Hello ${customer.firstName},</p>
-          <p>Your repair ticket has been updated:</p>
+          <h2 style="color: ${alert.level === 'breached' ? '#dc2626' : '#d97706'};">${levelDisplay}</h2>
+          <p>Hello ${recipient.firstName},</p>
+          <p>${summary}</p>
           <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
             <p><strong>Ticket Number:</strong> ${ticket.ticketNumber}</p>
-            <p><strong>Status:</strong> ${statusDisplay}</p>
+            <p><strong>Priority:</strong> ${ticket.priority}</p>
             <p><strong>Device:</strong> ${ticket.deviceType}${ticket.deviceBrand ? ` - ${ticket.deviceBrand}` : ''}${ticket.deviceModel ? ` ${ticket.deviceModel}` : ''}</p>
-            ${ticket.diagnosticNotes ? `<p><strong>Diagnostic Notes:</strong><br>${ticket.diagnosticNotes.replace(/\n/g, '<br>')}</p>` : ''}
-            ${ticket.repairNotes ? `<p><strong>Repair Notes:</strong><br>${ticket.repairNotes.replace(/\n/g, '<br>')}</p>` : ''}
           </div>
-          <p>If you have any questions, please contact us.</p>
-          <p>Thank you for your business!</p>
+          <p><a href="${ticketLink}" style="color: #2563eb;">View ticket</a></p>
         </div>
       `;
 
-      const text = `
-Ticket Status Update
+        const text = `
+${levelDisplay}
 
-Hello ${customer.firstName},
+Hello ${recipient.firstName},
 
-Your repair ticket has been updated:
+${summary}
 
 Ticket Number: ${ticket.ticketNumber}
-Status: ${statusDisplay}
+Priority: ${ticket.priority}
 Device: ${ticket.deviceType}${ticket.deviceBrand ? ` - ${ticket.deviceBrand}` : ''}${ticket.deviceModel ? ` ${ticket.deviceModel}` : ''}
-${ticket.diagnosticNotes ? `\nDiagnostic Notes:\n${ticket.diagnosticNotes}\n` : ''}
-${ticket.repairNotes ? `\nRepair Notes:\n${ticket.repairNotes}\n` : ''}
 
-If you have any questions, please contact us.
-
-Thank you for your business!
+View ticket: ${ticketLink}
       `;
 
-      await this.sendEmailInternal(companyId, {
-        to: customer.email,
-        subject,
-        text,
-        html,
-      });
+        await this.sendEmailInternal(companyId, {
+          to: recipient.email,
+          subject,
+          text,
+          html,
+        }, { template: 'sla_alert' });
+      }
 
-      logger.info(`Ticket status email sent to ${customer.email} for ticket ${ticket.ticketNumber}`);
+      logger.info(`SLA alert (${alert.target} ${alert.level}) sent for ticket ${ticket.ticketNumber}`);
     } catch (error) {
-      // Don't fail the ticket update if email fails
-      logger.error(`Failed to send ticket status email for ticket ${ticket.ticketNumber}:`, error);
+      // Don't fail the SLA check if email fails
+      logger.error(`Failed to send SLA alert email for ticket ${ticket.ticketNumber}:`, error);
     }
   }
 
@@ -207,65 +396,246 @@ Thank you for your business!
         return;
       }
 
-      const subject = `Invoice ${invoice.invoiceNumber} from ${invoice.status === 'paid' ? 'Payment Confirmation' : 'Payment Due'}`;
+      const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+      const formatDate = (date: Date | null) => (date ? new Date(date).toLocaleDateString() : '');
+
+      const { subject, text, html, attachments } = await emailTemplateService.render(companyId, 'invoice', {
+        customerFirstName: customer.firstName,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        paid: invoice.status === 'paid' ? 'yes' : '',
+        subtotal: formatMoney(invoice.subtotal),
+        tax: invoice.taxAmount > 0 ? formatMoney(invoice.taxAmount) : '',
+        total: formatMoney(invoice.totalAmount),
+        dueDate: formatDate(invoice.dueDate),
+        paidDate: formatDate(invoice.paidDate),
+        notes: invoice.notes || '',
+      });
+
+      const emailData = {
+        to: customer.email,
+        subject,
+        text,
+        html,
+        attachments,
+      };
+      const fromAddress = await this.sendEmailInternal(companyId, emailData, { template: 'invoice' });
+
+      logger.info(`Invoice email sent to ${customer.email} for invoice ${invoice.invoiceNumber}`);
+
+      await this.recordCustomerEmail(companyId, customer, invoice.ticketId, fromAddress, emailData);
+    } catch (error) {
+      // Don't fail the invoice operation if email fails
+      logger.error(`Failed to send invoice email for invoice ${invoice.invoiceNumber}:`, error);
+    }
+  }
+
+  /**
+   * Send an estimate to the customer with a link to approve or decline it
+   */
+  async sendEstimateEmail(
+    companyId: string,
+    estimate: Estimate,
+    ticket: Ticket,
+    customer: Customer
+  ): Promise<void> {
+    try {
+      if (!(await this.isEmailConfigured(companyId))) {
+        logger.debug('Email integration not configured, skipping estimate email');
+        return;
+      }
+
+      if (!customer.email) {
+        logger.debug(`Customer ${customer.id} has no email address, skipping estimate email`);
+        return;
+      }
 
-      const statusText = invoice.status === 'paid'
-        ? 'This invoice has been paid. Thank you!'
-        : 'Please review the invoice below and submit payment.';
+      const subject = `Estimate ${estimate.estimateNumber} for ticket ${ticket.ticketNumber}`;
+      // Signed, expiring link so the customer can respond without logging in
+      const approvalLink = `${getFrontendUrl()}/portal/estimates/${generateEstimateToken(estimate.id, companyId)}`;
+      const device = `${ticket.deviceType}${ticket.deviceBrand ? ` - ${ticket.deviceBrand}` : ''}${ticket.deviceModel ? ` ${ticket.deviceModel}` : ''}`;
 
       const html = `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">Invoice ${invoice.invoiceNumber}</h2>
+          <h2 style="color: #333;">Repair Estimate ${estimate.estimateNumber}</h2>
           <p>Hello ${customer.firstName},</p>
-          <p>${statusText}</p>
+          <p>We've put together an estimate for your repair. Please review it and let us know whether you'd like us to go ahead.</p>
           <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
-            <p><strong>Invoice Number:</strong> ${invoice.invoiceNumber}</p>
-            <p><strong>Status:</strong> ${invoice.status}</p>
-            <p><strong>Subtotal:</strong> $${invoice.subtotal.toFixed(2)}</p>
-            ${invoice.taxAmount > 0 ? `<p><strong>Tax:</strong> $${invoice.taxAmount.toFixed(2)}</p>` : ''}
-            <p><strong>Total Amount:</strong> $${invoice.totalAmount.toFixed(2)}</p>
-            ${invoice.dueDate ? `<p><strong>Due Date:</strong> ${new Date(invoice.dueDate).toLocaleDateString()}</p>` : ''}
-            ${invoice.paidDate ? `<p><strong>Paid Date:</strong> ${new Date(invoice.paidDate).toLocaleDateString()}</p>` : ''}
-            ${invoice.notes ? `<p><strong>Notes:</strong><br>${invoice.notes.replace(/\n/g, '<br>')}</p>` : ''}
+            <p><strong>Ticket Number:</strong> ${ticket.ticketNumber}</p>
+            <p><strong>Device:</strong> ${device}</p>
+            ${estimate.items.map((item) => `<p>${item.description}${item.quantity !== 1 ? ` x ${item.quantity}` : ''}: $${item.subtotal.toFixed(2)}</p>`).join('')}
+            ${estimate.taxAmount > 0 ? `<p><strong>Tax:</strong> $${estimate.taxAmount.toFixed(2)}</p>` : ''}
+            <p><strong>Total:</strong> $${estimate.totalAmount.toFixed(2)}</p>
+            ${estimate.validUntil ? `<p><strong>Valid Until:</strong> ${new Date(estimate.validUntil).toLocaleDateString()}</p>` : ''}
+            ${estimate.notes ? `<p><strong>Notes:</strong><br>${estimate.notes.replace(/\n/g, '<br>')}</p>` : ''}
           </div>
-          <p>If you have any questions about this invoice, please contact us.</p>
+          <p><a href="${approvalLink}" style="display: inline-block; padding: 10px 20px; background-color: #2563eb; color: #fff; text-decoration: none; border-radius: 5px;">Review and respond</a></p>
+          <p>We'll hold off on the repair until we hear from you. If you have any questions, please contact us.</p>
           <p>Thank you for your business!</p>
         </div>
       `;
 
       const text = `
-Invoice ${invoice.invoiceNumber}
+Repair Estimate ${estimate.estimateNumber}
 
 Hello ${customer.firstName},
 
-${statusText}
+We've put together an estimate for your repair. Please review it and let us know whether you'd like us to go ahead.
 
-Invoice Number: ${invoice.invoiceNumber}
-Status: ${invoice.status}
-Subtotal: $${invoice.subtotal.toFixed(2)}
-${invoice.taxAmount > 0 ? `Tax: $${invoice.taxAmount.toFixed(2)}\n` : ''}
-Total Amount: $${invoice.totalAmount.toFixed(2)}
-${invoice.dueDate ? `Due Date: ${new Date(invoice.dueDate).toLocaleDateString()}\n` : ''}
-${invoice.paidDate ? `Paid Date: ${new Date(invoice.paidDate).toLocaleDateString()}\n` : ''}
-${invoice.notes ? `\nNotes:\n${invoice.notes}\n` : ''}
+Ticket Number: ${ticket.ticketNumber}
+Device: ${device}
+${estimate.items.map((item) => `${item.description}${item.quantity !== 1 ? ` x ${item.quantity}` : ''}: $${item.subtotal.toFixed(2)}`).join('\n')}
+${estimate.taxAmount > 0 ? `Tax: $${estimate.taxAmount.toFixed(2)}\n` : ''}
+Total: $${estimate.totalAmount.toFixed(2)}
+${estimate.validUntil ? `Valid Until: ${new Date(estimate.validUntil).toLocaleDateString()}\n` : ''}
+${estimate.notes ? `\nNotes:\n${estimate.notes}\n` : ''}
 
-If you have any questions about this invoice, please contact us.
+Review and respond: ${approvalLink}
+
+We'll hold off on the repair until we hear from you. If you have any questions, please contact us.
 
 Thank you for your business!
       `;
 
-      await this.sendEmailInternal(companyId, {
+      const emailData = {
         to: customer.email,
         subject,
         text,
         html,
-      });
+      };
+      const fromAddress = await this.sendEmailInternal(companyId, emailData, { template: 'estimate' });
 
-      logger.info(`Invoice email sent to ${customer.email} for invoice ${invoice.invoiceNumber}`);
+      logger.info(`Estimate email sent to ${customer.email} for estimate ${estimate.estimateNumber}`);
+
+      await this.recordCustomerEmail(companyId, customer, ticket.id, fromAddress, emailData);
     } catch (error) {
-      // Don't fail the invoice operation if email fails
-      logger.error(`Failed to send invoice email for invoice ${invoice.invoiceNumber}:`, error);
+      // Don't fail sending the estimate if email fails
+      logger.error(`Failed to send estimate email for estimate ${estimate.estimateNumber}:`, error);
+    }
+  }
+
+  /**
+   * Send an email written by staff to a customer and keep it in their conversation
+   * The ticket number goes in the subject so replies land back on the ticket
+   * Unlike notifications this throws, so the person sending it sees why it didn't go out
+   */
+  async sendCustomerMessage(
+    companyId: string,
+    customer: Customer,
+    message: CustomerEmailMessage,
+    options: SendCustomerEmailOptions = {}
+  ): Promise<CustomerMessage> {
+    if (!(await this.isEmailConfigured(companyId))) {
+      throw new BadRequestError('Email integration is not configured');
+    }
+
+    if (!customer.email) {
+      throw new BadRequestError('Customer does not have an email address');
+    }
+
+    const { ticket } = options;
+    let subject = message.subject?.trim() || (ticket ? `Your repair (ticket ${ticket.ticketNumber})` : 'A message from our team');
+    if (ticket && !subject.includes(ticket.ticketNumber)) {
+      subject = `${subject} [${ticket.ticketNumber}]`;
+    }
+
+    const emailData = {
+      to: customer.email,
+      subject,
+      text: message.body,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <p>${message.body.replace(/\n/g, '<br>')}</p>
+        </div>
+      `,
+    };
+    const fromAddress = await this.sendEmailInternal(companyId, emailData, {
+      template: 'customer_message',
+      retry: false,
+    });
+
+    logger.info(`Message emailed to ${customer.email}${ticket ? ` for ticket ${ticket.ticketNumber}` : ''}`);
+
+    return this.recordCustomerEmail(
+      companyId,
+      customer,
+      ticket?.id || null,
+      fromAddress,
+      emailData,
+      options.sentBy || null
+    );
+  }
+
+  /**
+   * Keep an email a customer sent in their conversation
+   * Returns null when the sender isn't a customer of the company
+   */
+  async handleInboundEmail(companyId: string, inbound: InboundEmail): Promise<CustomerMessage | null> {
+    const customers = await customerService.findByEmail(inbound.from, companyId);
+    if (customers.length === 0) {
+      logger.info(`Ignoring inbound email from ${inbound.from}: no matching customer in company ${companyId}`);
+      return null;
+    }
+
+    const message = await customerMessageService.recordInbound(
+      companyId,
+      customers.map((customer) => customer.id),
+      {
+        channel: 'email',
+        fromAddress: inbound.from,
+        toAddress: inbound.to,
+        subject: inbound.subject,
+        body: inbound.text,
+      }
+    );
+
+    logger.info(`Inbound email from ${inbound.from} for company ${companyId}`);
+    return message;
+  }
+
+  /**
+   * Send one of the company's templates, filled with sample data, to an admin checking how it looks
+   * Invitations and password resets can go out through site-wide SendGrid, so their tests can too
+   */
+  async sendTemplateTestEmail(
+    companyId: string,
+    key: EmailTemplateKey,
+    to: string,
+    content?: EmailTemplateContentDto
+  ): Promise<void> {
+    const variables = await emailTemplateService.getSampleVariables(companyId, key);
+    const { subject, text, html, attachments } = await emailTemplateService.render(companyId, key, variables, {
+      content,
+    });
+    const emailData: EmailData = {
+      to,
+      subject: `[Test] ${subject}`,
+      text,
+      html,
+      attachments,
+    };
+
+    const siteWideConfigured = (key === 'invitation' || key === 'password_reset')
+      && this.isSiteWideSendGridConfigured();
+    const companyConfigured = await this.isEmailConfigured(companyId);
+    if (!companyConfigured && !siteWideConfigured) {
+      throw new BadRequestError('Email integration is not configured');
+    }
+
+    try {
+      await this.sendLogged(companyId, companyConfigured ? 'company' : 'site_wide', emailData, {
+        template: key,
+        retry: false,
+      });
+    } catch (error) {
+      logger.error(`Failed to send test ${key} email to ${to}:`, error);
+      throw new BadRequestError(
+        `Test email could not be sent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
+
+    logger.info(`Test ${key} email sent to ${to} for company ${companyId}`);
   }
 
   /**
@@ -285,20 +655,7 @@ Thank you for your business!
     try {
       // Debug: Log environment variable status
       logger.debug(`Checking SendGrid config - API Key present: ${!!process.env.SENDGRID_API_KEY}, From Email present: ${!!process.env.SENDGRID_FROM_EMAIL}`);
-      // Get frontend URL from environment
-      // Try FRONTEND_URL first, then derive from ALLOWED_ORIGINS, fallback to localhost for dev
-      let frontendUrl = process.env.FRONTEND_URL;
-      if (!frontendUrl && process.env.ALLOWED_ORIGINS) {
-        // Extract first origin from ALLOWED_ORIGINS (comma-separated)
-        const firstOrigin = process.env.ALLOWED_ORIGINS.split(',')[0].trim();
-        frontendUrl = firstOrigin;
-      }
-      if (!frontendUrl) {
-        frontendUrl = process.env.NODE_ENV === 'production'
-          ? 'https://yourdomain.com' // Should be set in production
-          : 'http://localhost:3000'; // Default for development
-      }
-      const invitationLink = `${frontendUrl}/register?token=${invitation.token}`;
+      const invitationLink = `${getFrontendUrl()}/register?token=${invitation.token}`;
 
       // Format expiration date
       const expirationText = invitation.expiresAt
@@ -316,55 +673,32 @@ Thank you for your business!
       };
       const roleDisplay = roleDisplayNames[invitation.role] || invitation.role;
 
-      const subject = `You've been invited to join ${companyName}`;
-
-      const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">You've been invited!</h2>
-          <p>Hello,</p>
-          <p>You've been invited to join <strong>${companyName}</strong> as a <strong>${roleDisplay}</strong>.</p>
-          <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
-            <p><strong>Role:</strong> ${roleDisplay}</p>
-            <p><strong>Expires:</strong> ${expirationText}</p>
-          </div>
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${invitationLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Accept Invitation</a>
-          </div>
-          <p style="color: #666; font-size: 12px;">Or copy and paste this link into your browser:</p>
-          <p style="color: #666; font-size: 12px; word-break: break-all;">${invitationLink}</p>
-          <p style="margin-top: 30px; color: #666;">If you didn't expect this invitation, you can safely ignore this email.</p>
-        </div>
-      `;
-
-      const text = `
-You've been invited!
-
-Hello,
-
-You've been invited to join ${companyName} as a ${roleDisplay}.
-
-Role: ${roleDisplay}
-Expires: ${expirationText}
-
-Accept your invitation by clicking the link below:
-${invitationLink}
-
-If you didn't expect this invitation, you can safely ignore this email.
-      `;
+      const { subject, text, html, attachments } = await emailTemplateService.render(companyId, 'invitation', {
+        companyName,
+        role: roleDisplay,
+        expiresOn: expirationText,
+        invitationLink,
+      });
 
       const emailData: EmailData = {
         to: invitation.email,
         subject,
         text,
         html,
+        attachments,
       };
 
+      // Only retry a site-wide failure later when there's no company integration to fall back to now
+      const companyConfigured = await this.isEmailConfigured(companyId);
+
       // Try site-wide SendGrid first (for invitations)
-      const siteWideConfig = this.getSiteWideSendGridConfig();
-      if (siteWideConfig) {
+      if (this.isSiteWideSendGridConfigured()) {
         try {
           logger.info(`Attempting to send invitation email via site-wide SendGrid to ${invitation.email}`);
-          await sendGridAdapter.sendEmail(siteWideConfig, emailData);
+          await this.sendLogged(companyId, 'site_wide', emailData, {
+            template: 'invitation',
+            retry: !companyConfigured,
+          });
           logger.info(`✅ Invitation email sent via site-wide SendGrid to ${invitation.email} for company ${companyId}`);
           return;
         } catch (error) {
@@ -385,12 +719,12 @@ If you didn't expect this invitation, you can safely ignore this email.
       }
 
       // Fall back to company-specific integration
-      if (!(await this.isEmailConfigured(companyId))) {
+      if (!companyConfigured) {
         logger.debug('Email integration not configured, skipping invitation email');
         return;
       }
 
-      await this.sendEmailInternal(companyId, emailData);
+      await this.sendEmailInternal(companyId, emailData, { template: 'invitation' });
       logger.info(`Invitation email sent via company integration to ${invitation.email} for company ${companyId}`);
     } catch (error) {
       // Don't fail the invitation creation if email fails
@@ -419,67 +753,31 @@ If you didn't expect this invitation, you can safely ignore this email.
 
       const companyId = user?.company_id as string | undefined;
 
-      // Get frontend URL from environment
-      let frontendUrl = process.env.FRONTEND_URL;
-      if (!frontendUrl && process.env.ALLOWED_ORIGINS) {
-        const firstOrigin = process.env.ALLOWED_ORIGINS.split(',')[0].trim();
-        frontendUrl = firstOrigin;
-      }
-      if (!frontendUrl) {
-        frontendUrl = process.env.NODE_ENV === 'production'
-          ? 'https://yourdomain.com'
-          : 'http://localhost:3000';
-      }
-      const resetLink = `${frontendUrl}/reset-password?token=${resetToken}`;
-
-      const subject = 'Reset your password';
+      const resetLink = `${getFrontendUrl()}/reset-password?token=${resetToken}`;
 
-      const html = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">Password Reset Request</h2>
-          <p>Hello${userName ? ` ${userName}` : ''},</p>
-          <p>We received a request to reset your password. Click the button below to reset it:</p>
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${resetLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">Reset Password</a>
-          </div>
-          <p style="color: #666; font-size: 12px;">Or copy and paste this link into your browser:</p>
-          <p style="color: #666; font-size: 12px; word-break: break-all;">${resetLink}</p>
-          <p style="margin-top: 30px; color: #666; font-size: 14px;">
-            <strong>This link will expire in 1 hour.</strong>
-          </p>
-          <p style="color: #666; font-size: 14px;">
-            If you didn't request a password reset, you can safely ignore this email. Your password will not be changed.
-          </p>
-        </div>
-      `;
-
-      const text = `
-Password Reset Request
-
-Hello${userName ? ` ${userName}` : ''},
-
-We received a request to reset your password. Click the link below to reset it:
-
-${resetLink}
-
-This link will expire in 1 hour.
-
-If you didn't request a password reset, you can safely ignore this email. Your password will not be changed.
-      `;
+      const { subject, text, html, attachments } = await emailTemplateService.render(companyId || null, 'password_reset', {
+        userName: userName || '',
+        resetLink,
+      });
 
       const emailData: EmailData = {
         to: userEmail,
         subject,
         text,
         html,
+        attachments,
       };
 
+      const companyConfigured = !!companyId && (await this.isEmailConfigured(companyId));
+
       // Try site-wide SendGrid first (for password resets)
-      const siteWideConfig = this.getSiteWideSendGridConfig();
-      if (siteWideConfig) {
+      if (this.isSiteWideSendGridConfigured()) {
         try {
           logger.info(`Attempting to send password reset email via site-wide SendGrid to ${userEmail}`);
-          await sendGridAdapter.sendEmail(siteWideConfig, emailData);
+          await this.sendLogged(companyId || null, 'site_wide', emailData, {
+            template: 'password_reset',
+            retry: !companyConfigured,
+          });
           logger.info(`✅ Password reset email sent via site-wide SendGrid to ${userEmail}`);
           return;
         } catch (error) {
@@ -498,8 +796,8 @@ If you didn't request a password reset, you can safely ignore this email. Your p
       }
 
       // Fall back to company-specific integration if company ID is available
-      if (companyId && (await this.isEmailConfigured(companyId))) {
-        await this.sendEmailInternal(companyId, emailData);
+      if (companyId && companyConfigured) {
+        await this.sendEmailInternal(companyId, emailData, { template: 'password_reset' });
         logger.info(`Password reset email sent via company integration to ${userEmail}`);
       } else {
         logger.warn(`Cannot send password reset email - no email integration configured for user ${userId}`);
@@ -509,6 +807,70 @@ If you didn't request a password reset, you can safely ignore this email. Your p
       logger.error(`Failed to send password reset email to ${userEmail}:`, error);
     }
   }
+
+  /**
+   * Send again the logged emails whose retry is due
+   * Called by the email retry scheduler
+   */
+  async retryDueMessages(): Promise<{ sent: number; failed: number }> {
+    const messages = await emailMessageService.claimDueForRetry();
+    let sent = 0;
+    let failed = 0;
+
+    for (const message of messages) {
+      try {
+        await this.deliver(message, message.companyId, message.sender, message.payload, true);
+        sent++;
+        logger.info(`Email ${message.id} (${message.template}) sent to ${message.toAddress} on retry`);
+      } catch (error) {
+        failed++;
+        logger.warn(`Retry of email ${message.id} (${message.template}) to ${message.toAddress} failed:`, error);
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  /**
+   * Send a failed or bounced email again, as asked for by an admin
+   * Throws rather than queueing a retry, so the admin sees why it didn't go out
+   */
+  async resendMessage(id: string, companyId: string): Promise<EmailMessage> {
+    const message = await emailMessageService.findStored(id, companyId);
+    if (!message) {
+      throw new NotFoundError('Email not found');
+    }
+
+    if (message.status !== 'failed' && message.status !== 'bounced') {
+      throw new BadRequestError('Only failed or bounced emails can be resent');
+    }
+
+    try {
+      await this.deliver(message, companyId, message.sender, message.payload, false);
+    } catch (error) {
+      logger.error(`Failed to resend email ${id} to ${message.toAddress}:`, error);
+      throw new BadRequestError(
+        `Email could not be sent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    logger.info(`Email ${id} (${message.template}) resent to ${message.toAddress}`);
+    return (await emailMessageService.findById(id, companyId))!;
+  }
+
+  /**
+   * Update the company's delivery log from the provider's delivery events
+   * Returns how many events matched an email
+   */
+  async handleDeliveryEvents(companyId: string, events: EmailDeliveryEvent[]): Promise<number> {
+    let processed = 0;
+    for (const event of events) {
+      if (await emailMessageService.applyEvent(companyId, event)) {
+        processed++;
+      }
+    }
+    return processed;
+  }
 }
 
 export default new EmailService();
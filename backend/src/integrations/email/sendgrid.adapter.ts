@@ -2,23 +2,85 @@
 import sgMail from '@sendgrid/mail';
 import { EmailIntegrationConfig } from '../../config/integrations.js';
 import logger from '../../config/logger.js';
+import { EmailMessagePayload } from '../../config/types.js';
 import { decryptCredentials } from '../../utils/encryption.js';
 
-export interface EmailData {
-  to: string | string[];
+export interface EmailData extends EmailMessagePayload {
+  // Returned on the provider's delivery events, to match them to our email_messages row
+  customArgs?: Record<string, string>;
+}
+
+// An email a customer sent, as posted by SendGrid Inbound Parse
+export interface InboundEmail {
+  from: string;
+  to: string;
   subject: string;
-  text?: string;
-  html?: string;
-  from?: string;
-  fromName?: string;
-  replyTo?: string;
+  text: string;
+}
+
+// What happened to a sent email, from SendGrid's event webhook
+export type EmailDeliveryEventType = 'delivered' | 'opened' | 'bounced';
+
+export interface EmailDeliveryEvent {
+  type: EmailDeliveryEventType;
+  // Our email_messages ID, from the custom args sent with the email
+  emailMessageId: string | null;
+  providerMessageId: string | null;
+  reason: string | null;
+  occurredAt: Date;
 }
 
+// SendGrid event names mapped to the ones we track; processed, deferred, click etc. are ignored
+const SENDGRID_EVENT_TYPES: Record<string, EmailDeliveryEventType> = {
+  delivered: 'delivered',
+  open: 'opened',
+  bounce: 'bounced',
+  dropped: 'bounced',
+};
+
+// Custom arg carrying our email_messages ID
+export const EMAIL_MESSAGE_ID_ARG = 'email_message_id';
+
 export interface TestConnectionResult {
   success: boolean;
   error?: string;
 }
 
+// Pull the bare address out of a header like "Jane Doe <jane@example.com>"
+function extractEmailAddress(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.match(/<([^<>\s]+@[^<>\s]+)>/) || value.match(/[^\s<>,;"]+@[^\s<>,;"]+/);
+  return match ? (match[1] || match[0]).toLowerCase() : null;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Drop the quoted original that mail clients append below a reply
+function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const quoteStart = lines.findIndex(
+    (line) =>
+      /^\s*>/.test(line) ||
+      /^On .+wrote:\s*$/.test(line.trim()) ||
+      /^-+\s*Original Message\s*-+$/i.test(line.trim())
+  );
+  const reply = quoteStart === -1 ? lines : lines.slice(0, quoteStart);
+  return reply.join('\n').trim();
+}
+
 /**
  * SendGrid adapter for email integration
  */
@@ -90,8 +152,9 @@ export class SendGridAdapter {
 
   /**
    * Send email using SendGrid
+   * Returns SendGrid's message ID, if it gave one
    */
-  async sendEmail(config: EmailIntegrationConfig, emailData: EmailData): Promise<void> {
+  async sendEmail(config: EmailIntegrationConfig, emailData: EmailData): Promise<string | null> {
     try {
       // Decrypt credentials before use
       const decryptedCredentials = decryptCredentials(config.credentials);
@@ -122,6 +185,14 @@ export class SendGridAdapter {
         replyTo?: string;
         text?: string;
         html?: string;
+        attachments?: {
+          content: string;
+          filename: string;
+          type: string;
+          disposition: 'inline' | 'attachment';
+          contentId?: string;
+        }[];
+        customArgs?: Record<string, string>;
       }
       const msg: SendGridMessage = {
         to: Array.isArray(emailData.to) ? emailData.to : [emailData.to],
@@ -137,6 +208,15 @@ export class SendGridAdapter {
       if (emailData.html) {
         msg.html = emailData.html;
       }
+      if (emailData.attachments?.length) {
+        msg.attachments = emailData.attachments.map((attachment) => ({
+          ...attachment,
+          disposition: attachment.contentId ? 'inline' : 'attachment',
+        }));
+      }
+      if (emailData.customArgs) {
+        msg.customArgs = emailData.customArgs;
+      }
 
       // Ensure at least one content type is present
       if (!msg.text && !msg.html) {
@@ -144,9 +224,12 @@ export class SendGridAdapter {
       }
 
       // Send email - type assertion needed because SendGrid types are stricter
-      await sgMail.send(msg as Parameters<typeof sgMail.send>[0]);
+      const result = await sgMail.send(msg as Parameters<typeof sgMail.send>[0]);
 
       logger.info(`Email sent successfully via SendGrid to ${Array.isArray(emailData.to) ? emailData.to.join(', ') : emailData.to}`);
+
+      const messageId = Array.isArray(result) ? result[0]?.headers?.['x-message-id'] : undefined;
+      return typeof messageId === 'string' ? messageId : null;
     } catch (error) {
       logger.error('SendGrid sendEmail error:', error);
 
@@ -164,6 +247,66 @@ export class SendGridAdapter {
       throw new Error('Failed to send email via SendGrid');
     }
   }
+
+  /**
+   * Read the events posted by SendGrid's event webhook
+   * Events we don't track, and anything that isn't an event, are skipped
+   */
+  parseEvents(body: unknown): EmailDeliveryEvent[] {
+    if (!Array.isArray(body)) {
+      return [];
+    }
+
+    const events: EmailDeliveryEvent[] = [];
+    for (const item of body) {
+      if (!item || typeof item !== 'object') {
+        continue;
+      }
+      const event = item as Record<string, unknown>;
+      const type = typeof event.event === 'string' ? SENDGRID_EVENT_TYPES[event.event] : undefined;
+      if (!type) {
+        continue;
+      }
+
+      // sg_message_id is the ID returned when sending, followed by a filter suffix
+      const sgMessageId = typeof event.sg_message_id === 'string' ? event.sg_message_id.split('.')[0] : '';
+      const emailMessageId = event[EMAIL_MESSAGE_ID_ARG];
+      const reason = event.reason || event.response;
+      events.push({
+        type,
+        emailMessageId: typeof emailMessageId === 'string' ? emailMessageId : null,
+        providerMessageId: sgMessageId || null,
+        reason: typeof reason === 'string' ? reason : null,
+        occurredAt: typeof event.timestamp === 'number' ? new Date(event.timestamp * 1000) : new Date(),
+      });
+    }
+    return events;
+  }
+
+  /**
+   * Read an email posted by SendGrid Inbound Parse
+   * Returns null if the fields aren't an inbound email
+   */
+  parseInbound(fields: Record<string, unknown>): InboundEmail | null {
+    const from = extractEmailAddress(fields.from);
+    if (!from) {
+      return null;
+    }
+
+    let text = '';
+    if (typeof fields.text === 'string' && fields.text.trim()) {
+      text = fields.text;
+    } else if (typeof fields.html === 'string') {
+      text = htmlToText(fields.html);
+    }
+
+    return {
+      from,
+      to: extractEmailAddress(fields.to) || '',
+      subject: typeof fields.subject === 'string' ? fields.subject.trim() : '',
+      text: stripQuotedReply(text),
+    };
+  }
 }
 
 export default new SendGridAdapter();
@@ -4,6 +4,7 @@ import companyService from '../../services/company.service.js';
 import squareAdapter from './square.adapter.js';
 import { PaymentIntegrationConfig } from '../../config/integrations.js';
 import logger from '../../config/logger.js';
+import { decryptCredentials } from '../../utils/encryption.js';
 import {
   ProcessPaymentData,
   ProcessPaymentResult,
@@ -11,6 +12,7 @@ import {
   RefundResult,
   CreateTerminalCheckoutData,
   CreateTerminalCheckoutResult,
+  CreateCustomerData,
 } from './payment.types.js';
 
 /**
@@ -85,6 +87,65 @@ export class PaymentService {
     throw new Error(`Payment provider ${config.provider} is not supported`);
   }
 
+  /**
+   * Save a customer's card with the payment provider so it can be charged later (autopay)
+   * Creates the provider's customer record the first time; pass its ID back in to add cards to it.
+   * Currently only supported for Square
+   */
+  async saveCustomerCard(
+    companyId: string,
+    customerData: CreateCustomerData,
+    cardToken: string,
+    providerCustomerId?: string | null
+  ): Promise<{ providerCustomerId: string; cardId: string }> {
+    const config = await this.getPaymentConfig(companyId);
+    if (!config) {
+      throw new Error('Payment integration not configured');
+    }
+
+    if (!config.enabled) {
+      throw new Error('Payment integration is disabled');
+    }
+
+    if (config.provider !== 'square') {
+      throw new Error(`Saved cards are only supported for Square. Current provider: ${config.provider}`);
+    }
+
+    const customerId =
+      providerCustomerId || (await squareAdapter.createCustomer(config, customerData)).customerId;
+    const { cardId } = await squareAdapter.saveCardForCustomer(config, customerId, cardToken);
+
+    return { providerCustomerId: customerId, cardId };
+  }
+
+  /**
+   * Get the non-secret settings a browser needs to collect a card payment
+   * Returns null when online payments aren't available for the company
+   */
+  async getPublicPaymentConfig(companyId: string): Promise<{
+    provider: string;
+    applicationId: string;
+    locationId: string;
+    testMode: boolean;
+  } | null> {
+    const config = await this.getPaymentConfig(companyId);
+    if (!config || !config.enabled || config.provider !== 'square') {
+      return null;
+    }
+
+    const credentials = decryptCredentials(config.credentials);
+    if (!credentials.applicationId || !credentials.locationId) {
+      return null;
+    }
+
+    return {
+      provider: config.provider,
+      applicationId: credentials.applicationId,
+      locationId: credentials.locationId,
+      testMode: config.settings?.testMode === true,
+    };
+  }
+
   /**
    * Get currency from company settings (defaults to USD)
    */
@@ -11,6 +11,7 @@ export interface ProcessPaymentData {
   customerId: string;
   paymentMethod?: string;
   sourceId?: string; // Card nonce/token from payment provider SDK (required for Square online payments)
+  providerCustomerId?: string; // Payment provider's customer ID; required when sourceId is a saved card
   idempotencyKey?: string; // Optional idempotency key (will be generated if not provided)
   description?: string;
   metadata?: Record<string, string>;
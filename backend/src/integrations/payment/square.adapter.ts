@@ -292,6 +292,8 @@ export class SquareAdapter {
           currency: paymentData.currency as any,
         },
         locationId,
+        // Charging a card on file needs the customer the card was saved to
+        customerId: paymentData.providerCustomerId,
         referenceId: paymentData.invoiceId,
         note: paymentData.description || `Payment for invoice ${paymentData.invoiceId}`,
       });
@@ -0,0 +1,60 @@
+// src/integrations/sms/log.adapter.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SmsIntegrationConfig } from '../../config/integrations.js';
+import logger from '../../config/logger.js';
+import {
+  InboundSms,
+  SendSmsResult,
+  SmsAdapter,
+  SmsData,
+  TestConnectionResult,
+} from './sms.types.js';
+
+/**
+ * Development SMS adapter that never sends anything
+ * Texts are written to the server log, and appended as JSON lines to SMS_LOG_PATH when it is set.
+ */
+export class LogSmsAdapter implements SmsAdapter {
+  async testConnection(): Promise<TestConnectionResult> {
+    return { success: true };
+  }
+
+  async sendSms(config: SmsIntegrationConfig, sms: SmsData): Promise<SendSmsResult> {
+    const message = {
+      messageId: `log-${uuidv4()}`,
+      from: sms.from || config.settings?.fromNumber || null,
+      to: sms.to,
+      body: sms.body,
+      sentAt: new Date().toISOString(),
+    };
+
+    logger.info(`SMS (not sent, log provider) to ${sms.to}: ${sms.body}`);
+
+    const logPath = process.env.SMS_LOG_PATH;
+    if (logPath) {
+      const filePath = path.resolve(logPath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, `${JSON.stringify(message)}\n`);
+    }
+
+    return { messageId: message.messageId };
+  }
+
+  /**
+   * Accepts { from, to, body } so inbound texts can be simulated with curl
+   */
+  parseInbound(body: Record<string, unknown>): InboundSms | null {
+    if (typeof body.from !== 'string' || typeof body.body !== 'string') {
+      return null;
+    }
+    return {
+      from: body.from,
+      to: typeof body.to === 'string' ? body.to : '',
+      body: body.body,
+    };
+  }
+}
+
+export default new LogSmsAdapter();
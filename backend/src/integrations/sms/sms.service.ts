@@ -0,0 +1,231 @@
+// src/integrations/sms/sms.service.ts
+import { BadRequestError } from '../../config/errors.js';
+import { SmsIntegrationConfig } from '../../config/integrations.js';
+import logger from '../../config/logger.js';
+import credentialService from '../../services/credential.service.js';
+import customerMessageService, { CustomerMessage } from '../../services/customer-message.service.js';
+import customerService, { Customer } from '../../services/customer.service.js';
+import { Ticket } from '../../services/ticket.service.js';
+import workflowService from '../../services/workflow.service.js';
+import { generatePortalToken } from '../../utils/auth.js';
+import { toE164 } from '../../utils/phone.utils.js';
+import { getFrontendUrl } from '../../utils/url.utils.js';
+import logSmsAdapter from './log.adapter.js';
+import { InboundSms, SendSmsResult, SmsAdapter, SmsData } from './sms.types.js';
+import twilioAdapter from './twilio.adapter.js';
+
+// Replies carriers treat as opting out of, or back in to, texts from a number
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+export type InboundSmsAction = 'opted_out' | 'opted_in' | null;
+
+export interface SendCustomerSmsOptions {
+  ticketId?: string | null;
+  // Staff member writing the text
+  sentBy?: string | null;
+}
+
+export interface InboundSmsResult {
+  action: InboundSmsAction;
+  // Customers with the number the text came from
+  customerIds: string[];
+}
+
+/**
+ * High-level SMS service for sending customer notifications
+ * Texts only go to customers who opted in, and are skipped quietly when SMS isn't configured
+ */
+export class SmsService {
+  /**
+   * Check if SMS integration is configured and enabled
+   */
+  async isSmsConfigured(companyId: string): Promise<boolean> {
+    try {
+      const integration = await credentialService.getIntegration(companyId, 'sms');
+      return integration !== null && integration.enabled === true;
+    } catch (error) {
+      logger.error('Error checking SMS configuration:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get SMS integration config
+   */
+  async getSmsConfig(companyId: string): Promise<SmsIntegrationConfig | null> {
+    const integration = await credentialService.getIntegration(companyId, 'sms');
+    if (!integration || integration.type !== 'sms') {
+      return null;
+    }
+    return integration as SmsIntegrationConfig;
+  }
+
+  /**
+   * Get the adapter for an SMS provider
+   */
+  getAdapter(config: SmsIntegrationConfig): SmsAdapter {
+    if (config.provider === 'twilio') {
+      return twilioAdapter;
+    }
+    if (config.provider === 'log') {
+      return logSmsAdapter;
+    }
+    throw new Error(`SMS provider ${config.provider} is not yet supported`);
+  }
+
+  /**
+   * Send a text using the configured provider
+   */
+  async sendSms(companyId: string, sms: SmsData): Promise<SendSmsResult> {
+    const config = await this.getSmsConfig(companyId);
+    if (!config) {
+      throw new Error('SMS integration not configured');
+    }
+
+    if (!config.enabled) {
+      throw new Error('SMS integration is disabled');
+    }
+
+    return this.getAdapter(config).sendSms(config, sms);
+  }
+
+  /**
+   * Text the customer that their ticket's status changed
+   * Mirrors sendTicketStatusEmail, for customers who opted in to texts
+   */
+  async sendTicketStatusSms(companyId: string, ticket: Ticket, customer: Customer): Promise<void> {
+    try {
+      const config = await this.getSmsConfig(companyId);
+      if (!config || !config.enabled) {
+        logger.debug('SMS integration not configured, skipping ticket status text');
+        return;
+      }
+
+      if (config.settings?.ticketStatusUpdates === false) {
+        logger.debug('Ticket status texts are turned off, skipping');
+        return;
+      }
+
+      if (!customer.smsOptIn) {
+        logger.debug(`Customer ${customer.id} has not opted in to texts, skipping notification`);
+        return;
+      }
+
+      const to = toE164(customer.phone);
+      if (!to) {
+        logger.debug(`Customer ${customer.id} has no textable phone number, skipping notification`);
+        return;
+      }
+
+      // Use the company's own label so custom statuses read naturally
+      const statusDisplay = await workflowService.getStatusLabel(companyId, ticket.status);
+      // Signed, expiring link so the customer can check on the repair (and pay) without logging in
+      const portalLink = `${getFrontendUrl()}/portal/${generatePortalToken(ticket.id, companyId)}`;
+      const device = [ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(' ') || ticket.deviceType;
+
+      const body =
+        `Hi ${customer.firstName}, your ${device} repair (ticket ${ticket.ticketNumber}) is now: ${statusDisplay}. ` +
+        `Details: ${portalLink} Reply STOP to opt out.`;
+
+      const result = await this.getAdapter(config).sendSms(config, { to, body });
+
+      logger.info(`Ticket status text sent to ${to} for ticket ${ticket.ticketNumber}`);
+
+      await customerMessageService.create(companyId, {
+        customerId: customer.id,
+        ticketId: ticket.id,
+        channel: 'sms',
+        direction: 'outbound',
+        fromAddress: config.settings?.fromNumber,
+        toAddress: to,
+        body,
+        providerMessageId: result.messageId,
+      });
+    } catch (error) {
+      // Don't fail the ticket update if the text fails
+      logger.error(`Failed to send ticket status text for ticket ${ticket.ticketNumber}:`, error);
+    }
+  }
+
+  /**
+   * Send a text written by staff to a customer and keep it in their conversation
+   * Unlike notifications this throws, so the person sending it sees why it didn't go out
+   */
+  async sendCustomerMessage(
+    companyId: string,
+    customer: Customer,
+    body: string,
+    options: SendCustomerSmsOptions = {}
+  ): Promise<CustomerMessage> {
+    const config = await this.getSmsConfig(companyId);
+    if (!config || !config.enabled) {
+      throw new BadRequestError('SMS integration is not configured');
+    }
+
+    if (!customer.smsOptIn) {
+      throw new BadRequestError('Customer has not opted in to text messages');
+    }
+
+    const to = toE164(customer.phone);
+    if (!to) {
+      throw new BadRequestError('Customer does not have a phone number that can receive texts');
+    }
+
+    const result = await this.getAdapter(config).sendSms(config, { to, body });
+
+    return customerMessageService.create(companyId, {
+      customerId: customer.id,
+      ticketId: options.ticketId,
+      channel: 'sms',
+      direction: 'outbound',
+      fromAddress: config.settings?.fromNumber,
+      toAddress: to,
+      body,
+      providerMessageId: result.messageId,
+      sentBy: options.sentBy,
+    });
+  }
+
+  /**
+   * Handle a text a customer sent to the shop's number
+   * STOP and START replies change the opt-in of every customer with that number.
+   * Every text is kept in the customer's conversation so staff can read and answer it.
+   */
+  async handleInboundSms(companyId: string, inbound: InboundSms): Promise<InboundSmsResult> {
+    const from = toE164(inbound.from);
+    const customers = from ? await customerService.findByPhone(from, companyId) : [];
+    const customerIds = customers.map((customer) => customer.id);
+
+    const keyword = inbound.body.trim().toUpperCase();
+    let action: InboundSmsAction = null;
+    if (OPT_OUT_KEYWORDS.includes(keyword)) {
+      action = 'opted_out';
+    } else if (OPT_IN_KEYWORDS.includes(keyword)) {
+      action = 'opted_in';
+    }
+
+    if (action) {
+      for (const customer of customers) {
+        await customerService.setSmsOptIn(customer.id, companyId, action === 'opted_in');
+      }
+      logger.info(
+        `SMS ${keyword} from ${inbound.from}: ${action.replace('_', ' ')} ${customers.length} customer(s)`
+      );
+    } else {
+      logger.info(`Inbound SMS from ${inbound.from} for company ${companyId}`);
+    }
+
+    await customerMessageService.recordInbound(companyId, customerIds, {
+      channel: 'sms',
+      fromAddress: from || inbound.from,
+      toAddress: inbound.to,
+      body: inbound.body,
+      providerMessageId: inbound.messageId,
+    });
+
+    return { action, customerIds };
+  }
+}
+
+export default new SmsService();
@@ -0,0 +1,43 @@
+/**
+ * Common SMS types and interfaces
+ */
+
+import { SmsIntegrationConfig } from '../../config/integrations.js';
+
+export interface SmsData {
+  // E.164 phone number, e.g. +15551234567
+  to: string;
+  body: string;
+  // Overrides the integration's fromNumber
+  from?: string;
+}
+
+export interface SendSmsResult {
+  // Provider's ID for the message
+  messageId: string;
+}
+
+export interface TestConnectionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * A text message a customer sent to the shop's number
+ */
+export interface InboundSms {
+  from: string;
+  to: string;
+  body: string;
+  messageId?: string;
+}
+
+/**
+ * An SMS provider
+ */
+export interface SmsAdapter {
+  sendSms(config: SmsIntegrationConfig, sms: SmsData): Promise<SendSmsResult>;
+  testConnection(config: SmsIntegrationConfig): Promise<TestConnectionResult>;
+  // Read a provider's inbound webhook body
+  parseInbound(body: Record<string, unknown>): InboundSms | null;
+}
@@ -0,0 +1,147 @@
+// src/integrations/sms/twilio.adapter.ts
+import crypto from 'crypto';
+import { SmsIntegrationConfig } from '../../config/integrations.js';
+import logger from '../../config/logger.js';
+import { decryptCredentials } from '../../utils/encryption.js';
+import {
+  InboundSms,
+  SendSmsResult,
+  SmsAdapter,
+  SmsData,
+  TestConnectionResult,
+} from './sms.types.js';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+
+/**
+ * Twilio adapter for SMS integration
+ * Talks to the Twilio REST API directly, authenticating with the account SID and auth token.
+ */
+export class TwilioAdapter implements SmsAdapter {
+  private getCredentials(config: SmsIntegrationConfig): { accountSid: string; authToken: string } {
+    // Decrypt credentials before use
+    const decryptedCredentials = decryptCredentials(config.credentials);
+    const { accountSid, authToken } = decryptedCredentials;
+
+    if (!accountSid || !authToken) {
+      throw new Error('Twilio account SID and auth token are required');
+    }
+    return { accountSid, authToken };
+  }
+
+  private authHeader(accountSid: string, authToken: string): string {
+    return `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`;
+  }
+
+  /**
+   * Test Twilio credentials by fetching the account
+   */
+  async testConnection(config: SmsIntegrationConfig): Promise<TestConnectionResult> {
+    try {
+      const { accountSid, authToken } = this.getCredentials(config);
+
+      const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}.json`, {
+        method: 'GET',
+        headers: { Authorization: this.authHeader(accountSid, authToken) },
+      });
+
+      if (response.ok) {
+        return { success: true };
+      }
+      if (response.status === 401) {
+        return {
+          success: false,
+          error: 'Invalid account SID or auth token. Please check your Twilio credentials.',
+        };
+      }
+      const errorText = await response.text();
+      return {
+        success: false,
+        error: `Twilio API error: ${response.status} - ${errorText}`,
+      };
+    } catch (error) {
+      logger.error('Twilio connection test error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error testing connection',
+      };
+    }
+  }
+
+  /**
+   * Send a text message using Twilio
+   */
+  async sendSms(config: SmsIntegrationConfig, sms: SmsData): Promise<SendSmsResult> {
+    const { accountSid, authToken } = this.getCredentials(config);
+
+    const from = sms.from || config.settings?.fromNumber;
+    if (!from) {
+      throw new Error('From number is required');
+    }
+
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: this.authHeader(accountSid, authToken),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: sms.to, From: from, Body: sms.body }).toString(),
+    });
+
+    const result = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+    if (!response.ok || !result.sid) {
+      if (response.status === 401) {
+        throw new Error('Invalid Twilio credentials. Please check your account SID and auth token.');
+      }
+      throw new Error(`Twilio API error: ${response.status}${result.message ? ` - ${result.message}` : ''}`);
+    }
+
+    logger.info(`SMS sent successfully via Twilio to ${sms.to}`);
+    return { messageId: result.sid };
+  }
+
+  /**
+   * Read Twilio's inbound message webhook (form fields From, To, Body, MessageSid)
+   */
+  parseInbound(body: Record<string, unknown>): InboundSms | null {
+    if (typeof body.From !== 'string' || typeof body.Body !== 'string') {
+      return null;
+    }
+    return {
+      from: body.From,
+      to: typeof body.To === 'string' ? body.To : '',
+      body: body.Body,
+      messageId: typeof body.MessageSid === 'string' ? body.MessageSid : undefined,
+    };
+  }
+
+  /**
+   * Check the X-Twilio-Signature header on a webhook
+   * Twilio signs the full webhook URL followed by each POST field name and value, sorted by name.
+   */
+  isValidSignature(
+    config: SmsIntegrationConfig,
+    url: string,
+    params: Record<string, unknown>,
+    signature: string | undefined
+  ): boolean {
+    if (!signature) {
+      return false;
+    }
+
+    const { authToken } = this.getCredentials(config);
+    const data = Object.keys(params)
+      .sort()
+      .reduce((signed, key) => `${signed}${key}${String(params[key] ?? '')}`, url);
+    const expected = crypto.createHmac('sha1', authToken).update(data).digest('base64');
+
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    return (
+      expectedBuffer.length === signatureBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+    );
+  }
+}
+
+export default new TwilioAdapter();
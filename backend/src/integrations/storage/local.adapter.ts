@@ -0,0 +1,42 @@
+// src/integrations/storage/local.adapter.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { StorageDriver } from './storage.types.js';
+
+/**
+ * Stores files on the local disk under STORAGE_LOCAL_PATH (default ./uploads)
+ * Suitable for single-server installs; use the S3 driver when running more than one backend
+ */
+export class LocalStorageAdapter implements StorageDriver {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root = process.env.STORAGE_LOCAL_PATH || 'uploads') {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Resolve a key to a path inside the storage root, rejecting anything that escapes it
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
@@ -0,0 +1,68 @@
+// src/integrations/storage/s3.adapter.ts
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { StorageDriver } from './storage.types.js';
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, DigitalOcean Spaces...)
+ *
+ * Configuration (backend .env):
+ * - S3_BUCKET (required)
+ * - S3_REGION (defaults to us-east-1)
+ * - S3_ENDPOINT for non-AWS providers
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY (falls back to the default AWS credential chain)
+ * - S3_FORCE_PATH_STYLE=true for MinIO and other providers without virtual-hosted buckets
+ */
+export class S3StorageAdapter implements StorageDriver {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    }
+    this.bucket = bucket;
+
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials:
+        accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    if (!response.Body) {
+      throw new Error(`Storage object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
@@ -0,0 +1,54 @@
+// src/integrations/storage/storage.service.ts
+import logger from '../../config/logger.js';
+import { LocalStorageAdapter } from './local.adapter.js';
+import { S3StorageAdapter } from './s3.adapter.js';
+import { StorageDriver } from './storage.types.js';
+
+/**
+ * High-level storage service for uploaded files
+ * Routes to the driver selected by STORAGE_DRIVER ('local' by default, or 's3')
+ *
+ * The driver is created on first use so that a misconfigured S3 setup only
+ * breaks uploads, not server startup.
+ */
+export class StorageService {
+  private driver: StorageDriver | null = null;
+
+  private getDriver(): StorageDriver {
+    if (!this.driver) {
+      const driverName = process.env.STORAGE_DRIVER || 'local';
+      if (driverName === 's3') {
+        this.driver = new S3StorageAdapter();
+      } else if (driverName === 'local') {
+        this.driver = new LocalStorageAdapter();
+      } else {
+        throw new Error(`Storage driver ${driverName} is not supported`);
+      }
+      logger.info(`Using ${this.driver.name} storage driver for uploads`);
+    }
+    return this.driver;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.getDriver().put(key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return this.getDriver().get(key);
+  }
+
+  /**
+   * Delete a stored file
+   * Failures are logged rather than thrown so that a missing object never blocks
+   * removing its database record
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.getDriver().delete(key);
+    } catch (error) {
+      logger.error(`Failed to delete storage object ${key}:`, error);
+    }
+  }
+}
+
+export default new StorageService();
@@ -0,0 +1,16 @@
+/**
+ * Common storage driver types and interfaces
+ */
+
+export type StorageDriverName = 'local' | 's3';
+
+/**
+ * A place to keep uploaded file contents
+ * Keys are opaque, slash-separated paths generated by the caller
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
@@ -96,3 +96,60 @@ export const sensitiveOperationLimiter = rateLimit({
     });
   },
 });
+
+/**
+ * Rate limiter for customer portal lookups (ticket number + phone/email)
+ * Limits: 10 failed lookups per 15 minutes per IP (production)
+ *         Disabled in development and test environments
+ */
+export const portalLookupLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 failed lookups per windowMs
+  skip: () => process.env.NODE_ENV === "test" || process.env.NODE_ENV === "development", // Skip rate limiting in test and development environments
+  message: {
+    success: false,
+    error: {
+      message: "Too many lookup attempts, please try again later.",
+    },
+  },
+  skipSuccessfulRequests: true, // Only guessing counts against the limit
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn(`Portal lookup rate limit exceeded for IP: ${req.ip}`);
+    res.status(429).json({
+      success: false,
+      error: {
+        message: "Too many lookup attempts, please try again later.",
+      },
+    });
+  },
+});
+
+/**
+ * Online booking rate limiter
+ * Limits: 10 bookings per hour per IP (production)
+ *         Disabled in development and test environments
+ */
+export const bookingLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // Limit each IP to 10 bookings per windowMs
+  skip: () => process.env.NODE_ENV === "test" || process.env.NODE_ENV === "development", // Skip rate limiting in test and development environments
+  message: {
+    success: false,
+    error: {
+      message: "Too many booking attempts, please try again later.",
+    },
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn(`Booking rate limit exceeded for IP: ${req.ip}`);
+    res.status(429).json({
+      success: false,
+      error: {
+        message: "Too many booking attempts, please try again later.",
+      },
+    });
+  },
+});
@@ -4,6 +4,42 @@ import { UserRole } from "../config/types.js";
 import { UserWithoutPassword } from "../services/user.service.js";
 import { getPermissionsForRole } from "../config/permissions.js";
 
+/**
+ * Check if a user has any of the given roles in a company
+ * Supports multiple roles per user; superusers always pass
+ */
+export async function hasRole(
+  user: UserWithoutPassword,
+  companyId: string,
+  roles: UserRole | UserRole[]
+): Promise<boolean> {
+  // Superusers bypass all role checks
+  if (user.role === "superuser") {
+    return true;
+  }
+
+  const allowedRoles = Array.isArray(roles) ? roles : [roles];
+
+  // Check if user has any of the required roles
+  // First check primary role (backward compatibility)
+  if (allowedRoles.includes(user.role)) {
+    return true;
+  }
+
+  // Check multiple roles if available
+  if (user.roles && user.roles.length > 0) {
+    const hasRequiredRole = user.roles.some((role) => allowedRoles.includes(role));
+    if (hasRequiredRole) {
+      return true;
+    }
+  }
+
+  // Fallback: check user_roles table directly
+  const userService = (await import("../services/user.service.js")).default;
+  const userRoles = await userService.getUserRoles(user.id, companyId);
+  return userRoles.some((ur) => allowedRoles.includes(ur.role));
+}
+
 /**
  * Middleware factory that checks if user has one of the specified roles
  * Must be used after validateRequest and requireTenantContext middleware
@@ -30,28 +66,8 @@ export function requireRole(roles: UserRole | UserRole[]): RequestHandler {
         return next(new ForbiddenError("Company context required"));
       }
 
-      const allowedRoles = Array.isArray(roles) ? roles : [roles];
-
-      // Check if user has any of the required roles
-      // First check primary role (backward compatibility)
-      if (allowedRoles.includes(user.role)) {
-        return next();
-      }
-
-      // Check multiple roles if available
-      if (user.roles && user.roles.length > 0) {
-        const hasRequiredRole = user.roles.some((role) => allowedRoles.includes(role));
-        if (hasRequiredRole) {
-          return next();
-        }
-      }
-
-      // Fallback: check user_roles table directly
-      const userService = (await import("../services/user.service.js")).default;
-      const userRoles = await userService.getUserRoles(user.id, companyId);
-      const hasRequiredRole = userRoles.some((ur) => allowedRoles.includes(ur.role));
-
-      if (!hasRequiredRole) {
+      if (!(await hasRole(user, companyId, roles))) {
+        const allowedRoles = Array.isArray(roles) ? roles : [roles];
         return next(new ForbiddenError(
           `Access denied. Required role: ${allowedRoles.join(" or ")}`
         ));
@@ -0,0 +1,32 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import multer from "multer";
+import { BadRequestError } from "../config/errors.js";
+import { MAX_ATTACHMENT_SIZE_BYTES } from "../services/attachment.service.js";
+
+/**
+ * Middleware factory that parses a multipart/form-data upload into req.files
+ * Files are kept in memory and handed to the storage driver by the route
+ * Multer errors (file too large, too many files...) are returned as 400s
+ */
+export function uploadFiles(fieldName = "files", maxCount = 10): RequestHandler {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ATTACHMENT_SIZE_BYTES, files: maxCount },
+  }).array(fieldName, maxCount);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE") {
+          return next(
+            new BadRequestError(
+              `File exceeds the maximum size of ${Math.round(MAX_ATTACHMENT_SIZE_BYTES / (1024 * 1024))} MB`
+            )
+          );
+        }
+        return next(new BadRequestError(err.message));
+      }
+      next(err);
+    });
+  };
+}
@@ -0,0 +1,132 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireLocationContext } from "../middlewares/location.middleware.js";
+import { requirePermission, requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import appointmentService from "../services/appointment.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  cancelAppointmentValidation,
+  checkInAppointmentValidation,
+  createAppointmentValidation,
+  listAppointmentsValidation,
+  updateAppointmentValidation,
+} from "../validators/appointment.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/appointments - List appointments at the current location (calendar view)
+router.get(
+  "/",
+  requireLocationContext,
+  validate(listAppointmentsValidation),
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const appointments = await appointmentService.findAll(companyId, {
+      locationId: req.locationId || undefined,
+      start: req.query.start as string | undefined,
+      end: req.query.end as string | undefined,
+      technicianId: req.query.technicianId as string | undefined,
+      customerId: req.query.customerId as string | undefined,
+    });
+    res.json({ success: true, data: appointments });
+  })
+);
+
+// GET /api/appointments/:id - Get an appointment
+router.get(
+  "/:id",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const appointment = await appointmentService.findById(req.params.id, companyId);
+    if (!appointment) {
+      throw new NotFoundError("Appointment not found");
+    }
+    res.json({ success: true, data: appointment });
+  })
+);
+
+// POST /api/appointments - Book an appointment, or a repeating series
+router.post(
+  "/",
+  requireLocationContext,
+  validate(createAppointmentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const locationId = req.locationId!;
+    const appointments = await appointmentService.create(
+      req.body,
+      companyId,
+      locationId,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: appointments });
+  })
+);
+
+// PUT /api/appointments/:id - Reschedule or edit an appointment
+router.put(
+  "/:id",
+  validate(updateAppointmentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const appointment = await appointmentService.update(req.params.id, req.body, companyId);
+    res.json({ success: true, data: appointment });
+  })
+);
+
+// POST /api/appointments/:id/cancel - Cancel an appointment, optionally with the rest of its series
+router.post(
+  "/:id/cancel",
+  validate(cancelAppointmentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const appointment = await appointmentService.cancel(
+      req.params.id,
+      companyId,
+      req.body.includeFollowing === true
+    );
+    res.json({ success: true, data: appointment });
+  })
+);
+
+// POST /api/appointments/:id/no-show - Mark that the customer didn't turn up
+router.post(
+  "/:id/no-show",
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const appointment = await appointmentService.markNoShow(req.params.id, companyId);
+    res.json({ success: true, data: appointment });
+  })
+);
+
+// POST /api/appointments/:id/check-in - Check the customer in and open a ticket
+router.post(
+  "/:id/check-in",
+  validate(checkInAppointmentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const result = await appointmentService.checkIn(
+      req.params.id,
+      req.body,
+      companyId,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: result });
+  })
+);
+
+export default router;
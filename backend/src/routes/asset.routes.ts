@@ -1,11 +1,14 @@
 import express, { Request, Response } from "express";
 import { BadRequestError, NotFoundError } from "../config/errors.js";
 import { validateRequest } from "../middlewares/auth.middleware.js";
-import { requireAdmin, requireRole } from "../middlewares/rbac.middleware.js";
+import { requireAdmin, requirePermission, requireRole } from "../middlewares/rbac.middleware.js";
 import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { uploadFiles } from "../middlewares/upload.middleware.js";
 import { validate } from "../middlewares/validation.middleware.js";
+import attachmentService from "../services/attachment.service.js";
 import assetService from "../services/asset.service.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
+import { getUploadedFiles, sendAttachmentContent } from "../utils/attachment.utils.js";
 import {
   createAssetValidation,
   updateAssetValidation,
@@ -94,4 +97,94 @@ router.delete(
   })
 );
 
+// GET /assets/:id/attachments - List attachments
+router.get(
+  "/:id/attachments",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const asset = await assetService.findById(id, companyId);
+    if (!asset) {
+      throw new NotFoundError("Asset not found");
+    }
+
+    const attachments = await attachmentService.findByOwner({ type: "asset", id }, companyId);
+    res.json({ success: true, data: attachments });
+  })
+);
+
+// POST /assets/:id/attachments - Upload photos or documents (multipart field "files")
+router.post(
+  "/:id/attachments",
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  uploadFiles("files"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const asset = await assetService.findById(id, companyId);
+    if (!asset) {
+      throw new NotFoundError("Asset not found");
+    }
+
+    const attachments = await attachmentService.upload(
+      { type: "asset", id },
+      getUploadedFiles(req),
+      companyId,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: attachments });
+  })
+);
+
+// GET /assets/:id/attachments/:attachmentId/download - Download the original file
+router.get(
+  "/:id/attachments/:attachmentId/download",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const attachment = await attachmentService.findById(attachmentId, { type: "asset", id }, companyId);
+    if (!attachment) {
+      throw new NotFoundError("Attachment not found");
+    }
+    const content = await attachmentService.getContent(attachment);
+    sendAttachmentContent(res, attachment, content);
+  })
+);
+
+// GET /assets/:id/attachments/:attachmentId/thumbnail - Download the image thumbnail
+router.get(
+  "/:id/attachments/:attachmentId/thumbnail",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const attachment = await attachmentService.findById(attachmentId, { type: "asset", id }, companyId);
+    if (!attachment) {
+      throw new NotFoundError("Attachment not found");
+    }
+    const content = await attachmentService.getContent(attachment, true);
+    sendAttachmentContent(res, attachment, content, true);
+  })
+);
+
+// DELETE /assets/:id/attachments/:attachmentId - Delete an attachment
+router.delete(
+  "/:id/attachments/:attachmentId",
+  requireRole(["admin", "manager", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const deleted = await attachmentService.delete(attachmentId, { type: "asset", id }, companyId);
+    if (!deleted) {
+      throw new NotFoundError("Attachment not found");
+    }
+    res.json({
+      success: true,
+      data: { message: "Attachment deleted successfully" },
+    });
+  })
+);
+
 export default router;
@@ -0,0 +1,50 @@
+import express, { Request, Response } from "express";
+import { bookingLimiter } from "../middlewares/rate-limit.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import bookingService from "../services/booking.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  bookAppointmentValidation,
+  bookingLocationValidation,
+  bookingSlotsValidation,
+} from "../validators/booking.validator.js";
+
+const router = express.Router();
+
+// Online self-booking - public endpoints for locations that have booking turned on
+
+// GET /api/booking/:locationId - Get the location's name and opening hours
+router.get(
+  "/:locationId",
+  validate(bookingLocationValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const location = await bookingService.getLocation(req.params.locationId);
+    res.json({ success: true, data: location });
+  })
+);
+
+// GET /api/booking/:locationId/slots?date=YYYY-MM-DD - List the open slots on a day
+router.get(
+  "/:locationId/slots",
+  validate([...bookingLocationValidation, ...bookingSlotsValidation]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const slots = await bookingService.getAvailableSlots(
+      req.params.locationId,
+      req.query.date as string
+    );
+    res.json({ success: true, data: slots });
+  })
+);
+
+// POST /api/booking/:locationId - Book a slot
+router.post(
+  "/:locationId",
+  bookingLimiter,
+  validate([...bookingLocationValidation, ...bookAppointmentValidation]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const confirmation = await bookingService.book(req.params.locationId, req.body);
+    res.status(201).json({ success: true, data: confirmation });
+  })
+);
+
+export default router;
@@ -4,18 +4,26 @@ import {
   NotFoundError,
 } from "../config/errors.js";
 import { validateRequest } from "../middlewares/auth.middleware.js";
+import { optionalLocationContext } from "../middlewares/location.middleware.js";
 import { requireAdmin, requireRole } from "../middlewares/rbac.middleware.js";
 import { requireTenantContext } from "../middlewares/tenant.middleware.js";
 import { validate } from "../middlewares/validation.middleware.js";
 import assetService from "../services/asset.service.js";
+import customerDepositService from "../services/customer-deposit.service.js";
 import customerService from "../services/customer.service.js";
 import invoiceService from "../services/invoice.service.js";
+import storeCreditService from "../services/store-credit.service.js";
 import ticketService from "../services/ticket.service.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
 import {
+  adjustStoreCreditValidation,
   createCustomerValidation,
   updateCustomerValidation,
 } from "../validators/customer.validator.js";
+import {
+  createCustomerDepositValidation,
+  refundCustomerDepositValidation,
+} from "../validators/customer-deposit.validator.js";
 
 const router = express.Router();
 
@@ -141,4 +149,74 @@ router.get(
   })
 );
 
+// GET /customers/:id/deposits - Get customer deposits and the credit balance left on them
+router.get(
+  "/:id/deposits",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const deposits = await customerDepositService.findByCustomer(id, companyId);
+    const creditBalance = await customerDepositService.getCreditBalance(id, companyId);
+    res.json({ success: true, data: { creditBalance, deposits } });
+  })
+);
+
+// POST /customers/:id/deposits - Take a deposit from a customer
+router.post(
+  "/:id/deposits",
+  optionalLocationContext,
+  validate(createCustomerDepositValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const deposit = await customerDepositService.create(
+      id,
+      req.body,
+      companyId,
+      req.locationId || null,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: deposit });
+  })
+);
+
+// POST /customers/:id/deposits/:depositId/refund - Refund what's left of a deposit
+router.post(
+  "/:id/deposits/:depositId/refund",
+  validate(refundCustomerDepositValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, depositId } = req.params;
+    const deposit = await customerDepositService.refund(depositId, id, req.body, companyId);
+    res.json({ success: true, data: deposit });
+  })
+);
+
+// GET /customers/:id/store-credit - Get a customer's store credit balance and its history
+router.get(
+  "/:id/store-credit",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const balance = await storeCreditService.getBalance(id, companyId);
+    const transactions = await storeCreditService.findTransactions(id, companyId);
+    res.json({ success: true, data: { balance, transactions } });
+  })
+);
+
+// POST /customers/:id/store-credit - Give a customer store credit, or take it away, by hand
+router.post(
+  "/:id/store-credit",
+  validate(adjustStoreCreditValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const transaction = await storeCreditService.adjust(id, req.body, companyId, req.user!.id);
+    res.status(201).json({ success: true, data: transaction });
+  })
+);
+
 export default router;
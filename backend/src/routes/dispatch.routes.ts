@@ -0,0 +1,56 @@
+import express, { Request, Response } from "express";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireLocationContext } from "../middlewares/location.middleware.js";
+import { requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import dispatchService from "../services/dispatch.service.js";
+import ticketFeedService from "../services/ticket-feed.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+const router = express.Router();
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/dispatch/board - Open tickets and assignable technicians for the current location
+router.get(
+  "/board",
+  requireLocationContext,
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const board = await dispatchService.getBoard(companyId, req.locationId || undefined);
+    res.json({ success: true, data: board });
+  })
+);
+
+// GET /api/dispatch/stream - Server-sent events naming each ticket as it changes
+// Boards refetch on each event, so two managers never work from a stale column
+router.get(
+  "/stream",
+  requireRole(["admin", "manager"]),
+  (req: Request, res: Response) => {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = ticketFeedService.subscribe(req.companyId!, (change) => {
+      res.write(`event: ticket\ndata: ${JSON.stringify(change)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,68 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { EmailMessageStatus } from "../config/types.js";
+import emailService from "../integrations/email/email.service.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import emailMessageService from "../services/email-message.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  emailMessageIdValidation,
+  listEmailMessagesValidation,
+} from "../validators/email-message.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication, tenant context and the admin role
+router.use(validateRequest);
+router.use(requireTenantContext);
+router.use(requireAdmin());
+
+// GET /api/email-messages - Get the company's email delivery log, newest first
+router.get(
+  "/",
+  validate(listEmailMessagesValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const result = await emailMessageService.findAll(companyId, {
+      status: req.query.status as EmailMessageStatus | undefined,
+      page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  })
+);
+
+// GET /api/email-messages/:id - Get a logged email
+router.get(
+  "/:id",
+  validate(emailMessageIdValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const message = await emailMessageService.findById(req.params.id, companyId);
+    if (!message) {
+      throw new NotFoundError("Email not found");
+    }
+    res.json({ success: true, data: message });
+  })
+);
+
+// POST /api/email-messages/:id/resend - Send a failed or bounced email again
+router.post(
+  "/:id/resend",
+  validate(emailMessageIdValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const message = await emailService.resendMessage(req.params.id, companyId);
+    res.json({ success: true, data: message });
+  })
+);
+
+export default router;
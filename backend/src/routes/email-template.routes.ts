@@ -0,0 +1,159 @@
+import express, { Request, Response } from "express";
+import { BadRequestError } from "../config/errors.js";
+import { EmailTemplateKey } from "../config/types.js";
+import emailService from "../integrations/email/email.service.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { uploadFiles } from "../middlewares/upload.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import emailTemplateService, { EmailTemplateContentDto } from "../services/email-template.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { getUploadedFiles } from "../utils/attachment.utils.js";
+import {
+  emailTemplateKeyValidation,
+  previewEmailTemplateValidation,
+  saveEmailTemplateValidation,
+  updateEmailBrandingValidation,
+} from "../validators/email-template.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication, tenant context and the admin role
+router.use(validateRequest);
+router.use(requireTenantContext);
+router.use(requireAdmin());
+
+// Unsaved edits sent with a preview or test, if any
+const getDraftContent = (req: Request): EmailTemplateContentDto | undefined =>
+  req.body.subject !== undefined ? { subject: req.body.subject, body: req.body.body } : undefined;
+
+// GET /api/email-templates - Get every email template and the company's branding
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const [templates, branding] = await Promise.all([
+      emailTemplateService.getTemplates(companyId),
+      emailTemplateService.getBranding(companyId),
+    ]);
+    res.json({ success: true, data: { templates, branding } });
+  })
+);
+
+// PUT /api/email-templates/branding - Set the brand colors used in emails
+router.put(
+  "/branding",
+  validate(updateEmailBrandingValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const branding = await emailTemplateService.updateBranding(companyId, {
+      primaryColor: req.body.primaryColor,
+      accentColor: req.body.accentColor,
+    });
+    res.json({ success: true, data: branding });
+  })
+);
+
+// POST /api/email-templates/branding/logo - Upload the logo shown at the top of emails
+router.post(
+  "/branding/logo",
+  uploadFiles("logo", 1),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const [file] = getUploadedFiles(req);
+    if (!file) {
+      throw new BadRequestError("A logo image is required");
+    }
+    const branding = await emailTemplateService.setLogo(companyId, file);
+    res.json({ success: true, data: branding });
+  })
+);
+
+// DELETE /api/email-templates/branding/logo - Remove the logo
+router.delete(
+  "/branding/logo",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const branding = await emailTemplateService.removeLogo(companyId);
+    res.json({ success: true, data: branding });
+  })
+);
+
+// GET /api/email-templates/:key - Get one template
+router.get(
+  "/:key",
+  validate(emailTemplateKeyValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const template = await emailTemplateService.getTemplate(
+      companyId,
+      req.params.key as EmailTemplateKey
+    );
+    res.json({ success: true, data: template });
+  })
+);
+
+// PUT /api/email-templates/:key - Save the company's version of a template
+router.put(
+  "/:key",
+  validate(saveEmailTemplateValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const template = await emailTemplateService.saveTemplate(
+      companyId,
+      req.params.key as EmailTemplateKey,
+      { subject: req.body.subject, body: req.body.body },
+      req.user!.id
+    );
+    res.json({ success: true, data: template });
+  })
+);
+
+// DELETE /api/email-templates/:key - Go back to the built-in template
+router.delete(
+  "/:key",
+  validate(emailTemplateKeyValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const template = await emailTemplateService.resetTemplate(
+      companyId,
+      req.params.key as EmailTemplateKey
+    );
+    res.json({ success: true, data: template });
+  })
+);
+
+// POST /api/email-templates/:key/preview - Render a template with sample data
+router.post(
+  "/:key/preview",
+  validate(previewEmailTemplateValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const key = req.params.key as EmailTemplateKey;
+    const variables = await emailTemplateService.getSampleVariables(companyId, key);
+    const { subject, text, html } = await emailTemplateService.render(companyId, key, variables, {
+      content: getDraftContent(req),
+      preview: true,
+    });
+    res.json({ success: true, data: { subject, text, html } });
+  })
+);
+
+// POST /api/email-templates/:key/test - Email a sample of a template to the signed-in admin
+router.post(
+  "/:key/test",
+  validate(previewEmailTemplateValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    await emailService.sendTemplateTestEmail(
+      companyId,
+      req.params.key as EmailTemplateKey,
+      req.user!.email,
+      getDraftContent(req)
+    );
+    res.json({ success: true, data: { sentTo: req.user!.email } });
+  })
+);
+
+export default router;
@@ -0,0 +1,86 @@
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../config/errors.js';
+import logger from '../config/logger.js';
+import { validate } from '../middlewares/validation.middleware.js';
+import emailService from '../integrations/email/email.service.js';
+import sendGridAdapter from '../integrations/email/sendgrid.adapter.js';
+import credentialService from '../services/credential.service.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { verifyEmailEventsToken, verifyInboundEmailToken } from '../utils/auth.js';
+import { emailEventsValidation, inboundEmailValidation } from '../validators/integration.validator.js';
+
+const router = express.Router();
+
+// SendGrid Inbound Parse posts multipart form data; attachments are kept in memory and ignored
+const parseInboundForm = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 10 },
+}).any();
+
+function inboundForm(req: Request, res: Response, next: NextFunction) {
+  parseInboundForm(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      return next(new BadRequestError(err.message));
+    }
+    next(err);
+  });
+}
+
+// POST /api/email/inbound/:companyId/:token - Handle emails customers send to the shop
+// Called by the email provider, so it isn't authenticated; the token in the URL proves it came from our setup
+router.post(
+  '/inbound/:companyId/:token',
+  validate(inboundEmailValidation),
+  inboundForm,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { companyId, token } = req.params;
+
+    if (!verifyInboundEmailToken(companyId, token)) {
+      logger.warn(`Rejected inbound email for company ${companyId} with an invalid token`);
+      throw new ForbiddenError('Invalid webhook token');
+    }
+
+    const integration = await credentialService.getIntegration(companyId, 'email');
+    if (!integration || !integration.enabled) {
+      throw new NotFoundError('Email integration not configured');
+    }
+
+    const inbound = sendGridAdapter.parseInbound(req.body);
+    if (!inbound) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Unrecognized inbound email' },
+      });
+      return;
+    }
+
+    const message = await emailService.handleInboundEmail(companyId, inbound);
+
+    // Always acknowledge, otherwise the provider keeps retrying mail from unknown senders
+    res.json({ success: true, data: { messageId: message?.id || null } });
+  })
+);
+
+// POST /api/email/events/:companyId/:token - Handle delivery, open and bounce events for sent emails
+// Called by the email provider (SendGrid Event Webhook), so it's authenticated by the token in the URL like inbound email
+router.post(
+  '/events/:companyId/:token',
+  validate(emailEventsValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { companyId, token } = req.params;
+
+    if (!verifyEmailEventsToken(companyId, token)) {
+      logger.warn(`Rejected email events for company ${companyId} with an invalid token`);
+      throw new ForbiddenError('Invalid webhook token');
+    }
+
+    const events = sendGridAdapter.parseEvents(req.body);
+    const processed = await emailService.handleDeliveryEvents(companyId, events);
+
+    // Acknowledge events we don't track too, otherwise the provider keeps retrying them
+    res.json({ success: true, data: { processed } });
+  })
+);
+
+export default router;
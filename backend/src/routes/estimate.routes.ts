@@ -0,0 +1,142 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { EstimateStatus } from "../config/types.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireLocationContext } from "../middlewares/location.middleware.js";
+import { requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import estimateService from "../services/estimate.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  createEstimateValidation,
+  updateEstimateValidation,
+} from "../validators/estimate.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /estimates - List estimates (optionally for one ticket)
+router.get(
+  "/",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const ticketId = req.query.ticketId as string | undefined;
+    const status = req.query.status as EstimateStatus | undefined;
+    const estimates = await estimateService.findAll(companyId, ticketId, status);
+    res.json({ success: true, data: estimates });
+  })
+);
+
+// GET /estimates/:id - Get estimate by ID
+router.get(
+  "/:id",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.findById(req.params.id, companyId);
+    if (!estimate) {
+      throw new NotFoundError("Estimate not found");
+    }
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// POST /estimates - Create a draft estimate for a ticket
+router.post(
+  "/",
+  requireLocationContext,
+  validate(createEstimateValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.create(
+      req.body,
+      companyId,
+      req.locationId || null,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: estimate });
+  })
+);
+
+// PUT /estimates/:id - Update a draft estimate
+router.put(
+  "/:id",
+  requireLocationContext,
+  validate(updateEstimateValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.update(req.params.id, req.body, companyId);
+    if (!estimate) {
+      throw new NotFoundError("Estimate not found");
+    }
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// DELETE /estimates/:id - Delete a draft estimate (soft delete)
+router.delete(
+  "/:id",
+  requireLocationContext,
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const deleted = await estimateService.delete(req.params.id, companyId);
+    if (!deleted) {
+      throw new NotFoundError("Estimate not found");
+    }
+    res.json({
+      success: true,
+      data: { message: "Estimate deleted successfully" },
+    });
+  })
+);
+
+// POST /estimates/:id/send - Send the estimate to the customer for approval
+router.post(
+  "/:id/send",
+  requireLocationContext,
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.send(req.params.id, companyId, req.user!.id);
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// POST /estimates/:id/withdraw - Withdraw an estimate the customer hasn't answered
+router.post(
+  "/:id/withdraw",
+  requireLocationContext,
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.withdraw(req.params.id, companyId, req.user!.id);
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// POST /estimates/:id/convert - Create the draft invoice for an approved estimate
+// Only needed if the automatic conversion on approval failed
+router.post(
+  "/:id/convert",
+  requireLocationContext,
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const estimate = await estimateService.convertToInvoice(
+      req.params.id,
+      companyId,
+      req.locationId || null
+    );
+    res.json({ success: true, data: estimate });
+  })
+);
+
+export default router;
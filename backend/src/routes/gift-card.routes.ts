@@ -0,0 +1,109 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { optionalLocationContext } from "../middlewares/location.middleware.js";
+import { requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import giftCardService from "../services/gift-card.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  createGiftCardValidation,
+  giftCardIdValidation,
+  listGiftCardsValidation,
+  updateGiftCardValidation,
+} from "../validators/gift-card.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /gift-cards - List gift cards, searching by code
+router.get(
+  "/",
+  validate(listGiftCardsValidation),
+  requireRole(["admin", "manager", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const result = await giftCardService.findAll(companyId, {
+      search: req.query.search as string | undefined,
+      customerId: req.query.customerId as string | undefined,
+      page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  })
+);
+
+// GET /gift-cards/code/:code - Look up a gift card's balance by its code
+router.get(
+  "/code/:code",
+  requireRole(["admin", "manager", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const giftCard = await giftCardService.findByCode(req.params.code, companyId);
+    if (!giftCard) {
+      throw new NotFoundError("Gift card not found");
+    }
+    res.json({ success: true, data: giftCard });
+  })
+);
+
+// GET /gift-cards/:id - Get a gift card with its balance history
+router.get(
+  "/:id",
+  validate(giftCardIdValidation),
+  requireRole(["admin", "manager", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const giftCard = await giftCardService.findById(id, companyId);
+    if (!giftCard) {
+      throw new NotFoundError("Gift card not found");
+    }
+    const transactions = await giftCardService.findTransactions(id, companyId);
+    res.json({ success: true, data: { ...giftCard, transactions } });
+  })
+);
+
+// POST /gift-cards - Sell a gift card
+router.post(
+  "/",
+  optionalLocationContext,
+  validate(createGiftCardValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const giftCard = await giftCardService.create(
+      req.body,
+      companyId,
+      req.locationId || null,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: giftCard });
+  })
+);
+
+// PATCH /gift-cards/:id - Turn a gift card off (e.g. reported lost) or back on
+router.patch(
+  "/:id",
+  validate(updateGiftCardValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const giftCard = await giftCardService.setActive(req.params.id, req.body.isActive, companyId);
+    if (!giftCard) {
+      throw new NotFoundError("Gift card not found");
+    }
+    res.json({ success: true, data: giftCard });
+  })
+);
+
+export default router;
@@ -6,16 +6,24 @@ import { requireTenantContext } from '../middlewares/tenant.middleware.js';
 import { validate } from '../middlewares/validation.middleware.js';
 import credentialService from '../services/credential.service.js';
 import sendGridAdapter from '../integrations/email/sendgrid.adapter.js';
+import smsService from '../integrations/sms/sms.service.js';
 import { asyncHandler } from '../utils/asyncHandler.js';
 import {
   saveEmailIntegrationValidation,
   savePaymentIntegrationValidation,
+  saveSmsIntegrationValidation,
   integrationTypeValidation,
   testIntegrationValidation,
 } from '../validators/integration.validator.js';
-import { IntegrationType, EmailIntegrationConfig, PaymentIntegrationConfig, PaymentProvider } from '../config/integrations.js';
+import { IntegrationType, EmailIntegrationConfig, PaymentIntegrationConfig, PaymentProvider, SmsIntegrationConfig } from '../config/integrations.js';
 import squareAdapter from '../integrations/payment/square.adapter.js';
+import {
+  generateEmailEventsToken,
+  generateInboundEmailToken,
+  generateInboundSmsToken,
+} from '../utils/auth.js';
 import { decryptCredentials } from '../utils/encryption.js';
+import { getBackendUrl } from '../utils/url.utils.js';
 
 const router = express.Router();
 
@@ -84,6 +92,18 @@ router.get(
       }
     }
 
+    if (type === 'email') {
+      // Where the provider should post emails customers send back (e.g. SendGrid Inbound Parse)
+      responseData.inboundUrl = `${getBackendUrl(req)}/api/email/inbound/${companyId}/${generateInboundEmailToken(companyId)}`;
+      // Where the provider should post delivery, open and bounce events (e.g. SendGrid Event Webhook)
+      responseData.eventsUrl = `${getBackendUrl(req)}/api/email/events/${companyId}/${generateEmailEventsToken(companyId)}`;
+    }
+
+    if (type === 'sms') {
+      // Where the provider should post texts customers send back, e.g. STOP
+      responseData.inboundUrl = `${getBackendUrl(req)}/api/sms/inbound/${companyId}/${generateInboundSmsToken(companyId)}`;
+    }
+
     res.json({
       success: true,
       data: responseData,
@@ -98,6 +118,7 @@ router.post(
     ...integrationTypeValidation,
     ...saveEmailIntegrationValidation,
     ...savePaymentIntegrationValidation,
+    ...saveSmsIntegrationValidation,
   ]),
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
@@ -165,7 +186,7 @@ router.post(
     const config = await credentialService.saveIntegration(companyId, type as IntegrationType, {
       provider,
       enabled: enabled ?? true,
-      credentials, // Will be encrypted
+      credentials: credentials || {}, // Will be encrypted; the SMS log provider has none
       settings,
     });
 
@@ -205,6 +226,9 @@ router.post(
     let testResult;
     if (type === 'email' && integration.provider === 'sendgrid') {
       testResult = await sendGridAdapter.testConnection(integration as EmailIntegrationConfig);
+    } else if (type === 'sms') {
+      const smsConfig = integration as SmsIntegrationConfig;
+      testResult = await smsService.getAdapter(smsConfig).testConnection(smsConfig);
     } else if (type === 'payment') {
       const paymentConfig = integration as PaymentIntegrationConfig;
       if (paymentConfig.provider === 'square') {
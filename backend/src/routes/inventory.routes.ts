@@ -7,10 +7,12 @@ import { requireTenantContext } from "../middlewares/tenant.middleware.js";
 import { validate } from "../middlewares/validation.middleware.js";
 import inventoryService from "../services/inventory.service.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
+import { getListOptions } from "../utils/pagination.utils.js";
 import {
   createInventoryValidation,
   updateInventoryValidation,
 } from "../validators/inventory.validator.js";
+import { listQueryValidation } from "../validators/list.validator.js";
 
 const router = express.Router();
 
@@ -18,16 +20,21 @@ const router = express.Router();
 router.use(validateRequest);
 router.use(requireTenantContext);
 
-// GET /api/inventory - List all inventory items (with optional search)
+// GET /api/inventory - List all inventory items (with optional search, a filter expression, sorting and paging)
 router.get(
   "/",
   requireLocationContext,
+  validate(listQueryValidation),
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const locationId = req.locationId; // May be undefined for superusers impersonating
     const searchQuery = req.query.query as string | undefined;
-    const items = await inventoryService.findAll(companyId, searchQuery, locationId || undefined);
-    res.json({ success: true, data: items });
+    const { data: items, nextCursor } = await inventoryService.findPage(companyId, {
+      ...getListOptions(req.query),
+      search: searchQuery,
+      locationId: locationId || undefined,
+    });
+    res.json({ success: true, data: items, pagination: { nextCursor } });
   })
 );
 
@@ -9,15 +9,20 @@ import { requireAdmin, requireRole } from "../middlewares/rbac.middleware.js";
 import { requireTenantContext } from "../middlewares/tenant.middleware.js";
 import { validate } from "../middlewares/validation.middleware.js";
 import invoiceService from "../services/invoice.service.js";
+import timeEntryService from "../services/time-entry.service.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
+import { getListOptions } from "../utils/pagination.utils.js";
 import {
   createInvoiceValidation,
   updateInvoiceValidation,
   createInvoiceItemValidation,
   updateInvoiceItemValidation,
   markInvoicePaidValidation,
+  applyDepositsValidation,
   refundInvoiceValidation,
+  createInvoiceReturnValidation,
 } from "../validators/invoice.validator.js";
+import { listQueryValidation } from "../validators/list.validator.js";
 
 const router = express.Router();
 
@@ -25,10 +30,11 @@ const router = express.Router();
 router.use(validateRequest);
 router.use(requireTenantContext);
 
-// GET /invoice - List all invoices (with optional filters)
+// GET /invoice - List all invoices (with optional filters, a filter expression, sorting and paging)
 router.get(
   "/",
   requireLocationContext,
+  validate(listQueryValidation),
   requireRole(["admin", "manager", "technician"]),
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
@@ -37,15 +43,15 @@ router.get(
     const status = req.query.status as InvoiceStatus | undefined;
     const ticketId = req.query.ticketId as string | undefined;
     const searchQuery = req.query.search as string | undefined;
-    const invoices = await invoiceService.findAll(
-      companyId,
+    const { data: invoices, nextCursor } = await invoiceService.findPage(companyId, {
+      ...getListOptions(req.query),
       customerId,
       status,
-      locationId || undefined,
+      locationId: locationId || undefined,
       ticketId,
-      searchQuery
-    );
-    res.json({ success: true, data: invoices });
+      search: searchQuery,
+    });
+    res.json({ success: true, data: invoices, pagination: { nextCursor } });
   })
 );
 
@@ -173,7 +179,44 @@ router.delete(
   })
 );
 
-// POST /invoice/:id/paid - Mark invoice as paid
+// POST /invoice/:id/labor - Bill the ticket's unbilled time as labor line items
+router.post(
+  "/:id/labor",
+  requireLocationContext,
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const labor = await timeEntryService.billToInvoice(id, companyId);
+    res.status(201).json({ success: true, data: labor });
+  })
+);
+
+// GET /invoice/:id/payments - Get the payments received against an invoice
+router.get(
+  "/:id/payments",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const payments = await invoiceService.getPayments(id, companyId);
+    res.json({ success: true, data: payments });
+  })
+);
+
+// GET /invoice/:id/credit-memos - Get the credit memos written up for refunds on an invoice
+router.get(
+  "/:id/credit-memos",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const creditMemos = await invoiceService.getCreditMemos(id, companyId);
+    res.json({ success: true, data: creditMemos });
+  })
+);
+
+// POST /invoice/:id/paid - Record a payment, or several for split tender; pays the balance due when no amount is given
 router.post(
   "/:id/paid",
   requireLocationContext,
@@ -182,7 +225,24 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const invoice = await invoiceService.markInvoiceAsPaid(id, req.body, companyId);
+    const invoice = await invoiceService.markInvoiceAsPaid(id, req.body, companyId, req.user!.id);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+    res.json({ success: true, data: invoice });
+  })
+);
+
+// POST /invoice/:id/apply-deposits - Pay the invoice from the customer's deposits
+router.post(
+  "/:id/apply-deposits",
+  requireLocationContext,
+  validate(applyDepositsValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const invoice = await invoiceService.applyDeposits(id, req.body, companyId, req.user!.id);
     if (!invoice) {
       throw new NotFoundError("Invoice not found");
     }
@@ -190,7 +250,7 @@ router.post(
   })
 );
 
-// POST /invoice/:id/refund - Refund manual payment
+// POST /invoice/:id/refund - Refund manual payment, optionally as store credit
 router.post(
   "/:id/refund",
   requireLocationContext,
@@ -199,7 +259,12 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const invoice = await invoiceService.refundManualPayment(id, req.body, companyId);
+    const invoice = await invoiceService.refundManualPayment(
+      id,
+      req.body,
+      companyId,
+      req.user!.id
+    );
     if (!invoice) {
       throw new NotFoundError("Invoice not found");
     }
@@ -207,4 +272,45 @@ router.post(
   })
 );
 
+// GET /invoice/:id/returns - Get the itemized returns made against an invoice
+router.get(
+  "/:id/returns",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const returns = await invoiceService.getReturns(id, companyId);
+    res.json({ success: true, data: returns });
+  })
+);
+
+// GET /invoice/:id/returns/:returnId - Get a return document
+router.get(
+  "/:id/returns/:returnId",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, returnId } = req.params;
+    const invoiceReturn = await invoiceService.getReturn(id, returnId, companyId);
+    if (!invoiceReturn) {
+      throw new NotFoundError("Return not found");
+    }
+    res.json({ success: true, data: invoiceReturn });
+  })
+);
+
+// POST /invoice/:id/returns - Return lines from a paid invoice, restocking or writing off each one
+router.post(
+  "/:id/returns",
+  requireLocationContext,
+  validate(createInvoiceReturnValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const invoiceReturn = await invoiceService.createReturn(id, req.body, companyId, req.user!.id);
+    res.status(201).json({ success: true, data: invoiceReturn });
+  })
+);
+
 export default router;
@@ -0,0 +1,96 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import laborService from "../services/labor.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  saveLaborCategoryValidation,
+  setLaborRateValidation,
+} from "../validators/labor.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/labor/settings - Get the default labor rate and labor categories
+router.get(
+  "/settings",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const settings = await laborService.getSettings(companyId);
+    res.json({ success: true, data: settings });
+  })
+);
+
+// PUT /api/labor/rate - Set the default hourly labor rate (admin only)
+router.put(
+  "/rate",
+  validate(setLaborRateValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const hourlyRate = await laborService.setDefaultRate(companyId, req.body.hourlyRate ?? null);
+    res.json({ success: true, data: { defaultHourlyRate: hourlyRate } });
+  })
+);
+
+// POST /api/labor/categories - Create a labor category (admin only)
+router.post(
+  "/categories",
+  validate(saveLaborCategoryValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { name, hourlyRate, warrantyDays } = req.body;
+    const category = await laborService.createCategory(companyId, {
+      name,
+      hourlyRate,
+      warrantyDays,
+    });
+    res.status(201).json({ success: true, data: category });
+  })
+);
+
+// PUT /api/labor/categories/:id - Update a labor category (admin only)
+router.put(
+  "/categories/:id",
+  validate(saveLaborCategoryValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { name, hourlyRate, warrantyDays } = req.body;
+    const category = await laborService.updateCategory(req.params.id, companyId, {
+      name,
+      hourlyRate,
+      warrantyDays,
+    });
+    if (!category) {
+      throw new NotFoundError("Labor category not found");
+    }
+    res.json({ success: true, data: category });
+  })
+);
+
+// DELETE /api/labor/categories/:id - Delete a labor category (admin only)
+router.delete(
+  "/categories/:id",
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const deleted = await laborService.deleteCategory(req.params.id, companyId);
+    if (!deleted) {
+      throw new NotFoundError("Labor category not found");
+    }
+    res.json({
+      success: true,
+      data: { message: "Labor category deleted successfully" },
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,134 @@
+import express, { Request, Response } from "express";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import emailService from "../integrations/email/email.service.js";
+import smsService from "../integrations/sms/sms.service.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import customerMessageService, { MessageScope } from "../services/customer-message.service.js";
+import customerService, { Customer } from "../services/customer.service.js";
+import ticketService, { Ticket } from "../services/ticket.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  listMessagesValidation,
+  markMessagesReadValidation,
+  sendMessageValidation,
+  unreadCountValidation,
+} from "../validators/message.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+/**
+ * Look up the customer and ticket a request is about
+ * A ticket's conversation is with the ticket's customer, so the IDs have to agree
+ */
+async function resolveScope(
+  companyId: string,
+  scope: MessageScope
+): Promise<{ customer: Customer; ticket: Ticket | null }> {
+  let ticket: Ticket | null = null;
+  if (scope.ticketId) {
+    ticket = await ticketService.findById(scope.ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+    if (scope.customerId && scope.customerId !== ticket.customerId) {
+      throw new BadRequestError("Ticket does not belong to this customer");
+    }
+  }
+
+  const customer = await customerService.findById(scope.customerId || ticket!.customerId, companyId);
+  if (!customer) {
+    throw new NotFoundError("Customer not found");
+  }
+
+  return { customer, ticket };
+}
+
+function getScope(source: Record<string, unknown>): MessageScope {
+  return {
+    customerId: (source.customerId as string) || undefined,
+    ticketId: (source.ticketId as string) || undefined,
+  };
+}
+
+// GET /api/messages - Get a customer's or ticket's conversation, oldest first
+router.get(
+  "/",
+  validate(listMessagesValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const scope = getScope(req.query);
+    await resolveScope(companyId, scope);
+
+    const messages = await customerMessageService.findAll(companyId, scope);
+    res.json({ success: true, data: messages });
+  })
+);
+
+// GET /api/messages/conversations - Latest message from each customer, with unread counts
+router.get(
+  "/conversations",
+  asyncHandler(async (req: Request, res: Response) => {
+    const conversations = await customerMessageService.getConversations(req.companyId!);
+    res.json({ success: true, data: conversations });
+  })
+);
+
+// GET /api/messages/unread-count - Count unread replies for the company, a customer or a ticket
+router.get(
+  "/unread-count",
+  validate(unreadCountValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const count = await customerMessageService.countUnread(req.companyId!, getScope(req.query));
+    res.json({ success: true, data: { count } });
+  })
+);
+
+// POST /api/messages - Email or text a customer
+router.post(
+  "/",
+  validate(sendMessageValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { channel, subject, body } = req.body;
+    const { customer, ticket } = await resolveScope(companyId, getScope(req.body));
+
+    const message =
+      channel === "sms"
+        ? await smsService.sendCustomerMessage(companyId, customer, body, {
+            ticketId: ticket?.id,
+            sentBy: req.user!.id,
+          })
+        : await emailService.sendCustomerMessage(
+            companyId,
+            customer,
+            { subject, body },
+            { ticket, sentBy: req.user!.id }
+          );
+
+    res.status(201).json({ success: true, data: message });
+  })
+);
+
+// POST /api/messages/read - Mark a customer's or ticket's unread replies as read
+router.post(
+  "/read",
+  validate(markMessagesReadValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const scope = getScope(req.body);
+    await resolveScope(companyId, scope);
+
+    const updated = await customerMessageService.markRead(companyId, scope);
+    res.json({ success: true, data: { updated } });
+  })
+);
+
+export default router;
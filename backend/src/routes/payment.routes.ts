@@ -135,8 +135,11 @@ router.post(
     // Get currency from company settings
     const currency = await paymentService.getCurrency(companyId);
 
-    // Use provided amount or invoice total
-    const paymentAmount = amount || invoice.totalAmount;
+    // Use provided amount or what's left to pay
+    const paymentAmount = amount || invoice.balanceDue;
+    if (paymentAmount > invoice.balanceDue) {
+      throw new BadRequestError(`Amount exceeds the balance due of ${invoice.balanceDue.toFixed(2)}`);
+    }
 
     // Validate customerId is present
     if (!invoice.customerId) {
@@ -159,14 +162,16 @@ router.post(
         },
       });
 
-      // Mark invoice as paid
+      // Record the payment; the invoice is paid once the balance is covered
       await invoiceService.markInvoiceAsPaid(
         invoiceId,
         {
           paymentMethod: result.paymentMethod,
+          amount: paymentAmount,
           paymentReference: result.transactionId,
         },
-        companyId
+        companyId,
+        req.user?.id || null
       );
 
       res.json({
@@ -274,8 +279,11 @@ router.post(
     // Get currency from company settings
     const currency = await paymentService.getCurrency(companyId);
 
-    // Use provided amount or invoice total
-    const checkoutAmount = amount || invoice.totalAmount;
+    // Use provided amount or what's left to pay
+    const checkoutAmount = amount || invoice.balanceDue;
+    if (checkoutAmount > invoice.balanceDue) {
+      throw new BadRequestError(`Amount exceeds the balance due of ${invoice.balanceDue.toFixed(2)}`);
+    }
 
     // Validate customerId is present
     if (!invoice.customerId) {
@@ -376,6 +384,8 @@ router.post(
       let invoiceId: string | undefined;
       let transactionId: string | undefined;
       let status: string | undefined;
+      // Amount charged, when the provider reports it (Square sends cents)
+      let amount: number | undefined;
 
       // Square webhook structure
       const data = req.body.data;
@@ -388,6 +398,9 @@ router.post(
           invoiceId = referenceId;
         }
         status = data.object.payment.status === 'COMPLETED' ? 'paid' : undefined;
+        if (typeof data.object.payment.amount_money?.amount === 'number') {
+          amount = data.object.payment.amount_money.amount / 100;
+        }
       }
 
       // Handle terminal checkout webhooks
@@ -402,6 +415,9 @@ router.post(
             invoiceId = referenceId;
           }
           status = 'paid';
+          if (typeof checkout.amount_money?.amount === 'number') {
+            amount = checkout.amount_money.amount / 100;
+          }
         }
       }
 
@@ -422,6 +438,7 @@ router.post(
               invoiceId,
               {
                 paymentMethod: provider,
+                amount,
                 paymentReference: transactionId,
               },
               invoiceRow.company_id as string
@@ -0,0 +1,80 @@
+import express, { Request, Response } from "express";
+import { portalLookupLimiter } from "../middlewares/rate-limit.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import estimateService from "../services/estimate.service.js";
+import portalService from "../services/portal.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  portalApproveEstimateValidation,
+  portalDeclineEstimateValidation,
+  portalLookupValidation,
+  portalPaymentValidation,
+  portalTokenValidation,
+} from "../validators/portal.validator.js";
+
+const router = express.Router();
+
+// Customer status portal - public endpoints, access is granted by a signed, expiring token
+
+// POST /api/portal/lookup - Find a ticket by ticket number plus phone or email
+router.post(
+  "/lookup",
+  portalLookupLimiter,
+  validate(portalLookupValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const token = await portalService.lookup(req.body.ticketNumber, req.body.contact);
+    res.json({ success: true, data: { token } });
+  })
+);
+
+// GET /api/portal/tickets/:token - Get the customer's view of a ticket
+router.get(
+  "/tickets/:token",
+  validate(portalTokenValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const ticket = await portalService.getTicket(req.params.token);
+    res.json({ success: true, data: ticket });
+  })
+);
+
+// POST /api/portal/tickets/:token/pay - Pay the ticket's invoice online
+router.post(
+  "/tickets/:token/pay",
+  validate([...portalTokenValidation, ...portalPaymentValidation]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const ticket = await portalService.payInvoice(req.params.token, req.body);
+    res.json({ success: true, data: ticket });
+  })
+);
+
+// GET /api/portal/estimates/:token - Get an estimate sent to the customer
+router.get(
+  "/estimates/:token",
+  validate(portalTokenValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const estimate = await estimateService.getForCustomer(req.params.token);
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// POST /api/portal/estimates/:token/approve - Customer approves the estimate
+router.post(
+  "/estimates/:token/approve",
+  validate([...portalTokenValidation, ...portalApproveEstimateValidation]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const estimate = await estimateService.approve(req.params.token, req.body.name);
+    res.json({ success: true, data: estimate });
+  })
+);
+
+// POST /api/portal/estimates/:token/decline - Customer declines the estimate
+router.post(
+  "/estimates/:token/decline",
+  validate([...portalTokenValidation, ...portalDeclineEstimateValidation]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const estimate = await estimateService.decline(req.params.token, req.body.reason);
+    res.json({ success: true, data: estimate });
+  })
+);
+
+export default router;
@@ -0,0 +1,149 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireLocationContext } from "../middlewares/location.middleware.js";
+import { requireRole } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import recurringInvoiceService from "../services/recurring-invoice.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  createRecurringInvoiceValidation,
+  listRecurringInvoicesValidation,
+  recurringInvoiceIdValidation,
+  saveRecurringInvoiceCardValidation,
+  updateRecurringInvoiceValidation,
+} from "../validators/recurring-invoice.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /recurring-invoices - List recurring invoice schedules
+router.get(
+  "/",
+  validate(listRecurringInvoicesValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const schedules = await recurringInvoiceService.findAll(companyId, {
+      customerId: req.query.customerId as string | undefined,
+    });
+    res.json({ success: true, data: schedules });
+  })
+);
+
+// GET /recurring-invoices/:id - Get a schedule with the invoices it has issued
+router.get(
+  "/:id",
+  validate(recurringInvoiceIdValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const schedule = await recurringInvoiceService.findById(id, companyId);
+    if (!schedule) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    const invoices = await recurringInvoiceService.findIssuedInvoices(id, companyId);
+    res.json({ success: true, data: { ...schedule, invoices } });
+  })
+);
+
+// POST /recurring-invoices - Create a recurring invoice schedule at the current location
+router.post(
+  "/",
+  requireLocationContext,
+  validate(createRecurringInvoiceValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const schedule = await recurringInvoiceService.create(
+      req.body,
+      companyId,
+      req.locationId!,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: schedule });
+  })
+);
+
+// PUT /recurring-invoices/:id - Update a schedule, pause or resume it
+router.put(
+  "/:id",
+  validate(updateRecurringInvoiceValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const schedule = await recurringInvoiceService.update(req.params.id, req.body, companyId);
+    if (!schedule) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    res.json({ success: true, data: schedule });
+  })
+);
+
+// DELETE /recurring-invoices/:id - Stop and remove a schedule
+router.delete(
+  "/:id",
+  validate(recurringInvoiceIdValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const deleted = await recurringInvoiceService.delete(req.params.id, companyId);
+    if (!deleted) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    res.json({ success: true, data: { message: "Recurring invoice deleted successfully" } });
+  })
+);
+
+// POST /recurring-invoices/:id/issue - Issue the next invoice now
+router.post(
+  "/:id/issue",
+  validate(recurringInvoiceIdValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const invoice = await recurringInvoiceService.issueNow(req.params.id, companyId);
+    res.status(201).json({ success: true, data: invoice });
+  })
+);
+
+// POST /recurring-invoices/:id/card - Save the customer's card and turn on autopay
+router.post(
+  "/:id/card",
+  validate(saveRecurringInvoiceCardValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const schedule = await recurringInvoiceService.saveCard(
+      req.params.id,
+      req.body.sourceId,
+      companyId
+    );
+    if (!schedule) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    res.json({ success: true, data: schedule });
+  })
+);
+
+// DELETE /recurring-invoices/:id/card - Remove the saved card and turn off autopay
+router.delete(
+  "/:id/card",
+  validate(recurringInvoiceIdValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const schedule = await recurringInvoiceService.removeCard(req.params.id, companyId);
+    if (!schedule) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    res.json({ success: true, data: schedule });
+  })
+);
+
+export default router;
@@ -178,4 +178,27 @@ router.get(
   })
 );
 
+// GET /reporting/warranty-returns - Get warranty return rates by technician and part supplier
+router.get(
+  "/warranty-returns",
+  requireLocationContext,
+  validate(reportDateRangeValidation),
+  requireRole(["admin", "manager"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const locationId = req.locationId; // May be undefined for superusers impersonating
+    const startDate = req.query.startDate as string | undefined;
+    const endDate = req.query.endDate as string | undefined;
+
+    const data = await reportingService.getWarrantyReturnRates(
+      companyId,
+      locationId || undefined,
+      startDate,
+      endDate
+    );
+
+    res.json({ success: true, data });
+  })
+);
+
 export default router;
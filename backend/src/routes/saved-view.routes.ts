@@ -0,0 +1,139 @@
+import express, { Request, Response } from "express";
+import { NotFoundError } from "../config/errors.js";
+import { SavedViewResource } from "../config/types.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import savedViewService from "../services/saved-view.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { getUserRoles } from "../utils/user.utils.js";
+import {
+  createSavedViewValidation,
+  listSavedViewsValidation,
+  updateSavedViewValidation,
+} from "../validators/saved-view.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// Admins and managers can share views with the company and edit shared ones
+function canShare(req: Request): boolean {
+  const user = req.user!;
+  return (
+    user.role === "superuser" ||
+    getUserRoles(user).some((role) => role === "admin" || role === "manager")
+  );
+}
+
+// GET /api/saved-views - The user's views and the company's shared ones (pinned=true for the sidebar)
+router.get(
+  "/",
+  validate(listSavedViewsValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const views = await savedViewService.findAll(req.companyId!, req.user!.id, {
+      resource: req.query.resource as SavedViewResource | undefined,
+      pinned: req.query.pinned === "true",
+    });
+    res.json({ success: true, data: views });
+  })
+);
+
+// GET /api/saved-views/:id - Get a saved view
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await savedViewService.findById(req.params.id, req.companyId!, req.user!.id);
+    if (!view) {
+      throw new NotFoundError("Saved view not found");
+    }
+    res.json({ success: true, data: view });
+  })
+);
+
+// POST /api/saved-views - Save a view
+router.post(
+  "/",
+  validate(createSavedViewValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await savedViewService.create(
+      req.body,
+      req.companyId!,
+      req.user!.id,
+      canShare(req)
+    );
+    res.status(201).json({ success: true, data: view });
+  })
+);
+
+// PUT /api/saved-views/:id - Rename a view or change its filter, sort or sharing
+router.put(
+  "/:id",
+  validate(updateSavedViewValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await savedViewService.update(
+      req.params.id,
+      req.body,
+      req.companyId!,
+      req.user!.id,
+      canShare(req)
+    );
+    if (!view) {
+      throw new NotFoundError("Saved view not found");
+    }
+    res.json({ success: true, data: view });
+  })
+);
+
+// DELETE /api/saved-views/:id - Delete a saved view
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const deleted = await savedViewService.delete(
+      req.params.id,
+      req.companyId!,
+      req.user!.id,
+      canShare(req)
+    );
+    if (!deleted) {
+      throw new NotFoundError("Saved view not found");
+    }
+    res.json({
+      success: true,
+      data: { message: "Saved view deleted successfully" },
+    });
+  })
+);
+
+// POST /api/saved-views/:id/pin - Pin a view to the user's sidebar
+router.post(
+  "/:id/pin",
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await savedViewService.setPinned(req.params.id, req.companyId!, req.user!.id, true);
+    if (!view) {
+      throw new NotFoundError("Saved view not found");
+    }
+    res.json({ success: true, data: view });
+  })
+);
+
+// DELETE /api/saved-views/:id/pin - Take a view off the user's sidebar
+router.delete(
+  "/:id/pin",
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await savedViewService.setPinned(
+      req.params.id,
+      req.companyId!,
+      req.user!.id,
+      false
+    );
+    if (!view) {
+      throw new NotFoundError("Saved view not found");
+    }
+    res.json({ success: true, data: view });
+  })
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import express, { Request, Response } from "express";
+import { SignatureKind } from "../config/types.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import signatureService from "../services/signature.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  saveSignatureTermsValidation,
+  signatureKindValidation,
+} from "../validators/signature.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/signature-terms - Get the current intake and pickup terms
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const terms = await signatureService.getTerms(companyId);
+    res.json({ success: true, data: terms });
+  })
+);
+
+// GET /api/signature-terms/:kind/history - Get every saved version of one kind of terms
+router.get(
+  "/:kind/history",
+  validate(signatureKindValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const history = await signatureService.getTermsHistory(
+      companyId,
+      req.params.kind as SignatureKind
+    );
+    res.json({ success: true, data: history });
+  })
+);
+
+// PUT /api/signature-terms/:kind - Save new terms text as the next version (admin only)
+router.put(
+  "/:kind",
+  validate(saveSignatureTermsValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const terms = await signatureService.saveTerms(
+      companyId,
+      req.params.kind as SignatureKind,
+      req.body.body,
+      req.user!.id
+    );
+    res.json({ success: true, data: terms });
+  })
+);
+
+export default router;
@@ -0,0 +1,38 @@
+import express, { Request, Response } from "express";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import slaService from "../services/sla.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { saveSlaPoliciesValidation } from "../validators/sla.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/sla-policies - Get the company's SLA policies (one per priority)
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const policies = await slaService.getPolicies(companyId);
+    res.json({ success: true, data: policies });
+  })
+);
+
+// PUT /api/sla-policies - Save SLA policies (admin only)
+router.put(
+  "/",
+  validate(saveSlaPoliciesValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const policies = await slaService.savePolicies(companyId, req.body.policies);
+    res.json({ success: true, data: policies });
+  })
+);
+
+export default router;
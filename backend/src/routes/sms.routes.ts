@@ -0,0 +1,70 @@
+import express, { Request, Response } from 'express';
+import { ForbiddenError, NotFoundError } from '../config/errors.js';
+import logger from '../config/logger.js';
+import { validate } from '../middlewares/validation.middleware.js';
+import smsService from '../integrations/sms/sms.service.js';
+import twilioAdapter from '../integrations/sms/twilio.adapter.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { verifyInboundSmsToken } from '../utils/auth.js';
+import { getRequestUrl } from '../utils/url.utils.js';
+import { inboundSmsValidation } from '../validators/integration.validator.js';
+
+const router = express.Router();
+
+// Providers post inbound messages as form fields
+router.use(express.urlencoded({ extended: false }));
+
+// POST /api/sms/inbound/:companyId/:token - Handle texts customers send to the shop's number
+// Called by the SMS provider, so it isn't authenticated; the token in the URL proves it came from our
+// setup, and Twilio requests must also carry a valid signature
+router.post(
+  '/inbound/:companyId/:token',
+  validate(inboundSmsValidation),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { companyId, token } = req.params;
+
+    if (!verifyInboundSmsToken(companyId, token)) {
+      logger.warn(`Rejected inbound SMS for company ${companyId} with an invalid token`);
+      throw new ForbiddenError('Invalid webhook token');
+    }
+
+    const config = await smsService.getSmsConfig(companyId);
+    if (!config || !config.enabled) {
+      throw new NotFoundError('SMS integration not configured');
+    }
+
+    if (
+      config.provider === 'twilio' &&
+      !twilioAdapter.isValidSignature(
+        config,
+        getRequestUrl(req),
+        req.body,
+        req.get('X-Twilio-Signature')
+      )
+    ) {
+      logger.warn(`Rejected inbound SMS for company ${companyId} with an invalid signature`);
+      throw new ForbiddenError('Invalid webhook signature');
+    }
+
+    const inbound = smsService.getAdapter(config).parseInbound(req.body);
+    if (!inbound) {
+      res.status(400).json({
+        success: false,
+        error: { message: 'Unrecognized inbound message' },
+      });
+      return;
+    }
+
+    const result = await smsService.handleInboundSms(companyId, inbound);
+
+    if (config.provider === 'twilio') {
+      // Empty TwiML: acknowledge without replying; Twilio sends its own STOP/START confirmations
+      res.type('text/xml').send('<Response></Response>');
+      return;
+    }
+
+    res.json({ success: true, data: result });
+  })
+);
+
+export default router;
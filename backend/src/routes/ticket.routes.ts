@@ -3,17 +3,34 @@ import {
     NotFoundError,
     BadRequestError,
 } from "../config/errors.js";
-import { TicketStatus } from "../config/types.js";
+import { TicketCommentVisibility, TicketStatus } from "../config/types.js";
+import emailService from "../integrations/email/email.service.js";
 import { validateRequest } from "../middlewares/auth.middleware.js";
 import { requireLocationContext } from "../middlewares/location.middleware.js";
-import { requireAdmin, requireRole } from "../middlewares/rbac.middleware.js";
+import { requireAdmin, requirePermission, requireRole } from "../middlewares/rbac.middleware.js";
 import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { uploadFiles } from "../middlewares/upload.middleware.js";
 import { validate } from "../middlewares/validation.middleware.js";
+import attachmentService from "../services/attachment.service.js";
+import partReservationService from "../services/part-reservation.service.js";
+import signatureService from "../services/signature.service.js";
+import ticketBulkService from "../services/ticket-bulk.service.js";
+import ticketDocumentService, {
+  LabelDpi,
+  LabelSize,
+  TicketDocument,
+} from "../services/ticket-document.service.js";
 import ticketService from "../services/ticket.service.js";
+import timeEntryService, { TimeEntryActor } from "../services/time-entry.service.js";
+import ticketEventService from "../services/ticket-event.service.js";
+import ticketCommentService from "../services/ticket-comment.service.js";
 import customerService from "../services/customer.service.js";
 import userService from "../services/user.service.js";
+import workflowService from "../services/workflow.service.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
-import { formatUserForResponse } from "../utils/user.utils.js";
+import { getUploadedFiles, sendAttachmentContent } from "../utils/attachment.utils.js";
+import { getListOptions } from "../utils/pagination.utils.js";
+import { formatUserForResponse, getUserRoles } from "../utils/user.utils.js";
 import {
     createTicketValidation,
     updateTicketValidation,
@@ -21,18 +38,50 @@ import {
     updateStatusValidation,
     addDiagnosticNotesValidation,
     addRepairNotesValidation,
+    createTicketCommentValidation,
+    updateTicketCommentValidation,
+    ticketLabelValidation,
+    bulkTicketValidation,
+    bulkTicketIdsValidation,
+    bulkTicketLabelValidation,
 } from "../validators/ticket.validator.js";
+import {
+  reservePartValidation,
+  updatePartReservationValidation,
+} from "../validators/part-reservation.validator.js";
+import { listQueryValidation } from "../validators/list.validator.js";
+import { captureSignatureValidation } from "../validators/signature.validator.js";
+import {
+  logTimeEntryValidation,
+  startTimerValidation,
+  updateTimeEntryValidation,
+} from "../validators/time-entry.validator.js";
+import { STATUS_KEY_PATTERN } from "../validators/workflow.validator.js";
 
 const router = express.Router();
 
+// Admins and managers can edit or delete anyone's comments and time entries
+function canManageOthers(req: Request): boolean {
+  const user = req.user!;
+  return (
+    user.role === "superuser" ||
+    getUserRoles(user).some((role) => role === "admin" || role === "manager")
+  );
+}
+
+function getTimeEntryActor(req: Request): TimeEntryActor {
+  return { id: req.user!.id, canManageOthers: canManageOthers(req) };
+}
+
 // All routes require authentication and tenant context
 router.use(validateRequest);
 router.use(requireTenantContext);
 
-// GET /ticket - List all tickets (with optional filters)
+// GET /ticket - List all tickets (with optional filters, a filter expression, sorting and paging)
 router.get(
   "/",
   requireLocationContext,
+  validate(listQueryValidation),
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const locationId = req.locationId; // May be undefined for superusers impersonating
@@ -41,29 +90,30 @@ router.get(
     let status: TicketStatus | TicketStatus[] | undefined;
 
     // Handle multiple statuses (can be array or comma-separated string)
+    // Any well-formed key is accepted since companies can define custom statuses
     if (statusParam) {
-      if (Array.isArray(statusParam)) {
-        status = statusParam.filter((s): s is TicketStatus =>
-          ["new", "assigned", "in_progress", "on_hold", "completed", "cancelled"].includes(s as string)
-        ) as TicketStatus[];
-      } else if (typeof statusParam === "string") {
-        const statuses = statusParam.split(",").map(s => s.trim()).filter(s => s);
-        if (statuses.length === 1) {
-          status = statuses[0] as TicketStatus;
-        } else if (statuses.length > 1) {
-          status = statuses.filter((s): s is TicketStatus =>
-            ["new", "assigned", "in_progress", "on_hold", "completed", "cancelled"].includes(s)
-          ) as TicketStatus[];
-        }
+      const statuses = (Array.isArray(statusParam) ? statusParam : [statusParam])
+        .flatMap((s) => String(s).split(","))
+        .map((s) => s.trim())
+        .filter((s) => STATUS_KEY_PATTERN.test(s));
+      if (statuses.length === 1) {
+        status = statuses[0];
+      } else if (statuses.length > 1) {
+        status = statuses;
       }
     }
 
-    const tickets = await ticketService.findAll(
-      companyId,
+    // slaBreached=true limits the list to tickets that have missed an SLA target
+    const slaBreached = req.query.slaBreached === "true";
+
+    const { data: tickets, nextCursor } = await ticketService.findPage(companyId, {
+      ...getListOptions(req.query),
       customerId,
       status,
-      locationId || undefined
-    );
+      locationId: locationId || undefined,
+      slaBreached,
+      userId: req.user!.id,
+    });
 
     // Populate customer and technician data for each ticket
     const ticketsWithRelations = await Promise.all(
@@ -99,7 +149,7 @@ router.get(
       })
     );
 
-    res.json({ success: true, data: ticketsWithRelations });
+    res.json({ success: true, data: ticketsWithRelations, pagination: { nextCursor } });
   })
 );
 
@@ -149,6 +199,406 @@ router.get(
   })
 );
 
+// GET /ticket/:id/timeline - Get the change history for a ticket
+router.get(
+  "/:id/timeline",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const events = await ticketEventService.findByTicketId(id, companyId);
+    res.json({ success: true, data: events });
+  })
+);
+
+// GET /ticket/:id/comments - Get comment threads for a ticket
+router.get(
+  "/:id/comments",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const visibility = req.query.visibility as string | undefined;
+    if (visibility && !["internal", "customer"].includes(visibility)) {
+      throw new BadRequestError("Visibility must be one of: internal, customer");
+    }
+
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const comments = await ticketCommentService.findByTicketId(
+      id,
+      companyId,
+      visibility as TicketCommentVisibility | undefined
+    );
+    res.json({ success: true, data: comments });
+  })
+);
+
+// POST /ticket/:id/comments - Add a comment or reply to a ticket
+router.post(
+  "/:id/comments",
+  requireLocationContext,
+  validate(createTicketCommentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const { body, visibility, parentId, notifyCustomer } = req.body;
+
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const comment = await ticketCommentService.create(id, companyId, req.user!.id, {
+      body,
+      visibility,
+      parentId,
+    });
+
+    // Optionally email the customer right away instead of waiting for the next status change
+    if (notifyCustomer && comment.visibility === "customer") {
+      const customer = await customerService.findById(ticket.customerId, companyId);
+      if (customer) {
+        await emailService.sendTicketStatusEmail(companyId, ticket, customer, [comment]);
+      }
+    }
+
+    res.status(201).json({ success: true, data: comment });
+  })
+);
+
+// PUT /ticket/:id/comments/:commentId - Edit a comment
+router.put(
+  "/:id/comments/:commentId",
+  requireLocationContext,
+  validate(updateTicketCommentValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, commentId } = req.params;
+    const { body, visibility } = req.body;
+
+    const comment = await ticketCommentService.update(
+      commentId,
+      id,
+      companyId,
+      req.user!.id,
+      { body, visibility },
+      canManageOthers(req)
+    );
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    res.json({ success: true, data: comment });
+  })
+);
+
+// GET /ticket/:id/comments/:commentId/history - Get the edit history of a comment
+router.get(
+  "/:id/comments/:commentId/history",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, commentId } = req.params;
+
+    const comment = await ticketCommentService.findById(commentId, id, companyId);
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    const revisions = await ticketCommentService.getRevisions(commentId, companyId);
+    res.json({ success: true, data: revisions });
+  })
+);
+
+// DELETE /ticket/:id/comments/:commentId - Delete a comment (soft delete)
+router.delete(
+  "/:id/comments/:commentId",
+  requireLocationContext,
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, commentId } = req.params;
+
+    const deleted = await ticketCommentService.delete(
+      commentId,
+      id,
+      companyId,
+      req.user!.id,
+      canManageOthers(req)
+    );
+    if (!deleted) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    res.json({
+      success: true,
+      data: { message: "Comment deleted successfully" },
+    });
+  })
+);
+
+// GET /ticket/:id/attachments - List attachments
+router.get(
+  "/:id/attachments",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const attachments = await attachmentService.findByOwner({ type: "ticket", id }, companyId);
+    res.json({ success: true, data: attachments });
+  })
+);
+
+// POST /ticket/:id/attachments - Upload photos or documents (multipart field "files")
+router.post(
+  "/:id/attachments",
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  uploadFiles("files"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const attachments = await attachmentService.upload(
+      { type: "ticket", id },
+      getUploadedFiles(req),
+      companyId,
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: attachments });
+  })
+);
+
+// GET /ticket/:id/attachments/:attachmentId/download - Download the original file
+router.get(
+  "/:id/attachments/:attachmentId/download",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const attachment = await attachmentService.findById(attachmentId, { type: "ticket", id }, companyId);
+    if (!attachment) {
+      throw new NotFoundError("Attachment not found");
+    }
+    const content = await attachmentService.getContent(attachment);
+    sendAttachmentContent(res, attachment, content);
+  })
+);
+
+// GET /ticket/:id/attachments/:attachmentId/thumbnail - Download the image thumbnail
+router.get(
+  "/:id/attachments/:attachmentId/thumbnail",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const attachment = await attachmentService.findById(attachmentId, { type: "ticket", id }, companyId);
+    if (!attachment) {
+      throw new NotFoundError("Attachment not found");
+    }
+    const content = await attachmentService.getContent(attachment, true);
+    sendAttachmentContent(res, attachment, content, true);
+  })
+);
+
+// DELETE /ticket/:id/attachments/:attachmentId - Delete an attachment
+router.delete(
+  "/:id/attachments/:attachmentId",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, attachmentId } = req.params;
+    const deleted = await attachmentService.delete(attachmentId, { type: "ticket", id }, companyId);
+    if (!deleted) {
+      throw new NotFoundError("Attachment not found");
+    }
+    res.json({
+      success: true,
+      data: { message: "Attachment deleted successfully" },
+    });
+  })
+);
+
+// GET /ticket/:id/parts - List parts reserved for the ticket, with any shortages
+router.get(
+  "/:id/parts",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const reservations = await partReservationService.findByTicketId(id, companyId);
+    res.json({ success: true, data: reservations });
+  })
+);
+
+// POST /ticket/:id/parts - Reserve a part from the ticket's location
+router.post(
+  "/:id/parts",
+  validate(reservePartValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const { inventoryItemId, quantity } = req.body;
+    const reservation = await partReservationService.reserve(id, companyId, req.user!.id, {
+      inventoryItemId,
+      quantity,
+    });
+    res.status(201).json({ success: true, data: reservation });
+  })
+);
+
+// PUT /ticket/:id/parts/:reservationId - Change the quantity needed (also refills shortages)
+router.put(
+  "/:id/parts/:reservationId",
+  validate(updatePartReservationValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, reservationId } = req.params;
+    const reservation = await partReservationService.updateQuantity(
+      reservationId,
+      id,
+      companyId,
+      req.body.quantity
+    );
+    res.json({ success: true, data: reservation });
+  })
+);
+
+// DELETE /ticket/:id/parts/:reservationId - Release a reserved part back to stock
+router.delete(
+  "/:id/parts/:reservationId",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, reservationId } = req.params;
+    const reservation = await partReservationService.release(reservationId, id, companyId);
+    res.json({ success: true, data: reservation });
+  })
+);
+
+// GET /ticket/:id/time-entries - List logged time with billed and unbilled totals
+router.get(
+  "/:id/time-entries",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const summary = await timeEntryService.findByTicketId(id, companyId);
+    res.json({ success: true, data: summary });
+  })
+);
+
+// POST /ticket/:id/time-entries/start - Start a timer for the current user
+router.post(
+  "/:id/time-entries/start",
+  validate(startTimerValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const { laborCategoryId, notes } = req.body;
+    const entry = await timeEntryService.startTimer(id, companyId, req.user!.id, {
+      laborCategoryId,
+      notes,
+    });
+    res.status(201).json({ success: true, data: entry });
+  })
+);
+
+// POST /ticket/:id/time-entries/:entryId/stop - Stop a running timer
+router.post(
+  "/:id/time-entries/:entryId/stop",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, entryId } = req.params;
+    const entry = await timeEntryService.stopTimer(entryId, id, companyId, getTimeEntryActor(req));
+    res.json({ success: true, data: entry });
+  })
+);
+
+// POST /ticket/:id/time-entries - Log time manually
+router.post(
+  "/:id/time-entries",
+  validate(logTimeEntryValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const { userId, laborCategoryId, startedAt, durationMinutes, notes } = req.body;
+    const entry = await timeEntryService.logEntry(
+      id,
+      companyId,
+      { userId, laborCategoryId, startedAt, durationMinutes, notes },
+      getTimeEntryActor(req)
+    );
+    res.status(201).json({ success: true, data: entry });
+  })
+);
+
+// PUT /ticket/:id/time-entries/:entryId - Edit an unbilled time entry
+router.put(
+  "/:id/time-entries/:entryId",
+  validate(updateTimeEntryValidation),
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, entryId } = req.params;
+    const { laborCategoryId, startedAt, durationMinutes, notes } = req.body;
+    const entry = await timeEntryService.updateEntry(
+      entryId,
+      id,
+      companyId,
+      { laborCategoryId, startedAt, durationMinutes, notes },
+      getTimeEntryActor(req)
+    );
+    res.json({ success: true, data: entry });
+  })
+);
+
+// DELETE /ticket/:id/time-entries/:entryId - Delete an unbilled time entry
+router.delete(
+  "/:id/time-entries/:entryId",
+  requireRole(["admin", "manager", "technician"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id, entryId } = req.params;
+    await timeEntryService.deleteEntry(entryId, id, companyId, getTimeEntryActor(req));
+    res.json({
+      success: true,
+      data: { message: "Time entry deleted successfully" },
+    });
+  })
+);
+
 // POST /ticket - Create new ticket
 router.post(
   "/",
@@ -158,11 +608,53 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const locationId = req.locationId!;
-    const ticket = await ticketService.create(req.body, companyId, locationId);
+    const ticket = await ticketService.create(req.body, companyId, locationId, req.user!.id);
     res.status(201).json({ success: true, data: ticket });
   })
 );
 
+// POST /ticket/bulk - Assign, change the status, priority or location of many tickets at once
+router.post(
+  "/bulk",
+  requireLocationContext,
+  validate(bulkTicketValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const summary = await ticketBulkService.apply(req.body, req.companyId!, req.user!);
+    res.json({ success: true, data: summary });
+  })
+);
+
+// POST /ticket/bulk/labels - Device tag labels for many tickets in one PDF or ZPL file
+router.post(
+  "/bulk/labels",
+  validate(bulkTicketLabelValidation),
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ticketIds, format, size, dpi } = req.body;
+    const document = await ticketDocumentService.renderDeviceLabels(ticketIds, req.companyId!, {
+      format: format === "zpl" ? "zpl" : "pdf",
+      size: size as LabelSize | undefined,
+      dpi: dpi as LabelDpi | undefined,
+    });
+    sendTicketDocument(res, document);
+  })
+);
+
+// POST /ticket/bulk/export - Selected tickets as a CSV download
+router.post(
+  "/bulk/export",
+  validate(bulkTicketIdsValidation),
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const document = await ticketDocumentService.renderTicketsCsv(
+      req.body.ticketIds,
+      req.companyId!
+    );
+    sendTicketDocument(res, document);
+  })
+);
+
 // PUT /ticket/:id - Update ticket
 router.put(
   "/:id",
@@ -172,7 +664,13 @@ router.put(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const ticket = await ticketService.update(id, req.body, companyId);
+    const ticket = await ticketService.update(
+      id,
+      req.body,
+      companyId,
+      req.user!.id,
+      getUserRoles(req.user!)
+    );
     if (!ticket) {
       throw new NotFoundError("Ticket not found");
     }
@@ -189,7 +687,7 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const { technicianId } = req.body;
+    const { technicianId, expectedTechnicianId } = req.body;
 
     // If technicianId is provided, validate it exists and is eligible to be assigned (technician, manager, or admin)
     if (technicianId) {
@@ -205,7 +703,13 @@ router.post(
       }
     }
 
-    const ticket = await ticketService.assignTechnician(id, technicianId || null, companyId);
+    const ticket = await ticketService.assignTechnician(
+      id,
+      technicianId || null,
+      companyId,
+      req.user!.id,
+      expectedTechnicianId
+    );
     if (!ticket) {
       throw new NotFoundError("Ticket not found");
     }
@@ -235,18 +739,123 @@ router.post(
   })
 );
 
+// GET /ticket/:id/signatures - Customer signatures captured at drop-off and pick-up
+router.get(
+  "/:id/signatures",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const signatures = await signatureService.findByTicketId(id, companyId);
+    res.json({ success: true, data: signatures });
+  })
+);
+
+// POST /ticket/:id/signatures - Capture the customer's signature against the current terms
+router.post(
+  "/:id/signatures",
+  validate(captureSignatureValidation),
+  requireRole(["admin", "manager", "technician", "frontdesk"]),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+    const { kind, signerName, signatureImage, termsVersion } = req.body;
+
+    const signature = await signatureService.capture(
+      id,
+      { kind, signerName, signatureImage, termsVersion },
+      companyId,
+      { ipAddress: req.ip || null, userAgent: req.get("user-agent") || null },
+      req.user!.id
+    );
+    res.status(201).json({ success: true, data: signature });
+  })
+);
+
+// PDFs open in the browser's print dialog; ZPL is downloaded and sent to the printer as-is
+function sendTicketDocument(res: Response, document: TicketDocument): void {
+  const disposition = document.contentType === "application/pdf" ? "inline" : "attachment";
+  res.setHeader("Content-Type", document.contentType);
+  res.setHeader("Content-Length", document.content.length);
+  res.setHeader("Content-Disposition", `${disposition}; filename="${document.fileName}"`);
+  res.setHeader("Cache-Control", "private, no-cache");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.send(document.content);
+}
+
+// GET /ticket/:id/receipt - Intake receipt PDF with terms and a QR code linking back to the ticket
+router.get(
+  "/:id/receipt",
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const document = await ticketDocumentService.renderIntakeReceipt(req.params.id, req.companyId!);
+    sendTicketDocument(res, document);
+  })
+);
+
+// GET /ticket/:id/label - Device tag label as PDF or ZPL for Zebra printers
+router.get(
+  "/:id/label",
+  validate(ticketLabelValidation),
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format, size, dpi } = req.query;
+    const document = await ticketDocumentService.renderDeviceLabel(req.params.id, req.companyId!, {
+      format: format === "zpl" ? "zpl" : "pdf",
+      size: size as LabelSize | undefined,
+      dpi: dpi ? (parseInt(dpi as string, 10) as LabelDpi) : undefined,
+    });
+    sendTicketDocument(res, document);
+  })
+);
+
+// GET /ticket/:id/transitions - Statuses the current user can move this ticket to
+router.get(
+  "/:id/transitions",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const { id } = req.params;
+
+    const ticket = await ticketService.findById(id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const transitions = await workflowService.getAvailableTransitions(
+      companyId,
+      ticket.status,
+      getUserRoles(req.user!)
+    );
+    res.json({ success: true, data: transitions });
+  })
+);
+
 // POST /ticket/:id/status - Update ticket status
+// Front desk staff can only make the status changes the company workflow grants them
 router.post(
   "/:id/status",
   requireLocationContext,
   validate(updateStatusValidation),
-  requireRole(["admin", "technician", "manager"]),
+  requireRole(["admin", "technician", "manager", "frontdesk"]),
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, expectedStatus } = req.body;
 
-    const ticket = await ticketService.updateStatus(id, status, companyId);
+    const ticket = await ticketService.updateStatus(
+      id,
+      status,
+      companyId,
+      req.user!.id,
+      getUserRoles(req.user!),
+      true,
+      expectedStatus
+    );
     if (!ticket) {
       throw new NotFoundError("Ticket not found");
     }
@@ -269,7 +878,7 @@ router.post(
     const { id } = req.params;
     const { notes } = req.body;
 
-    const ticket = await ticketService.addDiagnosticNotes(id, notes, companyId);
+    const ticket = await ticketService.addDiagnosticNotes(id, notes, companyId, req.user!.id);
     if (!ticket) {
       throw new NotFoundError("Ticket not found");
     }
@@ -292,7 +901,7 @@ router.post(
     const { id } = req.params;
     const { notes } = req.body;
 
-    const ticket = await ticketService.addRepairNotes(id, notes, companyId);
+    const ticket = await ticketService.addRepairNotes(id, notes, companyId, req.user!.id);
     if (!ticket) {
       throw new NotFoundError("Ticket not found");
     }
@@ -312,7 +921,7 @@ router.delete(
   asyncHandler(async (req: Request, res: Response) => {
     const companyId = req.companyId!;
     const { id } = req.params;
-    const deleted = await ticketService.delete(id, companyId);
+    const deleted = await ticketService.delete(id, companyId, req.user!.id);
     if (!deleted) {
       throw new NotFoundError("Ticket not found");
     }
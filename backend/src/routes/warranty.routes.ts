@@ -0,0 +1,56 @@
+import express, { Request, Response } from "express";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin, requirePermission } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import warrantyService from "../services/warranty.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  setWarrantySettingsValidation,
+  warrantyCoverageValidation,
+} from "../validators/warranty.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/warranty/settings - Get the default repair warranty
+router.get(
+  "/settings",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const settings = await warrantyService.getSettings(companyId);
+    res.json({ success: true, data: settings });
+  })
+);
+
+// PUT /api/warranty/settings - Set the default repair warranty (admin only)
+router.put(
+  "/settings",
+  validate(setWarrantySettingsValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const days = await warrantyService.setDefaultDays(
+      companyId,
+      req.body.defaultWarrantyDays ?? null
+    );
+    res.json({ success: true, data: { defaultWarrantyDays: days } });
+  })
+);
+
+// GET /api/warranty/coverage?customerId= - List a customer's repairs with their warranty status
+router.get(
+  "/coverage",
+  validate(warrantyCoverageValidation),
+  requirePermission("tickets.read"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const coverage = await warrantyService.findCoverage(req.query.customerId as string, companyId);
+    res.json({ success: true, data: coverage });
+  })
+);
+
+export default router;
@@ -0,0 +1,74 @@
+import express, { Request, Response } from "express";
+import {
+  MANAGED_WORKFLOW_STATUSES,
+  WORKFLOW_CONDITIONS,
+  WORKFLOW_ROLES,
+  WORKFLOW_STATUS_COLORS,
+} from "../config/workflow.js";
+import { validateRequest } from "../middlewares/auth.middleware.js";
+import { requireAdmin } from "../middlewares/rbac.middleware.js";
+import { requireTenantContext } from "../middlewares/tenant.middleware.js";
+import { validate } from "../middlewares/validation.middleware.js";
+import workflowService from "../services/workflow.service.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { saveWorkflowValidation } from "../validators/workflow.validator.js";
+
+const router = express.Router();
+
+// All routes require authentication and tenant context
+router.use(validateRequest);
+router.use(requireTenantContext);
+
+// GET /api/workflow - Get the company's ticket workflow
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const workflow = await workflowService.getWorkflow(companyId);
+    res.json({ success: true, data: workflow });
+  })
+);
+
+// GET /api/workflow/options - Colors, roles, conditions and managed statuses for the workflow editor
+router.get(
+  "/options",
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        colors: WORKFLOW_STATUS_COLORS,
+        roles: WORKFLOW_ROLES,
+        managedStatuses: MANAGED_WORKFLOW_STATUSES,
+        conditions: Object.entries(WORKFLOW_CONDITIONS).map(([key, description]) => ({
+          key,
+          description,
+        })),
+      },
+    });
+  })
+);
+
+// PUT /api/workflow - Replace the company's ticket workflow (admin only)
+router.put(
+  "/",
+  validate(saveWorkflowValidation),
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const workflow = await workflowService.saveWorkflow(companyId, req.body);
+    res.json({ success: true, data: workflow });
+  })
+);
+
+// DELETE /api/workflow - Go back to the default workflow (admin only)
+router.delete(
+  "/",
+  requireAdmin(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const companyId = req.companyId!;
+    const workflow = await workflowService.resetWorkflow(companyId);
+    res.json({ success: true, data: workflow });
+  })
+);
+
+export default router;
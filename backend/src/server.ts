@@ -5,6 +5,9 @@ import app from "./app.js";
 import { closeConnection, testConnection } from "./config/connection.js";
 import logger from "./config/logger.js";
 import billingScheduler from "./services/billing-scheduler.service.js";
+import emailRetryScheduler from "./services/email-retry-scheduler.service.js";
+import recurringInvoiceScheduler from "./services/recurring-invoice-scheduler.service.js";
+import slaScheduler from "./services/sla-scheduler.service.js";
 
 // Load environment variables
 // dotenv.config() looks for .env in the current working directory
@@ -52,6 +55,27 @@ async function startServer(): Promise<void> {
       } catch (error) {
         logger.error("Failed to start billing scheduler:", error);
       }
+
+      // Start SLA scheduler
+      try {
+        slaScheduler.start();
+      } catch (error) {
+        logger.error("Failed to start SLA scheduler:", error);
+      }
+
+      // Start email retry scheduler
+      try {
+        emailRetryScheduler.start();
+      } catch (error) {
+        logger.error("Failed to start email retry scheduler:", error);
+      }
+
+      // Start recurring invoice scheduler
+      try {
+        recurringInvoiceScheduler.start();
+      } catch (error) {
+        logger.error("Failed to start recurring invoice scheduler:", error);
+      }
     });
   } catch (error) {
     logger.error("Failed to start server:", error);
@@ -65,6 +89,9 @@ startServer();
 process.on("SIGINT", async () => {
   logger.info("SIGINT signal received: closing HTTP server");
   billingScheduler.stop();
+  slaScheduler.stop();
+  emailRetryScheduler.stop();
+  recurringInvoiceScheduler.stop();
   await closeConnection();
   process.exit(0);
 });
@@ -72,6 +99,9 @@ process.on("SIGINT", async () => {
 process.on("SIGTERM", async () => {
   logger.info("SIGTERM signal received: closing HTTP server");
   billingScheduler.stop();
+  slaScheduler.stop();
+  emailRetryScheduler.stop();
+  recurringInvoiceScheduler.stop();
   await closeConnection();
   process.exit(0);
 });
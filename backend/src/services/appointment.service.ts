@@ -0,0 +1,795 @@
+// src/services/appointment.service.ts
+import { Kysely, sql, Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, ConflictError, NotFoundError } from "../config/errors.js";
+import {
+  AppointmentSource,
+  AppointmentStatus,
+  AppointmentType,
+  Database,
+} from "../config/types.js";
+import {
+  addDays,
+  addMonths,
+  formatZoned,
+  toZonedDate,
+  toZonedTime,
+  zonedTimeToUtc,
+} from "../utils/schedule.utils.js";
+import customerService from "./customer.service.js";
+import ticketService, { Ticket } from "./ticket.service.js";
+import userService from "./user.service.js";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+// Input DTOs
+export interface AppointmentRecurrence {
+  frequency: RecurrenceFrequency;
+  // Repeat every N days, weeks or months
+  interval?: number;
+  // Appointments in the series, including the first
+  count: number;
+}
+
+interface AppointmentDetailsDto {
+  deviceType?: string | null;
+  deviceBrand?: string | null;
+  deviceModel?: string | null;
+  issueDescription?: string | null;
+  // Where an on-site visit takes place
+  address?: string | null;
+  notes?: string | null;
+}
+
+export interface CreateAppointmentDto extends AppointmentDetailsDto {
+  customerId: string;
+  technicianId?: string | null;
+  appointmentType?: AppointmentType;
+  startsAt: string;
+  endsAt: string;
+  recurrence?: AppointmentRecurrence;
+}
+
+export interface UpdateAppointmentDto extends AppointmentDetailsDto {
+  technicianId?: string | null;
+  appointmentType?: AppointmentType;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+// A booking made by the customer online, before they have a customer record
+export interface OnlineAppointmentDto extends AppointmentDetailsDto {
+  appointmentType?: AppointmentType;
+  startsAt: Date;
+  endsAt: Date;
+  technicianId: string | null;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+}
+
+// Fills in what the booking didn't say about the device before the ticket is opened
+export interface CheckInAppointmentDto {
+  assetId?: string | null;
+  deviceType?: string;
+  deviceBrand?: string | null;
+  deviceModel?: string | null;
+  issueDescription?: string;
+}
+
+export interface AppointmentFilters {
+  locationId?: string;
+  technicianId?: string;
+  customerId?: string;
+  // Appointments overlapping this window
+  start?: string;
+  end?: string;
+}
+
+// Output types
+export interface Appointment {
+  id: string;
+  locationId: string;
+  customerId: string | null;
+  // The customer's name, or the name given with an online booking
+  customerName: string;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  technicianId: string | null;
+  technicianName: string | null;
+  ticketId: string | null;
+  seriesId: string | null;
+  appointmentType: AppointmentType;
+  status: AppointmentStatus;
+  source: AppointmentSource;
+  startsAt: Date;
+  endsAt: Date;
+  deviceType: string | null;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  issueDescription: string | null;
+  address: string | null;
+  notes: string | null;
+  checkedInAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CheckedInAppointment {
+  appointment: Appointment;
+  ticket: Ticket;
+}
+
+// Appointments in these statuses take up the technician's time
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ["scheduled", "checked_in"];
+
+const MAX_APPOINTMENT_MS = 24 * 60 * 60 * 1000;
+
+const appointmentColumns = [
+  "appointments.id",
+  "appointments.location_id",
+  "appointments.customer_id",
+  "appointments.technician_id",
+  "appointments.ticket_id",
+  "appointments.series_id",
+  "appointments.appointment_type",
+  "appointments.status",
+  "appointments.source",
+  "appointments.starts_at",
+  "appointments.ends_at",
+  "appointments.contact_first_name",
+  "appointments.contact_last_name",
+  "appointments.contact_email",
+  "appointments.contact_phone",
+  "appointments.device_type",
+  "appointments.device_brand",
+  "appointments.device_model",
+  "appointments.issue_description",
+  "appointments.address",
+  "appointments.notes",
+  "appointments.checked_in_at",
+  "appointments.created_at",
+  "appointments.updated_at",
+  "customers.first_name as customer_first_name",
+  "customers.last_name as customer_last_name",
+  "customers.email as customer_email",
+  "customers.phone as customer_phone",
+  "users.first_name as technician_first_name",
+  "users.last_name as technician_last_name",
+] as const;
+
+function toAppointment(row: {
+  id: string;
+  location_id: string;
+  customer_id: string | null;
+  technician_id: string | null;
+  ticket_id: string | null;
+  series_id: string | null;
+  appointment_type: AppointmentType;
+  status: AppointmentStatus;
+  source: AppointmentSource;
+  starts_at: Date;
+  ends_at: Date;
+  contact_first_name: string | null;
+  contact_last_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  device_type: string | null;
+  device_brand: string | null;
+  device_model: string | null;
+  issue_description: string | null;
+  address: string | null;
+  notes: string | null;
+  checked_in_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  customer_first_name: string | null;
+  customer_last_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  technician_first_name: string | null;
+  technician_last_name: string | null;
+}): Appointment {
+  const firstName = row.customer_first_name ?? row.contact_first_name ?? "";
+  const lastName = row.customer_last_name ?? row.contact_last_name ?? "";
+
+  return {
+    id: row.id,
+    locationId: row.location_id,
+    customerId: row.customer_id,
+    customerName: `${firstName} ${lastName}`.trim(),
+    contactEmail: row.customer_email ?? row.contact_email,
+    contactPhone: row.customer_phone ?? row.contact_phone,
+    technicianId: row.technician_id,
+    technicianName: row.technician_first_name
+      ? `${row.technician_first_name} ${row.technician_last_name || ""}`.trim()
+      : null,
+    ticketId: row.ticket_id,
+    seriesId: row.series_id,
+    appointmentType: row.appointment_type,
+    status: row.status,
+    source: row.source,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    deviceType: row.device_type,
+    deviceBrand: row.device_brand,
+    deviceModel: row.device_model,
+    issueDescription: row.issue_description,
+    address: row.address,
+    notes: row.notes,
+    checkedInAt: row.checked_in_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Parse and check an appointment's start and end
+function toTimeRange(startsAt: string | Date, endsAt: string | Date): { startsAt: Date; endsAt: Date } {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  if (end.getTime() <= start.getTime()) {
+    throw new BadRequestError("An appointment must end after it starts");
+  }
+  if (end.getTime() - start.getTime() > MAX_APPOINTMENT_MS) {
+    throw new BadRequestError("An appointment cannot be longer than a day");
+  }
+  return { startsAt: start, endsAt: end };
+}
+
+/**
+ * Expand a repeating booking into its appointments
+ * Repeats keep the same wall-clock time at the location, so a 9am visit stays at 9am across
+ * daylight saving changes.
+ */
+function buildOccurrences(
+  startsAt: Date,
+  endsAt: Date,
+  timeZone: string,
+  recurrence?: AppointmentRecurrence
+): { startsAt: Date; endsAt: Date }[] {
+  if (!recurrence) {
+    return [{ startsAt, endsAt }];
+  }
+
+  const duration = endsAt.getTime() - startsAt.getTime();
+  const date = toZonedDate(startsAt, timeZone);
+  const time = toZonedTime(startsAt, timeZone);
+  const interval = recurrence.interval || 1;
+
+  const occurrences: { startsAt: Date; endsAt: Date }[] = [];
+  for (let i = 0; i < recurrence.count; i++) {
+    let day: string;
+    if (recurrence.frequency === "monthly") {
+      day = addMonths(date, i * interval);
+    } else {
+      day = addDays(date, i * interval * (recurrence.frequency === "weekly" ? 7 : 1));
+    }
+    const start = zonedTimeToUtc(day, time, timeZone);
+    occurrences.push({ startsAt: start, endsAt: new Date(start.getTime() + duration) });
+  }
+  return occurrences;
+}
+
+export class AppointmentService {
+  async findAll(companyId: string, filters: AppointmentFilters = {}): Promise<Appointment[]> {
+    let query = db
+      .selectFrom("appointments")
+      .leftJoin("customers", "customers.id", "appointments.customer_id")
+      .leftJoin("users", "users.id", "appointments.technician_id")
+      .select(appointmentColumns)
+      .where("appointments.company_id", "=", companyId);
+
+    if (filters.locationId) {
+      query = query.where("appointments.location_id", "=", filters.locationId);
+    }
+    if (filters.technicianId) {
+      query = query.where("appointments.technician_id", "=", filters.technicianId);
+    }
+    if (filters.customerId) {
+      query = query.where("appointments.customer_id", "=", filters.customerId);
+    }
+    if (filters.start) {
+      query = query.where("appointments.ends_at", ">", new Date(filters.start));
+    }
+    if (filters.end) {
+      query = query.where("appointments.starts_at", "<", new Date(filters.end));
+    }
+
+    const rows = await query.orderBy("appointments.starts_at", "asc").execute();
+    return rows.map(toAppointment);
+  }
+
+  async findById(id: string, companyId: string): Promise<Appointment | null> {
+    const row = await db
+      .selectFrom("appointments")
+      .leftJoin("customers", "customers.id", "appointments.customer_id")
+      .leftJoin("users", "users.id", "appointments.technician_id")
+      .select(appointmentColumns)
+      .where("appointments.id", "=", id)
+      .where("appointments.company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return row ? toAppointment(row) : null;
+  }
+
+  /**
+   * Book an appointment, or a repeating series of them
+   * Every appointment in a series is checked against the technician's schedule before any
+   * are booked.
+   */
+  async create(
+    data: CreateAppointmentDto,
+    companyId: string,
+    locationId: string,
+    actorId: string | null = null
+  ): Promise<Appointment[]> {
+    const location = await this.getLocation(locationId, companyId);
+
+    const customer = await customerService.findById(data.customerId, companyId);
+    if (!customer) {
+      throw new BadRequestError("Customer not found");
+    }
+
+    const technicianId = data.technicianId || null;
+    if (technicianId) {
+      await this.assertTechnician(technicianId, companyId);
+    }
+
+    const { startsAt, endsAt } = toTimeRange(data.startsAt, data.endsAt);
+    const occurrences = buildOccurrences(startsAt, endsAt, location.timezone, data.recurrence);
+
+    const seriesId = occurrences.length > 1 ? uuidv4() : null;
+    const ids = occurrences.map(() => uuidv4());
+    await db.transaction().execute(async (trx) => {
+      if (technicianId) {
+        await this.lockTechnician(trx, technicianId);
+        for (const occurrence of occurrences) {
+          await this.assertTechnicianFree(
+            trx,
+            companyId,
+            technicianId,
+            occurrence.startsAt,
+            occurrence.endsAt,
+            location.timezone
+          );
+        }
+      }
+
+      await trx
+        .insertInto("appointments")
+        .values(
+          occurrences.map((occurrence, i) => ({
+            id: ids[i],
+            company_id: companyId,
+            location_id: locationId,
+            customer_id: customer.id,
+            technician_id: technicianId,
+            series_id: seriesId,
+            appointment_type: data.appointmentType || "drop_off",
+            source: "staff" as const,
+            starts_at: occurrence.startsAt.toISOString(),
+            ends_at: occurrence.endsAt.toISOString(),
+            device_type: data.deviceType || null,
+            device_brand: data.deviceBrand || null,
+            device_model: data.deviceModel || null,
+            issue_description: data.issueDescription || null,
+            address: data.address || null,
+            notes: data.notes || null,
+            created_by: actorId,
+          }))
+        )
+        .execute();
+    });
+
+    const created = await this.findAll(companyId, { locationId });
+    return created.filter((appointment) => ids.includes(appointment.id));
+  }
+
+  /**
+   * Record a booking the customer made online
+   * The caller has already picked a free slot and technician.
+   */
+  async createOnline(
+    data: OnlineAppointmentDto,
+    companyId: string,
+    locationId: string
+  ): Promise<Appointment> {
+    const id = uuidv4();
+    await db.transaction().execute(async (trx) => {
+      // The slot was picked from a read moments ago; check it again under a lock so two
+      // customers booking at once can't both take it
+      if (data.technicianId) {
+        await this.lockTechnician(trx, data.technicianId);
+        if (await this.findClash(trx, companyId, data.technicianId, data.startsAt, data.endsAt)) {
+          throw new ConflictError("That time was just booked. Please choose another time.");
+        }
+      } else {
+        // Without technicians the location takes one booking at a time
+        await trx
+          .selectFrom("locations")
+          .select("id")
+          .where("id", "=", locationId)
+          .forUpdate()
+          .executeTakeFirst();
+        const taken = await trx
+          .selectFrom("appointments")
+          .select("id")
+          .where("company_id", "=", companyId)
+          .where("location_id", "=", locationId)
+          .where("status", "in", ACTIVE_APPOINTMENT_STATUSES)
+          .where("starts_at", "<", data.endsAt)
+          .where("ends_at", ">", data.startsAt)
+          .executeTakeFirst();
+        if (taken) {
+          throw new ConflictError("That time was just booked. Please choose another time.");
+        }
+      }
+
+      await trx
+        .insertInto("appointments")
+        .values({
+          id,
+          company_id: companyId,
+          location_id: locationId,
+          technician_id: data.technicianId,
+          appointment_type: data.appointmentType || "drop_off",
+          source: "online",
+          starts_at: data.startsAt.toISOString(),
+          ends_at: data.endsAt.toISOString(),
+          contact_first_name: data.firstName,
+          contact_last_name: data.lastName,
+          contact_email: data.email,
+          contact_phone: data.phone || null,
+          device_type: data.deviceType || null,
+          device_brand: data.deviceBrand || null,
+          device_model: data.deviceModel || null,
+          issue_description: data.issueDescription || null,
+          address: data.address || null,
+          notes: data.notes || null,
+        })
+        .execute();
+    });
+
+    return (await this.findById(id, companyId))!;
+  }
+
+  /**
+   * Reschedule, reassign or edit a scheduled appointment
+   */
+  async update(id: string, data: UpdateAppointmentDto, companyId: string): Promise<Appointment> {
+    const existing = await this.findScheduled(id, companyId);
+    const location = await this.getLocation(existing.locationId, companyId);
+
+    const technicianId =
+      data.technicianId !== undefined ? data.technicianId || null : existing.technicianId;
+    if (technicianId && technicianId !== existing.technicianId) {
+      await this.assertTechnician(technicianId, companyId);
+    }
+
+    const { startsAt, endsAt } = toTimeRange(
+      data.startsAt ?? existing.startsAt,
+      data.endsAt ?? existing.endsAt
+    );
+    const moved =
+      technicianId !== existing.technicianId ||
+      startsAt.getTime() !== existing.startsAt.getTime() ||
+      endsAt.getTime() !== existing.endsAt.getTime();
+    await db.transaction().execute(async (trx) => {
+      if (technicianId && moved) {
+        await this.lockTechnician(trx, technicianId);
+        await this.assertTechnicianFree(
+          trx,
+          companyId,
+          technicianId,
+          startsAt,
+          endsAt,
+          location.timezone,
+          id
+        );
+      }
+
+      let updateQuery = trx
+        .updateTable("appointments")
+        .set({
+          technician_id: technicianId,
+          starts_at: startsAt.toISOString(),
+          ends_at: endsAt.toISOString(),
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", id)
+        .where("company_id", "=", companyId);
+
+      if (data.appointmentType !== undefined) {
+        updateQuery = updateQuery.set({ appointment_type: data.appointmentType });
+      }
+      if (data.deviceType !== undefined) {
+        updateQuery = updateQuery.set({ device_type: data.deviceType || null });
+      }
+      if (data.deviceBrand !== undefined) {
+        updateQuery = updateQuery.set({ device_brand: data.deviceBrand || null });
+      }
+      if (data.deviceModel !== undefined) {
+        updateQuery = updateQuery.set({ device_model: data.deviceModel || null });
+      }
+      if (data.issueDescription !== undefined) {
+        updateQuery = updateQuery.set({ issue_description: data.issueDescription || null });
+      }
+      if (data.address !== undefined) {
+        updateQuery = updateQuery.set({ address: data.address || null });
+      }
+      if (data.notes !== undefined) {
+        updateQuery = updateQuery.set({ notes: data.notes || null });
+      }
+
+      await updateQuery.execute();
+    });
+
+    return (await this.findById(id, companyId))!;
+  }
+
+  /**
+   * Cancel an appointment, and optionally the rest of its series
+   */
+  async cancel(id: string, companyId: string, includeFollowing = false): Promise<Appointment> {
+    const existing = await this.findScheduled(id, companyId);
+
+    let query = db
+      .updateTable("appointments")
+      .set({ status: "cancelled", updated_at: sql`now()` })
+      .where("company_id", "=", companyId)
+      .where("status", "=", "scheduled");
+
+    if (includeFollowing && existing.seriesId) {
+      query = query
+        .where("series_id", "=", existing.seriesId)
+        .where("starts_at", ">=", existing.startsAt);
+    } else {
+      query = query.where("id", "=", id);
+    }
+
+    await query.execute();
+    return (await this.findById(id, companyId))!;
+  }
+
+  async markNoShow(id: string, companyId: string): Promise<Appointment> {
+    await this.findScheduled(id, companyId);
+
+    await db
+      .updateTable("appointments")
+      .set({ status: "no_show", updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return (await this.findById(id, companyId))!;
+  }
+
+  /**
+   * Check the customer in and open a ticket for the appointment
+   * Online bookings are matched to an existing customer by email, or a customer is created
+   * from the details they booked with.
+   */
+  async checkIn(
+    id: string,
+    data: CheckInAppointmentDto,
+    companyId: string,
+    actorId: string | null = null
+  ): Promise<CheckedInAppointment> {
+    const existing = await this.findScheduled(id, companyId);
+
+    const deviceType = data.deviceType || existing.deviceType;
+    if (!deviceType) {
+      throw new BadRequestError("Enter the device type to open a ticket");
+    }
+    const issueDescription = data.issueDescription || existing.issueDescription;
+    if (!issueDescription) {
+      throw new BadRequestError("Describe the issue to open a ticket");
+    }
+
+    const customerId = existing.customerId || (await this.findOrCreateCustomer(id, companyId));
+
+    // Claim the appointment first so two people checking it in don't open two tickets
+    const claimed = await db
+      .updateTable("appointments")
+      .set({ status: "checked_in", checked_in_at: sql`now()`, updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("status", "=", "scheduled")
+      .executeTakeFirst();
+    if (Number(claimed.numUpdatedRows) === 0) {
+      throw new ConflictError("This appointment has already been checked in");
+    }
+
+    let ticket: Ticket;
+    try {
+      ticket = await ticketService.create(
+        {
+          customerId,
+          assetId: data.assetId || null,
+          technicianId: existing.technicianId,
+          deviceType,
+          deviceBrand: data.deviceBrand ?? existing.deviceBrand,
+          deviceModel: data.deviceModel ?? existing.deviceModel,
+          issueDescription,
+        },
+        companyId,
+        existing.locationId,
+        actorId
+      );
+    } catch (error) {
+      await db
+        .updateTable("appointments")
+        .set({ status: "scheduled", checked_in_at: null, updated_at: sql`now()` })
+        .where("id", "=", id)
+        .where("company_id", "=", companyId)
+        .execute();
+      throw error;
+    }
+
+    await db
+      .updateTable("appointments")
+      .set({
+        customer_id: customerId,
+        ticket_id: ticket.id,
+        device_type: ticket.deviceType,
+        device_brand: ticket.deviceBrand,
+        device_model: ticket.deviceModel,
+        issue_description: ticket.issueDescription,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return { appointment: (await this.findById(id, companyId))!, ticket };
+  }
+
+  /**
+   * Find whether a technician is free for the whole of a time range
+   */
+  async isTechnicianFree(
+    companyId: string,
+    technicianId: string,
+    startsAt: Date,
+    endsAt: Date,
+    excludeId?: string
+  ): Promise<boolean> {
+    const clash = await this.findClash(db, companyId, technicianId, startsAt, endsAt, excludeId);
+    return !clash;
+  }
+
+  private async assertTechnicianFree(
+    trx: Transaction<Database>,
+    companyId: string,
+    technicianId: string,
+    startsAt: Date,
+    endsAt: Date,
+    timeZone: string,
+    excludeId?: string
+  ): Promise<void> {
+    const clash = await this.findClash(trx, companyId, technicianId, startsAt, endsAt, excludeId);
+    if (clash) {
+      const name = `${clash.first_name ?? ""} ${clash.last_name ?? ""}`.trim() || "The technician";
+      throw new ConflictError(
+        `${name} already has an appointment ${formatZoned(clash.starts_at, timeZone)} - ${toZonedTime(
+          clash.ends_at,
+          timeZone
+        )}`
+      );
+    }
+  }
+
+  // The first of the technician's appointments overlapping the range
+  private async findClash(
+    executor: Kysely<Database>,
+    companyId: string,
+    technicianId: string,
+    startsAt: Date,
+    endsAt: Date,
+    excludeId?: string
+  ) {
+    let query = executor
+      .selectFrom("appointments")
+      .leftJoin("users", "users.id", "appointments.technician_id")
+      .select([
+        "appointments.starts_at",
+        "appointments.ends_at",
+        "users.first_name",
+        "users.last_name",
+      ])
+      .where("appointments.company_id", "=", companyId)
+      .where("appointments.technician_id", "=", technicianId)
+      .where("appointments.status", "in", ACTIVE_APPOINTMENT_STATUSES)
+      .where("appointments.starts_at", "<", endsAt)
+      .where("appointments.ends_at", ">", startsAt);
+
+    if (excludeId) {
+      query = query.where("appointments.id", "!=", excludeId);
+    }
+
+    return query.orderBy("appointments.starts_at", "asc").executeTakeFirst();
+  }
+
+  // Hold the technician's row until the transaction ends, so bookings for them are checked one at a time
+  private async lockTechnician(trx: Transaction<Database>, technicianId: string): Promise<void> {
+    await trx
+      .selectFrom("users")
+      .select("id")
+      .where("id", "=", technicianId)
+      .forUpdate()
+      .executeTakeFirst();
+  }
+
+  private async assertTechnician(technicianId: string, companyId: string): Promise<void> {
+    const technicians = await userService.findTechnicians(companyId);
+    if (!technicians.some((technician) => technician.id === technicianId)) {
+      throw new BadRequestError("Technician not found");
+    }
+  }
+
+  private async getLocation(locationId: string, companyId: string) {
+    const location = await db
+      .selectFrom("locations")
+      .select(["id", "timezone"])
+      .where("id", "=", locationId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+    return location;
+  }
+
+  private async findScheduled(id: string, companyId: string): Promise<Appointment> {
+    const appointment = await this.findById(id, companyId);
+    if (!appointment) {
+      throw new NotFoundError("Appointment not found");
+    }
+    if (appointment.status !== "scheduled") {
+      throw new BadRequestError(
+        `This appointment is ${appointment.status.replace("_", " ")} and can no longer be changed`
+      );
+    }
+    return appointment;
+  }
+
+  private async findOrCreateCustomer(appointmentId: string, companyId: string): Promise<string> {
+    const contact = await db
+      .selectFrom("appointments")
+      .select(["contact_first_name", "contact_last_name", "contact_email", "contact_phone"])
+      .where("id", "=", appointmentId)
+      .where("company_id", "=", companyId)
+      .executeTakeFirstOrThrow();
+    if (!contact.contact_email) {
+      throw new BadRequestError("Choose a customer for this appointment before checking it in");
+    }
+
+    const existing = await db
+      .selectFrom("customers")
+      .select("id")
+      .where("company_id", "=", companyId)
+      .where(sql`LOWER(email)`, "=", contact.contact_email.toLowerCase())
+      .where("deleted_at", "is", null)
+      .orderBy("created_at", "asc")
+      .executeTakeFirst();
+    if (existing) {
+      return existing.id;
+    }
+
+    const customer = await customerService.create(
+      {
+        firstName: contact.contact_first_name || "",
+        lastName: contact.contact_last_name || "",
+        email: contact.contact_email,
+        phone: contact.contact_phone || undefined,
+      },
+      companyId
+    );
+    return customer.id;
+  }
+}
+
+export default new AppointmentService();
@@ -0,0 +1,281 @@
+// src/services/attachment.service.ts
+import { sql } from "kysely";
+import path from "path";
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import storageService from "../integrations/storage/storage.service.js";
+import companyService from "./company.service.js";
+
+const MB = 1024 * 1024;
+
+/**
+ * Largest single file accepted, in bytes (ATTACHMENT_MAX_FILE_MB, default 20)
+ */
+export const MAX_ATTACHMENT_SIZE_BYTES =
+  Number(process.env.ATTACHMENT_MAX_FILE_MB || 20) * MB;
+
+/**
+ * Storage allowance per company when none is set in company settings
+ * (ATTACHMENT_QUOTA_MB, default 1024)
+ */
+const DEFAULT_QUOTA_BYTES = Number(process.env.ATTACHMENT_QUOTA_MB || 1024) * MB;
+
+// Images get a thumbnail; PDFs are accepted for signed waivers and paperwork
+const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const ALLOWED_ATTACHMENT_CONTENT_TYPES = [...IMAGE_CONTENT_TYPES, "application/pdf"];
+
+const THUMBNAIL_SIZE = 320;
+
+export type AttachmentOwnerType = "ticket" | "asset";
+
+export interface AttachmentOwner {
+  type: AttachmentOwnerType;
+  id: string;
+}
+
+// Input DTOs
+export interface UploadAttachmentDto {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+// Output type - converts snake_case to camelCase
+export interface Attachment {
+  id: string;
+  ticketId: string | null;
+  assetId: string | null;
+  uploadedBy: string | null;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  hasThumbnail: boolean;
+  createdAt: Date;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+// Internal type that also carries the storage keys, which are never sent to clients
+export interface StoredAttachment extends Attachment {
+  storageKey: string;
+  thumbnailKey: string | null;
+}
+
+function toStoredAttachment(attachment: {
+  id: string;
+  ticket_id: string | null;
+  asset_id: string | null;
+  uploaded_by: string | null;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  created_at: Date;
+}): StoredAttachment {
+  return {
+    id: attachment.id,
+    ticketId: attachment.ticket_id,
+    assetId: attachment.asset_id,
+    uploadedBy: attachment.uploaded_by,
+    fileName: attachment.file_name,
+    contentType: attachment.content_type,
+    sizeBytes: attachment.size_bytes,
+    hasThumbnail: attachment.thumbnail_key !== null,
+    createdAt: attachment.created_at,
+    storageKey: attachment.storage_key,
+    thumbnailKey: attachment.thumbnail_key,
+  };
+}
+
+export function toAttachment(attachment: StoredAttachment): Attachment {
+  const { storageKey: _storageKey, thumbnailKey: _thumbnailKey, ...rest } = attachment;
+  return rest;
+}
+
+export class AttachmentService {
+  async findByOwner(owner: AttachmentOwner, companyId: string): Promise<Attachment[]> {
+    const attachments = await db
+      .selectFrom("attachments")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where(owner.type === "ticket" ? "ticket_id" : "asset_id", "=", owner.id)
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return attachments.map((attachment) => toAttachment(toStoredAttachment(attachment)));
+  }
+
+  async findById(
+    id: string,
+    owner: AttachmentOwner,
+    companyId: string
+  ): Promise<StoredAttachment | null> {
+    const attachment = await db
+      .selectFrom("attachments")
+      .selectAll()
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where(owner.type === "ticket" ? "ticket_id" : "asset_id", "=", owner.id)
+      .executeTakeFirst();
+
+    return attachment ? toStoredAttachment(attachment) : null;
+  }
+
+  /**
+   * Get how much attachment storage a company is using against its quota
+   * A company can be given a custom allowance via the attachmentQuotaMb setting
+   */
+  async getUsage(companyId: string): Promise<StorageUsage> {
+    const result = await db
+      .selectFrom("attachments")
+      .select(
+        sql<string>`COALESCE(SUM(size_bytes + thumbnail_size_bytes), 0)`.as("used_bytes")
+      )
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    const company = await companyService.findById(companyId);
+    const quotaMb = company?.settings?.attachmentQuotaMb;
+
+    return {
+      usedBytes: Number(result?.used_bytes || 0),
+      quotaBytes: typeof quotaMb === "number" ? quotaMb * MB : DEFAULT_QUOTA_BYTES,
+    };
+  }
+
+  /**
+   * Store uploaded files and record them against a ticket or asset
+   * The whole batch is rejected if it would take the company over its quota
+   */
+  async upload(
+    owner: AttachmentOwner,
+    files: UploadAttachmentDto[],
+    companyId: string,
+    uploadedBy: string
+  ): Promise<Attachment[]> {
+    if (files.length === 0) {
+      throw new BadRequestError("At least one file is required");
+    }
+
+    for (const file of files) {
+      if (!ALLOWED_ATTACHMENT_CONTENT_TYPES.includes(file.contentType)) {
+        throw new BadRequestError(
+          `File type ${file.contentType} is not allowed. Allowed types: ${ALLOWED_ATTACHMENT_CONTENT_TYPES.join(", ")}`
+        );
+      }
+    }
+
+    const usage = await this.getUsage(companyId);
+    const batchBytes = files.reduce((sum, file) => sum + file.data.length, 0);
+    if (usage.usedBytes + batchBytes > usage.quotaBytes) {
+      throw new BadRequestError(
+        `Storage quota exceeded. Using ${(usage.usedBytes / MB).toFixed(1)} MB of ${(usage.quotaBytes / MB).toFixed(0)} MB`
+      );
+    }
+
+    const attachments: Attachment[] = [];
+    for (const file of files) {
+      const id = uuidv4();
+      const prefix = `${companyId}/${owner.type}s/${owner.id}/${id}`;
+      const storageKey = `${prefix}/original${path.extname(file.fileName).toLowerCase()}`;
+
+      await storageService.put(storageKey, file.data, file.contentType);
+
+      let thumbnailKey: string | null = null;
+      let thumbnailSize = 0;
+      const thumbnail = await this.createThumbnail(file);
+      if (thumbnail) {
+        thumbnailKey = `${prefix}/thumbnail.webp`;
+        thumbnailSize = thumbnail.length;
+        await storageService.put(thumbnailKey, thumbnail, "image/webp");
+      }
+
+      const attachment = await db
+        .insertInto("attachments")
+        .values({
+          id,
+          company_id: companyId,
+          ticket_id: owner.type === "ticket" ? owner.id : null,
+          asset_id: owner.type === "asset" ? owner.id : null,
+          uploaded_by: uploadedBy,
+          file_name: path.basename(file.fileName).slice(0, 255),
+          content_type: file.contentType,
+          size_bytes: file.data.length,
+          storage_key: storageKey,
+          thumbnail_key: thumbnailKey,
+          thumbnail_size_bytes: thumbnailSize,
+          created_at: sql`now()`,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      attachments.push(toAttachment(toStoredAttachment(attachment)));
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Generate a small WebP preview for image uploads
+   * Returns null for non-images or images sharp cannot decode; the upload still succeeds
+   */
+  private async createThumbnail(file: UploadAttachmentDto): Promise<Buffer | null> {
+    if (!IMAGE_CONTENT_TYPES.includes(file.contentType)) {
+      return null;
+    }
+
+    try {
+      return await sharp(file.data)
+        .rotate() // Respect EXIF orientation from phone cameras
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 75 })
+        .toBuffer();
+    } catch (error) {
+      logger.warn(`Failed to generate thumbnail for ${file.fileName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Read the stored original file, or its thumbnail
+   */
+  async getContent(attachment: StoredAttachment, thumbnail = false): Promise<Buffer> {
+    if (thumbnail && !attachment.thumbnailKey) {
+      throw new BadRequestError("Attachment has no thumbnail");
+    }
+    return storageService.get(thumbnail ? attachment.thumbnailKey! : attachment.storageKey);
+  }
+
+  /**
+   * Remove an attachment and its stored files
+   * Attachments are hard deleted so the space is returned to the company quota
+   */
+  async delete(id: string, owner: AttachmentOwner, companyId: string): Promise<boolean> {
+    const attachment = await this.findById(id, owner, companyId);
+    if (!attachment) {
+      return false;
+    }
+
+    await db
+      .deleteFrom("attachments")
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    await storageService.delete(attachment.storageKey);
+    if (attachment.thumbnailKey) {
+      await storageService.delete(attachment.thumbnailKey);
+    }
+
+    return true;
+  }
+}
+
+export default new AttachmentService();
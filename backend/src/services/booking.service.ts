@@ -0,0 +1,279 @@
+// src/services/booking.service.ts
+import { db } from "../config/connection.js";
+import { BadRequestError, ConflictError, NotFoundError } from "../config/errors.js";
+import { AppointmentType, BusinessHours } from "../config/types.js";
+import { getOpeningHours, toZonedDate } from "../utils/schedule.utils.js";
+import appointmentService, { ACTIVE_APPOINTMENT_STATUSES } from "./appointment.service.js";
+
+// How far ahead customers can book online
+export const BOOKING_WINDOW_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Input DTOs
+export interface BookAppointmentDto {
+  startsAt: string;
+  appointmentType?: AppointmentType;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  deviceType?: string | null;
+  deviceBrand?: string | null;
+  deviceModel?: string | null;
+  issueDescription?: string | null;
+  address?: string | null;
+}
+
+// Output types
+export interface BookingLocation {
+  companyName: string;
+  locationName: string;
+  address: string | null;
+  phone: string | null;
+  timezone: string;
+  businessHours: BusinessHours | null;
+  slotMinutes: number;
+  bookingWindowDays: number;
+}
+
+export interface BookingSlot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// What the customer sees once booked - no technician or internal details
+export interface BookingConfirmation {
+  appointmentId: string;
+  locationName: string;
+  appointmentType: AppointmentType;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+type BookableLocation = Awaited<ReturnType<BookingService["findBookableLocation"]>>;
+
+/**
+ * Public self-booking for locations that take appointments online
+ * A slot is open while at least one of the location's technicians is free for it.
+ */
+export class BookingService {
+  async getLocation(locationId: string): Promise<BookingLocation> {
+    const location = await this.findBookableLocation(locationId);
+
+    return {
+      companyName: location.company_name,
+      locationName: location.name,
+      address: location.address,
+      phone: location.phone,
+      timezone: location.timezone,
+      businessHours: location.business_hours,
+      slotMinutes: location.booking_slot_minutes,
+      bookingWindowDays: BOOKING_WINDOW_DAYS,
+    };
+  }
+
+  /**
+   * Get the open slots on a date ("YYYY-MM-DD" in the location's time zone)
+   */
+  async getAvailableSlots(locationId: string, date: string): Promise<BookingSlot[]> {
+    const location = await this.findBookableLocation(locationId);
+    const hours = getOpeningHours(date, location.business_hours, location.timezone);
+    if (!hours) {
+      return [];
+    }
+
+    const now = Date.now();
+    const windowEnd = now + BOOKING_WINDOW_DAYS * DAY_MS;
+    const slotMs = location.booking_slot_minutes * MINUTE_MS;
+
+    const [technicianIds, booked] = await Promise.all([
+      this.getTechnicianIds(location),
+      this.getBookedTimes(location, hours.opensAt, hours.closesAt),
+    ]);
+
+    const slots: BookingSlot[] = [];
+    for (
+      let start = hours.opensAt.getTime();
+      start + slotMs <= hours.closesAt.getTime();
+      start += slotMs
+    ) {
+      if (start <= now || start > windowEnd) {
+        continue;
+      }
+      const end = start + slotMs;
+      if (this.pickTechnician(location.id, technicianIds, booked, start, end) !== undefined) {
+        slots.push({ startsAt: new Date(start), endsAt: new Date(end) });
+      }
+    }
+    return slots;
+  }
+
+  /**
+   * Book a slot for a customer and assign it to a free technician
+   */
+  async book(locationId: string, data: BookAppointmentDto): Promise<BookingConfirmation> {
+    const location = await this.findBookableLocation(locationId);
+    const slotMs = location.booking_slot_minutes * MINUTE_MS;
+    const startsAt = new Date(data.startsAt);
+    const endsAt = new Date(startsAt.getTime() + slotMs);
+
+    const now = Date.now();
+    if (startsAt.getTime() <= now) {
+      throw new BadRequestError("Choose a time in the future");
+    }
+    if (startsAt.getTime() > now + BOOKING_WINDOW_DAYS * DAY_MS) {
+      throw new BadRequestError(
+        `Appointments can only be booked up to ${BOOKING_WINDOW_DAYS} days ahead`
+      );
+    }
+
+    const hours = getOpeningHours(
+      toZonedDate(startsAt, location.timezone),
+      location.business_hours,
+      location.timezone
+    );
+    if (
+      !hours ||
+      startsAt < hours.opensAt ||
+      endsAt > hours.closesAt ||
+      (startsAt.getTime() - hours.opensAt.getTime()) % slotMs !== 0
+    ) {
+      throw new BadRequestError("That time is not available for booking");
+    }
+
+    const [technicianIds, booked] = await Promise.all([
+      this.getTechnicianIds(location),
+      this.getBookedTimes(location, startsAt, endsAt),
+    ]);
+    const technicianId = this.pickTechnician(
+      location.id,
+      technicianIds,
+      booked,
+      startsAt.getTime(),
+      endsAt.getTime()
+    );
+    if (technicianId === undefined) {
+      throw new ConflictError("That time was just booked. Please choose another time.");
+    }
+
+    const appointment = await appointmentService.createOnline(
+      {
+        appointmentType: data.appointmentType,
+        startsAt,
+        endsAt,
+        technicianId,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        email: data.email,
+        phone: data.phone,
+        deviceType: data.deviceType,
+        deviceBrand: data.deviceBrand,
+        deviceModel: data.deviceModel,
+        issueDescription: data.issueDescription,
+        address: data.address,
+      },
+      location.company_id,
+      location.id
+    );
+
+    return {
+      appointmentId: appointment.id,
+      locationName: location.name,
+      appointmentType: appointment.appointmentType,
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
+    };
+  }
+
+  private async findBookableLocation(locationId: string) {
+    const location = await db
+      .selectFrom("locations")
+      .innerJoin("companies", "companies.id", "locations.company_id")
+      .select([
+        "locations.id",
+        "locations.company_id",
+        "locations.name",
+        "locations.address",
+        "locations.phone",
+        "locations.timezone",
+        "locations.business_hours",
+        "locations.booking_slot_minutes",
+        "companies.name as company_name",
+      ])
+      .where("locations.id", "=", locationId)
+      .where("locations.booking_enabled", "=", true)
+      .where("locations.is_active", "=", true)
+      .where("locations.deleted_at", "is", null)
+      .where("companies.deleted_at", "is", null)
+      .executeTakeFirst();
+
+    if (!location) {
+      throw new NotFoundError("Online booking is not available for this location");
+    }
+    return location;
+  }
+
+  // Active technicians assigned to the location
+  private async getTechnicianIds(location: BookableLocation): Promise<string[]> {
+    const rows = await db
+      .selectFrom("user_locations")
+      .innerJoin("users", "users.id", "user_locations.user_id")
+      .innerJoin("user_roles", "user_roles.user_id", "users.id")
+      .select("users.id")
+      .distinct()
+      .where("user_locations.location_id", "=", location.id)
+      .where("user_roles.company_id", "=", location.company_id)
+      .where("user_roles.role", "=", "technician")
+      .where("users.active", "=", true)
+      .where("users.deleted_at", "is", null)
+      .orderBy("users.id")
+      .execute();
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Appointments taking up time in a range: every technician's (wherever they are booked)
+   * plus anything already booked at the location
+   */
+  private async getBookedTimes(location: BookableLocation, from: Date, to: Date) {
+    const rows = await db
+      .selectFrom("appointments")
+      .select(["technician_id", "location_id", "starts_at", "ends_at"])
+      .where("company_id", "=", location.company_id)
+      .where("status", "in", ACTIVE_APPOINTMENT_STATUSES)
+      .where("starts_at", "<", to)
+      .where("ends_at", ">", from)
+      .execute();
+    return rows.map((row) => ({
+      technicianId: row.technician_id,
+      locationId: row.location_id,
+      start: new Date(row.starts_at).getTime(),
+      end: new Date(row.ends_at).getTime(),
+    }));
+  }
+
+  /**
+   * Choose a technician free for the whole slot
+   * Returns undefined when the slot is taken; null when the location has no technicians and
+   * takes one booking at a time.
+   */
+  private pickTechnician(
+    locationId: string,
+    technicianIds: string[],
+    booked: { technicianId: string | null; locationId: string; start: number; end: number }[],
+    start: number,
+    end: number
+  ): string | null | undefined {
+    const overlapping = booked.filter((b) => b.start < end && b.end > start);
+
+    if (technicianIds.length === 0) {
+      return overlapping.some((b) => b.locationId === locationId) ? undefined : null;
+    }
+
+    return technicianIds.find((id) => !overlapping.some((b) => b.technicianId === id));
+  }
+}
+
+export default new BookingService();
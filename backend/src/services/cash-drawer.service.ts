@@ -315,7 +315,7 @@ export class CashDrawerService {
 
   /**
    * Calculate expected cash amount for a drawer session
-   * Expected = opening amount + cash sales - cash refunds
+   * Expected = opening amount + cash sales, deposits and gift card sales - cash refunds
    * @param sessionId - Session ID to calculate expected amount for
    * @param companyId - Company ID for multi-tenancy
    * @returns Expected cash amount
@@ -340,41 +340,86 @@ export class CashDrawerService {
 
     const openingAmount = Number(session.opening_amount);
 
-    // Calculate cash sales (invoices paid with cash during this session)
-    const cashSalesResult = await db
-      .selectFrom("invoices")
+    // Calculate cash sales (the cash portion of payments taken during this session, so split
+    // tenders and deposits only count what went into the drawer)
+    const cashSalesByInvoice = await db
+      .selectFrom("invoice_payments")
+      .innerJoin("invoices", "invoices.id", "invoice_payments.invoice_id")
       .select(({ fn }) => [
-        fn.sum<number>("total_amount").as("total"),
+        "invoice_payments.invoice_id",
+        fn.sum<number>("invoice_payments.amount").as("total"),
+      ])
+      .where("invoice_payments.company_id", "=", companyId)
+      .where("invoice_payments.cash_drawer_session_id", "=", sessionId)
+      .where("invoice_payments.payment_method", "=", "Cash")
+      .where("invoices.deleted_at", "is", null)
+      .groupBy("invoice_payments.invoice_id")
+      .execute();
+
+    const cashSales = cashSalesByInvoice.reduce(
+      (sum, invoice) => sum + Number(invoice.total),
+      0
+    );
+
+    // Calculate cash refunds (refunds paid out by hand on invoices that took cash during this
+    // session, up to the cash each took, since a split invoice's card share goes back to the card)
+    const manualRefunds = cashSalesByInvoice.length
+      ? await db
+          .selectFrom("credit_memos")
+          .select(({ fn }) => [
+            "invoice_id",
+            fn.sum<number>("amount").as("total"),
+          ])
+          .where("company_id", "=", companyId)
+          .where("refund_method", "=", "manual")
+          .where(
+            "invoice_id",
+            "in",
+            cashSalesByInvoice.map((invoice) => invoice.invoice_id)
+          )
+          .groupBy("invoice_id")
+          .execute()
+      : [];
+
+    const cashRefunds = manualRefunds.reduce((sum, refund) => {
+      const cashTaken = cashSalesByInvoice.find(
+        (invoice) => invoice.invoice_id === refund.invoice_id
+      );
+      return sum + Math.min(Number(refund.total), Number(cashTaken?.total || 0));
+    }, 0);
+
+    // Calculate cash deposits taken during this session, less what was handed back
+    const cashDepositsResult = await db
+      .selectFrom("customer_deposits")
+      .select(({ fn }) => [
+        fn.sum<number>("amount").as("total"),
+        fn.sum<number>("amount_refunded").as("refunded"),
       ])
       .where("company_id", "=", companyId)
       .where("cash_drawer_session_id", "=", sessionId)
       .where("payment_method", "=", "Cash")
-      .where("status", "=", "paid")
-      .where("deleted_at", "is", null)
       .executeTakeFirst();
 
-    const cashSales = cashSalesResult?.total
-      ? Number(cashSalesResult.total)
-      : 0;
+    const cashDeposits =
+      Number(cashDepositsResult?.total || 0) -
+      Number(cashDepositsResult?.refunded || 0);
 
-    // Calculate cash refunds (refunds for cash payments during this session)
-    const cashRefundsResult = await db
-      .selectFrom("invoices")
+    // Calculate gift cards sold for cash during this session
+    const giftCardSalesResult = await db
+      .selectFrom("gift_card_transactions")
       .select(({ fn }) => [
-        fn.sum<number>("refund_amount").as("total"),
+        fn.sum<number>("amount").as("total"),
       ])
       .where("company_id", "=", companyId)
       .where("cash_drawer_session_id", "=", sessionId)
+      .where("type", "=", "sale")
       .where("payment_method", "=", "Cash")
-      .where("refund_amount", ">", 0)
-      .where("deleted_at", "is", null)
       .executeTakeFirst();
 
-    const cashRefunds = cashRefundsResult?.total
-      ? Number(cashRefundsResult.total)
-      : 0;
+    const cashGiftCardSales = Number(giftCardSalesResult?.total || 0);
 
-    const expectedAmount = openingAmount + cashSales - cashRefunds;
+    const expectedAmount =
+      openingAmount + cashSales + cashDeposits + cashGiftCardSales - cashRefunds;
 
     return Math.round(expectedAmount * 100) / 100; // Round to 2 decimal places
   }
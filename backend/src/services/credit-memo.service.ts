@@ -0,0 +1,123 @@
+// src/services/credit-memo.service.ts
+import { Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { Database } from "../config/types.js";
+
+// A refund written up against an invoice, recorded inside the caller's transaction
+export interface CreateCreditMemoDto {
+  invoiceId: string;
+  customerId: string | null;
+  amount: number;
+  // How the money went back: store_credit, manual, or the payment provider
+  refundMethod: string;
+  reason?: string | null;
+  issuedBy?: string | null;
+}
+
+// Output type - converts snake_case to camelCase
+export interface CreditMemo {
+  id: string;
+  creditMemoNumber: string;
+  invoiceId: string;
+  customerId: string | null;
+  amount: number;
+  refundMethod: string;
+  reason: string | null;
+  issuedBy: string | null;
+  createdAt: Date;
+}
+
+function toCreditMemo(memo: {
+  id: string;
+  credit_memo_number: string;
+  invoice_id: string;
+  customer_id: string | null;
+  amount: number;
+  refund_method: string;
+  reason: string | null;
+  issued_by: string | null;
+  created_at: Date;
+}): CreditMemo {
+  return {
+    id: memo.id,
+    creditMemoNumber: memo.credit_memo_number,
+    invoiceId: memo.invoice_id,
+    customerId: memo.customer_id,
+    amount: Number(memo.amount),
+    refundMethod: memo.refund_method,
+    reason: memo.reason,
+    issuedBy: memo.issued_by,
+    createdAt: memo.created_at,
+  };
+}
+
+// Generate credit memo number (scoped to company), in the same shape as invoice numbers
+async function generateCreditMemoNumber(
+  trx: Transaction<Database>,
+  companyId: string
+): Promise<string> {
+  const prefix = "CM";
+  const year = new Date().getFullYear();
+  const month = (new Date().getMonth() + 1).toString().padStart(2, "0");
+  const timestamp = Date.now().toString().slice(-6);
+  const creditMemoNumber = `${prefix}-${year}${month}-${timestamp}`;
+
+  // Check if credit memo number exists for this company
+  const existing = await trx
+    .selectFrom("credit_memos")
+    .select("id")
+    .where("credit_memo_number", "=", creditMemoNumber)
+    .where("company_id", "=", companyId)
+    .executeTakeFirst();
+
+  if (existing) {
+    // Recursively generate new number if collision
+    return generateCreditMemoNumber(trx, companyId);
+  }
+
+  return creditMemoNumber;
+}
+
+export class CreditMemoService {
+  /**
+   * Get the credit memos issued against an invoice, oldest first
+   */
+  async findByInvoice(invoiceId: string, companyId: string): Promise<CreditMemo[]> {
+    const memos = await db
+      .selectFrom("credit_memos")
+      .selectAll()
+      .where("invoice_id", "=", invoiceId)
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return memos.map(toCreditMemo);
+  }
+
+  async create(
+    trx: Transaction<Database>,
+    companyId: string,
+    data: CreateCreditMemoDto
+  ): Promise<CreditMemo> {
+    const memo = await trx
+      .insertInto("credit_memos")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        credit_memo_number: await generateCreditMemoNumber(trx, companyId),
+        invoice_id: data.invoiceId,
+        customer_id: data.customerId,
+        amount: data.amount,
+        refund_method: data.refundMethod,
+        reason: data.reason || null,
+        issued_by: data.issuedBy || null,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toCreditMemo(memo);
+  }
+}
+
+export default new CreditMemoService();
@@ -0,0 +1,363 @@
+// src/services/customer-deposit.service.ts
+import { sql, SqlBool } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import paymentService from "../integrations/payment/payment.service.js";
+import cashDrawerService from "./cash-drawer.service.js";
+
+// Input DTOs
+export interface CreateCustomerDepositDto {
+  // Repair the deposit is for; it's applied to the ticket's invoice when that's created
+  ticketId?: string | null;
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string | null;
+  // Card nonce from the payment provider's SDK, to charge the deposit through the payment integration
+  sourceId?: string | null;
+  notes?: string | null;
+}
+
+export interface RefundCustomerDepositDto {
+  // Leave out to refund everything that's left
+  amount?: number;
+  reason?: string | null;
+}
+
+// Output type - converts snake_case to camelCase
+export interface CustomerDeposit {
+  id: string;
+  customerId: string;
+  ticketId: string | null;
+  locationId: string | null;
+  amount: number;
+  amountApplied: number;
+  amountRefunded: number;
+  // What's left to apply to invoices or refund
+  remainingAmount: number;
+  paymentMethod: string;
+  paymentReference: string | null;
+  isProviderPayment: boolean;
+  cashDrawerSessionId: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper function to convert DB row to CustomerDeposit
+function toCustomerDeposit(deposit: {
+  id: string;
+  customer_id: string;
+  ticket_id: string | null;
+  location_id: string | null;
+  amount: number;
+  amount_applied: number;
+  amount_refunded: number;
+  payment_method: string;
+  payment_reference: string | null;
+  is_provider_payment: boolean;
+  cash_drawer_session_id: string | null;
+  notes: string | null;
+  received_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}): CustomerDeposit {
+  const amount = Number(deposit.amount);
+  const amountApplied = Number(deposit.amount_applied);
+  const amountRefunded = Number(deposit.amount_refunded);
+  return {
+    id: deposit.id,
+    customerId: deposit.customer_id,
+    ticketId: deposit.ticket_id,
+    locationId: deposit.location_id,
+    amount,
+    amountApplied,
+    amountRefunded,
+    remainingAmount: Math.round((amount - amountApplied - amountRefunded) * 100) / 100,
+    paymentMethod: deposit.payment_method,
+    paymentReference: deposit.payment_reference,
+    isProviderPayment: deposit.is_provider_payment,
+    cashDrawerSessionId: deposit.cash_drawer_session_id,
+    notes: deposit.notes,
+    receivedBy: deposit.received_by,
+    createdAt: deposit.created_at,
+    updatedAt: deposit.updated_at,
+  };
+}
+
+export class CustomerDepositService {
+  private async assertCustomer(customerId: string, companyId: string): Promise<void> {
+    const customer = await db
+      .selectFrom("customers")
+      .select("id")
+      .where("id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+  }
+
+  /**
+   * Get a customer's deposits, newest first
+   */
+  async findByCustomer(customerId: string, companyId: string): Promise<CustomerDeposit[]> {
+    await this.assertCustomer(customerId, companyId);
+
+    const deposits = await db
+      .selectFrom("customer_deposits")
+      .selectAll()
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "desc")
+      .execute();
+
+    return deposits.map(toCustomerDeposit);
+  }
+
+  async findById(
+    id: string,
+    customerId: string,
+    companyId: string
+  ): Promise<CustomerDeposit | null> {
+    const deposit = await db
+      .selectFrom("customer_deposits")
+      .selectAll()
+      .where("id", "=", id)
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return deposit ? toCustomerDeposit(deposit) : null;
+  }
+
+  /**
+   * Get the customer's credit balance: what's left of their deposits
+   */
+  async getCreditBalance(customerId: string, companyId: string): Promise<number> {
+    const result = await db
+      .selectFrom("customer_deposits")
+      .select(
+        sql<string>`COALESCE(SUM(amount - amount_applied - amount_refunded), 0)`.as("balance")
+      )
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return Math.round(Number(result?.balance || 0) * 100) / 100;
+  }
+
+  /**
+   * Get the deposits a customer still has something left on, in the order they should be used:
+   * those taken for the given ticket first, then oldest first
+   */
+  async findAvailable(
+    customerId: string,
+    companyId: string,
+    options: { depositId?: string; ticketId?: string | null; excludeOtherTickets?: boolean } = {}
+  ): Promise<CustomerDeposit[]> {
+    let query = db
+      .selectFrom("customer_deposits")
+      .selectAll()
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .where(sql<SqlBool>`amount - amount_applied - amount_refunded > 0`);
+
+    if (options.depositId) {
+      query = query.where("id", "=", options.depositId);
+    }
+    if (options.excludeOtherTickets) {
+      const ticketId = options.ticketId;
+      query = query.where((eb) =>
+        ticketId
+          ? eb.or([eb("ticket_id", "is", null), eb("ticket_id", "=", ticketId)])
+          : eb("ticket_id", "is", null)
+      );
+    }
+
+    const deposits = await query
+      .orderBy(sql`ticket_id IS NOT DISTINCT FROM ${options.ticketId ?? null}`, "desc")
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return deposits.map(toCustomerDeposit);
+  }
+
+  /**
+   * Take a deposit from a customer, charging it through the payment integration when a card nonce is given
+   */
+  async create(
+    customerId: string,
+    data: CreateCustomerDepositDto,
+    companyId: string,
+    locationId: string | null,
+    receivedBy: string | null = null
+  ): Promise<CustomerDeposit> {
+    await this.assertCustomer(customerId, companyId);
+
+    if (data.ticketId) {
+      const ticket = await db
+        .selectFrom("tickets")
+        .select(["id", "customer_id"])
+        .where("id", "=", data.ticketId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (!ticket) {
+        throw new NotFoundError("Ticket not found");
+      }
+      if (ticket.customer_id !== customerId) {
+        throw new BadRequestError("Ticket belongs to a different customer");
+      }
+    }
+
+    const depositId = uuidv4();
+    let paymentMethod = data.paymentMethod;
+    let paymentReference = data.paymentReference || null;
+    let isProviderPayment = false;
+
+    if (data.sourceId) {
+      if (!(await paymentService.isPaymentConfigured(companyId))) {
+        throw new BadRequestError(
+          "Payment integration is not configured. Please configure a payment provider in settings."
+        );
+      }
+
+      try {
+        // The deposit ID stands in for the invoice the provider expects; there isn't one yet
+        const result = await paymentService.processPayment(companyId, {
+          amount: data.amount,
+          currency: await paymentService.getCurrency(companyId),
+          invoiceId: depositId,
+          customerId,
+          sourceId: data.sourceId,
+          description: "Customer deposit",
+          metadata: { depositId },
+        });
+        if (result.status === "failed") {
+          throw new Error(result.error || "Payment was declined");
+        }
+        paymentMethod = result.paymentMethod;
+        paymentReference = result.transactionId;
+        isProviderPayment = true;
+      } catch (error) {
+        logger.error("Deposit payment error:", error);
+        const errorMessage = error instanceof Error ? error.message : "Payment processing failed";
+        throw new BadRequestError(`Payment failed: ${errorMessage}`);
+      }
+    }
+
+    // Cash deposits go into the location's open drawer, if there is one
+    let cashDrawerSessionId: string | null = null;
+    if (paymentMethod === "Cash") {
+      try {
+        const currentDrawer = await cashDrawerService.getCurrentDrawerSession(companyId, locationId);
+        cashDrawerSessionId = currentDrawer?.id || null;
+      } catch (error) {
+        // Log but don't fail - drawer linking is optional
+        logger.warn(
+          `Failed to link deposit ${depositId} to drawer session: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const deposit = await db
+      .insertInto("customer_deposits")
+      .values({
+        id: depositId,
+        company_id: companyId,
+        customer_id: customerId,
+        ticket_id: data.ticketId || null,
+        location_id: locationId,
+        amount: data.amount,
+        payment_method: paymentMethod,
+        payment_reference: paymentReference,
+        is_provider_payment: isProviderPayment,
+        cash_drawer_session_id: cashDrawerSessionId,
+        notes: data.notes || null,
+        received_by: receivedBy,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toCustomerDeposit(deposit);
+  }
+
+  /**
+   * Refund what's left of a deposit. Deposits charged through the payment integration are refunded
+   * back to the card; anything else is recorded as handed back.
+   */
+  async refund(
+    id: string,
+    customerId: string,
+    data: RefundCustomerDepositDto,
+    companyId: string
+  ): Promise<CustomerDeposit> {
+    const deposit = await this.findById(id, customerId, companyId);
+    if (!deposit) {
+      throw new NotFoundError("Deposit not found");
+    }
+    if (deposit.remainingAmount <= 0) {
+      throw new BadRequestError("Deposit has already been used or refunded");
+    }
+
+    const amount = data.amount ?? deposit.remainingAmount;
+    if (amount > deposit.remainingAmount) {
+      throw new BadRequestError(
+        `Refund amount cannot exceed the unused deposit of ${deposit.remainingAmount.toFixed(2)}`
+      );
+    }
+
+    // Set the amount aside before refunding it, so two refunds at once can't both take the same money
+    const reserved = await db
+      .updateTable("customer_deposits")
+      .set((eb) => ({
+        amount_refunded: eb("amount_refunded", "+", amount),
+        updated_at: sql`now()`,
+      }))
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where(sql<SqlBool>`amount - amount_applied - amount_refunded >= ${amount}`)
+      .returningAll()
+      .executeTakeFirst();
+    if (!reserved) {
+      throw new BadRequestError("Deposit doesn't have enough left to refund");
+    }
+
+    if (deposit.isProviderPayment && deposit.paymentReference) {
+      try {
+        const result = await paymentService.refundPayment(companyId, {
+          transactionId: deposit.paymentReference,
+          amount,
+          reason: data.reason || undefined,
+        });
+        if (result.status === "failed") {
+          throw new Error(result.error || "Refund was declined");
+        }
+      } catch (error) {
+        logger.error("Deposit refund error:", error);
+        // Nothing went back to the card, so put the amount back on the deposit
+        await db
+          .updateTable("customer_deposits")
+          .set((eb) => ({
+            amount_refunded: eb("amount_refunded", "-", amount),
+            updated_at: sql`now()`,
+          }))
+          .where("id", "=", id)
+          .where("company_id", "=", companyId)
+          .execute();
+        const errorMessage = error instanceof Error ? error.message : "Refund processing failed";
+        throw new BadRequestError(`Refund failed: ${errorMessage}`);
+      }
+    }
+
+    return toCustomerDeposit(reserved);
+  }
+}
+
+export default new CustomerDepositService();
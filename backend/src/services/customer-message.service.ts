@@ -0,0 +1,344 @@
+// src/services/customer-message.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { MessageChannel, MessageDirection } from "../config/types.js";
+
+// Ticket numbers look like TKT-12345678-123; customers replying to an email keep it in the subject
+const TICKET_NUMBER_PATTERN = /\bTKT-\d{8}-\d{3}\b/i;
+
+// Input DTOs
+export interface CreateCustomerMessageDto {
+  customerId: string;
+  ticketId?: string | null;
+  channel: MessageChannel;
+  direction: MessageDirection;
+  fromAddress?: string | null;
+  toAddress: string;
+  subject?: string | null;
+  body: string;
+  providerMessageId?: string | null;
+  sentBy?: string | null;
+}
+
+export interface InboundMessageDto {
+  channel: MessageChannel;
+  fromAddress: string;
+  toAddress: string;
+  subject?: string | null;
+  body: string;
+  providerMessageId?: string | null;
+}
+
+// Which conversation to look at: a customer's, a ticket's, or both
+export interface MessageScope {
+  customerId?: string;
+  ticketId?: string;
+}
+
+export interface MessageSender {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Output type - converts snake_case to camelCase
+export interface CustomerMessage {
+  id: string;
+  customerId: string;
+  ticketId: string | null;
+  channel: MessageChannel;
+  direction: MessageDirection;
+  fromAddress: string | null;
+  toAddress: string;
+  subject: string | null;
+  body: string;
+  providerMessageId: string | null;
+  sentBy: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+  sender?: MessageSender;
+}
+
+export interface Conversation {
+  customerId: string;
+  customerFirstName: string;
+  customerLastName: string;
+  lastMessage: CustomerMessage;
+  unreadCount: number;
+}
+
+function toCustomerMessage(message: {
+  id: string;
+  customer_id: string;
+  ticket_id: string | null;
+  channel: MessageChannel;
+  direction: MessageDirection;
+  from_address: string | null;
+  to_address: string;
+  subject: string | null;
+  body: string;
+  provider_message_id: string | null;
+  sent_by: string | null;
+  read_at: Date | null;
+  created_at: Date;
+  sender_first_name: string | null;
+  sender_last_name: string | null;
+}): CustomerMessage {
+  return {
+    id: message.id,
+    customerId: message.customer_id,
+    ticketId: message.ticket_id,
+    channel: message.channel,
+    direction: message.direction,
+    fromAddress: message.from_address,
+    toAddress: message.to_address,
+    subject: message.subject,
+    body: message.body,
+    providerMessageId: message.provider_message_id,
+    sentBy: message.sent_by,
+    readAt: message.read_at,
+    createdAt: message.created_at,
+    sender:
+      message.sent_by && message.sender_first_name
+        ? {
+            id: message.sent_by,
+            firstName: message.sender_first_name,
+            lastName: message.sender_last_name || "",
+          }
+        : undefined,
+  };
+}
+
+export class CustomerMessageService {
+  private baseQuery(companyId: string) {
+    return db
+      .selectFrom("customer_messages")
+      .leftJoin("users", "users.id", "customer_messages.sent_by")
+      .select([
+        "customer_messages.id",
+        "customer_messages.customer_id",
+        "customer_messages.ticket_id",
+        "customer_messages.channel",
+        "customer_messages.direction",
+        "customer_messages.from_address",
+        "customer_messages.to_address",
+        "customer_messages.subject",
+        "customer_messages.body",
+        "customer_messages.provider_message_id",
+        "customer_messages.sent_by",
+        "customer_messages.read_at",
+        "customer_messages.created_at",
+        "users.first_name as sender_first_name",
+        "users.last_name as sender_last_name",
+      ])
+      .where("customer_messages.company_id", "=", companyId);
+  }
+
+  /**
+   * Get a conversation, oldest message first
+   */
+  async findAll(companyId: string, scope: MessageScope): Promise<CustomerMessage[]> {
+    let query = this.baseQuery(companyId);
+
+    if (scope.customerId) {
+      query = query.where("customer_messages.customer_id", "=", scope.customerId);
+    }
+    if (scope.ticketId) {
+      query = query.where("customer_messages.ticket_id", "=", scope.ticketId);
+    }
+
+    const messages = await query
+      .orderBy("customer_messages.created_at", "asc")
+      .orderBy("customer_messages.id", "asc")
+      .execute();
+
+    return messages.map(toCustomerMessage);
+  }
+
+  async findById(id: string, companyId: string): Promise<CustomerMessage | null> {
+    const message = await this.baseQuery(companyId)
+      .where("customer_messages.id", "=", id)
+      .executeTakeFirst();
+
+    return message ? toCustomerMessage(message) : null;
+  }
+
+  /**
+   * Latest message per customer, newest conversation first, with how many replies are unread
+   */
+  async getConversations(companyId: string, limit = 50): Promise<Conversation[]> {
+    const latest = await db
+      .selectFrom(() =>
+        this.baseQuery(companyId)
+          .distinctOn("customer_messages.customer_id")
+          .orderBy("customer_messages.customer_id")
+          .orderBy("customer_messages.created_at", "desc")
+          .as("latest")
+      )
+      .innerJoin("customers", "customers.id", "latest.customer_id")
+      .selectAll("latest")
+      .select(["customers.first_name as customer_first_name", "customers.last_name as customer_last_name"])
+      .orderBy("latest.created_at", "desc")
+      .limit(limit)
+      .execute();
+
+    const unreadCounts = await this.countUnreadByCustomer(
+      companyId,
+      latest.map((message) => message.customer_id)
+    );
+
+    return latest.map((message) => ({
+      customerId: message.customer_id,
+      customerFirstName: message.customer_first_name,
+      customerLastName: message.customer_last_name,
+      lastMessage: toCustomerMessage(message),
+      unreadCount: unreadCounts.get(message.customer_id) || 0,
+    }));
+  }
+
+  /**
+   * Count inbound messages staff haven't read yet, company-wide or for one conversation
+   */
+  async countUnread(companyId: string, scope: MessageScope = {}): Promise<number> {
+    let query = db
+      .selectFrom("customer_messages")
+      .select((eb) => eb.fn.countAll<string>().as("count"))
+      .where("company_id", "=", companyId)
+      .where("direction", "=", "inbound")
+      .where("read_at", "is", null);
+
+    if (scope.customerId) {
+      query = query.where("customer_id", "=", scope.customerId);
+    }
+    if (scope.ticketId) {
+      query = query.where("ticket_id", "=", scope.ticketId);
+    }
+
+    const result = await query.executeTakeFirstOrThrow();
+    return Number(result.count);
+  }
+
+  async countUnreadByCustomer(
+    companyId: string,
+    customerIds: string[]
+  ): Promise<Map<string, number>> {
+    if (customerIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await db
+      .selectFrom("customer_messages")
+      .select(["customer_id", (eb) => eb.fn.countAll<string>().as("count")])
+      .where("company_id", "=", companyId)
+      .where("customer_id", "in", customerIds)
+      .where("direction", "=", "inbound")
+      .where("read_at", "is", null)
+      .groupBy("customer_id")
+      .execute();
+
+    return new Map(rows.map((row) => [row.customer_id, Number(row.count)]));
+  }
+
+  /**
+   * Mark every unread inbound message in a conversation as read
+   * Returns how many messages were marked
+   */
+  async markRead(companyId: string, scope: MessageScope): Promise<number> {
+    let query = db
+      .updateTable("customer_messages")
+      .set({ read_at: sql`now()` })
+      .where("company_id", "=", companyId)
+      .where("direction", "=", "inbound")
+      .where("read_at", "is", null);
+
+    if (scope.customerId) {
+      query = query.where("customer_id", "=", scope.customerId);
+    }
+    if (scope.ticketId) {
+      query = query.where("ticket_id", "=", scope.ticketId);
+    }
+
+    const result = await query.executeTakeFirst();
+    return Number(result.numUpdatedRows);
+  }
+
+  async create(companyId: string, data: CreateCustomerMessageDto): Promise<CustomerMessage> {
+    const message = await db
+      .insertInto("customer_messages")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        customer_id: data.customerId,
+        ticket_id: data.ticketId || null,
+        channel: data.channel,
+        direction: data.direction,
+        from_address: data.fromAddress || null,
+        to_address: data.toAddress,
+        subject: data.subject || null,
+        body: data.body,
+        provider_message_id: data.providerMessageId || null,
+        sent_by: data.sentBy || null,
+        read_at: null,
+        created_at: sql`now()`,
+      })
+      .returning("id")
+      .executeTakeFirstOrThrow();
+
+    return (await this.findById(message.id, companyId))!;
+  }
+
+  /**
+   * Store a message a customer sent, threading it onto the right conversation
+   * When several customers share the address, it goes to the one the shop last wrote to there.
+   * The ticket comes from a ticket number in the subject, else the last message sent to that address.
+   */
+  async recordInbound(
+    companyId: string,
+    customerIds: string[],
+    data: InboundMessageDto
+  ): Promise<CustomerMessage | null> {
+    if (customerIds.length === 0) {
+      return null;
+    }
+
+    const lastOutbound = await db
+      .selectFrom("customer_messages")
+      .select(["customer_id", "ticket_id"])
+      .where("company_id", "=", companyId)
+      .where("customer_id", "in", customerIds)
+      .where("channel", "=", data.channel)
+      .where("direction", "=", "outbound")
+      .where(sql<string>`lower(to_address)`, "=", data.fromAddress.toLowerCase())
+      .orderBy("created_at", "desc")
+      .limit(1)
+      .executeTakeFirst();
+
+    const customerId = lastOutbound?.customer_id || customerIds[0];
+    let ticketId = lastOutbound?.ticket_id || null;
+
+    const ticketNumber = data.subject?.match(TICKET_NUMBER_PATTERN)?.[0];
+    if (ticketNumber) {
+      const ticket = await db
+        .selectFrom("tickets")
+        .select("id")
+        .where("company_id", "=", companyId)
+        .where("customer_id", "=", customerId)
+        .where("ticket_number", "=", ticketNumber.toUpperCase())
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (ticket) {
+        ticketId = ticket.id;
+      }
+    }
+
+    return this.create(companyId, {
+      ...data,
+      customerId,
+      ticketId,
+      direction: "inbound",
+    });
+  }
+}
+
+export default new CustomerMessageService();
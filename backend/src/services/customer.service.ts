@@ -3,6 +3,7 @@ import { sql } from "kysely";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../config/connection.js";
 import { CustomerTable } from "../config/types.js";
+import { phoneDigitVariants } from "../utils/phone.utils.js";
 
 // Input DTOs
 export interface CreateCustomerDto {
@@ -15,6 +16,8 @@ export interface CreateCustomerDto {
   state?: string;
   zipCode?: string;
   notes?: string;
+  // Whether the customer agreed to receive text messages
+  smsOptIn?: boolean;
 }
 
 export interface UpdateCustomerDto {
@@ -27,6 +30,8 @@ export interface UpdateCustomerDto {
   state?: string;
   zipCode?: string;
   notes?: string;
+  // Whether the customer agreed to receive text messages
+  smsOptIn?: boolean;
 }
 
 // Output type - converts snake_case to camelCase
@@ -38,6 +43,9 @@ export type Customer = Omit<
   | "first_name"
   | "last_name"
   | "zip_code"
+  | "sms_opt_in"
+  | "sms_opt_in_changed_at"
+  | "store_credit_balance"
   | "created_at"
   | "updated_at"
   | "deleted_at"
@@ -46,6 +54,10 @@ export type Customer = Omit<
   firstName: string;
   lastName: string;
   zipCode: string | null;
+  smsOptIn: boolean;
+  smsOptInChangedAt: Date | null;
+  // Store credit the customer can spend on invoices
+  storeCreditBalance: number;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -63,6 +75,9 @@ function toCustomer(customer: {
   state: string | null;
   zip_code: string | null;
   notes: string | null;
+  sms_opt_in: boolean;
+  sms_opt_in_changed_at: Date | null;
+  store_credit_balance: number;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -78,11 +93,22 @@ function toCustomer(customer: {
     state: customer.state,
     zipCode: customer.zip_code,
     notes: customer.notes,
+    smsOptIn: customer.sms_opt_in,
+    smsOptInChangedAt: customer.sms_opt_in_changed_at,
+    storeCreditBalance: Number(customer.store_credit_balance),
     createdAt: customer.created_at,
     updatedAt: customer.updated_at,
   };
 }
 
+// Only move the changed time when consent actually changes
+function smsOptInUpdate(optIn: boolean) {
+  return {
+    sms_opt_in: optIn,
+    sms_opt_in_changed_at: sql<Date>`case when sms_opt_in = ${optIn} then sms_opt_in_changed_at else now() end`,
+  };
+}
+
 export class CustomerService {
   async findAll(companyId: string, searchQuery?: string): Promise<Customer[]> {
     let query = db
@@ -119,6 +145,37 @@ export class CustomerService {
     return customer ? toCustomer(customer) : null;
   }
 
+  /**
+   * Customers with an email address, ignoring case
+   */
+  async findByEmail(email: string, companyId: string): Promise<Customer[]> {
+    const customers = await db
+      .selectFrom("customers")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where(sql<string>`lower(email)`, "=", email.toLowerCase())
+      .execute();
+
+    return customers.map(toCustomer);
+  }
+
+  /**
+   * Customers whose phone number matches an E.164 number, however it was typed in
+   */
+  async findByPhone(phone: string, companyId: string): Promise<Customer[]> {
+    const customers = await db
+      .selectFrom("customers")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where("phone", "is not", null)
+      .where(sql<string>`regexp_replace(phone, '[^0-9]', '', 'g')`, "in", phoneDigitVariants(phone))
+      .execute();
+
+    return customers.map(toCustomer);
+  }
+
   async create(data: CreateCustomerDto, companyId: string): Promise<Customer> {
     const customer = await db
       .insertInto("customers")
@@ -134,6 +191,8 @@ export class CustomerService {
         state: data.state || null,
         zip_code: data.zipCode || null,
         notes: data.notes || null,
+        sms_opt_in: data.smsOptIn ?? false,
+        sms_opt_in_changed_at: data.smsOptIn ? sql`now()` : null,
         created_at: sql`now()`,
         updated_at: sql`now()`,
         deleted_at: null,
@@ -181,6 +240,9 @@ export class CustomerService {
     if (data.notes !== undefined) {
       updateQuery = updateQuery.set({ notes: data.notes || null });
     }
+    if (data.smsOptIn !== undefined) {
+      updateQuery = updateQuery.set(smsOptInUpdate(data.smsOptIn));
+    }
 
     const updated = await updateQuery
       .returningAll()
@@ -189,6 +251,22 @@ export class CustomerService {
     return updated ? toCustomer(updated) : null;
   }
 
+  /**
+   * Record a customer opting in to or out of texts, e.g. from a STOP reply
+   */
+  async setSmsOptIn(id: string, companyId: string, optIn: boolean): Promise<Customer | null> {
+    const updated = await db
+      .updateTable("customers")
+      .set({ ...smsOptInUpdate(optIn), updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .returningAll()
+      .executeTakeFirst();
+
+    return updated ? toCustomer(updated) : null;
+  }
+
   async delete(id: string, companyId: string): Promise<boolean> {
     // Use returningAll() to get the actual updated row, or null if no row was updated
     const result = await db
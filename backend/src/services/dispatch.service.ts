@@ -0,0 +1,118 @@
+// src/services/dispatch.service.ts
+import { db } from "../config/connection.js";
+import { TicketPriority, TicketStatus } from "../config/types.js";
+import { formatUserForResponse } from "../utils/user.utils.js";
+import userService from "./user.service.js";
+import workflowService from "./workflow.service.js";
+
+// Output types
+export interface DispatchCard {
+  id: string;
+  ticketNumber: string;
+  status: TicketStatus;
+  priority: TicketPriority;
+  technicianId: string | null;
+  customerName: string;
+  device: string;
+  estimatedCompletionDate: Date | null;
+  slaBreachedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DispatchTechnician {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  openTickets: number;
+}
+
+export interface DispatchBoard {
+  technicians: DispatchTechnician[];
+  tickets: DispatchCard[];
+}
+
+// Most urgent work first within each column
+const PRIORITY_ORDER: Record<TicketPriority, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export class DispatchService {
+  /**
+   * Get every open ticket and the people they can be assigned to
+   * Closed statuses (as configured in the company workflow) are left off the board
+   */
+  async getBoard(companyId: string, locationId?: string): Promise<DispatchBoard> {
+    const closedStatuses = await workflowService.getClosedStatusKeys(companyId);
+
+    let query = db
+      .selectFrom("tickets")
+      .innerJoin("customers", "customers.id", "tickets.customer_id")
+      .select([
+        "tickets.id",
+        "tickets.ticket_number",
+        "tickets.status",
+        "tickets.priority",
+        "tickets.technician_id",
+        "tickets.device_type",
+        "tickets.device_brand",
+        "tickets.device_model",
+        "tickets.estimated_completion_date",
+        "tickets.sla_breached_at",
+        "tickets.created_at",
+        "tickets.updated_at",
+        "customers.first_name",
+        "customers.last_name",
+      ])
+      .where("tickets.company_id", "=", companyId)
+      .where("tickets.deleted_at", "is", null);
+
+    if (closedStatuses.length > 0) {
+      query = query.where("tickets.status", "not in", closedStatuses);
+    }
+    if (locationId) {
+      query = query.where("tickets.location_id", "=", locationId);
+    }
+
+    const [rows, users] = await Promise.all([
+      query.orderBy("tickets.created_at", "asc").execute(),
+      userService.findTechnicians(companyId),
+    ]);
+
+    const tickets: DispatchCard[] = rows
+      .map((row) => ({
+        id: row.id as string,
+        ticketNumber: row.ticket_number,
+        status: row.status,
+        priority: row.priority,
+        technicianId: row.technician_id as string | null,
+        customerName: `${row.first_name} ${row.last_name}`,
+        device: [row.device_type, row.device_brand, row.device_model].filter(Boolean).join(" "),
+        estimatedCompletionDate: row.estimated_completion_date,
+        slaBreachedAt: row.sla_breached_at,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      }))
+      // Stable sort keeps oldest-first order within each priority
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+
+    const technicians = users
+      .map(formatUserForResponse)
+      .filter((user) => user.active)
+      .map((user) => ({
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.primaryRole,
+        openTickets: tickets.filter((ticket) => ticket.technicianId === user.id).length,
+      }));
+
+    return { technicians, tickets };
+  }
+}
+
+export default new DispatchService();
@@ -0,0 +1,374 @@
+// src/services/email-message.service.ts
+import { sql } from "kysely";
+import { validate as isUuid, v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { EmailMessagePayload, EmailMessageStatus, EmailSender } from "../config/types.js";
+
+// Minutes to wait before each retry of a failed send; once they're used up the message is marked failed
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+export const MAX_EMAIL_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// A claimed retry that never reports back (e.g. the server restarted mid-send) is picked up again after this
+const RETRY_LEASE_MINUTES = 10;
+
+// Delivery events only move a message forward, e.g. a late "delivered" doesn't undo "opened"
+const STATUS_RANK: Record<EmailMessageStatus, number> = {
+  pending: 0,
+  failed: 0,
+  sent: 1,
+  delivered: 2,
+  bounced: 2,
+  opened: 3,
+};
+
+export const EMAIL_MESSAGE_STATUSES: EmailMessageStatus[] = [
+  "pending",
+  "sent",
+  "delivered",
+  "opened",
+  "bounced",
+  "failed",
+];
+
+// Input DTOs
+export interface CreateEmailMessageDto {
+  // Which email this is, e.g. ticket_status or customer_message
+  template: string;
+  sender: EmailSender;
+  payload: EmailMessagePayload;
+}
+
+export interface EmailMessageEventDto {
+  type: "delivered" | "opened" | "bounced";
+  emailMessageId: string | null;
+  providerMessageId: string | null;
+  reason: string | null;
+  occurredAt: Date;
+}
+
+// Output types - convert snake_case to camelCase
+export interface EmailMessage {
+  id: string;
+  template: string;
+  sender: EmailSender;
+  toAddress: string;
+  subject: string;
+  status: EmailMessageStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  providerMessageId: string | null;
+  error: string | null;
+  sentAt: Date | null;
+  deliveredAt: Date | null;
+  openedAt: Date | null;
+  bouncedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Internal type that also carries what's needed to send it again, which lists don't return
+export interface StoredEmailMessage extends EmailMessage {
+  companyId: string | null;
+  payload: EmailMessagePayload;
+}
+
+export interface EmailMessageListOptions {
+  status?: EmailMessageStatus;
+  page?: number;
+  limit?: number;
+}
+
+const MESSAGE_COLUMNS = [
+  "id",
+  "template",
+  "sender",
+  "to_address",
+  "subject",
+  "status",
+  "attempts",
+  "next_attempt_at",
+  "provider_message_id",
+  "error",
+  "sent_at",
+  "delivered_at",
+  "opened_at",
+  "bounced_at",
+  "created_at",
+  "updated_at",
+] as const;
+
+function toEmailMessage(message: {
+  id: string;
+  template: string;
+  sender: EmailSender;
+  to_address: string;
+  subject: string;
+  status: EmailMessageStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_at: Date | null;
+  delivered_at: Date | null;
+  opened_at: Date | null;
+  bounced_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}): EmailMessage {
+  return {
+    id: message.id,
+    template: message.template,
+    sender: message.sender,
+    toAddress: message.to_address,
+    subject: message.subject,
+    status: message.status,
+    attempts: message.attempts,
+    nextAttemptAt: message.next_attempt_at,
+    providerMessageId: message.provider_message_id,
+    error: message.error,
+    sentAt: message.sent_at,
+    deliveredAt: message.delivered_at,
+    openedAt: message.opened_at,
+    bouncedAt: message.bounced_at,
+    createdAt: message.created_at,
+    updatedAt: message.updated_at,
+  };
+}
+
+function toStoredEmailMessage(
+  message: Parameters<typeof toEmailMessage>[0] & {
+    company_id: string | null;
+    payload: EmailMessagePayload;
+  }
+): StoredEmailMessage {
+  return {
+    ...toEmailMessage(message),
+    companyId: message.company_id,
+    payload: message.payload,
+  };
+}
+
+export class EmailMessageService {
+  /**
+   * Get a company's outbound emails, newest first
+   */
+  async findAll(
+    companyId: string,
+    options: EmailMessageListOptions = {}
+  ): Promise<{
+    data: EmailMessage[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const offset = (page - 1) * limit;
+
+    let countQuery = db
+      .selectFrom("email_messages")
+      .select((eb) => eb.fn.countAll<string>().as("count"))
+      .where("company_id", "=", companyId);
+
+    let dataQuery = db
+      .selectFrom("email_messages")
+      .select(MESSAGE_COLUMNS)
+      .where("company_id", "=", companyId);
+
+    if (options.status) {
+      countQuery = countQuery.where("status", "=", options.status);
+      dataQuery = dataQuery.where("status", "=", options.status);
+    }
+
+    const totalResult = await countQuery.executeTakeFirst();
+    const total = Number(totalResult?.count || 0);
+
+    const messages = await dataQuery
+      .orderBy("created_at", "desc")
+      .orderBy("id", "desc")
+      .limit(limit)
+      .offset(offset)
+      .execute();
+
+    return {
+      data: messages.map(toEmailMessage),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findById(id: string, companyId: string): Promise<EmailMessage | null> {
+    const message = await db
+      .selectFrom("email_messages")
+      .select(MESSAGE_COLUMNS)
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return message ? toEmailMessage(message) : null;
+  }
+
+  /**
+   * Get a message along with what's needed to send it again
+   */
+  async findStored(id: string, companyId: string): Promise<StoredEmailMessage | null> {
+    const message = await db
+      .selectFrom("email_messages")
+      .select([...MESSAGE_COLUMNS, "company_id", "payload"])
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return message ? toStoredEmailMessage(message) : null;
+  }
+
+  /**
+   * Log an email that's about to be sent
+   */
+  async create(companyId: string | null, data: CreateEmailMessageDto): Promise<StoredEmailMessage> {
+    const to = data.payload.to;
+    const message = await db
+      .insertInto("email_messages")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        template: data.template,
+        sender: data.sender,
+        to_address: Array.isArray(to) ? to.join(", ") : to,
+        subject: data.payload.subject.slice(0, 255),
+        payload: data.payload,
+        status: "pending",
+        attempts: 0,
+      })
+      .returning([...MESSAGE_COLUMNS, "company_id", "payload"])
+      .executeTakeFirstOrThrow();
+
+    return toStoredEmailMessage(message);
+  }
+
+  async markSent(id: string, providerMessageId: string | null): Promise<void> {
+    await db
+      .updateTable("email_messages")
+      .set((eb) => ({
+        status: "sent",
+        attempts: eb("attempts", "+", 1),
+        next_attempt_at: null,
+        provider_message_id: providerMessageId,
+        error: null,
+        sent_at: sql`now()`,
+        updated_at: sql`now()`,
+      }))
+      .where("id", "=", id)
+      .execute();
+  }
+
+  /**
+   * Record a failed send, scheduling the next retry with backoff unless retry is false
+   * or the message is out of attempts
+   */
+  async markFailed(
+    message: { id: string; attempts: number },
+    error: string,
+    retry = true
+  ): Promise<void> {
+    const attempts = message.attempts + 1;
+    const delayMinutes = retry ? RETRY_DELAYS_MINUTES[attempts - 1] : undefined;
+
+    await db
+      .updateTable("email_messages")
+      .set({
+        status: delayMinutes !== undefined ? "pending" : "failed",
+        attempts,
+        next_attempt_at:
+          delayMinutes !== undefined ? sql`now() + make_interval(mins => ${delayMinutes})` : null,
+        error,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", message.id)
+      .execute();
+  }
+
+  /**
+   * Take the messages whose retry is due, so no other worker picks them up too
+   */
+  async claimDueForRetry(limit = 50): Promise<StoredEmailMessage[]> {
+    const messages = await db
+      .updateTable("email_messages")
+      .set({
+        next_attempt_at: sql`now() + make_interval(mins => ${RETRY_LEASE_MINUTES})`,
+        updated_at: sql`now()`,
+      })
+      .where("id", "in", (eb) =>
+        eb
+          .selectFrom("email_messages")
+          .select("id")
+          .where("status", "=", "pending")
+          .where("next_attempt_at", "<=", sql<Date>`now()`)
+          .orderBy("next_attempt_at", "asc")
+          .limit(limit)
+          .forUpdate()
+          .skipLocked()
+      )
+      .returning([...MESSAGE_COLUMNS, "company_id", "payload"])
+      .execute();
+
+    return messages.map(toStoredEmailMessage);
+  }
+
+  /**
+   * Apply a delivery event from the provider to the company's message it belongs to
+   * Returns false if no message matched
+   */
+  async applyEvent(companyId: string, event: EmailMessageEventDto): Promise<boolean> {
+    let query = db
+      .selectFrom("email_messages")
+      .select(["id", "status"])
+      .where("company_id", "=", companyId);
+
+    if (event.emailMessageId && isUuid(event.emailMessageId)) {
+      query = query.where("id", "=", event.emailMessageId);
+    } else if (event.providerMessageId) {
+      query = query.where("provider_message_id", "=", event.providerMessageId);
+    } else {
+      return false;
+    }
+
+    const message = await query.executeTakeFirst();
+    if (!message) {
+      return false;
+    }
+
+    const moveTo = (status: EmailMessageStatus) =>
+      STATUS_RANK[status] > STATUS_RANK[message.status] ? status : message.status;
+
+    let update;
+    if (event.type === "delivered") {
+      update = { status: moveTo("delivered"), delivered_at: event.occurredAt };
+    } else if (event.type === "opened") {
+      update = { status: moveTo("opened"), opened_at: event.occurredAt };
+    } else {
+      update = {
+        status: moveTo("bounced"),
+        bounced_at: event.occurredAt,
+        error: event.reason,
+      };
+    }
+
+    await db
+      .updateTable("email_messages")
+      .set({ ...update, updated_at: sql`now()` })
+      .where("id", "=", message.id)
+      .execute();
+
+    return true;
+  }
+}
+
+export default new EmailMessageService();
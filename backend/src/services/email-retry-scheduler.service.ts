@@ -0,0 +1,60 @@
+// src/services/email-retry-scheduler.service.ts
+import cron from "node-cron";
+import logger from "../config/logger.js";
+import emailService from "../integrations/email/email.service.js";
+
+/**
+ * Email retry scheduler service
+ * Periodically sends again the logged emails that failed and are due for
+ * another attempt
+ */
+export class EmailRetrySchedulerService {
+  private task: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the email retry scheduler
+   * Runs every minute
+   */
+  start(): void {
+    if (this.task) {
+      logger.warn("Email retry scheduler is already running");
+      return;
+    }
+
+    // Cron format: minute hour day month day-of-week
+    this.task = cron.schedule("* * * * *", async () => {
+      try {
+        const result = await emailService.retryDueMessages();
+        if (result.sent > 0 || result.failed > 0) {
+          logger.info(
+            `Email retry completed - ${result.sent} sent, ${result.failed} failed`
+          );
+        }
+      } catch (error) {
+        logger.error("Error in scheduled email retry:", error);
+      }
+    });
+
+    logger.info("Email retry scheduler started - will run every minute");
+  }
+
+  /**
+   * Stop the email retry scheduler
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      logger.info("Email retry scheduler stopped");
+    }
+  }
+
+  /**
+   * Check if scheduler is running
+   */
+  isRunning(): boolean {
+    return this.task !== null;
+  }
+}
+
+export default new EmailRetrySchedulerService();
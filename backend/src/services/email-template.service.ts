@@ -0,0 +1,542 @@
+// src/services/email-template.service.ts
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import { EmailAttachment, EmailTemplateKey } from "../config/types.js";
+import storageService from "../integrations/storage/storage.service.js";
+import {
+  findTemplateVariables,
+  isHexColor,
+  renderTemplate,
+  TemplateVariables,
+  toHtmlContent,
+  toPlainText,
+  wrapEmailLayout,
+} from "../utils/email-template.utils.js";
+import { UploadAttachmentDto } from "./attachment.service.js";
+import companyService from "./company.service.js";
+
+export const EMAIL_TEMPLATE_KEYS: EmailTemplateKey[] = [
+  "ticket_status",
+  "invoice",
+  "invitation",
+  "password_reset",
+];
+
+const DEFAULT_PRIMARY_COLOR = "#2563eb";
+const DEFAULT_ACCENT_COLOR = "#2563eb";
+
+const LOGO_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+// Logos are scaled down to fit the email header and stored as PNG, which every mail client shows
+const LOGO_MAX_WIDTH = 600;
+const LOGO_MAX_HEIGHT = 200;
+const LOGO_CONTENT_ID = "company-logo";
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+  // Shown in previews and test emails
+  sample: string;
+}
+
+interface EmailTemplateDefinition {
+  name: string;
+  description: string;
+  variables: EmailTemplateVariable[];
+  subject: string;
+  body: string;
+}
+
+const companyNameVariable: EmailTemplateVariable = {
+  name: "companyName",
+  description: "Your company name",
+  sample: "Main Street Repairs",
+};
+
+// Built-in templates, used until a company saves its own
+const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  ticket_status: {
+    name: "Ticket status update",
+    description: "Sent to the customer when their ticket changes status",
+    variables: [
+      { name: "customerFirstName", description: "Customer's first name", sample: "Jane" },
+      { name: "customerName", description: "Customer's full name", sample: "Jane Smith" },
+      { name: "ticketNumber", description: "Ticket number", sample: "TKT-20250101-001" },
+      { name: "status", description: "New status", sample: "Ready for pickup" },
+      { name: "device", description: "Device type, brand and model", sample: "Phone - Apple iPhone 14" },
+      { name: "diagnosticNotes", description: "Diagnostic notes, if any", sample: "Cracked screen, battery at 81% health." },
+      { name: "repairNotes", description: "Repair notes, if any", sample: "Replaced the screen and tested touch and Face ID." },
+      {
+        name: "teamUpdates",
+        description: "Comments shared with the customer, if any",
+        sample: "Jan 5, 2026 - Alex\nThe new screen arrived and is being fitted now.",
+      },
+      { name: "portalLink", description: "Link to check the repair status online", sample: "https://example.com/portal/sample" },
+      companyNameVariable,
+    ],
+    subject: "Ticket {{ticketNumber}} Status Update: {{status}}",
+    body: `Hello {{customerFirstName}},
+
+Your repair ticket has been updated:
+
+Ticket Number: {{ticketNumber}}
+Status: {{status}}
+Device: {{device}}
+{{#diagnosticNotes}}
+
+Diagnostic Notes:
+{{diagnosticNotes}}
+{{/diagnosticNotes}}
+{{#repairNotes}}
+
+Repair Notes:
+{{repairNotes}}
+{{/repairNotes}}
+{{#teamUpdates}}
+
+Updates from our team:
+
+{{teamUpdates}}
+{{/teamUpdates}}
+
+[Check your repair status online]({{portalLink}})
+
+If you have any questions, please contact us.
+
+Thank you for your business!`,
+  },
+  invoice: {
+    name: "Invoice",
+    description: "Sent to the customer with an invoice or payment confirmation",
+    variables: [
+      { name: "customerFirstName", description: "Customer's first name", sample: "Jane" },
+      { name: "customerName", description: "Customer's full name", sample: "Jane Smith" },
+      { name: "invoiceNumber", description: "Invoice number", sample: "INV-20250101-001" },
+      { name: "status", description: "Invoice status", sample: "issued" },
+      { name: "paid", description: "Set when the invoice has been paid", sample: "" },
+      { name: "subtotal", description: "Subtotal", sample: "$180.00" },
+      { name: "tax", description: "Tax, if any", sample: "$14.40" },
+      { name: "total", description: "Total amount", sample: "$194.40" },
+      { name: "dueDate", description: "Due date, if set", sample: "1/31/2026" },
+      { name: "paidDate", description: "Date paid, once paid", sample: "" },
+      { name: "notes", description: "Invoice notes, if any", sample: "Includes 90 day warranty on parts." },
+      companyNameVariable,
+    ],
+    subject: "Invoice {{invoiceNumber}}: {{#paid}}Payment Confirmation{{/paid}}{{^paid}}Payment Due{{/paid}}",
+    body: `Hello {{customerFirstName}},
+
+{{#paid}}
+This invoice has been paid. Thank you!
+{{/paid}}
+{{^paid}}
+Please review the invoice below and submit payment.
+{{/paid}}
+
+Invoice Number: {{invoiceNumber}}
+Status: {{status}}
+Subtotal: {{subtotal}}
+{{#tax}}
+Tax: {{tax}}
+{{/tax}}
+Total Amount: {{total}}
+{{#dueDate}}
+Due Date: {{dueDate}}
+{{/dueDate}}
+{{#paidDate}}
+Paid Date: {{paidDate}}
+{{/paidDate}}
+{{#notes}}
+
+Notes:
+{{notes}}
+{{/notes}}
+
+If you have any questions about this invoice, please contact us.
+
+Thank you for your business!`,
+  },
+  invitation: {
+    name: "User invitation",
+    description: "Sent to someone invited to join your company",
+    variables: [
+      companyNameVariable,
+      { name: "role", description: "Role they were invited as", sample: "Technician" },
+      { name: "expiresOn", description: "When the invitation expires", sample: "January 8, 2026" },
+      { name: "invitationLink", description: "Link to accept the invitation", sample: "https://example.com/register?token=sample" },
+    ],
+    subject: "You've been invited to join {{companyName}}",
+    body: `Hello,
+
+You've been invited to join {{companyName}} as a {{role}}.
+
+Role: {{role}}
+Expires: {{expiresOn}}
+
+[Accept Invitation]({{invitationLink}})
+
+If you didn't expect this invitation, you can safely ignore this email.`,
+  },
+  password_reset: {
+    name: "Password reset",
+    description: "Sent to a user who asked to reset their password",
+    variables: [
+      { name: "userName", description: "User's name, if known", sample: "Alex" },
+      { name: "resetLink", description: "Link to choose a new password", sample: "https://example.com/reset-password?token=sample" },
+      companyNameVariable,
+    ],
+    subject: "Reset your password",
+    body: `Hello{{#userName}} {{userName}}{{/userName}},
+
+We received a request to reset your password. Click the button below to reset it:
+
+[Reset Password]({{resetLink}})
+
+This link will expire in 1 hour.
+
+If you didn't request a password reset, you can safely ignore this email. Your password will not be changed.`,
+  },
+};
+
+// Input DTOs
+export interface EmailTemplateContentDto {
+  subject: string;
+  body: string;
+}
+
+export interface UpdateEmailBrandingDto {
+  primaryColor?: string;
+  accentColor?: string;
+}
+
+export interface RenderEmailOptions {
+  // Unsaved subject and body to render instead of the saved template, e.g. while editing
+  content?: EmailTemplateContentDto;
+  // Previews can't load cid: images, so the logo is embedded as a data URL instead
+  preview?: boolean;
+}
+
+// Output types - convert snake_case to camelCase
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  variables: EmailTemplateVariable[];
+  // False while the company is using the built-in template
+  isCustom: boolean;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export interface EmailBranding {
+  primaryColor: string;
+  accentColor: string;
+  // Data URL of the uploaded logo, if any
+  logoUrl: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+// Shape of companies.settings.emailBranding
+interface StoredEmailBranding {
+  primaryColor?: string;
+  accentColor?: string;
+  logoKey?: string | null;
+}
+
+function toEmailTemplate(
+  key: EmailTemplateKey,
+  template?: {
+    subject: string;
+    body: string;
+    updated_by: string | null;
+    updated_at: Date;
+  }
+): EmailTemplate {
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+  return {
+    key,
+    name: definition.name,
+    description: definition.description,
+    subject: template?.subject ?? definition.subject,
+    body: template?.body ?? definition.body,
+    variables: definition.variables,
+    isCustom: !!template,
+    updatedBy: template?.updated_by ?? null,
+    updatedAt: template?.updated_at ?? null,
+  };
+}
+
+export class EmailTemplateService {
+  private async getCompany(companyId: string) {
+    const company = await companyService.findById(companyId);
+    if (!company) {
+      throw new NotFoundError("Company not found");
+    }
+    return company;
+  }
+
+  private async getStoredBranding(companyId: string): Promise<StoredEmailBranding> {
+    const company = await this.getCompany(companyId);
+    return (company.settings?.emailBranding as StoredEmailBranding | undefined) || {};
+  }
+
+  private async saveStoredBranding(companyId: string, branding: StoredEmailBranding): Promise<void> {
+    const company = await this.getCompany(companyId);
+    await companyService.update(companyId, {
+      settings: { ...(company.settings || {}), emailBranding: branding },
+    });
+  }
+
+  private async loadLogo(logoKey: string | null | undefined): Promise<Buffer | null> {
+    if (!logoKey) {
+      return null;
+    }
+    try {
+      return await storageService.get(logoKey);
+    } catch (error) {
+      // A missing logo shouldn't stop emails going out
+      logger.error(`Failed to load email logo ${logoKey}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Reject placeholders the template can't fill, so typos show up when saving rather than in customers' inboxes
+   */
+  private validateContent(key: EmailTemplateKey, content: EmailTemplateContentDto): void {
+    const known = new Set(EMAIL_TEMPLATE_DEFINITIONS[key].variables.map((variable) => variable.name));
+    const unknown = findTemplateVariables(`${content.subject}\n${content.body}`).filter(
+      (name) => !known.has(name)
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Unknown template variable${unknown.length === 1 ? "" : "s"}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Get the company's templates, falling back to the built-in ones
+   */
+  async getTemplates(companyId: string): Promise<EmailTemplate[]> {
+    const templates = await db
+      .selectFrom("email_templates")
+      .select(["template_key", "subject", "body", "updated_by", "updated_at"])
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return EMAIL_TEMPLATE_KEYS.map((key) =>
+      toEmailTemplate(key, templates.find((template) => template.template_key === key))
+    );
+  }
+
+  async getTemplate(companyId: string, key: EmailTemplateKey): Promise<EmailTemplate> {
+    const template = await db
+      .selectFrom("email_templates")
+      .select(["subject", "body", "updated_by", "updated_at"])
+      .where("company_id", "=", companyId)
+      .where("template_key", "=", key)
+      .executeTakeFirst();
+
+    return toEmailTemplate(key, template);
+  }
+
+  async saveTemplate(
+    companyId: string,
+    key: EmailTemplateKey,
+    content: EmailTemplateContentDto,
+    userId: string
+  ): Promise<EmailTemplate> {
+    this.validateContent(key, content);
+
+    const template = await db
+      .insertInto("email_templates")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        template_key: key,
+        subject: content.subject,
+        body: content.body,
+        updated_by: userId,
+      })
+      .onConflict((oc) =>
+        oc.columns(["company_id", "template_key"]).doUpdateSet({
+          subject: content.subject,
+          body: content.body,
+          updated_by: userId,
+          updated_at: new Date(),
+        })
+      )
+      .returning(["subject", "body", "updated_by", "updated_at"])
+      .executeTakeFirstOrThrow();
+
+    return toEmailTemplate(key, template);
+  }
+
+  /**
+   * Go back to the built-in template
+   */
+  async resetTemplate(companyId: string, key: EmailTemplateKey): Promise<EmailTemplate> {
+    await db
+      .deleteFrom("email_templates")
+      .where("company_id", "=", companyId)
+      .where("template_key", "=", key)
+      .execute();
+
+    return toEmailTemplate(key);
+  }
+
+  async getBranding(companyId: string): Promise<EmailBranding> {
+    const stored = await this.getStoredBranding(companyId);
+    const logo = await this.loadLogo(stored.logoKey);
+
+    return {
+      primaryColor: isHexColor(stored.primaryColor) ? stored.primaryColor : DEFAULT_PRIMARY_COLOR,
+      accentColor: isHexColor(stored.accentColor) ? stored.accentColor : DEFAULT_ACCENT_COLOR,
+      logoUrl: logo ? `data:image/png;base64,${logo.toString("base64")}` : null,
+    };
+  }
+
+  async updateBranding(companyId: string, data: UpdateEmailBrandingDto): Promise<EmailBranding> {
+    const stored = await this.getStoredBranding(companyId);
+    await this.saveStoredBranding(companyId, {
+      ...stored,
+      ...(data.primaryColor !== undefined && { primaryColor: data.primaryColor }),
+      ...(data.accentColor !== undefined && { accentColor: data.accentColor }),
+    });
+
+    return this.getBranding(companyId);
+  }
+
+  /**
+   * Replace the company's logo
+   */
+  async setLogo(companyId: string, file: UploadAttachmentDto): Promise<EmailBranding> {
+    if (!LOGO_CONTENT_TYPES.includes(file.contentType)) {
+      throw new BadRequestError(
+        `File type ${file.contentType} is not allowed. Allowed types: ${LOGO_CONTENT_TYPES.join(", ")}`
+      );
+    }
+
+    let logo: Buffer;
+    try {
+      logo = await sharp(file.data)
+        .resize({
+          width: LOGO_MAX_WIDTH,
+          height: LOGO_MAX_HEIGHT,
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      logger.warn(`Failed to read logo ${file.fileName}:`, error);
+      throw new BadRequestError("Logo could not be read as an image");
+    }
+
+    const stored = await this.getStoredBranding(companyId);
+    const logoKey = `${companyId}/branding/logo-${uuidv4()}.png`;
+    await storageService.put(logoKey, logo, "image/png");
+    await this.saveStoredBranding(companyId, { ...stored, logoKey });
+
+    if (stored.logoKey) {
+      await storageService.delete(stored.logoKey);
+    }
+
+    return this.getBranding(companyId);
+  }
+
+  async removeLogo(companyId: string): Promise<EmailBranding> {
+    const stored = await this.getStoredBranding(companyId);
+    if (stored.logoKey) {
+      await this.saveStoredBranding(companyId, { ...stored, logoKey: null });
+      await storageService.delete(stored.logoKey);
+    }
+
+    return this.getBranding(companyId);
+  }
+
+  /**
+   * Sample values for previews and test emails
+   */
+  async getSampleVariables(companyId: string, key: EmailTemplateKey): Promise<TemplateVariables> {
+    const company = await this.getCompany(companyId);
+    const variables: TemplateVariables = {};
+    for (const variable of EMAIL_TEMPLATE_DEFINITIONS[key].variables) {
+      variables[variable.name] = variable.sample;
+    }
+    variables.companyName = company.name;
+    return variables;
+  }
+
+  /**
+   * Render one of a company's emails with its branding
+   * Without a company (e.g. a password reset for an unknown user) the built-in template is used unbranded.
+   */
+  async render(
+    companyId: string | null,
+    key: EmailTemplateKey,
+    variables: TemplateVariables,
+    options: RenderEmailOptions = {}
+  ): Promise<RenderedEmail> {
+    let content: EmailTemplateContentDto = options.content || EMAIL_TEMPLATE_DEFINITIONS[key];
+    let companyName = variables.companyName || "";
+    let primaryColor = DEFAULT_PRIMARY_COLOR;
+    let accentColor = DEFAULT_ACCENT_COLOR;
+    let logo: Buffer | null = null;
+
+    if (companyId) {
+      if (options.content) {
+        this.validateContent(key, options.content);
+      } else {
+        content = await this.getTemplate(companyId, key);
+      }
+
+      const company = await this.getCompany(companyId);
+      const stored = (company.settings?.emailBranding as StoredEmailBranding | undefined) || {};
+      companyName = companyName || company.name;
+      primaryColor = isHexColor(stored.primaryColor) ? stored.primaryColor : primaryColor;
+      accentColor = isHexColor(stored.accentColor) ? stored.accentColor : accentColor;
+      logo = await this.loadLogo(stored.logoKey);
+    }
+
+    const filled = { ...variables, companyName };
+    const subject = renderTemplate(content.subject, filled).replace(/\s+/g, " ");
+    const body = renderTemplate(content.body, filled);
+
+    let logoSrc: string | null = null;
+    const attachments: EmailAttachment[] = [];
+    if (logo) {
+      if (options.preview) {
+        logoSrc = `data:image/png;base64,${logo.toString("base64")}`;
+      } else {
+        logoSrc = `cid:${LOGO_CONTENT_ID}`;
+        attachments.push({
+          content: logo.toString("base64"),
+          filename: "logo.png",
+          type: "image/png",
+          contentId: LOGO_CONTENT_ID,
+        });
+      }
+    }
+
+    const branding = { companyName, logoSrc, primaryColor, accentColor };
+    return {
+      subject,
+      text: toPlainText(body),
+      html: wrapEmailLayout(toHtmlContent(body, branding), branding),
+      attachments,
+    };
+  }
+}
+
+export default new EmailTemplateService();
@@ -0,0 +1,885 @@
+// src/services/estimate.service.ts
+import { sql, Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import { Database, EstimateStatus } from "../config/types.js";
+import { AWAITING_APPROVAL_STATUS } from "../config/workflow.js";
+import emailService from "../integrations/email/email.service.js";
+import { verifyEstimateToken } from "../utils/auth.js";
+import companyService from "./company.service.js";
+import customerService from "./customer.service.js";
+import invoiceService from "./invoice.service.js";
+import ticketEventService from "./ticket-event.service.js";
+import ticketService from "./ticket.service.js";
+import workflowService from "./workflow.service.js";
+
+// Input DTOs
+export interface EstimateItemDto {
+  inventoryItemId?: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent?: number;
+  type: "part" | "service" | "other";
+}
+
+export interface CreateEstimateDto {
+  ticketId: string;
+  notes?: string | null;
+  validUntil?: string | null;
+  items: EstimateItemDto[];
+}
+
+export interface UpdateEstimateDto {
+  notes?: string | null;
+  validUntil?: string | null;
+  // Replaces all of the estimate's lines when given
+  items?: EstimateItemDto[];
+}
+
+export interface EstimateItem {
+  id: string;
+  inventoryItemId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+  discountAmount: number;
+  subtotal: number;
+  type: "part" | "service" | "other";
+  isTaxable: boolean;
+}
+
+// Output type - converts snake_case to camelCase
+export interface Estimate {
+  id: string;
+  locationId: string | null;
+  ticketId: string;
+  customerId: string;
+  estimateNumber: string;
+  status: EstimateStatus;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  totalAmount: number;
+  notes: string | null;
+  validUntil: Date | null;
+  sentAt: Date | null;
+  respondedAt: Date | null;
+  approvedByName: string | null;
+  declineReason: string | null;
+  invoiceId: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  items: EstimateItem[];
+}
+
+// What the customer sees when they open the approval link
+export interface CustomerEstimate {
+  companyName: string;
+  estimateNumber: string;
+  status: EstimateStatus;
+  isExpired: boolean;
+  ticketNumber: string;
+  device: string;
+  issueDescription: string;
+  notes: string | null;
+  validUntil: Date | null;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  respondedAt: Date | null;
+  approvedByName: string | null;
+  items: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    subtotal: number;
+    type: "part" | "service" | "other";
+  }[];
+}
+
+type EstimateRow = {
+  id: string;
+  location_id: string | null;
+  ticket_id: string;
+  customer_id: string;
+  estimate_number: string;
+  status: EstimateStatus;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total_amount: number;
+  notes: string | null;
+  valid_until: Date | null;
+  previous_ticket_status: string | null;
+  sent_at: Date | null;
+  responded_at: Date | null;
+  approved_by_name: string | null;
+  decline_reason: string | null;
+  invoice_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+// Messages for estimates the customer can no longer respond to
+const CLOSED_ESTIMATE_MESSAGES: Record<EstimateStatus, string> = {
+  draft: "This estimate is not available",
+  sent: "",
+  approved: "This estimate has already been approved",
+  declined: "This estimate has already been declined",
+  withdrawn: "This estimate has been withdrawn. Please contact us for an updated estimate.",
+};
+
+function toEstimateItem(item: {
+  id: string;
+  inventory_item_id: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  discount_amount: number;
+  subtotal: number;
+  type: "part" | "service" | "other";
+  is_taxable: boolean;
+}): EstimateItem {
+  return {
+    id: item.id,
+    inventoryItemId: item.inventory_item_id,
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: Number(item.unit_price),
+    discountPercent: Number(item.discount_percent),
+    discountAmount: Number(item.discount_amount),
+    subtotal: Number(item.subtotal),
+    type: item.type,
+    isTaxable: item.is_taxable,
+  };
+}
+
+function toEstimate(estimate: EstimateRow, items: EstimateItem[]): Estimate {
+  return {
+    id: estimate.id,
+    locationId: estimate.location_id,
+    ticketId: estimate.ticket_id,
+    customerId: estimate.customer_id,
+    estimateNumber: estimate.estimate_number,
+    status: estimate.status,
+    subtotal: Number(estimate.subtotal),
+    taxRate: Number(estimate.tax_rate),
+    taxAmount: Number(estimate.tax_amount),
+    totalAmount: Number(estimate.total_amount),
+    notes: estimate.notes,
+    validUntil: estimate.valid_until,
+    sentAt: estimate.sent_at,
+    respondedAt: estimate.responded_at,
+    approvedByName: estimate.approved_by_name,
+    declineReason: estimate.decline_reason,
+    invoiceId: estimate.invoice_id,
+    createdBy: estimate.created_by,
+    createdAt: estimate.created_at,
+    updatedAt: estimate.updated_at,
+    items,
+  };
+}
+
+// Generate estimate number (scoped to company)
+async function generateEstimateNumber(companyId: string): Promise<string> {
+  const prefix = "EST";
+  const year = new Date().getFullYear();
+  const month = (new Date().getMonth() + 1).toString().padStart(2, "0");
+  const timestamp = Date.now().toString().slice(-6);
+  const estimateNumber = `${prefix}-${year}${month}-${timestamp}`;
+
+  const existing = await db
+    .selectFrom("estimates")
+    .select("id")
+    .where("estimate_number", "=", estimateNumber)
+    .where("company_id", "=", companyId)
+    .executeTakeFirst();
+
+  if (existing) {
+    // Recursively generate new number if collision
+    return generateEstimateNumber(companyId);
+  }
+
+  return estimateNumber;
+}
+
+function isExpired(estimate: { valid_until: Date | null }, now: Date = new Date()): boolean {
+  return !!estimate.valid_until && new Date(estimate.valid_until).getTime() < now.getTime();
+}
+
+export class EstimateService {
+  async findAll(
+    companyId: string,
+    ticketId?: string,
+    status?: EstimateStatus
+  ): Promise<Estimate[]> {
+    let query = db
+      .selectFrom("estimates")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null);
+
+    if (ticketId) {
+      query = query.where("ticket_id", "=", ticketId);
+    }
+    if (status) {
+      query = query.where("status", "=", status);
+    }
+
+    const estimates = await query.orderBy("created_at", "desc").execute();
+    if (estimates.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .selectFrom("estimate_items")
+      .selectAll()
+      .where(
+        "estimate_id",
+        "in",
+        estimates.map((estimate) => estimate.id)
+      )
+      .orderBy("sort_order", "asc")
+      .execute();
+
+    return estimates.map((estimate) =>
+      toEstimate(
+        estimate,
+        items.filter((item) => item.estimate_id === estimate.id).map(toEstimateItem)
+      )
+    );
+  }
+
+  async findById(id: string, companyId: string): Promise<Estimate | null> {
+    const estimate = await this.findRow(id, companyId);
+    if (!estimate) {
+      return null;
+    }
+    return toEstimate(estimate, await this.getItems(id));
+  }
+
+  /**
+   * Create a draft estimate for a ticket
+   * Tax is worked out from the ticket's location, falling back to the user's location
+   */
+  async create(
+    data: CreateEstimateDto,
+    companyId: string,
+    locationId: string | null,
+    actorId: string | null = null
+  ): Promise<Estimate> {
+    const ticket = await ticketService.findById(data.ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const estimateLocationId = ticket.locationId || locationId;
+    const lines = await this.buildLines(data.items, companyId);
+    const totals = await this.calculateTotals(lines, estimateLocationId, companyId);
+    const estimateNumber = await generateEstimateNumber(companyId);
+    const estimateId = uuidv4();
+
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .insertInto("estimates")
+        .values({
+          id: estimateId,
+          company_id: companyId,
+          location_id: estimateLocationId,
+          ticket_id: ticket.id,
+          customer_id: ticket.customerId,
+          estimate_number: estimateNumber,
+          status: "draft",
+          subtotal: totals.subtotal,
+          tax_rate: totals.taxRate,
+          tax_amount: totals.taxAmount,
+          total_amount: totals.totalAmount,
+          notes: data.notes || null,
+          valid_until: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+          created_by: actorId,
+          created_at: sql`now()`,
+          updated_at: sql`now()`,
+        })
+        .execute();
+
+      await this.insertLines(trx, estimateId, lines);
+    });
+
+    return (await this.findById(estimateId, companyId))!;
+  }
+
+  /**
+   * Update a draft estimate. Sent estimates can't change while the customer is reviewing them
+   */
+  async update(
+    id: string,
+    data: UpdateEstimateDto,
+    companyId: string
+  ): Promise<Estimate | null> {
+    const current = await this.findRow(id, companyId);
+    if (!current) {
+      return null;
+    }
+    if (current.status !== "draft") {
+      throw new BadRequestError("Only draft estimates can be edited");
+    }
+
+    const lines = data.items ? await this.buildLines(data.items, companyId) : null;
+    const totals = lines
+      ? await this.calculateTotals(lines, current.location_id, companyId)
+      : null;
+
+    await db.transaction().execute(async (trx) => {
+      let updateQuery = trx
+        .updateTable("estimates")
+        .set({ updated_at: sql`now()` })
+        .where("id", "=", id)
+        .where("company_id", "=", companyId);
+
+      if (data.notes !== undefined) {
+        updateQuery = updateQuery.set({ notes: data.notes || null });
+      }
+      if (data.validUntil !== undefined) {
+        updateQuery = updateQuery.set({
+          valid_until: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+        });
+      }
+      if (totals) {
+        updateQuery = updateQuery.set({
+          subtotal: totals.subtotal,
+          tax_rate: totals.taxRate,
+          tax_amount: totals.taxAmount,
+          total_amount: totals.totalAmount,
+        });
+      }
+      await updateQuery.execute();
+
+      if (lines) {
+        await trx.deleteFrom("estimate_items").where("estimate_id", "=", id).execute();
+        await this.insertLines(trx, id, lines);
+      }
+    });
+
+    return this.findById(id, companyId);
+  }
+
+  async delete(id: string, companyId: string): Promise<boolean> {
+    const current = await this.findRow(id, companyId);
+    if (!current) {
+      return false;
+    }
+    if (current.status !== "draft") {
+      throw new BadRequestError("Only draft estimates can be deleted");
+    }
+
+    const result = await db
+      .updateTable("estimates")
+      .set({ deleted_at: sql`now()`, updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows) > 0;
+  }
+
+  /**
+   * Send a draft estimate to the customer for approval
+   * The ticket waits in Awaiting Approval until the customer responds or the estimate is withdrawn
+   */
+  async send(id: string, companyId: string, actorId: string | null = null): Promise<Estimate> {
+    const current = await this.findRow(id, companyId);
+    if (!current) {
+      throw new NotFoundError("Estimate not found");
+    }
+    if (current.status !== "draft") {
+      throw new BadRequestError("Only draft estimates can be sent");
+    }
+    if (isExpired(current)) {
+      throw new BadRequestError("Estimate's valid until date has already passed");
+    }
+
+    const items = await this.getItems(id);
+    if (items.length === 0) {
+      throw new BadRequestError("Add at least one line before sending the estimate");
+    }
+
+    const ticket = await ticketService.findById(current.ticket_id, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+    if (ticket.status === AWAITING_APPROVAL_STATUS) {
+      throw new BadRequestError(
+        "This ticket already has an estimate awaiting approval. Withdraw it before sending another."
+      );
+    }
+    const closedStatuses = await workflowService.getClosedStatusKeys(companyId);
+    if (closedStatuses.includes(ticket.status)) {
+      throw new BadRequestError("Estimates can't be sent for closed tickets");
+    }
+
+    const sent = await db
+      .updateTable("estimates")
+      .set({
+        status: "sent",
+        sent_at: sql`now()`,
+        previous_ticket_status: ticket.status,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("status", "=", "draft")
+      .returningAll()
+      .executeTakeFirst();
+
+    if (!sent) {
+      throw new BadRequestError("Only draft estimates can be sent");
+    }
+
+    await ticketService.updateStatus(
+      ticket.id,
+      AWAITING_APPROVAL_STATUS,
+      companyId,
+      actorId,
+      undefined,
+      false
+    );
+    await ticketEventService.record(companyId, ticket.id, actorId, [
+      { eventType: "estimate_sent", newValue: sent.estimate_number },
+    ]);
+
+    const estimate = toEstimate(sent, items);
+    try {
+      const customer = await customerService.findById(estimate.customerId, companyId);
+      if (customer) {
+        await emailService.sendEstimateEmail(companyId, estimate, ticket, customer);
+      }
+    } catch {
+      // Don't fail sending if email fails - staff can share the estimate another way
+      // Error is already logged in emailService
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Take back an estimate the customer hasn't answered yet, releasing the ticket
+   */
+  async withdraw(id: string, companyId: string, actorId: string | null = null): Promise<Estimate> {
+    const withdrawn = await db
+      .updateTable("estimates")
+      .set({ status: "withdrawn", updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where("status", "=", "sent")
+      .returningAll()
+      .executeTakeFirst();
+
+    if (!withdrawn) {
+      const current = await this.findRow(id, companyId);
+      if (!current) {
+        throw new NotFoundError("Estimate not found");
+      }
+      throw new BadRequestError("Only estimates awaiting approval can be withdrawn");
+    }
+
+    await this.releaseTicket(withdrawn, companyId, actorId);
+    return toEstimate(withdrawn, await this.getItems(id));
+  }
+
+  /**
+   * Create a draft invoice from an approved estimate
+   * Happens automatically on approval; staff can retry if that failed (e.g. parts out of stock)
+   */
+  async convertToInvoice(
+    id: string,
+    companyId: string,
+    fallbackLocationId: string | null = null
+  ): Promise<Estimate> {
+    // Staff and the customer's approval can both convert the estimate, so hold its row until the
+    // invoice is linked and the second one sees it
+    return db.transaction().execute(async (trx) => {
+      const current = await trx
+        .selectFrom("estimates")
+        .selectAll()
+        .where("id", "=", id)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .forUpdate()
+        .executeTakeFirst();
+      if (!current) {
+        throw new NotFoundError("Estimate not found");
+      }
+      if (current.status !== "approved") {
+        throw new BadRequestError("Only approved estimates can be converted to an invoice");
+      }
+      if (current.invoice_id) {
+        throw new BadRequestError("This estimate has already been converted to an invoice");
+      }
+
+      const locationId = current.location_id || fallbackLocationId;
+      if (!locationId) {
+        throw new BadRequestError("Estimate has no location to invoice from");
+      }
+
+      const items = await this.getItems(id);
+      const invoice = await invoiceService.create(
+        {
+          customerId: current.customer_id,
+          ticketId: current.ticket_id,
+          status: "draft",
+          notes: `Created from estimate ${current.estimate_number}${current.notes ? `\n\n${current.notes}` : ""}`,
+        },
+        companyId,
+        locationId,
+        // The estimate lists the parts itself; its lines use up any matching reservations
+        { includeReservedParts: false }
+      );
+
+      try {
+        for (const item of items) {
+          await invoiceService.createInvoiceItem(
+            {
+              invoiceId: invoice.id,
+              inventoryItemId: item.inventoryItemId,
+              description: item.description,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              discountPercent: item.discountPercent,
+              type: item.type,
+            },
+            companyId
+          );
+        }
+      } catch (error) {
+        // Don't leave a half-built invoice behind
+        await invoiceService.delete(invoice.id, companyId);
+        throw error;
+      }
+
+      const updated = await trx
+        .updateTable("estimates")
+        .set({ invoice_id: invoice.id, updated_at: sql`now()` })
+        .where("id", "=", id)
+        .where("company_id", "=", companyId)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      return toEstimate(updated, items);
+    });
+  }
+
+  /**
+   * Get the customer's view of an estimate from an approval link token
+   */
+  async getForCustomer(token: string): Promise<CustomerEstimate> {
+    const { estimateId, companyId } = this.verify(token);
+    const estimate = await this.findRow(estimateId, companyId);
+    if (!estimate || estimate.status === "draft") {
+      throw new NotFoundError("Estimate not found");
+    }
+
+    const [company, ticket, items] = await Promise.all([
+      companyService.findById(companyId),
+      ticketService.findById(estimate.ticket_id, companyId),
+      this.getItems(estimateId),
+    ]);
+    if (!ticket) {
+      throw new NotFoundError("Estimate not found");
+    }
+
+    return {
+      companyName: company?.name || "",
+      estimateNumber: estimate.estimate_number,
+      status: estimate.status,
+      isExpired: estimate.status === "sent" && isExpired(estimate),
+      ticketNumber: ticket.ticketNumber,
+      device: [ticket.deviceType, ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(" "),
+      issueDescription: ticket.issueDescription,
+      notes: estimate.notes,
+      validUntil: estimate.valid_until,
+      subtotal: Number(estimate.subtotal),
+      taxAmount: Number(estimate.tax_amount),
+      totalAmount: Number(estimate.total_amount),
+      respondedAt: estimate.responded_at,
+      approvedByName: estimate.approved_by_name,
+      items: items.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discountAmount: item.discountAmount,
+        subtotal: item.subtotal,
+        type: item.type,
+      })),
+    };
+  }
+
+  /**
+   * Customer approves the estimate: the ticket is released and a draft invoice is created
+   */
+  async approve(token: string, name: string): Promise<CustomerEstimate> {
+    const { estimateId, companyId } = this.verify(token);
+    const approved = await this.respond(estimateId, companyId, {
+      status: "approved",
+      approved_by_name: name.trim(),
+    });
+
+    await ticketEventService.record(companyId, approved.ticket_id, null, [
+      { eventType: "estimate_approved", newValue: approved.estimate_number },
+    ]);
+
+    try {
+      await this.convertToInvoice(estimateId, companyId);
+    } catch (error) {
+      // The approval stands; staff can convert it from the ticket once the problem is fixed
+      logger.error(`Failed to create invoice from estimate ${approved.estimate_number}:`, error);
+    }
+
+    return this.getForCustomer(token);
+  }
+
+  /**
+   * Customer declines the estimate, optionally saying why
+   */
+  async decline(token: string, reason?: string | null): Promise<CustomerEstimate> {
+    const { estimateId, companyId } = this.verify(token);
+    const declined = await this.respond(estimateId, companyId, {
+      status: "declined",
+      decline_reason: reason?.trim() || null,
+    });
+
+    await ticketEventService.record(companyId, declined.ticket_id, null, [
+      { eventType: "estimate_declined", newValue: declined.estimate_number },
+    ]);
+
+    return this.getForCustomer(token);
+  }
+
+  private verify(token: string): { estimateId: string; companyId: string } {
+    const decoded = verifyEstimateToken(token);
+    if (!decoded) {
+      throw new BadRequestError("This link is invalid or has expired");
+    }
+    return decoded;
+  }
+
+  // Record the customer's answer and put the ticket back where it was
+  private async respond(
+    estimateId: string,
+    companyId: string,
+    changes: {
+      status: "approved" | "declined";
+      approved_by_name?: string;
+      decline_reason?: string | null;
+    }
+  ): Promise<EstimateRow> {
+    const current = await this.findRow(estimateId, companyId);
+    if (!current || current.status === "draft") {
+      throw new NotFoundError("Estimate not found");
+    }
+    if (current.status !== "sent") {
+      throw new BadRequestError(CLOSED_ESTIMATE_MESSAGES[current.status]);
+    }
+    if (isExpired(current)) {
+      throw new BadRequestError(
+        "This estimate has expired. Please contact us for an updated estimate."
+      );
+    }
+
+    const updated = await db
+      .updateTable("estimates")
+      .set({ ...changes, responded_at: sql`now()`, updated_at: sql`now()` })
+      .where("id", "=", estimateId)
+      .where("company_id", "=", companyId)
+      .where("status", "=", "sent")
+      .returningAll()
+      .executeTakeFirst();
+
+    if (!updated) {
+      throw new BadRequestError("This estimate has already been answered");
+    }
+
+    await this.releaseTicket(updated, companyId, null);
+    return updated;
+  }
+
+  // Move the ticket out of Awaiting Approval, back to the status it had when the estimate was sent
+  private async releaseTicket(
+    estimate: EstimateRow,
+    companyId: string,
+    actorId: string | null
+  ): Promise<void> {
+    const ticket = await ticketService.findById(estimate.ticket_id, companyId);
+    if (!ticket || ticket.status !== AWAITING_APPROVAL_STATUS) {
+      return;
+    }
+
+    await ticketService.updateStatus(
+      ticket.id,
+      estimate.previous_ticket_status || "new",
+      companyId,
+      actorId,
+      undefined,
+      false
+    );
+  }
+
+  private async findRow(id: string, companyId: string): Promise<EstimateRow | undefined> {
+    return db
+      .selectFrom("estimates")
+      .selectAll()
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+  }
+
+  private async getItems(estimateId: string): Promise<EstimateItem[]> {
+    const items = await db
+      .selectFrom("estimate_items")
+      .selectAll()
+      .where("estimate_id", "=", estimateId)
+      .orderBy("sort_order", "asc")
+      .execute();
+    return items.map(toEstimateItem);
+  }
+
+  // Price each line; parts from inventory use the item's taxable setting
+  private async buildLines(
+    items: EstimateItemDto[],
+    companyId: string
+  ): Promise<Omit<EstimateItem, "id">[]> {
+    const inventoryIds = items
+      .map((item) => item.inventoryItemId)
+      .filter((id): id is string => !!id);
+
+    const inventoryItems =
+      inventoryIds.length > 0
+        ? await db
+            .selectFrom("inventory_items")
+            .select(["id", "is_taxable"])
+            .where("id", "in", inventoryIds)
+            .where("company_id", "=", companyId)
+            .where("deleted_at", "is", null)
+            .execute()
+        : [];
+
+    return items.map((item) => {
+      let isTaxable = true;
+      if (item.inventoryItemId) {
+        const inventoryItem = inventoryItems.find((i) => i.id === item.inventoryItemId);
+        if (!inventoryItem) {
+          throw new NotFoundError("Inventory item not found or does not belong to company");
+        }
+        isTaxable = inventoryItem.is_taxable ?? true;
+      }
+
+      const lineTotal = item.quantity * item.unitPrice;
+      const discountPercent = item.discountPercent ?? 0;
+      const discountAmount = lineTotal * (discountPercent / 100);
+
+      return {
+        inventoryItemId: item.inventoryItemId || null,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discountPercent,
+        discountAmount,
+        subtotal: lineTotal - discountAmount,
+        type: item.type,
+        isTaxable,
+      };
+    });
+  }
+
+  private async insertLines(
+    trx: Transaction<Database>,
+    estimateId: string,
+    lines: Omit<EstimateItem, "id">[]
+  ): Promise<void> {
+    if (lines.length === 0) {
+      return;
+    }
+
+    await trx
+      .insertInto("estimate_items")
+      .values(
+        lines.map((line, index) => ({
+          id: uuidv4(),
+          estimate_id: estimateId,
+          inventory_item_id: line.inventoryItemId,
+          description: line.description,
+          quantity: line.quantity,
+          unit_price: line.unitPrice,
+          discount_percent: line.discountPercent,
+          discount_amount: line.discountAmount,
+          subtotal: line.subtotal,
+          type: line.type,
+          is_taxable: line.isTaxable,
+          sort_order: index,
+          created_at: sql`now()`,
+          updated_at: sql`now()`,
+        }))
+      )
+      .execute();
+  }
+
+  // Same tax rules as invoices so the approved estimate matches the invoice it becomes
+  private async calculateTotals(
+    lines: Omit<EstimateItem, "id">[],
+    locationId: string | null,
+    companyId: string
+  ): Promise<{ subtotal: number; taxRate: number; taxAmount: number; totalAmount: number }> {
+    const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+    const taxableSubtotal = lines
+      .filter((line) => line.isTaxable)
+      .reduce((sum, line) => sum + line.subtotal, 0);
+
+    let taxRate = 0;
+    let taxEnabled = true;
+    let taxInclusive = false;
+    if (locationId) {
+      const location = await db
+        .selectFrom("locations")
+        .select(["state_tax", "county_tax", "city_tax", "tax_enabled", "tax_inclusive"])
+        .where("id", "=", locationId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+
+      if (location) {
+        taxRate =
+          Number(location.state_tax || 0) +
+          Number(location.county_tax || 0) +
+          Number(location.city_tax || 0);
+        taxEnabled = location.tax_enabled ?? true;
+        taxInclusive = location.tax_inclusive ?? false;
+      }
+    }
+
+    let taxAmount = 0;
+    if (taxEnabled && taxRate > 0) {
+      taxAmount = taxInclusive
+        ? taxableSubtotal - taxableSubtotal / (1 + taxRate / 100)
+        : taxableSubtotal * (taxRate / 100);
+    }
+
+    return {
+      subtotal,
+      taxRate,
+      taxAmount,
+      totalAmount: subtotal + (taxInclusive ? 0 : taxAmount),
+    };
+  }
+}
+
+export default new EstimateService();
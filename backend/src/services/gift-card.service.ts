@@ -0,0 +1,410 @@
+// src/services/gift-card.service.ts
+import { randomInt } from "crypto";
+import { sql, Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import { Database, GiftCardTransactionType } from "../config/types.js";
+import cashDrawerService from "./cash-drawer.service.js";
+
+// Letters and digits that can't be mistaken for each other when read off a card (no 0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_GROUPS = 4;
+const CODE_GROUP_LENGTH = 4;
+
+// Input DTOs
+export interface CreateGiftCardDto {
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string | null;
+  // Customer buying the card, if known
+  customerId?: string | null;
+  // Code printed on a pre-made card; one is generated when left out
+  code?: string | null;
+  notes?: string | null;
+}
+
+// Spending from a gift card, recorded inside the caller's transaction
+export interface RedeemGiftCardDto {
+  code: string;
+  amount: number;
+  invoiceId: string;
+  invoicePaymentId: string;
+  createdBy?: string | null;
+}
+
+export interface GiftCardListOptions {
+  search?: string;
+  customerId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Output types - convert snake_case to camelCase
+export interface GiftCard {
+  id: string;
+  code: string;
+  customerId: string | null;
+  initialAmount: number;
+  balance: number;
+  isActive: boolean;
+  notes: string | null;
+  issuedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GiftCardTransaction {
+  id: string;
+  giftCardId: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  balanceAfter: number;
+  paymentMethod: string | null;
+  paymentReference: string | null;
+  cashDrawerSessionId: string | null;
+  invoiceId: string | null;
+  invoicePaymentId: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+function toGiftCard(card: {
+  id: string;
+  code: string;
+  customer_id: string | null;
+  initial_amount: number;
+  balance: number;
+  is_active: boolean;
+  notes: string | null;
+  issued_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}): GiftCard {
+  return {
+    id: card.id,
+    code: card.code,
+    customerId: card.customer_id,
+    initialAmount: Number(card.initial_amount),
+    balance: Number(card.balance),
+    isActive: card.is_active,
+    notes: card.notes,
+    issuedBy: card.issued_by,
+    createdAt: card.created_at,
+    updatedAt: card.updated_at,
+  };
+}
+
+function toGiftCardTransaction(transaction: {
+  id: string;
+  gift_card_id: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  balance_after: number;
+  payment_method: string | null;
+  payment_reference: string | null;
+  cash_drawer_session_id: string | null;
+  invoice_id: string | null;
+  invoice_payment_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: Date;
+}): GiftCardTransaction {
+  return {
+    id: transaction.id,
+    giftCardId: transaction.gift_card_id,
+    type: transaction.type,
+    amount: Number(transaction.amount),
+    balanceAfter: Number(transaction.balance_after),
+    paymentMethod: transaction.payment_method,
+    paymentReference: transaction.payment_reference,
+    cashDrawerSessionId: transaction.cash_drawer_session_id,
+    invoiceId: transaction.invoice_id,
+    invoicePaymentId: transaction.invoice_payment_id,
+    notes: transaction.notes,
+    createdBy: transaction.created_by,
+    createdAt: transaction.created_at,
+  };
+}
+
+// Codes are matched without case, spaces or dashes, so "abcd efgh" finds ABCD-EFGH
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+const normalizedCodeColumn = sql<string>`regexp_replace(upper(code), '[^A-Z0-9]', '', 'g')`;
+
+function generateCode(): string {
+  const groups = Array.from({ length: CODE_GROUPS }, () =>
+    Array.from(
+      { length: CODE_GROUP_LENGTH },
+      () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+    ).join("")
+  );
+  return groups.join("-");
+}
+
+export class GiftCardService {
+  /**
+   * Get a company's gift cards, newest first
+   */
+  async findAll(
+    companyId: string,
+    options: GiftCardListOptions = {}
+  ): Promise<{
+    data: GiftCard[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const offset = (page - 1) * limit;
+
+    let countQuery = db
+      .selectFrom("gift_cards")
+      .select((eb) => eb.fn.countAll<string>().as("count"))
+      .where("company_id", "=", companyId);
+
+    let dataQuery = db.selectFrom("gift_cards").selectAll().where("company_id", "=", companyId);
+
+    const search = options.search ? normalizeCode(options.search) : "";
+    if (search) {
+      countQuery = countQuery.where(normalizedCodeColumn, "like", `%${search}%`);
+      dataQuery = dataQuery.where(normalizedCodeColumn, "like", `%${search}%`);
+    }
+    if (options.customerId) {
+      countQuery = countQuery.where("customer_id", "=", options.customerId);
+      dataQuery = dataQuery.where("customer_id", "=", options.customerId);
+    }
+
+    const totalResult = await countQuery.executeTakeFirst();
+    const total = Number(totalResult?.count || 0);
+
+    const cards = await dataQuery
+      .orderBy("created_at", "desc")
+      .orderBy("id", "desc")
+      .limit(limit)
+      .offset(offset)
+      .execute();
+
+    return {
+      data: cards.map(toGiftCard),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findById(id: string, companyId: string): Promise<GiftCard | null> {
+    const card = await db
+      .selectFrom("gift_cards")
+      .selectAll()
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return card ? toGiftCard(card) : null;
+  }
+
+  async findByCode(code: string, companyId: string): Promise<GiftCard | null> {
+    const normalized = normalizeCode(code);
+    if (!normalized) {
+      return null;
+    }
+
+    const card = await db
+      .selectFrom("gift_cards")
+      .selectAll()
+      .where(normalizedCodeColumn, "=", normalized)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return card ? toGiftCard(card) : null;
+  }
+
+  /**
+   * Get every change to a gift card's balance, newest first
+   */
+  async findTransactions(id: string, companyId: string): Promise<GiftCardTransaction[]> {
+    const transactions = await db
+      .selectFrom("gift_card_transactions")
+      .selectAll()
+      .where("gift_card_id", "=", id)
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "desc")
+      .execute();
+
+    return transactions.map(toGiftCardTransaction);
+  }
+
+  /**
+   * Sell a gift card, loading it with the amount paid for it
+   */
+  async create(
+    data: CreateGiftCardDto,
+    companyId: string,
+    locationId: string | null,
+    issuedBy: string | null = null
+  ): Promise<GiftCard> {
+    if (data.customerId) {
+      const customer = await db
+        .selectFrom("customers")
+        .select("id")
+        .where("id", "=", data.customerId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (!customer) {
+        throw new NotFoundError("Customer not found");
+      }
+    }
+
+    let code: string;
+    if (data.code) {
+      code = data.code.trim().toUpperCase();
+      if (!normalizeCode(code)) {
+        throw new BadRequestError("Gift card code must contain letters or numbers");
+      }
+      if (await this.findByCode(code, companyId)) {
+        throw new BadRequestError("A gift card with this code already exists");
+      }
+    } else {
+      do {
+        code = generateCode();
+      } while (await this.findByCode(code, companyId));
+    }
+
+    // Cards sold for cash go into the location's open drawer, if there is one
+    let cashDrawerSessionId: string | null = null;
+    if (data.paymentMethod === "Cash") {
+      try {
+        const currentDrawer = await cashDrawerService.getCurrentDrawerSession(companyId, locationId);
+        cashDrawerSessionId = currentDrawer?.id || null;
+      } catch (error) {
+        // Log but don't fail - drawer linking is optional
+        logger.warn(
+          `Failed to link gift card sale to drawer session: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const card = await db.transaction().execute(async (trx) => {
+      const created = await trx
+        .insertInto("gift_cards")
+        .values({
+          id: uuidv4(),
+          company_id: companyId,
+          code,
+          customer_id: data.customerId || null,
+          initial_amount: data.amount,
+          balance: data.amount,
+          notes: data.notes || null,
+          issued_by: issuedBy,
+        })
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      await trx
+        .insertInto("gift_card_transactions")
+        .values({
+          id: uuidv4(),
+          company_id: companyId,
+          gift_card_id: created.id,
+          type: "sale",
+          amount: data.amount,
+          balance_after: data.amount,
+          payment_method: data.paymentMethod,
+          payment_reference: data.paymentReference || null,
+          cash_drawer_session_id: cashDrawerSessionId,
+          created_by: issuedBy,
+        })
+        .execute();
+
+      return created;
+    });
+
+    return toGiftCard(card);
+  }
+
+  /**
+   * Turn a card off (e.g. reported lost) or back on; inactive cards can't be spent
+   */
+  async setActive(id: string, isActive: boolean, companyId: string): Promise<GiftCard | null> {
+    const updated = await db
+      .updateTable("gift_cards")
+      .set({ is_active: isActive, updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .returningAll()
+      .executeTakeFirst();
+
+    return updated ? toGiftCard(updated) : null;
+  }
+
+  /**
+   * Spend from a gift card and log it
+   * Returns the card's ID so the payment can point back to it.
+   */
+  async redeem(
+    trx: Transaction<Database>,
+    companyId: string,
+    data: RedeemGiftCardDto
+  ): Promise<string> {
+    const card = await trx
+      .selectFrom("gift_cards")
+      .select(["id", "balance", "is_active"])
+      .where(normalizedCodeColumn, "=", normalizeCode(data.code))
+      .where("company_id", "=", companyId)
+      .forUpdate()
+      .executeTakeFirst();
+    if (!card) {
+      throw new BadRequestError(`Gift card ${data.code} not found`);
+    }
+    if (!card.is_active) {
+      throw new BadRequestError(`Gift card ${data.code} is not active`);
+    }
+    if (Number(card.balance) < data.amount) {
+      throw new BadRequestError(
+        `Gift card ${data.code} only has ${Number(card.balance).toFixed(2)} left`
+      );
+    }
+
+    const updated = await trx
+      .updateTable("gift_cards")
+      .set((eb) => ({
+        balance: eb("balance", "-", data.amount),
+        updated_at: sql`now()`,
+      }))
+      .where("id", "=", card.id)
+      .returning("balance")
+      .executeTakeFirstOrThrow();
+
+    await trx
+      .insertInto("gift_card_transactions")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        gift_card_id: card.id,
+        type: "redemption",
+        amount: -data.amount,
+        balance_after: updated.balance,
+        invoice_id: data.invoiceId,
+        invoice_payment_id: data.invoicePaymentId,
+        created_by: data.createdBy || null,
+      })
+      .execute();
+
+    return card.id;
+  }
+}
+
+export default new GiftCardService();
@@ -311,7 +311,7 @@ export class InventoryTransferService {
     }
 
     // Validate sufficient quantity at source location
-    const availableQuantity = await inventoryService.getQuantityForLocation(
+    const availableQuantity = await inventoryService.getAvailableQuantityForLocation(
       data.inventoryItemId,
       data.fromLocationId,
       companyId
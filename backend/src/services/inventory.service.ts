@@ -1,9 +1,19 @@
 // src/services/inventory.service.ts
-import { sql } from "kysely";
+import { Kysely, sql, Transaction } from "kysely";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../config/connection.js";
 import { BadRequestError } from "../config/errors.js";
-import { InventoryItemTable } from "../config/types.js";
+import { Database, InventoryItemTable } from "../config/types.js";
+import { buildFilter, FilterSchema, searchColumns } from "../utils/filter.utils.js";
+import {
+  cursorCondition,
+  cursorValue,
+  ListOptions,
+  Page,
+  parseSort,
+  SortFields,
+  toPage,
+} from "../utils/pagination.utils.js";
 
 // Input DTOs
 export interface CreateInventoryItemDto {
@@ -21,6 +31,7 @@ export interface CreateInventoryItemDto {
   location?: string | null;
   supplier?: string | null;
   supplierPartNumber?: string | null;
+  warrantyDays?: number | null;
   isActive?: boolean;
   isTaxable?: boolean;
   trackQuantity?: boolean;
@@ -41,6 +52,7 @@ export interface UpdateInventoryItemDto {
   location?: string | null; // Physical location description
   supplier?: string | null;
   supplierPartNumber?: string | null;
+  warrantyDays?: number | null;
   isActive?: boolean;
   isTaxable?: boolean;
   trackQuantity?: boolean;
@@ -48,7 +60,24 @@ export interface UpdateInventoryItemDto {
 
 export interface LocationQuantity {
   locationId: string;
+  // On-hand stock
   quantity: number;
+  // Held for tickets; available is what's left to sell or reserve
+  reservedQuantity: number;
+  availableQuantity: number;
+}
+
+function toLocationQuantity(qty: {
+  location_id: string;
+  quantity: number;
+  reserved_quantity: number;
+}): LocationQuantity {
+  return {
+    locationId: qty.location_id,
+    quantity: qty.quantity,
+    reservedQuantity: qty.reserved_quantity,
+    availableQuantity: qty.quantity - qty.reserved_quantity,
+  };
 }
 
 // Reference object types
@@ -96,6 +125,7 @@ export type InventoryItem = Omit<
   | "location"
   | "supplier"
   | "supplier_part_number"
+  | "warranty_days"
   | "is_active"
   | "is_taxable"
   | "track_quantity"
@@ -122,6 +152,8 @@ export type InventoryItem = Omit<
   location: string | null; // Physical location description
   supplier: string | null;
   supplierPartNumber: string | null;
+  // Days a repair using this part is under warranty
+  warrantyDays: number | null;
   isActive: boolean;
   isTaxable: boolean;
   trackQuantity: boolean;
@@ -129,6 +161,8 @@ export type InventoryItem = Omit<
   updatedAt: Date;
   locationQuantities: LocationQuantity[];
   quantity?: number; // Optional: quantity for specific location when filtered
+  reservedQuantity?: number;
+  availableQuantity?: number;
 };
 
 // Helper function to convert DB row to InventoryItem (snake_case to camelCase)
@@ -155,6 +189,7 @@ function toInventoryItem(
     location: string | null;
     supplier: string | null;
     supplier_part_number: string | null;
+    warranty_days: number | null;
     is_active: boolean;
     is_taxable: boolean;
     track_quantity: boolean;
@@ -163,7 +198,7 @@ function toInventoryItem(
     deleted_at: Date | null;
   },
   locationQuantities: LocationQuantity[] = [],
-  locationQuantity?: number
+  locationQuantity?: LocationQuantity
 ): InventoryItem {
   return {
     id: item.id as string,
@@ -206,22 +241,80 @@ function toInventoryItem(
     location: item.location,
     supplier: item.supplier,
     supplierPartNumber: item.supplier_part_number,
+    warrantyDays: item.warranty_days,
     isActive: item.is_active,
     isTaxable: item.is_taxable,
     trackQuantity: item.track_quantity,
     createdAt: item.created_at,
     updatedAt: item.updated_at,
     locationQuantities,
-    quantity: locationQuantity,
+    quantity: locationQuantity?.quantity,
+    reservedQuantity: locationQuantity?.reservedQuantity,
+    availableQuantity: locationQuantity?.availableQuantity,
   };
 }
 
+export interface InventoryListOptions extends ListOptions {
+  search?: string;
+  // Quantities to report; null for none
+  locationId?: string | null;
+}
+
+export const INVENTORY_FILTERS: FilterSchema = {
+  fields: {
+    name: { column: "inventory_items.name", type: "text" },
+    sku: { column: "inventory_items.sku", type: "text" },
+    category: { column: "inventory_categories.name", type: "text", nullable: true },
+    subcategory: { column: "inventory_subcategories.name", type: "text", nullable: true },
+    brand: { column: "inventory_brands.name", type: "text", nullable: true },
+    model: { column: "inventory_models.name", type: "text", nullable: true },
+    supplier: { column: "inventory_items.supplier", type: "text", nullable: true },
+    active: { column: "inventory_items.is_active", type: "enum", values: ["true", "false"] },
+    taxable: { column: "inventory_items.is_taxable", type: "enum", values: ["true", "false"] },
+    price: { column: "inventory_items.selling_price", type: "number" },
+    cost: { column: "inventory_items.cost_price", type: "number" },
+    created: { column: "inventory_items.created_at", type: "date" },
+    updated: { column: "inventory_items.updated_at", type: "date" },
+  },
+  search: searchColumns([
+    "inventory_items.sku",
+    "inventory_items.name",
+    "inventory_items.description",
+    "inventory_categories.name",
+    "inventory_brands.name",
+    "inventory_models.name",
+  ]),
+};
+
+export const INVENTORY_SORTS: SortFields = {
+  name: { column: "name", type: "text" },
+  sku: { column: "sku", type: "text" },
+  price: { column: "selling_price", type: "number" },
+  cost: { column: "cost_price", type: "number" },
+  createdAt: { column: "created_at", type: "timestamp" },
+  updatedAt: { column: "updated_at", type: "timestamp" },
+};
+
 export class InventoryService {
   async findAll(
     companyId: string,
     searchQuery?: string,
     locationId?: string | null
   ): Promise<InventoryItem[]> {
+    const page = await this.findPage(companyId, { search: searchQuery, locationId });
+    return page.data;
+  }
+
+  /**
+   * List inventory items matching a filter expression, one page at a time when a limit is given
+   */
+  async findPage(
+    companyId: string,
+    options: InventoryListOptions = {}
+  ): Promise<Page<InventoryItem>> {
+    const { search: searchQuery, locationId } = options;
+    const order = parseSort(options.sort, INVENTORY_SORTS, "name", "inventory_items");
+
     let query = db
       .selectFrom("inventory_items")
       .leftJoin("inventory_categories", (join) =>
@@ -270,6 +363,7 @@ export class InventoryService {
         "inventory_items.location",
         "inventory_items.supplier",
         "inventory_items.supplier_part_number",
+        "inventory_items.warranty_days",
         "inventory_items.is_active",
         "inventory_items.is_taxable",
         "inventory_items.track_quantity",
@@ -277,6 +371,7 @@ export class InventoryService {
         "inventory_items.updated_at",
         "inventory_items.deleted_at",
       ])
+      .select(cursorValue(order))
       .where("inventory_items.company_id", "=", companyId)
       .where("inventory_items.deleted_at", "is", null);
 
@@ -293,21 +388,44 @@ export class InventoryService {
       );
     }
 
-    const items = await query.execute();
+    const filter = buildFilter(options.filter, INVENTORY_FILTERS);
+    if (filter) {
+      query = query.where(filter);
+    }
+
+    if (options.cursor) {
+      query = query.where(cursorCondition(order, options.cursor));
+    }
+
+    query = query
+      .orderBy(sql.ref(`inventory_items.${order.column}`), order.direction)
+      .orderBy("inventory_items.id", order.direction);
+    if (options.limit) {
+      query = query.limit(options.limit + 1);
+    }
+
+    const rows = await query.execute();
+    // Quantities are only needed for the rows on this page
+    const page = toPage(rows, order, options.limit, (row) => row);
+    const items = page.data;
+    if (items.length === 0) {
+      return { data: [], nextCursor: null };
+    }
 
     // Get location quantities for all items
     const itemIds = items.map((item) => item.id);
     let locationQuantitiesQuery = db
       .selectFrom("inventory_location_quantities")
-      .select(["inventory_item_id", "location_id", "quantity"])
+      .select(["inventory_item_id", "location_id", "quantity", "reserved_quantity"])
       .where("inventory_item_id", "in", itemIds);
 
     if (locationId !== undefined) {
       if (locationId === null) {
         // Return empty locationQuantities for null locationId
-        return items.map((item) =>
-          toInventoryItem(item, [], undefined)
-        );
+        return {
+          data: items.map((item) => toInventoryItem(item, [], undefined)),
+          nextCursor: page.nextCursor,
+        };
       } else {
         locationQuantitiesQuery = locationQuantitiesQuery.where(
           "location_id",
@@ -321,36 +439,35 @@ export class InventoryService {
 
     // Group quantities by inventory_item_id
     const quantitiesByItem = new Map<string, LocationQuantity[]>();
-    const quantityByItemAndLocation = new Map<string, number>();
+    const quantityByItemAndLocation = new Map<string, LocationQuantity>();
 
     for (const qty of locationQuantities) {
       const itemId = qty.inventory_item_id as string;
-      const locId = qty.location_id as string;
-      const qtyValue = qty.quantity;
+      const locationQuantity = toLocationQuantity(qty);
 
       if (!quantitiesByItem.has(itemId)) {
         quantitiesByItem.set(itemId, []);
       }
-      quantitiesByItem.get(itemId)!.push({
-        locationId: locId,
-        quantity: qtyValue,
-      });
+      quantitiesByItem.get(itemId)!.push(locationQuantity);
 
       // Store specific location quantity if filtering
-      if (locationId && locId === locationId) {
-        quantityByItemAndLocation.set(itemId, qtyValue);
+      if (locationId && locationQuantity.locationId === locationId) {
+        quantityByItemAndLocation.set(itemId, locationQuantity);
       }
     }
 
     // Build result with location quantities
-    return items.map((item) => {
-      const quantities = quantitiesByItem.get(item.id) || [];
-      const specificQuantity =
-        locationId && quantityByItemAndLocation.has(item.id)
-          ? quantityByItemAndLocation.get(item.id)
-          : undefined;
-      return toInventoryItem(item, quantities, specificQuantity);
-    });
+    return {
+      data: items.map((item) => {
+        const quantities = quantitiesByItem.get(item.id) || [];
+        const specificQuantity =
+          locationId && quantityByItemAndLocation.has(item.id)
+            ? quantityByItemAndLocation.get(item.id)
+            : undefined;
+        return toInventoryItem(item, quantities, specificQuantity);
+      }),
+      nextCursor: page.nextCursor,
+    };
   }
 
   async findById(id: string, companyId: string): Promise<InventoryItem | null> {
@@ -402,6 +519,7 @@ export class InventoryService {
         "inventory_items.location",
         "inventory_items.supplier",
         "inventory_items.supplier_part_number",
+        "inventory_items.warranty_days",
         "inventory_items.is_active",
         "inventory_items.is_taxable",
         "inventory_items.track_quantity",
@@ -421,14 +539,11 @@ export class InventoryService {
     // Get all location quantities for this item
     const locationQuantities = await db
       .selectFrom("inventory_location_quantities")
-      .select(["location_id", "quantity"])
+      .select(["location_id", "quantity", "reserved_quantity"])
       .where("inventory_item_id", "=", id)
       .execute();
 
-    const quantities: LocationQuantity[] = locationQuantities.map((qty) => ({
-      locationId: qty.location_id as string,
-      quantity: qty.quantity,
-    }));
+    const quantities: LocationQuantity[] = locationQuantities.map(toLocationQuantity);
 
     return toInventoryItem(item, quantities);
   }
@@ -576,6 +691,7 @@ export class InventoryService {
         location: data.location || null, // Physical location description
         supplier: data.supplier || null,
         supplier_part_number: data.supplierPartNumber || null,
+        warranty_days: data.warrantyDays ?? null,
         is_active: data.isActive ?? true,
         is_taxable: data.isTaxable !== undefined ? data.isTaxable : true,
         track_quantity: data.trackQuantity !== undefined ? data.trackQuantity : true,
@@ -755,6 +871,9 @@ export class InventoryService {
     if (data.supplierPartNumber !== undefined) {
       updateQuery = updateQuery.set({ supplier_part_number: data.supplierPartNumber || null });
     }
+    if (data.warrantyDays !== undefined) {
+      updateQuery = updateQuery.set({ warranty_days: data.warrantyDays });
+    }
     if (data.isActive !== undefined) {
       updateQuery = updateQuery.set({ is_active: data.isActive });
     }
@@ -849,6 +968,59 @@ export class InventoryService {
     return locationQty?.quantity ?? 0;
   }
 
+  /**
+   * Get stock at a location that isn't reserved for a ticket
+   */
+  async getAvailableQuantityForLocation(
+    inventoryItemId: string,
+    locationId: string,
+    companyId: string
+  ): Promise<number> {
+    const onHand = await this.getQuantityForLocation(inventoryItemId, locationId, companyId);
+    const locationQty = await db
+      .selectFrom("inventory_location_quantities")
+      .select("reserved_quantity")
+      .where("inventory_item_id", "=", inventoryItemId)
+      .where("location_id", "=", locationId)
+      .executeTakeFirst();
+
+    return onHand - (locationQty?.reserved_quantity ?? 0);
+  }
+
+  /**
+   * Hold (positive delta) or free (negative delta) stock at a location for tickets
+   * Pass a transaction to keep the hold in step with the reservation that owns it.
+   */
+  async adjustReservedQuantityForLocation(
+    inventoryItemId: string,
+    locationId: string,
+    delta: number,
+    executor: Kysely<Database> | Transaction<Database> = db
+  ): Promise<void> {
+    if (delta === 0) {
+      return;
+    }
+
+    await executor
+      .insertInto("inventory_location_quantities")
+      .values({
+        id: uuidv4(),
+        inventory_item_id: inventoryItemId,
+        location_id: locationId,
+        quantity: 0,
+        reserved_quantity: Math.max(0, delta),
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .onConflict((oc) =>
+        oc.columns(["inventory_item_id", "location_id"]).doUpdateSet({
+          reserved_quantity: sql`GREATEST(inventory_location_quantities.reserved_quantity + ${delta}, 0)`,
+          updated_at: sql`now()`,
+        })
+      )
+      .execute();
+  }
+
   /**
    * Update quantity for a specific location
    */
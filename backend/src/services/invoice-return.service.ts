@@ -0,0 +1,291 @@
+// src/services/invoice-return.service.ts
+import { Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { Database, ReturnDisposition } from "../config/types.js";
+
+// One returned invoice line, already priced by the caller
+export interface CreateInvoiceReturnItemDto {
+  invoiceItemId: string;
+  inventoryItemId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  taxAmount: number;
+  disposition: ReturnDisposition;
+}
+
+// A return against an invoice, recorded inside the caller's transaction
+export interface CreateInvoiceReturnDto {
+  invoiceId: string;
+  customerId: string | null;
+  creditMemoId: string | null;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  restockingFee: number;
+  refundAmount: number;
+  refundMethod: string;
+  reason?: string | null;
+  createdBy?: string | null;
+  items: CreateInvoiceReturnItemDto[];
+}
+
+// Output types - convert snake_case to camelCase
+export interface InvoiceReturnItem {
+  id: string;
+  returnId: string;
+  invoiceItemId: string | null;
+  inventoryItemId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  taxAmount: number;
+  disposition: ReturnDisposition;
+  createdAt: Date;
+}
+
+export interface InvoiceReturn {
+  id: string;
+  returnNumber: string;
+  invoiceId: string;
+  customerId: string | null;
+  creditMemoId: string | null;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  restockingFee: number;
+  refundAmount: number;
+  refundMethod: string;
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  items: InvoiceReturnItem[];
+}
+
+function toInvoiceReturnItem(item: {
+  id: string;
+  return_id: string;
+  invoice_item_id: string | null;
+  inventory_item_id: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  tax_amount: number;
+  disposition: ReturnDisposition;
+  created_at: Date;
+}): InvoiceReturnItem {
+  return {
+    id: item.id,
+    returnId: item.return_id,
+    invoiceItemId: item.invoice_item_id,
+    inventoryItemId: item.inventory_item_id,
+    description: item.description,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unit_price),
+    subtotal: Number(item.subtotal),
+    taxAmount: Number(item.tax_amount),
+    disposition: item.disposition,
+    createdAt: item.created_at,
+  };
+}
+
+function toInvoiceReturn(
+  invoiceReturn: {
+    id: string;
+    return_number: string;
+    invoice_id: string;
+    customer_id: string | null;
+    credit_memo_id: string | null;
+    subtotal: number;
+    discount_amount: number;
+    tax_amount: number;
+    restocking_fee: number;
+    refund_amount: number;
+    refund_method: string;
+    reason: string | null;
+    created_by: string | null;
+    created_at: Date;
+  },
+  items: InvoiceReturnItem[]
+): InvoiceReturn {
+  return {
+    id: invoiceReturn.id,
+    returnNumber: invoiceReturn.return_number,
+    invoiceId: invoiceReturn.invoice_id,
+    customerId: invoiceReturn.customer_id,
+    creditMemoId: invoiceReturn.credit_memo_id,
+    subtotal: Number(invoiceReturn.subtotal),
+    discountAmount: Number(invoiceReturn.discount_amount),
+    taxAmount: Number(invoiceReturn.tax_amount),
+    restockingFee: Number(invoiceReturn.restocking_fee),
+    refundAmount: Number(invoiceReturn.refund_amount),
+    refundMethod: invoiceReturn.refund_method,
+    reason: invoiceReturn.reason,
+    createdBy: invoiceReturn.created_by,
+    createdAt: invoiceReturn.created_at,
+    items,
+  };
+}
+
+// Generate return number (scoped to company), in the same shape as invoice numbers
+async function generateReturnNumber(
+  trx: Transaction<Database>,
+  companyId: string
+): Promise<string> {
+  const prefix = "RET";
+  const year = new Date().getFullYear();
+  const month = (new Date().getMonth() + 1).toString().padStart(2, "0");
+  const timestamp = Date.now().toString().slice(-6);
+  const returnNumber = `${prefix}-${year}${month}-${timestamp}`;
+
+  // Check if return number exists for this company
+  const existing = await trx
+    .selectFrom("invoice_returns")
+    .select("id")
+    .where("return_number", "=", returnNumber)
+    .where("company_id", "=", companyId)
+    .executeTakeFirst();
+
+  if (existing) {
+    // Recursively generate new number if collision
+    return generateReturnNumber(trx, companyId);
+  }
+
+  return returnNumber;
+}
+
+export class InvoiceReturnService {
+  /**
+   * Get the returns made against an invoice, oldest first
+   */
+  async findByInvoice(invoiceId: string, companyId: string): Promise<InvoiceReturn[]> {
+    const returns = await db
+      .selectFrom("invoice_returns")
+      .selectAll()
+      .where("invoice_id", "=", invoiceId)
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "asc")
+      .execute();
+    if (returns.length === 0) {
+      return [];
+    }
+
+    const items = await db
+      .selectFrom("invoice_return_items")
+      .selectAll()
+      .where(
+        "return_id",
+        "in",
+        returns.map((invoiceReturn) => invoiceReturn.id)
+      )
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return returns.map((invoiceReturn) =>
+      toInvoiceReturn(
+        invoiceReturn,
+        items.filter((item) => item.return_id === invoiceReturn.id).map(toInvoiceReturnItem)
+      )
+    );
+  }
+
+  async findById(id: string, invoiceId: string, companyId: string): Promise<InvoiceReturn | null> {
+    const invoiceReturn = await db
+      .selectFrom("invoice_returns")
+      .selectAll()
+      .where("id", "=", id)
+      .where("invoice_id", "=", invoiceId)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+    if (!invoiceReturn) {
+      return null;
+    }
+
+    const items = await db
+      .selectFrom("invoice_return_items")
+      .selectAll()
+      .where("return_id", "=", id)
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return toInvoiceReturn(invoiceReturn, items.map(toInvoiceReturnItem));
+  }
+
+  /**
+   * How many of each invoice line have already come back, keyed by invoice item ID
+   */
+  async getReturnedQuantities(
+    trx: Transaction<Database>,
+    invoiceId: string,
+    companyId: string
+  ): Promise<Map<string, number>> {
+    const rows = await trx
+      .selectFrom("invoice_return_items")
+      .innerJoin("invoice_returns", "invoice_returns.id", "invoice_return_items.return_id")
+      .select((eb) => [
+        "invoice_return_items.invoice_item_id",
+        eb.fn.sum<string>("invoice_return_items.quantity").as("quantity"),
+      ])
+      .where("invoice_returns.invoice_id", "=", invoiceId)
+      .where("invoice_returns.company_id", "=", companyId)
+      .where("invoice_return_items.invoice_item_id", "is not", null)
+      .groupBy("invoice_return_items.invoice_item_id")
+      .execute();
+
+    return new Map(rows.map((row) => [row.invoice_item_id!, Number(row.quantity)]));
+  }
+
+  async create(
+    trx: Transaction<Database>,
+    companyId: string,
+    data: CreateInvoiceReturnDto
+  ): Promise<InvoiceReturn> {
+    const invoiceReturn = await trx
+      .insertInto("invoice_returns")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        return_number: await generateReturnNumber(trx, companyId),
+        invoice_id: data.invoiceId,
+        customer_id: data.customerId,
+        credit_memo_id: data.creditMemoId,
+        subtotal: data.subtotal,
+        discount_amount: data.discountAmount,
+        tax_amount: data.taxAmount,
+        restocking_fee: data.restockingFee,
+        refund_amount: data.refundAmount,
+        refund_method: data.refundMethod,
+        reason: data.reason || null,
+        created_by: data.createdBy || null,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    const items = await trx
+      .insertInto("invoice_return_items")
+      .values(
+        data.items.map((item) => ({
+          id: uuidv4(),
+          return_id: invoiceReturn.id,
+          invoice_item_id: item.invoiceItemId,
+          inventory_item_id: item.inventoryItemId,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unitPrice,
+          subtotal: item.subtotal,
+          tax_amount: item.taxAmount,
+          disposition: item.disposition,
+        }))
+      )
+      .returningAll()
+      .execute();
+
+    return toInvoiceReturn(invoiceReturn, items.map(toInvoiceReturnItem));
+  }
+}
+
+export default new InvoiceReturnService();
@@ -1,14 +1,37 @@
 // src/services/invoice.service.ts
-import { sql } from "kysely";
+import { sql, SqlBool, Transaction } from "kysely";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../config/connection.js";
 import { BadRequestError, ForbiddenError, NotFoundError } from "../config/errors.js";
-import { InvoiceItemTable, InvoiceStatus, InvoiceTable } from "../config/types.js";
+import {
+  Database,
+  InvoiceItemTable,
+  InvoiceStatus,
+  InvoiceTable,
+  ReturnDisposition,
+} from "../config/types.js";
 import emailService from "../integrations/email/email.service.js";
 import logger from "../config/logger.js";
+import customerDepositService from "./customer-deposit.service.js";
+import creditMemoService, { CreditMemo } from "./credit-memo.service.js";
 import customerService from "./customer.service.js";
+import giftCardService from "./gift-card.service.js";
 import inventoryService from "./inventory.service.js";
+import invoiceReturnService, { InvoiceReturn } from "./invoice-return.service.js";
 import cashDrawerService from "./cash-drawer.service.js";
+import partReservationService from "./part-reservation.service.js";
+import storeCreditService from "./store-credit.service.js";
+import warrantyService from "./warranty.service.js";
+import { buildFilter, FilterSchema, searchColumns } from "../utils/filter.utils.js";
+import {
+  cursorCondition,
+  cursorValue,
+  ListOptions,
+  Page,
+  parseSort,
+  SortFields,
+  toPage,
+} from "../utils/pagination.utils.js";
 
 // Input DTOs
 export interface CreateInvoiceDto {
@@ -27,6 +50,11 @@ export interface CreateInvoiceDto {
   paymentReference?: string | null;
 }
 
+export interface CreateInvoiceOptions {
+  // Add the parts the invoice's ticket has reserved as line items (default true)
+  includeReservedParts?: boolean;
+}
+
 export interface UpdateInvoiceDto {
   customerId?: string;
   locationId?: string | null;
@@ -60,6 +88,7 @@ export type Invoice = Omit<
   | "tax_amount"
   | "discount_amount"
   | "total_amount"
+  | "amount_paid"
   | "refund_amount"
   | "refund_date"
   | "refund_reason"
@@ -67,6 +96,8 @@ export type Invoice = Omit<
   | "payment_method"
   | "payment_reference"
   | "cash_drawer_session_id"
+  | "warranty_expires_at"
+  | "recurring_invoice_id"
   | "created_at"
   | "updated_at"
   | "deleted_at"
@@ -83,6 +114,9 @@ export type Invoice = Omit<
   taxAmount: number;
   discountAmount: number;
   totalAmount: number;
+  amountPaid: number;
+  // What's still owed; nothing once the invoice is paid or cancelled
+  balanceDue: number;
   refundAmount: number;
   refundDate: Date | null;
   refundReason: string | null;
@@ -90,6 +124,9 @@ export type Invoice = Omit<
     paymentMethod: string | null;
     paymentReference: string | null;
     cashDrawerSessionId: string | null;
+    warrantyExpiresAt: Date | null;
+    // Recurring schedule that issued the invoice
+    recurringInvoiceId: string | null;
     createdAt: Date;
     updatedAt: Date;
 };
@@ -116,19 +153,77 @@ export interface UpdateInvoiceItemDto {
   type?: "part" | "service" | "other";
 }
 
-export interface MarkInvoicePaidDto {
+export interface InvoicePaymentDto {
   paymentMethod: string;
+  amount: number;
+  paymentReference?: string | null;
+  // Customer deposit the payment is drawn from
+  customerDepositId?: string | null;
+  // Code of the gift card a "Gift Card" payment is spent from
+  giftCardCode?: string | null;
+}
+
+// Tenders paid from a balance the shop holds rather than money taken at the counter
+export const GIFT_CARD_PAYMENT_METHOD = "Gift Card";
+export const STORE_CREDIT_PAYMENT_METHOD = "Store Credit";
+export const STORE_CREDIT_REFUND_METHOD = "store_credit";
+
+export interface MarkInvoicePaidDto {
+  // A single payment; leave out the amount to pay the balance due
+  paymentMethod?: string;
+  amount?: number;
   paymentReference?: string | null;
+  giftCardCode?: string | null;
+  // Split tender, e.g. part cash and part card, instead of a single payment
+  payments?: InvoicePaymentDto[];
   paidDate?: string | null;
   notes?: string | null;
 }
 
+export interface ApplyDepositsDto {
+  // Apply just this deposit instead of the customer's deposits in turn
+  depositId?: string;
+  // Leave out to cover as much of the balance due as the deposits allow
+  amount?: number;
+}
+
+// Invoice payment output type
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  paymentMethod: string;
+  paymentReference: string | null;
+  cashDrawerSessionId: string | null;
+  customerDepositId: string | null;
+  giftCardId: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  paidAt: Date;
+  createdAt: Date;
+}
+
 export interface RefundInvoiceDto {
   refundAmount: number;
   refundReason?: string | null;
   refundMethod?: string | null;
 }
 
+export interface ReturnInvoiceItemDto {
+  invoiceItemId: string;
+  quantity: number;
+  // Put the part back into inventory, or write it off (e.g. damaged)
+  disposition: ReturnDisposition;
+}
+
+export interface ReturnInvoiceDto {
+  items: ReturnInvoiceItemDto[];
+  // Kept by the shop and taken off the refund
+  restockingFee?: number;
+  refundMethod?: string | null;
+  reason?: string | null;
+}
+
 // Invoice Item output type
 export type InvoiceItem = Omit<
   InvoiceItemTable,
@@ -190,6 +285,38 @@ function toInvoiceItem(item: {
   };
 }
 
+function toInvoicePayment(payment: {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  payment_method: string;
+  payment_reference: string | null;
+  cash_drawer_session_id: string | null;
+  customer_deposit_id: string | null;
+  gift_card_id: string | null;
+  notes: string | null;
+  received_by: string | null;
+  paid_at: Date;
+  created_at: Date;
+}): InvoicePayment {
+  return {
+    id: payment.id,
+    invoiceId: payment.invoice_id,
+    amount: Number(payment.amount),
+    paymentMethod: payment.payment_method,
+    paymentReference: payment.payment_reference,
+    cashDrawerSessionId: payment.cash_drawer_session_id,
+    customerDepositId: payment.customer_deposit_id,
+    giftCardId: payment.gift_card_id,
+    notes: payment.notes,
+    receivedBy: payment.received_by,
+    paidAt: payment.paid_at,
+    createdAt: payment.created_at,
+  };
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
 // Helper function to convert DB row to Invoice (snake_case to camelCase)
 function toInvoice(invoice: {
   id: string;
@@ -207,6 +334,7 @@ function toInvoice(invoice: {
   tax_amount: number;
   discount_amount: number;
   total_amount: number;
+  amount_paid?: number;
   refund_amount?: number;
   refund_date?: Date | null;
   refund_reason?: string | null;
@@ -215,6 +343,8 @@ function toInvoice(invoice: {
   payment_method: string | null;
   payment_reference: string | null;
   cash_drawer_session_id?: string | null;
+  warranty_expires_at?: Date | null;
+  recurring_invoice_id?: string | null;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -234,7 +364,12 @@ function toInvoice(invoice: {
     taxAmount: invoice.tax_amount,
     discountAmount: invoice.discount_amount,
     totalAmount: invoice.total_amount,
-    refundAmount: (invoice.refund_amount as number) || 0,
+    amountPaid: Number(invoice.amount_paid || 0),
+    balanceDue:
+      invoice.status === "paid" || invoice.status === "cancelled"
+        ? 0
+        : Math.max(roundMoney(Number(invoice.total_amount) - Number(invoice.amount_paid || 0)), 0),
+    refundAmount: Number(invoice.refund_amount || 0),
     refundDate: invoice.refund_date || null,
     refundReason: invoice.refund_reason || null,
     refundMethod: invoice.refund_method || null,
@@ -242,6 +377,8 @@ function toInvoice(invoice: {
     paymentMethod: invoice.payment_method,
     paymentReference: invoice.payment_reference,
     cashDrawerSessionId: invoice.cash_drawer_session_id || null,
+    warrantyExpiresAt: invoice.warranty_expires_at || null,
+    recurringInvoiceId: invoice.recurring_invoice_id || null,
     createdAt: invoice.created_at,
     updatedAt: invoice.updated_at,
   };
@@ -271,6 +408,51 @@ async function generateInvoiceNumber(companyId: string): Promise<string> {
   return invoiceNumber;
 }
 
+export interface InvoiceListOptions extends ListOptions {
+  customerId?: string;
+  status?: InvoiceStatus;
+  locationId?: string | null;
+  ticketId?: string;
+  // Invoice number search
+  search?: string;
+}
+
+export const INVOICE_FILTERS: FilterSchema = {
+  fields: {
+    status: {
+      column: "invoices.status",
+      type: "enum",
+      values: ["draft", "issued", "partially_paid", "paid", "overdue", "cancelled"],
+    },
+    customer: { column: "invoices.customer_id", type: "id", nullable: true },
+    location: { column: "invoices.location_id", type: "id", nullable: true },
+    ticket: { column: "invoices.ticket_id", type: "id", nullable: true },
+    payment: { column: "invoices.payment_method", type: "text", nullable: true },
+    total: { column: "invoices.total_amount", type: "number" },
+    collected: { column: "invoices.amount_paid", type: "number" },
+    refunded: { column: "invoices.refund_amount", type: "number" },
+    created: { column: "invoices.created_at", type: "date" },
+    issued: { column: "invoices.issue_date", type: "date" },
+    due: { column: "invoices.due_date", type: "date" },
+    paid: { column: "invoices.paid_date", type: "date" },
+  },
+  // Also matches the customer's name or email
+  search: (pattern) =>
+    sql<SqlBool>`(${searchColumns(["invoices.invoice_number", "invoices.notes"])(
+      pattern
+    )} or invoices.customer_id in (
+      select id from customers
+      where first_name || ' ' || last_name ilike ${pattern} or email ilike ${pattern}
+    ))`,
+};
+
+export const INVOICE_SORTS: SortFields = {
+  createdAt: { column: "created_at", type: "timestamp" },
+  updatedAt: { column: "updated_at", type: "timestamp" },
+  invoiceNumber: { column: "invoice_number", type: "text" },
+  total: { column: "total_amount", type: "number" },
+};
+
 export class InvoiceService {
   async findAll(
     companyId: string,
@@ -280,9 +462,27 @@ export class InvoiceService {
     ticketId?: string,
     searchQuery?: string
   ): Promise<Invoice[]> {
+    const page = await this.findPage(companyId, {
+      customerId,
+      status,
+      locationId,
+      ticketId,
+      search: searchQuery,
+    });
+    return page.data;
+  }
+
+  /**
+   * List invoices matching a filter expression, one page at a time when a limit is given
+   */
+  async findPage(companyId: string, options: InvoiceListOptions = {}): Promise<Page<Invoice>> {
+    const { customerId, status, locationId, ticketId, search: searchQuery } = options;
+    const order = parseSort(options.sort, INVOICE_SORTS, "-createdAt", "invoices");
+
     let query = db
       .selectFrom("invoices")
       .selectAll()
+      .select(cursorValue(order))
       .where("company_id", "=", companyId)
       .where("deleted_at", "is", null);
 
@@ -310,11 +510,30 @@ export class InvoiceService {
       query = query.where("invoice_number", "ilike", `%${searchQuery}%`);
     }
 
+    const filter = buildFilter(options.filter, INVOICE_FILTERS);
+    if (filter) {
+      query = query.where(filter);
+    }
+
+    if (options.cursor) {
+      query = query.where(cursorCondition(order, options.cursor));
+    }
+
+    query = query
+      .orderBy(sql.ref(`invoices.${order.column}`), order.direction)
+      .orderBy("invoices.id", order.direction);
+    if (options.limit) {
+      query = query.limit(options.limit + 1);
+    }
+
     const invoices = await query.execute();
-    return invoices.map(toInvoice);
+    return toPage(invoices, order, options.limit, toInvoice);
   }
 
-  async findById(id: string, companyId: string): Promise<(Invoice & { invoiceItems?: InvoiceItem[] }) | null> {
+  async findById(
+    id: string,
+    companyId: string
+  ): Promise<(Invoice & { invoiceItems?: InvoiceItem[]; payments?: InvoicePayment[] }) | null> {
     const invoice = await db
       .selectFrom("invoices")
       .selectAll()
@@ -327,12 +546,13 @@ export class InvoiceService {
       return null;
     }
 
-    // Fetch invoice items
+    // Fetch invoice items and payments
     const items = await db
       .selectFrom("invoice_items")
       .selectAll()
       .where("invoice_id", "=", id)
       .execute();
+    const payments = await this.findPayments(id);
 
     // Recalculate totals to ensure tax rate is current from location
     // This ensures that if location tax rate changed, invoice reflects current rate
@@ -353,6 +573,7 @@ export class InvoiceService {
         return {
           ...invoiceData,
           invoiceItems: items.map(toInvoiceItem),
+          payments,
         };
       }
     }
@@ -361,10 +582,55 @@ export class InvoiceService {
     return {
       ...invoiceData,
       invoiceItems: items.map(toInvoiceItem),
+      payments,
     };
   }
 
-  async create(data: CreateInvoiceDto, companyId: string, locationId: string): Promise<Invoice> {
+  // Payments received against an invoice, oldest first
+  private async findPayments(invoiceId: string): Promise<InvoicePayment[]> {
+    const payments = await db
+      .selectFrom("invoice_payments")
+      .selectAll()
+      .where("invoice_id", "=", invoiceId)
+      .orderBy("paid_at", "asc")
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return payments.map(toInvoicePayment);
+  }
+
+  async getPayments(invoiceId: string, companyId: string): Promise<InvoicePayment[]> {
+    // Validate invoice exists and belongs to company
+    const invoice = await db
+      .selectFrom("invoices")
+      .select("id")
+      .where("id", "=", invoiceId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+
+    return this.findPayments(invoiceId);
+  }
+
+  // Get the credit memos written up for refunds on an invoice
+  async getCreditMemos(invoiceId: string, companyId: string): Promise<CreditMemo[]> {
+    const invoice = await this.findById(invoiceId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+
+    return creditMemoService.findByInvoice(invoiceId, companyId);
+  }
+
+  async create(
+    data: CreateInvoiceDto,
+    companyId: string,
+    locationId: string,
+    options: CreateInvoiceOptions = {}
+  ): Promise<Invoice> {
     // Verify location belongs to company and get tax rate
     const location = await db
       .selectFrom("locations")
@@ -427,10 +693,23 @@ export class InvoiceService {
       .returningAll()
       .executeTakeFirstOrThrow();
 
-    const createdInvoice = toInvoice(invoice);
+    let createdInvoice = toInvoice(invoice);
+
+    if (createdInvoice.ticketId) {
+      if (options.includeReservedParts !== false) {
+        await this.addReservedParts(createdInvoice, companyId);
+      }
+      // Invoicing a repair that is already complete copies its warranty onto the invoice
+      await warrantyService.refreshForTicket(createdInvoice.ticketId, companyId);
+      createdInvoice = (await this.findById(createdInvoice.id, companyId)) || createdInvoice;
+    }
+
+    // Deposits taken for the repair, or on the customer's account, pay towards an issued invoice
+    createdInvoice = await this.applyAvailableDeposits(createdInvoice, companyId);
 
     // Send email notification if invoice is issued (not draft)
-    if (createdInvoice.status === 'issued' || createdInvoice.status === 'paid') {
+    // Deposits that paid it off have already sent it as paid
+    if (invoice.status === 'paid' || (invoice.status === 'issued' && createdInvoice.status !== 'paid')) {
       try {
         if (createdInvoice.customerId) {
           const customer = await customerService.findById(createdInvoice.customerId, companyId);
@@ -447,7 +726,58 @@ export class InvoiceService {
     return createdInvoice;
   }
 
+  /**
+   * Turn the ticket's fully reserved parts at the invoice's location into part line items
+   * Short reservations stay open so the shortage keeps showing on the ticket.
+   */
+  private async addReservedParts(invoice: Invoice, companyId: string): Promise<number> {
+    const reservations = await partReservationService.findByTicketId(invoice.ticketId!, companyId);
+    let added = 0;
+    for (const reservation of reservations) {
+      if (
+        reservation.status !== "reserved" ||
+        reservation.shortageQuantity > 0 ||
+        reservation.locationId !== invoice.locationId
+      ) {
+        continue;
+      }
+      try {
+        // Description and price come from the inventory item
+        await this.createInvoiceItem(
+          {
+            invoiceId: invoice.id,
+            inventoryItemId: reservation.inventoryItemId,
+            description: "",
+            quantity: reservation.quantity,
+            unitPrice: 0,
+            type: "part",
+          },
+          companyId
+        );
+        added++;
+      } catch (error) {
+        // Leave the part reserved; it can still be added to the invoice by hand
+        logger.warn(
+          `Failed to invoice reserved part ${reservation.id} on invoice ${invoice.id}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return added;
+  }
+
   async update(id: string, data: UpdateInvoiceDto, companyId: string): Promise<(Invoice & { invoiceItems?: InvoiceItem[] }) | null> {
+    const current = await db
+      .selectFrom("invoices")
+      .select("status")
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    if (!current) {
+      return null;
+    }
+
     let updateQuery = db
       .updateTable("invoices")
       .set({
@@ -533,10 +863,19 @@ export class InvoiceService {
       .where("invoice_id", "=", id)
       .execute();
 
-    const invoiceData = toInvoice(updated);
+    let invoiceData: Invoice = toInvoice(updated);
+
+    // Deposits pay towards the invoice once it's issued, and again whenever its total changes
+    const totalChanged = [data.subtotal, data.taxAmount, data.discountAmount, data.totalAmount].some(
+      (value) => value !== undefined
+    );
+    if (current.status === "draft" || totalChanged) {
+      invoiceData = await this.applyAvailableDeposits(invoiceData, companyId);
+    }
 
     // Send email notification if status changed to issued or paid
-    if (data.status === 'issued' || data.status === 'paid') {
+    // Deposits that paid it off have already sent it as paid
+    if (data.status === 'paid' || (data.status === 'issued' && invoiceData.status !== 'paid')) {
       try {
         if (invoiceData.customerId) {
           const customer = await customerService.findById(invoiceData.customerId, companyId);
@@ -569,6 +908,20 @@ export class InvoiceService {
       .returningAll()
       .executeTakeFirst();
 
+    // Time billed on this invoice can be billed again on another one
+    if (result) {
+      await db
+        .updateTable("ticket_time_entries")
+        .set({ invoice_item_id: null, updated_at: sql`now()` })
+        .where("company_id", "=", companyId)
+        .where(
+          "invoice_item_id",
+          "in",
+          db.selectFrom("invoice_items").select("id").where("invoice_id", "=", id)
+        )
+        .execute();
+    }
+
     return !!result;
   }
 
@@ -683,12 +1036,17 @@ export class InvoiceService {
       }
 
       // Validate sufficient quantity available at invoice's location
+      // Stock the ticket has reserved here counts as available to its own invoice
       if (invoice.locationId) {
-        const availableQuantity = await inventoryService.getQuantityForLocation(
-          data.inventoryItemId,
-          invoice.locationId,
-          companyId
-        );
+        const reservation = invoice.ticketId
+          ? await partReservationService.findOpen(invoice.ticketId, data.inventoryItemId, companyId)
+          : null;
+        const availableQuantity =
+          (await inventoryService.getAvailableQuantityForLocation(
+            data.inventoryItemId,
+            invoice.locationId,
+            companyId
+          )) + (reservation?.locationId === invoice.locationId ? reservation.reservedQuantity : 0);
         if (data.quantity > availableQuantity) {
           throw new BadRequestError(
             `Insufficient stock. Available: ${availableQuantity}, Requested: ${data.quantity}`
@@ -713,6 +1071,19 @@ export class InvoiceService {
       }
     }
 
+    // Labor on a warranty claim is covered by the original repair's warranty, however the line is added
+    if (data.type === "service" && invoice.ticketId) {
+      const ticket = await db
+        .selectFrom("tickets")
+        .select("ticket_type")
+        .where("id", "=", invoice.ticketId)
+        .where("company_id", "=", companyId)
+        .executeTakeFirst();
+      if (ticket?.ticket_type === "warranty_claim") {
+        data.unitPrice = 0;
+      }
+    }
+
     // Calculate item subtotal
     const itemSubtotal = data.quantity * data.unitPrice;
     let discountPercent = data.discountPercent ?? 0;
@@ -785,8 +1156,17 @@ export class InvoiceService {
           `Failed to deduct inventory for invoice item ${item.id}: ${error instanceof Error ? error.message : String(error)}`
         );
       }
+
+      // The part is now on the invoice, so the ticket no longer needs it held
+      if (invoice.ticketId) {
+        await partReservationService.consume(invoice.ticketId, data.inventoryItemId, item.id, companyId);
+        // A part added after completion can lengthen the repair's warranty
+        await warrantyService.refreshForTicket(invoice.ticketId, companyId);
+      }
     }
 
+    await this.applyAvailableDeposits(invoice, companyId);
+
     return toInvoiceItem(item);
   }
 
@@ -881,7 +1261,7 @@ export class InvoiceService {
           if (inventoryItem) {
             // Validate sufficient quantity available if increasing
             if (quantityDelta > 0) {
-              const availableQuantity = await inventoryService.getQuantityForLocation(
+              const availableQuantity = await inventoryService.getAvailableQuantityForLocation(
                 inventoryItemId,
                 invoice.locationId,
                 companyId
@@ -942,7 +1322,7 @@ export class InvoiceService {
 
             if (newInventoryItem) {
               // Validate sufficient quantity available
-              const availableQuantity = await inventoryService.getQuantityForLocation(
+              const availableQuantity = await inventoryService.getAvailableQuantityForLocation(
                 inventoryItemId,
                 invoice.locationId,
                 companyId
@@ -1018,6 +1398,7 @@ export class InvoiceService {
 
     // Recalculate invoice totals
     await this.recalculateInvoiceTotals(invoiceId, companyId);
+    await this.applyAvailableDeposits(invoice, companyId);
 
     return toInvoiceItem(updated);
   }
@@ -1096,21 +1477,83 @@ export class InvoiceService {
     return !!result;
   }
 
-  // Mark invoice as paid
+  /**
+   * Record payments against an invoice
+   * A single payment without an amount pays off the balance due; several payments are a split tender.
+   * The invoice is paid once its payments cover the total, and partially paid until then.
+   */
   async markInvoiceAsPaid(
     invoiceId: string,
     data: MarkInvoicePaidDto,
-    companyId: string
-  ): Promise<(Invoice & { invoiceItems?: InvoiceItem[] }) | null> {
+    companyId: string,
+    receivedBy: string | null = null
+  ): Promise<(Invoice & { invoiceItems?: InvoiceItem[]; payments?: InvoicePayment[] }) | null> {
     // Validate invoice exists
     const invoice = await this.findById(invoiceId, companyId);
     if (!invoice) {
       throw new NotFoundError("Invoice not found");
     }
 
-    // If payment is cash, try to link to current drawer session
+    let payments: InvoicePaymentDto[] = data.payments?.length
+      ? data.payments
+      : [
+          {
+            paymentMethod: data.paymentMethod || "Other",
+            amount: data.amount ?? invoice.balanceDue,
+            paymentReference: data.paymentReference,
+            giftCardCode: data.giftCardCode,
+          },
+        ];
+
+    // Payment provider webhooks can report a payment that was recorded when it was taken
+    const recordedReferences = new Set(
+      (invoice.payments || []).map((payment) => payment.paymentReference).filter(Boolean)
+    );
+    payments = payments.filter(
+      (payment) => !payment.paymentReference || !recordedReferences.has(payment.paymentReference)
+    );
+    if (payments.length === 0) {
+      return invoice;
+    }
+
+    if (invoice.status === "paid") {
+      throw new BadRequestError("Invoice is already paid");
+    }
+    if (invoice.status === "cancelled") {
+      throw new BadRequestError("Cannot take payment on a cancelled invoice");
+    }
+
+    // A $0 invoice is marked paid without recording a payment
+    const received = payments.filter((payment) => payment.amount > 0);
+    const receivedTotal = roundMoney(received.reduce((sum, payment) => sum + payment.amount, 0));
+    if (received.length === 0 && invoice.balanceDue > 0) {
+      throw new BadRequestError("Payment amount must be greater than 0");
+    }
+    if (receivedTotal > invoice.balanceDue) {
+      throw new BadRequestError(
+        `Payments total ${receivedTotal.toFixed(2)} but the balance due is ${invoice.balanceDue.toFixed(2)}`
+      );
+    }
+    if (!invoice.customerId && received.some((payment) => payment.customerDepositId)) {
+      throw new BadRequestError("Invoice has no customer to apply deposits from");
+    }
+    if (
+      !invoice.customerId &&
+      received.some((payment) => payment.paymentMethod === STORE_CREDIT_PAYMENT_METHOD)
+    ) {
+      throw new BadRequestError("Invoice has no customer to use store credit from");
+    }
+    if (
+      received.some(
+        (payment) => payment.paymentMethod === GIFT_CARD_PAYMENT_METHOD && !payment.giftCardCode
+      )
+    ) {
+      throw new BadRequestError("Gift card code is required to pay with a gift card");
+    }
+
+    // Cash payments go into the location's open drawer, if there is one
     let cashDrawerSessionId: string | null = null;
-    if (data.paymentMethod === "Cash" && invoice.locationId) {
+    if (received.some((payment) => payment.paymentMethod === "Cash") && invoice.locationId) {
       try {
         const currentDrawer = await cashDrawerService.getCurrentDrawerSession(
           companyId,
@@ -1127,31 +1570,151 @@ export class InvoiceService {
       }
     }
 
-    // Update invoice
     const paidDate = data.paidDate ? new Date(data.paidDate).toISOString() : new Date().toISOString();
 
-    const updated = await db
-      .updateTable("invoices")
-      .set({
-        status: "paid",
-        paid_date: paidDate,
-        payment_method: data.paymentMethod,
-        payment_reference: data.paymentReference || null,
-        cash_drawer_session_id: cashDrawerSessionId,
-        notes: data.notes || invoice.notes || null,
-        updated_at: sql`now()`,
-      })
-      .where("id", "=", invoiceId)
-      .where("company_id", "=", companyId)
-      .where("deleted_at", "is", null)
-      .returningAll()
-      .executeTakeFirst();
+    const updated = await db.transaction().execute(async (trx) => {
+      // Another payment may have landed since the invoice was read, so check the balance again under a lock
+      const locked = await trx
+        .selectFrom("invoices")
+        .select(["status", "total_amount", "amount_paid"])
+        .where("id", "=", invoiceId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .forUpdate()
+        .executeTakeFirst();
+      if (!locked) {
+        throw new NotFoundError("Invoice not found");
+      }
+      if (locked.status === "paid") {
+        throw new BadRequestError("Invoice is already paid");
+      }
+      if (locked.status === "cancelled") {
+        throw new BadRequestError("Cannot take payment on a cancelled invoice");
+      }
+      const balanceDue = Math.max(
+        roundMoney(Number(locked.total_amount) - Number(locked.amount_paid || 0)),
+        0
+      );
+      if (received.length === 0 && balanceDue > 0) {
+        throw new BadRequestError("Payment amount must be greater than 0");
+      }
+      if (receivedTotal > balanceDue) {
+        throw new BadRequestError(
+          `Payments total ${receivedTotal.toFixed(2)} but the balance due is ${balanceDue.toFixed(2)}`
+        );
+      }
+
+      // Draw deposit payments down from the customer's deposits, which must have enough left
+      for (const payment of received.filter((payment) => payment.customerDepositId)) {
+        const deposit = await trx
+          .updateTable("customer_deposits")
+          .set((eb) => ({
+            amount_applied: eb("amount_applied", "+", payment.amount),
+            updated_at: sql`now()`,
+          }))
+          .where("id", "=", payment.customerDepositId!)
+          .where("company_id", "=", companyId)
+          .where("customer_id", "=", invoice.customerId!)
+          .where(sql<SqlBool>`amount - amount_applied - amount_refunded >= ${payment.amount}`)
+          .returning("id")
+          .executeTakeFirst();
+        if (!deposit) {
+          throw new BadRequestError("Deposit doesn't have enough left to apply");
+        }
+      }
+
+      const paymentIds = received.map(() => uuidv4());
+      if (received.length > 0) {
+        await trx
+          .insertInto("invoice_payments")
+          .values(
+            received.map((payment, index) => ({
+              id: paymentIds[index],
+              company_id: companyId,
+              invoice_id: invoiceId,
+              amount: payment.amount,
+              payment_method: payment.paymentMethod,
+              payment_reference: payment.paymentReference || null,
+              cash_drawer_session_id: payment.paymentMethod === "Cash" ? cashDrawerSessionId : null,
+              customer_deposit_id: payment.customerDepositId || null,
+              notes: data.notes || null,
+              received_by: receivedBy,
+              paid_at: paidDate,
+            }))
+          )
+          .execute();
+      }
+
+      // Spend gift card and store credit payments from their balances, which must cover them
+      for (const [index, payment] of received.entries()) {
+        if (payment.paymentMethod === GIFT_CARD_PAYMENT_METHOD) {
+          const giftCardId = await giftCardService.redeem(trx, companyId, {
+            code: payment.giftCardCode!,
+            amount: payment.amount,
+            invoiceId,
+            invoicePaymentId: paymentIds[index],
+            createdBy: receivedBy,
+          });
+          await trx
+            .updateTable("invoice_payments")
+            .set({ gift_card_id: giftCardId })
+            .where("id", "=", paymentIds[index])
+            .execute();
+        } else if (payment.paymentMethod === STORE_CREDIT_PAYMENT_METHOD) {
+          await storeCreditService.record(trx, companyId, {
+            customerId: invoice.customerId!,
+            type: "redemption",
+            amount: -payment.amount,
+            invoiceId,
+            invoicePaymentId: paymentIds[index],
+            createdBy: receivedBy,
+          });
+        }
+      }
+
+      const ledger = await trx
+        .selectFrom("invoice_payments")
+        .select(["amount", "payment_method", "payment_reference"])
+        .where("invoice_id", "=", invoiceId)
+        .orderBy("paid_at", "asc")
+        .orderBy("created_at", "asc")
+        .execute();
+
+      const amountPaid = roundMoney(ledger.reduce((sum, payment) => sum + Number(payment.amount), 0));
+      const fullyPaid = amountPaid >= roundMoney(Number(locked.total_amount));
+
+      // The invoice keeps a summary of how it was paid for lists and filters
+      const methods = [...new Set(ledger.map((payment) => payment.payment_method))];
+      const paymentMethod =
+        methods.length > 1 ? "Split" : methods[0] || data.paymentMethod || invoice.paymentMethod;
+      const paymentReference =
+        [...ledger].reverse().find((payment) => payment.payment_reference)?.payment_reference ||
+        invoice.paymentReference;
+
+      return trx
+        .updateTable("invoices")
+        .set({
+          status: fullyPaid ? "paid" : "partially_paid",
+          paid_date: fullyPaid ? paidDate : null,
+          amount_paid: amountPaid,
+          payment_method: paymentMethod,
+          payment_reference: paymentReference,
+          cash_drawer_session_id: cashDrawerSessionId || invoice.cashDrawerSessionId,
+          notes: data.notes || invoice.notes || null,
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", invoiceId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .returningAll()
+        .executeTakeFirst();
+    });
 
     if (!updated) {
       return null;
     }
 
-    // Fetch invoice items
+    // Fetch invoice items and payments
     const items = await db
       .selectFrom("invoice_items")
       .selectAll()
@@ -1162,85 +1725,413 @@ export class InvoiceService {
     const result = {
       ...invoiceData,
       invoiceItems: items.map(toInvoiceItem),
+      payments: await this.findPayments(invoiceId),
     };
 
-    // Send email notification for payment confirmation
-    try {
-      if (invoiceData.customerId) {
-        const customer = await customerService.findById(invoiceData.customerId, companyId);
-        if (customer) {
-          await emailService.sendInvoiceEmail(companyId, invoiceData, customer);
+    // Send email notification for payment confirmation once the invoice is paid off
+    if (invoiceData.status === "paid") {
+      try {
+        if (invoiceData.customerId) {
+          const customer = await customerService.findById(invoiceData.customerId, companyId);
+          if (customer) {
+            await emailService.sendInvoiceEmail(companyId, invoiceData, customer);
+          }
         }
+      } catch {
+        // Don't fail payment if email fails - just log error
+        // Error is already logged in emailService
       }
-    } catch {
-      // Don't fail payment if email fails - just log error
-      // Error is already logged in emailService
     }
 
     return result;
   }
 
-  // Refund manual payment
-  async refundManualPayment(
+  /**
+   * Pay an invoice from the customer's deposits, starting with those taken for the invoice's ticket
+   * Applied automatically, deposits taken for other tickets are left for their own invoices.
+   * Returns the invoice unchanged when there's nothing to apply.
+   */
+  async applyDeposits(
     invoiceId: string,
-    data: RefundInvoiceDto,
-    companyId: string
-  ): Promise<Invoice | null> {
-    // Validate invoice exists
+    data: ApplyDepositsDto,
+    companyId: string,
+    receivedBy: string | null = null,
+    options: { automatic?: boolean } = {}
+  ): Promise<(Invoice & { invoiceItems?: InvoiceItem[]; payments?: InvoicePayment[] }) | null> {
     const invoice = await this.findById(invoiceId, companyId);
     if (!invoice) {
       throw new NotFoundError("Invoice not found");
     }
+    if (!invoice.customerId) {
+      throw new BadRequestError("Invoice has no customer to apply deposits from");
+    }
+    if (invoice.status === "draft") {
+      throw new BadRequestError("Issue the invoice before applying deposits");
+    }
 
-    // Validate invoice is paid
-    if (invoice.status !== "paid") {
-      throw new BadRequestError("Only paid invoices can be refunded");
+    const deposits = await customerDepositService.findAvailable(invoice.customerId, companyId, {
+      depositId: data.depositId,
+      ticketId: invoice.ticketId,
+      excludeOtherTickets: options.automatic,
+    });
+    if (data.depositId && deposits.length === 0) {
+      throw new BadRequestError("Deposit has nothing left to apply");
     }
 
-    // Validate refund amount
-    if (data.refundAmount <= 0) {
-      throw new BadRequestError("Refund amount must be greater than 0");
+    let toApply = roundMoney(data.amount ?? invoice.balanceDue);
+    const payments: InvoicePaymentDto[] = [];
+    for (const deposit of deposits) {
+      if (toApply <= 0) {
+        break;
+      }
+      const amount = Math.min(deposit.remainingAmount, toApply);
+      payments.push({ paymentMethod: "Deposit", amount, customerDepositId: deposit.id });
+      toApply = roundMoney(toApply - amount);
+    }
+
+    if (payments.length === 0) {
+      return invoice;
+    }
+
+    return this.markInvoiceAsPaid(invoiceId, { payments }, companyId, receivedBy);
+  }
+
+  /**
+   * Put the customer's deposits towards an issued invoice, e.g. once it's issued or its lines change
+   * Drafts are left alone until their total is final. Failures are logged, not thrown; the deposits
+   * stay on the customer's account and can still be applied by hand.
+   */
+  async applyAvailableDeposits(invoice: Invoice, companyId: string): Promise<Invoice> {
+    if (
+      !invoice.customerId ||
+      !["issued", "partially_paid", "overdue"].includes(invoice.status)
+    ) {
+      return invoice;
+    }
+
+    try {
+      const paid = await this.applyDeposits(invoice.id, {}, companyId, null, { automatic: true });
+      return paid || invoice;
+    } catch (error) {
+      logger.warn(
+        `Failed to apply deposits to invoice ${invoice.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return invoice;
+    }
+  }
+
+  /**
+   * Give money back on an invoice inside the caller's transaction
+   * Locks the invoice so concurrent refunds can't together exceed what was paid, adds to its refund total,
+   * writes the refund up as a credit memo and, for store credit, adds it to the customer's balance.
+   */
+  private async issueRefund(
+    trx: Transaction<Database>,
+    invoiceId: string,
+    companyId: string,
+    refund: { amount: number; refundMethod: string; reason?: string | null; issuedBy?: string | null }
+  ): Promise<{ invoice: Invoice; creditMemo: CreditMemo } | null> {
+    const locked = await trx
+      .selectFrom("invoices")
+      .select(["status", "customer_id", "amount_paid", "refund_amount"])
+      .where("id", "=", invoiceId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .forUpdate()
+      .executeTakeFirst();
+    if (!locked) {
+      return null;
     }
 
-    const currentRefundAmount = invoice.refundAmount || 0;
-    const totalRefundAmount = currentRefundAmount + data.refundAmount;
+    const amountPaid = Number(locked.amount_paid || 0);
+    const currentRefundAmount = Number(locked.refund_amount || 0);
+    const totalRefundAmount = roundMoney(currentRefundAmount + refund.amount);
 
-    if (totalRefundAmount > invoice.totalAmount) {
+    // Only what was actually paid can be given back
+    if (totalRefundAmount > amountPaid) {
       throw new BadRequestError(
-        `Refund amount exceeds invoice total. Maximum refund: ${invoice.totalAmount - currentRefundAmount}`
+        `Refund amount exceeds the amount paid. Maximum refund: ${roundMoney(amountPaid - currentRefundAmount)}`
       );
     }
 
     // Determine new status
-    let newStatus: InvoiceStatus = invoice.status;
-    if (totalRefundAmount >= invoice.totalAmount) {
+    let newStatus: InvoiceStatus = locked.status;
+    if (totalRefundAmount >= amountPaid) {
       // Fully refunded
       newStatus = "cancelled";
     }
     // For partial refunds, keep status as "paid"
 
     // Update invoice with refund
-    const updated = await db
+    const refunded = await trx
       .updateTable("invoices")
       .set({
         refund_amount: totalRefundAmount,
         refund_date: sql`now()`,
-        refund_reason: data.refundReason || null,
-        refund_method: data.refundMethod || "manual",
+        refund_reason: refund.reason || null,
+        refund_method: refund.refundMethod,
         status: newStatus,
         updated_at: sql`now()`,
       })
       .where("id", "=", invoiceId)
       .where("company_id", "=", companyId)
-      .where("deleted_at", "is", null)
       .returningAll()
-      .executeTakeFirst();
+      .executeTakeFirstOrThrow();
 
-    if (!updated) {
-      return null;
+    const creditMemo = await creditMemoService.create(trx, companyId, {
+      invoiceId,
+      customerId: locked.customer_id,
+      amount: refund.amount,
+      refundMethod: refund.refundMethod,
+      reason: refund.reason,
+      issuedBy: refund.issuedBy,
+    });
+
+    if (refund.refundMethod === STORE_CREDIT_REFUND_METHOD) {
+      if (!locked.customer_id) {
+        throw new BadRequestError("Invoice has no customer to give store credit to");
+      }
+      await storeCreditService.record(trx, companyId, {
+        customerId: locked.customer_id,
+        type: "refund",
+        amount: refund.amount,
+        invoiceId,
+        creditMemoId: creditMemo.id,
+        notes: refund.reason,
+        createdBy: refund.issuedBy,
+      });
+    }
+
+    return { invoice: toInvoice(refunded), creditMemo };
+  }
+
+  // Refund manual payment, written up as a credit memo and optionally given back as store credit
+  async refundManualPayment(
+    invoiceId: string,
+    data: RefundInvoiceDto,
+    companyId: string,
+    issuedBy: string | null = null
+  ): Promise<Invoice | null> {
+    // Validate invoice exists
+    const invoice = await this.findById(invoiceId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+
+    // Validate invoice has been paid, in full or in part
+    if (invoice.status !== "paid" && invoice.status !== "partially_paid") {
+      throw new BadRequestError("Only paid invoices can be refunded");
+    }
+
+    // Validate refund amount
+    if (data.refundAmount <= 0) {
+      throw new BadRequestError("Refund amount must be greater than 0");
+    }
+
+    const refundMethod = data.refundMethod || "manual";
+    if (refundMethod === STORE_CREDIT_REFUND_METHOD && !invoice.customerId) {
+      throw new BadRequestError("Invoice has no customer to give store credit to");
+    }
+
+    const result = await db.transaction().execute((trx) =>
+      this.issueRefund(trx, invoiceId, companyId, {
+        amount: data.refundAmount,
+        refundMethod,
+        reason: data.refundReason,
+        issuedBy,
+      })
+    );
+
+    return result ? result.invoice : null;
+  }
+
+  // Get the itemized returns made against an invoice
+  async getReturns(invoiceId: string, companyId: string): Promise<InvoiceReturn[]> {
+    const invoice = await this.findById(invoiceId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+
+    return invoiceReturnService.findByInvoice(invoiceId, companyId);
+  }
+
+  async getReturn(invoiceId: string, returnId: string, companyId: string): Promise<InvoiceReturn | null> {
+    return invoiceReturnService.findById(returnId, invoiceId, companyId);
+  }
+
+  /**
+   * Return lines from a paid invoice
+   * Each line is refunded at the price actually charged for it, less its share of the invoice discount,
+   * plus the tax that was charged on it. A restocking fee comes off the refund. Returned parts marked
+   * "restock" go back into inventory at the invoice's location; written-off parts don't.
+   */
+  async createReturn(
+    invoiceId: string,
+    data: ReturnInvoiceDto,
+    companyId: string,
+    createdBy: string | null = null
+  ): Promise<InvoiceReturn> {
+    const invoice = await this.findById(invoiceId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+
+    if (invoice.status !== "paid" && invoice.status !== "partially_paid") {
+      throw new BadRequestError("Only paid invoices can have items returned");
+    }
+
+    const refundMethod = data.refundMethod || "manual";
+    if (refundMethod === STORE_CREDIT_REFUND_METHOD && !invoice.customerId) {
+      throw new BadRequestError("Invoice has no customer to give store credit to");
+    }
+
+    const requestedIds = data.items.map((item) => item.invoiceItemId);
+    if (new Set(requestedIds).size !== requestedIds.length) {
+      throw new BadRequestError("Each invoice item can only be listed once per return");
+    }
+
+    const invoiceItems = await db
+      .selectFrom("invoice_items")
+      .selectAll()
+      .where("invoice_id", "=", invoiceId)
+      .execute();
+
+    // Tax and the invoice discount are shared out over the lines in proportion to their price
+    const invoiceSubtotal = invoiceItems.reduce((sum, item) => sum + Number(item.subtotal), 0);
+    const taxableSubtotal = invoiceItems
+      .filter((item) => item.is_taxable)
+      .reduce((sum, item) => sum + Number(item.subtotal), 0);
+
+    let taxInclusive = false;
+    if (invoice.locationId) {
+      const location = await db
+        .selectFrom("locations")
+        .select("tax_inclusive")
+        .where("id", "=", invoice.locationId)
+        .where("company_id", "=", companyId)
+        .executeTakeFirst();
+      taxInclusive = location?.tax_inclusive ?? false;
+    }
+
+    const invoiceReturn = await db.transaction().execute(async (trx) => {
+      // Lock the invoice first so two returns can't both take the last of a line
+      const locked = await trx
+        .selectFrom("invoices")
+        .select("id")
+        .where("id", "=", invoiceId)
+        .where("company_id", "=", companyId)
+        .forUpdate()
+        .executeTakeFirst();
+      if (!locked) {
+        throw new NotFoundError("Invoice not found");
+      }
+
+      const returnedQuantities = await invoiceReturnService.getReturnedQuantities(
+        trx,
+        invoiceId,
+        companyId
+      );
+
+      const items = data.items.map((requested) => {
+        const item = invoiceItems.find((invoiceItem) => invoiceItem.id === requested.invoiceItemId);
+        if (!item) {
+          throw new BadRequestError(`Invoice item ${requested.invoiceItemId} is not on this invoice`);
+        }
+
+        const returnable = item.quantity - (returnedQuantities.get(item.id) || 0);
+        if (requested.quantity > returnable) {
+          throw new BadRequestError(
+            `Only ${returnable} of "${item.description}" can still be returned`
+          );
+        }
+        if (requested.disposition === "restock" && !item.inventory_item_id) {
+          throw new BadRequestError(
+            `"${item.description}" isn't an inventory part, so it can't be restocked`
+          );
+        }
+
+        const subtotal = roundMoney((Number(item.subtotal) * requested.quantity) / item.quantity);
+        const taxAmount =
+          item.is_taxable && taxableSubtotal > 0
+            ? roundMoney((invoice.taxAmount * subtotal) / taxableSubtotal)
+            : 0;
+
+        return {
+          invoiceItemId: item.id,
+          inventoryItemId: item.inventory_item_id,
+          description: item.description,
+          quantity: requested.quantity,
+          unitPrice: roundMoney(subtotal / requested.quantity),
+          subtotal,
+          taxAmount,
+          disposition: requested.disposition,
+        };
+      });
+
+      const subtotal = roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+      const taxAmount = roundMoney(items.reduce((sum, item) => sum + item.taxAmount, 0));
+      const discountAmount =
+        invoiceSubtotal > 0 ? roundMoney((invoice.discountAmount * subtotal) / invoiceSubtotal) : 0;
+      // Tax-inclusive prices already have the tax in the line subtotals
+      const returnedValue = roundMoney(subtotal - discountAmount + (taxInclusive ? 0 : taxAmount));
+
+      const restockingFee = roundMoney(data.restockingFee || 0);
+      if (restockingFee >= returnedValue) {
+        throw new BadRequestError(
+          `Restocking fee must be less than the value of the returned items (${returnedValue.toFixed(2)})`
+        );
+      }
+      const refundAmount = roundMoney(returnedValue - restockingFee);
+
+      const refund = await this.issueRefund(trx, invoiceId, companyId, {
+        amount: refundAmount,
+        refundMethod,
+        reason: data.reason,
+        issuedBy: createdBy,
+      });
+
+      return invoiceReturnService.create(trx, companyId, {
+        invoiceId,
+        customerId: invoice.customerId,
+        creditMemoId: refund?.creditMemo.id || null,
+        subtotal,
+        discountAmount,
+        taxAmount,
+        restockingFee,
+        refundAmount,
+        refundMethod,
+        reason: data.reason,
+        createdBy,
+        items,
+      });
+    });
+
+    // Put restocked parts back on the shelf they were sold from
+    if (invoice.locationId) {
+      for (const item of invoiceReturn.items) {
+        if (item.disposition !== "restock" || !item.inventoryItemId) {
+          continue;
+        }
+        try {
+          await inventoryService.adjustQuantityForLocation(
+            item.inventoryItemId,
+            invoice.locationId,
+            item.quantity,
+            companyId
+          );
+          logger.info(
+            `Inventory restocked: ${item.quantity} units of inventory item ${item.inventoryItemId} at location ${invoice.locationId} for return ${invoiceReturn.returnNumber}`
+          );
+        } catch (error) {
+          // Log error but don't fail the return; the refund has already been given
+          logger.warn(
+            `Failed to restock inventory for return ${invoiceReturn.returnNumber}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
     }
 
-    return toInvoice(updated);
+    return invoiceReturn;
   }
 
   // Get invoice items
@@ -1269,11 +2160,24 @@ export class InvoiceService {
     companyId: string,
     refundId?: string
   ): Promise<(Invoice & { invoiceItems?: InvoiceItem[] }) | null> {
-    // Find invoice by payment_reference
+    // Find invoice by the transaction's payment, or the payment_reference of invoices paid before the ledger
     const invoice = await db
       .selectFrom("invoices")
       .selectAll()
-      .where("payment_reference", "=", transactionId)
+      .where((eb) =>
+        eb.or([
+          eb("payment_reference", "=", transactionId),
+          eb(
+            "id",
+            "in",
+            eb
+              .selectFrom("invoice_payments")
+              .select("invoice_id")
+              .where("payment_reference", "=", transactionId)
+              .where("company_id", "=", companyId)
+          ),
+        ])
+      )
       .where("company_id", "=", companyId)
       .where("deleted_at", "is", null)
       .executeTakeFirst();
@@ -1288,12 +2192,12 @@ export class InvoiceService {
 
     // Determine new status based on refund amount
     let newStatus = invoice.status;
-    const totalAmount = Number(invoice.total_amount);
+    const amountPaid = Number(invoice.amount_paid);
 
-    if (newRefundAmount >= totalAmount) {
+    if (amountPaid > 0 && newRefundAmount >= amountPaid) {
       // Fully refunded - change status to cancelled if it was paid
       // Note: "refunded" is not a valid status, so we use "cancelled"
-      if (invoice.status === "paid") {
+      if (invoice.status === "paid" || invoice.status === "partially_paid") {
         newStatus = "cancelled" as InvoiceStatus;
       }
     }
@@ -1312,22 +2216,37 @@ export class InvoiceService {
       }
     }
 
-    // Update invoice with refund amount
-    const updated = await db
-      .updateTable("invoices")
-      .set({
-        refund_amount: newRefundAmount,
-        refund_date: sql`now()`,
-        refund_reason: refundId ? `Payment provider refund: ${refundId}` : null,
-        refund_method: refundMethod,
-        status: newStatus,
-        updated_at: sql`now()`,
-      })
-      .where("id", "=", invoice.id)
-      .where("company_id", "=", companyId)
-      .where("deleted_at", "is", null)
-      .returningAll()
-      .executeTakeFirst();
+    const refundReason = refundId ? `Payment provider refund: ${refundId}` : null;
+    const updated = await db.transaction().execute(async (trx) => {
+      // Update invoice with refund amount
+      const refunded = await trx
+        .updateTable("invoices")
+        .set({
+          refund_amount: newRefundAmount,
+          refund_date: sql`now()`,
+          refund_reason: refundReason,
+          refund_method: refundMethod,
+          status: newStatus,
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", invoice.id)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .returningAll()
+        .executeTakeFirst();
+
+      if (refunded) {
+        await creditMemoService.create(trx, companyId, {
+          invoiceId: invoice.id,
+          customerId: invoice.customer_id,
+          amount: refundAmount,
+          refundMethod,
+          reason: refundReason,
+        });
+      }
+
+      return refunded;
+    });
 
     if (!updated) {
       return null;
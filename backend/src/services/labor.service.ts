@@ -0,0 +1,185 @@
+// src/services/labor.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { ConflictError, NotFoundError } from "../config/errors.js";
+import companyService from "./company.service.js";
+
+// Input DTOs
+export interface SaveLaborCategoryDto {
+  name: string;
+  hourlyRate?: number | null;
+  warrantyDays?: number | null;
+}
+
+// Output types
+export interface LaborCategory {
+  id: string;
+  name: string;
+  // Null means the company default rate applies
+  hourlyRate: number | null;
+  // Days work of this kind is under warranty
+  warrantyDays: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LaborSettings {
+  defaultHourlyRate: number | null;
+  categories: LaborCategory[];
+}
+
+function toLaborCategory(category: {
+  id: string;
+  name: string;
+  hourly_rate: number | string | null;
+  warranty_days: number | null;
+  created_at: Date;
+  updated_at: Date;
+}): LaborCategory {
+  return {
+    id: category.id,
+    name: category.name,
+    hourlyRate: category.hourly_rate === null ? null : Number(category.hourly_rate),
+    warrantyDays: category.warranty_days,
+    createdAt: category.created_at,
+    updatedAt: category.updated_at,
+  };
+}
+
+export class LaborService {
+  async getSettings(companyId: string): Promise<LaborSettings> {
+    const [defaultHourlyRate, categories] = await Promise.all([
+      this.getDefaultRate(companyId),
+      this.findCategories(companyId),
+    ]);
+    return { defaultHourlyRate, categories };
+  }
+
+  /**
+   * Get the hourly rate used for labor without a category rate of its own
+   * Stored in the company settings; null until an admin sets one
+   */
+  async getDefaultRate(companyId: string): Promise<number | null> {
+    const company = await companyService.findById(companyId);
+    const rate = company?.settings?.laborHourlyRate;
+    return typeof rate === "number" ? rate : null;
+  }
+
+  async setDefaultRate(companyId: string, rate: number | null): Promise<number | null> {
+    const company = await companyService.findById(companyId);
+    if (!company) {
+      throw new NotFoundError("Company not found");
+    }
+
+    const updated = await companyService.update(companyId, {
+      settings: { ...(company.settings || {}), laborHourlyRate: rate },
+    });
+    if (!updated) {
+      throw new Error("Failed to update company settings");
+    }
+
+    return rate;
+  }
+
+  async findCategories(companyId: string): Promise<LaborCategory[]> {
+    const categories = await db
+      .selectFrom("labor_categories")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .orderBy("name", "asc")
+      .execute();
+
+    return categories.map(toLaborCategory);
+  }
+
+  async findCategoryById(id: string, companyId: string): Promise<LaborCategory | null> {
+    const category = await db
+      .selectFrom("labor_categories")
+      .selectAll()
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    return category ? toLaborCategory(category) : null;
+  }
+
+  async createCategory(companyId: string, data: SaveLaborCategoryDto): Promise<LaborCategory> {
+    await this.assertNameAvailable(companyId, data.name);
+
+    const category = await db
+      .insertInto("labor_categories")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        name: data.name,
+        hourly_rate: data.hourlyRate ?? null,
+        warranty_days: data.warrantyDays ?? null,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toLaborCategory(category);
+  }
+
+  async updateCategory(
+    id: string,
+    companyId: string,
+    data: SaveLaborCategoryDto
+  ): Promise<LaborCategory | null> {
+    await this.assertNameAvailable(companyId, data.name, id);
+
+    const category = await db
+      .updateTable("labor_categories")
+      .set({
+        name: data.name,
+        hourly_rate: data.hourlyRate ?? null,
+        warranty_days: data.warrantyDays ?? null,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .returningAll()
+      .executeTakeFirst();
+
+    return category ? toLaborCategory(category) : null;
+  }
+
+  /**
+   * Soft delete a category; time already logged against it keeps the link
+   */
+  async deleteCategory(id: string, companyId: string): Promise<boolean> {
+    const result = await db
+      .updateTable("labor_categories")
+      .set({ deleted_at: sql`now()`, updated_at: sql`now()` })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    return result.numUpdatedRows > 0;
+  }
+
+  private async assertNameAvailable(companyId: string, name: string, excludeId?: string) {
+    let query = db
+      .selectFrom("labor_categories")
+      .select("id")
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where(sql`LOWER(name)`, "=", name.toLowerCase());
+    if (excludeId) {
+      query = query.where("id", "!=", excludeId);
+    }
+
+    if (await query.executeTakeFirst()) {
+      throw new ConflictError(`A labor category named "${name}" already exists`);
+    }
+  }
+}
+
+export default new LaborService();
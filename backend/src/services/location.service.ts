@@ -2,7 +2,7 @@
 import { sql } from "kysely";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../config/connection.js";
-import { LocationTable } from "../config/types.js";
+import { BusinessHours, LocationTable } from "../config/types.js";
 
 // Input DTOs
 export interface CreateLocationDto {
@@ -18,6 +18,10 @@ export interface CreateLocationDto {
   taxName?: string;
   taxEnabled?: boolean;
   taxInclusive?: boolean;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  bookingEnabled?: boolean;
+  bookingSlotMinutes?: number;
 }
 
 export interface UpdateLocationDto {
@@ -33,10 +37,14 @@ export interface UpdateLocationDto {
   taxName?: string;
   taxEnabled?: boolean;
   taxInclusive?: boolean;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  bookingEnabled?: boolean;
+  bookingSlotMinutes?: number;
 }
 
 // Output type
-export type Location = Omit<LocationTable, "id" | "company_id" | "created_at" | "updated_at" | "deleted_at" | "state_tax" | "county_tax" | "city_tax" | "tax_name" | "tax_enabled" | "tax_inclusive" | "is_free"> & {
+export type Location = Omit<LocationTable, "id" | "company_id" | "created_at" | "updated_at" | "deleted_at" | "state_tax" | "county_tax" | "city_tax" | "tax_name" | "tax_enabled" | "tax_inclusive" | "is_free" | "timezone" | "business_hours" | "booking_enabled" | "booking_slot_minutes"> & {
   id: string;
   company_id: string;
   stateTax: number;
@@ -47,6 +55,10 @@ export type Location = Omit<LocationTable, "id" | "company_id" | "created_at" |
   taxEnabled: boolean;
   taxInclusive: boolean;
   isFree: boolean;
+  timezone: string;
+  businessHours: BusinessHours | null;
+  bookingEnabled: boolean;
+  bookingSlotMinutes: number;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -67,6 +79,10 @@ function toLocation(location: {
   tax_name: string | null;
   tax_enabled: boolean;
   tax_inclusive: boolean;
+  timezone: string;
+  business_hours: BusinessHours | null;
+  booking_enabled: boolean;
+  booking_slot_minutes: number;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -92,6 +108,10 @@ function toLocation(location: {
     taxName: location.tax_name,
     taxEnabled: location.tax_enabled,
     taxInclusive: location.tax_inclusive,
+    timezone: location.timezone,
+    businessHours: location.business_hours,
+    bookingEnabled: location.booking_enabled,
+    bookingSlotMinutes: location.booking_slot_minutes,
     createdAt: location.created_at,
     updatedAt: location.updated_at,
   };
@@ -116,6 +136,10 @@ export class LocationService {
         "tax_name",
         "tax_enabled",
         "tax_inclusive",
+        "timezone",
+        "business_hours",
+        "booking_enabled",
+        "booking_slot_minutes",
         "created_at",
         "updated_at",
         "deleted_at",
@@ -184,6 +208,10 @@ export class LocationService {
         "tax_name",
         "tax_enabled",
         "tax_inclusive",
+        "timezone",
+        "business_hours",
+        "booking_enabled",
+        "booking_slot_minutes",
         "created_at",
         "updated_at",
         "deleted_at",
@@ -249,6 +277,10 @@ export class LocationService {
         tax_name: data.taxName || "Sales Tax",
         tax_enabled: data.taxEnabled !== undefined ? data.taxEnabled : true,
         tax_inclusive: data.taxInclusive !== undefined ? data.taxInclusive : false,
+        timezone: data.timezone,
+        business_hours: data.businessHours ?? null,
+        booking_enabled: data.bookingEnabled,
+        booking_slot_minutes: data.bookingSlotMinutes,
         created_at: sql`now()`,
         updated_at: sql`now()`,
         deleted_at: null,
@@ -343,6 +375,18 @@ export class LocationService {
     if (data.taxInclusive !== undefined) {
       updateQuery = updateQuery.set({ tax_inclusive: data.taxInclusive });
     }
+    if (data.timezone !== undefined) {
+      updateQuery = updateQuery.set({ timezone: data.timezone });
+    }
+    if (data.businessHours !== undefined) {
+      updateQuery = updateQuery.set({ business_hours: data.businessHours });
+    }
+    if (data.bookingEnabled !== undefined) {
+      updateQuery = updateQuery.set({ booking_enabled: data.bookingEnabled });
+    }
+    if (data.bookingSlotMinutes !== undefined) {
+      updateQuery = updateQuery.set({ booking_slot_minutes: data.bookingSlotMinutes });
+    }
 
     const updated = await updateQuery.returningAll().executeTakeFirst();
 
@@ -377,6 +421,10 @@ export class LocationService {
         "tax_name",
         "tax_enabled",
         "tax_inclusive",
+        "timezone",
+        "business_hours",
+        "booking_enabled",
+        "booking_slot_minutes",
         "created_at",
         "updated_at",
         "deleted_at",
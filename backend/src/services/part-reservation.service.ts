@@ -0,0 +1,405 @@
+// src/services/part-reservation.service.ts
+import { sql, Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import { Database, PartReservationStatus } from "../config/types.js";
+import inventoryService from "./inventory.service.js";
+
+// Input DTOs
+export interface ReservePartDto {
+  inventoryItemId: string;
+  quantity: number;
+}
+
+// Output types
+export interface PartReservation {
+  id: string;
+  ticketId: string;
+  inventoryItemId: string;
+  inventoryItem: {
+    id: string;
+    sku: string;
+    name: string;
+  };
+  locationId: string;
+  // Units the repair needs
+  quantity: number;
+  // Units actually held; the rest is short until stock arrives
+  reservedQuantity: number;
+  shortageQuantity: number;
+  status: PartReservationStatus;
+  invoiceItemId: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  closedAt: Date | null;
+}
+
+const reservationColumns = [
+  "ticket_part_reservations.id",
+  "ticket_part_reservations.ticket_id",
+  "ticket_part_reservations.inventory_item_id",
+  "ticket_part_reservations.location_id",
+  "ticket_part_reservations.quantity",
+  "ticket_part_reservations.reserved_quantity",
+  "ticket_part_reservations.status",
+  "ticket_part_reservations.invoice_item_id",
+  "ticket_part_reservations.created_by",
+  "ticket_part_reservations.created_at",
+  "ticket_part_reservations.updated_at",
+  "ticket_part_reservations.closed_at",
+  "inventory_items.sku",
+  "inventory_items.name",
+] as const;
+
+function toPartReservation(reservation: {
+  id: string;
+  ticket_id: string;
+  inventory_item_id: string;
+  location_id: string;
+  quantity: number;
+  reserved_quantity: number;
+  status: PartReservationStatus;
+  invoice_item_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  closed_at: Date | null;
+  sku: string;
+  name: string;
+}): PartReservation {
+  return {
+    id: reservation.id,
+    ticketId: reservation.ticket_id,
+    inventoryItemId: reservation.inventory_item_id,
+    inventoryItem: {
+      id: reservation.inventory_item_id,
+      sku: reservation.sku,
+      name: reservation.name,
+    },
+    locationId: reservation.location_id,
+    quantity: reservation.quantity,
+    reservedQuantity: reservation.reserved_quantity,
+    shortageQuantity:
+      reservation.status === "reserved" ? reservation.quantity - reservation.reserved_quantity : 0,
+    status: reservation.status,
+    invoiceItemId: reservation.invoice_item_id,
+    createdBy: reservation.created_by,
+    createdAt: reservation.created_at,
+    updatedAt: reservation.updated_at,
+    closedAt: reservation.closed_at,
+  };
+}
+
+export class PartReservationService {
+  /**
+   * Get a ticket's reservations, open ones first
+   */
+  async findByTicketId(ticketId: string, companyId: string): Promise<PartReservation[]> {
+    const reservations = await db
+      .selectFrom("ticket_part_reservations")
+      .innerJoin("inventory_items", "inventory_items.id", "ticket_part_reservations.inventory_item_id")
+      .select(reservationColumns)
+      .where("ticket_part_reservations.ticket_id", "=", ticketId)
+      .where("ticket_part_reservations.company_id", "=", companyId)
+      .orderBy(sql`ticket_part_reservations.status = 'reserved'`, "desc")
+      .orderBy("ticket_part_reservations.created_at", "asc")
+      .execute();
+
+    return reservations.map(toPartReservation);
+  }
+
+  /**
+   * Get the open reservation a ticket has for a part, if any
+   */
+  async findOpen(
+    ticketId: string,
+    inventoryItemId: string,
+    companyId: string
+  ): Promise<PartReservation | null> {
+    const reservation = await db
+      .selectFrom("ticket_part_reservations")
+      .innerJoin("inventory_items", "inventory_items.id", "ticket_part_reservations.inventory_item_id")
+      .select(reservationColumns)
+      .where("ticket_part_reservations.ticket_id", "=", ticketId)
+      .where("ticket_part_reservations.inventory_item_id", "=", inventoryItemId)
+      .where("ticket_part_reservations.company_id", "=", companyId)
+      .where("ticket_part_reservations.status", "=", "reserved")
+      .executeTakeFirst();
+
+    return reservation ? toPartReservation(reservation) : null;
+  }
+
+  /**
+   * Reserve a part for a ticket at the ticket's location
+   * Reserving a part the ticket already holds adds to that reservation. Holds as much as is
+   * available; anything more is recorded as a shortage rather than refused.
+   */
+  async reserve(
+    ticketId: string,
+    companyId: string,
+    userId: string,
+    data: ReservePartDto
+  ): Promise<PartReservation> {
+    const ticket = await db
+      .selectFrom("tickets")
+      .select(["id", "location_id", "status"])
+      .where("id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+    if (!ticket.location_id) {
+      throw new BadRequestError("Ticket has no location to reserve parts from");
+    }
+    if (ticket.status === "cancelled") {
+      throw new BadRequestError("Parts can't be reserved for a cancelled ticket");
+    }
+
+    const item = await db
+      .selectFrom("inventory_items")
+      .select(["id", "track_quantity"])
+      .where("id", "=", data.inventoryItemId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!item) {
+      throw new BadRequestError("Inventory item not found");
+    }
+
+    const locationId = ticket.location_id;
+    const reservationId = await db.transaction().execute(async (trx) => {
+      const existing = await trx
+        .selectFrom("ticket_part_reservations")
+        .select(["id", "quantity", "reserved_quantity"])
+        .where("ticket_id", "=", ticketId)
+        .where("inventory_item_id", "=", data.inventoryItemId)
+        .where("status", "=", "reserved")
+        .forUpdate()
+        .executeTakeFirst();
+
+      const quantity = (existing?.quantity ?? 0) + data.quantity;
+      const reservedQuantity = await this.allocate(
+        trx,
+        data.inventoryItemId,
+        locationId,
+        item.track_quantity,
+        quantity,
+        existing?.reserved_quantity ?? 0
+      );
+
+      if (existing) {
+        await trx
+          .updateTable("ticket_part_reservations")
+          .set({ quantity, reserved_quantity: reservedQuantity, updated_at: sql`now()` })
+          .where("id", "=", existing.id)
+          .execute();
+        return existing.id;
+      }
+
+      const created = await trx
+        .insertInto("ticket_part_reservations")
+        .values({
+          id: uuidv4(),
+          company_id: companyId,
+          ticket_id: ticketId,
+          inventory_item_id: data.inventoryItemId,
+          location_id: locationId,
+          quantity,
+          reserved_quantity: reservedQuantity,
+          status: "reserved",
+          created_by: userId,
+          created_at: sql`now()`,
+          updated_at: sql`now()`,
+        })
+        .returning("id")
+        .executeTakeFirstOrThrow();
+      return created.id;
+    });
+
+    return this.findReservation(reservationId, ticketId, companyId);
+  }
+
+  /**
+   * Change how many units a ticket needs
+   * Also tops up a short reservation from stock that has arrived since
+   */
+  async updateQuantity(
+    id: string,
+    ticketId: string,
+    companyId: string,
+    quantity: number
+  ): Promise<PartReservation> {
+    const reservation = await this.findReservation(id, ticketId, companyId);
+    if (reservation.status !== "reserved") {
+      throw new BadRequestError(`This reservation has already been ${reservation.status}`);
+    }
+
+    await db.transaction().execute(async (trx) => {
+      const current = await trx
+        .selectFrom("ticket_part_reservations")
+        .innerJoin("inventory_items", "inventory_items.id", "ticket_part_reservations.inventory_item_id")
+        .select(["ticket_part_reservations.reserved_quantity", "inventory_items.track_quantity"])
+        .where("ticket_part_reservations.id", "=", id)
+        .where("ticket_part_reservations.status", "=", "reserved")
+        .forUpdate()
+        .executeTakeFirst();
+      if (!current) {
+        throw new BadRequestError("This reservation is no longer open");
+      }
+
+      const reservedQuantity = await this.allocate(
+        trx,
+        reservation.inventoryItemId,
+        reservation.locationId,
+        current.track_quantity,
+        quantity,
+        current.reserved_quantity
+      );
+      await trx
+        .updateTable("ticket_part_reservations")
+        .set({ quantity, reserved_quantity: reservedQuantity, updated_at: sql`now()` })
+        .where("id", "=", id)
+        .execute();
+    });
+
+    return this.findReservation(id, ticketId, companyId);
+  }
+
+  /**
+   * Give a reserved part back to available stock
+   */
+  async release(id: string, ticketId: string, companyId: string): Promise<PartReservation> {
+    const reservation = await this.findReservation(id, ticketId, companyId);
+    if (reservation.status !== "reserved") {
+      throw new BadRequestError(`This reservation has already been ${reservation.status}`);
+    }
+
+    await this.close(reservation, "released", null);
+    return this.findReservation(id, ticketId, companyId);
+  }
+
+  /**
+   * Release everything a ticket still holds, e.g. when it is cancelled or deleted
+   */
+  async releaseForTicket(ticketId: string, companyId: string): Promise<number> {
+    const reservations = (await this.findByTicketId(ticketId, companyId)).filter(
+      (reservation) => reservation.status === "reserved"
+    );
+    for (const reservation of reservations) {
+      await this.close(reservation, "released", null);
+    }
+    return reservations.length;
+  }
+
+  /**
+   * Mark a ticket's reservation for a part as used by an invoice line
+   * The invoice line takes the stock out of on-hand, so the hold is dropped.
+   */
+  async consume(
+    ticketId: string,
+    inventoryItemId: string,
+    invoiceItemId: string,
+    companyId: string
+  ): Promise<boolean> {
+    const reservation = await this.findOpen(ticketId, inventoryItemId, companyId);
+    if (!reservation) {
+      return false;
+    }
+
+    await this.close(reservation, "consumed", invoiceItemId);
+    return true;
+  }
+
+  private async close(
+    reservation: PartReservation,
+    status: Exclude<PartReservationStatus, "reserved">,
+    invoiceItemId: string | null
+  ): Promise<void> {
+    await db.transaction().execute(async (trx) => {
+      // Only the request that closes the reservation frees its hold
+      const closed = await trx
+        .updateTable("ticket_part_reservations")
+        .set({
+          status,
+          invoice_item_id: invoiceItemId,
+          closed_at: sql`now()`,
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", reservation.id)
+        .where("status", "=", "reserved")
+        .returning("reserved_quantity")
+        .executeTakeFirst();
+
+      if (closed) {
+        await inventoryService.adjustReservedQuantityForLocation(
+          reservation.inventoryItemId,
+          reservation.locationId,
+          -closed.reserved_quantity,
+          trx
+        );
+      }
+    });
+  }
+
+  /**
+   * Work out how many units to hold for a reservation and move the location's reserved count to match
+   * Untracked items are never short, so they are considered fully held without touching stock.
+   */
+  private async allocate(
+    trx: Transaction<Database>,
+    inventoryItemId: string,
+    locationId: string,
+    trackQuantity: boolean,
+    quantity: number,
+    currentlyReserved: number
+  ): Promise<number> {
+    if (!trackQuantity) {
+      return quantity;
+    }
+
+    const stock = await trx
+      .selectFrom("inventory_location_quantities")
+      .select(["quantity", "reserved_quantity"])
+      .where("inventory_item_id", "=", inventoryItemId)
+      .where("location_id", "=", locationId)
+      .forUpdate()
+      .executeTakeFirst();
+    const available = stock ? stock.quantity - stock.reserved_quantity : 0;
+
+    const reservedQuantity = Math.min(quantity, currentlyReserved + Math.max(0, available));
+    await inventoryService.adjustReservedQuantityForLocation(
+      inventoryItemId,
+      locationId,
+      reservedQuantity - currentlyReserved,
+      trx
+    );
+
+    return reservedQuantity;
+  }
+
+  private async findReservation(
+    id: string,
+    ticketId: string,
+    companyId: string
+  ): Promise<PartReservation> {
+    const reservation = await db
+      .selectFrom("ticket_part_reservations")
+      .innerJoin("inventory_items", "inventory_items.id", "ticket_part_reservations.inventory_item_id")
+      .select(reservationColumns)
+      .where("ticket_part_reservations.id", "=", id)
+      .where("ticket_part_reservations.ticket_id", "=", ticketId)
+      .where("ticket_part_reservations.company_id", "=", companyId)
+      .executeTakeFirst();
+    if (!reservation) {
+      throw new NotFoundError("Part reservation not found");
+    }
+
+    return toPartReservation(reservation);
+  }
+}
+
+export default new PartReservationService();
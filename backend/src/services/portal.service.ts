@@ -0,0 +1,297 @@
+// src/services/portal.service.ts
+import { db } from "../config/connection.js";
+import { BadRequestError, InternalServerError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import paymentService from "../integrations/payment/payment.service.js";
+import { ProcessPaymentResult } from "../integrations/payment/payment.types.js";
+import { generateEstimateToken, generatePortalToken, verifyPortalToken } from "../utils/auth.js";
+import companyService from "./company.service.js";
+import invoiceService from "./invoice.service.js";
+import ticketCommentService from "./ticket-comment.service.js";
+import ticketService from "./ticket.service.js";
+import workflowService from "./workflow.service.js";
+
+// Invoices in these statuses are not shown to customers
+const HIDDEN_INVOICE_STATUSES = ["draft", "cancelled"];
+
+// Input DTOs
+export interface PortalPaymentDto {
+  sourceId: string;
+  idempotencyKey?: string;
+}
+
+// What a customer sees about their repair. Deliberately excludes internal notes,
+// technician details and anything else staff-only.
+export interface PortalTicket {
+  companyName: string;
+  ticket: {
+    ticketNumber: string;
+    status: string;
+    statusLabel: string;
+    statusColor: string;
+    isClosed: boolean;
+    deviceType: string;
+    deviceBrand: string | null;
+    deviceModel: string | null;
+    issueDescription: string;
+    estimatedCompletionDate: Date | null;
+    completedDate: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  updates: {
+    id: string;
+    body: string;
+    authorName: string | null;
+    createdAt: Date;
+  }[];
+  invoice: {
+    invoiceNumber: string;
+    status: string;
+    issueDate: Date | null;
+    dueDate: Date | null;
+    paidDate: Date | null;
+    subtotal: number;
+    taxAmount: number;
+    discountAmount: number;
+    totalAmount: number;
+    amountPaid: number;
+    balanceDue: number;
+    items: {
+      description: string;
+      quantity: number;
+      unitPrice: number;
+      subtotal: number;
+    }[];
+  } | null;
+  // Link token for an estimate waiting on the customer's approval
+  pendingEstimateToken: string | null;
+  // Present when the invoice can be paid online
+  payment: {
+    provider: string;
+    applicationId: string;
+    locationId: string;
+    testMode: boolean;
+  } | null;
+}
+
+// Compare phone numbers by their digits so formatting differences don't matter
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, "");
+}
+
+export class PortalService {
+  /**
+   * Find a ticket by its number and the customer's phone number or email
+   * Returns a portal token for the ticket. The error is the same whether the
+   * ticket doesn't exist or the contact details don't match, so ticket numbers
+   * can't be probed.
+   */
+  async lookup(ticketNumber: string, contact: string): Promise<string> {
+    const candidates = await db
+      .selectFrom("tickets")
+      .innerJoin("customers", "customers.id", "tickets.customer_id")
+      .select([
+        "tickets.id",
+        "tickets.company_id",
+        "customers.email",
+        "customers.phone",
+      ])
+      .where("tickets.ticket_number", "=", ticketNumber.trim())
+      .where("tickets.deleted_at", "is", null)
+      .where("customers.deleted_at", "is", null)
+      .execute();
+
+    const trimmed = contact.trim();
+    const isEmail = trimmed.includes("@");
+    const match = candidates.find((candidate) => {
+      if (isEmail) {
+        return candidate.email.toLowerCase() === trimmed.toLowerCase();
+      }
+      const phone = normalizePhone(trimmed);
+      return phone.length > 0 && !!candidate.phone && normalizePhone(candidate.phone) === phone;
+    });
+
+    if (!match) {
+      throw new NotFoundError("We couldn't find a ticket matching those details");
+    }
+
+    return generatePortalToken(match.id, match.company_id);
+  }
+
+  /**
+   * Get the customer's view of a ticket from a portal token
+   */
+  async getTicket(token: string): Promise<PortalTicket> {
+    const { ticketId, companyId } = this.verify(token);
+
+    const ticket = await ticketService.findById(ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    const [company, status, comments, invoice, pendingEstimate] = await Promise.all([
+      companyService.findById(companyId),
+      workflowService.getStatus(companyId, ticket.status),
+      ticketCommentService.findCustomerVisible(ticketId, companyId, 50),
+      this.findVisibleInvoice(ticketId, companyId),
+      db
+        .selectFrom("estimates")
+        .select("id")
+        .where("ticket_id", "=", ticketId)
+        .where("company_id", "=", companyId)
+        .where("status", "=", "sent")
+        .where("deleted_at", "is", null)
+        .executeTakeFirst(),
+    ]);
+
+    const payment =
+      invoice && invoice.status !== "paid"
+        ? await paymentService.getPublicPaymentConfig(companyId)
+        : null;
+
+    return {
+      companyName: company?.name || "",
+      ticket: {
+        ticketNumber: ticket.ticketNumber,
+        status: ticket.status,
+        statusLabel: status?.label || ticket.status,
+        statusColor: status?.color || "gray",
+        isClosed: status?.isClosed || false,
+        deviceType: ticket.deviceType,
+        deviceBrand: ticket.deviceBrand,
+        deviceModel: ticket.deviceModel,
+        issueDescription: ticket.issueDescription,
+        estimatedCompletionDate: ticket.estimatedCompletionDate,
+        completedDate: ticket.completedDate,
+        createdAt: ticket.createdAt,
+        updatedAt: ticket.updatedAt,
+      },
+      updates: comments.map((comment) => ({
+        id: comment.id,
+        body: comment.body,
+        authorName: comment.author ? comment.author.firstName : null,
+        createdAt: comment.createdAt,
+      })),
+      invoice: invoice
+        ? {
+            invoiceNumber: invoice.invoiceNumber,
+            status: invoice.status,
+            issueDate: invoice.issueDate,
+            dueDate: invoice.dueDate,
+            paidDate: invoice.paidDate,
+            // DECIMAL columns come back from pg as strings
+            subtotal: Number(invoice.subtotal),
+            taxAmount: Number(invoice.taxAmount),
+            discountAmount: Number(invoice.discountAmount),
+            totalAmount: Number(invoice.totalAmount),
+            amountPaid: Number(invoice.amountPaid),
+            balanceDue: Number(invoice.balanceDue),
+            items: (invoice.invoiceItems || []).map((item) => ({
+              description: item.description,
+              quantity: Number(item.quantity),
+              unitPrice: Number(item.unitPrice),
+              subtotal: Number(item.subtotal),
+            })),
+          }
+        : null,
+      pendingEstimateToken: pendingEstimate
+        ? generateEstimateToken(pendingEstimate.id, companyId)
+        : null,
+      payment,
+    };
+  }
+
+  /**
+   * Pay the ticket's invoice online with a card token from the payment form
+   */
+  async payInvoice(token: string, data: PortalPaymentDto): Promise<PortalTicket> {
+    const { ticketId, companyId } = this.verify(token);
+
+    const invoice = await this.findVisibleInvoice(ticketId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("There is no invoice to pay for this ticket");
+    }
+    if (invoice.status === "paid") {
+      throw new BadRequestError("Invoice is already paid");
+    }
+    if (!invoice.customerId) {
+      throw new BadRequestError("Invoice must have a customer to process payment");
+    }
+    if (!(await paymentService.getPublicPaymentConfig(companyId))) {
+      throw new BadRequestError("Online payment is not available. Please contact us to pay.");
+    }
+
+    const currency = await paymentService.getCurrency(companyId);
+    let result: ProcessPaymentResult;
+    try {
+      result = await paymentService.processPayment(companyId, {
+        amount: invoice.balanceDue,
+        currency,
+        invoiceId: invoice.id,
+        customerId: invoice.customerId,
+        paymentMethod: "card",
+        sourceId: data.sourceId,
+        idempotencyKey: data.idempotencyKey,
+        description: `Payment for invoice ${invoice.invoiceNumber}`,
+        metadata: {
+          invoiceNumber: invoice.invoiceNumber,
+          source: "customer_portal",
+        },
+      });
+    } catch (error) {
+      logger.error("Customer portal payment error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Payment processing failed";
+      throw new BadRequestError(`Payment failed: ${errorMessage}`);
+    }
+
+    // The card has been charged by now, so a failure here must not tell the customer the payment failed
+    try {
+      await invoiceService.markInvoiceAsPaid(
+        invoice.id,
+        {
+          paymentMethod: result.paymentMethod,
+          amount: invoice.balanceDue,
+          paymentReference: result.transactionId,
+        },
+        companyId
+      );
+    } catch (error) {
+      logger.error(
+        `Customer portal payment ${result.transactionId} of ${invoice.balanceDue} for invoice ${invoice.invoiceNumber} was charged but not recorded; reconcile it by hand:`,
+        error
+      );
+      throw new InternalServerError(
+        `Your payment was received (reference ${result.transactionId}), but we couldn't update your invoice yet. Please don't pay again; we'll take care of it.`
+      );
+    }
+
+    return this.getTicket(token);
+  }
+
+  private verify(token: string): { ticketId: string; companyId: string } {
+    const decoded = verifyPortalToken(token);
+    if (!decoded) {
+      throw new BadRequestError("This link is invalid or has expired");
+    }
+    return decoded;
+  }
+
+  // The most recent invoice for the ticket that the customer should see
+  private async findVisibleInvoice(ticketId: string, companyId: string) {
+    const invoices = await invoiceService.findAll(
+      companyId,
+      undefined,
+      undefined,
+      undefined,
+      ticketId
+    );
+    const latest = invoices
+      .filter((invoice) => !HIDDEN_INVOICE_STATUSES.includes(invoice.status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+
+    return latest ? invoiceService.findById(latest.id, companyId) : null;
+  }
+}
+
+export default new PortalService();
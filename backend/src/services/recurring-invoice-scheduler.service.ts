@@ -0,0 +1,59 @@
+// src/services/recurring-invoice-scheduler.service.ts
+import cron from "node-cron";
+import logger from "../config/logger.js";
+import recurringInvoiceService from "./recurring-invoice.service.js";
+
+/**
+ * Recurring invoice scheduler service
+ * Runs daily to issue the recurring invoices that have come due
+ */
+export class RecurringInvoiceSchedulerService {
+  private task: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the recurring invoice scheduler
+   * Runs daily at 6 AM so invoices land before the working day starts
+   */
+  start(): void {
+    if (this.task) {
+      logger.warn("Recurring invoice scheduler is already running");
+      return;
+    }
+
+    // Run daily at 6 AM
+    // Cron format: minute hour day month day-of-week
+    this.task = cron.schedule("0 6 * * *", async () => {
+      logger.info("Starting scheduled recurring invoice processing");
+      try {
+        const result = await recurringInvoiceService.processDueInvoices();
+        logger.info(
+          `Scheduled recurring invoice processing completed - issued: ${result.issued}, failed: ${result.failed}`
+        );
+      } catch (error) {
+        logger.error("Error in scheduled recurring invoice processing:", error);
+      }
+    });
+
+    logger.info("Recurring invoice scheduler started - will run daily at 6 AM");
+  }
+
+  /**
+   * Stop the recurring invoice scheduler
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      logger.info("Recurring invoice scheduler stopped");
+    }
+  }
+
+  /**
+   * Check if scheduler is running
+   */
+  isRunning(): boolean {
+    return this.task !== null;
+  }
+}
+
+export default new RecurringInvoiceSchedulerService();
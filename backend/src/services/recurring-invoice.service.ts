@@ -0,0 +1,751 @@
+// src/services/recurring-invoice.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import {
+  RecurringInvoiceFrequency,
+  RecurringInvoiceItemTable,
+  RecurringInvoiceStatus,
+} from "../config/types.js";
+import emailService from "../integrations/email/email.service.js";
+import paymentService from "../integrations/payment/payment.service.js";
+import { ProcessPaymentResult } from "../integrations/payment/payment.types.js";
+import customerService from "./customer.service.js";
+import invoiceService, { Invoice } from "./invoice.service.js";
+
+export const RECURRING_INVOICE_FREQUENCIES: RecurringInvoiceFrequency[] = [
+  "monthly",
+  "quarterly",
+  "yearly",
+];
+
+// How far each frequency moves the next issue date on, as a Postgres interval
+const FREQUENCY_INTERVALS: Record<RecurringInvoiceFrequency, string> = {
+  monthly: "1 month",
+  quarterly: "3 months",
+  yearly: "1 year",
+};
+
+// Input DTOs
+export interface RecurringInvoiceItemDto {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  type?: "service" | "other";
+}
+
+export interface CreateRecurringInvoiceDto {
+  customerId: string;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  // When the first invoice is issued
+  nextIssueDate: string;
+  endDate?: string | null;
+  dueDays?: number;
+  notes?: string | null;
+  autoEmail?: boolean;
+  items: RecurringInvoiceItemDto[];
+}
+
+export interface UpdateRecurringInvoiceDto {
+  name?: string;
+  frequency?: RecurringInvoiceFrequency;
+  status?: "active" | "paused";
+  nextIssueDate?: string;
+  endDate?: string | null;
+  dueDays?: number;
+  notes?: string | null;
+  autoEmail?: boolean;
+  autopayEnabled?: boolean;
+  // Replaces the schedule's line items
+  items?: RecurringInvoiceItemDto[];
+}
+
+// Output types - convert snake_case to camelCase
+export interface RecurringInvoiceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  type: "service" | "other";
+}
+
+export interface RecurringInvoice {
+  id: string;
+  locationId: string;
+  customerId: string;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  status: RecurringInvoiceStatus;
+  nextIssueDate: Date;
+  endDate: Date | null;
+  dueDays: number;
+  notes: string | null;
+  autoEmail: boolean;
+  autopayEnabled: boolean;
+  // Whether a card is saved for autopay; the card itself stays with the payment provider
+  hasSavedCard: boolean;
+  lastInvoiceId: string | null;
+  lastIssuedAt: Date | null;
+  lastAutopayError: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  // Price of one invoice before tax
+  amount: number;
+  items: RecurringInvoiceItem[];
+}
+
+// An invoice the schedule has issued, for its billing history
+export interface RecurringInvoiceIssuedInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: string;
+  issueDate: Date | null;
+  dueDate: Date | null;
+  totalAmount: number;
+  amountPaid: number;
+}
+
+type RecurringInvoiceRow = {
+  id: string;
+  location_id: string;
+  customer_id: string;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  status: RecurringInvoiceStatus;
+  next_issue_date: Date;
+  end_date: Date | null;
+  due_days: number;
+  notes: string | null;
+  auto_email: boolean;
+  autopay_enabled: boolean;
+  square_customer_id: string | null;
+  square_card_id: string | null;
+  last_invoice_id: string | null;
+  last_issued_at: Date | null;
+  last_autopay_error: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type RecurringInvoiceItemRow = {
+  id: string;
+  recurring_invoice_id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  type: RecurringInvoiceItemTable["type"];
+};
+
+function toRecurringInvoiceItem(item: RecurringInvoiceItemRow): RecurringInvoiceItem {
+  return {
+    id: item.id,
+    description: item.description,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unit_price),
+    type: item.type,
+  };
+}
+
+function toRecurringInvoice(
+  schedule: RecurringInvoiceRow,
+  items: RecurringInvoiceItemRow[]
+): RecurringInvoice {
+  const mappedItems = items.map(toRecurringInvoiceItem);
+  return {
+    id: schedule.id,
+    locationId: schedule.location_id,
+    customerId: schedule.customer_id,
+    name: schedule.name,
+    frequency: schedule.frequency,
+    status: schedule.status,
+    nextIssueDate: schedule.next_issue_date,
+    endDate: schedule.end_date,
+    dueDays: Number(schedule.due_days),
+    notes: schedule.notes,
+    autoEmail: schedule.auto_email,
+    autopayEnabled: schedule.autopay_enabled,
+    hasSavedCard: !!schedule.square_card_id,
+    lastInvoiceId: schedule.last_invoice_id,
+    lastIssuedAt: schedule.last_issued_at,
+    lastAutopayError: schedule.last_autopay_error,
+    createdBy: schedule.created_by,
+    createdAt: schedule.created_at,
+    updatedAt: schedule.updated_at,
+    amount:
+      Math.round(
+        mappedItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0) * 100
+      ) / 100,
+    items: mappedItems,
+  };
+}
+
+export class RecurringInvoiceService {
+  private async findItems(scheduleIds: string[]): Promise<RecurringInvoiceItemRow[]> {
+    if (scheduleIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .selectFrom("recurring_invoice_items")
+      .selectAll()
+      .where("recurring_invoice_id", "in", scheduleIds)
+      .orderBy("sort_order", "asc")
+      .execute();
+  }
+
+  private async findRow(id: string, companyId: string): Promise<RecurringInvoiceRow | undefined> {
+    return db
+      .selectFrom("recurring_invoices")
+      .selectAll()
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+  }
+
+  private async insertItems(
+    executor: Pick<typeof db, "insertInto">,
+    scheduleId: string,
+    items: RecurringInvoiceItemDto[]
+  ): Promise<void> {
+    await executor
+      .insertInto("recurring_invoice_items")
+      .values(
+        items.map((item, index) => ({
+          id: uuidv4(),
+          recurring_invoice_id: scheduleId,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unitPrice,
+          type: item.type || "service",
+          sort_order: index,
+        }))
+      )
+      .execute();
+  }
+
+  /**
+   * Get a company's recurring invoice schedules, soonest to issue first
+   */
+  async findAll(
+    companyId: string,
+    options: { customerId?: string } = {}
+  ): Promise<RecurringInvoice[]> {
+    let query = db
+      .selectFrom("recurring_invoices")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null);
+
+    if (options.customerId) {
+      query = query.where("customer_id", "=", options.customerId);
+    }
+
+    const schedules = await query.orderBy("next_issue_date", "asc").execute();
+    const items = await this.findItems(schedules.map((schedule) => schedule.id));
+
+    return schedules.map((schedule) =>
+      toRecurringInvoice(
+        schedule,
+        items.filter((item) => item.recurring_invoice_id === schedule.id)
+      )
+    );
+  }
+
+  async findById(id: string, companyId: string): Promise<RecurringInvoice | null> {
+    const schedule = await this.findRow(id, companyId);
+    if (!schedule) {
+      return null;
+    }
+
+    return toRecurringInvoice(schedule, await this.findItems([id]));
+  }
+
+  /**
+   * Get the invoices a schedule has issued, newest first
+   */
+  async findIssuedInvoices(id: string, companyId: string): Promise<RecurringInvoiceIssuedInvoice[]> {
+    const invoices = await db
+      .selectFrom("invoices")
+      .select([
+        "id",
+        "invoice_number",
+        "status",
+        "issue_date",
+        "due_date",
+        "total_amount",
+        "amount_paid",
+      ])
+      .where("recurring_invoice_id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .orderBy("created_at", "desc")
+      .execute();
+
+    return invoices.map((invoice) => ({
+      id: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      status: invoice.status,
+      issueDate: invoice.issue_date,
+      dueDate: invoice.due_date,
+      totalAmount: Number(invoice.total_amount),
+      amountPaid: Number(invoice.amount_paid),
+    }));
+  }
+
+  async create(
+    data: CreateRecurringInvoiceDto,
+    companyId: string,
+    locationId: string,
+    createdBy: string | null = null
+  ): Promise<RecurringInvoice> {
+    const customer = await customerService.findById(data.customerId, companyId);
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    const id = await db.transaction().execute(async (trx) => {
+      const schedule = await trx
+        .insertInto("recurring_invoices")
+        .values({
+          id: uuidv4(),
+          company_id: companyId,
+          location_id: locationId,
+          customer_id: data.customerId,
+          name: data.name,
+          frequency: data.frequency,
+          next_issue_date: new Date(data.nextIssueDate).toISOString(),
+          end_date: data.endDate ? new Date(data.endDate).toISOString() : null,
+          due_days: data.dueDays ?? 0,
+          notes: data.notes || null,
+          auto_email: data.autoEmail ?? true,
+          autopay_enabled: false,
+          created_by: createdBy,
+        })
+        .returning("id")
+        .executeTakeFirstOrThrow();
+
+      await this.insertItems(trx, schedule.id, data.items);
+      return schedule.id;
+    });
+
+    return (await this.findById(id, companyId))!;
+  }
+
+  async update(
+    id: string,
+    data: UpdateRecurringInvoiceDto,
+    companyId: string
+  ): Promise<RecurringInvoice | null> {
+    const existing = await this.findRow(id, companyId);
+    if (!existing) {
+      return null;
+    }
+    if (existing.status === "ended" && data.status) {
+      throw new BadRequestError("This schedule has ended; create a new one to start billing again");
+    }
+    if (data.autopayEnabled && !existing.square_card_id) {
+      throw new BadRequestError("Save a card for this schedule before turning on autopay");
+    }
+
+    await db.transaction().execute(async (trx) => {
+      let updateQuery = trx
+        .updateTable("recurring_invoices")
+        .set({ updated_at: sql`now()` })
+        .where("id", "=", id)
+        .where("company_id", "=", companyId);
+
+      if (data.name !== undefined) {
+        updateQuery = updateQuery.set({ name: data.name });
+      }
+      if (data.frequency !== undefined) {
+        updateQuery = updateQuery.set({ frequency: data.frequency });
+      }
+      if (data.status !== undefined) {
+        updateQuery = updateQuery.set({ status: data.status });
+      }
+      if (data.nextIssueDate !== undefined) {
+        updateQuery = updateQuery.set({
+          next_issue_date: new Date(data.nextIssueDate).toISOString(),
+        });
+      }
+      if (data.endDate !== undefined) {
+        updateQuery = updateQuery.set({
+          end_date: data.endDate ? new Date(data.endDate).toISOString() : null,
+        });
+      }
+      if (data.dueDays !== undefined) {
+        updateQuery = updateQuery.set({ due_days: data.dueDays });
+      }
+      if (data.notes !== undefined) {
+        updateQuery = updateQuery.set({ notes: data.notes || null });
+      }
+      if (data.autoEmail !== undefined) {
+        updateQuery = updateQuery.set({ auto_email: data.autoEmail });
+      }
+      if (data.autopayEnabled !== undefined) {
+        updateQuery = updateQuery.set({ autopay_enabled: data.autopayEnabled });
+      }
+
+      await updateQuery.execute();
+
+      if (data.items) {
+        await trx
+          .deleteFrom("recurring_invoice_items")
+          .where("recurring_invoice_id", "=", id)
+          .execute();
+        await this.insertItems(trx, id, data.items);
+      }
+    });
+
+    return this.findById(id, companyId);
+  }
+
+  // Invoices the schedule already issued are kept
+  async delete(id: string, companyId: string): Promise<boolean> {
+    const result = await db
+      .updateTable("recurring_invoices")
+      .set({
+        status: "ended",
+        deleted_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows) > 0;
+  }
+
+  /**
+   * Save the customer's card with the payment provider and turn on autopay
+   * The card token comes from the provider's payment form, the same as an online payment.
+   */
+  async saveCard(id: string, cardToken: string, companyId: string): Promise<RecurringInvoice | null> {
+    const schedule = await this.findRow(id, companyId);
+    if (!schedule) {
+      return null;
+    }
+
+    const customer = await customerService.findById(schedule.customer_id, companyId);
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    let saved: { providerCustomerId: string; cardId: string };
+    try {
+      saved = await paymentService.saveCustomerCard(
+        companyId,
+        {
+          email: customer.email,
+          givenName: customer.firstName,
+          familyName: customer.lastName,
+          phoneNumber: customer.phone || undefined,
+        },
+        cardToken,
+        schedule.square_customer_id
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save card";
+      throw new BadRequestError(`Card could not be saved: ${errorMessage}`);
+    }
+
+    await db
+      .updateTable("recurring_invoices")
+      .set({
+        square_customer_id: saved.providerCustomerId,
+        square_card_id: saved.cardId,
+        autopay_enabled: true,
+        last_autopay_error: null,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return this.findById(id, companyId);
+  }
+
+  // Forget the saved card; invoices are still issued and emailed, just not charged
+  async removeCard(id: string, companyId: string): Promise<RecurringInvoice | null> {
+    const result = await db
+      .updateTable("recurring_invoices")
+      .set({
+        square_card_id: null,
+        autopay_enabled: false,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (Number(result.numUpdatedRows) === 0) {
+      return null;
+    }
+
+    return this.findById(id, companyId);
+  }
+
+  /**
+   * Issue the schedule's next invoice now instead of waiting for its date
+   */
+  async issueNow(id: string, companyId: string): Promise<Invoice> {
+    const schedule = await this.findRow(id, companyId);
+    if (!schedule) {
+      throw new NotFoundError("Recurring invoice not found");
+    }
+    if (schedule.status !== "active") {
+      throw new BadRequestError("Only active schedules can issue invoices");
+    }
+
+    const invoice = await this.issue(schedule, companyId, { force: true });
+    if (!invoice) {
+      throw new BadRequestError("Only active schedules can issue invoices");
+    }
+    return invoice;
+  }
+
+  /**
+   * Issue every invoice that has come due, across all companies
+   * A schedule that fell behind (e.g. the server was down) issues one missed period per run, so a
+   * backlog isn't issued and charged all at once.
+   */
+  async processDueInvoices(): Promise<{ issued: number; failed: number }> {
+    const due = await db
+      .selectFrom("recurring_invoices")
+      .selectAll()
+      .where("status", "=", "active")
+      .where("deleted_at", "is", null)
+      .where("next_issue_date", "<=", sql<Date>`now()`)
+      .execute();
+
+    let issued = 0;
+    let failed = 0;
+    for (const schedule of due) {
+      try {
+        if (await this.issue(schedule, schedule.company_id, { force: false })) {
+          issued++;
+        }
+      } catch (error) {
+        failed++;
+        logger.error(`Failed to issue recurring invoice ${schedule.id}:`, error);
+      }
+    }
+
+    return { issued, failed };
+  }
+
+  /**
+   * Issue one invoice from a schedule: copy its line items onto a new invoice, charge the saved card
+   * when autopay is on, and email the invoice to the customer.
+   * Returns null when the schedule isn't due (or is no longer active).
+   */
+  private async issue(
+    schedule: RecurringInvoiceRow,
+    companyId: string,
+    options: { force: boolean }
+  ): Promise<Invoice | null> {
+    const interval = FREQUENCY_INTERVALS[schedule.frequency];
+
+    // Claim the period first by moving the schedule on, so overlapping runs can't issue it twice
+    let claimQuery = db
+      .updateTable("recurring_invoices")
+      .set({
+        next_issue_date: sql`next_issue_date + ${interval}::interval`,
+        // Once the next date is past the end date there's nothing left to issue
+        status: sql<RecurringInvoiceStatus>`CASE WHEN end_date IS NOT NULL AND next_issue_date + ${interval}::interval > end_date THEN 'ended' ELSE status END`,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", schedule.id)
+      .where("company_id", "=", companyId)
+      .where("status", "=", "active")
+      .where("deleted_at", "is", null);
+    if (!options.force) {
+      claimQuery = claimQuery.where("next_issue_date", "<=", sql<Date>`now()`);
+    }
+    const claimed = await claimQuery.returning("id").executeTakeFirst();
+    if (!claimed) {
+      return null;
+    }
+
+    const items = await this.findItems([schedule.id]);
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + Number(schedule.due_days));
+
+    // Start as a draft so nothing is emailed before the line items are on it
+    let draft: Invoice | null = null;
+    try {
+      draft = await invoiceService.create(
+        {
+          customerId: schedule.customer_id,
+          status: "draft",
+          dueDate: dueDate.toISOString(),
+          notes: schedule.notes,
+        },
+        companyId,
+        schedule.location_id
+      );
+      for (const item of items) {
+        await invoiceService.createInvoiceItem(
+          {
+            invoiceId: draft.id,
+            description: item.description,
+            quantity: Number(item.quantity),
+            unitPrice: Number(item.unit_price),
+            type: item.type,
+          },
+          companyId
+        );
+      }
+
+      await db
+        .updateTable("invoices")
+        .set({
+          status: "issued",
+          recurring_invoice_id: schedule.id,
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", draft.id)
+        .where("company_id", "=", companyId)
+        .execute();
+      await db
+        .updateTable("recurring_invoices")
+        .set({ last_invoice_id: draft.id, last_issued_at: sql`now()` })
+        .where("id", "=", schedule.id)
+        .execute();
+    } catch (error) {
+      // Don't leave a half-built invoice behind, and hand the period back so the next run issues it
+      if (draft) {
+        await invoiceService.delete(draft.id, companyId);
+      }
+      await db
+        .updateTable("recurring_invoices")
+        .set({
+          next_issue_date: sql`next_issue_date - ${interval}::interval`,
+          status: sql<RecurringInvoiceStatus>`CASE WHEN status = 'ended' THEN 'active' ELSE status END`,
+          updated_at: sql`now()`,
+        })
+        .where("id", "=", schedule.id)
+        .where("company_id", "=", companyId)
+        .execute();
+      throw error;
+    }
+
+    let invoice = (await invoiceService.findById(draft.id, companyId))!;
+    logger.info(`Recurring invoice ${schedule.id} issued invoice ${invoice.invoiceNumber}`);
+
+    // Deposits on the customer's account pay towards it before the card is charged
+    invoice = await invoiceService.applyAvailableDeposits(invoice, companyId);
+    if (invoice.status === "paid") {
+      // Marking the invoice paid has already emailed it to the customer
+      return invoice;
+    }
+
+    if (schedule.autopay_enabled && schedule.square_card_id && invoice.balanceDue > 0) {
+      const paid = await this.chargeSavedCard(schedule, invoice, companyId);
+      if (paid) {
+        // Marking the invoice paid has already emailed it to the customer
+        return paid;
+      }
+    }
+
+    if (schedule.auto_email) {
+      try {
+        const customer = await customerService.findById(schedule.customer_id, companyId);
+        if (customer) {
+          await emailService.sendInvoiceEmail(companyId, invoice, customer);
+        }
+      } catch {
+        // Don't fail issuing if email fails - just log error
+        // Error is already logged in emailService
+      }
+    }
+
+    invoice = (await invoiceService.findById(draft.id, companyId)) || invoice;
+    return invoice;
+  }
+
+  /**
+   * Pay an invoice with the schedule's saved card
+   * Returns the invoice once the card has been charged, or null when the charge didn't go through; the
+   * reason is kept on the schedule and the invoice stays open to be paid another way.
+   */
+  private async chargeSavedCard(
+    schedule: RecurringInvoiceRow,
+    invoice: Invoice,
+    companyId: string
+  ): Promise<Invoice | null> {
+    let autopayError: string | null = null;
+    let result: ProcessPaymentResult | null = null;
+    try {
+      const currency = await paymentService.getCurrency(companyId);
+      result = await paymentService.processPayment(companyId, {
+        amount: invoice.balanceDue,
+        currency,
+        invoiceId: invoice.id,
+        customerId: schedule.customer_id,
+        paymentMethod: "card",
+        sourceId: schedule.square_card_id!,
+        providerCustomerId: schedule.square_customer_id || undefined,
+        // One charge per invoice, even if issuing is retried
+        idempotencyKey: invoice.id,
+        description: `Payment for invoice ${invoice.invoiceNumber}`,
+        metadata: {
+          invoiceNumber: invoice.invoiceNumber,
+          source: "autopay",
+        },
+      });
+
+      if (result.status !== "succeeded") {
+        autopayError = result.error || `Payment ${result.status}`;
+      }
+    } catch (error) {
+      autopayError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (autopayError) {
+      logger.warn(
+        `Autopay failed for invoice ${invoice.invoiceNumber} on recurring invoice ${schedule.id}: ${autopayError}`
+      );
+    }
+
+    await db
+      .updateTable("recurring_invoices")
+      .set({ last_autopay_error: autopayError, updated_at: sql`now()` })
+      .where("id", "=", schedule.id)
+      .execute();
+
+    if (autopayError || !result) {
+      return null;
+    }
+
+    // The card has been charged by now, so a failure here is for us to reconcile, not an autopay failure
+    try {
+      return await invoiceService.markInvoiceAsPaid(
+        invoice.id,
+        {
+          paymentMethod: result.paymentMethod,
+          amount: invoice.balanceDue,
+          paymentReference: result.transactionId,
+          notes: "Autopay",
+        },
+        companyId
+      );
+    } catch (error) {
+      logger.error(
+        `Autopay payment ${result.transactionId} of ${invoice.balanceDue} for invoice ${invoice.invoiceNumber} on recurring invoice ${schedule.id} was charged but not recorded; reconcile it by hand:`,
+        error
+      );
+      // Don't email the customer a bill they've already paid
+      return invoice;
+    }
+  }
+}
+
+export default new RecurringInvoiceService();
@@ -1,11 +1,13 @@
 // src/services/reporting.service.ts
 import { sql } from "kysely";
 import { db } from "../config/connection.js";
+import workflowService from "./workflow.service.js";
 
 export interface DashboardStats {
   monthlyRevenue: number;
   lowStockCount: number;
   activeTickets: number;
+  slaBreachedTickets: number;
   totalCustomers: number;
 }
 
@@ -37,6 +39,9 @@ export interface TechnicianPerformance {
   technicianName: string;
   ticketsCompleted: number;
   averageCompletionDays: number | null;
+  // Time logged on tickets; billed is the part already on an invoice as labor
+  actualHours: number;
+  billedHours: number;
 }
 
 export interface InvoiceStatusBreakdown {
@@ -45,6 +50,48 @@ export interface InvoiceStatusBreakdown {
   totalAmount: number;
 }
 
+export interface WarrantyReturnRate {
+  // Completed repairs whose warranty started in the period
+  repairs: number;
+  // Of those, how many came back as a warranty claim
+  warrantyClaims: number;
+  // Percentage of repairs that came back
+  returnRate: number;
+}
+
+export interface TechnicianWarrantyReturns extends WarrantyReturnRate {
+  technicianId: string;
+  technicianName: string;
+}
+
+export interface SupplierWarrantyReturns extends WarrantyReturnRate {
+  supplier: string | null;
+}
+
+export interface WarrantyReturnReport {
+  byTechnician: TechnicianWarrantyReturns[];
+  bySupplier: SupplierWarrantyReturns[];
+}
+
+// Whether a repair (the "tickets" row in the query) came back under warranty
+const wasClaimed = sql<boolean>`EXISTS (
+  SELECT 1 FROM tickets AS claims
+  WHERE claims.original_ticket_id = tickets.id
+    AND claims.ticket_type = 'warranty_claim'
+    AND claims.status != 'cancelled'
+    AND claims.deleted_at IS NULL
+)`;
+
+function toReturnRate(repairs: number | string, claims: number | string): WarrantyReturnRate {
+  const repairCount = Number(repairs || 0);
+  const claimCount = Number(claims || 0);
+  return {
+    repairs: repairCount,
+    warrantyClaims: claimCount,
+    returnRate: repairCount > 0 ? Number(((claimCount / repairCount) * 100).toFixed(2)) : 0,
+  };
+}
+
 export class ReportingService {
   /**
    * Get dashboard summary statistics
@@ -118,14 +165,18 @@ export class ReportingService {
       lowStockCount = Number(lowStockResult?.count || 0);
     }
 
-    // Count active tickets (not completed or cancelled)
+    // Count active tickets (not in a closed status such as completed or cancelled)
+    const closedStatuses = await workflowService.getClosedStatusKeys(companyId);
     let ticketsQuery = db
       .selectFrom("tickets")
       .select((eb) => eb.fn.count<number>("id").as("count"))
       .where("company_id", "=", companyId)
-      .where("status", "not in", ["completed", "cancelled"])
       .where("deleted_at", "is", null);
 
+    if (closedStatuses.length > 0) {
+      ticketsQuery = ticketsQuery.where("status", "not in", closedStatuses);
+    }
+
     if (locationId !== undefined) {
       if (locationId === null) {
         ticketsQuery = ticketsQuery.where("location_id", "is", null);
@@ -137,6 +188,12 @@ export class ReportingService {
     const ticketsResult = await ticketsQuery.executeTakeFirst();
     const activeTickets = Number(ticketsResult?.count || 0);
 
+    // Of those, count the ones that have missed an SLA target
+    const slaBreachedResult = await ticketsQuery
+      .where("sla_breached_at", "is not", null)
+      .executeTakeFirst();
+    const slaBreachedTickets = Number(slaBreachedResult?.count || 0);
+
     // Count total customers (customers are shared across locations, so no location filter)
     const customersResult = await db
       .selectFrom("customers")
@@ -151,6 +208,7 @@ export class ReportingService {
       monthlyRevenue,
       lowStockCount,
       activeTickets,
+      slaBreachedTickets,
       totalCustomers,
     };
   }
@@ -392,22 +450,70 @@ export class ReportingService {
       .groupBy("users.last_name")
       .orderBy("completed_count", "desc");
 
+    // Time is counted for whoever logged it, even on tickets assigned to someone else
+    let hoursQuery = db
+      .selectFrom("ticket_time_entries")
+      .innerJoin("tickets", "ticket_time_entries.ticket_id", "tickets.id")
+      .innerJoin("users", "ticket_time_entries.user_id", "users.id")
+      .select([
+        "users.id",
+        sql<string>`CONCAT(users.first_name, ' ', users.last_name)`.as("technician_name"),
+        sql<number>`COALESCE(SUM(ticket_time_entries.duration_minutes), 0)`.as("actual_minutes"),
+        sql<number>`COALESCE(SUM(CASE
+          WHEN ticket_time_entries.invoice_item_id IS NOT NULL THEN ticket_time_entries.duration_minutes
+          ELSE 0
+        END), 0)`.as("billed_minutes"),
+      ])
+      .where("ticket_time_entries.company_id", "=", companyId)
+      .where("ticket_time_entries.ended_at", "is not", null)
+      .where("tickets.deleted_at", "is", null)
+      .where("users.deleted_at", "is", null)
+      .where("ticket_time_entries.started_at", ">=", start)
+      .where("ticket_time_entries.started_at", "<=", end)
+      .groupBy("users.id")
+      .groupBy("users.first_name")
+      .groupBy("users.last_name");
+
     if (locationId !== undefined) {
       if (locationId === null) {
         query = query.where("tickets.location_id", "is", null);
+        hoursQuery = hoursQuery.where("tickets.location_id", "is", null);
       } else {
         query = query.where("tickets.location_id", "=", locationId);
+        hoursQuery = hoursQuery.where("tickets.location_id", "=", locationId);
       }
     }
 
-    const results = await query.execute();
+    const [results, hours] = await Promise.all([query.execute(), hoursQuery.execute()]);
+    const toHours = (minutes: number | string) => Number((Number(minutes) / 60).toFixed(2));
+    const hoursByUser = new Map(hours.map((row) => [row.id, row]));
+
+    const performance: TechnicianPerformance[] = results.map((row) => {
+      const logged = hoursByUser.get(row.id);
+      hoursByUser.delete(row.id);
+      return {
+        technicianId: row.id,
+        technicianName: row.technician_name || "Unknown",
+        ticketsCompleted: Number(row.completed_count || 0),
+        averageCompletionDays: row.avg_completion_days ? Number(Number(row.avg_completion_days).toFixed(2)) : null,
+        actualHours: logged ? toHours(logged.actual_minutes) : 0,
+        billedHours: logged ? toHours(logged.billed_minutes) : 0,
+      };
+    });
+
+    // Users who logged time but weren't assigned any tickets in the period
+    for (const row of hoursByUser.values()) {
+      performance.push({
+        technicianId: row.id,
+        technicianName: row.technician_name || "Unknown",
+        ticketsCompleted: 0,
+        averageCompletionDays: null,
+        actualHours: toHours(row.actual_minutes),
+        billedHours: toHours(row.billed_minutes),
+      });
+    }
 
-    return results.map((row) => ({
-      technicianId: row.id,
-      technicianName: row.technician_name || "Unknown",
-      ticketsCompleted: Number(row.completed_count || 0),
-      averageCompletionDays: row.avg_completion_days ? Number(Number(row.avg_completion_days).toFixed(2)) : null,
-    }));
+    return performance;
   }
 
   /**
@@ -461,6 +567,93 @@ export class ReportingService {
       totalAmount: Number(row.total_amount || 0),
     }));
   }
+
+  /**
+   * Get warranty return rates by technician and by part supplier
+   * Covers repairs completed in the period (the last 12 months by default, since returns
+   * trail the repair). A repair counts against every supplier whose parts it used.
+   */
+  async getWarrantyReturnRates(
+    companyId: string,
+    locationId?: string | null,
+    startDate?: string,
+    endDate?: string
+  ): Promise<WarrantyReturnReport> {
+    const end = endDate ? new Date(endDate) : new Date();
+    end.setHours(23, 59, 59, 999);
+
+    const start = startDate ? new Date(startDate) : new Date(end);
+    if (!startDate) {
+      start.setFullYear(start.getFullYear() - 1);
+    }
+
+    let technicianQuery = db
+      .selectFrom("tickets")
+      .innerJoin("users", "tickets.technician_id", "users.id")
+      .select([
+        "users.id",
+        sql<string>`CONCAT(users.first_name, ' ', users.last_name)`.as("technician_name"),
+        sql<number>`COUNT(*)`.as("repair_count"),
+        sql<number>`COUNT(CASE WHEN ${wasClaimed} THEN 1 END)`.as("claim_count"),
+      ])
+      .where("tickets.company_id", "=", companyId)
+      .where("tickets.ticket_type", "=", "repair")
+      .where("tickets.deleted_at", "is", null)
+      .where("tickets.warranty_starts_at", ">=", start)
+      .where("tickets.warranty_starts_at", "<=", end)
+      .groupBy("users.id")
+      .groupBy("users.first_name")
+      .groupBy("users.last_name")
+      .orderBy("claim_count", "desc");
+
+    let supplierQuery = db
+      .selectFrom("tickets")
+      .innerJoin("invoices", "invoices.ticket_id", "tickets.id")
+      .innerJoin("invoice_items", "invoice_items.invoice_id", "invoices.id")
+      .innerJoin("inventory_items", "inventory_items.id", "invoice_items.inventory_item_id")
+      .select([
+        "inventory_items.supplier",
+        sql<number>`COUNT(DISTINCT tickets.id)`.as("repair_count"),
+        sql<number>`COUNT(DISTINCT CASE WHEN ${wasClaimed} THEN tickets.id END)`.as("claim_count"),
+      ])
+      .where("tickets.company_id", "=", companyId)
+      .where("tickets.ticket_type", "=", "repair")
+      .where("tickets.deleted_at", "is", null)
+      .where("tickets.warranty_starts_at", ">=", start)
+      .where("tickets.warranty_starts_at", "<=", end)
+      .where("invoices.status", "!=", "cancelled")
+      .where("invoices.deleted_at", "is", null)
+      .where("invoice_items.type", "=", "part")
+      .groupBy("inventory_items.supplier")
+      .orderBy("claim_count", "desc");
+
+    if (locationId !== undefined) {
+      if (locationId === null) {
+        technicianQuery = technicianQuery.where("tickets.location_id", "is", null);
+        supplierQuery = supplierQuery.where("tickets.location_id", "is", null);
+      } else {
+        technicianQuery = technicianQuery.where("tickets.location_id", "=", locationId);
+        supplierQuery = supplierQuery.where("tickets.location_id", "=", locationId);
+      }
+    }
+
+    const [technicians, suppliers] = await Promise.all([
+      technicianQuery.execute(),
+      supplierQuery.execute(),
+    ]);
+
+    return {
+      byTechnician: technicians.map((row) => ({
+        technicianId: row.id,
+        technicianName: row.technician_name || "Unknown",
+        ...toReturnRate(row.repair_count, row.claim_count),
+      })),
+      bySupplier: suppliers.map((row) => ({
+        supplier: row.supplier,
+        ...toReturnRate(row.repair_count, row.claim_count),
+      })),
+    };
+  }
 }
 
 export default new ReportingService();
@@ -0,0 +1,288 @@
+// src/services/saved-view.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { ForbiddenError } from "../config/errors.js";
+import { SavedViewResource, SavedViewVisibility } from "../config/types.js";
+import { buildFilter, FilterSchema } from "../utils/filter.utils.js";
+import { parseSort, SortFields } from "../utils/pagination.utils.js";
+import { INVENTORY_FILTERS, INVENTORY_SORTS } from "./inventory.service.js";
+import { INVOICE_FILTERS, INVOICE_SORTS } from "./invoice.service.js";
+import { TICKET_FILTERS, TICKET_SORTS } from "./ticket.service.js";
+
+export const SAVED_VIEW_RESOURCES: SavedViewResource[] = ["tickets", "invoices", "inventory"];
+
+// The filters and sorts each list understands, so a view can't be saved with one it doesn't
+const LIST_SCHEMAS: Record<SavedViewResource, { filters: FilterSchema; sorts: SortFields }> = {
+  tickets: { filters: TICKET_FILTERS, sorts: TICKET_SORTS },
+  invoices: { filters: INVOICE_FILTERS, sorts: INVOICE_SORTS },
+  inventory: { filters: INVENTORY_FILTERS, sorts: INVENTORY_SORTS },
+};
+
+// Input DTOs
+export interface CreateSavedViewDto {
+  resource: SavedViewResource;
+  name: string;
+  filter?: string;
+  sort?: string | null;
+  visibility?: SavedViewVisibility;
+}
+
+export interface UpdateSavedViewDto {
+  name?: string;
+  filter?: string;
+  sort?: string | null;
+  visibility?: SavedViewVisibility;
+}
+
+// Output type
+export interface SavedView {
+  id: string;
+  userId: string;
+  resource: SavedViewResource;
+  name: string;
+  filter: string;
+  sort: string | null;
+  visibility: SavedViewVisibility;
+  // Whether the current user has it in their sidebar
+  pinned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toSavedView(
+  view: {
+    id: string;
+    user_id: string;
+    resource: SavedViewResource;
+    name: string;
+    filter: string;
+    sort: string | null;
+    visibility: SavedViewVisibility;
+    created_at: Date;
+    updated_at: Date;
+  },
+  pinned: boolean
+): SavedView {
+  return {
+    id: view.id,
+    userId: view.user_id,
+    resource: view.resource,
+    name: view.name,
+    filter: view.filter,
+    sort: view.sort,
+    visibility: view.visibility,
+    pinned,
+    createdAt: view.created_at,
+    updatedAt: view.updated_at,
+  };
+}
+
+export class SavedViewService {
+  /**
+   * Views the user can see: their own and the ones shared with the company
+   */
+  async findAll(
+    companyId: string,
+    userId: string,
+    options: { resource?: SavedViewResource; pinned?: boolean } = {}
+  ): Promise<SavedView[]> {
+    let query = db
+      .selectFrom("saved_views")
+      .leftJoin("saved_view_pins", (join) =>
+        join
+          .onRef("saved_view_pins.saved_view_id", "=", "saved_views.id")
+          .on("saved_view_pins.user_id", "=", userId)
+      )
+      .selectAll("saved_views")
+      .select("saved_view_pins.created_at as pinned_at")
+      .where("saved_views.company_id", "=", companyId)
+      .where((eb) =>
+        eb.or([
+          eb("saved_views.user_id", "=", userId),
+          eb("saved_views.visibility", "=", "company"),
+        ])
+      );
+
+    if (options.resource) {
+      query = query.where("saved_views.resource", "=", options.resource);
+    }
+
+    if (options.pinned) {
+      // Pinned views keep the order they were pinned in
+      query = query
+        .where("saved_view_pins.saved_view_id", "is not", null)
+        .orderBy("saved_view_pins.created_at", "asc");
+    } else {
+      query = query.orderBy("saved_views.name", "asc");
+    }
+
+    const views = await query.execute();
+    return views.map((view) => toSavedView(view, view.pinned_at !== null));
+  }
+
+  async findById(id: string, companyId: string, userId: string): Promise<SavedView | null> {
+    const views = await db
+      .selectFrom("saved_views")
+      .leftJoin("saved_view_pins", (join) =>
+        join
+          .onRef("saved_view_pins.saved_view_id", "=", "saved_views.id")
+          .on("saved_view_pins.user_id", "=", userId)
+      )
+      .selectAll("saved_views")
+      .select("saved_view_pins.created_at as pinned_at")
+      .where("saved_views.id", "=", id)
+      .where("saved_views.company_id", "=", companyId)
+      .where((eb) =>
+        eb.or([
+          eb("saved_views.user_id", "=", userId),
+          eb("saved_views.visibility", "=", "company"),
+        ])
+      )
+      .execute();
+
+    return views[0] ? toSavedView(views[0], views[0].pinned_at !== null) : null;
+  }
+
+  /**
+   * Save a view; only admins and managers can share one with the company
+   */
+  async create(
+    data: CreateSavedViewDto,
+    companyId: string,
+    userId: string,
+    canShare = false
+  ): Promise<SavedView> {
+    const visibility = data.visibility || "user";
+    if (visibility === "company" && !canShare) {
+      throw new ForbiddenError("Only admins and managers can share views with the company");
+    }
+
+    const filter = data.filter?.trim() || "";
+    const sort = data.sort || null;
+    this.assertUsable(data.resource, filter, sort);
+
+    const view = await db
+      .insertInto("saved_views")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        user_id: userId,
+        resource: data.resource,
+        name: data.name,
+        filter,
+        sort,
+        visibility,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toSavedView(view, false);
+  }
+
+  /**
+   * Update a view; other people's shared views need canShare
+   */
+  async update(
+    id: string,
+    data: UpdateSavedViewDto,
+    companyId: string,
+    userId: string,
+    canShare = false
+  ): Promise<SavedView | null> {
+    const current = await this.findById(id, companyId, userId);
+    if (!current) {
+      return null;
+    }
+    this.assertCanChange(current, userId, canShare);
+    if (data.visibility === "company" && current.visibility !== "company" && !canShare) {
+      throw new ForbiddenError("Only admins and managers can share views with the company");
+    }
+
+    const filter = data.filter !== undefined ? data.filter.trim() : current.filter;
+    const sort = data.sort !== undefined ? data.sort || null : current.sort;
+    this.assertUsable(current.resource, filter, sort);
+
+    await db
+      .updateTable("saved_views")
+      .set({
+        name: data.name ?? current.name,
+        filter,
+        sort,
+        visibility: data.visibility ?? current.visibility,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return this.findById(id, companyId, userId);
+  }
+
+  async delete(id: string, companyId: string, userId: string, canShare = false): Promise<boolean> {
+    const current = await this.findById(id, companyId, userId);
+    if (!current) {
+      return false;
+    }
+    this.assertCanChange(current, userId, canShare);
+
+    const result = await db
+      .deleteFrom("saved_views")
+      .where("id", "=", id)
+      .where("company_id", "=", companyId)
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows) > 0;
+  }
+
+  /**
+   * Pin a view to the user's sidebar, or take it off
+   */
+  async setPinned(
+    id: string,
+    companyId: string,
+    userId: string,
+    pinned: boolean
+  ): Promise<SavedView | null> {
+    const current = await this.findById(id, companyId, userId);
+    if (!current) {
+      return null;
+    }
+
+    if (pinned) {
+      await db
+        .insertInto("saved_view_pins")
+        .values({ user_id: userId, saved_view_id: id, created_at: sql`now()` })
+        .onConflict((oc) => oc.columns(["user_id", "saved_view_id"]).doNothing())
+        .execute();
+    } else {
+      await db
+        .deleteFrom("saved_view_pins")
+        .where("user_id", "=", userId)
+        .where("saved_view_id", "=", id)
+        .execute();
+    }
+
+    return { ...current, pinned };
+  }
+
+  private assertCanChange(view: SavedView, userId: string, canShare: boolean): void {
+    if (view.userId !== userId && !(view.visibility === "company" && canShare)) {
+      throw new ForbiddenError("You can only change your own views");
+    }
+  }
+
+  // Saving a view the list would reject would only show up as an error when it's opened
+  private assertUsable(resource: SavedViewResource, filter: string, sort: string | null): void {
+    const schema = LIST_SCHEMAS[resource];
+    // Any user will do for "me"; it's resolved for whoever opens the view
+    buildFilter(filter, schema.filters, { userId: "me" });
+    if (sort) {
+      parseSort(sort, schema.sorts, sort, resource);
+    }
+  }
+}
+
+export default new SavedViewService();
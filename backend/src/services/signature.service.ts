@@ -0,0 +1,305 @@
+// src/services/signature.service.ts
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, ConflictError, NotFoundError } from "../config/errors.js";
+import { SignatureKind } from "../config/types.js";
+import ticketService from "./ticket.service.js";
+
+export const SIGNATURE_KINDS: SignatureKind[] = ["intake", "pickup"];
+
+// Signatures are drawn on a small pad, so anything bigger than this isn't a signature
+const MAX_SIGNATURE_IMAGE_BYTES = 64 * 1024;
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+// Used until a company saves its own terms (reported as version 0)
+export const DEFAULT_SIGNATURE_TERMS: Record<SignatureKind, string> = {
+  intake:
+    "I authorize the diagnosis and repair of the device described on this ticket. " +
+    "I confirm I am the owner of the device or am authorized by the owner to leave it for repair. " +
+    "I understand that data may be lost during repair and that I am responsible for backing it up. " +
+    "Devices not collected within 90 days of completion may be disposed of.",
+  pickup:
+    "I confirm that I have collected the device described on this ticket " +
+    "and that it has been returned to me in working order, as described by the repair notes.",
+};
+
+// Input DTOs
+export interface CaptureSignatureDto {
+  kind: SignatureKind;
+  signerName: string;
+  // PNG data URL drawn on the signature pad
+  signatureImage: string;
+  // Terms version that was shown to the customer while they signed
+  termsVersion: number;
+}
+
+export interface SignatureContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// Output types - convert snake_case to camelCase
+export interface SignatureTerms {
+  kind: SignatureKind;
+  version: number;
+  body: string;
+  createdBy: string | null;
+  createdAt: Date | null;
+}
+
+export interface TicketSignature {
+  id: string;
+  ticketId: string;
+  kind: SignatureKind;
+  signerName: string;
+  signatureImage: string;
+  termsVersion: number;
+  termsText: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  capturedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  signedAt: Date;
+}
+
+function toSignatureTerms(terms: {
+  kind: SignatureKind;
+  version: number;
+  body: string;
+  created_by: string | null;
+  created_at: Date;
+}): SignatureTerms {
+  return {
+    kind: terms.kind,
+    version: terms.version,
+    body: terms.body,
+    createdBy: terms.created_by,
+    createdAt: terms.created_at,
+  };
+}
+
+function toTicketSignature(signature: {
+  id: string;
+  ticket_id: string;
+  kind: SignatureKind;
+  signer_name: string;
+  signature_image: string;
+  terms_version: number;
+  terms_text: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  captured_by: string | null;
+  captured_by_first_name: string | null;
+  captured_by_last_name: string | null;
+  signed_at: Date;
+}): TicketSignature {
+  return {
+    id: signature.id,
+    ticketId: signature.ticket_id,
+    kind: signature.kind,
+    signerName: signature.signer_name,
+    signatureImage: signature.signature_image,
+    termsVersion: signature.terms_version,
+    termsText: signature.terms_text,
+    ipAddress: signature.ip_address,
+    userAgent: signature.user_agent,
+    capturedBy:
+      signature.captured_by && signature.captured_by_first_name
+        ? {
+            id: signature.captured_by,
+            firstName: signature.captured_by_first_name,
+            lastName: signature.captured_by_last_name || "",
+          }
+        : null,
+    signedAt: signature.signed_at,
+  };
+}
+
+function defaultTerms(kind: SignatureKind): SignatureTerms {
+  return {
+    kind,
+    version: 0,
+    body: DEFAULT_SIGNATURE_TERMS[kind],
+    createdBy: null,
+    createdAt: null,
+  };
+}
+
+// Check the pad output is a PNG data URL of a sensible size
+function validateSignatureImage(signatureImage: string): void {
+  if (!signatureImage.startsWith(PNG_DATA_URL_PREFIX)) {
+    throw new BadRequestError("Signature must be a PNG image");
+  }
+  const data = signatureImage.slice(PNG_DATA_URL_PREFIX.length);
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+    throw new BadRequestError("Signature image is not valid base64");
+  }
+  if (Buffer.byteLength(data, "base64") > MAX_SIGNATURE_IMAGE_BYTES) {
+    throw new BadRequestError("Signature image is too large");
+  }
+}
+
+export class SignatureService {
+  /**
+   * Get the current terms for one kind of signature
+   */
+  async getCurrentTerms(companyId: string, kind: SignatureKind): Promise<SignatureTerms> {
+    const terms = await db
+      .selectFrom("signature_terms")
+      .select(["kind", "version", "body", "created_by", "created_at"])
+      .where("company_id", "=", companyId)
+      .where("kind", "=", kind)
+      .orderBy("version", "desc")
+      .executeTakeFirst();
+
+    return terms ? toSignatureTerms(terms) : defaultTerms(kind);
+  }
+
+  /**
+   * Get the current intake and pickup terms
+   */
+  async getTerms(companyId: string): Promise<SignatureTerms[]> {
+    return Promise.all(SIGNATURE_KINDS.map((kind) => this.getCurrentTerms(companyId, kind)));
+  }
+
+  /**
+   * Get every saved version of one kind of terms, newest first
+   */
+  async getTermsHistory(companyId: string, kind: SignatureKind): Promise<SignatureTerms[]> {
+    const versions = await db
+      .selectFrom("signature_terms")
+      .select(["kind", "version", "body", "created_by", "created_at"])
+      .where("company_id", "=", companyId)
+      .where("kind", "=", kind)
+      .orderBy("version", "desc")
+      .execute();
+
+    return versions.map(toSignatureTerms);
+  }
+
+  /**
+   * Save new terms text as the next version
+   * Saving unchanged text returns the current version instead of adding a new one
+   */
+  async saveTerms(
+    companyId: string,
+    kind: SignatureKind,
+    body: string,
+    userId: string
+  ): Promise<SignatureTerms> {
+    const current = await this.getCurrentTerms(companyId, kind);
+    if (current.body === body) {
+      return current;
+    }
+
+    const terms = await db
+      .insertInto("signature_terms")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        kind,
+        version: current.version + 1,
+        body,
+        created_by: userId,
+      })
+      .returning(["kind", "version", "body", "created_by", "created_at"])
+      .executeTakeFirstOrThrow();
+
+    return toSignatureTerms(terms);
+  }
+
+  /**
+   * Get the signatures captured on a ticket
+   */
+  async findByTicketId(ticketId: string, companyId: string): Promise<TicketSignature[]> {
+    const signatures = await db
+      .selectFrom("ticket_signatures")
+      .leftJoin("users", "users.id", "ticket_signatures.captured_by")
+      .select([
+        "ticket_signatures.id",
+        "ticket_signatures.ticket_id",
+        "ticket_signatures.kind",
+        "ticket_signatures.signer_name",
+        "ticket_signatures.signature_image",
+        "ticket_signatures.terms_version",
+        "ticket_signatures.terms_text",
+        "ticket_signatures.ip_address",
+        "ticket_signatures.user_agent",
+        "ticket_signatures.captured_by",
+        "ticket_signatures.signed_at",
+        "users.first_name as captured_by_first_name",
+        "users.last_name as captured_by_last_name",
+      ])
+      .where("ticket_signatures.ticket_id", "=", ticketId)
+      .where("ticket_signatures.company_id", "=", companyId)
+      .orderBy("ticket_signatures.signed_at", "asc")
+      .execute();
+
+    return signatures.map(toTicketSignature);
+  }
+
+  /**
+   * Record the customer's signature against the terms they were shown
+   * Each ticket takes one intake and one pickup signature
+   */
+  async capture(
+    ticketId: string,
+    data: CaptureSignatureDto,
+    companyId: string,
+    context: SignatureContext,
+    userId: string
+  ): Promise<TicketSignature> {
+    const ticket = await ticketService.findById(ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+
+    validateSignatureImage(data.signatureImage);
+
+    // The customer must have signed the terms that are current now, not an older copy
+    const terms = await this.getCurrentTerms(companyId, data.kind);
+    if (terms.version !== data.termsVersion) {
+      throw new BadRequestError(
+        "The terms have changed since they were shown. Please review them and sign again."
+      );
+    }
+
+    const existing = await db
+      .selectFrom("ticket_signatures")
+      .select("id")
+      .where("ticket_id", "=", ticketId)
+      .where("kind", "=", data.kind)
+      .executeTakeFirst();
+    if (existing) {
+      throw new ConflictError(
+        `The customer has already signed for ${data.kind === "intake" ? "drop-off" : "pick-up"} on this ticket`
+      );
+    }
+
+    const id = uuidv4();
+    await db
+      .insertInto("ticket_signatures")
+      .values({
+        id,
+        company_id: companyId,
+        ticket_id: ticketId,
+        kind: data.kind,
+        signer_name: data.signerName,
+        signature_image: data.signatureImage,
+        terms_version: terms.version,
+        terms_text: terms.body,
+        ip_address: context.ipAddress,
+        user_agent: context.userAgent,
+        captured_by: userId,
+      })
+      .execute();
+
+    const signatures = await this.findByTicketId(ticketId, companyId);
+    return signatures.find((signature) => signature.id === id)!;
+  }
+}
+
+export default new SignatureService();
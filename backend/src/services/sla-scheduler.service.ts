@@ -0,0 +1,60 @@
+// src/services/sla-scheduler.service.ts
+import cron from "node-cron";
+import logger from "../config/logger.js";
+import slaService from "./sla.service.js";
+
+/**
+ * SLA scheduler service
+ * Periodically checks open tickets against their company's SLA policies and
+ * alerts staff about tickets that are at risk or in breach
+ */
+export class SlaSchedulerService {
+  private task: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the SLA scheduler
+   * Runs every 5 minutes
+   */
+  start(): void {
+    if (this.task) {
+      logger.warn("SLA scheduler is already running");
+      return;
+    }
+
+    // Cron format: minute hour day month day-of-week
+    this.task = cron.schedule("*/5 * * * *", async () => {
+      try {
+        const result = await slaService.checkAllCompanies();
+        if (result.atRisk > 0 || result.breached > 0) {
+          logger.info(
+            `SLA check completed - ${result.atRisk} at risk, ${result.breached} breached`
+          );
+        }
+      } catch (error) {
+        logger.error("Error in scheduled SLA check:", error);
+      }
+    });
+
+    logger.info("SLA scheduler started - will run every 5 minutes");
+  }
+
+  /**
+   * Stop the SLA scheduler
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      logger.info("SLA scheduler stopped");
+    }
+  }
+
+  /**
+   * Check if scheduler is running
+   */
+  isRunning(): boolean {
+    return this.task !== null;
+  }
+}
+
+export default new SlaSchedulerService();
@@ -0,0 +1,374 @@
+// src/services/sla.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import logger from "../config/logger.js";
+import { SlaAlertLevel, SlaTarget, TicketPriority } from "../config/types.js";
+import emailService from "../integrations/email/email.service.js";
+import ticketEventService from "./ticket-event.service.js";
+import ticketService from "./ticket.service.js";
+import workflowService from "./workflow.service.js";
+
+export const SLA_PRIORITIES: TicketPriority[] = ["low", "medium", "high", "urgent"];
+export const DEFAULT_SLA_WARNING_PERCENT = 80;
+
+// Input DTOs
+export interface SaveSlaPolicyDto {
+  priority: TicketPriority;
+  assignmentTargetMinutes?: number | null;
+  completionTargetMinutes?: number | null;
+  warningPercent?: number;
+}
+
+// Output type
+export interface SlaPolicy {
+  priority: TicketPriority;
+  assignmentTargetMinutes: number | null;
+  completionTargetMinutes: number | null;
+  warningPercent: number;
+  updatedAt: Date | null;
+}
+
+export interface SlaCheckResult {
+  ticketsChecked: number;
+  atRisk: number;
+  breached: number;
+}
+
+function toSlaPolicy(policy: {
+  priority: TicketPriority;
+  assignment_target_minutes: number | null;
+  completion_target_minutes: number | null;
+  warning_percent: number;
+  updated_at: Date;
+}): SlaPolicy {
+  return {
+    priority: policy.priority,
+    assignmentTargetMinutes: policy.assignment_target_minutes,
+    completionTargetMinutes: policy.completion_target_minutes,
+    warningPercent: policy.warning_percent,
+    updatedAt: policy.updated_at,
+  };
+}
+
+// Work out where a ticket stands against a single target
+function evaluateTarget(
+  startedAt: Date,
+  targetMinutes: number,
+  warningPercent: number,
+  now: Date
+): { level: SlaAlertLevel | null; dueAt: Date } {
+  const targetMs = targetMinutes * 60 * 1000;
+  const dueAt = new Date(startedAt.getTime() + targetMs);
+  const elapsedMs = now.getTime() - startedAt.getTime();
+
+  if (elapsedMs >= targetMs) {
+    return { level: "breached", dueAt };
+  }
+  if (elapsedMs >= (targetMs * warningPercent) / 100) {
+    return { level: "at_risk", dueAt };
+  }
+  return { level: null, dueAt };
+}
+
+export class SlaService {
+  /**
+   * Get a company's SLA policies, one per priority
+   * Priorities without a policy are returned with no targets
+   */
+  async getPolicies(companyId: string): Promise<SlaPolicy[]> {
+    const policies = await db
+      .selectFrom("sla_policies")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .execute();
+
+    return SLA_PRIORITIES.map((priority) => {
+      const policy = policies.find((p) => p.priority === priority);
+      return policy
+        ? toSlaPolicy(policy)
+        : {
+            priority,
+            assignmentTargetMinutes: null,
+            completionTargetMinutes: null,
+            warningPercent: DEFAULT_SLA_WARNING_PERCENT,
+            updatedAt: null,
+          };
+    });
+  }
+
+  /**
+   * Save SLA policies for the given priorities
+   * A priority with neither target set has its policy removed
+   */
+  async savePolicies(companyId: string, policies: SaveSlaPolicyDto[]): Promise<SlaPolicy[]> {
+    await db.transaction().execute(async (trx) => {
+      for (const policy of policies) {
+        const assignmentTarget = policy.assignmentTargetMinutes ?? null;
+        const completionTarget = policy.completionTargetMinutes ?? null;
+
+        if (assignmentTarget === null && completionTarget === null) {
+          await trx
+            .deleteFrom("sla_policies")
+            .where("company_id", "=", companyId)
+            .where("priority", "=", policy.priority)
+            .execute();
+          continue;
+        }
+
+        const warningPercent = policy.warningPercent ?? DEFAULT_SLA_WARNING_PERCENT;
+        await trx
+          .insertInto("sla_policies")
+          .values({
+            id: uuidv4(),
+            company_id: companyId,
+            priority: policy.priority,
+            assignment_target_minutes: assignmentTarget,
+            completion_target_minutes: completionTarget,
+            warning_percent: warningPercent,
+          })
+          .onConflict((oc) =>
+            oc.columns(["company_id", "priority"]).doUpdateSet({
+              assignment_target_minutes: assignmentTarget,
+              completion_target_minutes: completionTarget,
+              warning_percent: warningPercent,
+              updated_at: sql`now()`,
+            })
+          )
+          .execute();
+      }
+    });
+
+    return this.getPolicies(companyId);
+  }
+
+  /**
+   * Check every company that has SLA policies (run by the SLA scheduler)
+   */
+  async checkAllCompanies(now: Date = new Date()): Promise<SlaCheckResult> {
+    const companies = await db
+      .selectFrom("sla_policies")
+      .innerJoin("companies", "companies.id", "sla_policies.company_id")
+      .select("sla_policies.company_id")
+      .where("companies.deleted_at", "is", null)
+      .groupBy("sla_policies.company_id")
+      .execute();
+
+    const totals: SlaCheckResult = { ticketsChecked: 0, atRisk: 0, breached: 0 };
+    for (const { company_id } of companies) {
+      try {
+        const result = await this.checkCompany(company_id, now);
+        totals.ticketsChecked += result.ticketsChecked;
+        totals.atRisk += result.atRisk;
+        totals.breached += result.breached;
+      } catch (error) {
+        logger.error(`Error checking SLAs for company ${company_id}:`, error);
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Check a company's open tickets against its SLA policies
+   * Each ticket is alerted at most once per target and level. Tickets created
+   * before a policy existed are left alone so adding a policy doesn't flood
+   * staff with alerts for old work.
+   */
+  async checkCompany(companyId: string, now: Date = new Date()): Promise<SlaCheckResult> {
+    const result: SlaCheckResult = { ticketsChecked: 0, atRisk: 0, breached: 0 };
+
+    const policies = await db
+      .selectFrom("sla_policies")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .execute();
+    if (policies.length === 0) {
+      return result;
+    }
+
+    const closedStatuses = await workflowService.getClosedStatusKeys(companyId);
+    let query = db
+      .selectFrom("tickets")
+      .select(["id", "priority", "technician_id", "first_assigned_at", "sla_breached_at", "created_at"])
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where(
+        "priority",
+        "in",
+        policies.map((policy) => policy.priority)
+      );
+    if (closedStatuses.length > 0) {
+      query = query.where("status", "not in", closedStatuses);
+    }
+    const tickets = await query.execute();
+
+    for (const ticket of tickets) {
+      const policy = policies.find((p) => p.priority === ticket.priority);
+      if (!policy || ticket.created_at < policy.created_at) {
+        continue;
+      }
+      result.ticketsChecked++;
+
+      const checks: { target: SlaTarget; minutes: number }[] = [];
+      if (policy.assignment_target_minutes && !ticket.first_assigned_at) {
+        checks.push({ target: "assignment", minutes: policy.assignment_target_minutes });
+      }
+      if (policy.completion_target_minutes) {
+        checks.push({ target: "completion", minutes: policy.completion_target_minutes });
+      }
+
+      for (const check of checks) {
+        const { level, dueAt } = evaluateTarget(
+          ticket.created_at,
+          check.minutes,
+          policy.warning_percent,
+          now
+        );
+        if (!level) {
+          continue;
+        }
+
+        const raised = await this.raiseAlert(companyId, ticket.id, check.target, level, dueAt);
+        if (raised) {
+          result[level === "breached" ? "breached" : "atRisk"]++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record an alert and notify staff, unless this alert was already raised
+   * Returns true when a new alert was raised
+   */
+  private async raiseAlert(
+    companyId: string,
+    ticketId: string,
+    target: SlaTarget,
+    level: SlaAlertLevel,
+    dueAt: Date
+  ): Promise<boolean> {
+    const inserted = await db
+      .insertInto("ticket_sla_alerts")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        ticket_id: ticketId,
+        target,
+        level,
+        due_at: dueAt.toISOString(),
+      })
+      .onConflict((oc) => oc.columns(["ticket_id", "target", "level"]).doNothing())
+      .returning("id")
+      .executeTakeFirst();
+
+    if (!inserted) {
+      return false;
+    }
+
+    if (level === "breached") {
+      await db
+        .updateTable("tickets")
+        .set({ sla_breached_at: sql`now()` })
+        .where("id", "=", ticketId)
+        .where("sla_breached_at", "is", null)
+        .execute();
+      await ticketEventService.record(companyId, ticketId, null, [
+        { eventType: "sla_breached", field: target, newValue: dueAt.toISOString() },
+      ]);
+    }
+
+    const ticket = await ticketService.findById(ticketId, companyId);
+    if (ticket) {
+      const recipients = await this.getAlertRecipients(
+        companyId,
+        ticket.technicianId,
+        ticket.locationId
+      );
+      if (recipients.length > 0) {
+        await emailService.sendSlaAlertEmail(companyId, ticket, { target, level, dueAt }, recipients);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Staff to notify about a ticket's SLA: the assigned technician plus managers
+   * Managers assigned to the ticket's location are preferred; if there are none,
+   * every manager in the company is notified
+   */
+  private async getAlertRecipients(
+    companyId: string,
+    technicianId: string | null,
+    locationId: string | null
+  ): Promise<{ email: string; firstName: string }[]> {
+    const managerRoles = await db
+      .selectFrom("user_roles")
+      .select("user_id")
+      .where("company_id", "=", companyId)
+      .where("role", "=", "manager")
+      .execute();
+
+    const managers = await db
+      .selectFrom("users")
+      .select(["id", "email", "first_name"])
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where("active", "=", true)
+      .where((eb) =>
+        managerRoles.length > 0
+          ? eb.or([
+              eb("role", "=", "manager"),
+              eb(
+                "id",
+                "in",
+                managerRoles.map((r) => r.user_id)
+              ),
+            ])
+          : eb("role", "=", "manager")
+      )
+      .execute();
+
+    let notifiedManagers = managers;
+    if (locationId && managers.length > 0) {
+      const atLocation = await db
+        .selectFrom("user_locations")
+        .select("user_id")
+        .where("location_id", "=", locationId)
+        .where(
+          "user_id",
+          "in",
+          managers.map((m) => m.id)
+        )
+        .execute();
+      if (atLocation.length > 0) {
+        const ids = atLocation.map((row) => row.user_id);
+        notifiedManagers = managers.filter((m) => ids.includes(m.id));
+      }
+    }
+
+    const recipients = new Map<string, { email: string; firstName: string }>();
+    if (technicianId) {
+      const technician = await db
+        .selectFrom("users")
+        .select(["id", "email", "first_name"])
+        .where("id", "=", technicianId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (technician) {
+        recipients.set(technician.id, { email: technician.email, firstName: technician.first_name });
+      }
+    }
+    for (const manager of notifiedManagers) {
+      recipients.set(manager.id, { email: manager.email, firstName: manager.first_name });
+    }
+
+    return Array.from(recipients.values());
+  }
+}
+
+export default new SlaService();
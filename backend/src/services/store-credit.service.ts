@@ -0,0 +1,175 @@
+// src/services/store-credit.service.ts
+import { sql, Transaction } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import { Database, StoreCreditTransactionType } from "../config/types.js";
+
+// Input DTOs
+export interface AdjustStoreCreditDto {
+  // Positive to give the customer credit, negative to take it away
+  amount: number;
+  notes?: string | null;
+}
+
+// A change to a customer's store credit, recorded inside the caller's transaction
+export interface RecordStoreCreditDto {
+  customerId: string;
+  type: StoreCreditTransactionType;
+  amount: number;
+  invoiceId?: string | null;
+  invoicePaymentId?: string | null;
+  creditMemoId?: string | null;
+  notes?: string | null;
+  createdBy?: string | null;
+}
+
+// Output type - converts snake_case to camelCase
+export interface StoreCreditTransaction {
+  id: string;
+  customerId: string;
+  type: StoreCreditTransactionType;
+  amount: number;
+  balanceAfter: number;
+  invoiceId: string | null;
+  invoicePaymentId: string | null;
+  creditMemoId: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+// Helper function to convert DB row to StoreCreditTransaction
+function toStoreCreditTransaction(transaction: {
+  id: string;
+  customer_id: string;
+  type: StoreCreditTransactionType;
+  amount: number;
+  balance_after: number;
+  invoice_id: string | null;
+  invoice_payment_id: string | null;
+  credit_memo_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: Date;
+}): StoreCreditTransaction {
+  return {
+    id: transaction.id,
+    customerId: transaction.customer_id,
+    type: transaction.type,
+    amount: Number(transaction.amount),
+    balanceAfter: Number(transaction.balance_after),
+    invoiceId: transaction.invoice_id,
+    invoicePaymentId: transaction.invoice_payment_id,
+    creditMemoId: transaction.credit_memo_id,
+    notes: transaction.notes,
+    createdBy: transaction.created_by,
+    createdAt: transaction.created_at,
+  };
+}
+
+export class StoreCreditService {
+  /**
+   * Get a customer's store credit balance
+   */
+  async getBalance(customerId: string, companyId: string): Promise<number> {
+    const customer = await db
+      .selectFrom("customers")
+      .select("store_credit_balance")
+      .where("id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!customer) {
+      throw new NotFoundError("Customer not found");
+    }
+
+    return Number(customer.store_credit_balance);
+  }
+
+  /**
+   * Get every change to a customer's store credit, newest first
+   */
+  async findTransactions(customerId: string, companyId: string): Promise<StoreCreditTransaction[]> {
+    const transactions = await db
+      .selectFrom("store_credit_transactions")
+      .selectAll()
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "desc")
+      .execute();
+
+    return transactions.map(toStoreCreditTransaction);
+  }
+
+  /**
+   * Change a customer's store credit balance and log it
+   * Spending more than the customer has is rejected, so balances never go negative.
+   */
+  async record(
+    trx: Transaction<Database>,
+    companyId: string,
+    data: RecordStoreCreditDto
+  ): Promise<StoreCreditTransaction> {
+    const customer = await trx
+      .updateTable("customers")
+      .set((eb) => ({
+        store_credit_balance: eb("store_credit_balance", "+", data.amount),
+        updated_at: sql`now()`,
+      }))
+      .where("id", "=", data.customerId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where("store_credit_balance", ">=", -data.amount)
+      .returning("store_credit_balance")
+      .executeTakeFirst();
+    if (!customer) {
+      throw new BadRequestError("Customer doesn't have enough store credit");
+    }
+
+    const transaction = await trx
+      .insertInto("store_credit_transactions")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        customer_id: data.customerId,
+        type: data.type,
+        amount: data.amount,
+        balance_after: customer.store_credit_balance,
+        invoice_id: data.invoiceId || null,
+        invoice_payment_id: data.invoicePaymentId || null,
+        credit_memo_id: data.creditMemoId || null,
+        notes: data.notes || null,
+        created_by: data.createdBy || null,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toStoreCreditTransaction(transaction);
+  }
+
+  /**
+   * Give a customer store credit, or take it away, by hand
+   */
+  async adjust(
+    customerId: string,
+    data: AdjustStoreCreditDto,
+    companyId: string,
+    createdBy: string | null = null
+  ): Promise<StoreCreditTransaction> {
+    // Throws if the customer doesn't exist
+    await this.getBalance(customerId, companyId);
+
+    return db.transaction().execute((trx) =>
+      this.record(trx, companyId, {
+        customerId,
+        type: "adjustment",
+        amount: data.amount,
+        notes: data.notes,
+        createdBy,
+      })
+    );
+  }
+}
+
+export default new StoreCreditService();
@@ -0,0 +1,171 @@
+// src/services/ticket-bulk.service.ts
+import { BadRequestError, ForbiddenError, HttpError, NotFoundError } from "../config/errors.js";
+import logger from "../config/logger.js";
+import { TicketPriority, UserRole } from "../config/types.js";
+import { hasRole } from "../middlewares/rbac.middleware.js";
+import { getUserRoles } from "../utils/user.utils.js";
+import locationService from "./location.service.js";
+import ticketService, { Ticket } from "./ticket.service.js";
+import userService, { UserWithoutPassword } from "./user.service.js";
+
+export const BULK_TICKET_ACTIONS = ["assign", "status", "priority", "location"] as const;
+export type BulkTicketAction = (typeof BULK_TICKET_ACTIONS)[number];
+
+// The most tickets one request may change
+export const MAX_BULK_TICKETS = 100;
+
+// Roles each action needs - the same as the single-ticket routes it stands in for
+export const BULK_ACTION_ROLES: Record<BulkTicketAction, UserRole[]> = {
+  // POST /tickets/:id/assign
+  assign: ["admin", "manager"],
+  // POST /tickets/:id/status
+  status: ["admin", "technician", "manager", "frontdesk"],
+  // PUT /tickets/:id
+  priority: ["admin", "technician"],
+  location: ["admin", "technician"],
+};
+
+// Input DTO
+export interface BulkTicketDto {
+  action: BulkTicketAction;
+  ticketIds: string[];
+  technicianId?: string | null;
+  status?: string;
+  priority?: TicketPriority;
+  locationId?: string;
+  // Email each customer about their status change, as a single status change does
+  notifyCustomer?: boolean;
+}
+
+// Output types
+export interface BulkTicketResult {
+  ticketId: string;
+  success: boolean;
+  // Set when the change was refused or failed
+  error?: string;
+  ticket?: Ticket;
+}
+
+export interface BulkTicketSummary {
+  action: BulkTicketAction;
+  succeeded: number;
+  failed: number;
+  results: BulkTicketResult[];
+}
+
+/**
+ * Apply one change to many tickets
+ * Each ticket goes through the same checks as changing it on its own (workflow rules, company
+ * scoping) and one ticket failing doesn't stop the rest.
+ */
+export class TicketBulkService {
+  async apply(
+    data: BulkTicketDto,
+    companyId: string,
+    user: UserWithoutPassword
+  ): Promise<BulkTicketSummary> {
+    const roles = BULK_ACTION_ROLES[data.action];
+    if (!(await hasRole(user, companyId, roles))) {
+      throw new ForbiddenError(`Access denied. Required role: ${roles.join(" or ")}`);
+    }
+
+    await this.validateTarget(data, companyId);
+
+    // Duplicates would report the same ticket twice
+    const ticketIds = Array.from(new Set(data.ticketIds));
+    const userRoles = getUserRoles(user);
+
+    // One at a time, so a big batch doesn't take every database connection
+    const results: BulkTicketResult[] = [];
+    for (const ticketId of ticketIds) {
+      try {
+        const ticket = await this.applyOne(data, ticketId, companyId, user.id, userRoles);
+        if (!ticket) {
+          throw new NotFoundError("Ticket not found");
+        }
+        results.push({ ticketId, success: true, ticket });
+      } catch (error) {
+        if (!(error instanceof HttpError)) {
+          logger.error(`Bulk ${data.action} failed for ticket ${ticketId}:`, error);
+        }
+        results.push({
+          ticketId,
+          success: false,
+          error: error instanceof HttpError ? error.message : "Failed to update ticket",
+        });
+      }
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      action: data.action,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  private applyOne(
+    data: BulkTicketDto,
+    ticketId: string,
+    companyId: string,
+    actorId: string,
+    roles: UserRole[]
+  ): Promise<Ticket | null> {
+    switch (data.action) {
+      case "assign":
+        return ticketService.assignTechnician(
+          ticketId,
+          data.technicianId || null,
+          companyId,
+          actorId
+        );
+      case "status":
+        return ticketService.updateStatus(
+          ticketId,
+          data.status!,
+          companyId,
+          actorId,
+          roles,
+          data.notifyCustomer !== false
+        );
+      case "priority":
+        return ticketService.update(ticketId, { priority: data.priority }, companyId, actorId, roles);
+      case "location":
+        return ticketService.update(
+          ticketId,
+          { locationId: data.locationId },
+          companyId,
+          actorId,
+          roles
+        );
+    }
+  }
+
+  // Check what every ticket is being changed to once, rather than failing each ticket on it
+  private async validateTarget(data: BulkTicketDto, companyId: string): Promise<void> {
+    if (data.action === "assign" && data.technicianId) {
+      const technician = await userService.findById(data.technicianId);
+      if (!technician) {
+        throw new NotFoundError("Technician not found");
+      }
+      if ((technician.company_id as unknown as string) !== companyId) {
+        throw new BadRequestError("Technician must belong to the same company");
+      }
+      if (!["technician", "manager", "admin"].includes(technician.role)) {
+        throw new BadRequestError(
+          "User must be a technician, manager, or admin to be assigned to a ticket"
+        );
+      }
+    }
+
+    if (data.action === "location") {
+      const location = await locationService.findById(data.locationId!, companyId);
+      if (!location) {
+        throw new NotFoundError("Location not found");
+      }
+    }
+  }
+}
+
+export default new TicketBulkService();
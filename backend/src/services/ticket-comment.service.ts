@@ -0,0 +1,374 @@
+// src/services/ticket-comment.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../config/errors.js";
+import { TicketCommentVisibility } from "../config/types.js";
+
+// Input DTOs
+export interface CreateTicketCommentDto {
+  body: string;
+  visibility?: TicketCommentVisibility;
+  parentId?: string | null;
+}
+
+export interface UpdateTicketCommentDto {
+  body?: string;
+  visibility?: TicketCommentVisibility;
+}
+
+export interface CommentAuthor {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Output type - converts snake_case to camelCase
+export interface TicketComment {
+  id: string;
+  ticketId: string;
+  parentId: string | null;
+  authorId: string | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  author?: CommentAuthor;
+  replies?: TicketComment[];
+}
+
+export interface TicketCommentRevision {
+  id: string;
+  commentId: string;
+  editorId: string | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  createdAt: Date;
+  editor?: CommentAuthor;
+}
+
+function toTicketComment(comment: {
+  id: string;
+  ticket_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  edited_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  author_first_name: string | null;
+  author_last_name: string | null;
+}): TicketComment {
+  return {
+    id: comment.id,
+    ticketId: comment.ticket_id,
+    parentId: comment.parent_id,
+    authorId: comment.author_id,
+    body: comment.body,
+    visibility: comment.visibility,
+    editedAt: comment.edited_at,
+    createdAt: comment.created_at,
+    updatedAt: comment.updated_at,
+    author:
+      comment.author_id && comment.author_first_name
+        ? {
+            id: comment.author_id,
+            firstName: comment.author_first_name,
+            lastName: comment.author_last_name || "",
+          }
+        : undefined,
+  };
+}
+
+export class TicketCommentService {
+  private baseQuery(companyId: string) {
+    return db
+      .selectFrom("ticket_comments")
+      .leftJoin("users", "users.id", "ticket_comments.author_id")
+      .select([
+        "ticket_comments.id",
+        "ticket_comments.ticket_id",
+        "ticket_comments.parent_id",
+        "ticket_comments.author_id",
+        "ticket_comments.body",
+        "ticket_comments.visibility",
+        "ticket_comments.edited_at",
+        "ticket_comments.created_at",
+        "ticket_comments.updated_at",
+        "users.first_name as author_first_name",
+        "users.last_name as author_last_name",
+      ])
+      .where("ticket_comments.company_id", "=", companyId)
+      .where("ticket_comments.deleted_at", "is", null);
+  }
+
+  /**
+   * Get all comments on a ticket as threads
+   * Top-level comments are returned oldest first with their replies nested under them
+   */
+  async findByTicketId(
+    ticketId: string,
+    companyId: string,
+    visibility?: TicketCommentVisibility
+  ): Promise<TicketComment[]> {
+    let query = this.baseQuery(companyId).where("ticket_comments.ticket_id", "=", ticketId);
+
+    if (visibility) {
+      query = query.where("ticket_comments.visibility", "=", visibility);
+    }
+
+    const comments = (
+      await query.orderBy("ticket_comments.created_at", "asc").execute()
+    ).map(toTicketComment);
+
+    const threads: TicketComment[] = [];
+    const byId = new Map<string, TicketComment>();
+    for (const comment of comments) {
+      if (!comment.parentId) {
+        const thread = { ...comment, replies: [] };
+        byId.set(comment.id, thread);
+        threads.push(thread);
+      }
+    }
+    for (const comment of comments) {
+      if (comment.parentId) {
+        // Replies whose parent was deleted or filtered out are dropped with it
+        byId.get(comment.parentId)?.replies!.push(comment);
+      }
+    }
+
+    return threads;
+  }
+
+  async findById(
+    commentId: string,
+    ticketId: string,
+    companyId: string
+  ): Promise<TicketComment | null> {
+    const comment = await this.baseQuery(companyId)
+      .where("ticket_comments.id", "=", commentId)
+      .where("ticket_comments.ticket_id", "=", ticketId)
+      .executeTakeFirst();
+
+    return comment ? toTicketComment(comment) : null;
+  }
+
+  /**
+   * Get the most recent customer-visible comments on a ticket, newest last
+   * Used to include staff updates in customer notifications
+   */
+  async findCustomerVisible(
+    ticketId: string,
+    companyId: string,
+    limit = 5
+  ): Promise<TicketComment[]> {
+    const comments = await this.baseQuery(companyId)
+      .where("ticket_comments.ticket_id", "=", ticketId)
+      .where("ticket_comments.visibility", "=", "customer")
+      .orderBy("ticket_comments.created_at", "desc")
+      .limit(limit)
+      .execute();
+
+    return comments.map(toTicketComment).reverse();
+  }
+
+  async create(
+    ticketId: string,
+    companyId: string,
+    authorId: string,
+    data: CreateTicketCommentDto
+  ): Promise<TicketComment> {
+    const visibility = data.visibility || "internal";
+
+    if (data.parentId) {
+      const parent = await this.findById(data.parentId, ticketId, companyId);
+      if (!parent) {
+        throw new NotFoundError("Parent comment not found");
+      }
+      // Threads are only one level deep
+      if (parent.parentId) {
+        throw new BadRequestError("Cannot reply to a reply");
+      }
+      if (parent.visibility === "internal" && visibility === "customer") {
+        throw new BadRequestError("Replies to internal comments must also be internal");
+      }
+    }
+
+    const comment = await db
+      .insertInto("ticket_comments")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        ticket_id: ticketId,
+        parent_id: data.parentId || null,
+        author_id: authorId,
+        body: data.body,
+        visibility,
+        edited_at: null,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+        deleted_at: null,
+      })
+      .returning("id")
+      .executeTakeFirstOrThrow();
+
+    return (await this.findById(comment.id, ticketId, companyId))!;
+  }
+
+  /**
+   * Edit a comment, keeping the previous body and visibility as a revision
+   * Only the author can edit their comment unless canModerate is set
+   */
+  async update(
+    commentId: string,
+    ticketId: string,
+    companyId: string,
+    editorId: string,
+    data: UpdateTicketCommentDto,
+    canModerate = false
+  ): Promise<TicketComment | null> {
+    const current = await this.findById(commentId, ticketId, companyId);
+    if (!current) {
+      return null;
+    }
+
+    if (current.authorId !== editorId && !canModerate) {
+      throw new ForbiddenError("You can only edit your own comments");
+    }
+
+    const body = data.body !== undefined ? data.body : current.body;
+    const visibility = data.visibility || current.visibility;
+
+    if (body === current.body && visibility === current.visibility) {
+      return current;
+    }
+
+    // A thread can't show the customer anything under an internal comment
+    if (visibility === "customer" && current.parentId) {
+      const parent = await this.findById(current.parentId, ticketId, companyId);
+      if (parent?.visibility === "internal") {
+        throw new BadRequestError("Replies to internal comments must also be internal");
+      }
+    }
+    if (visibility === "internal" && current.visibility === "customer" && !current.parentId) {
+      const sharedReply = await db
+        .selectFrom("ticket_comments")
+        .select("id")
+        .where("parent_id", "=", commentId)
+        .where("company_id", "=", companyId)
+        .where("visibility", "=", "customer")
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (sharedReply) {
+        throw new BadRequestError(
+          "Make the customer-visible replies internal before making this comment internal"
+        );
+      }
+    }
+
+    await db
+      .insertInto("ticket_comment_revisions")
+      .values({
+        id: uuidv4(),
+        comment_id: commentId,
+        editor_id: editorId,
+        body: current.body,
+        visibility: current.visibility,
+        created_at: sql`now()`,
+      })
+      .execute();
+
+    await db
+      .updateTable("ticket_comments")
+      .set({
+        body,
+        visibility,
+        edited_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", commentId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .execute();
+
+    return this.findById(commentId, ticketId, companyId);
+  }
+
+  /**
+   * Get the edit history for a comment, oldest revision first
+   */
+  async getRevisions(
+    commentId: string,
+    companyId: string
+  ): Promise<TicketCommentRevision[]> {
+    const revisions = await db
+      .selectFrom("ticket_comment_revisions")
+      .innerJoin("ticket_comments", "ticket_comments.id", "ticket_comment_revisions.comment_id")
+      .leftJoin("users", "users.id", "ticket_comment_revisions.editor_id")
+      .select([
+        "ticket_comment_revisions.id",
+        "ticket_comment_revisions.comment_id",
+        "ticket_comment_revisions.editor_id",
+        "ticket_comment_revisions.body",
+        "ticket_comment_revisions.visibility",
+        "ticket_comment_revisions.created_at",
+        "users.first_name as editor_first_name",
+        "users.last_name as editor_last_name",
+      ])
+      .where("ticket_comment_revisions.comment_id", "=", commentId)
+      .where("ticket_comments.company_id", "=", companyId)
+      .orderBy("ticket_comment_revisions.created_at", "asc")
+      .execute();
+
+    return revisions.map((revision) => ({
+      id: revision.id,
+      commentId: revision.comment_id,
+      editorId: revision.editor_id,
+      body: revision.body,
+      visibility: revision.visibility,
+      createdAt: revision.created_at,
+      editor:
+        revision.editor_id && revision.editor_first_name
+          ? {
+              id: revision.editor_id,
+              firstName: revision.editor_first_name,
+              lastName: revision.editor_last_name || "",
+            }
+          : undefined,
+    }));
+  }
+
+  async delete(
+    commentId: string,
+    ticketId: string,
+    companyId: string,
+    userId: string,
+    canModerate = false
+  ): Promise<boolean> {
+    const current = await this.findById(commentId, ticketId, companyId);
+    if (!current) {
+      return false;
+    }
+
+    if (current.authorId !== userId && !canModerate) {
+      throw new ForbiddenError("You can only delete your own comments");
+    }
+
+    const result = await db
+      .updateTable("ticket_comments")
+      .set({
+        deleted_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", commentId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+
+    return Number(result.numUpdatedRows) > 0;
+  }
+}
+
+export default new TicketCommentService();
@@ -0,0 +1,443 @@
+// src/services/ticket-document.service.ts
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { NotFoundError } from "../config/errors.js";
+import { getFrontendUrl } from "../utils/url.utils.js";
+import companyService from "./company.service.js";
+import customerService from "./customer.service.js";
+import locationService from "./location.service.js";
+import signatureService from "./signature.service.js";
+import ticketService, { Ticket } from "./ticket.service.js";
+import userService from "./user.service.js";
+import workflowService from "./workflow.service.js";
+
+export type LabelFormat = "pdf" | "zpl";
+
+// Common thermal label stock, in inches (width x height)
+export const LABEL_SIZES = {
+  "2x1": { width: 2, height: 1 },
+  "2.25x1.25": { width: 2.25, height: 1.25 },
+  "3x2": { width: 3, height: 2 },
+} as const;
+export type LabelSize = keyof typeof LABEL_SIZES;
+export const DEFAULT_LABEL_SIZE: LabelSize = "2.25x1.25";
+
+// Zebra printers are 203 dpi out of the box; 300 dpi models need denser output
+export const LABEL_DPIS = [203, 300] as const;
+export type LabelDpi = (typeof LABEL_DPIS)[number];
+
+export interface LabelOptions {
+  format: LabelFormat;
+  size?: LabelSize;
+  dpi?: LabelDpi;
+}
+
+// Output type
+export interface TicketDocument {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const POINTS_PER_INCH = 72;
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function formatDevice(ticket: Ticket): string {
+  return [ticket.deviceType, ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(" ");
+}
+
+// Link a technician lands on when scanning the receipt or label
+function getTicketUrl(ticketId: string): string {
+  return `${getFrontendUrl()}/tickets/${ticketId}`;
+}
+
+// Quote a CSV field when it holds a comma, quote or line break
+// Text a spreadsheet would run as a formula (e.g. "=HYPERLINK(...)" typed into an issue) is
+// prefixed with an apostrophe so it opens as plain text
+function csvField(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderPdf(doc: InstanceType<typeof PDFDocument>): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+// Escape text for a ZPL ^FH field: the control characters are sent as _XX hex codes
+function zplText(text: string): string {
+  return text.replace(/[_^~]/g, (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// The scalable ^A0 font averages a little under half as wide as it is tall
+const ZPL_CHAR_WIDTH = 0.5;
+
+function fitText(text: string, widthDots: number, fontHeight: number): string {
+  const maxChars = Math.max(4, Math.floor(widthDots / (fontHeight * ZPL_CHAR_WIDTH)));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3)}...` : text;
+}
+
+// Largest font height, up to maxHeight, that keeps the text on one line
+function fitFontHeight(text: string, widthDots: number, maxHeight: number): number {
+  return Math.max(12, Math.min(maxHeight, Math.floor(widthDots / (text.length * ZPL_CHAR_WIDTH))));
+}
+
+export class TicketDocumentService {
+  private async loadTicket(ticketId: string, companyId: string) {
+    const ticket = await ticketService.findById(ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+    const customer = await customerService.findById(ticket.customerId, companyId);
+    return { ticket, customer };
+  }
+
+  /**
+   * Render the receipt handed to the customer when they drop off a device
+   * Includes the intake terms and, once captured, the customer's intake signature
+   */
+  async renderIntakeReceipt(ticketId: string, companyId: string): Promise<TicketDocument> {
+    const { ticket, customer } = await this.loadTicket(ticketId, companyId);
+    const [company, location, signatures, currentTerms, qrCode] = await Promise.all([
+      companyService.findById(companyId),
+      ticket.locationId ? locationService.findById(ticket.locationId, companyId, true) : null,
+      signatureService.findByTicketId(ticket.id, companyId),
+      signatureService.getCurrentTerms(companyId, "intake"),
+      QRCode.toBuffer(getTicketUrl(ticket.id), { margin: 1, width: 240 }),
+    ]);
+    const signature = signatures.find((s) => s.kind === "intake");
+
+    const doc = new PDFDocument({ size: "LETTER", margin: 50 });
+    const pageWidth = doc.page.width - 100;
+
+    // Header: shop details on the left, QR code and ticket number on the right
+    doc.font("Helvetica-Bold").fontSize(18).text(company?.name || "Repair Receipt", 50, 50, {
+      width: pageWidth - 140,
+    });
+    doc.font("Helvetica").fontSize(10).fillColor("#34495e");
+    if (location) {
+      doc.text(location.name, { width: pageWidth - 140 });
+      [location.address, location.phone, location.email]
+        .filter(Boolean)
+        .forEach((line) => doc.text(line!, { width: pageWidth - 140 }));
+    }
+    const headerBottom = doc.y;
+    doc.image(qrCode, 50 + pageWidth - 110, 50, { width: 110 });
+    doc
+      .fontSize(8)
+      .text("Scan to open ticket", 50 + pageWidth - 110, 162, { width: 110, align: "center" });
+
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(16);
+    // Long shop addresses push the title down rather than overlapping it
+    doc.text("INTAKE RECEIPT", 50, Math.max(headerBottom + 20, 190));
+    doc.font("Helvetica").fontSize(11);
+    doc.text(`Ticket #: ${ticket.ticketNumber}`);
+    doc.text(`Received: ${formatDate(ticket.createdAt)}`);
+    if (ticket.estimatedCompletionDate) {
+      doc.text(`Estimated completion: ${formatDate(ticket.estimatedCompletionDate)}`);
+    }
+
+    const section = (title: string) => {
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(12).text(title, 50);
+      doc.font("Helvetica").fontSize(10);
+    };
+
+    section("Customer");
+    if (customer) {
+      doc.text(`${customer.firstName} ${customer.lastName}`);
+      [customer.phone, customer.email].filter(Boolean).forEach((line) => doc.text(line!));
+    }
+
+    section("Device");
+    doc.text(formatDevice(ticket));
+    if (ticket.serialNumber) {
+      doc.text(`Serial number: ${ticket.serialNumber}`);
+    }
+
+    section("Reported Issue");
+    doc.text(ticket.issueDescription, { width: pageWidth });
+
+    // The signed copy of the terms wins over the current text, which may have changed since
+    section("Terms");
+    doc
+      .fontSize(9)
+      .fillColor("#34495e")
+      .text(signature ? signature.termsText : currentTerms.body, { width: pageWidth });
+    doc.fillColor("#000000").fontSize(10);
+
+    doc.moveDown(2);
+    if (signature) {
+      const [, base64] = signature.signatureImage.split(",");
+      const top = doc.y;
+      doc.image(Buffer.from(base64, "base64"), 50, top, { fit: [220, 70] });
+      doc
+        .moveTo(50, top + 74)
+        .lineTo(270, top + 74)
+        .stroke();
+      doc.text(
+        `Signed by ${signature.signerName} on ${new Date(signature.signedAt).toLocaleString("en-US")}`,
+        50,
+        top + 80
+      );
+    } else {
+      const top = doc.y + 30;
+      doc.moveTo(50, top).lineTo(270, top).stroke();
+      doc.moveTo(320, top).lineTo(450, top).stroke();
+      doc.text("Customer signature", 50, top + 4);
+      doc.text("Date", 320, top + 4);
+    }
+
+    doc.moveDown(2);
+    doc
+      .fontSize(9)
+      .fillColor("#7f8c8d")
+      .text(
+        `Check your repair status any time at ${getFrontendUrl()}/portal using your ticket number.`,
+        50,
+        doc.y,
+        { width: pageWidth, align: "center" }
+      );
+
+    return {
+      fileName: `receipt-${ticket.ticketNumber}.pdf`,
+      contentType: "application/pdf",
+      content: await renderPdf(doc),
+    };
+  }
+
+  /**
+   * Render the tag stuck on the device while it's in the shop
+   * ZPL goes straight to Zebra printers; PDF works with any label printer driver
+   */
+  async renderDeviceLabel(
+    ticketId: string,
+    companyId: string,
+    options: LabelOptions
+  ): Promise<TicketDocument> {
+    return this.renderDeviceLabels([ticketId], companyId, options);
+  }
+
+  /**
+   * Render device tags for several tickets in one print job, one label per ticket in the
+   * order given
+   */
+  async renderDeviceLabels(
+    ticketIds: string[],
+    companyId: string,
+    options: LabelOptions
+  ): Promise<TicketDocument> {
+    const size = LABEL_SIZES[options.size || DEFAULT_LABEL_SIZE];
+    const labels: { ticket: Ticket; lines: string[] }[] = [];
+    for (const ticketId of ticketIds) {
+      const { ticket, customer } = await this.loadTicket(ticketId, companyId);
+      labels.push({
+        ticket,
+        lines: [
+          customer ? `${customer.firstName} ${customer.lastName}` : "",
+          formatDevice(ticket),
+          `In: ${formatDate(ticket.createdAt)}`,
+        ].filter(Boolean),
+      });
+    }
+
+    const baseName =
+      labels.length === 1 ? `label-${labels[0].ticket.ticketNumber}` : `labels-${labels.length}`;
+
+    if (options.format === "zpl") {
+      return {
+        fileName: `${baseName}.zpl`,
+        contentType: "text/plain; charset=utf-8",
+        content: Buffer.from(
+          labels
+            .map(({ ticket, lines }) => this.buildZplLabel(ticket, lines, size, options.dpi || 203))
+            .join(""),
+          "utf8"
+        ),
+      };
+    }
+
+    const doc = new PDFDocument({
+      size: [size.width * POINTS_PER_INCH, size.height * POINTS_PER_INCH],
+      margin: 0,
+      autoFirstPage: false,
+    });
+    for (const { ticket, lines } of labels) {
+      doc.addPage();
+      await this.drawPdfLabel(doc, ticket, lines, size);
+    }
+
+    return {
+      fileName: `${baseName}.pdf`,
+      contentType: "application/pdf",
+      content: await renderPdf(doc),
+    };
+  }
+
+  /**
+   * Export tickets as a CSV spreadsheet, one row per ticket in the order given
+   */
+  async renderTicketsCsv(ticketIds: string[], companyId: string): Promise<TicketDocument> {
+    const [workflow, locations, technicians] = await Promise.all([
+      workflowService.getWorkflow(companyId),
+      locationService.findAll(companyId),
+      userService.findTechnicians(companyId),
+    ]);
+    const statusLabels = new Map(workflow.statuses.map((status) => [status.key, status.label]));
+    const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+    const technicianNames = new Map<string, string>(
+      technicians.map((technician) => [
+        technician.id,
+        `${technician.first_name} ${technician.last_name}`.trim(),
+      ])
+    );
+
+    const rows: (string | number | null | undefined)[][] = [
+      [
+        "Ticket Number",
+        "Status",
+        "Priority",
+        "Customer",
+        "Customer Email",
+        "Customer Phone",
+        "Technician",
+        "Location",
+        "Device Type",
+        "Brand",
+        "Model",
+        "Serial Number",
+        "Issue",
+        "Created",
+        "Completed",
+      ],
+    ];
+    for (const ticketId of ticketIds) {
+      const { ticket, customer } = await this.loadTicket(ticketId, companyId);
+      rows.push([
+        ticket.ticketNumber,
+        statusLabels.get(ticket.status) || ticket.status,
+        ticket.priority,
+        customer ? `${customer.firstName} ${customer.lastName}` : "",
+        customer?.email,
+        customer?.phone,
+        ticket.technicianId ? technicianNames.get(ticket.technicianId) : "",
+        ticket.locationId ? locationNames.get(ticket.locationId) : "",
+        ticket.deviceType,
+        ticket.deviceBrand,
+        ticket.deviceModel,
+        ticket.serialNumber,
+        ticket.issueDescription,
+        formatDate(ticket.createdAt),
+        ticket.completedDate ? formatDate(ticket.completedDate) : "",
+      ]);
+    }
+
+    return {
+      fileName: `tickets-${new Date().toISOString().slice(0, 10)}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      content: Buffer.from(
+        `${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`,
+        "utf8"
+      ),
+    };
+  }
+
+  private buildZplLabel(
+    ticket: Ticket,
+    lines: string[],
+    size: { width: number; height: number },
+    dpi: LabelDpi
+  ): string {
+    const width = Math.round(size.width * dpi);
+    const height = Math.round(size.height * dpi);
+    const margin = Math.round(dpi * 0.06);
+    const url = getTicketUrl(ticket.id);
+
+    // Keep the QR code to about 40% of the width so the ticket number has room
+    const modules = QRCode.create(url, { errorCorrectionLevel: "M" }).modules.size;
+    const qrSpace = Math.min(height - margin * 2, Math.round(width * 0.4));
+    const magnification = Math.max(1, Math.min(10, Math.floor(qrSpace / modules)));
+    const textX = margin + modules * magnification + margin;
+    const textWidth = width - textX - margin;
+    const titleHeight = fitFontHeight(ticket.ticketNumber, textWidth, Math.round(height * 0.17));
+    const lineHeight = Math.min(Math.round(height * 0.12), Math.round(titleHeight * 0.75));
+
+    const commands = [
+      "^XA",
+      "^CI28",
+      `^PW${width}`,
+      `^LL${height}`,
+      `^FO${margin},${margin}^BQN,2,${magnification}^FH^FDMA,${zplText(url)}^FS`,
+      `^FO${textX},${margin}^A0N,${titleHeight},${titleHeight}^FH^FD${zplText(
+        ticket.ticketNumber
+      )}^FS`,
+    ];
+    let y = margin + titleHeight + Math.round(lineHeight / 2);
+    for (const line of lines) {
+      commands.push(
+        `^FO${textX},${y}^A0N,${lineHeight},${lineHeight}^FH^FD${zplText(
+          fitText(line, textWidth, lineHeight)
+        )}^FS`
+      );
+      y += lineHeight + Math.round(lineHeight / 4);
+    }
+    commands.push("^XZ");
+
+    return `${commands.join("\n")}\n`;
+  }
+
+  private async drawPdfLabel(
+    doc: InstanceType<typeof PDFDocument>,
+    ticket: Ticket,
+    lines: string[],
+    size: { width: number; height: number }
+  ): Promise<void> {
+    const width = size.width * POINTS_PER_INCH;
+    const height = size.height * POINTS_PER_INCH;
+    const margin = 4;
+    const qrSize = Math.min(height - margin * 2, width * 0.4);
+    const textX = margin + qrSize + margin;
+    const textWidth = width - textX - margin;
+
+    const qrCode = await QRCode.toBuffer(getTicketUrl(ticket.id), {
+      errorCorrectionLevel: "M",
+      margin: 0,
+      width: Math.round(qrSize * 4),
+    });
+
+    doc.image(qrCode, margin, margin, { width: qrSize, height: qrSize });
+
+    // Shrink the ticket number until it fits on one line rather than cutting it off
+    doc.font("Helvetica-Bold");
+    let titleSize = Math.round(height * 0.16);
+    while (titleSize > 6 && doc.fontSize(titleSize).widthOfString(ticket.ticketNumber) > textWidth) {
+      titleSize -= 0.5;
+    }
+    doc.text(ticket.ticketNumber, textX, margin, { width: textWidth, lineBreak: false });
+
+    const lineSize = Math.min(Math.round(height * 0.1), titleSize);
+    doc.font("Helvetica").fontSize(lineSize);
+    let y = margin + titleSize + lineSize / 2;
+    for (const line of lines) {
+      doc.text(line, textX, y, { width: textWidth, lineBreak: false, ellipsis: true });
+      y += lineSize * 1.25;
+    }
+  }
+}
+
+export default new TicketDocumentService();
@@ -0,0 +1,131 @@
+// src/services/ticket-event.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { TicketEventType } from "../config/types.js";
+import ticketFeedService from "./ticket-feed.service.js";
+
+// Input DTOs
+export interface RecordTicketEventDto {
+  eventType: TicketEventType;
+  field?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+// Output type - converts snake_case to camelCase
+export interface TicketEvent {
+  id: string;
+  ticketId: string;
+  actorId: string | null;
+  eventType: TicketEventType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: Date;
+  actor?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+/**
+ * Serialize a ticket field value for storage in the event history.
+ * Empty strings are treated like null so that clearing a field and never
+ * setting it look the same in the timeline.
+ */
+export function toEventValue(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+export class TicketEventService {
+  /**
+   * Append one or more events to a ticket's history
+   * Events are append-only; there is intentionally no update or delete
+   * Live viewers (e.g. the dispatch board) are notified once the events are saved
+   */
+  async record(
+    companyId: string,
+    ticketId: string,
+    actorId: string | null,
+    events: RecordTicketEventDto[]
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await db
+      .insertInto("ticket_events")
+      .values(
+        events.map((event) => ({
+          id: uuidv4(),
+          company_id: companyId,
+          ticket_id: ticketId,
+          actor_id: actorId,
+          event_type: event.eventType,
+          field: event.field || null,
+          old_value: toEventValue(event.oldValue),
+          new_value: toEventValue(event.newValue),
+          created_at: sql`now()`,
+        }))
+      )
+      .execute();
+
+    ticketFeedService.publish(companyId, {
+      ticketId,
+      eventTypes: events.map((event) => event.eventType),
+      actorId,
+      occurredAt: new Date(),
+    });
+  }
+
+  async findByTicketId(ticketId: string, companyId: string): Promise<TicketEvent[]> {
+    const events = await db
+      .selectFrom("ticket_events")
+      .leftJoin("users", "users.id", "ticket_events.actor_id")
+      .select([
+        "ticket_events.id",
+        "ticket_events.ticket_id",
+        "ticket_events.actor_id",
+        "ticket_events.event_type",
+        "ticket_events.field",
+        "ticket_events.old_value",
+        "ticket_events.new_value",
+        "ticket_events.created_at",
+        "users.first_name as actor_first_name",
+        "users.last_name as actor_last_name",
+      ])
+      .where("ticket_events.ticket_id", "=", ticketId)
+      .where("ticket_events.company_id", "=", companyId)
+      .orderBy("ticket_events.created_at", "asc")
+      .execute();
+
+    return events.map((event) => ({
+      id: event.id,
+      ticketId: event.ticket_id,
+      actorId: event.actor_id,
+      eventType: event.event_type,
+      field: event.field,
+      oldValue: event.old_value,
+      newValue: event.new_value,
+      createdAt: event.created_at,
+      actor:
+        event.actor_id && event.actor_first_name
+          ? {
+              id: event.actor_id,
+              firstName: event.actor_first_name,
+              lastName: event.actor_last_name || "",
+            }
+          : undefined,
+    }));
+  }
+}
+
+export default new TicketEventService();
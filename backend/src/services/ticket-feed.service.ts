@@ -0,0 +1,42 @@
+// src/services/ticket-feed.service.ts
+import { EventEmitter } from "events";
+import { TicketEventType } from "../config/types.js";
+
+// Pushed to open dispatch boards whenever a ticket's history changes
+export interface TicketChange {
+  ticketId: string;
+  eventTypes: TicketEventType[];
+  actorId: string | null;
+  occurredAt: Date;
+}
+
+export type TicketChangeListener = (change: TicketChange) => void;
+
+/**
+ * In-process fan-out of ticket changes to live viewers, keyed by company
+ * Subscribers only hear about changes made through this server process
+ */
+export class TicketFeedService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open board holds a listener, so the default warning threshold of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(companyId: string, change: TicketChange): void {
+    this.emitter.emit(companyId, change);
+  }
+
+  /**
+   * Listen for changes to a company's tickets; call the returned function to stop
+   */
+  subscribe(companyId: string, listener: TicketChangeListener): () => void {
+    this.emitter.on(companyId, listener);
+    return () => {
+      this.emitter.off(companyId, listener);
+    };
+  }
+}
+
+export default new TicketFeedService();
@@ -1,17 +1,36 @@
 // src/services/ticket.service.ts
-import { sql } from "kysely";
+import { sql, SqlBool } from "kysely";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../config/connection.js";
-import { BadRequestError } from "../config/errors.js";
-import { TicketPriority, TicketStatus, TicketTable } from "../config/types.js";
+import { BadRequestError, ConflictError } from "../config/errors.js";
+import { TicketPriority, TicketStatus, TicketTable, TicketType, UserRole } from "../config/types.js";
 import assetService from "./asset.service.js";
 import diagnosticChecklistService from "./diagnostic-checklist.service.js";
 import customerService from "./customer.service.js";
+import partReservationService from "./part-reservation.service.js";
+import ticketCommentService from "./ticket-comment.service.js";
+import ticketEventService, { RecordTicketEventDto, toEventValue } from "./ticket-event.service.js";
+import warrantyService from "./warranty.service.js";
+import workflowService from "./workflow.service.js";
 import emailService from "../integrations/email/email.service.js";
+import smsService from "../integrations/sms/sms.service.js";
+import { buildFilter, FilterSchema, searchColumns } from "../utils/filter.utils.js";
+import {
+  cursorCondition,
+  cursorValue,
+  ListOptions,
+  Page,
+  parseSort,
+  SortFields,
+  toPage,
+} from "../utils/pagination.utils.js";
 
 // Input DTOs
 export interface CreateTicketDto {
   customerId: string;
+  ticketType?: TicketType;
+  // Required for warranty claims: the repair being claimed against
+  originalTicketId?: string | null;
   assetId?: string | null;
   checklistTemplateId?: string | null;
   technicianId?: string | null;
@@ -56,6 +75,9 @@ export type Ticket = Omit<
   | "asset_id"
   | "checklist_template_id"
   | "ticket_number"
+  | "ticket_type"
+  | "original_ticket_id"
+  | "original_invoice_id"
   | "customer_id"
   | "technician_id"
   | "device_type"
@@ -67,6 +89,11 @@ export type Ticket = Omit<
   | "repair_notes"
   | "estimated_completion_date"
   | "completed_date"
+  | "first_assigned_at"
+  | "sla_breached_at"
+  | "warranty_days"
+  | "warranty_starts_at"
+  | "warranty_expires_at"
   | "created_at"
   | "updated_at"
   | "deleted_at"
@@ -76,6 +103,9 @@ export type Ticket = Omit<
   assetId: string | null;
   checklistTemplateId: string | null;
   ticketNumber: string;
+  ticketType: TicketType;
+  originalTicketId: string | null;
+  originalInvoiceId: string | null;
   customerId: string;
   technicianId: string | null;
   deviceType: string;
@@ -87,6 +117,11 @@ export type Ticket = Omit<
   repairNotes: string | null;
   estimatedCompletionDate: Date | null;
   completedDate: Date | null;
+  firstAssignedAt: Date | null;
+  slaBreachedAt: Date | null;
+  warrantyDays: number | null;
+  warrantyStartsAt: Date | null;
+  warrantyExpiresAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -99,6 +134,9 @@ function toTicket(ticket: {
   asset_id: string | null;
   checklist_template_id: string | null;
   ticket_number: string;
+  ticket_type: TicketType;
+  original_ticket_id: string | null;
+  original_invoice_id: string | null;
   customer_id: string;
   technician_id: string | null;
   status: TicketStatus;
@@ -112,6 +150,11 @@ function toTicket(ticket: {
   repair_notes: string | null;
   estimated_completion_date: Date | null;
   completed_date: Date | null;
+  first_assigned_at: Date | null;
+  sla_breached_at: Date | null;
+  warranty_days: number | null;
+  warranty_starts_at: Date | null;
+  warranty_expires_at: Date | null;
   created_at: Date;
   updated_at: Date;
   deleted_at: Date | null;
@@ -122,6 +165,9 @@ function toTicket(ticket: {
     assetId: ticket.asset_id as string | null,
     checklistTemplateId: ticket.checklist_template_id as string | null,
     ticketNumber: ticket.ticket_number,
+    ticketType: ticket.ticket_type,
+    originalTicketId: ticket.original_ticket_id,
+    originalInvoiceId: ticket.original_invoice_id,
     customerId: ticket.customer_id,
     technicianId: ticket.technician_id,
     status: ticket.status,
@@ -135,11 +181,56 @@ function toTicket(ticket: {
     repairNotes: ticket.repair_notes,
     estimatedCompletionDate: ticket.estimated_completion_date,
     completedDate: ticket.completed_date,
+    firstAssignedAt: ticket.first_assigned_at,
+    slaBreachedAt: ticket.sla_breached_at,
+    warrantyDays: ticket.warranty_days,
+    warrantyStartsAt: ticket.warranty_starts_at,
+    warrantyExpiresAt: ticket.warranty_expires_at,
     createdAt: ticket.created_at,
     updatedAt: ticket.updated_at,
   };
 }
 
+// Ticket fields that are recorded in the event history when changed via update()
+const AUDITED_FIELDS: (keyof UpdateTicketDto)[] = [
+  "customerId",
+  "assetId",
+  "checklistTemplateId",
+  "locationId",
+  "technicianId",
+  "status",
+  "priority",
+  "deviceType",
+  "deviceBrand",
+  "deviceModel",
+  "serialNumber",
+  "issueDescription",
+  "diagnosticNotes",
+  "repairNotes",
+  "estimatedCompletionDate",
+  "completedDate",
+];
+
+// Build event history entries for every audited field that differs between two ticket snapshots
+function diffTicket(before: Ticket, after: Ticket): RecordTicketEventDto[] {
+  const events: RecordTicketEventDto[] = [];
+  for (const field of AUDITED_FIELDS) {
+    const oldValue = toEventValue(before[field]);
+    const newValue = toEventValue(after[field]);
+    if (oldValue === newValue) {
+      continue;
+    }
+    let eventType: RecordTicketEventDto["eventType"] = "updated";
+    if (field === "status") {
+      eventType = "status_changed";
+    } else if (field === "technicianId") {
+      eventType = "technician_assigned";
+    }
+    events.push({ eventType, field, oldValue, newValue });
+  }
+  return events;
+}
+
 // Generate ticket number (scoped to company)
 async function generateTicketNumber(companyId: string): Promise<string> {
   const prefix = "TKT";
@@ -165,16 +256,84 @@ async function generateTicketNumber(companyId: string): Promise<string> {
   return ticketNumber;
 }
 
+export interface TicketListOptions extends ListOptions {
+  customerId?: string;
+  status?: TicketStatus | TicketStatus[];
+  locationId?: string | null;
+  slaBreached?: boolean;
+  // Who "me" refers to in the filter
+  userId?: string;
+}
+
+export const TICKET_FILTERS: FilterSchema = {
+  fields: {
+    status: { column: "tickets.status", type: "enum" },
+    priority: {
+      column: "tickets.priority",
+      type: "enum",
+      values: ["low", "medium", "high", "urgent"],
+    },
+    type: {
+      column: "tickets.ticket_type",
+      type: "enum",
+      values: ["repair", "warranty_claim"],
+    },
+    technician: { column: "tickets.technician_id", type: "id", nullable: true },
+    location: { column: "tickets.location_id", type: "id", nullable: true },
+    customer: { column: "tickets.customer_id", type: "id" },
+    device: { column: "tickets.device_type", type: "text" },
+    brand: { column: "tickets.device_brand", type: "text", nullable: true },
+    model: { column: "tickets.device_model", type: "text", nullable: true },
+    serial: { column: "tickets.serial_number", type: "text", nullable: true },
+    created: { column: "tickets.created_at", type: "date" },
+    updated: { column: "tickets.updated_at", type: "date" },
+    due: { column: "tickets.estimated_completion_date", type: "date" },
+    completed: { column: "tickets.completed_date", type: "date" },
+  },
+  // Also matches the customer's name or email
+  search: (pattern) =>
+    sql<SqlBool>`(${searchColumns([
+      "tickets.ticket_number",
+      "tickets.device_type",
+      "tickets.device_brand",
+      "tickets.device_model",
+      "tickets.serial_number",
+      "tickets.issue_description",
+    ])(pattern)} or tickets.customer_id in (
+      select id from customers
+      where first_name || ' ' || last_name ilike ${pattern} or email ilike ${pattern}
+    ))`,
+};
+
+export const TICKET_SORTS: SortFields = {
+  createdAt: { column: "created_at", type: "timestamp" },
+  updatedAt: { column: "updated_at", type: "timestamp" },
+  ticketNumber: { column: "ticket_number", type: "text" },
+};
+
 export class TicketService {
   async findAll(
     companyId: string,
     customerId?: string,
     status?: TicketStatus | TicketStatus[],
-    locationId?: string | null
+    locationId?: string | null,
+    slaBreached?: boolean
   ): Promise<Ticket[]> {
+    const page = await this.findPage(companyId, { customerId, status, locationId, slaBreached });
+    return page.data;
+  }
+
+  /**
+   * List tickets matching a filter expression, one page at a time when a limit is given
+   */
+  async findPage(companyId: string, options: TicketListOptions = {}): Promise<Page<Ticket>> {
+    const { customerId, status, locationId, slaBreached } = options;
+    const order = parseSort(options.sort, TICKET_SORTS, "-createdAt", "tickets");
+
     let query = db
       .selectFrom("tickets")
       .selectAll()
+      .select(cursorValue(order))
       .where("company_id", "=", companyId)
       .where("deleted_at", "is", null);
 
@@ -200,8 +359,28 @@ export class TicketService {
       }
     }
 
+    if (slaBreached) {
+      query = query.where("sla_breached_at", "is not", null);
+    }
+
+    const filter = buildFilter(options.filter, TICKET_FILTERS, { userId: options.userId });
+    if (filter) {
+      query = query.where(filter);
+    }
+
+    if (options.cursor) {
+      query = query.where(cursorCondition(order, options.cursor));
+    }
+
+    query = query
+      .orderBy(sql.ref(`tickets.${order.column}`), order.direction)
+      .orderBy("tickets.id", order.direction);
+    if (options.limit) {
+      query = query.limit(options.limit + 1);
+    }
+
     const tickets = await query.execute();
-    return tickets.map(toTicket);
+    return toPage(tickets, order, options.limit, toTicket);
   }
 
   async findById(id: string, companyId: string): Promise<Ticket | null> {
@@ -216,7 +395,12 @@ export class TicketService {
     return ticket ? toTicket(ticket) : null;
   }
 
-  async create(data: CreateTicketDto, companyId: string, locationId: string): Promise<Ticket> {
+  async create(
+    data: CreateTicketDto,
+    companyId: string,
+    locationId: string,
+    actorId: string | null = null
+  ): Promise<Ticket> {
     // Verify location belongs to company
     const location = await db
       .selectFrom("locations")
@@ -271,6 +455,28 @@ export class TicketService {
       assetId = asset.id;
     }
 
+    // A ticket can start in any status the company workflow defines
+    if (data.status) {
+      await workflowService.assertStatusExists(companyId, data.status);
+    }
+
+    // Warranty claims link back to the repair (and its invoice) they are claimed against
+    const ticketType = data.ticketType || "repair";
+    let originalTicketId: string | null = null;
+    let originalInvoiceId: string | null = null;
+    if (ticketType === "warranty_claim") {
+      if (!data.originalTicketId) {
+        throw new BadRequestError("A warranty claim must name the original ticket");
+      }
+      const claim = await warrantyService.resolveClaim(
+        data.originalTicketId,
+        data.customerId,
+        companyId
+      );
+      originalTicketId = claim.originalTicketId;
+      originalInvoiceId = claim.originalInvoiceId;
+    }
+
     // Generate unique ticket number for this company
     const ticketNumber = await generateTicketNumber(companyId);
 
@@ -283,6 +489,9 @@ export class TicketService {
         asset_id: assetId,
         checklist_template_id: checklistTemplateId,
         ticket_number: ticketNumber,
+        ticket_type: ticketType,
+        original_ticket_id: originalTicketId,
+        original_invoice_id: originalInvoiceId,
         customer_id: data.customerId,
         technician_id: data.technicianId || null,
         status: data.status || "new",
@@ -300,6 +509,7 @@ export class TicketService {
         completed_date: data.completedDate
           ? new Date(data.completedDate).toISOString()
           : null,
+        first_assigned_at: data.technicianId ? sql`now()` : null,
         created_at: sql`now()`,
         updated_at: sql`now()`,
         deleted_at: null,
@@ -307,10 +517,26 @@ export class TicketService {
       .returningAll()
       .executeTakeFirstOrThrow();
 
+    await ticketEventService.record(companyId, ticket.id, actorId, [
+      { eventType: "created", field: "status", newValue: ticket.status },
+    ]);
+
     return toTicket(ticket);
   }
 
-  async update(id: string, data: UpdateTicketDto, companyId: string): Promise<Ticket | null> {
+  async update(
+    id: string,
+    data: UpdateTicketDto,
+    companyId: string,
+    actorId: string | null = null,
+    roles?: UserRole[]
+  ): Promise<Ticket | null> {
+    // Snapshot the ticket before changing it so the event history can record old values
+    const current = await this.findById(id, companyId);
+    if (!current) {
+      return null;
+    }
+
     let updateQuery = db
       .updateTable("tickets")
       .set({
@@ -330,9 +556,8 @@ export class TicketService {
         if (!asset) {
           throw new Error("Asset not found or does not belong to company");
         }
-        // Get current ticket to check customer
-        const currentTicket = await this.findById(id, companyId);
-        if (currentTicket && asset.customerId !== currentTicket.customerId) {
+        // Check asset against the ticket's customer
+        if (asset.customerId !== current.customerId) {
           throw new Error("Asset does not belong to the ticket's customer");
         }
       }
@@ -375,16 +600,32 @@ export class TicketService {
     }
     if (data.technicianId !== undefined) {
       updateQuery = updateQuery.set({ technician_id: data.technicianId || null });
+      if (data.technicianId) {
+        updateQuery = updateQuery.set({
+          first_assigned_at: sql`COALESCE(first_assigned_at, now())`,
+        });
+      }
     }
     if (data.status !== undefined) {
-      // Validate checklist completion if moving to completed status
-      if (data.status === "completed") {
-        const validation = await diagnosticChecklistService.validateRequiredItems(id, companyId);
-        if (!validation.valid) {
-          throw new BadRequestError(
-            `Cannot complete ticket. Required checklist items are missing: ${validation.missingItems.join(", ")}`
-          );
-        }
+      if (data.status !== current.status) {
+        // Conditions are checked against the ticket as it will be after this update
+        await workflowService.validateTransition(
+          companyId,
+          {
+            id,
+            status: current.status,
+            technicianId:
+              data.technicianId !== undefined ? data.technicianId || null : current.technicianId,
+            diagnosticNotes:
+              data.diagnosticNotes !== undefined
+                ? data.diagnosticNotes || null
+                : current.diagnosticNotes,
+            repairNotes:
+              data.repairNotes !== undefined ? data.repairNotes || null : current.repairNotes,
+          },
+          data.status,
+          roles
+        );
       }
       updateQuery = updateQuery.set({ status: data.status });
     }
@@ -431,14 +672,22 @@ export class TicketService {
       .returningAll()
       .executeTakeFirst();
 
-    const ticket = updated ? toTicket(updated) : null;
+    let ticket = updated ? toTicket(updated) : null;
+
+    if (ticket) {
+      await ticketEventService.record(companyId, id, actorId, diffTicket(current, ticket));
+      await this.releasePartsIfCancelled(current, ticket, companyId);
+      ticket = await this.startWarrantyIfCompleted(current, ticket, companyId);
+    }
 
-    // Send email notification if ticket was updated and status changed
+    // Email (and text, if they opted in) the customer if the ticket was updated and status changed
     if (ticket && data.status !== undefined) {
       try {
         const customer = await customerService.findById(ticket.customerId, companyId);
         if (customer) {
-          await emailService.sendTicketStatusEmail(companyId, ticket, customer);
+          const comments = await ticketCommentService.findCustomerVisible(ticket.id, companyId);
+          await emailService.sendTicketStatusEmail(companyId, ticket, customer, comments);
+          await smsService.sendTicketStatusSms(companyId, ticket, customer);
         }
       } catch {
         // Don't fail ticket update if email fails - just log error
@@ -449,7 +698,7 @@ export class TicketService {
     return ticket;
   }
 
-  async delete(id: string, companyId: string): Promise<boolean> {
+  async delete(id: string, companyId: string, actorId: string | null = null): Promise<boolean> {
     const result = await db
       .updateTable("tickets")
       .set({
@@ -462,37 +711,99 @@ export class TicketService {
       .returningAll()
       .executeTakeFirst();
 
+    if (result) {
+      await ticketEventService.record(companyId, id, actorId, [{ eventType: "deleted" }]);
+      await partReservationService.releaseForTicket(id, companyId);
+    }
+
     return !!result;
   }
 
-  async assignTechnician(id: string, technicianId: string | null, companyId: string): Promise<Ticket | null> {
-    const updated = await db
+  /**
+   * Assign (or unassign, with null) a ticket's technician
+   * Pass expectedTechnicianId to refuse the change if someone else reassigned the ticket first
+   */
+  async assignTechnician(
+    id: string,
+    technicianId: string | null,
+    companyId: string,
+    actorId: string | null = null,
+    expectedTechnicianId?: string | null
+  ): Promise<Ticket | null> {
+    const current = await this.findById(id, companyId);
+    if (!current) {
+      return null;
+    }
+
+    let updateQuery = db
       .updateTable("tickets")
       .set({
         technician_id: technicianId,
+        first_assigned_at: technicianId
+          ? sql`COALESCE(first_assigned_at, now())`
+          : sql`first_assigned_at`,
         updated_at: sql`now()`,
       })
       .where("id", "=", id)
       .where("company_id", "=", companyId)
-      .where("deleted_at", "is", null)
-      .returningAll()
-      .executeTakeFirst();
+      .where("deleted_at", "is", null);
+
+    // Checked in the update itself so two simultaneous assignments can't both succeed
+    if (expectedTechnicianId !== undefined) {
+      updateQuery =
+        expectedTechnicianId === null
+          ? updateQuery.where("technician_id", "is", null)
+          : updateQuery.where("technician_id", "=", expectedTechnicianId);
+    }
+
+    const updated = await updateQuery.returningAll().executeTakeFirst();
+
+    if (!updated && expectedTechnicianId !== undefined) {
+      throw new ConflictError("Ticket was reassigned by someone else. Refresh and try again.");
+    }
+
+    if (updated && current.technicianId !== updated.technician_id) {
+      await ticketEventService.record(companyId, id, actorId, [
+        {
+          eventType: "technician_assigned",
+          field: "technicianId",
+          oldValue: current.technicianId,
+          newValue: updated.technician_id,
+        },
+      ]);
+    }
 
     return updated ? toTicket(updated) : null;
   }
 
-  async updateStatus(id: string, status: TicketStatus, companyId: string): Promise<Ticket | null> {
-    // Validate checklist completion if moving to completed status
-    if (status === "completed") {
-      const validation = await diagnosticChecklistService.validateRequiredItems(id, companyId);
-      if (!validation.valid) {
-        throw new BadRequestError(
-          `Cannot complete ticket. Required checklist items are missing: ${validation.missingItems.join(", ")}`
-        );
-      }
+  /**
+   * Move a ticket to a new status, enforcing the company workflow
+   * Pass the acting user's roles to also check who may make the change
+   * Pass expectedStatus to refuse the change if someone else moved the ticket first
+   */
+  async updateStatus(
+    id: string,
+    status: TicketStatus,
+    companyId: string,
+    actorId: string | null = null,
+    roles?: UserRole[],
+    notifyCustomer = true,
+    expectedStatus?: TicketStatus
+  ): Promise<Ticket | null> {
+    const current = await this.findById(id, companyId);
+    if (!current) {
+      return null;
     }
 
-    const updated = await db
+    if (expectedStatus !== undefined && current.status !== expectedStatus) {
+      throw new ConflictError("Ticket status was changed by someone else. Refresh and try again.");
+    }
+
+    if (status !== current.status) {
+      await workflowService.validateTransition(companyId, current, status, roles);
+    }
+
+    let updateQuery = db
       .updateTable("tickets")
       .set({
         status: status,
@@ -500,18 +811,37 @@ export class TicketService {
       })
       .where("id", "=", id)
       .where("company_id", "=", companyId)
-      .where("deleted_at", "is", null)
-      .returningAll()
-      .executeTakeFirst();
+      .where("deleted_at", "is", null);
 
-    const ticket = updated ? toTicket(updated) : null;
+    // Re-checked in the update so a change that lands during validation still conflicts
+    if (expectedStatus !== undefined) {
+      updateQuery = updateQuery.where("status", "=", expectedStatus);
+    }
 
-    // Send email notification if ticket was updated and status changed
-    if (ticket) {
+    const updated = await updateQuery.returningAll().executeTakeFirst();
+
+    if (!updated && expectedStatus !== undefined) {
+      throw new ConflictError("Ticket status was changed by someone else. Refresh and try again.");
+    }
+
+    let ticket = updated ? toTicket(updated) : null;
+
+    if (ticket && current.status !== ticket.status) {
+      await ticketEventService.record(companyId, id, actorId, [
+        { eventType: "status_changed", field: "status", oldValue: current.status, newValue: ticket.status },
+      ]);
+      await this.releasePartsIfCancelled(current, ticket, companyId);
+      ticket = await this.startWarrantyIfCompleted(current, ticket, companyId);
+    }
+
+    // Email (and text, if they opted in) the customer if the ticket was updated and status changed
+    if (ticket && notifyCustomer) {
       try {
         const customer = await customerService.findById(ticket.customerId, companyId);
         if (customer) {
-          await emailService.sendTicketStatusEmail(companyId, ticket, customer);
+          const comments = await ticketCommentService.findCustomerVisible(ticket.id, companyId);
+          await emailService.sendTicketStatusEmail(companyId, ticket, customer, comments);
+          await smsService.sendTicketStatusSms(companyId, ticket, customer);
         }
       } catch {
         // Don't fail ticket update if email fails - just log error
@@ -526,7 +856,12 @@ export class TicketService {
     return diagnosticChecklistService.validateRequiredItems(ticketId, companyId);
   }
 
-  async addDiagnosticNotes(id: string, notes: string, companyId: string): Promise<Ticket | null> {
+  async addDiagnosticNotes(
+    id: string,
+    notes: string,
+    companyId: string,
+    actorId: string | null = null
+  ): Promise<Ticket | null> {
     // Get current ticket to append or replace notes
     const current = await this.findById(id, companyId);
     if (!current) {
@@ -550,10 +885,26 @@ export class TicketService {
       .returningAll()
       .executeTakeFirst();
 
+    if (updated) {
+      await ticketEventService.record(companyId, id, actorId, [
+        {
+          eventType: "diagnostic_notes_added",
+          field: "diagnosticNotes",
+          oldValue: current.diagnosticNotes,
+          newValue: notes,
+        },
+      ]);
+    }
+
     return updated ? toTicket(updated) : null;
   }
 
-  async addRepairNotes(id: string, notes: string, companyId: string): Promise<Ticket | null> {
+  async addRepairNotes(
+    id: string,
+    notes: string,
+    companyId: string,
+    actorId: string | null = null
+  ): Promise<Ticket | null> {
     // Get current ticket to append or replace notes
     const current = await this.findById(id, companyId);
     if (!current) {
@@ -577,8 +928,40 @@ export class TicketService {
       .returningAll()
       .executeTakeFirst();
 
+    if (updated) {
+      await ticketEventService.record(companyId, id, actorId, [
+        {
+          eventType: "repair_notes_added",
+          field: "repairNotes",
+          oldValue: current.repairNotes,
+          newValue: notes,
+        },
+      ]);
+    }
+
     return updated ? toTicket(updated) : null;
   }
+
+  // Parts held for a cancelled repair go back to available stock
+  private async releasePartsIfCancelled(previous: Ticket, ticket: Ticket, companyId: string) {
+    if (ticket.status === "cancelled" && previous.status !== "cancelled") {
+      await partReservationService.releaseForTicket(ticket.id, companyId);
+    }
+  }
+
+  // Completing a repair starts its warranty; returns the ticket with the warranty filled in
+  private async startWarrantyIfCompleted(
+    previous: Ticket,
+    ticket: Ticket,
+    companyId: string
+  ): Promise<Ticket> {
+    if (ticket.status !== "completed" || previous.status === "completed") {
+      return ticket;
+    }
+
+    await warrantyService.startForTicket(ticket.id, companyId);
+    return (await this.findById(ticket.id, companyId)) ?? ticket;
+  }
 }
 
 export default new TicketService();
@@ -0,0 +1,511 @@
+// src/services/time-entry.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from "../config/errors.js";
+import invoiceService, { InvoiceItem } from "./invoice.service.js";
+import laborService from "./labor.service.js";
+import ticketService from "./ticket.service.js";
+
+// Input DTOs
+export interface StartTimerDto {
+  laborCategoryId?: string | null;
+  notes?: string | null;
+}
+
+export interface LogTimeEntryDto {
+  // Defaults to the user logging the time
+  userId?: string;
+  laborCategoryId?: string | null;
+  // Defaults to durationMinutes before now
+  startedAt?: string;
+  durationMinutes: number;
+  notes?: string | null;
+}
+
+export interface UpdateTimeEntryDto {
+  laborCategoryId?: string | null;
+  startedAt?: string;
+  durationMinutes?: number;
+  notes?: string | null;
+}
+
+// Who is changing an entry; technicians may only change their own time
+export interface TimeEntryActor {
+  id: string;
+  canManageOthers: boolean;
+}
+
+// Output types
+export interface TimeEntry {
+  id: string;
+  ticketId: string;
+  userId: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  laborCategoryId: string | null;
+  laborCategoryName: string | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  durationMinutes: number | null;
+  notes: string | null;
+  invoiceItemId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TicketTimeSummary {
+  entries: TimeEntry[];
+  totalMinutes: number;
+  billedMinutes: number;
+  unbilledMinutes: number;
+  runningTimers: number;
+}
+
+export interface BilledLabor {
+  items: InvoiceItem[];
+  minutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Same formatting everywhere hours appear on an invoice
+function formatHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+const timeEntryColumns = [
+  "ticket_time_entries.id",
+  "ticket_time_entries.ticket_id",
+  "ticket_time_entries.user_id",
+  "ticket_time_entries.labor_category_id",
+  "ticket_time_entries.started_at",
+  "ticket_time_entries.ended_at",
+  "ticket_time_entries.duration_minutes",
+  "ticket_time_entries.notes",
+  "ticket_time_entries.invoice_item_id",
+  "ticket_time_entries.created_at",
+  "ticket_time_entries.updated_at",
+  "users.first_name",
+  "users.last_name",
+  "labor_categories.name as labor_category_name",
+] as const;
+
+function toTimeEntry(entry: {
+  id: string;
+  ticket_id: string;
+  user_id: string;
+  labor_category_id: string | null;
+  started_at: Date;
+  ended_at: Date | null;
+  duration_minutes: number | null;
+  notes: string | null;
+  invoice_item_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  first_name: string | null;
+  last_name: string | null;
+  labor_category_name: string | null;
+}): TimeEntry {
+  return {
+    id: entry.id,
+    ticketId: entry.ticket_id,
+    userId: entry.user_id,
+    user: entry.first_name
+      ? { id: entry.user_id, firstName: entry.first_name, lastName: entry.last_name || "" }
+      : null,
+    laborCategoryId: entry.labor_category_id,
+    laborCategoryName: entry.labor_category_name,
+    startedAt: entry.started_at,
+    endedAt: entry.ended_at,
+    durationMinutes: entry.duration_minutes,
+    notes: entry.notes,
+    invoiceItemId: entry.invoice_item_id,
+    createdAt: entry.created_at,
+    updatedAt: entry.updated_at,
+  };
+}
+
+export class TimeEntryService {
+  /**
+   * Get every entry on a ticket, newest first, with billed and unbilled totals
+   */
+  async findByTicketId(ticketId: string, companyId: string): Promise<TicketTimeSummary> {
+    const rows = await db
+      .selectFrom("ticket_time_entries")
+      .leftJoin("users", "users.id", "ticket_time_entries.user_id")
+      .leftJoin("labor_categories", "labor_categories.id", "ticket_time_entries.labor_category_id")
+      .select(timeEntryColumns)
+      .where("ticket_time_entries.ticket_id", "=", ticketId)
+      .where("ticket_time_entries.company_id", "=", companyId)
+      .orderBy("ticket_time_entries.started_at", "desc")
+      .execute();
+
+    const entries = rows.map(toTimeEntry);
+    const stopped = entries.filter((entry) => entry.durationMinutes !== null);
+    const sum = (list: TimeEntry[]) =>
+      list.reduce((total, entry) => total + (entry.durationMinutes || 0), 0);
+
+    return {
+      entries,
+      totalMinutes: sum(stopped),
+      billedMinutes: sum(stopped.filter((entry) => entry.invoiceItemId)),
+      unbilledMinutes: sum(stopped.filter((entry) => !entry.invoiceItemId)),
+      runningTimers: entries.length - stopped.length,
+    };
+  }
+
+  /**
+   * Start a timer for the user on a ticket
+   * A user can only run one timer at a time, across all tickets
+   */
+  async startTimer(
+    ticketId: string,
+    companyId: string,
+    userId: string,
+    data: StartTimerDto
+  ): Promise<TimeEntry> {
+    await this.assertTicketExists(ticketId, companyId);
+    await this.assertCategoryExists(data.laborCategoryId, companyId);
+
+    const running = await db
+      .selectFrom("ticket_time_entries")
+      .innerJoin("tickets", "tickets.id", "ticket_time_entries.ticket_id")
+      .select("tickets.ticket_number")
+      .where("ticket_time_entries.user_id", "=", userId)
+      .where("ticket_time_entries.ended_at", "is", null)
+      .executeTakeFirst();
+    if (running) {
+      throw new ConflictError(
+        `You already have a timer running on ticket ${running.ticket_number}. Stop it first.`
+      );
+    }
+
+    const entry = await db
+      .insertInto("ticket_time_entries")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        ticket_id: ticketId,
+        user_id: userId,
+        labor_category_id: data.laborCategoryId || null,
+        started_at: sql`now()`,
+        notes: data.notes || null,
+        created_by: userId,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .returning("id")
+      .executeTakeFirstOrThrow();
+
+    return this.findEntry(entry.id, ticketId, companyId);
+  }
+
+  /**
+   * Stop a running timer, recording the minutes worked (at least one)
+   */
+  async stopTimer(
+    entryId: string,
+    ticketId: string,
+    companyId: string,
+    actor: TimeEntryActor
+  ): Promise<TimeEntry> {
+    const entry = await this.findEntry(entryId, ticketId, companyId);
+    this.assertCanChange(entry, actor);
+    if (entry.endedAt) {
+      throw new BadRequestError("This timer has already been stopped");
+    }
+
+    const endedAt = new Date();
+    const durationMinutes = Math.max(
+      1,
+      Math.round((endedAt.getTime() - new Date(entry.startedAt).getTime()) / MINUTE_MS)
+    );
+
+    await db
+      .updateTable("ticket_time_entries")
+      .set({ ended_at: endedAt, duration_minutes: durationMinutes, updated_at: sql`now()` })
+      .where("id", "=", entryId)
+      .where("company_id", "=", companyId)
+      .where("ended_at", "is", null)
+      .execute();
+
+    return this.findEntry(entryId, ticketId, companyId);
+  }
+
+  /**
+   * Log time after the fact
+   * Managers can log time for another user; everyone else logs their own
+   */
+  async logEntry(
+    ticketId: string,
+    companyId: string,
+    data: LogTimeEntryDto,
+    actor: TimeEntryActor
+  ): Promise<TimeEntry> {
+    await this.assertTicketExists(ticketId, companyId);
+    await this.assertCategoryExists(data.laborCategoryId, companyId);
+
+    const userId = data.userId || actor.id;
+    if (userId !== actor.id) {
+      if (!actor.canManageOthers) {
+        throw new ForbiddenError("You can only log your own time");
+      }
+      const user = await db
+        .selectFrom("users")
+        .select("id")
+        .where("id", "=", userId)
+        .where("company_id", "=", companyId)
+        .where("deleted_at", "is", null)
+        .executeTakeFirst();
+      if (!user) {
+        throw new BadRequestError("User must belong to the same company");
+      }
+    }
+
+    const startedAt = data.startedAt
+      ? new Date(data.startedAt)
+      : new Date(Date.now() - data.durationMinutes * MINUTE_MS);
+    const endedAt = new Date(startedAt.getTime() + data.durationMinutes * MINUTE_MS);
+
+    const entry = await db
+      .insertInto("ticket_time_entries")
+      .values({
+        id: uuidv4(),
+        company_id: companyId,
+        ticket_id: ticketId,
+        user_id: userId,
+        labor_category_id: data.laborCategoryId || null,
+        started_at: startedAt.toISOString(),
+        ended_at: endedAt.toISOString(),
+        duration_minutes: data.durationMinutes,
+        notes: data.notes || null,
+        created_by: actor.id,
+        created_at: sql`now()`,
+        updated_at: sql`now()`,
+      })
+      .returning("id")
+      .executeTakeFirstOrThrow();
+
+    return this.findEntry(entry.id, ticketId, companyId);
+  }
+
+  /**
+   * Change an entry that hasn't been billed yet
+   * A running timer's start and duration can't be edited until it is stopped
+   */
+  async updateEntry(
+    entryId: string,
+    ticketId: string,
+    companyId: string,
+    data: UpdateTimeEntryDto,
+    actor: TimeEntryActor
+  ): Promise<TimeEntry> {
+    const entry = await this.findEntry(entryId, ticketId, companyId);
+    this.assertCanChange(entry, actor);
+    this.assertNotBilled(entry);
+    await this.assertCategoryExists(data.laborCategoryId, companyId);
+
+    let updateQuery = db
+      .updateTable("ticket_time_entries")
+      .set({ updated_at: sql`now()` })
+      .where("id", "=", entryId)
+      .where("company_id", "=", companyId)
+      .where("invoice_item_id", "is", null);
+
+    if (data.laborCategoryId !== undefined) {
+      updateQuery = updateQuery.set({ labor_category_id: data.laborCategoryId });
+    }
+    if (data.notes !== undefined) {
+      updateQuery = updateQuery.set({ notes: data.notes || null });
+    }
+    if (data.startedAt !== undefined || data.durationMinutes !== undefined) {
+      if (!entry.endedAt) {
+        throw new BadRequestError("Stop the timer before changing its time");
+      }
+      const startedAt = new Date(data.startedAt ?? entry.startedAt);
+      const durationMinutes = data.durationMinutes ?? entry.durationMinutes!;
+      updateQuery = updateQuery.set({
+        started_at: startedAt,
+        ended_at: new Date(startedAt.getTime() + durationMinutes * MINUTE_MS),
+        duration_minutes: durationMinutes,
+      });
+    }
+
+    await updateQuery.execute();
+    return this.findEntry(entryId, ticketId, companyId);
+  }
+
+  async deleteEntry(
+    entryId: string,
+    ticketId: string,
+    companyId: string,
+    actor: TimeEntryActor
+  ): Promise<void> {
+    const entry = await this.findEntry(entryId, ticketId, companyId);
+    this.assertCanChange(entry, actor);
+    this.assertNotBilled(entry);
+
+    await db
+      .deleteFrom("ticket_time_entries")
+      .where("id", "=", entryId)
+      .where("company_id", "=", companyId)
+      .where("invoice_item_id", "is", null)
+      .execute();
+  }
+
+  /**
+   * Add the ticket's unbilled time to its invoice as labor lines, one per labor category
+   * Each line is a single service item priced at hours x the category's hourly rate
+   * (or the company default); running timers are left for a later invoice.
+   */
+  async billToInvoice(invoiceId: string, companyId: string): Promise<BilledLabor> {
+    const invoice = await invoiceService.findById(invoiceId, companyId);
+    if (!invoice) {
+      throw new NotFoundError("Invoice not found");
+    }
+    if (!invoice.ticketId) {
+      throw new BadRequestError("Invoice is not linked to a ticket");
+    }
+    if (invoice.status === "paid" || invoice.status === "cancelled") {
+      throw new BadRequestError("Labor can only be added to unpaid invoices");
+    }
+    const ticketId = invoice.ticketId;
+
+    // Hold the unbilled entries until they're marked, so a second request at the same time waits
+    // and then finds nothing left to bill
+    return db.transaction().execute(async (trx) => {
+      const entries = await trx
+        .selectFrom("ticket_time_entries")
+        .leftJoin("labor_categories", "labor_categories.id", "ticket_time_entries.labor_category_id")
+        .select([
+          "ticket_time_entries.id",
+          "ticket_time_entries.labor_category_id",
+          "ticket_time_entries.duration_minutes",
+          "labor_categories.name",
+          "labor_categories.hourly_rate",
+        ])
+        .where("ticket_time_entries.ticket_id", "=", ticketId)
+        .where("ticket_time_entries.company_id", "=", companyId)
+        .where("ticket_time_entries.ended_at", "is not", null)
+        .where("ticket_time_entries.invoice_item_id", "is", null)
+        .forUpdate("ticket_time_entries")
+        .execute();
+      if (entries.length === 0) {
+        throw new BadRequestError("There is no unbilled time on this ticket");
+      }
+
+      // Labor on a warranty claim is covered by the original repair's warranty
+      const ticket = await ticketService.findById(ticketId, companyId);
+      const isWarrantyClaim = ticket?.ticketType === "warranty_claim";
+
+      // Price every group before adding any lines so a missing rate doesn't leave a partial bill
+      const defaultRate = await laborService.getDefaultRate(companyId);
+      const groups = new Map<string, { name: string; rate: number; minutes: number; entryIds: string[] }>();
+      for (const entry of entries) {
+        const key = (entry.labor_category_id as string | null) || "general";
+        const name = entry.name || "General";
+        const rate = isWarrantyClaim
+          ? 0
+          : entry.hourly_rate !== null
+            ? Number(entry.hourly_rate)
+            : defaultRate;
+        if (rate === null) {
+          throw new BadRequestError(
+            `Set a default labor rate or an hourly rate for ${name} before billing time`
+          );
+        }
+        const group = groups.get(key) || { name, rate, minutes: 0, entryIds: [] };
+        group.minutes += entry.duration_minutes || 0;
+        group.entryIds.push(entry.id as string);
+        groups.set(key, group);
+      }
+
+      const items: InvoiceItem[] = [];
+      const billed: { itemId: string; entryIds: string[] }[] = [];
+      let minutes = 0;
+      try {
+        for (const group of groups.values()) {
+          const item = await invoiceService.createInvoiceItem(
+            {
+              invoiceId,
+              description: isWarrantyClaim
+                ? `Labor: ${group.name} (${formatHours(group.minutes)} h, warranty)`
+                : `Labor: ${group.name} (${formatHours(group.minutes)} h @ ${group.rate.toFixed(2)}/h)`,
+              quantity: 1,
+              unitPrice: Math.round((group.minutes / 60) * group.rate * 100) / 100,
+              type: "service",
+            },
+            companyId
+          );
+          items.push(item);
+          billed.push({ itemId: item.id, entryIds: group.entryIds });
+          minutes += group.minutes;
+        }
+      } catch (error) {
+        // The entries stay unbilled, so take off any labor lines already added
+        for (const item of items) {
+          await invoiceService.deleteInvoiceItem(invoiceId, item.id, companyId);
+        }
+        throw error;
+      }
+
+      for (const { itemId, entryIds } of billed) {
+        await trx
+          .updateTable("ticket_time_entries")
+          .set({ invoice_item_id: itemId, updated_at: sql`now()` })
+          .where("id", "in", entryIds)
+          .execute();
+      }
+
+      return { items, minutes };
+    });
+  }
+
+  private async findEntry(entryId: string, ticketId: string, companyId: string): Promise<TimeEntry> {
+    const entry = await db
+      .selectFrom("ticket_time_entries")
+      .leftJoin("users", "users.id", "ticket_time_entries.user_id")
+      .leftJoin("labor_categories", "labor_categories.id", "ticket_time_entries.labor_category_id")
+      .select(timeEntryColumns)
+      .where("ticket_time_entries.id", "=", entryId)
+      .where("ticket_time_entries.ticket_id", "=", ticketId)
+      .where("ticket_time_entries.company_id", "=", companyId)
+      .executeTakeFirst();
+    if (!entry) {
+      throw new NotFoundError("Time entry not found");
+    }
+
+    return toTimeEntry(entry);
+  }
+
+  private async assertTicketExists(ticketId: string, companyId: string) {
+    const ticket = await ticketService.findById(ticketId, companyId);
+    if (!ticket) {
+      throw new NotFoundError("Ticket not found");
+    }
+  }
+
+  private async assertCategoryExists(laborCategoryId: string | null | undefined, companyId: string) {
+    if (laborCategoryId && !(await laborService.findCategoryById(laborCategoryId, companyId))) {
+      throw new BadRequestError("Labor category not found");
+    }
+  }
+
+  private assertCanChange(entry: TimeEntry, actor: TimeEntryActor) {
+    if (entry.userId !== actor.id && !actor.canManageOthers) {
+      throw new ForbiddenError("You can only change your own time entries");
+    }
+  }
+
+  private assertNotBilled(entry: TimeEntry) {
+    if (entry.invoiceItemId) {
+      throw new BadRequestError("This time has already been billed. Remove the labor line from the invoice first.");
+    }
+  }
+}
+
+export default new TimeEntryService();
@@ -0,0 +1,280 @@
+// src/services/warranty.service.ts
+import { sql } from "kysely";
+import { db } from "../config/connection.js";
+import { BadRequestError, NotFoundError } from "../config/errors.js";
+import companyService from "./company.service.js";
+
+// Output types
+export interface WarrantySettings {
+  // Used when none of a repair's parts or kinds of work carry a warranty of their own
+  defaultWarrantyDays: number | null;
+}
+
+export interface WarrantyCoverage {
+  ticketId: string;
+  ticketNumber: string;
+  deviceType: string;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  serialNumber: string | null;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  warrantyDays: number;
+  warrantyStartsAt: Date;
+  warrantyExpiresAt: Date;
+  isActive: boolean;
+}
+
+export interface WarrantyClaimLink {
+  originalTicketId: string;
+  originalInvoiceId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WarrantyService {
+  async getSettings(companyId: string): Promise<WarrantySettings> {
+    return { defaultWarrantyDays: await this.getDefaultDays(companyId) };
+  }
+
+  /**
+   * Get the company's default repair warranty in days
+   * Stored in the company settings; null means repairs have no warranty unless a part or
+   * labor category gives one
+   */
+  async getDefaultDays(companyId: string): Promise<number | null> {
+    const company = await companyService.findById(companyId);
+    const days = company?.settings?.warrantyDays;
+    return typeof days === "number" ? days : null;
+  }
+
+  async setDefaultDays(companyId: string, days: number | null): Promise<number | null> {
+    const company = await companyService.findById(companyId);
+    if (!company) {
+      throw new NotFoundError("Company not found");
+    }
+
+    const updated = await companyService.update(companyId, {
+      settings: { ...(company.settings || {}), warrantyDays: days },
+    });
+    if (!updated) {
+      throw new Error("Failed to update company settings");
+    }
+
+    return days;
+  }
+
+  /**
+   * Work out how many days a repair is under warranty
+   * The longest term among the parts used and the kinds of work logged wins; the company
+   * default applies when none of them carry a term.
+   */
+  async getTermForTicket(ticketId: string, companyId: string): Promise<number | null> {
+    const [invoicedParts, reservedParts, labor] = await Promise.all([
+      db
+        .selectFrom("invoice_items")
+        .innerJoin("invoices", "invoices.id", "invoice_items.invoice_id")
+        .innerJoin("inventory_items", "inventory_items.id", "invoice_items.inventory_item_id")
+        .select(sql<number | null>`MAX(inventory_items.warranty_days)`.as("days"))
+        .where("invoices.ticket_id", "=", ticketId)
+        .where("invoices.company_id", "=", companyId)
+        .where("invoices.status", "!=", "cancelled")
+        .where("invoices.deleted_at", "is", null)
+        .executeTakeFirst(),
+      db
+        .selectFrom("ticket_part_reservations")
+        .innerJoin("inventory_items", "inventory_items.id", "ticket_part_reservations.inventory_item_id")
+        .select(sql<number | null>`MAX(inventory_items.warranty_days)`.as("days"))
+        .where("ticket_part_reservations.ticket_id", "=", ticketId)
+        .where("ticket_part_reservations.company_id", "=", companyId)
+        .where("ticket_part_reservations.status", "!=", "released")
+        .executeTakeFirst(),
+      db
+        .selectFrom("ticket_time_entries")
+        .innerJoin("labor_categories", "labor_categories.id", "ticket_time_entries.labor_category_id")
+        .select(sql<number | null>`MAX(labor_categories.warranty_days)`.as("days"))
+        .where("ticket_time_entries.ticket_id", "=", ticketId)
+        .where("ticket_time_entries.company_id", "=", companyId)
+        .executeTakeFirst(),
+    ]);
+
+    const terms = [invoicedParts?.days, reservedParts?.days, labor?.days]
+      .filter((days): days is number => days !== null && days !== undefined)
+      .map(Number);
+    if (terms.length > 0) {
+      return Math.max(...terms);
+    }
+
+    return this.getDefaultDays(companyId);
+  }
+
+  /**
+   * Start a repair's warranty when the ticket is completed
+   * Runs from the ticket's completed date (or now) and is copied onto the ticket's invoices.
+   * Warranty claims don't start a new warranty; the original repair's still applies.
+   */
+  async startForTicket(ticketId: string, companyId: string): Promise<void> {
+    const ticket = await db
+      .selectFrom("tickets")
+      .select(["ticket_type", "completed_date"])
+      .where("id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!ticket || ticket.ticket_type === "warranty_claim") {
+      return;
+    }
+
+    await this.apply(ticketId, companyId, ticket.completed_date ?? new Date());
+  }
+
+  /**
+   * Recalculate a started warranty after parts or invoices are added to the repair
+   */
+  async refreshForTicket(ticketId: string, companyId: string): Promise<void> {
+    const ticket = await db
+      .selectFrom("tickets")
+      .select(["ticket_type", "warranty_starts_at"])
+      .where("id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!ticket || ticket.ticket_type === "warranty_claim" || !ticket.warranty_starts_at) {
+      return;
+    }
+
+    await this.apply(ticketId, companyId, ticket.warranty_starts_at);
+  }
+
+  /**
+   * List a customer's completed repairs that carry a warranty, newest first
+   */
+  async findCoverage(customerId: string, companyId: string): Promise<WarrantyCoverage[]> {
+    const tickets = await db
+      .selectFrom("tickets")
+      .select([
+        "id",
+        "ticket_number",
+        "device_type",
+        "device_brand",
+        "device_model",
+        "serial_number",
+        "warranty_days",
+        "warranty_starts_at",
+        "warranty_expires_at",
+      ])
+      .where("customer_id", "=", customerId)
+      .where("company_id", "=", companyId)
+      .where("ticket_type", "=", "repair")
+      .where("warranty_expires_at", "is not", null)
+      .where("deleted_at", "is", null)
+      .orderBy("warranty_starts_at", "desc")
+      .execute();
+
+    const now = Date.now();
+    const coverage: WarrantyCoverage[] = [];
+    for (const ticket of tickets) {
+      const invoice = await this.findRepairInvoice(ticket.id, companyId);
+      const expiresAt = ticket.warranty_expires_at as Date;
+      coverage.push({
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticket_number,
+        deviceType: ticket.device_type,
+        deviceBrand: ticket.device_brand,
+        deviceModel: ticket.device_model,
+        serialNumber: ticket.serial_number,
+        invoiceId: invoice?.id ?? null,
+        invoiceNumber: invoice?.invoice_number ?? null,
+        warrantyDays: ticket.warranty_days ?? 0,
+        warrantyStartsAt: ticket.warranty_starts_at as Date,
+        warrantyExpiresAt: expiresAt,
+        isActive: expiresAt.getTime() >= now,
+      });
+    }
+
+    return coverage;
+  }
+
+  /**
+   * Check that a repair can be claimed against and find the invoice the claim links to
+   */
+  async resolveClaim(
+    originalTicketId: string,
+    customerId: string,
+    companyId: string
+  ): Promise<WarrantyClaimLink> {
+    const original = await db
+      .selectFrom("tickets")
+      .select(["id", "customer_id", "ticket_type", "ticket_number", "warranty_expires_at"])
+      .where("id", "=", originalTicketId)
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirst();
+    if (!original) {
+      throw new BadRequestError("Original ticket not found");
+    }
+    if (original.customer_id !== customerId) {
+      throw new BadRequestError("Original ticket belongs to a different customer");
+    }
+    if (original.ticket_type === "warranty_claim") {
+      throw new BadRequestError("Claim against the original repair, not an earlier warranty claim");
+    }
+    if (!original.warranty_expires_at) {
+      throw new BadRequestError(`Ticket ${original.ticket_number} has no warranty`);
+    }
+    if (original.warranty_expires_at.getTime() < Date.now()) {
+      throw new BadRequestError(
+        `The warranty on ticket ${original.ticket_number} expired on ${original.warranty_expires_at
+          .toISOString()
+          .slice(0, 10)}`
+      );
+    }
+
+    const invoice = await this.findRepairInvoice(original.id, companyId);
+    return { originalTicketId: original.id, originalInvoiceId: invoice?.id ?? null };
+  }
+
+  private async apply(ticketId: string, companyId: string, startsAt: Date): Promise<void> {
+    const days = await this.getTermForTicket(ticketId, companyId);
+    const expiresAt = days !== null ? new Date(startsAt.getTime() + days * DAY_MS) : null;
+
+    await db
+      .updateTable("tickets")
+      .set({
+        warranty_days: days,
+        warranty_starts_at: startsAt.toISOString(),
+        warranty_expires_at: expiresAt ? expiresAt.toISOString() : null,
+        updated_at: sql`now()`,
+      })
+      .where("id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .execute();
+
+    await db
+      .updateTable("invoices")
+      .set({
+        warranty_expires_at: expiresAt ? expiresAt.toISOString() : null,
+        updated_at: sql`now()`,
+      })
+      .where("ticket_id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .where("status", "!=", "cancelled")
+      .where("deleted_at", "is", null)
+      .execute();
+  }
+
+  // The invoice that billed a repair; the latest one if it was invoiced more than once
+  private async findRepairInvoice(ticketId: string, companyId: string) {
+    return db
+      .selectFrom("invoices")
+      .select(["id", "invoice_number"])
+      .where("ticket_id", "=", ticketId)
+      .where("company_id", "=", companyId)
+      .where("status", "!=", "cancelled")
+      .where("deleted_at", "is", null)
+      .orderBy("created_at", "desc")
+      .executeTakeFirst();
+  }
+}
+
+export default new WarrantyService();
@@ -0,0 +1,440 @@
+// src/services/workflow.service.ts
+import { sql } from "kysely";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../config/connection.js";
+import { BadRequestError, ForbiddenError } from "../config/errors.js";
+import { UserRole } from "../config/types.js";
+import {
+  DEFAULT_WORKFLOW_STATUSES,
+  DEFAULT_WORKFLOW_TRANSITIONS,
+  MANAGED_WORKFLOW_STATUSES,
+  WorkflowCondition,
+  WorkflowStatus,
+  WorkflowTransition,
+} from "../config/workflow.js";
+import diagnosticChecklistService from "./diagnostic-checklist.service.js";
+
+// Input DTOs
+export interface SaveWorkflowStatusDto {
+  key: string;
+  label: string;
+  color?: string;
+  isClosed?: boolean;
+}
+
+export interface SaveWorkflowDto {
+  // Statuses are displayed in the order given
+  statuses: SaveWorkflowStatusDto[];
+  transitions: WorkflowTransition[];
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  // True until the company saves a workflow of its own
+  isDefault: boolean;
+}
+
+export interface AvailableTransition {
+  status: WorkflowStatus;
+  requiredConditions: WorkflowCondition[];
+}
+
+// The ticket fields workflow conditions are checked against
+export interface WorkflowTicket {
+  id: string;
+  status: string;
+  technicianId: string | null;
+  diagnosticNotes: string | null;
+  repairNotes: string | null;
+}
+
+function toWorkflowStatus(status: {
+  key: string;
+  label: string;
+  color: string;
+  sort_order: number;
+  is_closed: boolean;
+  is_system: boolean;
+}): WorkflowStatus {
+  return {
+    key: status.key,
+    label: status.label,
+    color: status.color,
+    sortOrder: status.sort_order,
+    isClosed: status.is_closed,
+    isSystem: status.is_system,
+  };
+}
+
+function toWorkflowTransition(transition: {
+  from_status: string;
+  to_status: string;
+  allowed_roles: string[];
+  required_conditions: string[];
+}): WorkflowTransition {
+  return {
+    from: transition.from_status,
+    to: transition.to_status,
+    allowedRoles: transition.allowed_roles as UserRole[],
+    requiredConditions: transition.required_conditions as WorkflowCondition[],
+  };
+}
+
+export class WorkflowService {
+  /**
+   * Get a company's ticket workflow
+   * Companies that haven't configured one get the built-in default workflow
+   */
+  async getWorkflow(companyId: string): Promise<Workflow> {
+    const statuses = await db
+      .selectFrom("ticket_workflow_statuses")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .orderBy("sort_order", "asc")
+      .execute();
+
+    if (statuses.length === 0) {
+      return {
+        statuses: DEFAULT_WORKFLOW_STATUSES,
+        transitions: DEFAULT_WORKFLOW_TRANSITIONS,
+        isDefault: true,
+      };
+    }
+
+    const transitions = await db
+      .selectFrom("ticket_workflow_transitions")
+      .selectAll()
+      .where("company_id", "=", companyId)
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return {
+      statuses: statuses.map(toWorkflowStatus),
+      transitions: transitions.map(toWorkflowTransition),
+      isDefault: false,
+    };
+  }
+
+  /**
+   * Replace a company's workflow
+   * Built-in statuses can be relabelled but not removed, and a status can't be
+   * removed while tickets are still in it. Statuses the app manages are kept
+   * even if they are left out
+   */
+  async saveWorkflow(companyId: string, data: SaveWorkflowDto): Promise<Workflow> {
+    const statuses = [
+      ...data.statuses,
+      ...DEFAULT_WORKFLOW_STATUSES.filter(
+        (builtIn) =>
+          MANAGED_WORKFLOW_STATUSES.includes(builtIn.key) &&
+          !data.statuses.some((status) => status.key === builtIn.key)
+      ),
+    ];
+    const keys = statuses.map((status) => status.key);
+    if (new Set(keys).size !== keys.length) {
+      throw new BadRequestError("Status keys must be unique");
+    }
+
+    const missingBuiltIns = DEFAULT_WORKFLOW_STATUSES.filter(
+      (status) => !keys.includes(status.key)
+    );
+    if (missingBuiltIns.length > 0) {
+      throw new BadRequestError(
+        `Built-in statuses cannot be removed: ${missingBuiltIns.map((status) => status.key).join(", ")}`
+      );
+    }
+
+    const seenTransitions = new Set<string>();
+    for (const transition of data.transitions) {
+      if (!keys.includes(transition.from) || !keys.includes(transition.to)) {
+        throw new BadRequestError(
+          `Transition ${transition.from} -> ${transition.to} uses a status that is not in the workflow`
+        );
+      }
+      if (transition.from === transition.to) {
+        throw new BadRequestError("A transition must change the status");
+      }
+      const managed = [transition.from, transition.to].find((key) =>
+        MANAGED_WORKFLOW_STATUSES.includes(key)
+      );
+      if (managed) {
+        throw new BadRequestError(
+          `Transitions cannot use ${managed}; tickets are moved in and out of it automatically`
+        );
+      }
+      const transitionKey = `${transition.from}->${transition.to}`;
+      if (seenTransitions.has(transitionKey)) {
+        throw new BadRequestError(`Duplicate transition ${transition.from} -> ${transition.to}`);
+      }
+      seenTransitions.add(transitionKey);
+    }
+
+    await this.assertNoTicketsOutside(companyId, keys);
+
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom("ticket_workflow_transitions")
+        .where("company_id", "=", companyId)
+        .execute();
+      await trx
+        .deleteFrom("ticket_workflow_statuses")
+        .where("company_id", "=", companyId)
+        .execute();
+
+      await trx
+        .insertInto("ticket_workflow_statuses")
+        .values(
+          statuses.map((status, index) => {
+            const builtIn = DEFAULT_WORKFLOW_STATUSES.find((s) => s.key === status.key);
+            return {
+              id: uuidv4(),
+              company_id: companyId,
+              key: status.key,
+              label: status.label,
+              color: status.color || builtIn?.color || "gray",
+              sort_order: index,
+              // Built-in statuses keep their meaning so reports stay correct
+              is_closed: builtIn ? builtIn.isClosed : status.isClosed === true,
+              is_system: !!builtIn,
+              created_at: sql`now()`,
+              updated_at: sql`now()`,
+            };
+          })
+        )
+        .execute();
+
+      if (data.transitions.length > 0) {
+        await trx
+          .insertInto("ticket_workflow_transitions")
+          .values(
+            data.transitions.map((transition) => ({
+              id: uuidv4(),
+              company_id: companyId,
+              from_status: transition.from,
+              to_status: transition.to,
+              allowed_roles: transition.allowedRoles,
+              required_conditions: transition.requiredConditions || [],
+              created_at: sql`now()`,
+            }))
+          )
+          .execute();
+      }
+    });
+
+    return this.getWorkflow(companyId);
+  }
+
+  /**
+   * Go back to the built-in default workflow
+   * Fails if any tickets are in a custom status, since it would no longer exist
+   */
+  async resetWorkflow(companyId: string): Promise<Workflow> {
+    await this.assertNoTicketsOutside(
+      companyId,
+      DEFAULT_WORKFLOW_STATUSES.map((status) => status.key)
+    );
+
+    await db.transaction().execute(async (trx) => {
+      await trx
+        .deleteFrom("ticket_workflow_transitions")
+        .where("company_id", "=", companyId)
+        .execute();
+      await trx
+        .deleteFrom("ticket_workflow_statuses")
+        .where("company_id", "=", companyId)
+        .execute();
+    });
+
+    return this.getWorkflow(companyId);
+  }
+
+  async getStatus(companyId: string, key: string): Promise<WorkflowStatus | null> {
+    const workflow = await this.getWorkflow(companyId);
+    return workflow.statuses.find((status) => status.key === key) || null;
+  }
+
+  /**
+   * Get the display label for a status, falling back to the raw key
+   */
+  async getStatusLabel(companyId: string, key: string): Promise<string> {
+    const status = await this.getStatus(companyId, key);
+    return status ? status.label : key;
+  }
+
+  /**
+   * Get the keys of statuses that close a ticket (e.g. completed, cancelled)
+   */
+  async getClosedStatusKeys(companyId: string): Promise<string[]> {
+    const workflow = await this.getWorkflow(companyId);
+    return workflow.statuses.filter((status) => status.isClosed).map((status) => status.key);
+  }
+
+  /**
+   * Ensure a status exists in the company workflow (used when a ticket is created with a status)
+   */
+  async assertStatusExists(companyId: string, key: string): Promise<void> {
+    const status = await this.getStatus(companyId, key);
+    if (!status) {
+      throw new BadRequestError(`Unknown ticket status: ${key}`);
+    }
+  }
+
+  /**
+   * Get the statuses a ticket can be moved to from its current status
+   * If roles are given, only transitions open to one of those roles are returned
+   */
+  async getAvailableTransitions(
+    companyId: string,
+    fromStatus: string,
+    roles?: UserRole[]
+  ): Promise<AvailableTransition[]> {
+    const workflow = await this.getWorkflow(companyId);
+
+    return workflow.transitions
+      .filter((transition) => transition.from === fromStatus)
+      .filter((transition) => !roles || this.isRoleAllowed(transition, roles))
+      .map((transition) => ({
+        status: workflow.statuses.find((status) => status.key === transition.to)!,
+        requiredConditions: transition.requiredConditions,
+      }))
+      .filter((transition) => transition.status)
+      .sort((a, b) => a.status.sortOrder - b.status.sortOrder);
+  }
+
+  /**
+   * Check that a ticket may move to a new status
+   * Throws BadRequestError if the workflow doesn't allow the change or a required
+   * condition isn't met, and ForbiddenError if none of the user's roles may make it.
+   * Role checks are skipped when no roles are given (system changes). Only system
+   * changes may move a ticket in or out of a managed status
+   */
+  async validateTransition(
+    companyId: string,
+    ticket: WorkflowTicket,
+    toStatus: string,
+    roles?: UserRole[]
+  ): Promise<void> {
+    const workflow = await this.getWorkflow(companyId);
+    const target = workflow.statuses.find((status) => status.key === toStatus);
+    if (!target) {
+      throw new BadRequestError(`Unknown ticket status: ${toStatus}`);
+    }
+
+    const current = workflow.statuses.find((status) => status.key === ticket.status);
+    const currentLabel = current ? current.label : ticket.status;
+
+    const managed = [ticket.status, toStatus].find((key) =>
+      MANAGED_WORKFLOW_STATUSES.includes(key)
+    );
+    if (managed) {
+      if (roles) {
+        const managedLabel = managed === toStatus ? target.label : currentLabel;
+        throw new BadRequestError(
+          `Tickets move in and out of ${managedLabel} automatically and can't be changed by hand`
+        );
+      }
+      return;
+    }
+
+    const transition = workflow.transitions.find(
+      (t) => t.from === ticket.status && t.to === toStatus
+    );
+    if (!transition) {
+      throw new BadRequestError(
+        `Cannot move ticket from ${currentLabel} to ${target.label}`
+      );
+    }
+
+    if (roles && !this.isRoleAllowed(transition, roles)) {
+      throw new ForbiddenError(
+        `Your role cannot move tickets from ${currentLabel} to ${target.label}`
+      );
+    }
+
+    const failures = await this.checkConditions(
+      companyId,
+      ticket,
+      transition.requiredConditions
+    );
+    if (failures.length > 0) {
+      throw new BadRequestError(
+        `Cannot move ticket to ${target.label}. ${failures.join(". ")}`
+      );
+    }
+  }
+
+  // A status can't disappear from the workflow while tickets are still in it
+  private async assertNoTicketsOutside(companyId: string, keys: string[]): Promise<void> {
+    const ticketsInRemovedStatuses = await db
+      .selectFrom("tickets")
+      .select(["status", sql<number>`COUNT(*)`.as("count")])
+      .where("company_id", "=", companyId)
+      .where("deleted_at", "is", null)
+      .where("status", "not in", keys)
+      .groupBy("status")
+      .execute();
+
+    if (ticketsInRemovedStatuses.length > 0) {
+      throw new BadRequestError(
+        `Cannot remove statuses that tickets are still in: ${ticketsInRemovedStatuses
+          .map((row) => `${row.status} (${Number(row.count)})`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  private isRoleAllowed(transition: WorkflowTransition, roles: UserRole[]): boolean {
+    return (
+      roles.includes("superuser") ||
+      transition.allowedRoles.some((role) => roles.includes(role))
+    );
+  }
+
+  /**
+   * Run a transition's required conditions, returning a message for each one that fails
+   */
+  private async checkConditions(
+    companyId: string,
+    ticket: WorkflowTicket,
+    conditions: WorkflowCondition[]
+  ): Promise<string[]> {
+    const failures: string[] = [];
+
+    for (const condition of conditions) {
+      switch (condition) {
+        case "checklist_complete": {
+          const validation = await diagnosticChecklistService.validateRequiredItems(
+            ticket.id,
+            companyId
+          );
+          if (!validation.valid) {
+            failures.push(
+              `Required checklist items are missing: ${validation.missingItems.join(", ")}`
+            );
+          }
+          break;
+        }
+        case "technician_assigned":
+          if (!ticket.technicianId) {
+            failures.push("A technician must be assigned");
+          }
+          break;
+        case "diagnostic_notes":
+          if (!ticket.diagnosticNotes || ticket.diagnosticNotes.trim() === "") {
+            failures.push("Diagnostic notes are required");
+          }
+          break;
+        case "repair_notes":
+          if (!ticket.repairNotes || ticket.repairNotes.trim() === "") {
+            failures.push("Repair notes are required");
+          }
+          break;
+      }
+    }
+
+    return failures;
+  }
+}
+
+export default new WorkflowService();
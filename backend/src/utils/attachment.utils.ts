@@ -0,0 +1,38 @@
+// src/utils/attachment.utils.ts
+import { Request, Response } from "express";
+import { StoredAttachment, UploadAttachmentDto } from "../services/attachment.service.js";
+
+/**
+ * Convert the files parsed by the upload middleware into attachment DTOs
+ */
+export function getUploadedFiles(req: Request): UploadAttachmentDto[] {
+  const files =
+    (req.files as { originalname: string; mimetype: string; buffer: Buffer }[] | undefined) || [];
+  return files.map((file) => ({
+    fileName: file.originalname,
+    contentType: file.mimetype,
+    data: file.buffer,
+  }));
+}
+
+/**
+ * Send attachment contents as a download
+ * Images and PDFs are sent inline so browsers can preview them
+ */
+export function sendAttachmentContent(
+  res: Response,
+  attachment: StoredAttachment,
+  content: Buffer,
+  thumbnail = false
+): void {
+  const fileName = attachment.fileName.replace(/["\\\r\n]/g, "_");
+  res.setHeader("Content-Type", thumbnail ? "image/webp" : attachment.contentType);
+  res.setHeader("Content-Length", content.length);
+  res.setHeader(
+    "Content-Disposition",
+    `inline; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+  );
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.send(content);
+}
@@ -1,3 +1,4 @@
+import { createHmac, timingSafeEqual } from "crypto";
 import jwt from "jsonwebtoken";
 import logger from "../config/logger.js";
 import userService, { UserWithoutPassword } from "../services/user.service.js";
@@ -36,9 +37,9 @@ export async function verifyJWTToken(
       type?: string;
     };
 
-    // Ensure this is an access token, not a refresh token
-    if (decoded.type === "refresh") {
-      logger.error("Attempted to use refresh token as access token");
+    // Ensure this is an access token, not a refresh or customer-facing link token
+    if (decoded.type === "refresh" || decoded.type === "portal" || decoded.type === "estimate") {
+      logger.error(`Attempted to use ${decoded.type} token as access token`);
       return null;
     }
 
@@ -106,3 +107,115 @@ export async function verifyRefreshToken(
     return null;
   }
 }
+
+/** Generate a signed, expiring token that lets a customer view one ticket in the status portal. */
+export function generatePortalToken(ticketId: string, companyId: string) {
+  const token = jwt.sign(
+    { ticketId, companyId, type: "portal" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: `${Number(process.env.PORTAL_LINK_EXPIRY_DAYS) || 30}d`,
+    }
+  );
+  return token;
+}
+
+/** Verify a customer portal token and return the ticket it grants access to. */
+export function verifyPortalToken(
+  token: string
+): { ticketId: string; companyId: string } | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
+      ticketId?: string;
+      companyId?: string;
+      type?: string;
+    };
+
+    if (decoded.type !== "portal" || !decoded.ticketId || !decoded.companyId) {
+      logger.warn("Invalid token type for customer portal");
+      return null;
+    }
+
+    return { ticketId: decoded.ticketId, companyId: decoded.companyId };
+  } catch (error) {
+    logger.warn("Invalid or expired customer portal token:", error);
+    return null;
+  }
+}
+
+/** Generate a signed, expiring token that lets a customer review and respond to one estimate. */
+export function generateEstimateToken(estimateId: string, companyId: string) {
+  const token = jwt.sign(
+    { estimateId, companyId, type: "estimate" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: `${Number(process.env.PORTAL_LINK_EXPIRY_DAYS) || 30}d`,
+    }
+  );
+  return token;
+}
+
+/** Verify an estimate approval token and return the estimate it grants access to. */
+export function verifyEstimateToken(
+  token: string
+): { estimateId: string; companyId: string } | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
+      estimateId?: string;
+      companyId?: string;
+      type?: string;
+    };
+
+    if (decoded.type !== "estimate" || !decoded.estimateId || !decoded.companyId) {
+      logger.warn("Invalid token type for estimate approval");
+      return null;
+    }
+
+    return { estimateId: decoded.estimateId, companyId: decoded.companyId };
+  } catch (error) {
+    logger.warn("Invalid or expired estimate approval token:", error);
+    return null;
+  }
+}
+
+/** Generate the secret that goes in a company's inbound email webhook URL, since the email provider can't sign its requests. */
+export function generateInboundEmailToken(companyId: string) {
+  return createHmac("sha256", process.env.JWT_SECRET!)
+    .update(`inbound-email:${companyId}`)
+    .digest("hex");
+}
+
+/** Check the secret from an inbound email webhook URL belongs to the company. */
+export function verifyInboundEmailToken(companyId: string, token: string): boolean {
+  const expected = Buffer.from(generateInboundEmailToken(companyId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Generate the secret that goes in a company's inbound SMS webhook URL, since only some SMS providers sign their requests. */
+export function generateInboundSmsToken(companyId: string) {
+  return createHmac("sha256", process.env.JWT_SECRET!)
+    .update(`inbound-sms:${companyId}`)
+    .digest("hex");
+}
+
+/** Check the secret from an inbound SMS webhook URL belongs to the company. */
+export function verifyInboundSmsToken(companyId: string, token: string): boolean {
+  const expected = Buffer.from(generateInboundSmsToken(companyId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Generate the secret that goes in a company's email delivery event webhook URL. */
+export function generateEmailEventsToken(companyId: string) {
+  return createHmac("sha256", process.env.JWT_SECRET!)
+    .update(`email-events:${companyId}`)
+    .digest("hex");
+}
+
+/** Check the secret from an email delivery event webhook URL belongs to the company. */
+export function verifyEmailEventsToken(companyId: string, token: string): boolean {
+  const expected = Buffer.from(generateEmailEventsToken(companyId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
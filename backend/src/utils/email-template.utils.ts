@@ -0,0 +1,158 @@
+// src/utils/email-template.utils.ts
+
+/**
+ * Email templates
+ *
+ * Templates are plain text, so admins can edit them without writing HTML:
+ *
+ *   {{ticketNumber}}                  replaced with the variable's value
+ *   {{#notes}}...{{/notes}}           only kept when the variable has a value
+ *   {{^paid}}...{{/paid}}             only kept when the variable is empty
+ *   [Pay now]({{paymentLink}})        a button in the HTML email, "Pay now: <link>" in the text one
+ *
+ * The HTML email is built from the rendered text inside a layout carrying the company's logo
+ * and colors, with links made clickable.
+ */
+
+export type TemplateVariables = Record<string, string>;
+
+export interface EmailLayoutBranding {
+  companyName: string;
+  // Image source for the logo: a cid: reference when sending, a data URL when previewing
+  logoSrc: string | null;
+  primaryColor: string;
+  accentColor: string;
+}
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*(\w+)\s*\}\}/g;
+// Section tags alone on their line take the line break with them, so sections don't leave blank lines
+const STANDALONE_SECTION_TAG_PATTERN = /^[ \t]*(\{\{\s*[#^/]\s*\w+\s*\}\})[ \t]*(\r?\n|$)/gm;
+const SECTION_PATTERN = /\{\{\s*([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const BUTTON_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g;
+const URL_PATTERN = /https?:\/\/[^\s<]+[^\s<.,;:!?)]/g;
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR_PATTERN.test(value);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Names of every variable a template uses, including section names
+ */
+export function findTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    names.add(match[2]);
+  }
+  return [...names];
+}
+
+/**
+ * Fill in a template's sections and variables
+ * Unknown variables render as empty text.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const hasValue = (name: string) => (variables[name] || "").trim() !== "";
+
+  let rendered = template.replace(/\r\n/g, "\n").replace(STANDALONE_SECTION_TAG_PATTERN, "$1");
+
+  // Inner sections with a different name are left for the next pass
+  let previous: string;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_match, kind: string, name: string, content: string) =>
+      (kind === "#") === hasValue(name) ? content : ""
+    );
+  } while (rendered !== previous);
+
+  return rendered
+    .replace(VARIABLE_PATTERN, (_match, name: string) => variables[name] || "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Plain text version of a rendered template, with buttons spelled out as links
+ */
+export function toPlainText(rendered: string): string {
+  return rendered.replace(BUTTON_PATTERN, "$1: $2");
+}
+
+function linkify(escapedText: string, accentColor: string): string {
+  return escapedText.replace(
+    URL_PATTERN,
+    (url) => `<a href="${url}" style="color: ${accentColor};">${url}</a>`
+  );
+}
+
+function renderButton(label: string, url: string, branding: EmailLayoutBranding): string {
+  return `
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${url}" style="background-color: ${branding.primaryColor}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">${label}</a>
+          </div>
+          <p style="color: #666; font-size: 12px;">Or copy and paste this link into your browser:</p>
+          <p style="color: #666; font-size: 12px; word-break: break-all;">${url}</p>`;
+}
+
+/**
+ * Turn a rendered template into the body of the HTML email
+ * Blank lines separate paragraphs; a paragraph that is only a [label](link) becomes a button.
+ */
+export function toHtmlContent(rendered: string, branding: EmailLayoutBranding): string {
+  return rendered
+    .split(/\n{2,}/)
+    .map((paragraph) => {
+      const escaped = escapeHtml(paragraph.trim());
+      const button = escaped.match(/^\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)$/);
+      if (button) {
+        return renderButton(button[1], button[2], branding);
+      }
+
+      // Inline [label](link)s become plain links; the rest of the text is linkified around them
+      const parts = escaped.split(BUTTON_PATTERN);
+      let html = "";
+      for (let i = 0; i < parts.length; i += 3) {
+        html += linkify(parts[i], branding.accentColor);
+        if (i + 2 < parts.length) {
+          html += `<a href="${parts[i + 2]}" style="color: ${branding.accentColor};">${parts[i + 1]}</a>`;
+        }
+      }
+      return `
+          <p>${html.replace(/\n/g, "<br>")}</p>`;
+    })
+    .join("");
+}
+
+/**
+ * Wrap email content in the company's branded layout
+ */
+export function wrapEmailLayout(contentHtml: string, branding: EmailLayoutBranding): string {
+  const companyName = escapeHtml(branding.companyName);
+  let header = "";
+  if (branding.logoSrc) {
+    header = `<img src="${escapeHtml(branding.logoSrc)}" alt="${companyName}" style="max-width: 240px; max-height: 80px;">`;
+  } else if (companyName) {
+    header = `<h2 style="color: ${branding.primaryColor}; margin: 0;">${companyName}</h2>`;
+  }
+
+  return `
+      <div style="background-color: #f5f5f5; padding: 20px 0;">
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff; border-top: 4px solid ${branding.primaryColor}; border-radius: 5px;">
+          ${header ? `<div style="padding: 20px; text-align: center; border-bottom: 1px solid #eeeeee;">${header}</div>` : ""}
+          <div style="padding: 20px; color: #333; line-height: 1.5;">${contentHtml}
+          </div>
+        </div>
+      </div>
+    `;
+}
@@ -0,0 +1,315 @@
+// src/utils/filter.utils.ts
+import { RawBuilder, sql, SqlBool } from "kysely";
+import { BadRequestError } from "../config/errors.js";
+
+/**
+ * Filter expressions for list endpoints
+ *
+ * A filter is a space-separated list of terms, each narrowing the list further:
+ *
+ *   status:new,in_progress          any of several values
+ *   -status:cancelled               anything but
+ *   technician:me / technician:none the signed-in user, or no one
+ *   created:2025-01-01..2025-01-31  a date range, inclusive; either end can be left off
+ *   created:>=30d                   days before today, so saved views stay current
+ *   total:>100 / total:50..200      number comparisons and ranges
+ *   brand:apple                     partial text match
+ *   "cracked screen" iphone         anything else is matched against the list's search columns
+ *
+ * Values with spaces go in double quotes, e.g. brand:"google pixel". Dates are UTC.
+ */
+
+export type FilterFieldType = "enum" | "id" | "text" | "date" | "number";
+
+export interface FilterField {
+  column: string;
+  type: FilterFieldType;
+  // Allowed enum values; leave out to accept any, e.g. for custom workflow statuses
+  values?: readonly string[];
+  // Whether "none" matches an empty column
+  nullable?: boolean;
+}
+
+export interface FilterSchema {
+  fields: Record<string, FilterField>;
+  // Condition for free text, given an ILIKE pattern
+  search: (pattern: string) => RawBuilder<SqlBool>;
+}
+
+export interface FilterContext {
+  // Who "me" refers to in id fields
+  userId?: string;
+}
+
+export interface FilterTerm {
+  // Null for free text
+  field: string | null;
+  negate: boolean;
+  value: string;
+}
+
+interface Bound {
+  op: ">=" | ">" | "<" | "<=";
+  value: string | number;
+}
+
+const TERM_PATTERN = /(-?)(?:([a-z][a-z_]*):)?(?:"([^"]*)"?|([^\s"]+))/gi;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+const RELATIVE_DAYS_PATTERN = /^(\d{1,4})d$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split a filter expression into its terms
+ */
+export function parseFilterExpression(expression: string | undefined): FilterTerm[] {
+  if (!expression) {
+    return [];
+  }
+
+  const terms: FilterTerm[] = [];
+  for (const match of expression.matchAll(TERM_PATTERN)) {
+    const [, negate, field, quoted, bare] = match;
+    const value = (quoted ?? bare ?? "").trim();
+    if (!value) {
+      if (field) {
+        throw new BadRequestError(`No value given for ${field}`);
+      }
+      continue;
+    }
+    terms.push({ field: field ? field.toLowerCase() : null, negate: negate === "-", value });
+  }
+  return terms;
+}
+
+/**
+ * Turn a filter expression into a WHERE condition, or null when it has no terms
+ * Throws BadRequestError naming the term that can't be used.
+ */
+export function buildFilter(
+  expression: string | undefined,
+  schema: FilterSchema,
+  context: FilterContext = {}
+): RawBuilder<SqlBool> | null {
+  const conditions = parseFilterExpression(expression).map((term) => {
+    const condition =
+      term.field === null
+        ? schema.search(likePattern(term.value))
+        : fieldCondition(term, schema, context);
+    // An empty column should count as "anything but", not drop out of the list
+    return term.negate ? sql<SqlBool>`not coalesce((${condition}), false)` : condition;
+  });
+
+  if (conditions.length === 0) {
+    return null;
+  }
+  return sql<SqlBool>`(${sql.join(conditions, sql` and `)})`;
+}
+
+/**
+ * Free text search across several columns
+ */
+export function searchColumns(columns: string[]): FilterSchema["search"] {
+  return (pattern) =>
+    sql<SqlBool>`(${sql.join(
+      columns.map((column) => sql`${sql.ref(column)} ilike ${pattern}`),
+      sql` or `
+    )})`;
+}
+
+// Match the text anywhere, taking % and _ literally
+export function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function fieldCondition(
+  term: FilterTerm,
+  schema: FilterSchema,
+  context: FilterContext
+): RawBuilder<SqlBool> {
+  const name = term.field!;
+  const field = schema.fields[name];
+  if (!field) {
+    throw new BadRequestError(
+      `Unknown filter "${name}". Filter on: ${Object.keys(schema.fields).join(", ")}`
+    );
+  }
+
+  if (field.type === "date" || field.type === "number") {
+    const bounds =
+      field.type === "date" ? dateBounds(name, term.value) : numberBounds(name, term.value);
+    return sql<SqlBool>`(${sql.join(
+      bounds.map((bound) => sql`${sql.ref(field.column)} ${sql.raw(bound.op)} ${bound.value}`),
+      sql` and `
+    )})`;
+  }
+
+  const values = term.value
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const matchesNone = values.some((value) => value.toLowerCase() === "none");
+  if (matchesNone && !field.nullable) {
+    throw new BadRequestError(`${name} is always set, so it can't be "none"`);
+  }
+
+  const column = sql.ref(field.column);
+  const matches = values
+    .filter((value) => value.toLowerCase() !== "none")
+    .map((value) => resolveValue(name, field, value, context));
+
+  const conditions: RawBuilder<SqlBool>[] = [];
+  if (matchesNone) {
+    conditions.push(sql<SqlBool>`${column} is null`);
+  }
+  if (matches.length > 0) {
+    if (field.type === "text") {
+      conditions.push(
+        ...matches.map((value) => sql<SqlBool>`${column} ilike ${likePattern(value)}`)
+      );
+    } else {
+      conditions.push(sql<SqlBool>`${column} in (${sql.join(matches)})`);
+    }
+  }
+  if (conditions.length === 0) {
+    throw new BadRequestError(`No value given for ${name}`);
+  }
+  return sql<SqlBool>`(${sql.join(conditions, sql` or `)})`;
+}
+
+function resolveValue(
+  name: string,
+  field: FilterField,
+  value: string,
+  context: FilterContext
+): string {
+  if (field.type === "id") {
+    if (value.toLowerCase() === "me") {
+      if (!context.userId) {
+        throw new BadRequestError(`${name}:me needs a signed-in user`);
+      }
+      return context.userId;
+    }
+    if (!UUID_PATTERN.test(value)) {
+      throw new BadRequestError(`${name} must be an ID, "me" or "none"`);
+    }
+    return value;
+  }
+
+  if (field.type === "enum") {
+    const normalized = value.toLowerCase();
+    if (field.values && !field.values.includes(normalized)) {
+      throw new BadRequestError(
+        `Invalid ${name} "${value}". Use one of: ${field.values.join(", ")}`
+      );
+    }
+    return normalized;
+  }
+
+  return value;
+}
+
+// Split "a..b", ">a", "<=b" and plain "a" into their parts
+function parseComparison(value: string): { op: string; from?: string; to?: string } {
+  const range = value.split("..");
+  if (range.length === 2) {
+    return { op: "..", from: range[0] || undefined, to: range[1] || undefined };
+  }
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    return { op: comparison[1], from: comparison[2] };
+  }
+  return { op: "=", from: value };
+}
+
+function dateBounds(name: string, value: string): Bound[] {
+  const { op, from, to } = parseComparison(value);
+  // Each date covers the whole day, so it has a start and an end
+  const start = from ? parseDate(name, from) : undefined;
+  const end = to ? parseDate(name, to) : undefined;
+
+  const bounds: Bound[] = [];
+  switch (op) {
+    case "..":
+      if (start) bounds.push({ op: ">=", value: start.start });
+      if (end) bounds.push({ op: "<", value: end.end });
+      break;
+    case "=":
+      bounds.push({ op: ">=", value: start!.start }, { op: "<", value: start!.end });
+      break;
+    case ">":
+      bounds.push({ op: ">=", value: start!.end });
+      break;
+    case ">=":
+      bounds.push({ op: ">=", value: start!.start });
+      break;
+    case "<":
+      bounds.push({ op: "<", value: start!.start });
+      break;
+    case "<=":
+      bounds.push({ op: "<", value: start!.end });
+      break;
+  }
+  if (bounds.length === 0) {
+    throw new BadRequestError(`${name} needs a start or end date`);
+  }
+  return bounds;
+}
+
+function parseDate(name: string, text: string): { start: string; end: string } {
+  const lower = text.toLowerCase();
+  const days = lower === "today" ? 0 : Number(lower.match(RELATIVE_DAYS_PATTERN)?.[1] ?? NaN);
+  if (!Number.isNaN(days)) {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const start = today.getTime() - days * DAY_MS;
+    return { start: new Date(start).toISOString(), end: new Date(start + DAY_MS).toISOString() };
+  }
+
+  const date = new Date(text);
+  if (!(DATE_PATTERN.test(text) || TIMESTAMP_PATTERN.test(text)) || Number.isNaN(date.getTime())) {
+    throw new BadRequestError(
+      `Invalid ${name} date "${text}". Use YYYY-MM-DD, "today" or a number of days such as 30d`
+    );
+  }
+  if (DATE_PATTERN.test(text)) {
+    return {
+      start: date.toISOString(),
+      end: new Date(date.getTime() + DAY_MS).toISOString(),
+    };
+  }
+  // A full timestamp is a single moment
+  return { start: date.toISOString(), end: new Date(date.getTime() + 1).toISOString() };
+}
+
+function numberBounds(name: string, value: string): Bound[] {
+  const { op, from, to } = parseComparison(value);
+  const min = from !== undefined ? parseNumber(name, from) : undefined;
+  const max = to !== undefined ? parseNumber(name, to) : undefined;
+
+  const bounds: Bound[] = [];
+  switch (op) {
+    case "..":
+      if (min !== undefined) bounds.push({ op: ">=", value: min });
+      if (max !== undefined) bounds.push({ op: "<=", value: max });
+      break;
+    case "=":
+      bounds.push({ op: ">=", value: min! }, { op: "<=", value: min! });
+      break;
+    default:
+      bounds.push({ op: op as Bound["op"], value: min! });
+  }
+  if (bounds.length === 0) {
+    throw new BadRequestError(`${name} needs a minimum or maximum`);
+  }
+  return bounds;
+}
+
+function parseNumber(name: string, text: string): number {
+  const number = Number(text);
+  if (text.trim() === "" || !Number.isFinite(number)) {
+    throw new BadRequestError(`Invalid ${name} "${text}". Use a number`);
+  }
+  return number;
+}
@@ -0,0 +1,172 @@
+// src/utils/pagination.utils.ts
+import { Request } from "express";
+import { RawBuilder, sql, SqlBool } from "kysely";
+import { BadRequestError } from "../config/errors.js";
+
+export const MAX_PAGE_SIZE = 100;
+
+// Filtering, sorting and paging options shared by the list endpoints
+export interface ListOptions {
+  // Filter expression, see filter.utils.ts
+  filter?: string;
+  // Sort field, prefixed with - for descending
+  sort?: string;
+  // Leave out to get every match
+  limit?: number;
+  // nextCursor from the previous page
+  cursor?: string;
+}
+
+export interface Page<T> {
+  data: T[];
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+export type SortFieldType = "text" | "number" | "timestamp";
+
+export interface SortField {
+  column: string;
+  // What a cursor's value has to look like for this column
+  type: SortFieldType;
+}
+
+// Sort names mapped to the column they order by; only NOT NULL columns, so every row has a
+// value to page from
+export type SortFields = Record<string, SortField>;
+
+export interface SortOrder {
+  name: string;
+  table: string;
+  column: string;
+  type: SortFieldType;
+  direction: "asc" | "desc";
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// How cursorValue() prints numeric and timestamptz columns
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?[+-]\d{2}(:\d{2})?$/;
+
+/**
+ * Work out the order for a sort such as "-createdAt", falling back to the default
+ */
+export function parseSort(
+  sort: string | undefined,
+  fields: SortFields,
+  defaultSort: string,
+  table: string
+): SortOrder {
+  const value = sort || defaultSort;
+  const descending = value.startsWith("-");
+  const name = descending ? value.slice(1) : value;
+  const field = fields[name];
+  if (!field) {
+    throw new BadRequestError(
+      `Can't sort by "${name}". Sort by: ${Object.keys(fields).join(", ")}`
+    );
+  }
+  return {
+    name,
+    table,
+    column: field.column,
+    type: field.type,
+    direction: descending ? "desc" : "asc",
+  };
+}
+
+/**
+ * Condition for the rows after the cursor, in (sort column, id) order so ties page cleanly
+ */
+export function cursorCondition(order: SortOrder, cursor: string): RawBuilder<SqlBool> {
+  const [name, value, id] = decodeCursor(cursor);
+  if (name !== order.name) {
+    throw new BadRequestError("Cursor was made for a different sort order");
+  }
+  // Checked here so a tampered cursor is a bad request rather than a database error
+  if (!UUID_PATTERN.test(id) || !isValidCursorValue(value, order.type)) {
+    throw new BadRequestError("Invalid cursor");
+  }
+  const op = order.direction === "asc" ? ">" : "<";
+  return sql<SqlBool>`(${sql.ref(`${order.table}.${order.column}`)}, ${sql.ref(
+    `${order.table}.id`
+  )}) ${sql.raw(op)} (${value}, ${id})`;
+}
+
+function isValidCursorValue(value: string, type: SortFieldType): boolean {
+  switch (type) {
+    case "number":
+      return NUMBER_PATTERN.test(value);
+    case "timestamp":
+      return TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Select the sort column as text for the cursor
+ * Text keeps the full timestamp precision, which a JavaScript Date would round to milliseconds.
+ */
+export function cursorValue(order: SortOrder) {
+  return sql<string>`${sql.ref(`${order.table}.${order.column}`)}::text`.as("cursor_value");
+}
+
+/**
+ * Trim the extra row fetched past the limit and make the cursor for the next page
+ * Queries should select cursorValue() and fetch limit + 1 rows so we know whether there is
+ * another page.
+ */
+export function toPage<R extends { id: unknown; cursor_value: string }, T>(
+  rows: R[],
+  order: SortOrder,
+  limit: number | undefined,
+  map: (row: R) => T
+): Page<T> {
+  if (!limit || rows.length <= limit) {
+    return { data: rows.map(map), nextCursor: null };
+  }
+
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  return {
+    data: pageRows.map(map),
+    nextCursor: encodeCursor([order.name, last.cursor_value, String(last.id)]),
+  };
+}
+
+type Cursor = [name: string, value: string, id: string];
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 3 &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string" &&
+      typeof decoded[2] === "string"
+    ) {
+      return decoded as Cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestError("Invalid cursor");
+}
+
+/**
+ * Read the list options from a request's query string, already checked by listQueryValidation
+ */
+export function getListOptions(query: Request["query"]): ListOptions {
+  return {
+    filter: typeof query.filter === "string" ? query.filter : undefined,
+    sort: typeof query.sort === "string" ? query.sort : undefined,
+    limit: query.limit ? Number(query.limit) : undefined,
+    cursor: typeof query.cursor === "string" ? query.cursor : undefined,
+  };
+}
@@ -0,0 +1,36 @@
+// Numbers without a country code are taken to be North American
+const DEFAULT_COUNTRY_CODE = "1";
+
+/**
+ * Turn a phone number as typed, e.g. "(555) 123-4567", into E.164 ("+15551234567")
+ * Returns null when it doesn't look like a phone number we could text.
+ */
+export function toE164(phone: string | null | undefined): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  const digits = phone.replace(/\D/g, "");
+  if (phone.trim().startsWith("+")) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) {
+    return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return `+${digits}`;
+  }
+  return null;
+}
+
+/**
+ * The digit strings a stored phone number could have for an E.164 number,
+ * with and without the default country code
+ */
+export function phoneDigitVariants(e164: string): string[] {
+  const digits = e164.replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return [digits, digits.slice(1)];
+  }
+  return [digits];
+}
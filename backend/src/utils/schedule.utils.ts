@@ -0,0 +1,164 @@
+import { BusinessHours, Weekday } from "../config/types.js";
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a business hours object: weekday keys only, each open before it closes
+ */
+export function isValidBusinessHours(value: unknown): value is BusinessHours {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(([day, hours]) => {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return false;
+    }
+    if (typeof hours !== "object" || hours === null) {
+      return false;
+    }
+    const { open, close } = hours as { open?: unknown; close?: unknown };
+    return (
+      typeof open === "string" &&
+      typeof close === "string" &&
+      TIME_OF_DAY_PATTERN.test(open) &&
+      TIME_OF_DAY_PATTERN.test(close) &&
+      open < close
+    );
+  });
+}
+
+// Wall-clock parts of an instant in a time zone
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Minutes a time zone is ahead of UTC at an instant
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / MINUTE_MS);
+}
+
+/**
+ * Get the instant a wall-clock time happens in a time zone
+ * e.g. ("2025-12-20", "09:30", "America/New_York") is 14:30 UTC
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+
+  const offset = getOffsetMinutes(new Date(guess), timeZone);
+  let instant = guess - offset * MINUTE_MS;
+  // A second pass corrects for a daylight saving change between the guess and the answer
+  const corrected = getOffsetMinutes(new Date(instant), timeZone);
+  if (corrected !== offset) {
+    instant = guess - corrected * MINUTE_MS;
+  }
+  return new Date(instant);
+}
+
+// The calendar date ("YYYY-MM-DD") of an instant in a time zone
+export function toZonedDate(instant: Date, timeZone: string): string {
+  const p = getZonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+// The wall-clock time ("HH:MM") of an instant in a time zone
+export function toZonedTime(instant: Date, timeZone: string): string {
+  const p = getZonedParts(instant, timeZone);
+  return `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`;
+}
+
+export function getWeekday(date: string): Weekday {
+  const [year, month, day] = date.split("-").map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Same day of a later month, or the month's last day when it is shorter
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Get when a location opens and closes on a date, or null if it is closed that day
+ */
+export function getOpeningHours(
+  date: string,
+  businessHours: BusinessHours | null,
+  timeZone: string
+): { opensAt: Date; closesAt: Date } | null {
+  const hours = businessHours?.[getWeekday(date)];
+  if (!hours) {
+    return null;
+  }
+  return {
+    opensAt: zonedTimeToUtc(date, hours.open, timeZone),
+    closesAt: zonedTimeToUtc(date, hours.close, timeZone),
+  };
+}
+
+// e.g. "Sat, Dec 20, 9:30 AM" in the location's time zone, for messages shown to staff
+export function formatZoned(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(instant);
+}
@@ -0,0 +1,34 @@
+import { Request } from 'express';
+
+/**
+ * Get the frontend URL used for links in emails, receipts and labels
+ * Tries FRONTEND_URL first, then derives it from ALLOWED_ORIGINS, falling back to localhost for dev
+ */
+export function getFrontendUrl(): string {
+  if (process.env.FRONTEND_URL) {
+    return process.env.FRONTEND_URL;
+  }
+  if (process.env.ALLOWED_ORIGINS) {
+    // Extract first origin from ALLOWED_ORIGINS (comma-separated)
+    return process.env.ALLOWED_ORIGINS.split(',')[0].trim();
+  }
+  return process.env.NODE_ENV === 'production'
+    ? 'https://yourdomain.com' // Should be set in production
+    : 'http://localhost:3000'; // Default for development
+}
+
+/**
+ * Get the public URL of the backend, e.g. for webhook URLs given to providers
+ * Set BACKEND_URL when the API sits behind a proxy that changes the host or protocol.
+ */
+export function getBackendUrl(req: Request): string {
+  const base = process.env.BACKEND_URL || `${req.protocol}://${req.get('host')}`;
+  return base.replace(/\/$/, '');
+}
+
+/**
+ * Get the public URL a request was made to, e.g. for checking webhook signatures
+ */
+export function getRequestUrl(req: Request): string {
+  return `${getBackendUrl(req)}${req.originalUrl}`;
+}
@@ -1,6 +1,14 @@
 // src/utils/user.utils.ts
+import { UserRole } from "../config/types.js";
 import { UserWithoutPassword } from "../services/user.service.js";
 
+/**
+ * Get every role a user holds, including their primary role
+ */
+export function getUserRoles(user: UserWithoutPassword): UserRole[] {
+  return Array.from(new Set([user.role, ...(user.roles || [])]));
+}
+
 /**
  * Helper function to convert user from database format to API format
  * UserWithoutPassword has snake_case fields at runtime (from database)
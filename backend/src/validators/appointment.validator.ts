@@ -0,0 +1,171 @@
+import { body, query } from "express-validator";
+
+const APPOINTMENT_TYPES = ["drop_off", "on_site"];
+const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"];
+// A year of weekly visits
+const MAX_RECURRENCE_COUNT = 52;
+
+const appointmentTypeRule = body("appointmentType")
+  .optional()
+  .isIn(APPOINTMENT_TYPES)
+  .withMessage(`Appointment type must be one of: ${APPOINTMENT_TYPES.join(", ")}`);
+
+const technicianIdRule = body("technicianId")
+  .optional({ nullable: true })
+  .isUUID()
+  .withMessage("Technician ID must be a valid UUID");
+
+const detailRules = [
+  body("deviceType")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device type must not exceed 100 characters"),
+  body("deviceBrand")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device brand must not exceed 100 characters"),
+  body("deviceModel")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device model must not exceed 100 characters"),
+  body("issueDescription")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Issue description must not exceed 5000 characters"),
+  body("address")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Address must not exceed 500 characters"),
+  body("notes")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Notes must not exceed 2000 characters"),
+];
+
+/**
+ * Validation rules for listing appointments
+ */
+export const listAppointmentsValidation = [
+  query("start")
+    .optional()
+    .isISO8601()
+    .withMessage("Start must be a valid date"),
+  query("end")
+    .optional()
+    .isISO8601()
+    .withMessage("End must be a valid date"),
+  query("technicianId")
+    .optional()
+    .isUUID()
+    .withMessage("Technician ID must be a valid UUID"),
+  query("customerId")
+    .optional()
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+];
+
+/**
+ * Validation rules for booking an appointment
+ */
+export const createAppointmentValidation = [
+  body("customerId")
+    .exists()
+    .withMessage("Customer ID is required")
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  technicianIdRule,
+  appointmentTypeRule,
+  body("startsAt")
+    .exists()
+    .withMessage("Start time is required")
+    .isISO8601()
+    .withMessage("Start time must be a valid date"),
+  body("endsAt")
+    .exists()
+    .withMessage("End time is required")
+    .isISO8601()
+    .withMessage("End time must be a valid date"),
+  body("recurrence")
+    .optional()
+    .isObject()
+    .withMessage("Recurrence must be an object"),
+  body("recurrence.frequency")
+    .if(body("recurrence").exists())
+    .isIn(RECURRENCE_FREQUENCIES)
+    .withMessage(`Frequency must be one of: ${RECURRENCE_FREQUENCIES.join(", ")}`),
+  body("recurrence.interval")
+    .optional()
+    .isInt({ min: 1, max: 12 })
+    .withMessage("Interval must be between 1 and 12")
+    .toInt(),
+  body("recurrence.count")
+    .if(body("recurrence").exists())
+    .isInt({ min: 1, max: MAX_RECURRENCE_COUNT })
+    .withMessage(`Number of appointments must be between 1 and ${MAX_RECURRENCE_COUNT}`)
+    .toInt(),
+  ...detailRules,
+];
+
+/**
+ * Validation rules for updating an appointment
+ */
+export const updateAppointmentValidation = [
+  technicianIdRule,
+  appointmentTypeRule,
+  body("startsAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Start time must be a valid date"),
+  body("endsAt")
+    .optional()
+    .isISO8601()
+    .withMessage("End time must be a valid date"),
+  ...detailRules,
+];
+
+/**
+ * Validation rules for cancelling an appointment
+ */
+export const cancelAppointmentValidation = [
+  body("includeFollowing")
+    .optional()
+    .isBoolean()
+    .withMessage("Include following must be a boolean")
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for checking an appointment in
+ */
+export const checkInAppointmentValidation = [
+  body("assetId")
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage("Asset ID must be a valid UUID"),
+  body("deviceType")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device type must not exceed 100 characters"),
+  body("deviceBrand")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device brand must not exceed 100 characters"),
+  body("deviceModel")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device model must not exceed 100 characters"),
+  body("issueDescription")
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Issue description must not exceed 5000 characters"),
+];
@@ -0,0 +1,91 @@
+import { body, param, query } from "express-validator";
+import { DATE_PATTERN } from "../utils/schedule.utils.js";
+
+/**
+ * Validation rules for the location in the URL
+ */
+export const bookingLocationValidation = [
+  param("locationId")
+    .isUUID()
+    .withMessage("Online booking is not available for this location"),
+];
+
+/**
+ * Validation rules for listing open slots
+ */
+export const bookingSlotsValidation = [
+  query("date")
+    .exists()
+    .withMessage("Date is required")
+    .matches(DATE_PATTERN)
+    .withMessage("Date must be in YYYY-MM-DD format"),
+];
+
+/**
+ * Validation rules for booking a slot online
+ */
+export const bookAppointmentValidation = [
+  body("startsAt")
+    .exists()
+    .withMessage("Choose a time")
+    .isISO8601()
+    .withMessage("Start time must be a valid date"),
+  body("appointmentType")
+    .optional()
+    .isIn(["drop_off", "on_site"])
+    .withMessage("Appointment type must be drop_off or on_site"),
+  body("firstName")
+    .exists()
+    .withMessage("First name is required")
+    .trim()
+    .notEmpty()
+    .withMessage("First name is required")
+    .isLength({ max: 100 })
+    .withMessage("First name must not exceed 100 characters"),
+  body("lastName")
+    .exists()
+    .withMessage("Last name is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Last name is required")
+    .isLength({ max: 100 })
+    .withMessage("Last name must not exceed 100 characters"),
+  body("email")
+    .exists()
+    .withMessage("Email is required")
+    .trim()
+    .isEmail()
+    .withMessage("Email must be valid")
+    .isLength({ max: 255 })
+    .withMessage("Email must not exceed 255 characters"),
+  body("phone")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage("Phone must not exceed 20 characters"),
+  body("deviceType")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device type must not exceed 100 characters"),
+  body("deviceBrand")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device brand must not exceed 100 characters"),
+  body("deviceModel")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Device model must not exceed 100 characters"),
+  body("issueDescription")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Issue description must not exceed 2000 characters"),
+  body("address")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Address must not exceed 500 characters"),
+];
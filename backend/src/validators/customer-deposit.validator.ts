@@ -0,0 +1,54 @@
+import { body } from "express-validator";
+
+/**
+ * Validation rules for taking a deposit from a customer
+ */
+export const createCustomerDepositValidation = [
+  body("ticketId")
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage("Ticket ID must be a valid UUID"),
+  body("amount")
+    .exists()
+    .withMessage("Amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
+  body("paymentMethod")
+    .exists()
+    .withMessage("Payment method is required")
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Payment method must be between 1 and 50 characters"),
+  body("paymentReference")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Payment reference must not exceed 100 characters"),
+  body("sourceId")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage("Source ID (card nonce) must be between 1 and 200 characters"),
+  body("notes")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes must not exceed 1000 characters"),
+];
+
+/**
+ * Validation rules for refunding an unused deposit
+ */
+export const refundCustomerDepositValidation = [
+  body("amount")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
+  body("reason")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must not exceed 500 characters"),
+];
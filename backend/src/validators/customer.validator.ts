@@ -60,6 +60,10 @@ export const createCustomerValidation = [
     .trim()
     .isLength({ max: 10000 })
     .withMessage("Notes must not exceed 10000 characters"),
+  body("smsOptIn")
+    .optional()
+    .isBoolean()
+    .withMessage("SMS opt-in must be a boolean"),
 ];
 
 /**
@@ -119,4 +123,28 @@ export const updateCustomerValidation = [
     .trim()
     .isLength({ max: 10000 })
     .withMessage("Notes must not exceed 10000 characters"),
+  body("smsOptIn")
+    .optional()
+    .isBoolean()
+    .withMessage("SMS opt-in must be a boolean"),
+];
+
+/**
+ * Validation rules for giving a customer store credit, or taking it away, by hand
+ */
+export const adjustStoreCreditValidation = [
+  body("amount")
+    .exists()
+    .withMessage("Amount is required")
+    .isFloat()
+    .withMessage("Amount must be a number")
+    .custom((value) => Number(value) !== 0)
+    .withMessage("Amount must not be 0")
+    .toFloat(),
+  body("notes")
+    .exists()
+    .withMessage("A note explaining the change is required")
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage("Notes must be between 1 and 1000 characters"),
 ];
@@ -0,0 +1,28 @@
+import { param, query } from "express-validator";
+import { EMAIL_MESSAGE_STATUSES } from "../services/email-message.service.js";
+import { MAX_PAGE_SIZE } from "../utils/pagination.utils.js";
+
+/**
+ * Validation rules for listing the email delivery log
+ */
+export const listEmailMessagesValidation = [
+  query("status")
+    .optional()
+    .isIn(EMAIL_MESSAGE_STATUSES)
+    .withMessage(`Status must be one of: ${EMAIL_MESSAGE_STATUSES.join(", ")}`),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be greater than 0"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+];
+
+/**
+ * Validation rules for routes that take an email message ID
+ */
+export const emailMessageIdValidation = [
+  param("id").isUUID().withMessage("Email ID must be a valid UUID"),
+];
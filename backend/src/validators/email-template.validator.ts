@@ -0,0 +1,71 @@
+import { body, param } from "express-validator";
+import { EMAIL_TEMPLATE_KEYS } from "../services/email-template.service.js";
+
+const templateKeyRule = () =>
+  param("key")
+    .isIn(EMAIL_TEMPLATE_KEYS)
+    .withMessage(`Template must be one of: ${EMAIL_TEMPLATE_KEYS.join(", ")}`);
+
+const contentRules = (required: boolean) => {
+  const subject = body("subject");
+  const text = body("body");
+  return [
+    (required ? subject.exists().withMessage("Subject is required") : subject.optional())
+      .isString()
+      .withMessage("Subject must be text")
+      .trim()
+      .notEmpty()
+      .withMessage("Subject cannot be empty")
+      .isLength({ max: 255 })
+      .withMessage("Subject must not exceed 255 characters"),
+    (required ? text.exists().withMessage("Body is required") : text.optional())
+      .isString()
+      .withMessage("Body must be text")
+      .trim()
+      .notEmpty()
+      .withMessage("Body cannot be empty")
+      .isLength({ max: 10000 })
+      .withMessage("Body must not exceed 10000 characters"),
+  ];
+};
+
+/**
+ * Validation rules for the template key in the URL
+ */
+export const emailTemplateKeyValidation = [templateKeyRule()];
+
+/**
+ * Validation rules for saving a company's version of a template
+ */
+export const saveEmailTemplateValidation = [templateKeyRule(), ...contentRules(true)];
+
+/**
+ * Validation rules for previewing or test-sending a template
+ * Subject and body are the unsaved edits; leave both out to use the saved template
+ */
+export const previewEmailTemplateValidation = [
+  templateKeyRule(),
+  ...contentRules(false),
+  body("body")
+    .if(body("subject").exists())
+    .exists()
+    .withMessage("Body is required with a subject"),
+  body("subject")
+    .if(body("body").exists())
+    .exists()
+    .withMessage("Subject is required with a body"),
+];
+
+/**
+ * Validation rules for the brand colors
+ */
+export const updateEmailBrandingValidation = [
+  body("primaryColor")
+    .optional()
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage("Primary color must be a hex color like #2563eb"),
+  body("accentColor")
+    .optional()
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage("Accent color must be a hex color like #2563eb"),
+];
@@ -0,0 +1,78 @@
+import { body } from "express-validator";
+
+// Rules for each line on an estimate (same limits as invoice items)
+const estimateItemsValidation = (required: boolean) => [
+  required
+    ? body("items")
+        .isArray({ max: 100 })
+        .withMessage("Items must be a list of up to 100 lines")
+    : body("items")
+        .optional()
+        .isArray({ max: 100 })
+        .withMessage("Items must be a list of up to 100 lines"),
+  body("items.*.description")
+    .exists()
+    .withMessage("Description is required")
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Description must be between 1 and 255 characters"),
+  body("items.*.quantity")
+    .exists()
+    .withMessage("Quantity is required")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be a positive integer")
+    .toInt(),
+  body("items.*.unitPrice")
+    .exists()
+    .withMessage("Unit price is required")
+    .isFloat({ min: 0 })
+    .withMessage("Unit price must be a non-negative number")
+    .toFloat(),
+  body("items.*.discountPercent")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Discount percent must be between 0 and 100")
+    .toFloat(),
+  body("items.*.type")
+    .exists()
+    .withMessage("Type is required")
+    .isIn(["part", "service", "other"])
+    .withMessage("Type must be one of: part, service, other"),
+  body("items.*.inventoryItemId")
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage("Inventory item ID must be a valid UUID"),
+];
+
+const estimateDetailsValidation = [
+  body("notes")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Notes must not exceed 2000 characters"),
+  body("validUntil")
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage("Valid until must be a valid date"),
+];
+
+/**
+ * Validation rules for creating an estimate
+ */
+export const createEstimateValidation = [
+  body("ticketId")
+    .exists()
+    .withMessage("Ticket ID is required")
+    .isUUID()
+    .withMessage("Ticket ID must be a valid UUID"),
+  ...estimateDetailsValidation,
+  ...estimateItemsValidation(true),
+];
+
+/**
+ * Validation rules for updating a draft estimate
+ */
+export const updateEstimateValidation = [
+  ...estimateDetailsValidation,
+  ...estimateItemsValidation(false),
+];
@@ -0,0 +1,82 @@
+import { body, param, query } from "express-validator";
+import { MAX_PAGE_SIZE } from "../utils/pagination.utils.js";
+
+/**
+ * Validation rules for listing gift cards
+ */
+export const listGiftCardsValidation = [
+  query("search")
+    .optional()
+    .trim()
+    .isLength({ max: 32 })
+    .withMessage("Search must not exceed 32 characters"),
+  query("customerId")
+    .optional()
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be greater than 0"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+];
+
+/**
+ * Validation rules for selling a gift card
+ */
+export const createGiftCardValidation = [
+  body("amount")
+    .exists()
+    .withMessage("Amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
+  body("paymentMethod")
+    .exists()
+    .withMessage("Payment method is required")
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Payment method must be between 1 and 50 characters"),
+  body("paymentReference")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Payment reference must not exceed 100 characters"),
+  body("customerId")
+    .optional({ values: "null" })
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  body("code")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ min: 4, max: 32 })
+    .withMessage("Gift card code must be between 4 and 32 characters"),
+  body("notes")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes must not exceed 1000 characters"),
+];
+
+/**
+ * Validation rules for turning a gift card off or back on
+ */
+export const updateGiftCardValidation = [
+  param("id").isUUID().withMessage("Gift card ID must be a valid UUID"),
+  body("isActive")
+    .exists()
+    .withMessage("isActive is required")
+    .isBoolean()
+    .withMessage("isActive must be a boolean")
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for routes that take a gift card ID
+ */
+export const giftCardIdValidation = [
+  param("id").isUUID().withMessage("Gift card ID must be a valid UUID"),
+];
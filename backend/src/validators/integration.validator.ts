@@ -1,5 +1,5 @@
 import { body, param } from 'express-validator';
-import { EMAIL_PROVIDERS, PAYMENT_PROVIDERS } from '../config/integrations.js';
+import { EMAIL_PROVIDERS, PAYMENT_PROVIDERS, SMS_PROVIDERS } from '../config/integrations.js';
 
 /**
  * Validation rules for saving email integration
@@ -136,9 +136,94 @@ export const savePaymentIntegrationValidation = [
     .withMessage('Location ID is required'),
 ];
 
+/**
+ * Validation rules for saving SMS integration
+ */
+export const saveSmsIntegrationValidation = [
+  body('provider')
+    .if((value, { req }) => req.params?.type === 'sms')
+    .exists()
+    .withMessage('Provider is required')
+    .trim()
+    .notEmpty()
+    .withMessage('Provider is required')
+    .isIn(Object.keys(SMS_PROVIDERS))
+    .withMessage(`Provider must be one of: ${Object.keys(SMS_PROVIDERS).join(', ')}`),
+  body('settings.ticketStatusUpdates')
+    .optional()
+    .isBoolean()
+    .withMessage('Ticket status updates must be a boolean'),
+  body('settings.fromNumber')
+    .if((value, { req }) => req.params?.type === 'sms' && req.body?.provider === 'twilio')
+    .exists()
+    .withMessage('From number is required for Twilio')
+    .trim()
+    .matches(/^\+[1-9]\d{7,14}$/)
+    .withMessage('From number must be in international format, e.g. +15551234567'),
+  // Twilio credentials validation
+  body('credentials')
+    .if((value, { req }) => req.params?.type === 'sms' && req.body?.provider === 'twilio')
+    .exists()
+    .withMessage('Credentials are required')
+    .isObject()
+    .withMessage('Credentials must be an object'),
+  body('credentials.accountSid')
+    .if((value, { req }) => req.params?.type === 'sms' && req.body?.provider === 'twilio')
+    .exists()
+    .withMessage('Account SID is required for Twilio')
+    .trim()
+    .notEmpty()
+    .withMessage('Account SID is required'),
+  body('credentials.authToken')
+    .if((value, { req }) => req.params?.type === 'sms' && req.body?.provider === 'twilio')
+    .exists()
+    .withMessage('Auth token is required for Twilio')
+    .trim()
+    .notEmpty()
+    .withMessage('Auth token is required')
+    .isLength({ min: 10 })
+    .withMessage('Auth token must be at least 10 characters'),
+];
+
 /**
  * Validation rules for testing integration
  */
 export const testIntegrationValidation = [
   ...integrationTypeValidation,
 ];
+
+/**
+ * Validation rules for inbound SMS webhooks
+ */
+export const inboundSmsValidation = [
+  param('companyId')
+    .isUUID()
+    .withMessage('Company ID must be a valid UUID'),
+  param('token')
+    .isHexadecimal()
+    .withMessage('Token must be hexadecimal'),
+];
+
+/**
+ * Validation rules for inbound email webhooks
+ */
+export const inboundEmailValidation = [
+  param('companyId')
+    .isUUID()
+    .withMessage('Company ID must be a valid UUID'),
+  param('token')
+    .isHexadecimal()
+    .withMessage('Token must be hexadecimal'),
+];
+
+/**
+ * Validation rules for email delivery event webhooks
+ */
+export const emailEventsValidation = [
+  param('companyId')
+    .isUUID()
+    .withMessage('Company ID must be a valid UUID'),
+  param('token')
+    .isHexadecimal()
+    .withMessage('Token must be hexadecimal'),
+];
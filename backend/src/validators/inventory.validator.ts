@@ -94,6 +94,11 @@ export const createInventoryValidation = [
     .withMessage("Reorder level is required")
     .isInt({ min: 0 })
     .withMessage("Reorder level must be a non-negative integer"),
+  body("warrantyDays")
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 3650 })
+    .withMessage("Warranty must be between 0 and 3650 days")
+    .toInt(),
   body("isTaxable")
     .optional()
     .isBoolean()
@@ -183,6 +188,11 @@ export const updateInventoryValidation = [
     .optional()
     .isInt({ min: 0 })
     .withMessage("Reorder level must be a non-negative integer"),
+  body("warrantyDays")
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 3650 })
+    .withMessage("Warranty must be between 0 and 3650 days")
+    .toInt(),
   body("isTaxable")
     .optional()
     .isBoolean()
@@ -24,8 +24,8 @@ export const createInvoiceValidation = [
     .withMessage("Ticket ID must be a valid UUID"),
   body("status")
     .optional()
-    .isIn(["draft", "issued", "paid", "overdue", "cancelled"])
-    .withMessage("Status must be one of: draft, issued, paid, overdue, cancelled"),
+    .isIn(["draft", "issued", "partially_paid", "paid", "overdue", "cancelled"])
+    .withMessage("Status must be one of: draft, issued, partially_paid, paid, overdue, cancelled"),
   body("subtotal")
     .optional()
     .isFloat({ min: 0 })
@@ -147,17 +147,59 @@ export const updateInvoiceItemValidation = [
  * Validation rules for marking an invoice as paid
  */
 export const markInvoicePaidValidation = [
+  // Either a single payment method (with an optional amount) or a list of payments for split tender
   body("paymentMethod")
+    .if(body("payments").not().exists())
     .exists()
     .withMessage("Payment method is required")
     .trim()
     .isLength({ min: 1, max: 50 })
     .withMessage("Payment method must be between 1 and 50 characters"),
+  body("amount")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
   body("paymentReference")
     .optional()
     .trim()
     .isLength({ max: 100 })
     .withMessage("Payment reference must not exceed 100 characters"),
+  body("giftCardCode")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ min: 1, max: 32 })
+    .withMessage("Gift card code must be between 1 and 32 characters"),
+  body("payments")
+    .optional()
+    .isArray({ min: 1, max: 10 })
+    .withMessage("Payments must be a list of 1 to 10 payments"),
+  body("payments.*.paymentMethod")
+    .exists()
+    .withMessage("Payment method is required")
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Payment method must be between 1 and 50 characters"),
+  body("payments.*.amount")
+    .exists()
+    .withMessage("Payment amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Payment amount must be greater than 0")
+    .toFloat(),
+  body("payments.*.paymentReference")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Payment reference must not exceed 100 characters"),
+  body("payments.*.customerDepositId")
+    .optional({ values: "null" })
+    .isUUID()
+    .withMessage("Deposit ID must be a valid UUID"),
+  body("payments.*.giftCardCode")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ min: 1, max: 32 })
+    .withMessage("Gift card code must be between 1 and 32 characters"),
   body("paidDate")
     .optional()
     .isISO8601()
@@ -169,6 +211,21 @@ export const markInvoicePaidValidation = [
     .withMessage("Notes must not exceed 10000 characters"),
 ];
 
+/**
+ * Validation rules for paying an invoice from the customer's deposits
+ */
+export const applyDepositsValidation = [
+  body("depositId")
+    .optional()
+    .isUUID()
+    .withMessage("Deposit ID must be a valid UUID"),
+  body("amount")
+    .optional()
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
+];
+
 /**
  * Validation rules for updating an invoice
  */
@@ -183,8 +240,8 @@ export const updateInvoiceValidation = [
     .withMessage("Ticket ID must be a valid UUID"),
   body("status")
     .optional()
-    .isIn(["draft", "issued", "paid", "overdue", "cancelled"])
-    .withMessage("Status must be one of: draft, issued, paid, overdue, cancelled"),
+    .isIn(["draft", "issued", "partially_paid", "paid", "overdue", "cancelled"])
+    .withMessage("Status must be one of: draft, issued, partially_paid, paid, overdue, cancelled"),
   body("subtotal")
     .optional()
     .isFloat({ min: 0 })
@@ -259,6 +316,35 @@ export const refundInvoiceValidation = [
   body("refundMethod")
     .optional()
     .trim()
-    .isIn(["manual", "square", "stripe", "paypal"])
-    .withMessage("Refund method must be one of: manual, square, stripe, paypal"),
+    .isIn(["manual", "store_credit", "square", "stripe", "paypal"])
+    .withMessage("Refund method must be one of: manual, store_credit, square, stripe, paypal"),
+];
+
+export const createInvoiceReturnValidation = [
+  body("items")
+    .isArray({ min: 1 })
+    .withMessage("Choose at least one item to return"),
+  body("items.*.invoiceItemId")
+    .isUUID()
+    .withMessage("Invoice item ID must be a valid UUID"),
+  body("items.*.quantity")
+    .isInt({ min: 1 })
+    .withMessage("Return quantity must be at least 1"),
+  body("items.*.disposition")
+    .isIn(["restock", "write_off"])
+    .withMessage("Disposition must be one of: restock, write_off"),
+  body("restockingFee")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Restocking fee cannot be negative"),
+  body("refundMethod")
+    .optional()
+    .trim()
+    .isIn(["manual", "store_credit"])
+    .withMessage("Refund method must be one of: manual, store_credit"),
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason must not exceed 500 characters"),
 ];
@@ -0,0 +1,37 @@
+import { body } from "express-validator";
+
+/**
+ * Validation rules for setting the default labor rate
+ */
+export const setLaborRateValidation = [
+  // Null clears the default rate
+  body("hourlyRate").exists().withMessage("Hourly rate is required"),
+  body("hourlyRate")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Hourly rate must be a non-negative number")
+    .toFloat(),
+];
+
+/**
+ * Validation rules for creating or updating a labor category
+ */
+export const saveLaborCategoryValidation = [
+  body("name")
+    .exists()
+    .withMessage("Name is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name must not exceed 100 characters"),
+  body("hourlyRate")
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage("Hourly rate must be a non-negative number")
+    .toFloat(),  body("warrantyDays")
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 3650 })
+    .withMessage("Warranty must be between 0 and 3650 days")
+    .toInt(),
+];
@@ -0,0 +1,27 @@
+import { query } from "express-validator";
+import { MAX_PAGE_SIZE } from "../utils/pagination.utils.js";
+
+/**
+ * Validation rules for filtering, sorting and paging a list
+ */
+export const listQueryValidation = [
+  query("filter")
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("Filter must not exceed 500 characters"),
+  query("sort")
+    .optional()
+    .matches(/^-?[a-zA-Z]+$/)
+    .withMessage("Sort must be a field name, prefixed with - for descending"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE })
+    .withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .toInt(),
+  query("cursor")
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("Invalid cursor"),
+];
@@ -1,4 +1,27 @@
 import { body } from "express-validator";
+import { isValidBusinessHours, isValidTimeZone } from "../utils/schedule.utils.js";
+
+// Business hours and online booking, shared by create and update
+const bookingSettingsRules = [
+  body("timezone")
+    .optional()
+    .trim()
+    .custom((value) => isValidTimeZone(value))
+    .withMessage("Time zone must be a valid IANA time zone, e.g. America/New_York"),
+  body("businessHours")
+    .optional({ nullable: true })
+    .custom((value) => isValidBusinessHours(value))
+    .withMessage("Business hours must give an open and close time (HH:MM) for each open weekday"),
+  body("bookingEnabled")
+    .optional()
+    .isBoolean()
+    .withMessage("bookingEnabled must be a boolean"),
+  body("bookingSlotMinutes")
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage("Booking slots must be between 5 and 480 minutes")
+    .toInt(),
+];
 
 /**
  * Validation rules for creating a location
@@ -76,6 +99,7 @@ export const createLocationValidation = [
       }
       return true;
     }),
+  ...bookingSettingsRules,
 ];
 
 /**
@@ -153,4 +177,5 @@ export const updateLocationValidation = [
       }
       return true;
     }),
+  ...bookingSettingsRules,
 ];
@@ -0,0 +1,68 @@
+import { body, query } from "express-validator";
+
+const CHANNELS = ["email", "sms"];
+
+// Listing and reading need to know which conversation: a customer's, a ticket's, or both
+const scopeRules = (location: typeof query | typeof body, source: "query" | "body") => [
+  location("customerId")
+    .optional()
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  location("ticketId")
+    .optional()
+    .isUUID()
+    .withMessage("Ticket ID must be a valid UUID"),
+  location("customerId")
+    .if((value, { req }) => !req[source]?.ticketId)
+    .exists()
+    .withMessage("Customer ID or ticket ID is required"),
+];
+
+/**
+ * Validation rules for listing a conversation
+ */
+export const listMessagesValidation = scopeRules(query, "query");
+
+/**
+ * Validation rules for counting unread messages (company-wide when neither ID is given)
+ */
+export const unreadCountValidation = [
+  query("customerId")
+    .optional()
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  query("ticketId")
+    .optional()
+    .isUUID()
+    .withMessage("Ticket ID must be a valid UUID"),
+];
+
+/**
+ * Validation rules for marking a conversation as read
+ */
+export const markMessagesReadValidation = scopeRules(body, "body");
+
+/**
+ * Validation rules for sending a message to a customer
+ */
+export const sendMessageValidation = [
+  ...scopeRules(body, "body"),
+  body("channel")
+    .isIn(CHANNELS)
+    .withMessage(`Channel must be one of: ${CHANNELS.join(", ")}`),
+  body("subject")
+    .optional({ values: "falsy" })
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Subject must not exceed 200 characters"),
+  body("body")
+    .trim()
+    .notEmpty()
+    .withMessage("Message is required")
+    .isLength({ max: 5000 })
+    .withMessage("Message must not exceed 5000 characters"),
+  body("body")
+    .if(body("channel").equals("sms"))
+    .isLength({ max: 1600 })
+    .withMessage("Text messages must not exceed 1600 characters"),
+];
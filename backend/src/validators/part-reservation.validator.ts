@@ -0,0 +1,30 @@
+import { body } from "express-validator";
+
+/**
+ * Validation rules for reserving a part for a ticket
+ */
+export const reservePartValidation = [
+  body("inventoryItemId")
+    .exists()
+    .withMessage("Inventory item ID is required")
+    .isUUID()
+    .withMessage("Inventory item ID must be a valid UUID"),
+  body("quantity")
+    .exists()
+    .withMessage("Quantity is required")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be a positive whole number")
+    .toInt(),
+];
+
+/**
+ * Validation rules for changing a reservation's quantity
+ */
+export const updatePartReservationValidation = [
+  body("quantity")
+    .exists()
+    .withMessage("Quantity is required")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be a positive whole number")
+    .toInt(),
+];
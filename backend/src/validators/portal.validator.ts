@@ -0,0 +1,76 @@
+import { body, param } from "express-validator";
+
+/**
+ * Validation rules for looking up a ticket by number and contact details
+ */
+export const portalLookupValidation = [
+  body("ticketNumber")
+    .exists()
+    .withMessage("Ticket number is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket number is required")
+    .isLength({ max: 50 })
+    .withMessage("Ticket number must not exceed 50 characters"),
+  body("contact")
+    .exists()
+    .withMessage("Phone number or email is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Phone number or email is required")
+    .isLength({ max: 255 })
+    .withMessage("Phone number or email must not exceed 255 characters"),
+];
+
+/**
+ * Validation rules for the portal token in the URL
+ */
+export const portalTokenValidation = [
+  param("token")
+    .isJWT()
+    .withMessage("This link is invalid or has expired"),
+];
+
+/**
+ * Validation rules for paying an invoice from the portal
+ */
+export const portalPaymentValidation = [
+  body("sourceId")
+    .exists()
+    .withMessage("Card token is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Card token is required")
+    .isLength({ max: 200 })
+    .withMessage("Card token must not exceed 200 characters"),
+  body("idempotencyKey")
+    .optional()
+    .trim()
+    .isLength({ max: 45 })
+    .withMessage("Idempotency key must not exceed 45 characters"),
+];
+
+/**
+ * Validation rules for a customer approving an estimate
+ */
+export const portalApproveEstimateValidation = [
+  body("name")
+    .exists()
+    .withMessage("Please enter your name to approve the estimate")
+    .trim()
+    .notEmpty()
+    .withMessage("Please enter your name to approve the estimate")
+    .isLength({ max: 255 })
+    .withMessage("Name must not exceed 255 characters"),
+];
+
+/**
+ * Validation rules for a customer declining an estimate
+ */
+export const portalDeclineEstimateValidation = [
+  body("reason")
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Reason must not exceed 1000 characters"),
+];
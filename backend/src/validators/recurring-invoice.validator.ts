@@ -0,0 +1,175 @@
+import { body, param, query } from "express-validator";
+
+const FREQUENCIES = ["monthly", "quarterly", "yearly"];
+
+// A schedule can start today but not earlier, or every period it missed would be issued and charged
+// Allows up to a day back, since midnight today in the user's timezone can be yesterday in UTC
+const isNotInThePast = (value: string) =>
+  new Date(value).getTime() >= Date.now() - 24 * 60 * 60 * 1000;
+
+// Line items are required when creating a schedule and optional when updating one
+const itemsValidation = (required: boolean) => [
+  required
+    ? body("items")
+        .isArray({ min: 1 })
+        .withMessage("At least one line item is required")
+    : body("items")
+        .optional()
+        .isArray({ min: 1 })
+        .withMessage("At least one line item is required"),
+  body("items.*.description")
+    .exists()
+    .withMessage("Description is required")
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Description must be between 1 and 255 characters"),
+  body("items.*.quantity")
+    .exists()
+    .withMessage("Quantity is required")
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be a positive integer")
+    .toInt(),
+  body("items.*.unitPrice")
+    .exists()
+    .withMessage("Unit price is required")
+    .isFloat({ min: 0 })
+    .withMessage("Unit price must be a non-negative number")
+    .toFloat(),
+  body("items.*.type")
+    .optional()
+    .isIn(["service", "other"])
+    .withMessage("Type must be one of: service, other"),
+];
+
+/**
+ * Validation rules for listing recurring invoices
+ */
+export const listRecurringInvoicesValidation = [
+  query("customerId")
+    .optional()
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+];
+
+/**
+ * Validation rules for creating a recurring invoice
+ */
+export const createRecurringInvoiceValidation = [
+  body("customerId")
+    .exists()
+    .withMessage("Customer ID is required")
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+  body("name")
+    .exists()
+    .withMessage("Name is required")
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Name must be between 1 and 255 characters"),
+  body("frequency")
+    .exists()
+    .withMessage("Frequency is required")
+    .isIn(FREQUENCIES)
+    .withMessage("Frequency must be one of: monthly, quarterly, yearly"),
+  body("nextIssueDate")
+    .exists()
+    .withMessage("Next issue date is required")
+    .isISO8601()
+    .withMessage("Next issue date must be a valid ISO 8601 date")
+    .bail()
+    .custom(isNotInThePast)
+    .withMessage("Next issue date can't be in the past"),
+  body("endDate")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("End date must be a valid ISO 8601 date"),
+  body("dueDays")
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Due days must be between 0 and 365")
+    .toInt(),
+  body("notes")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 10000 })
+    .withMessage("Notes must not exceed 10000 characters"),
+  body("autoEmail")
+    .optional()
+    .isBoolean()
+    .withMessage("autoEmail must be a boolean")
+    .toBoolean(),
+  ...itemsValidation(true),
+];
+
+/**
+ * Validation rules for updating a recurring invoice
+ */
+export const updateRecurringInvoiceValidation = [
+  param("id").isUUID().withMessage("Recurring invoice ID must be a valid UUID"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Name must be between 1 and 255 characters"),
+  body("frequency")
+    .optional()
+    .isIn(FREQUENCIES)
+    .withMessage("Frequency must be one of: monthly, quarterly, yearly"),
+  body("status")
+    .optional()
+    .isIn(["active", "paused"])
+    .withMessage("Status must be one of: active, paused"),
+  body("nextIssueDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Next issue date must be a valid ISO 8601 date")
+    .bail()
+    .custom(isNotInThePast)
+    .withMessage("Next issue date can't be in the past"),
+  body("endDate")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("End date must be a valid ISO 8601 date"),
+  body("dueDays")
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage("Due days must be between 0 and 365")
+    .toInt(),
+  body("notes")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 10000 })
+    .withMessage("Notes must not exceed 10000 characters"),
+  body("autoEmail")
+    .optional()
+    .isBoolean()
+    .withMessage("autoEmail must be a boolean")
+    .toBoolean(),
+  body("autopayEnabled")
+    .optional()
+    .isBoolean()
+    .withMessage("autopayEnabled must be a boolean")
+    .toBoolean(),
+  ...itemsValidation(false),
+];
+
+/**
+ * Validation rules for saving a card for autopay
+ */
+export const saveRecurringInvoiceCardValidation = [
+  param("id").isUUID().withMessage("Recurring invoice ID must be a valid UUID"),
+  body("sourceId")
+    .exists()
+    .withMessage("Card token is required")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Card token must be a non-empty string"),
+];
+
+/**
+ * Validation rules for routes that take a recurring invoice ID
+ */
+export const recurringInvoiceIdValidation = [
+  param("id").isUUID().withMessage("Recurring invoice ID must be a valid UUID"),
+];
@@ -0,0 +1,65 @@
+import { body, query } from "express-validator";
+
+const RESOURCES = ["tickets", "invoices", "inventory"];
+const VISIBILITIES = ["user", "company"];
+
+const nameRule = () =>
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name must not exceed 100 characters");
+
+const filterRule = body("filter")
+  .optional()
+  .isString()
+  .isLength({ max: 500 })
+  .withMessage("Filter must not exceed 500 characters");
+
+const sortRule = body("sort")
+  .optional({ values: "falsy" })
+  .matches(/^-?[a-zA-Z]+$/)
+  .withMessage("Sort must be a field name, prefixed with - for descending");
+
+const visibilityRule = body("visibility")
+  .optional()
+  .isIn(VISIBILITIES)
+  .withMessage(`Visibility must be one of: ${VISIBILITIES.join(", ")}`);
+
+/**
+ * Validation rules for listing saved views
+ */
+export const listSavedViewsValidation = [
+  query("resource")
+    .optional()
+    .isIn(RESOURCES)
+    .withMessage(`Resource must be one of: ${RESOURCES.join(", ")}`),
+  query("pinned")
+    .optional()
+    .isBoolean()
+    .withMessage("Pinned must be a boolean"),
+];
+
+/**
+ * Validation rules for saving a view
+ */
+export const createSavedViewValidation = [
+  body("resource")
+    .isIn(RESOURCES)
+    .withMessage(`Resource must be one of: ${RESOURCES.join(", ")}`),
+  nameRule(),
+  filterRule,
+  sortRule,
+  visibilityRule,
+];
+
+/**
+ * Validation rules for updating a saved view
+ */
+export const updateSavedViewValidation = [
+  nameRule().optional(),
+  filterRule,
+  sortRule,
+  visibilityRule,
+];
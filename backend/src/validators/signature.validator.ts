@@ -0,0 +1,54 @@
+import { body, param } from "express-validator";
+import { SIGNATURE_KINDS } from "../services/signature.service.js";
+
+/**
+ * Validation rules for saving a new version of the signature terms
+ */
+export const saveSignatureTermsValidation = [
+  param("kind")
+    .isIn(SIGNATURE_KINDS)
+    .withMessage(`Kind must be one of: ${SIGNATURE_KINDS.join(", ")}`),
+  body("body")
+    .exists()
+    .withMessage("Terms text is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Terms text cannot be empty")
+    .isLength({ max: 10000 })
+    .withMessage("Terms text must not exceed 10000 characters"),
+];
+
+/**
+ * Validation rules for the terms kind in the URL
+ */
+export const signatureKindValidation = [
+  param("kind")
+    .isIn(SIGNATURE_KINDS)
+    .withMessage(`Kind must be one of: ${SIGNATURE_KINDS.join(", ")}`),
+];
+
+/**
+ * Validation rules for capturing a customer signature on a ticket
+ */
+export const captureSignatureValidation = [
+  body("kind")
+    .isIn(SIGNATURE_KINDS)
+    .withMessage(`Kind must be one of: ${SIGNATURE_KINDS.join(", ")}`),
+  body("signerName")
+    .exists()
+    .withMessage("Signer name is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Signer name is required")
+    .isLength({ max: 255 })
+    .withMessage("Signer name must not exceed 255 characters"),
+  body("signatureImage")
+    .isString()
+    .withMessage("Signature is required")
+    .notEmpty()
+    .withMessage("Signature is required"),
+  body("termsVersion")
+    .isInt({ min: 0 })
+    .withMessage("Terms version must be a whole number")
+    .toInt(),
+];
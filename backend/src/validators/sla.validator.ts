@@ -0,0 +1,29 @@
+import { body } from "express-validator";
+import { SLA_PRIORITIES } from "../services/sla.service.js";
+
+/**
+ * Validation rules for saving SLA policies
+ */
+export const saveSlaPoliciesValidation = [
+  body("policies")
+    .isArray({ min: 1 })
+    .withMessage("At least one SLA policy is required"),
+  body("policies.*.priority")
+    .isIn(SLA_PRIORITIES)
+    .withMessage(`Priority must be one of: ${SLA_PRIORITIES.join(", ")}`),
+  body("policies.*.assignmentTargetMinutes")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("Assignment target must be a positive number of minutes")
+    .toInt(),
+  body("policies.*.completionTargetMinutes")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("Completion target must be a positive number of minutes")
+    .toInt(),
+  body("policies.*.warningPercent")
+    .optional()
+    .isInt({ min: 1, max: 99 })
+    .withMessage("Warning percent must be between 1 and 99")
+    .toInt(),
+];
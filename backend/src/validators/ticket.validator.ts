@@ -1,4 +1,10 @@
-import { body } from "express-validator";
+import { body, query } from "express-validator";
+import {
+  BULK_TICKET_ACTIONS,
+  MAX_BULK_TICKETS,
+} from "../services/ticket-bulk.service.js";
+import { LABEL_DPIS, LABEL_SIZES } from "../services/ticket-document.service.js";
+import { STATUS_KEY_PATTERN } from "./workflow.validator.js";
 
 /**
  * Validation rules for creating a ticket
@@ -9,6 +15,16 @@ export const createTicketValidation = [
     .withMessage("Customer ID is required")
     .isUUID()
     .withMessage("Customer ID must be a valid UUID"),
+  body("ticketType")
+    .optional()
+    .isIn(["repair", "warranty_claim"])
+    .withMessage("Ticket type must be repair or warranty_claim"),
+  body("originalTicketId")
+    .if(body("ticketType").equals("warranty_claim"))
+    .exists({ checkFalsy: true })
+    .withMessage("Original ticket is required for a warranty claim")
+    .isUUID()
+    .withMessage("Original ticket ID must be a valid UUID"),
   body("deviceType")
     .exists()
     .withMessage("Device type is required")
@@ -41,8 +57,8 @@ export const createTicketValidation = [
     }),
   body("status")
     .optional()
-    .isIn(["new", "assigned", "in_progress", "on_hold", "completed", "cancelled"])
-    .withMessage("Status must be one of: new, assigned, in_progress, on_hold, completed, cancelled"),
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage("Status must be a valid workflow status"),
   body("priority")
     .optional()
     .isIn(["low", "medium", "high", "urgent"])
@@ -130,8 +146,8 @@ export const updateTicketValidation = [
     }),
   body("status")
     .optional()
-    .isIn(["new", "assigned", "in_progress", "on_hold", "completed", "cancelled"])
-    .withMessage("Status must be one of: new, assigned, in_progress, on_hold, completed, cancelled"),
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage("Status must be a valid workflow status"),
   body("priority")
     .optional()
     .isIn(["low", "medium", "high", "urgent"])
@@ -245,6 +261,19 @@ export const assignTechnicianValidation = [
       }
       return true;
     }),
+  // null means the caller expects the ticket to be unassigned
+  body("expectedTechnicianId")
+    .optional()
+    .custom((value) => {
+      if (value === null) {
+        return true;
+      }
+      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      if (typeof value !== "string" || !uuidRegex.test(value)) {
+        throw new Error("Expected technician ID must be a valid UUID or null");
+      }
+      return true;
+    }),
 ];
 
 /**
@@ -254,8 +283,96 @@ export const updateStatusValidation = [
   body("status")
     .exists()
     .withMessage("Status is required")
-    .isIn(["new", "assigned", "in_progress", "on_hold", "completed", "cancelled"])
-    .withMessage("Status must be one of: new, assigned, in_progress, on_hold, completed, cancelled"),
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage("Status must be a valid workflow status"),
+  body("expectedStatus")
+    .optional()
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage("Expected status must be a valid workflow status"),
+];
+
+/**
+ * Validation rules for printing a device label
+ */
+export const ticketLabelValidation = [
+  query("format")
+    .optional()
+    .isIn(["pdf", "zpl"])
+    .withMessage("Format must be pdf or zpl"),
+  query("size")
+    .optional()
+    .isIn(Object.keys(LABEL_SIZES))
+    .withMessage(`Size must be one of: ${Object.keys(LABEL_SIZES).join(", ")}`),
+  query("dpi")
+    .optional()
+    .isIn(LABEL_DPIS.map(String))
+    .withMessage(`DPI must be one of: ${LABEL_DPIS.join(", ")}`),
+];
+
+/**
+ * Validation rules for the tickets a bulk request acts on
+ */
+export const bulkTicketIdsValidation = [
+  body("ticketIds")
+    .isArray({ min: 1, max: MAX_BULK_TICKETS })
+    .withMessage(`Select between 1 and ${MAX_BULK_TICKETS} tickets`),
+  body("ticketIds.*")
+    .isUUID()
+    .withMessage("Ticket IDs must be valid UUIDs"),
+];
+
+/**
+ * Validation rules for changing many tickets at once
+ */
+export const bulkTicketValidation = [
+  body("action")
+    .isIn(BULK_TICKET_ACTIONS)
+    .withMessage(`Action must be one of: ${BULK_TICKET_ACTIONS.join(", ")}`),
+  ...bulkTicketIdsValidation,
+  body("technicianId")
+    .if(body("action").equals("assign"))
+    .optional({ values: "falsy" })
+    .isUUID()
+    .withMessage("Technician ID must be a valid UUID"),
+  body("status")
+    .if(body("action").equals("status"))
+    .exists()
+    .withMessage("Status is required")
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage("Status must be a valid workflow status"),
+  body("notifyCustomer")
+    .optional()
+    .isBoolean()
+    .withMessage("Notify customer must be a boolean")
+    .toBoolean(),
+  body("priority")
+    .if(body("action").equals("priority"))
+    .isIn(["low", "medium", "high", "urgent"])
+    .withMessage("Priority must be one of: low, medium, high, urgent"),
+  body("locationId")
+    .if(body("action").equals("location"))
+    .isUUID()
+    .withMessage("Location ID must be a valid UUID"),
+];
+
+/**
+ * Validation rules for printing device labels for many tickets
+ */
+export const bulkTicketLabelValidation = [
+  ...bulkTicketIdsValidation,
+  body("format")
+    .optional()
+    .isIn(["pdf", "zpl"])
+    .withMessage("Format must be pdf or zpl"),
+  body("size")
+    .optional()
+    .isIn(Object.keys(LABEL_SIZES))
+    .withMessage(`Size must be one of: ${Object.keys(LABEL_SIZES).join(", ")}`),
+  body("dpi")
+    .optional()
+    .isIn(LABEL_DPIS)
+    .withMessage(`DPI must be one of: ${LABEL_DPIS.join(", ")}`)
+    .toInt(),
 ];
 
 /**
@@ -285,3 +402,46 @@ export const addRepairNotesValidation = [
     .isLength({ min: 1, max: 10000 })
     .withMessage("Notes must be between 1 and 10000 characters"),
 ];
+
+/**
+ * Validation rules for adding a ticket comment
+ */
+export const createTicketCommentValidation = [
+  body("body")
+    .exists()
+    .withMessage("Comment body is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Comment body cannot be empty")
+    .isLength({ min: 1, max: 10000 })
+    .withMessage("Comment body must be between 1 and 10000 characters"),
+  body("visibility")
+    .optional()
+    .isIn(["internal", "customer"])
+    .withMessage("Visibility must be one of: internal, customer"),
+  body("parentId")
+    .optional({ values: "falsy" })
+    .isUUID()
+    .withMessage("Parent comment ID must be a valid UUID"),
+  body("notifyCustomer")
+    .optional()
+    .isBoolean()
+    .withMessage("notifyCustomer must be a boolean"),
+];
+
+/**
+ * Validation rules for editing a ticket comment
+ */
+export const updateTicketCommentValidation = [
+  body("body")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Comment body cannot be empty")
+    .isLength({ min: 1, max: 10000 })
+    .withMessage("Comment body must be between 1 and 10000 characters"),
+  body("visibility")
+    .optional()
+    .isIn(["internal", "customer"])
+    .withMessage("Visibility must be one of: internal, customer"),
+];
@@ -0,0 +1,59 @@
+import { body } from "express-validator";
+
+// A day is the longest single entry that makes sense on a repair
+const MAX_ENTRY_MINUTES = 24 * 60;
+
+const laborCategoryIdRule = body("laborCategoryId")
+  .optional({ nullable: true })
+  .isUUID()
+  .withMessage("Labor category ID must be a valid UUID");
+
+const notesRule = body("notes")
+  .optional({ nullable: true })
+  .trim()
+  .isLength({ max: 1000 })
+  .withMessage("Notes must not exceed 1000 characters");
+
+/**
+ * Validation rules for starting a timer
+ */
+export const startTimerValidation = [laborCategoryIdRule, notesRule];
+
+/**
+ * Validation rules for logging time manually
+ */
+export const logTimeEntryValidation = [
+  body("userId")
+    .optional()
+    .isUUID()
+    .withMessage("User ID must be a valid UUID"),
+  laborCategoryIdRule,
+  body("startedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Start time must be a valid date"),
+  body("durationMinutes")
+    .exists()
+    .withMessage("Duration is required")
+    .isInt({ min: 1, max: MAX_ENTRY_MINUTES })
+    .withMessage(`Duration must be between 1 and ${MAX_ENTRY_MINUTES} minutes`)
+    .toInt(),
+  notesRule,
+];
+
+/**
+ * Validation rules for updating a time entry
+ */
+export const updateTimeEntryValidation = [
+  laborCategoryIdRule,
+  body("startedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Start time must be a valid date"),
+  body("durationMinutes")
+    .optional()
+    .isInt({ min: 1, max: MAX_ENTRY_MINUTES })
+    .withMessage(`Duration must be between 1 and ${MAX_ENTRY_MINUTES} minutes`)
+    .toInt(),
+  notesRule,
+];
@@ -0,0 +1,25 @@
+import { body, query } from "express-validator";
+
+/**
+ * Validation rules for setting the default repair warranty
+ */
+export const setWarrantySettingsValidation = [
+  // Null means repairs have no warranty unless a part or labor category gives one
+  body("defaultWarrantyDays").exists().withMessage("Default warranty is required"),
+  body("defaultWarrantyDays")
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: 3650 })
+    .withMessage("Warranty must be between 0 and 3650 days")
+    .toInt(),
+];
+
+/**
+ * Validation rules for looking up a customer's warranty coverage
+ */
+export const warrantyCoverageValidation = [
+  query("customerId")
+    .exists()
+    .withMessage("Customer ID is required")
+    .isUUID()
+    .withMessage("Customer ID must be a valid UUID"),
+];
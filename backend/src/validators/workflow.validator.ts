@@ -0,0 +1,69 @@
+import { body } from "express-validator";
+import {
+  WORKFLOW_CONDITIONS,
+  WORKFLOW_ROLES,
+  WORKFLOW_STATUS_COLORS,
+} from "../config/workflow.js";
+
+// Status keys are stored on tickets, so keep them short and URL/query friendly
+export const STATUS_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Validation rules for saving a company's ticket workflow
+ */
+export const saveWorkflowValidation = [
+  body("statuses")
+    .isArray({ min: 1 })
+    .withMessage("Workflow must have at least one status"),
+  body("statuses.*.key")
+    .exists()
+    .withMessage("Status key is required")
+    .matches(STATUS_KEY_PATTERN)
+    .withMessage(
+      "Status key must start with a letter and contain only lowercase letters, numbers, and underscores (max 50 characters)"
+    ),
+  body("statuses.*.label")
+    .exists()
+    .withMessage("Status label is required")
+    .trim()
+    .notEmpty()
+    .withMessage("Status label is required")
+    .isLength({ max: 100 })
+    .withMessage("Status label must not exceed 100 characters"),
+  body("statuses.*.color")
+    .optional()
+    .isIn([...WORKFLOW_STATUS_COLORS])
+    .withMessage(`Status color must be one of: ${WORKFLOW_STATUS_COLORS.join(", ")}`),
+  body("statuses.*.isClosed")
+    .optional()
+    .isBoolean()
+    .withMessage("isClosed must be a boolean"),
+  body("transitions")
+    .isArray()
+    .withMessage("Transitions must be an array"),
+  body("transitions.*.from")
+    .exists()
+    .withMessage("Transition from status is required")
+    .isString()
+    .withMessage("Transition from status must be a string"),
+  body("transitions.*.to")
+    .exists()
+    .withMessage("Transition to status is required")
+    .isString()
+    .withMessage("Transition to status must be a string"),
+  body("transitions.*.allowedRoles")
+    .isArray({ min: 1 })
+    .withMessage("Each transition must allow at least one role"),
+  body("transitions.*.allowedRoles.*")
+    .isIn(WORKFLOW_ROLES)
+    .withMessage(`Role must be one of: ${WORKFLOW_ROLES.join(", ")}`),
+  body("transitions.*.requiredConditions")
+    .optional()
+    .isArray()
+    .withMessage("Required conditions must be an array"),
+  body("transitions.*.requiredConditions.*")
+    .isIn(Object.keys(WORKFLOW_CONDITIONS))
+    .withMessage(
+      `Condition must be one of: ${Object.keys(WORKFLOW_CONDITIONS).join(", ")}`
+    ),
+];
@@ -0,0 +1,37 @@
+-- Migration: Add Ticket Events
+-- Description: Creates ticket_events table to keep an audit history of every change made to a ticket
+-- Date: 2025-12-10
+
+-- Step 1: Create ticket_events table
+CREATE TABLE IF NOT EXISTS ticket_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  event_type VARCHAR(50) NOT NULL CHECK (event_type IN (
+    'created',
+    'updated',
+    'status_changed',
+    'technician_assigned',
+    'diagnostic_notes_added',
+    'repair_notes_added',
+    'deleted'
+  )),
+  field VARCHAR(100),
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket_id ON ticket_events(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_events_company_id ON ticket_events(company_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_events_actor_id ON ticket_events(actor_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_events_created_at ON ticket_events(created_at);
+
+-- Add comments
+COMMENT ON TABLE ticket_events IS 'Append-only audit history of ticket changes';
+COMMENT ON COLUMN ticket_events.actor_id IS 'User who made the change (NULL for system changes or deleted users)';
+COMMENT ON COLUMN ticket_events.field IS 'Ticket field that changed (camelCase API name), NULL for whole-ticket events';
+COMMENT ON COLUMN ticket_events.old_value IS 'Value before the change, serialized as text';
+COMMENT ON COLUMN ticket_events.new_value IS 'Value after the change, serialized as text';
@@ -0,0 +1,44 @@
+-- Migration: Add Ticket Comments
+-- Description: Creates ticket_comments and ticket_comment_revisions tables for threaded,
+--              visibility-scoped comments on tickets with a full edit history
+-- Date: 2025-12-11
+
+-- Step 1: Create ticket_comments table
+CREATE TABLE IF NOT EXISTS ticket_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES ticket_comments(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  visibility VARCHAR(20) NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'customer')),
+  edited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Step 2: Create ticket_comment_revisions table
+CREATE TABLE IF NOT EXISTS ticket_comment_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  comment_id UUID NOT NULL REFERENCES ticket_comments(id) ON DELETE CASCADE,
+  editor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  visibility VARCHAR(20) NOT NULL CHECK (visibility IN ('internal', 'customer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ticket_comments_ticket_id ON ticket_comments(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_comments_company_id ON ticket_comments(company_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_comments_parent_id ON ticket_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_comments_visibility ON ticket_comments(ticket_id, visibility) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_ticket_comment_revisions_comment_id ON ticket_comment_revisions(comment_id);
+
+-- Add comments
+COMMENT ON TABLE ticket_comments IS 'Threaded comments on tickets, either internal to staff or shared with the customer';
+COMMENT ON COLUMN ticket_comments.parent_id IS 'Top-level comment this is a reply to (NULL for top-level comments)';
+COMMENT ON COLUMN ticket_comments.visibility IS 'internal = staff only, customer = included in customer notifications';
+COMMENT ON COLUMN ticket_comments.edited_at IS 'When the comment was last edited (NULL if never edited)';
+COMMENT ON TABLE ticket_comment_revisions IS 'Previous versions of ticket comments, one row per edit';
+COMMENT ON COLUMN ticket_comment_revisions.body IS 'Comment body as it was before the edit';
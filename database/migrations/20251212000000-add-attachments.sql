@@ -0,0 +1,36 @@
+-- Migration: Add Attachments
+-- Description: Creates attachments table for photos and documents uploaded against tickets and assets.
+--              File contents live in the configured storage driver; this table only holds metadata.
+-- Date: 2025-12-12
+
+-- Step 1: Create attachments table
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID REFERENCES tickets(id) ON DELETE CASCADE,
+  asset_id UUID REFERENCES assets(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  file_name VARCHAR(255) NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  storage_key VARCHAR(500) NOT NULL,
+  thumbnail_key VARCHAR(500),
+  thumbnail_size_bytes INTEGER NOT NULL DEFAULT 0 CHECK (thumbnail_size_bytes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Every attachment belongs to exactly one ticket or asset
+  CONSTRAINT attachments_owner_check CHECK (
+    (ticket_id IS NOT NULL AND asset_id IS NULL) OR (ticket_id IS NULL AND asset_id IS NOT NULL)
+  )
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_attachments_company_id ON attachments(company_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_ticket_id ON attachments(ticket_id) WHERE ticket_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_asset_id ON attachments(asset_id) WHERE asset_id IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE attachments IS 'Files uploaded against tickets and assets (intake photos, damage evidence, signed waivers)';
+COMMENT ON COLUMN attachments.storage_key IS 'Key of the original file in the storage driver';
+COMMENT ON COLUMN attachments.thumbnail_key IS 'Key of the generated thumbnail (NULL for non-image files)';
+COMMENT ON COLUMN attachments.size_bytes IS 'Size of the original file; counts toward the company storage quota';
+COMMENT ON COLUMN attachments.thumbnail_size_bytes IS 'Size of the thumbnail; counts toward the company storage quota';
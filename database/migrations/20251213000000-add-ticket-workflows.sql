@@ -0,0 +1,48 @@
+-- Migration: Add Ticket Workflows
+-- Description: Lets each company define its own ticket statuses and which status changes are allowed.
+--              Companies without any rows here use the built-in default workflow.
+-- Date: 2025-12-13
+
+-- Step 1: Widen tickets.status so it can hold custom status keys
+ALTER TABLE tickets ALTER COLUMN status TYPE VARCHAR(50);
+
+-- Step 2: Create ticket_workflow_statuses table
+CREATE TABLE IF NOT EXISTS ticket_workflow_statuses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  key VARCHAR(50) NOT NULL,
+  label VARCHAR(100) NOT NULL,
+  color VARCHAR(20) NOT NULL DEFAULT 'gray',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_closed BOOLEAN NOT NULL DEFAULT false,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_workflow_statuses_company_key_unique UNIQUE (company_id, key)
+);
+
+-- Step 3: Create ticket_workflow_transitions table
+CREATE TABLE IF NOT EXISTS ticket_workflow_transitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  from_status VARCHAR(50) NOT NULL,
+  to_status VARCHAR(50) NOT NULL,
+  allowed_roles TEXT[] NOT NULL DEFAULT '{}',
+  required_conditions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_workflow_transitions_unique UNIQUE (company_id, from_status, to_status),
+  CONSTRAINT ticket_workflow_transitions_distinct_check CHECK (from_status <> to_status)
+);
+
+-- Step 4: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ticket_workflow_statuses_company_id ON ticket_workflow_statuses(company_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_workflow_transitions_company_id ON ticket_workflow_transitions(company_id);
+
+-- Add comments
+COMMENT ON TABLE ticket_workflow_statuses IS 'Ticket statuses configured per company (built-in and custom, e.g. Awaiting Parts)';
+COMMENT ON COLUMN ticket_workflow_statuses.key IS 'Value stored in tickets.status';
+COMMENT ON COLUMN ticket_workflow_statuses.is_closed IS 'Tickets in this status are considered finished';
+COMMENT ON COLUMN ticket_workflow_statuses.is_system IS 'Built-in status that other features rely on; cannot be removed';
+COMMENT ON TABLE ticket_workflow_transitions IS 'Status changes allowed by a company workflow';
+COMMENT ON COLUMN ticket_workflow_transitions.allowed_roles IS 'Roles that may make this status change';
+COMMENT ON COLUMN ticket_workflow_transitions.required_conditions IS 'Checks the ticket must pass first (e.g. checklist_complete)';
@@ -0,0 +1,72 @@
+-- Migration: Add SLA Policies
+-- Description: Per-company SLA targets by ticket priority, plus the ticket columns and alert log
+--              the SLA scheduler uses to flag tickets that are at risk or in breach.
+-- Date: 2025-12-14
+
+-- Step 1: Create sla_policies table
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  priority VARCHAR(20) NOT NULL CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  assignment_target_minutes INTEGER CHECK (assignment_target_minutes > 0),
+  completion_target_minutes INTEGER CHECK (completion_target_minutes > 0),
+  warning_percent INTEGER NOT NULL DEFAULT 80 CHECK (warning_percent > 0 AND warning_percent < 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT sla_policies_company_priority_unique UNIQUE (company_id, priority)
+);
+
+-- Step 2: Track when a ticket was first assigned and when it first breached its SLA
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_assigned_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill first assignment from the ticket history where we have it
+UPDATE tickets t
+SET first_assigned_at = COALESCE(
+  (
+    SELECT MIN(e.created_at)
+    FROM ticket_events e
+    WHERE e.ticket_id = t.id AND e.event_type = 'technician_assigned' AND e.new_value IS NOT NULL
+  ),
+  t.created_at
+)
+WHERE t.technician_id IS NOT NULL AND t.first_assigned_at IS NULL;
+
+-- Step 3: Create ticket_sla_alerts table (one row per ticket, target and level so alerts are sent once)
+CREATE TABLE IF NOT EXISTS ticket_sla_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  target VARCHAR(20) NOT NULL CHECK (target IN ('assignment', 'completion')),
+  level VARCHAR(20) NOT NULL CHECK (level IN ('at_risk', 'breached')),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_sla_alerts_unique UNIQUE (ticket_id, target, level)
+);
+
+-- Step 4: Allow SLA breaches to be recorded in the ticket history
+ALTER TABLE ticket_events DROP CONSTRAINT IF EXISTS ticket_events_event_type_check;
+ALTER TABLE ticket_events ADD CONSTRAINT ticket_events_event_type_check CHECK (event_type IN (
+  'created',
+  'updated',
+  'status_changed',
+  'technician_assigned',
+  'diagnostic_notes_added',
+  'repair_notes_added',
+  'sla_breached',
+  'deleted'
+));
+
+-- Step 5: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sla_policies_company_id ON sla_policies(company_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_sla_alerts_ticket_id ON ticket_sla_alerts(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_tickets_sla_breached_at ON tickets(company_id, sla_breached_at) WHERE sla_breached_at IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE sla_policies IS 'SLA targets per company and ticket priority';
+COMMENT ON COLUMN sla_policies.assignment_target_minutes IS 'Minutes from ticket creation to first technician assignment (NULL = no target)';
+COMMENT ON COLUMN sla_policies.completion_target_minutes IS 'Minutes from ticket creation to a closed status (NULL = no target)';
+COMMENT ON COLUMN sla_policies.warning_percent IS 'Share of the target elapsed before a ticket is flagged as at risk';
+COMMENT ON COLUMN tickets.first_assigned_at IS 'When a technician was first assigned to the ticket';
+COMMENT ON COLUMN tickets.sla_breached_at IS 'When the ticket first missed an SLA target';
+COMMENT ON TABLE ticket_sla_alerts IS 'SLA alerts raised for tickets; used so each alert is only sent once';
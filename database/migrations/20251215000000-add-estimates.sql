@@ -0,0 +1,90 @@
+-- Migration: Add Estimates
+-- Description: Repair estimates (quotes) that are sent to the customer for approval before work
+--              starts. Approved estimates are converted into draft invoices, and tickets wait in
+--              the built-in "Awaiting Approval" status while the customer decides.
+-- Date: 2025-12-15
+
+-- Step 1: Create estimates table
+CREATE TABLE IF NOT EXISTS estimates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  estimate_number VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'approved', 'declined', 'withdrawn')),
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  valid_until TIMESTAMP WITH TIME ZONE,
+  previous_ticket_status VARCHAR(50),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  approved_by_name VARCHAR(255),
+  decline_reason TEXT,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT estimates_company_number_unique UNIQUE (company_id, estimate_number)
+);
+
+-- Step 2: Create estimate_items table (mirrors invoice_items)
+CREATE TABLE IF NOT EXISTS estimate_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+  inventory_item_id UUID REFERENCES inventory_items(id) ON DELETE SET NULL,
+  description VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL,
+  discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('part', 'service', 'other')),
+  is_taxable BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 3: Add the Awaiting Approval status to companies that have saved their own workflow
+-- (companies on the default workflow pick it up automatically)
+INSERT INTO ticket_workflow_statuses (company_id, key, label, color, sort_order, is_closed, is_system)
+SELECT company_id, 'awaiting_approval', 'Awaiting Approval', 'indigo', MAX(sort_order) + 1, false, true
+FROM ticket_workflow_statuses
+GROUP BY company_id
+ON CONFLICT (company_id, key) DO NOTHING;
+
+-- Step 4: Allow estimate activity to be recorded in the ticket history
+ALTER TABLE ticket_events DROP CONSTRAINT IF EXISTS ticket_events_event_type_check;
+ALTER TABLE ticket_events ADD CONSTRAINT ticket_events_event_type_check CHECK (event_type IN (
+  'created',
+  'updated',
+  'status_changed',
+  'technician_assigned',
+  'diagnostic_notes_added',
+  'repair_notes_added',
+  'sla_breached',
+  'estimate_sent',
+  'estimate_approved',
+  'estimate_declined',
+  'deleted'
+));
+
+-- Step 5: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_estimates_company_id ON estimates(company_id);
+CREATE INDEX IF NOT EXISTS idx_estimates_ticket_id ON estimates(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_estimates_status ON estimates(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_estimate_items_estimate_id ON estimate_items(estimate_id);
+
+-- Add comments
+COMMENT ON TABLE estimates IS 'Repair quotes sent to customers for approval before work starts';
+COMMENT ON COLUMN estimates.status IS 'draft, sent (awaiting the customer), approved, declined or withdrawn by staff';
+COMMENT ON COLUMN estimates.valid_until IS 'After this the customer can no longer approve the estimate';
+COMMENT ON COLUMN estimates.previous_ticket_status IS 'Ticket status before the estimate was sent; restored once the customer responds';
+COMMENT ON COLUMN estimates.approved_by_name IS 'Name the customer entered when approving';
+COMMENT ON COLUMN estimates.invoice_id IS 'Draft invoice created from the approved estimate';
+COMMENT ON TABLE estimate_items IS 'Parts and labor lines on an estimate';
@@ -0,0 +1,46 @@
+-- Migration: Add Ticket Signatures
+-- Description: Customer signatures captured at drop-off (intake) and pick-up, recorded against
+--              versioned, per-company terms text together with the signer's IP address and device.
+-- Date: 2025-12-16
+
+-- Step 1: Create signature_terms table (one row per version; rows are never updated)
+CREATE TABLE IF NOT EXISTS signature_terms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('intake', 'pickup')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  body TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT signature_terms_company_kind_version_unique UNIQUE (company_id, kind, version)
+);
+
+-- Step 2: Create ticket_signatures table
+CREATE TABLE IF NOT EXISTS ticket_signatures (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('intake', 'pickup')),
+  signer_name VARCHAR(255) NOT NULL,
+  signature_image TEXT NOT NULL,
+  terms_version INTEGER NOT NULL,
+  terms_text TEXT NOT NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  captured_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  signed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_signatures_ticket_kind_unique UNIQUE (ticket_id, kind)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_signature_terms_company_kind ON signature_terms(company_id, kind, version DESC);
+CREATE INDEX IF NOT EXISTS idx_ticket_signatures_ticket_id ON ticket_signatures(ticket_id);
+
+-- Add comments
+COMMENT ON TABLE signature_terms IS 'Versioned terms text customers agree to when signing at intake or pickup';
+COMMENT ON COLUMN signature_terms.version IS 'Increments on every edit; the highest version is the current terms';
+COMMENT ON TABLE ticket_signatures IS 'Customer signatures captured at drop-off and pick-up';
+COMMENT ON COLUMN ticket_signatures.signature_image IS 'PNG data URL of the signature';
+COMMENT ON COLUMN ticket_signatures.terms_version IS 'Terms version shown when signing (0 = built-in default terms)';
+COMMENT ON COLUMN ticket_signatures.terms_text IS 'Exact terms text the customer agreed to';
+COMMENT ON COLUMN ticket_signatures.user_agent IS 'Browser/device the signature was captured on';
@@ -0,0 +1,55 @@
+-- Migration: Add Ticket Time Tracking
+-- Description: Technician time logged against tickets, either with start/stop timers or as manual
+--              entries, grouped by labor category so it can be billed as labor on the ticket's invoice.
+-- Date: 2025-12-17
+
+-- Step 1: Create labor_categories table
+CREATE TABLE IF NOT EXISTS labor_categories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  hourly_rate DECIMAL(10, 2) CHECK (hourly_rate >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Step 2: Create ticket_time_entries table
+CREATE TABLE IF NOT EXISTS ticket_time_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id),
+  labor_category_id UUID REFERENCES labor_categories(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER CHECK (duration_minutes >= 0),
+  notes TEXT,
+  invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT ticket_time_entries_duration_check CHECK (
+    (ended_at IS NULL AND duration_minutes IS NULL) OR
+    (ended_at IS NOT NULL AND duration_minutes IS NOT NULL)
+  )
+);
+
+-- Step 3: Create indexes for performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_labor_categories_company_name
+  ON labor_categories(company_id, LOWER(name)) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_ticket_time_entries_ticket_id ON ticket_time_entries(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_time_entries_user_started
+  ON ticket_time_entries(company_id, user_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_ticket_time_entries_invoice_item_id ON ticket_time_entries(invoice_item_id);
+-- A technician can only have one timer running at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_time_entries_running
+  ON ticket_time_entries(user_id) WHERE ended_at IS NULL;
+
+-- Add comments
+COMMENT ON TABLE labor_categories IS 'Kinds of labor time is logged against, e.g. diagnostics or board repair';
+COMMENT ON COLUMN labor_categories.hourly_rate IS 'Rate billed for this category; NULL uses the company default labor rate';
+COMMENT ON TABLE ticket_time_entries IS 'Time technicians spent on a ticket';
+COMMENT ON COLUMN ticket_time_entries.ended_at IS 'NULL while the timer is running';
+COMMENT ON COLUMN ticket_time_entries.duration_minutes IS 'Minutes worked, set when the timer stops or the entry is logged manually';
+COMMENT ON COLUMN ticket_time_entries.invoice_item_id IS 'Labor line the time was billed on; NULL until billed';
@@ -0,0 +1,44 @@
+-- Migration: Add Part Reservations
+-- Description: Lets technicians hold inventory for a ticket before it is invoiced. Stock at a location
+--              is split into on-hand (quantity), reserved and available (on-hand minus reserved).
+-- Date: 2025-12-18
+
+-- Step 1: Track reserved stock per location
+ALTER TABLE inventory_location_quantities
+  ADD COLUMN IF NOT EXISTS reserved_quantity INTEGER NOT NULL DEFAULT 0
+    CHECK (reserved_quantity >= 0);
+
+-- Step 2: Create ticket_part_reservations table
+CREATE TABLE IF NOT EXISTS ticket_part_reservations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'reserved'
+    CHECK (status IN ('reserved', 'consumed', 'released')),
+  invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT ticket_part_reservations_reserved_check CHECK (reserved_quantity <= quantity)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ticket_part_reservations_ticket_id ON ticket_part_reservations(ticket_id);
+CREATE INDEX IF NOT EXISTS idx_ticket_part_reservations_item_location
+  ON ticket_part_reservations(inventory_item_id, location_id) WHERE status = 'reserved';
+-- A ticket holds each part in a single open reservation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_part_reservations_open
+  ON ticket_part_reservations(ticket_id, inventory_item_id) WHERE status = 'reserved';
+
+-- Add comments
+COMMENT ON COLUMN inventory_location_quantities.quantity IS 'On-hand stock at the location';
+COMMENT ON COLUMN inventory_location_quantities.reserved_quantity IS 'On-hand stock held for tickets; available is quantity minus reserved_quantity';
+COMMENT ON TABLE ticket_part_reservations IS 'Parts held for a ticket until they are invoiced or released';
+COMMENT ON COLUMN ticket_part_reservations.quantity IS 'Units the repair needs';
+COMMENT ON COLUMN ticket_part_reservations.reserved_quantity IS 'Units actually held; less than quantity when stock is short';
+COMMENT ON COLUMN ticket_part_reservations.status IS 'reserved while held, consumed once invoiced, released if no longer needed';
@@ -0,0 +1,41 @@
+-- Migration: Add Warranty Tracking
+-- Description: Repair warranty terms on parts and labor categories, the warranty recorded on completed
+--              tickets and their invoices, and warranty claim tickets that link back to the original repair.
+-- Date: 2025-12-19
+
+-- Step 1: Warranty terms on parts and on kinds of service
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS warranty_days INTEGER CHECK (warranty_days >= 0);
+ALTER TABLE labor_categories
+  ADD COLUMN IF NOT EXISTS warranty_days INTEGER CHECK (warranty_days >= 0);
+
+-- Step 2: Ticket type, claim links and the recorded warranty on tickets
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS ticket_type VARCHAR(20) NOT NULL DEFAULT 'repair'
+    CHECK (ticket_type IN ('repair', 'warranty_claim')),
+  ADD COLUMN IF NOT EXISTS original_ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS warranty_days INTEGER CHECK (warranty_days >= 0),
+  ADD COLUMN IF NOT EXISTS warranty_starts_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS warranty_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 3: The recorded warranty on invoices
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS warranty_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 4: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tickets_original_ticket_id
+  ON tickets(original_ticket_id) WHERE original_ticket_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tickets_warranty_starts_at
+  ON tickets(company_id, warranty_starts_at) WHERE warranty_starts_at IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN inventory_items.warranty_days IS 'Days a repair using this part is under warranty; NULL means no warranty of its own';
+COMMENT ON COLUMN labor_categories.warranty_days IS 'Days work of this kind is under warranty; NULL means no warranty of its own';
+COMMENT ON COLUMN tickets.ticket_type IS 'repair, or warranty_claim for a device returned under an earlier repair''s warranty';
+COMMENT ON COLUMN tickets.original_ticket_id IS 'For warranty claims, the repair being claimed against';
+COMMENT ON COLUMN tickets.original_invoice_id IS 'For warranty claims, the invoice of the repair being claimed against';
+COMMENT ON COLUMN tickets.warranty_days IS 'Warranty term recorded when the repair was completed';
+COMMENT ON COLUMN tickets.warranty_starts_at IS 'When the warranty started, i.e. when the repair was completed';
+COMMENT ON COLUMN tickets.warranty_expires_at IS 'When the repair warranty runs out; NULL if the repair has no warranty';
+COMMENT ON COLUMN invoices.warranty_expires_at IS 'Expiry of the warranty on the repair this invoice bills';
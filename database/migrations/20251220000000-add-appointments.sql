@@ -0,0 +1,68 @@
+-- Migration: Add Appointments
+-- Description: Drop-off and on-site appointments booked against a location and technician, optionally
+--              repeating, with per-location business hours for online self-booking. Checking an
+--              appointment in turns it into a ticket.
+-- Date: 2025-12-20
+
+-- Step 1: Business hours and online booking settings on locations
+ALTER TABLE locations
+  ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS business_hours JSONB,
+  ADD COLUMN IF NOT EXISTS booking_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS booking_slot_minutes INTEGER NOT NULL DEFAULT 30
+    CHECK (booking_slot_minutes BETWEEN 5 AND 480);
+
+-- Step 2: Create appointments table
+CREATE TABLE IF NOT EXISTS appointments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  technician_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+  series_id UUID,
+  appointment_type VARCHAR(20) NOT NULL DEFAULT 'drop_off'
+    CHECK (appointment_type IN ('drop_off', 'on_site')),
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'checked_in', 'cancelled', 'no_show')),
+  source VARCHAR(20) NOT NULL DEFAULT 'staff'
+    CHECK (source IN ('staff', 'online')),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  contact_first_name VARCHAR(100),
+  contact_last_name VARCHAR(100),
+  contact_email VARCHAR(255),
+  contact_phone VARCHAR(20),
+  device_type VARCHAR(100),
+  device_brand VARCHAR(100),
+  device_model VARCHAR(100),
+  issue_description TEXT,
+  address TEXT,
+  notes TEXT,
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT appointments_time_check CHECK (ends_at > starts_at)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_appointments_location_starts
+  ON appointments(company_id, location_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_technician_starts
+  ON appointments(technician_id, starts_at) WHERE technician_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_appointments_customer_id ON appointments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_series_id
+  ON appointments(series_id) WHERE series_id IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN locations.timezone IS 'IANA time zone business hours and bookable slots are given in';
+COMMENT ON COLUMN locations.business_hours IS 'Opening hours by weekday, e.g. {"monday": {"open": "09:00", "close": "17:00"}}; a missing day is closed';
+COMMENT ON COLUMN locations.booking_enabled IS 'Whether customers can book appointments online';
+COMMENT ON COLUMN locations.booking_slot_minutes IS 'Length of an online booking slot';
+COMMENT ON TABLE appointments IS 'Booked drop-offs and on-site visits';
+COMMENT ON COLUMN appointments.series_id IS 'Shared by every appointment of a repeating booking';
+COMMENT ON COLUMN appointments.source IS 'staff, or online for customer self-bookings';
+COMMENT ON COLUMN appointments.contact_email IS 'Contact given with an online booking; matched to a customer at check-in';
+COMMENT ON COLUMN appointments.ticket_id IS 'Ticket opened when the customer checked in';
+COMMENT ON COLUMN appointments.address IS 'Where an on-site visit takes place';
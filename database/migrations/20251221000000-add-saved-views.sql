@@ -0,0 +1,47 @@
+-- Migration: Add Saved Views
+-- Description: Named filter and sort combinations for the ticket, invoice and inventory lists, kept
+--              for one user or shared with the whole company, and pinned to the sidebar per user.
+-- Date: 2025-12-21
+
+-- Step 1: Create saved_views table
+CREATE TABLE IF NOT EXISTS saved_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  resource VARCHAR(20) NOT NULL
+    CHECK (resource IN ('tickets', 'invoices', 'inventory')),
+  name VARCHAR(100) NOT NULL,
+  filter TEXT NOT NULL DEFAULT '',
+  sort VARCHAR(50),
+  visibility VARCHAR(20) NOT NULL DEFAULT 'user'
+    CHECK (visibility IN ('user', 'company')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Create saved_view_pins table
+CREATE TABLE IF NOT EXISTS saved_view_pins (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  saved_view_id UUID NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, saved_view_id)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_saved_views_company_resource
+  ON saved_views(company_id, resource);
+CREATE INDEX IF NOT EXISTS idx_saved_views_user_id ON saved_views(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_view_pins_saved_view_id ON saved_view_pins(saved_view_id);
+
+-- Sorting and cursor pagination walk these in (column, id) order
+CREATE INDEX IF NOT EXISTS idx_tickets_company_created_id ON tickets(company_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_invoices_company_created_id ON invoices(company_id, created_at, id);
+
+-- Add comments
+COMMENT ON TABLE saved_views IS 'Named list filters users can come back to';
+COMMENT ON COLUMN saved_views.user_id IS 'User who saved the view';
+COMMENT ON COLUMN saved_views.resource IS 'List the view applies to: tickets, invoices or inventory';
+COMMENT ON COLUMN saved_views.filter IS 'Filter expression, e.g. status:new,in_progress created:2025-01-01..';
+COMMENT ON COLUMN saved_views.sort IS 'Sort field, prefixed with - for descending';
+COMMENT ON COLUMN saved_views.visibility IS 'user keeps the view to its owner, company shares it with everyone';
+COMMENT ON TABLE saved_view_pins IS 'Saved views each user has pinned to the sidebar';
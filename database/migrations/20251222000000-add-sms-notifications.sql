@@ -0,0 +1,19 @@
+-- Migration: Add SMS Notifications
+-- Description: Per-customer consent to receive text messages. Texts are only sent to customers who
+--              opted in, and a STOP reply to the shop's number opts them back out.
+-- Date: 2025-12-22
+
+-- Step 1: Text message consent on customers
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS sms_opt_in BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sms_opt_in_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 2: Create indexes for performance
+-- Inbound texts are matched to customers on the digits of their phone number
+CREATE INDEX IF NOT EXISTS idx_customers_phone_digits
+  ON customers(company_id, (regexp_replace(phone, '[^0-9]', '', 'g')))
+  WHERE phone IS NOT NULL AND deleted_at IS NULL;
+
+-- Add comments
+COMMENT ON COLUMN customers.sms_opt_in IS 'Whether the customer agreed to receive text messages';
+COMMENT ON COLUMN customers.sms_opt_in_changed_at IS 'When the customer last opted in or out, from the app or by texting STOP/START';
@@ -0,0 +1,44 @@
+-- Migration: Add Customer Messages
+-- Description: Conversation history with customers across email and SMS. Outbound notifications
+--              and staff replies are stored alongside inbound messages posted by the providers'
+--              webhooks, so replies show up on the customer and ticket instead of vanishing.
+-- Date: 2025-12-23
+
+-- Step 1: Create customer_messages table
+CREATE TABLE IF NOT EXISTS customer_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+  channel VARCHAR(10) NOT NULL
+    CHECK (channel IN ('email', 'sms')),
+  direction VARCHAR(10) NOT NULL
+    CHECK (direction IN ('inbound', 'outbound')),
+  from_address VARCHAR(255),
+  to_address VARCHAR(255) NOT NULL,
+  subject VARCHAR(255),
+  body TEXT NOT NULL,
+  provider_message_id VARCHAR(255),
+  sent_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customer_messages_customer
+  ON customer_messages(company_id, customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_messages_ticket
+  ON customer_messages(ticket_id, created_at);
+-- Unread counts only look at inbound messages nobody has read yet
+CREATE INDEX IF NOT EXISTS idx_customer_messages_unread
+  ON customer_messages(company_id, customer_id)
+  WHERE direction = 'inbound' AND read_at IS NULL;
+
+-- Add comments
+COMMENT ON TABLE customer_messages IS 'Emails and texts sent to and received from customers';
+COMMENT ON COLUMN customer_messages.ticket_id IS 'Ticket the message is about, if known';
+COMMENT ON COLUMN customer_messages.direction IS 'outbound messages were sent by the shop, inbound ones by the customer';
+COMMENT ON COLUMN customer_messages.from_address IS 'Email address or E.164 phone number the message came from, if the provider has one';
+COMMENT ON COLUMN customer_messages.to_address IS 'Email address or E.164 phone number the message went to';
+COMMENT ON COLUMN customer_messages.sent_by IS 'Staff member who wrote an outbound reply; null for automatic notifications';
+COMMENT ON COLUMN customer_messages.read_at IS 'When staff read an inbound message; null while unread';
@@ -0,0 +1,30 @@
+-- Migration: Add Email Templates
+-- Description: Per-company overrides for the subject and body of customer and staff emails
+--              (ticket status updates, invoices, invitations and password resets). Companies
+--              without an override get the built-in default. Logo and brand colors are kept in
+--              companies.settings.emailBranding.
+-- Date: 2025-12-24
+
+-- Step 1: Create email_templates table
+CREATE TABLE IF NOT EXISTS email_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  template_key VARCHAR(30) NOT NULL
+    CHECK (template_key IN ('ticket_status', 'invoice', 'invitation', 'password_reset')),
+  subject VARCHAR(255) NOT NULL,
+  body TEXT NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: One override per email per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_templates_company_key
+  ON email_templates(company_id, template_key);
+
+-- Add comments
+COMMENT ON TABLE email_templates IS 'Company overrides of the built-in email templates';
+COMMENT ON COLUMN email_templates.template_key IS 'Which email the template is for';
+COMMENT ON COLUMN email_templates.subject IS 'Subject line, may contain {{variable}} placeholders';
+COMMENT ON COLUMN email_templates.body IS 'Plain text body with {{variable}} placeholders, {{#variable}}...{{/variable}} sections and [label](link) buttons';
+COMMENT ON COLUMN email_templates.updated_by IS 'Admin who last saved the template';
@@ -0,0 +1,50 @@
+-- Migration: Add Email Messages
+-- Description: Log of every outbound email per company. Failed sends are retried with backoff by
+--              a background worker until they go through or run out of attempts, and SendGrid's
+--              event webhook updates delivery, bounce and open status.
+-- Date: 2025-12-25
+
+-- Step 1: Create email_messages table
+CREATE TABLE IF NOT EXISTS email_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID REFERENCES companies(id) ON DELETE CASCADE,
+  template VARCHAR(30) NOT NULL,
+  sender VARCHAR(20) NOT NULL DEFAULT 'company'
+    CHECK (sender IN ('company', 'site_wide')),
+  to_address VARCHAR(1000) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'delivered', 'opened', 'bounced', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  provider_message_id VARCHAR(255),
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  opened_at TIMESTAMP WITH TIME ZONE,
+  bounced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_email_messages_company
+  ON email_messages(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_messages_provider_message_id
+  ON email_messages(provider_message_id);
+-- The retry worker only looks at messages waiting for another attempt
+CREATE INDEX IF NOT EXISTS idx_email_messages_retry
+  ON email_messages(next_attempt_at)
+  WHERE status = 'pending' AND next_attempt_at IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE email_messages IS 'Outbound emails and their delivery status';
+COMMENT ON COLUMN email_messages.company_id IS 'Company the email was sent for; null for password resets of users without one';
+COMMENT ON COLUMN email_messages.template IS 'Which email this is, e.g. ticket_status, invoice, customer_message';
+COMMENT ON COLUMN email_messages.sender IS 'company sends through the company''s email integration, site_wide through the platform SendGrid account';
+COMMENT ON COLUMN email_messages.payload IS 'Everything needed to send the email again: recipients, subject, text, HTML and attachments';
+COMMENT ON COLUMN email_messages.status IS 'pending until sent; failed once out of attempts; delivered, opened and bounced come from provider events';
+COMMENT ON COLUMN email_messages.next_attempt_at IS 'When the retry worker should try again; null when no retry is scheduled';
+COMMENT ON COLUMN email_messages.provider_message_id IS 'Message ID the provider returned, used to match its events';
+COMMENT ON COLUMN email_messages.error IS 'Last send error or bounce reason';
@@ -0,0 +1,60 @@
+-- Migration: Add Invoice Payments
+-- Description: A ledger of payments against each invoice, so an invoice can take a deposit or be
+--              paid part in cash and part by card. invoices.amount_paid keeps the ledger's total so
+--              the balance due can be shown on lists, and invoices part way there are 'partially_paid'.
+-- Date: 2025-12-26
+
+-- Step 1: Create invoice_payments table
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(50) NOT NULL,
+  payment_reference VARCHAR(100),
+  cash_drawer_session_id UUID,
+  notes TEXT,
+  received_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice
+  ON invoice_payments(invoice_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_drawer
+  ON invoice_payments(cash_drawer_session_id)
+  WHERE cash_drawer_session_id IS NOT NULL;
+-- Provider webhooks look payments up by transaction ID
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_reference
+  ON invoice_payments(company_id, payment_reference)
+  WHERE payment_reference IS NOT NULL;
+
+-- Step 3: Add the running total to invoices
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Step 4: Move the single payment of invoices already paid into the ledger
+INSERT INTO invoice_payments (
+  company_id, invoice_id, amount, payment_method, payment_reference, cash_drawer_session_id, paid_at, created_at
+)
+SELECT
+  i.company_id, i.id, i.total_amount, COALESCE(i.payment_method, 'Other'), i.payment_reference,
+  i.cash_drawer_session_id, COALESCE(i.paid_date, i.updated_at), NOW()
+FROM invoices i
+WHERE i.status = 'paid'
+  AND i.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments p WHERE p.invoice_id = i.id);
+
+UPDATE invoices i
+SET amount_paid = p.total
+FROM (SELECT invoice_id, SUM(amount) AS total FROM invoice_payments GROUP BY invoice_id) p
+WHERE p.invoice_id = i.id AND i.amount_paid <> p.total;
+
+-- Add comments
+COMMENT ON TABLE invoice_payments IS 'Payments received against invoices; an invoice can have several, e.g. a deposit or split tender';
+COMMENT ON COLUMN invoice_payments.payment_method IS 'How it was paid, e.g. Cash, Credit Card or the payment provider';
+COMMENT ON COLUMN invoice_payments.payment_reference IS 'Check number or the payment provider''s transaction ID';
+COMMENT ON COLUMN invoice_payments.cash_drawer_session_id IS 'Drawer session a cash payment went into; counted when the drawer is closed';
+COMMENT ON COLUMN invoice_payments.received_by IS 'Staff member who took the payment; null for online and webhook payments';
+COMMENT ON COLUMN invoices.amount_paid IS 'Total of the invoice''s payments; balance due is total_amount minus this';
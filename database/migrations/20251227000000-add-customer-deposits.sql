@@ -0,0 +1,55 @@
+-- Migration: Add Customer Deposits
+-- Description: Deposits and prepayments taken from a customer before there is an invoice to pay, e.g.
+--              for an expensive part on order. What hasn't been applied to an invoice or refunded is the
+--              customer's credit balance. Applying a deposit records an invoice payment that points back to it.
+-- Date: 2025-12-27
+
+-- Step 1: Create customer_deposits table
+CREATE TABLE IF NOT EXISTS customer_deposits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  ticket_id UUID REFERENCES tickets(id) ON DELETE SET NULL,
+  location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  amount_applied DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  amount_refunded DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  payment_method VARCHAR(50) NOT NULL,
+  payment_reference VARCHAR(100),
+  is_provider_payment BOOLEAN NOT NULL DEFAULT false,
+  cash_drawer_session_id UUID,
+  notes TEXT,
+  received_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT customer_deposits_not_overdrawn
+    CHECK (amount_applied >= 0 AND amount_refunded >= 0 AND amount_applied + amount_refunded <= amount)
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_customer_deposits_customer
+  ON customer_deposits(company_id, customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_customer_deposits_ticket
+  ON customer_deposits(ticket_id)
+  WHERE ticket_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_customer_deposits_drawer
+  ON customer_deposits(cash_drawer_session_id)
+  WHERE cash_drawer_session_id IS NOT NULL;
+
+-- Step 3: Link invoice payments to the deposit they were paid from
+ALTER TABLE invoice_payments
+ADD COLUMN IF NOT EXISTS customer_deposit_id UUID REFERENCES customer_deposits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_deposit
+  ON invoice_payments(customer_deposit_id)
+  WHERE customer_deposit_id IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE customer_deposits IS 'Deposits and prepayments taken from customers; the unused remainder is their credit balance';
+COMMENT ON COLUMN customer_deposits.ticket_id IS 'Repair the deposit was taken for; applied automatically to the ticket''s invoice';
+COMMENT ON COLUMN customer_deposits.amount_applied IS 'How much of the deposit has been used to pay invoices';
+COMMENT ON COLUMN customer_deposits.amount_refunded IS 'How much of the unused deposit was refunded to the customer';
+COMMENT ON COLUMN customer_deposits.payment_reference IS 'Check number or the payment provider''s transaction ID, used to refund a card deposit';
+COMMENT ON COLUMN customer_deposits.is_provider_payment IS 'Charged through the payment integration, so a refund goes back to the card';
+COMMENT ON COLUMN customer_deposits.cash_drawer_session_id IS 'Drawer session a cash deposit went into; counted when the drawer is closed';
+COMMENT ON COLUMN invoice_payments.customer_deposit_id IS 'Deposit this payment was applied from, if any';
@@ -0,0 +1,120 @@
+-- Migration: Add Store Credit, Gift Cards and Credit Memos
+-- Description: Refunds are written up as credit memos against the invoice they give money back on, and can be
+--              paid out as store credit. Customers carry a store credit balance and shops sell gift cards with
+--              their own code and balance. Both can be used to pay invoices and keep a full history of every
+--              change to their balance.
+-- Date: 2025-12-28
+
+-- Step 1: Store credit balance on customers
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS store_credit_balance DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE customers
+DROP CONSTRAINT IF EXISTS customers_store_credit_not_negative;
+ALTER TABLE customers
+ADD CONSTRAINT customers_store_credit_not_negative CHECK (store_credit_balance >= 0);
+
+-- Step 2: Create credit_memos table
+CREATE TABLE IF NOT EXISTS credit_memos (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  credit_memo_number VARCHAR(50) NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  refund_method VARCHAR(50) NOT NULL,
+  reason TEXT,
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT credit_memos_number_unique UNIQUE (company_id, credit_memo_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_memos_invoice ON credit_memos(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_memos_customer
+  ON credit_memos(customer_id)
+  WHERE customer_id IS NOT NULL;
+
+-- Step 3: Create gift_cards table
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  code VARCHAR(32) NOT NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  initial_amount DECIMAL(10, 2) NOT NULL CHECK (initial_amount > 0),
+  balance DECIMAL(10, 2) NOT NULL CHECK (balance >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT gift_cards_code_unique UNIQUE (company_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_customer
+  ON gift_cards(customer_id)
+  WHERE customer_id IS NOT NULL;
+
+-- Step 4: Link invoice payments to the gift card they were paid with
+ALTER TABLE invoice_payments
+ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES gift_cards(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_gift_card
+  ON invoice_payments(gift_card_id)
+  WHERE gift_card_id IS NOT NULL;
+
+-- Step 5: Create gift_card_transactions table
+CREATE TABLE IF NOT EXISTS gift_card_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('sale', 'redemption')),
+  amount DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  payment_method VARCHAR(50),
+  payment_reference VARCHAR(100),
+  cash_drawer_session_id UUID,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  invoice_payment_id UUID REFERENCES invoice_payments(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card
+  ON gift_card_transactions(gift_card_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_drawer
+  ON gift_card_transactions(cash_drawer_session_id)
+  WHERE cash_drawer_session_id IS NOT NULL;
+
+-- Step 6: Create store_credit_transactions table
+CREATE TABLE IF NOT EXISTS store_credit_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('refund', 'redemption', 'adjustment')),
+  amount DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  invoice_payment_id UUID REFERENCES invoice_payments(id) ON DELETE SET NULL,
+  credit_memo_id UUID REFERENCES credit_memos(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_transactions_customer
+  ON store_credit_transactions(company_id, customer_id, created_at);
+
+-- Add comments
+COMMENT ON COLUMN customers.store_credit_balance IS 'Store credit the customer can spend on invoices; changes are logged in store_credit_transactions';
+COMMENT ON TABLE credit_memos IS 'Refund documents, one per refund given back on an invoice';
+COMMENT ON COLUMN credit_memos.refund_method IS 'How the money went back: store_credit, manual, or the payment provider';
+COMMENT ON TABLE gift_cards IS 'Gift cards sold by the shop; spent by code as an invoice payment';
+COMMENT ON COLUMN gift_cards.customer_id IS 'Customer who bought the card, if known; anyone with the code can spend it';
+COMMENT ON COLUMN gift_cards.is_active IS 'Deactivated cards cannot be spent';
+COMMENT ON TABLE gift_card_transactions IS 'Every change to a gift card''s balance, with the balance after it';
+COMMENT ON COLUMN gift_card_transactions.amount IS 'Positive when money goes onto the card, negative when it is spent';
+COMMENT ON COLUMN gift_card_transactions.cash_drawer_session_id IS 'Drawer session a card sold for cash went into; counted when the drawer is closed';
+COMMENT ON TABLE store_credit_transactions IS 'Every change to a customer''s store credit balance, with the balance after it';
+COMMENT ON COLUMN store_credit_transactions.amount IS 'Positive when credit is given, negative when it is spent or taken away';
+COMMENT ON COLUMN invoice_payments.gift_card_id IS 'Gift card this payment was made with, if any';
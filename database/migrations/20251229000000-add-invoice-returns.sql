@@ -0,0 +1,56 @@
+-- Migration: Add Invoice Returns
+-- Description: Itemized returns against a paid invoice. Each return records which lines and quantities came back,
+--              whether each returned part went back on the shelf or was written off, the tax refunded on the
+--              returned portion and any restocking fee kept. The money given back is written up as a credit memo.
+-- Date: 2025-12-29
+
+-- Step 1: Create invoice_returns table
+CREATE TABLE IF NOT EXISTS invoice_returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  return_number VARCHAR(50) NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  credit_memo_id UUID REFERENCES credit_memos(id) ON DELETE SET NULL,
+  subtotal DECIMAL(10, 2) NOT NULL CHECK (subtotal >= 0),
+  discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  restocking_fee DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (restocking_fee >= 0),
+  refund_amount DECIMAL(10, 2) NOT NULL CHECK (refund_amount > 0),
+  refund_method VARCHAR(50) NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT invoice_returns_number_unique UNIQUE (company_id, return_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_returns_invoice ON invoice_returns(invoice_id);
+
+-- Step 2: Create invoice_return_items table
+CREATE TABLE IF NOT EXISTS invoice_return_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_id UUID NOT NULL REFERENCES invoice_returns(id) ON DELETE CASCADE,
+  invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+  inventory_item_id UUID REFERENCES inventory_items(id) ON DELETE SET NULL,
+  description VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL,
+  subtotal DECIMAL(10, 2) NOT NULL,
+  tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  disposition VARCHAR(20) NOT NULL CHECK (disposition IN ('restock', 'write_off')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_return_items_return ON invoice_return_items(return_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_return_items_invoice_item
+  ON invoice_return_items(invoice_item_id)
+  WHERE invoice_item_id IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE invoice_returns IS 'Return documents listing the invoice lines a customer brought back and what they got back for them';
+COMMENT ON COLUMN invoice_returns.discount_amount IS 'Share of the invoice-level discount that applied to the returned lines';
+COMMENT ON COLUMN invoice_returns.tax_amount IS 'Tax refunded on the returned lines, in proportion to the tax charged on the invoice';
+COMMENT ON COLUMN invoice_returns.restocking_fee IS 'Kept by the shop and taken off the refund';
+COMMENT ON COLUMN invoice_returns.credit_memo_id IS 'Credit memo the refund was written up as';
+COMMENT ON COLUMN invoice_return_items.unit_price IS 'Price per unit actually charged, after the line discount';
+COMMENT ON COLUMN invoice_return_items.disposition IS 'restock puts the part back into inventory at the invoice location; write_off leaves stock as is';
@@ -0,0 +1,71 @@
+-- Migration: Add Recurring Invoices
+-- Description: Recurring invoice schedules (service contracts) bill a customer the same line items every month,
+--              quarter or year. Each invoice is issued automatically on its date, emailed to the customer and,
+--              with autopay turned on, charged to the customer's card saved with the payment provider.
+-- Date: 2025-12-30
+
+-- Step 1: Create recurring_invoices table
+CREATE TABLE IF NOT EXISTS recurring_invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id),
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  next_issue_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_date TIMESTAMP WITH TIME ZONE,
+  due_days INTEGER NOT NULL DEFAULT 0 CHECK (due_days >= 0),
+  notes TEXT,
+  auto_email BOOLEAN NOT NULL DEFAULT true,
+  autopay_enabled BOOLEAN NOT NULL DEFAULT false,
+  square_customer_id VARCHAR(255),
+  square_card_id VARCHAR(255),
+  last_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  last_issued_at TIMESTAMP WITH TIME ZONE,
+  last_autopay_error TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_company ON recurring_invoices(company_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_customer ON recurring_invoices(customer_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_due
+  ON recurring_invoices(next_issue_date)
+  WHERE status = 'active' AND deleted_at IS NULL;
+
+-- Step 2: Create recurring_invoice_items table
+CREATE TABLE IF NOT EXISTS recurring_invoice_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  recurring_invoice_id UUID NOT NULL REFERENCES recurring_invoices(id) ON DELETE CASCADE,
+  description VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  type VARCHAR(20) NOT NULL DEFAULT 'service' CHECK (type IN ('service', 'other')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_items_schedule
+  ON recurring_invoice_items(recurring_invoice_id, sort_order);
+
+-- Step 3: Link invoices to the schedule that issued them
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS recurring_invoice_id UUID REFERENCES recurring_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_recurring
+  ON invoices(recurring_invoice_id)
+  WHERE recurring_invoice_id IS NOT NULL;
+
+-- Add comments
+COMMENT ON TABLE recurring_invoices IS 'Recurring invoice schedules, e.g. a monthly managed-device fee';
+COMMENT ON COLUMN recurring_invoices.next_issue_date IS 'When the next invoice is issued; moved on by one period each time';
+COMMENT ON COLUMN recurring_invoices.end_date IS 'No invoices are issued after this date; the schedule ends';
+COMMENT ON COLUMN recurring_invoices.due_days IS 'Days after issue that each invoice is due';
+COMMENT ON COLUMN recurring_invoices.auto_email IS 'Email each invoice to the customer when it is issued';
+COMMENT ON COLUMN recurring_invoices.square_card_id IS 'Card saved with Square that autopay charges';
+COMMENT ON COLUMN recurring_invoices.last_autopay_error IS 'Why the last autopay charge failed; cleared when one succeeds';
+COMMENT ON TABLE recurring_invoice_items IS 'Line items copied onto every invoice the schedule issues';
+COMMENT ON COLUMN invoices.recurring_invoice_id IS 'Recurring schedule that issued this invoice, if any';
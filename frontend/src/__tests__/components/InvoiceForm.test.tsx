@@ -103,6 +103,8 @@ describe('InvoiceForm', () => {
         taxAmount: 8,
         discountAmount: 0,
         totalAmount: 108,
+        amountPaid: 0,
+        balanceDue: 108,
         createdAt: '2024-01-01',
         updatedAt: '2024-01-01',
         invoiceItems: [],
@@ -171,6 +173,8 @@ describe('InvoiceForm', () => {
         taxAmount: 8,
         discountAmount: 0,
         totalAmount: 108,
+        amountPaid: 0,
+        balanceDue: 108,
         createdAt: '2024-01-01',
         updatedAt: '2024-01-01',
         invoiceItems: [
@@ -228,6 +232,8 @@ describe('InvoiceForm', () => {
         taxAmount: 8,
         discountAmount: 0,
         totalAmount: 108,
+        amountPaid: 0,
+        balanceDue: 108,
         createdAt: '2024-01-01',
         updatedAt: '2024-01-01',
         invoiceItems: [
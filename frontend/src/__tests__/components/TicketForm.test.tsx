@@ -13,6 +13,7 @@ jest.mock('@/lib/api/customer.api')
 jest.mock('@/lib/api/asset.api')
 jest.mock('@/lib/api')
 jest.mock('@/lib/api/diagnostic-checklist.api')
+jest.mock('@/lib/api/attachment.api')
 
 const mockedTicketApi = ticketApi as jest.Mocked<typeof ticketApi>
 const mockedCustomerApi = customerApi as jest.Mocked<typeof customerApi>
@@ -0,0 +1,28 @@
+import { formatStatus, getStatusColor } from '@/lib/utils/ticketUtils'
+
+describe('ticket utility functions', () => {
+  describe('formatStatus', () => {
+    it('formats built-in statuses', () => {
+      expect(formatStatus('in_progress')).toBe('In progress')
+    })
+
+    it('replaces every underscore in custom statuses', () => {
+      expect(formatStatus('ready_for_customer_pickup')).toBe('Ready for customer pickup')
+    })
+  })
+
+  describe('getStatusColor', () => {
+    it('uses the default color for built-in statuses', () => {
+      expect(getStatusColor('completed')).toContain('bg-green-100')
+    })
+
+    it('uses the workflow color when given', () => {
+      expect(getStatusColor('awaiting_parts', 'teal')).toContain('bg-teal-100')
+    })
+
+    it('falls back to gray for unknown statuses and colors', () => {
+      expect(getStatusColor('awaiting_parts')).toContain('bg-gray-100')
+      expect(getStatusColor('awaiting_parts', 'not-a-color')).toContain('bg-gray-100')
+    })
+  })
+})
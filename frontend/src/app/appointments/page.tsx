@@ -0,0 +1,540 @@
+"use client";
+
+import AppointmentModal from "@/components/AppointmentModal";
+import { getErrorMessage, getTechnicians, Technician } from "@/lib/api";
+import {
+  Appointment,
+  AppointmentStatus,
+  cancelAppointment,
+  checkInAppointment,
+  getAppointments,
+  markAppointmentNoShow,
+} from "@/lib/api/appointment.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_STYLES: Record<AppointmentStatus, string> = {
+  scheduled:
+    "bg-blue-50 border-blue-300 text-blue-900 dark:bg-blue-900/30 dark:border-blue-700 dark:text-blue-100",
+  checked_in:
+    "bg-green-50 border-green-300 text-green-900 dark:bg-green-900/30 dark:border-green-700 dark:text-green-100",
+  cancelled:
+    "bg-gray-50 border-gray-300 text-gray-500 line-through dark:bg-gray-800 dark:border-gray-600 dark:text-gray-400",
+  no_show:
+    "bg-red-50 border-red-300 text-red-900 dark:bg-red-900/30 dark:border-red-700 dark:text-red-100",
+};
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: "Scheduled",
+  checked_in: "Checked in",
+  cancelled: "Cancelled",
+  no_show: "No-show",
+};
+
+// Monday of the week containing the date, at local midnight
+const startOfWeek = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// "YYYY-MM-DD" in local time
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate()
+  ).padStart(2, "0")}`;
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function AppointmentsPage() {
+  const router = useRouter();
+  const { user, hasPermission, isLoading: userLoading } = useUser();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [technicianId, setTechnicianId] = useState("");
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [selected, setSelected] = useState<Appointment | null>(null);
+  const [newAppointmentDate, setNewAppointmentDate] = useState<string | null>(
+    null
+  );
+  const [checkInDetails, setCheckInDetails] = useState({
+    deviceType: "",
+    issueDescription: "",
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+  const [error, setError] = useState("");
+  const [actionError, setActionError] = useState("");
+
+  const canView = hasPermission("tickets.read");
+  const canManage = ["admin", "manager", "technician", "frontdesk", "superuser"].includes(
+    user?.role || ""
+  );
+
+  // Check if user has permission to access this page
+  useEffect(() => {
+    if (!userLoading && !canView) {
+      router.push("/dashboard");
+    }
+  }, [userLoading, canView, router]);
+
+  const fetchAppointments = useCallback(async () => {
+    try {
+      const response = await getAppointments({
+        start: weekStart.toISOString(),
+        end: new Date(weekStart.getTime() + 7 * DAY_MS).toISOString(),
+        technicianId: technicianId || undefined,
+      });
+      setAppointments(response.data || []);
+      setError("");
+    } catch (err) {
+      console.error("Error fetching appointments:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [weekStart, technicianId]);
+
+  useEffect(() => {
+    if (!canView) return;
+    fetchAppointments();
+  }, [canView, fetchAppointments]);
+
+  useEffect(() => {
+    if (!canView) return;
+
+    const fetchTechnicians = async () => {
+      try {
+        const response = await getTechnicians();
+        setTechnicians(response.data || []);
+      } catch (err) {
+        console.error("Error fetching technicians:", err);
+      }
+    };
+
+    fetchTechnicians();
+  }, [canView]);
+
+  const openAppointment = (appointment: Appointment) => {
+    setSelected(appointment);
+    setActionError("");
+    setCheckInDetails({
+      deviceType: appointment.deviceType || "",
+      issueDescription: appointment.issueDescription || "",
+    });
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsActing(true);
+    setActionError("");
+    try {
+      await action();
+    } catch (err) {
+      setActionError(getErrorMessage(err));
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  const handleCheckIn = (appointment: Appointment) =>
+    runAction(async () => {
+      const response = await checkInAppointment(appointment.id, {
+        deviceType: checkInDetails.deviceType.trim() || undefined,
+        issueDescription: checkInDetails.issueDescription.trim() || undefined,
+      });
+      if (response.data) {
+        router.push(`/tickets/${response.data.ticket.id}`);
+      }
+    });
+
+  const handleNoShow = (appointment: Appointment) =>
+    runAction(async () => {
+      const response = await markAppointmentNoShow(appointment.id);
+      setSelected(response.data || null);
+      await fetchAppointments();
+    });
+
+  const handleCancel = (appointment: Appointment, includeFollowing: boolean) =>
+    runAction(async () => {
+      const message = includeFollowing
+        ? "Cancel this and every later appointment in the series?"
+        : "Cancel this appointment?";
+      if (!window.confirm(message)) return;
+      const response = await cancelAppointment(appointment.id, includeFollowing);
+      setSelected(response.data || null);
+      await fetchAppointments();
+    });
+
+  const days = Array.from(
+    { length: 7 },
+    (_, i) => new Date(weekStart.getTime() + i * DAY_MS)
+  );
+  const today = toDateInput(new Date());
+
+  if (userLoading || (canView && isLoading)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!canView) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-6 lg:p-8">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Appointments
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {weekStart.toLocaleDateString("en-US", {
+              month: "long",
+              day: "numeric",
+            })}{" "}
+            –{" "}
+            {days[6].toLocaleDateString("en-US", {
+              month: "long",
+              day: "numeric",
+              year: "numeric",
+            })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              type="button"
+              onClick={() =>
+                setWeekStart(new Date(weekStart.getTime() - 7 * DAY_MS))
+              }
+              className="px-3 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 rounded-l-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              onClick={() => setWeekStart(startOfWeek(new Date()))}
+              className="-ml-px px-3 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              This week
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                setWeekStart(new Date(weekStart.getTime() + 7 * DAY_MS))
+              }
+              className="-ml-px px-3 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 rounded-r-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Next
+            </button>
+          </div>
+          <select
+            value={technicianId}
+            onChange={(e) => setTechnicianId(e.target.value)}
+            aria-label="Technician"
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+          >
+            <option value="">All technicians</option>
+            {technicians.map((technician) => (
+              <option key={technician.id} value={technician.id}>
+                {technician.firstName} {technician.lastName}
+              </option>
+            ))}
+          </select>
+          {canManage && (
+            <button
+              type="button"
+              onClick={() =>
+                setNewAppointmentDate(
+                  toDateInput(
+                    days.find((day) => toDateInput(day) >= today) || days[0]
+                  )
+                )
+              }
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+            >
+              New Appointment
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+        {days.map((day) => {
+          const key = toDateInput(day);
+          const dayAppointments = appointments.filter(
+            (appointment) => toDateInput(new Date(appointment.startsAt)) === key
+          );
+          return (
+            <div
+              key={key}
+              className={`rounded-lg p-2 min-h-[12rem] ${
+                key === today
+                  ? "bg-blue-50/60 dark:bg-blue-900/10 ring-1 ring-blue-300 dark:ring-blue-800"
+                  : "bg-white dark:bg-gray-800"
+              }`}
+            >
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                  {day.toLocaleDateString("en-US", { weekday: "short" })}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {day.toLocaleDateString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {dayAppointments.map((appointment) => (
+                  <button
+                    key={appointment.id}
+                    type="button"
+                    onClick={() => openAppointment(appointment)}
+                    className={`w-full text-left rounded-md border px-2 py-1 text-xs ${
+                      STATUS_STYLES[appointment.status]
+                    }`}
+                  >
+                    <div className="font-medium">
+                      {formatTime(appointment.startsAt)} –{" "}
+                      {formatTime(appointment.endsAt)}
+                    </div>
+                    <div className="truncate">{appointment.customerName}</div>
+                    <div className="truncate opacity-75">
+                      {appointment.appointmentType === "on_site"
+                        ? "On-site"
+                        : "Drop-off"}
+                      {appointment.technicianName &&
+                        ` · ${appointment.technicianName}`}
+                      {appointment.source === "online" && " · Online"}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Appointment Details */}
+      {selected && (
+        <div className="fixed inset-0 overflow-y-auto z-50 flex items-center justify-center">
+          <div
+            className="fixed inset-0 bg-black opacity-30"
+            onClick={() => setSelected(null)}
+          ></div>
+          <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-lg w-full p-6 shadow-xl mx-4">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                  {selected.customerName}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatDateTime(selected.startsAt)} –{" "}
+                  {formatTime(selected.endsAt)}
+                </p>
+              </div>
+              <span
+                className={`px-2 py-1 text-xs rounded-full border ${
+                  STATUS_STYLES[selected.status]
+                }`}
+              >
+                {STATUS_LABELS[selected.status]}
+              </span>
+            </div>
+
+            {actionError && (
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+                {actionError}
+              </div>
+            )}
+
+            <dl className="grid grid-cols-3 gap-2 text-sm mb-4">
+              <dt className="text-gray-500 dark:text-gray-400">Type</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                {selected.appointmentType === "on_site"
+                  ? "On-site visit"
+                  : "Drop-off"}
+                {selected.seriesId && " (repeating)"}
+                {selected.source === "online" && " · booked online"}
+              </dd>
+              <dt className="text-gray-500 dark:text-gray-400">Technician</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                {selected.technicianName || "Unassigned"}
+              </dd>
+              {(selected.contactEmail || selected.contactPhone) && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Contact</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                    {[selected.contactEmail, selected.contactPhone]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </dd>
+                </>
+              )}
+              {selected.address && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Address</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-gray-100 whitespace-pre-line">
+                    {selected.address}
+                  </dd>
+                </>
+              )}
+              {(selected.deviceType || selected.deviceBrand || selected.deviceModel) && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Device</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                    {[selected.deviceType, selected.deviceBrand, selected.deviceModel]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </dd>
+                </>
+              )}
+              {selected.issueDescription && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Issue</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                    {selected.issueDescription}
+                  </dd>
+                </>
+              )}
+              {selected.notes && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Notes</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-gray-100">
+                    {selected.notes}
+                  </dd>
+                </>
+              )}
+              {selected.ticketId && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Ticket</dt>
+                  <dd className="col-span-2">
+                    <Link
+                      href={`/tickets/${selected.ticketId}`}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      View ticket
+                    </Link>
+                  </dd>
+                </>
+              )}
+            </dl>
+
+            {canManage && selected.status === "scheduled" && (
+              <>
+                {(!selected.deviceType || !selected.issueDescription) && (
+                  <div className="space-y-2 mb-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Add the device and issue to open a ticket at check-in.
+                    </p>
+                    <input
+                      type="text"
+                      aria-label="Device type"
+                      placeholder="Device type"
+                      value={checkInDetails.deviceType}
+                      onChange={(e) =>
+                        setCheckInDetails((prev) => ({
+                          ...prev,
+                          deviceType: e.target.value,
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+                    />
+                    <textarea
+                      aria-label="Issue description"
+                      placeholder="Issue description"
+                      rows={2}
+                      value={checkInDetails.issueDescription}
+                      onChange={(e) =>
+                        setCheckInDetails((prev) => ({
+                          ...prev,
+                          issueDescription: e.target.value,
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    type="button"
+                    disabled={isActing}
+                    onClick={() => handleCancel(selected, false)}
+                    className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  {selected.seriesId && (
+                    <button
+                      type="button"
+                      disabled={isActing}
+                      onClick={() => handleCancel(selected, true)}
+                      className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      Cancel this and following
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={isActing}
+                    onClick={() => handleNoShow(selected)}
+                    className="px-3 py-2 text-sm border border-red-300 dark:border-red-700 rounded-md text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                  >
+                    No-show
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isActing}
+                    onClick={() => handleCheckIn(selected)}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isActing ? "Working..." : "Check In"}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <AppointmentModal
+        isOpen={newAppointmentDate !== null}
+        initialDate={newAppointmentDate || undefined}
+        technicians={technicians}
+        onClose={() => setNewAppointmentDate(null)}
+        onBooked={() => {
+          setNewAppointmentDate(null);
+          fetchAppointments();
+        }}
+      />
+    </div>
+  );
+}
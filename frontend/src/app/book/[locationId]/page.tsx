@@ -0,0 +1,462 @@
+"use client";
+
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { getErrorMessage } from "@/lib/api";
+import {
+  bookAppointment,
+  BookingConfirmation,
+  BookingLocation,
+  BookingSlot,
+  getBookingLocation,
+  getBookingSlots,
+} from "@/lib/api/booking.api";
+import React, { useEffect, useState } from "react";
+
+const inputClassName =
+  "block w-full appearance-none rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 placeholder-gray-400 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 dark:focus:border-blue-500 focus:outline-none focus:ring-blue-500 dark:focus:ring-blue-500";
+
+const labelClassName =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+// Today's date ("YYYY-MM-DD") at the location
+const todayIn = (timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone }).format(new Date());
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+};
+
+const formatTime = (instant: string, timeZone: string) =>
+  new Date(instant).toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const formatDateTime = (instant: string, timeZone: string) =>
+  new Date(instant).toLocaleString("en-US", {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function BookingPage({
+  params,
+}: {
+  params: { locationId: string };
+}) {
+  const { locationId } = params;
+  const [location, setLocation] = useState<BookingLocation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [date, setDate] = useState("");
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+
+  const [form, setForm] = useState({
+    appointmentType: "drop_off" as "drop_off" | "on_site",
+    firstName: "",
+    lastName: "",
+    email: "",
+    phone: "",
+    deviceType: "",
+    deviceBrand: "",
+    deviceModel: "",
+    issueDescription: "",
+    address: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+  const [confirmation, setConfirmation] = useState<BookingConfirmation | null>(
+    null
+  );
+
+  useEffect(() => {
+    const fetchLocation = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getBookingLocation(locationId);
+        if (response.data) {
+          setLocation(response.data);
+          setDate(todayIn(response.data.timezone));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLocation();
+  }, [locationId]);
+
+  useEffect(() => {
+    if (!date) {
+      return;
+    }
+
+    const fetchSlots = async () => {
+      setIsLoadingSlots(true);
+      setSelectedSlot(null);
+      try {
+        const response = await getBookingSlots(locationId, date);
+        setSlots(response.data || []);
+      } catch (err) {
+        setSlots([]);
+        setSubmitError(getErrorMessage(err));
+      } finally {
+        setIsLoadingSlots(false);
+      }
+    };
+
+    fetchSlots();
+  }, [locationId, date]);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSlot) {
+      setSubmitError("Choose a time");
+      return;
+    }
+
+    setSubmitError("");
+    setIsSubmitting(true);
+    try {
+      const response = await bookAppointment(locationId, {
+        startsAt: selectedSlot.startsAt,
+        appointmentType: form.appointmentType,
+        firstName: form.firstName.trim(),
+        lastName: form.lastName.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim() || undefined,
+        deviceType: form.deviceType.trim() || undefined,
+        deviceBrand: form.deviceBrand.trim() || undefined,
+        deviceModel: form.deviceModel.trim() || undefined,
+        issueDescription: form.issueDescription.trim() || undefined,
+        address:
+          form.appointmentType === "on_site"
+            ? form.address.trim() || undefined
+            : undefined,
+      });
+      if (response.data) {
+        setConfirmation(response.data);
+      }
+    } catch (err) {
+      setSubmitError(getErrorMessage(err));
+      // Someone may have taken the slot - show what's still open
+      try {
+        const response = await getBookingSlots(locationId, date);
+        setSlots(response.data || []);
+        setSelectedSlot(null);
+      } catch {
+        // Keep the current list
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <LoadingSpinner text="Loading..." />
+      </div>
+    );
+  }
+
+  if (error || !location) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+        <div className="max-w-md w-full bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6 text-center">
+          <p className="text-gray-700 dark:text-gray-300">
+            {error || "Online booking is not available for this location"}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = todayIn(location.timezone);
+  const lastDay = addDays(today, location.bookingWindowDays);
+
+  if (confirmation) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+        <div className="max-w-md w-full bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6 text-center">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            You&apos;re booked
+          </h2>
+          <p className="mt-4 text-gray-700 dark:text-gray-300">
+            {confirmation.appointmentType === "on_site"
+              ? "We'll visit you on"
+              : "We'll see you at"}{" "}
+            {confirmation.appointmentType === "drop_off" && (
+              <>
+                <span className="font-medium">{confirmation.locationName}</span>{" "}
+                on{" "}
+              </>
+            )}
+            <span className="font-medium">
+              {formatDateTime(confirmation.startsAt, location.timezone)}
+            </span>
+            .
+          </p>
+          {location.phone && (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+              Need to change it? Call us on {location.phone}.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        <div className="text-center mb-8">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {location.companyName}
+          </p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            Book an appointment
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            {location.locationName}
+            {location.address && ` · ${location.address}`}
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6 space-y-6"
+        >
+          {submitError && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
+              {submitError}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="date" className={labelClassName}>
+              Date
+            </label>
+            <input
+              id="date"
+              type="date"
+              min={today}
+              max={lastDay}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+
+          <div>
+            <p className={labelClassName}>Time</p>
+            {isLoadingSlots ? (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                Finding open times...
+              </p>
+            ) : slots.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                No open times on this day. Try another date.
+              </p>
+            ) : (
+              <div className="mt-2 grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {slots.map((slot) => {
+                  const isSelected = selectedSlot?.startsAt === slot.startsAt;
+                  return (
+                    <button
+                      key={slot.startsAt}
+                      type="button"
+                      onClick={() => setSelectedSlot(slot)}
+                      className={`px-3 py-2 text-sm rounded-md border ${
+                        isSelected
+                          ? "bg-blue-600 border-blue-600 text-white"
+                          : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      }`}
+                    >
+                      {formatTime(slot.startsAt, location.timezone)}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Times are shown in {location.timezone}.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="appointmentType" className={labelClassName}>
+              Appointment
+            </label>
+            <select
+              id="appointmentType"
+              name="appointmentType"
+              value={form.appointmentType}
+              onChange={handleChange}
+              className={`mt-1 ${inputClassName}`}
+            >
+              <option value="drop_off">Drop off my device</option>
+              <option value="on_site">Visit me on site</option>
+            </select>
+          </div>
+
+          {form.appointmentType === "on_site" && (
+            <div>
+              <label htmlFor="address" className={labelClassName}>
+                Where should we visit?
+              </label>
+              <textarea
+                id="address"
+                name="address"
+                required
+                rows={2}
+                value={form.address}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="firstName" className={labelClassName}>
+                First name
+              </label>
+              <input
+                id="firstName"
+                name="firstName"
+                required
+                value={form.firstName}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="lastName" className={labelClassName}>
+                Last name
+              </label>
+              <input
+                id="lastName"
+                name="lastName"
+                required
+                value={form.lastName}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="email" className={labelClassName}>
+                Email
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                value={form.email}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="phone" className={labelClassName}>
+                Phone
+              </label>
+              <input
+                id="phone"
+                name="phone"
+                type="tel"
+                value={form.phone}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="deviceType" className={labelClassName}>
+                Device
+              </label>
+              <input
+                id="deviceType"
+                name="deviceType"
+                value={form.deviceType}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+                placeholder="Phone, laptop..."
+              />
+            </div>
+            <div>
+              <label htmlFor="deviceBrand" className={labelClassName}>
+                Brand
+              </label>
+              <input
+                id="deviceBrand"
+                name="deviceBrand"
+                value={form.deviceBrand}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="deviceModel" className={labelClassName}>
+                Model
+              </label>
+              <input
+                id="deviceModel"
+                name="deviceModel"
+                value={form.deviceModel}
+                onChange={handleChange}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="issueDescription" className={labelClassName}>
+              What&apos;s wrong?
+            </label>
+            <textarea
+              id="issueDescription"
+              name="issueDescription"
+              rows={3}
+              value={form.issueDescription}
+              onChange={handleChange}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !selectedSlot}
+            className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 dark:bg-blue-700 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-75"
+          >
+            {isSubmitting ? "Booking..." : "Book appointment"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 "use client";
 
+import CustomerDeposits from "@/components/CustomerDeposits";
+import CustomerMessages from "@/components/CustomerMessages";
+import CustomerRecurringInvoices from "@/components/CustomerRecurringInvoices";
+import CustomerStoreCredit from "@/components/CustomerStoreCredit";
 import { Asset, getAssetsByCustomer } from "@/lib/api/asset.api";
 import {
     Customer,
@@ -340,6 +344,20 @@ export default function CustomerDetailPage({
                   </dd>
                 </div>
 
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Text messages
+                  </dt>
+                  <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                    {customer.smsOptIn ? "Opted in" : "Not opted in"}
+                    {customer.smsOptInChangedAt && (
+                      <span className="ml-1 text-gray-500 dark:text-gray-400">
+                        (since {new Date(customer.smsOptInChangedAt).toLocaleDateString()})
+                      </span>
+                    )}
+                  </dd>
+                </div>
+
                 <div className="sm:col-span-2">
                   <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Address</dt>
                   <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
@@ -449,6 +467,80 @@ export default function CustomerDetailPage({
             </div>
             </div>
 
+            {/* Messages Section */}
+            <div
+              id="messages"
+              className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg"
+            >
+              <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                  Messages
+                </h3>
+                <p className="mt-1 max-w-2xl text-sm text-gray-500 dark:text-gray-400">
+                  Emails and texts with this customer, across all their tickets
+                </p>
+              </div>
+              <div className="px-4 py-5 sm:px-6">
+                <CustomerMessages customerId={customer.id} customer={customer} />
+              </div>
+            </div>
+
+            {/* Deposits Section */}
+            <div
+              id="deposits"
+              className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg"
+            >
+              <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                  Deposits
+                </h3>
+                <p className="mt-1 max-w-2xl text-sm text-gray-500 dark:text-gray-400">
+                  Money paid up front, applied to this customer&apos;s invoices
+                </p>
+              </div>
+              <div className="px-4 py-5 sm:px-6">
+                <CustomerDeposits customerId={customer.id} tickets={tickets} />
+              </div>
+            </div>
+
+            {/* Store Credit Section */}
+            <div
+              id="store-credit"
+              className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg"
+            >
+              <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                  Store Credit
+                </h3>
+                <p className="mt-1 max-w-2xl text-sm text-gray-500 dark:text-gray-400">
+                  Credit from refunds and adjustments, spent as a payment on invoices
+                </p>
+              </div>
+              <div className="px-4 py-5 sm:px-6">
+                <CustomerStoreCredit customerId={customer.id} />
+              </div>
+            </div>
+
+            {/* Recurring Invoices Section */}
+            {["admin", "manager"].includes(user?.role || "") && (
+              <div
+                id="recurring-invoices"
+                className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg"
+              >
+                <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+                  <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                    Recurring Invoices
+                  </h3>
+                  <p className="mt-1 max-w-2xl text-sm text-gray-500 dark:text-gray-400">
+                    Service contracts billed automatically every month, quarter or year
+                  </p>
+                </div>
+                <div className="px-4 py-5 sm:px-6">
+                  <CustomerRecurringInvoices customerId={customer.id} />
+                </div>
+              </div>
+            )}
+
             {/* Customer Assets Section */}
             <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg">
               <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
@@ -145,6 +145,9 @@ export default function DashboardPage() {
       }).format(dashboardStats.monthlyRevenue)
     : "$0";
 
+  // Open tickets that have missed an SLA target
+  const slaBreachedTickets = dashboardStats?.slaBreachedTickets || 0;
+
   // Get low stock items count
   const lowStockItems = dashboardStats?.lowStockCount || 0;
 
@@ -252,13 +255,23 @@ export default function DashboardPage() {
                 </div>
               </div>
               <div className="bg-gray-50 dark:bg-gray-700/50 px-4 py-4 sm:px-6">
-                <div className="text-sm">
+                <div className="text-sm flex items-center justify-between">
                   <Link
                     href="/tickets"
                     className="font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300"
                   >
                     View all<span className="sr-only"> tickets</span>
                   </Link>
+                  <Link
+                    href="/tickets?slaBreached=true"
+                    className={`font-medium ${
+                      slaBreachedTickets > 0
+                        ? "text-red-600 dark:text-red-400 hover:text-red-500 dark:hover:text-red-300"
+                        : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                    }`}
+                  >
+                    {slaBreachedTickets} SLA breached
+                  </Link>
                 </div>
               </div>
             </div>
@@ -0,0 +1,387 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  DispatchBoard,
+  DispatchCard,
+  getDispatchBoard,
+  subscribeToTicketChanges,
+} from "@/lib/api/dispatch.api";
+import { assignTechnician, updateTicketStatus } from "@/lib/api/ticket.api";
+import { getWorkflow, Workflow } from "@/lib/api/workflow.api";
+import { useUser } from "@/lib/UserContext";
+import {
+  formatPriority,
+  getPriorityColor,
+  getStatusColor,
+} from "@/lib/utils/ticketUtils";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+type GroupBy = "technician" | "status";
+
+interface BoardColumn {
+  key: string;
+  title: string;
+  subtitle?: string;
+  cards: DispatchCard[];
+}
+
+const UNASSIGNED = "unassigned";
+
+// How long a card stays highlighted after someone else changes it
+const HIGHLIGHT_MS = 4000;
+
+const formatAge = (dateString: string) => {
+  const hours = Math.floor(
+    (Date.now() - new Date(dateString).getTime()) / (60 * 60 * 1000)
+  );
+  if (hours < 1) return "<1h";
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+export default function DispatchPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading } = useUser();
+  const [board, setBoard] = useState<DispatchBoard | null>(null);
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>("technician");
+  const [dragging, setDragging] = useState<DispatchCard | null>(null);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const canDispatch = ["admin", "manager", "superuser"].includes(
+    user?.role || ""
+  );
+
+  // Check if user has permission to access this page
+  useEffect(() => {
+    if (!userLoading && !canDispatch) {
+      router.push("/dashboard");
+    }
+  }, [userLoading, canDispatch, router]);
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const response = await getDispatchBoard();
+      if (response.data) {
+        setBoard(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching dispatch board:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    if (!canDispatch) return;
+
+    const fetchWorkflow = async () => {
+      try {
+        const response = await getWorkflow();
+        if (response.data) {
+          setWorkflow(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching workflow:", err);
+      }
+    };
+
+    fetchBoard();
+    fetchWorkflow();
+  }, [canDispatch, fetchBoard]);
+
+  // Refetch when anyone changes a ticket, batching bursts of changes into one request
+  useEffect(() => {
+    if (!canDispatch) return;
+
+    const unsubscribe = subscribeToTicketChanges((change) => {
+      if (change.actorId !== user?.id) {
+        setHighlighted((current) => new Set(current).add(change.ticketId));
+        setTimeout(() => {
+          setHighlighted((current) => {
+            const next = new Set(current);
+            next.delete(change.ticketId);
+            return next;
+          });
+        }, HIGHLIGHT_MS);
+      }
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+      }
+      refreshTimer.current = setTimeout(fetchBoard, 300);
+    });
+
+    return () => {
+      unsubscribe();
+      if (refreshTimer.current) {
+        clearTimeout(refreshTimer.current);
+      }
+    };
+  }, [canDispatch, user?.id, fetchBoard]);
+
+  const columns: BoardColumn[] = !board
+    ? []
+    : groupBy === "technician"
+      ? [
+          {
+            key: UNASSIGNED,
+            title: "Unassigned",
+            cards: board.tickets.filter((ticket) => !ticket.technicianId),
+          },
+          ...board.technicians.map((technician) => ({
+            key: technician.id,
+            title: `${technician.firstName} ${technician.lastName}`,
+            subtitle: `${technician.openTickets} open`,
+            cards: board.tickets.filter(
+              (ticket) => ticket.technicianId === technician.id
+            ),
+          })),
+        ]
+      : (workflow?.statuses || [])
+          .filter((status) => !status.isClosed)
+          .map((status) => ({
+            key: status.key,
+            title: status.label,
+            cards: board.tickets.filter(
+              (ticket) => ticket.status === status.key
+            ),
+          }));
+
+  const technicianName = (technicianId: string | null) => {
+    const technician = board?.technicians.find((t) => t.id === technicianId);
+    return technician
+      ? `${technician.firstName} ${technician.lastName}`
+      : "Unassigned";
+  };
+
+  // Hint which status columns the workflow lets this user move the card to
+  const canMoveTo = (card: DispatchCard, columnKey: string) => {
+    if (groupBy === "technician") {
+      return columnKey !== (card.technicianId || UNASSIGNED);
+    }
+    return (workflow?.transitions || []).some(
+      (transition) =>
+        transition.from === card.status &&
+        transition.to === columnKey &&
+        (user?.role === "superuser" ||
+          transition.allowedRoles.some((role) => role === user?.role))
+    );
+  };
+
+  const handleDrop = async (columnKey: string) => {
+    const card = dragging;
+    setDragging(null);
+    setDragOver(null);
+    if (!card || !board) return;
+
+    const isTechnicianMove = groupBy === "technician";
+    const current = isTechnicianMove
+      ? card.technicianId || UNASSIGNED
+      : card.status;
+    if (current === columnKey) return;
+
+    // Move the card straight away; the refetch below puts it back if the server refuses
+    setError("");
+    setBoard({
+      ...board,
+      tickets: board.tickets.map((ticket) =>
+        ticket.id !== card.id
+          ? ticket
+          : isTechnicianMove
+            ? {
+                ...ticket,
+                technicianId: columnKey === UNASSIGNED ? null : columnKey,
+              }
+            : { ...ticket, status: columnKey }
+      ),
+    });
+
+    try {
+      if (isTechnicianMove) {
+        await assignTechnician(
+          card.id,
+          columnKey === UNASSIGNED ? null : columnKey,
+          card.technicianId
+        );
+      } else {
+        await updateTicketStatus(card.id, columnKey, card.status);
+      }
+    } catch (err) {
+      console.error("Error dispatching ticket:", err);
+      setError(`${card.ticketNumber}: ${getErrorMessage(err)}`);
+    } finally {
+      fetchBoard();
+    }
+  };
+
+  if (userLoading || (canDispatch && isLoading)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!canDispatch) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-6 lg:p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Dispatch
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Drag tickets between columns to{" "}
+            {groupBy === "technician" ? "reassign them" : "change their status"}.
+            Changes made by others appear automatically.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 inline-flex rounded-md shadow-sm">
+          {(["technician", "status"] as GroupBy[]).map((option, index) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setGroupBy(option)}
+              className={`px-4 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 ${
+                index === 0 ? "rounded-l-md" : "-ml-px rounded-r-md"
+              } ${
+                groupBy === option
+                  ? "bg-blue-600 text-white border-blue-600 dark:bg-blue-700"
+                  : "bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+              }`}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map((column) => {
+          const isTarget = dragging !== null && canMoveTo(dragging, column.key);
+          return (
+            <div
+              key={column.key}
+              onDragOver={(e: React.DragEvent) => {
+                e.preventDefault();
+                setDragOver(column.key);
+              }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={(e: React.DragEvent) => {
+                e.preventDefault();
+                handleDrop(column.key);
+              }}
+              className={`flex-shrink-0 w-72 rounded-lg p-3 transition-colors ${
+                dragOver === column.key
+                  ? "bg-blue-100 dark:bg-blue-900/30"
+                  : isTarget
+                    ? "bg-green-50 dark:bg-green-900/20"
+                    : "bg-gray-100 dark:bg-gray-800"
+              }`}
+            >
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+                  {column.title}
+                </h2>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {column.subtitle || column.cards.length}
+                </span>
+              </div>
+
+              <div className="space-y-2 min-h-[4rem]">
+                {column.cards.map((card) => (
+                  <div
+                    key={card.id}
+                    draggable
+                    onDragStart={(e: React.DragEvent) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDragging(card);
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setDragOver(null);
+                    }}
+                    className={`bg-white dark:bg-gray-700 rounded-md shadow-sm p-3 cursor-move border ${
+                      highlighted.has(card.id)
+                        ? "border-yellow-400 ring-2 ring-yellow-300 dark:ring-yellow-600"
+                        : "border-gray-200 dark:border-gray-600"
+                    } ${dragging?.id === card.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <Link
+                        href={`/tickets/${card.id}`}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {card.ticketNumber}
+                      </Link>
+                      <span
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                        title={`Created ${new Date(card.createdAt).toLocaleString("en-US")}`}
+                      >
+                        {formatAge(card.createdAt)}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-900 dark:text-gray-100 truncate">
+                      {card.customerName}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {card.device}
+                    </p>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full ${getPriorityColor(
+                          card.priority
+                        )}`}
+                      >
+                        {formatPriority(card.priority)}
+                      </span>
+                      {groupBy === "technician" ? (
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusColor(
+                            card.status,
+                            workflow?.statuses.find((s) => s.key === card.status)
+                              ?.color
+                          )}`}
+                        >
+                          {workflow?.statuses.find((s) => s.key === card.status)
+                            ?.label || card.status}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200">
+                          {technicianName(card.technicianId)}
+                        </span>
+                      )}
+                      {card.slaBreachedAt && (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                          SLA breached
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,505 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import { PaginationInfo } from "@/lib/api/company.api";
+import {
+  createGiftCard,
+  getGiftCard,
+  getGiftCards,
+  GiftCard,
+  GiftCardTransaction,
+  setGiftCardActive,
+} from "@/lib/api/gift-card.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
+
+const PAGE_SIZE = 25;
+
+const PAYMENT_METHODS = ["Cash", "Card", "Check", "Other"];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function GiftCardsPage() {
+  const router = useRouter();
+  const { user, hasPermission, isLoading: userLoading } = useUser();
+  const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showSellForm, setShowSellForm] = useState(false);
+  const [sellForm, setSellForm] = useState({
+    amount: "",
+    paymentMethod: PAYMENT_METHODS[0],
+    paymentReference: "",
+    code: "",
+    notes: "",
+  });
+  const [isSelling, setIsSelling] = useState(false);
+  const [soldCard, setSoldCard] = useState<GiftCard | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<GiftCardTransaction[]>([]);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const canAccess =
+    !!user &&
+    hasPermission("invoices.read") &&
+    ["admin", "manager", "frontdesk"].includes(user.role);
+  // Selling and turning cards off is money handling, same as marking invoices paid
+  const canManage = hasPermission("invoices.markPaid");
+
+  useEffect(() => {
+    if (!userLoading && !canAccess) {
+      router.push("/dashboard");
+    }
+  }, [canAccess, userLoading, router]);
+
+  const fetchGiftCards = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const response = await getGiftCards({
+        search: search.trim() || undefined,
+        page,
+        limit: PAGE_SIZE,
+      });
+      setGiftCards(response.data);
+      setPagination(response.pagination);
+    } catch (err) {
+      console.error("Error fetching gift cards:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, page]);
+
+  useEffect(() => {
+    if (!canAccess) return;
+    // Wait for the user to stop typing before searching
+    const timeout = setTimeout(fetchGiftCards, 300);
+    return () => clearTimeout(timeout);
+  }, [canAccess, fetchGiftCards]);
+
+  const handleSell = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Math.round((parseFloat(sellForm.amount) || 0) * 100) / 100;
+    if (amount <= 0) {
+      setError("Enter the amount to load onto the card");
+      return;
+    }
+
+    setIsSelling(true);
+    setError("");
+    try {
+      const response = await createGiftCard({
+        amount,
+        paymentMethod: sellForm.paymentMethod,
+        paymentReference: sellForm.paymentReference.trim() || undefined,
+        code: sellForm.code.trim() || undefined,
+        notes: sellForm.notes.trim() || undefined,
+      });
+      setSoldCard(response.data || null);
+      setShowSellForm(false);
+      setSellForm({
+        amount: "",
+        paymentMethod: PAYMENT_METHODS[0],
+        paymentReference: "",
+        code: "",
+        notes: "",
+      });
+      fetchGiftCards();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSelling(false);
+    }
+  };
+
+  const toggleHistory = async (card: GiftCard) => {
+    if (expandedId === card.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(card.id);
+    setHistory([]);
+    try {
+      const response = await getGiftCard(card.id);
+      setHistory(response.data?.transactions || []);
+    } catch (err) {
+      console.error("Error fetching gift card history:", err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleSetActive = async (card: GiftCard) => {
+    if (
+      card.isActive &&
+      !confirm(
+        `Deactivate gift card ${card.code}? It can't be spent until it's turned back on.`
+      )
+    ) {
+      return;
+    }
+
+    setUpdatingId(card.id);
+    setError("");
+    try {
+      const response = await setGiftCardActive(card.id, !card.isActive);
+      if (response.data) {
+        const updated = response.data;
+        setGiftCards((current) =>
+          current.map((item) => (item.id === updated.id ? updated : item))
+        );
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (userLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!canAccess) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Gift Cards
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Sell gift cards and look up their balances. Customers spend them
+            by code as a payment on any invoice.
+          </p>
+        </div>
+        {canManage && !showSellForm && (
+          <button
+            onClick={() => {
+              setShowSellForm(true);
+              setSoldCard(null);
+            }}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+          >
+            Sell Gift Card
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {soldCard && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-800 dark:text-green-200">
+            Sold a ${soldCard.initialAmount.toFixed(2)} gift card. Its code is{" "}
+            <span className="font-mono font-semibold">{soldCard.code}</span>
+          </p>
+        </div>
+      )}
+
+      {showSellForm && (
+        <form
+          onSubmit={handleSell}
+          className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6 space-y-4"
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Amount *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                required
+                value={sellForm.amount}
+                onChange={(e) =>
+                  setSellForm({ ...sellForm, amount: e.target.value })
+                }
+                placeholder="0.00"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Paid With *
+              </label>
+              <select
+                value={sellForm.paymentMethod}
+                onChange={(e) =>
+                  setSellForm({ ...sellForm, paymentMethod: e.target.value })
+                }
+                className={inputClassName}
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Card Code
+              </label>
+              <input
+                type="text"
+                value={sellForm.code}
+                onChange={(e) =>
+                  setSellForm({ ...sellForm, code: e.target.value })
+                }
+                maxLength={32}
+                placeholder="Leave blank to generate one"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Payment Reference
+              </label>
+              <input
+                type="text"
+                value={sellForm.paymentReference}
+                onChange={(e) =>
+                  setSellForm({ ...sellForm, paymentReference: e.target.value })
+                }
+                maxLength={100}
+                placeholder="Optional reference number"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <input
+              type="text"
+              value={sellForm.notes}
+              onChange={(e) =>
+                setSellForm({ ...sellForm, notes: e.target.value })
+              }
+              maxLength={1000}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setShowSellForm(false)}
+              disabled={isSelling}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSelling}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSelling ? "Selling..." : "Sell Gift Card"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          placeholder="Search by code"
+          className="block w-full max-w-sm rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : giftCards.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+            No gift cards found.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900/50">
+              <tr>
+                {["Code", "Sold", "Loaded", "Balance", "Status", ""].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {giftCards.map((card) => (
+                <React.Fragment key={card.id}>
+                  <tr>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                      <button
+                        onClick={() => toggleHistory(card)}
+                        className="hover:text-blue-600 dark:hover:text-blue-400"
+                      >
+                        {card.code}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {formatDate(card.createdAt)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                      ${card.initialAmount.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                      ${card.balance.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          card.isActive
+                            ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                            : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                        }`}
+                      >
+                        {card.isActive ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-3">
+                      <button
+                        onClick={() => toggleHistory(card)}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {expandedId === card.id ? "Hide history" : "History"}
+                      </button>
+                      {canManage && (
+                        <button
+                          onClick={() => handleSetActive(card)}
+                          disabled={updatingId !== null}
+                          className="text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                        >
+                          {card.isActive ? "Deactivate" : "Activate"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === card.id && (
+                    <tr>
+                      <td
+                        colSpan={6}
+                        className="px-4 py-3 bg-gray-50 dark:bg-gray-900/30"
+                      >
+                        {history.length === 0 ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Loading...
+                          </p>
+                        ) : (
+                          <ul className="space-y-1 text-sm">
+                            {history.map((transaction) => (
+                              <li
+                                key={transaction.id}
+                                className="flex justify-between gap-4"
+                              >
+                                <span className="text-gray-700 dark:text-gray-300">
+                                  {formatDate(transaction.createdAt)} ·{" "}
+                                  {transaction.type === "sale"
+                                    ? `Sold (${transaction.paymentMethod})`
+                                    : "Spent"}
+                                  {transaction.invoiceId && (
+                                    <>
+                                      {" · "}
+                                      <Link
+                                        href={`/invoices/${transaction.invoiceId}`}
+                                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                                      >
+                                        View invoice
+                                      </Link>
+                                    </>
+                                  )}
+                                </span>
+                                <span className="whitespace-nowrap text-gray-500 dark:text-gray-400">
+                                  <span
+                                    className={
+                                      transaction.amount < 0
+                                        ? "text-red-600 dark:text-red-400"
+                                        : "text-green-600 dark:text-green-400"
+                                    }
+                                  >
+                                    {transaction.amount < 0 ? "-" : "+"}$
+                                    {Math.abs(transaction.amount).toFixed(2)}
+                                  </span>{" "}
+                                  · ${transaction.balanceAfter.toFixed(2)} left
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Page {pagination.page} of {pagination.totalPages} ·{" "}
+            {pagination.total} gift cards
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages || isLoading}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
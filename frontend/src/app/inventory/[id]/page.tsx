@@ -283,6 +283,14 @@ export default function InventoryDetailPage({
                   </dd>
                 </div>
               )}
+              {item.warrantyDays !== null && item.warrantyDays !== undefined && (
+                <div>
+                  <dt className="text-sm text-gray-500 dark:text-gray-400">Warranty</dt>
+                  <dd className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {item.warrantyDays} days
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="text-sm text-gray-500 dark:text-gray-400">Status</dt>
                 <dd className="text-sm font-medium text-gray-900 dark:text-gray-100">
@@ -307,7 +315,13 @@ export default function InventoryDetailPage({
                     Location
                   </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                    Quantity
+                    On Hand
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Reserved
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Available
                   </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Status
@@ -336,6 +350,12 @@ export default function InventoryDetailPage({
                       >
                         {lq.quantity}
                       </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {lq.reservedQuantity}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                        {lq.availableQuantity}
+                      </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {isBackordered && (
                           <span className="inline-flex items-center rounded-full bg-orange-100 dark:bg-orange-900/30 px-2 py-0.5 text-xs font-medium text-orange-800 dark:text-orange-300">
@@ -1,17 +1,51 @@
 "use client";
 
+import SavedViewsBar, { SortOption } from "@/components/SavedViewsBar";
 import {
   getInventory,
   InventoryItem,
   searchInventory,
 } from "@/lib/api/inventory.api";
 import { getLocations, Location } from "@/lib/api/location.api";
+import { getSavedView } from "@/lib/api/saved-view.api";
 import { useUser } from "@/lib/UserContext";
-import { useRouter } from "next/navigation";
-import React, { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
+
+const PAGE_SIZE = 50;
+
+const DEFAULT_SORT = "name";
+
+const sortOptions: SortOption[] = [
+  { value: "name", label: "Name" },
+  { value: "sku", label: "SKU" },
+  { value: "-price", label: "Highest price" },
+  { value: "price", label: "Lowest price" },
+  { value: "-cost", label: "Highest cost" },
+  { value: "-createdAt", label: "Newest first" },
+  { value: "-updatedAt", label: "Recently updated" },
+];
+
+const filterFields = [
+  "name",
+  "sku",
+  "category",
+  "subcategory",
+  "brand",
+  "model",
+  "supplier",
+  "active",
+  "taxable",
+  "price",
+  "cost",
+  "created",
+  "updated",
+];
 
 export default function InventoryPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const viewId = searchParams.get("view");
   const { user, hasPermission, isLoading: userLoading } = useUser();
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
@@ -19,6 +53,12 @@ export default function InventoryPage() {
   const [error, setError] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [listFilter, setListFilter] = useState("");
+  const [listSort, setListSort] = useState(DEFAULT_SORT);
+  // The view whose filter and sort are applied, so the list isn't loaded before it arrives
+  const [appliedViewId, setAppliedViewId] = useState<string | null>(null);
   const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
 
   // Check if user has permission to access this page
@@ -28,14 +68,51 @@ export default function InventoryPage() {
     }
   }, [user, userLoading, hasPermission, router]);
 
-  // Function to fetch all inventory items
-  const fetchAllItems = async () => {
+  // Apply the saved view in the URL, e.g. from a link pinned in the sidebar
+  useEffect(() => {
+    if (!viewId) {
+      setListFilter("");
+      setListSort(DEFAULT_SORT);
+      setAppliedViewId(null);
+      return;
+    }
+
+    const fetchView = async () => {
+      try {
+        const response = await getSavedView(viewId);
+        if (response.data) {
+          setListFilter(response.data.filter);
+          setListSort(response.data.sort || DEFAULT_SORT);
+        }
+      } catch (err) {
+        console.error("Error fetching saved view:", err);
+        setError(err instanceof Error ? err.message : "Failed to load saved view");
+      } finally {
+        setAppliedViewId(viewId);
+      }
+    };
+
+    fetchView();
+  }, [viewId]);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (listFilter) params.append("filter", listFilter);
+    params.append("sort", listSort);
+    params.append("limit", String(PAGE_SIZE));
+    return params;
+  }, [listFilter, listSort]);
+
+  // Function to fetch the first page of inventory items
+  const fetchAllItems = useCallback(async () => {
     setIsSearching(true);
+    setError("");
     try {
-      const response = await getInventory();
+      const response = await getInventory(buildParams());
       if (response.data) {
         setItems(response.data);
       }
+      setNextCursor(response.pagination?.nextCursor ?? null);
     } catch (err) {
       console.error("Error fetching inventory:", err);
       setError(
@@ -45,29 +122,53 @@ export default function InventoryPage() {
       );
     } finally {
       setIsSearching(false);
+      setIsLoading(false);
     }
-  };
+  }, [buildParams]);
 
-  // Initial load
+  // Initial load, and again whenever the filter or sort changes
   useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        await Promise.all([
-          fetchAllItems(),
-          getLocations().then((response) => {
-            if (response.data) {
-              setLocations(response.data);
-            }
-          }),
-        ]);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    fetchData();
+    if (viewId === appliedViewId) {
+      setSearchQuery("");
+      fetchAllItems();
+    }
+  }, [fetchAllItems, viewId, appliedViewId]);
+
+  useEffect(() => {
+    getLocations()
+      .then((response) => {
+        if (response.data) {
+          setLocations(response.data);
+        }
+      })
+      .catch((err) => console.error("Error fetching locations:", err));
   }, []);
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const params = buildParams();
+      params.append("cursor", nextCursor);
+      const response = await getInventory(params);
+      setItems((current) => [...current, ...(response.data ?? [])]);
+      setNextCursor(response.pagination?.nextCursor ?? null);
+    } catch (err) {
+      console.error("Error fetching inventory:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load inventory. Please try again."
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSelectView = (id: string | null) => {
+    router.push(id ? `/inventory?view=${id}` : "/inventory");
+  };
+
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -82,6 +183,7 @@ export default function InventoryPage() {
       const response = await searchInventory(searchQuery);
       if (response.data) {
         setItems(response.data);
+        setNextCursor(null);
       }
     } catch (err) {
       console.error("Error searching inventory:", err);
@@ -120,6 +222,17 @@ export default function InventoryPage() {
     return locationQty?.quantity ?? 0;
   };
 
+  // Get units held for open tickets at current location
+  const getCurrentLocationReserved = (item: InventoryItem): number => {
+    if (!user?.currentLocationId || !item.locationQuantities) {
+      return item.reservedQuantity ?? 0;
+    }
+    const locationQty = item.locationQuantities.find(
+      (lq) => lq.locationId === user.currentLocationId
+    );
+    return locationQty?.reservedQuantity ?? 0;
+  };
+
   // Check if item is low stock at current location
   const isLowStock = (item: InventoryItem) => {
     const currentQty = getCurrentLocationQuantity(item);
@@ -167,6 +280,21 @@ export default function InventoryPage() {
         )}
       </div>
 
+      <SavedViewsBar
+        resource="inventory"
+        filter={listFilter}
+        sort={listSort}
+        sortOptions={sortOptions}
+        filterPlaceholder="e.g. category:screens price:>50 active:true"
+        filterFields={filterFields}
+        viewId={viewId}
+        onChange={(filter, sort) => {
+          setListFilter(filter);
+          setListSort(sort);
+        }}
+        onSelectView={handleSelectView}
+      />
+
       {/* Search */}
       <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-6">
         <form onSubmit={handleSearch} className="sm:flex sm:items-center">
@@ -324,6 +452,11 @@ export default function InventoryPage() {
                           >
                             Qty: {getCurrentLocationQuantity(item)}
                           </p>
+                          {getCurrentLocationReserved(item) > 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {getCurrentLocationReserved(item)} reserved
+                            </p>
+                          )}
                           {hoveredItemId === item.id &&
                             item.locationQuantities &&
                             item.locationQuantities.length > 1 && (
@@ -351,7 +484,11 @@ export default function InventoryPage() {
                                           {location?.name || "Unknown Location"}
                                           {isCurrentLocation && " (Current)"}
                                         </span>
-                                        <span className="ml-2">{lq.quantity}</span>
+                                        <span className="ml-2">
+                                          {lq.quantity}
+                                          {lq.reservedQuantity > 0 &&
+                                            ` (${lq.reservedQuantity} reserved)`}
+                                        </span>
                                       </div>
                                     );
                                   })}
@@ -392,6 +529,18 @@ export default function InventoryPage() {
             ))}
           </ul>
         )}
+        {!isLoading && nextCursor && (
+          <div className="p-4 text-center border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {isLoadingMore ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
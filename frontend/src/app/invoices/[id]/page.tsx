@@ -1,22 +1,37 @@
 "use client";
 
 import LoadingSpinner from "@/components/LoadingSpinner";
+import { getCustomerDeposits } from "@/lib/api/customer-deposit.api";
 import { getIntegration, IntegrationConfig } from "@/lib/api/integration.api";
 import { getInventory, InventoryItem as InventoryItemType, searchInventory } from "@/lib/api/inventory.api";
 import { getPosEnabled } from "@/lib/api/feature-flags.api";
 import {
   addInvoiceItem,
+  addLaborToInvoice,
+  applyDepositsToInvoice,
+  createInvoiceReturn,
+  CreateInvoiceReturnData,
+  CreditMemo,
   getInvoiceById,
+  getInvoiceCreditMemos,
+  getInvoiceReturns,
+  GIFT_CARD_PAYMENT_METHOD,
   Invoice,
   InvoiceItem,
+  InvoiceReturn,
   markInvoiceAsPaid,
+  MarkInvoicePaidData,
   refundInvoice,
   removeInvoiceItem,
+  STORE_CREDIT_PAYMENT_METHOD,
   updateInvoiceItem,
 } from "@/lib/api/invoice.api";
 import { processPayment, refundPayment } from "@/lib/api/payment.api";
+import { getTicketTimeEntries } from "@/lib/api/labor.api";
+import { getTicketSignatures, TicketSignature } from "@/lib/api/signature.api";
 import { useUser } from "@/lib/UserContext";
 import { generateInvoicePDF } from "@/lib/utils/pdfGenerator";
+import { formatMinutes } from "@/lib/utils/ticketUtils";
 import dynamic from "next/dynamic";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -41,6 +56,8 @@ export default function InvoiceDetailPage({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [isAddingItem, setIsAddingItem] = useState(false);
+  // Time logged on the invoice's ticket that hasn't been billed yet
+  const [unbilledMinutes, setUnbilledMinutes] = useState(0);
   const [showMarkPaidModal, setShowMarkPaidModal] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
@@ -52,6 +69,11 @@ export default function InvoiceDetailPage({
   const [posEnabled, setPosEnabled] = useState<boolean | null>(null);
   const [paymentConfig, setPaymentConfig] = useState<IntegrationConfig | null>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [isApplyingDeposits, setIsApplyingDeposits] = useState(false);
+  const [creditMemos, setCreditMemos] = useState<CreditMemo[]>([]);
+  const [invoiceReturns, setInvoiceReturns] = useState<InvoiceReturn[]>([]);
+  const [showReturnModal, setShowReturnModal] = useState(false);
   const [inventoryItems, setInventoryItems] = useState<InventoryItemType[]>([]);
   const [isLoadingInventory, setIsLoadingInventory] = useState(false);
   const [selectedInventoryItem, setSelectedInventoryItem] = useState<InventoryItemType | null>(null);
@@ -109,6 +131,22 @@ export default function InvoiceDetailPage({
     fetchInvoice();
   }, [params.id]);
 
+  // Check for unbilled time on the ticket
+  useEffect(() => {
+    if (!invoice?.ticketId) return;
+
+    const fetchUnbilledTime = async () => {
+      try {
+        const response = await getTicketTimeEntries(invoice.ticketId!);
+        setUnbilledMinutes(response.data?.unbilledMinutes || 0);
+      } catch (err) {
+        console.error("Error fetching ticket time entries:", err);
+      }
+    };
+
+    fetchUnbilledTime();
+  }, [invoice?.ticketId, invoice?.updatedAt]);
+
   // Check if POS is enabled
   useEffect(() => {
     const checkPosEnabled = async () => {
@@ -146,6 +184,54 @@ export default function InvoiceDetailPage({
     checkPaymentIntegration();
   }, []);
 
+  // Check whether the customer has deposits left that could go toward this invoice
+  const invoiceCustomerId = invoice?.customerId;
+  const isInvoiceOpen =
+    invoice?.status !== "paid" && invoice?.status !== "cancelled";
+  const canMarkPaid = hasPermission("invoices.markPaid");
+  useEffect(() => {
+    if (!invoiceCustomerId || !isInvoiceOpen || !canMarkPaid) {
+      setCreditBalance(0);
+      return;
+    }
+    const fetchCreditBalance = async () => {
+      try {
+        const response = await getCustomerDeposits(invoiceCustomerId);
+        setCreditBalance(response.data?.creditBalance || 0);
+      } catch (err) {
+        console.error("Error fetching customer deposits:", err);
+        setCreditBalance(0);
+      }
+    };
+    fetchCreditBalance();
+  }, [invoiceCustomerId, isInvoiceOpen, canMarkPaid]);
+
+  // Load the credit memos and returns written up for refunds on this invoice
+  const invoiceId = invoice?.id;
+  const refundAmount = invoice?.refundAmount;
+  useEffect(() => {
+    if (!invoiceId || !refundAmount) {
+      setCreditMemos([]);
+      setInvoiceReturns([]);
+      return;
+    }
+    const fetchRefundDocuments = async () => {
+      try {
+        const [memos, returns] = await Promise.all([
+          getInvoiceCreditMemos(invoiceId),
+          getInvoiceReturns(invoiceId),
+        ]);
+        setCreditMemos(memos.data || []);
+        setInvoiceReturns(returns.data || []);
+      } catch (err) {
+        console.error("Error fetching credit memos and returns:", err);
+        setCreditMemos([]);
+        setInvoiceReturns([]);
+      }
+    };
+    fetchRefundDocuments();
+  }, [invoiceId, refundAmount]);
+
   // Debounced search for inventory items
   useEffect(() => {
     if (!user?.currentLocationId) {
@@ -401,6 +487,24 @@ export default function InvoiceDetailPage({
     }
   };
 
+  // Handle add labor from the ticket's logged time
+  const handleAddLabor = async () => {
+    if (!invoice) return;
+
+    setIsProcessing(true);
+    try {
+      await addLaborToInvoice(invoice.id);
+      await refreshInvoice();
+    } catch (err) {
+      console.error("Error adding labor:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to add labor. Please try again.";
+      setError(errorMessage);
+      alert(errorMessage);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Handle delete item
   const handleDeleteItem = async (itemId: string) => {
     if (!invoice) return;
@@ -430,12 +534,7 @@ export default function InvoiceDetailPage({
   };
 
   // Handle mark as paid
-  const handleMarkAsPaid = async (paymentData: {
-    paymentMethod: string;
-    paymentReference?: string;
-    paidDate?: string;
-    notes?: string;
-  }) => {
+  const handleMarkAsPaid = async (paymentData: MarkInvoicePaidData) => {
     if (!invoice) return;
 
     // Check if POS is enabled - if so, redirect to POS instead
@@ -496,6 +595,34 @@ export default function InvoiceDetailPage({
     }
   };
 
+  // Apply the customer's unused deposits, up to the balance due
+  const handleApplyDeposits = async () => {
+    if (!invoice?.customerId) return;
+    const amount = Math.min(creditBalance, invoice.balanceDue);
+    if (!confirm(`Apply $${amount.toFixed(2)} of the customer's deposits to this invoice?`)) {
+      return;
+    }
+
+    setIsApplyingDeposits(true);
+    try {
+      const response = await applyDepositsToInvoice(invoice.id);
+      if (response.data) {
+        setInvoice(response.data);
+      }
+      const deposits = await getCustomerDeposits(invoice.customerId);
+      setCreditBalance(deposits.data?.creditBalance || 0);
+    } catch (err) {
+      console.error("Error applying deposits:", err);
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Failed to apply deposits. Please try again.";
+      setError(errorMessage);
+      alert(errorMessage);
+    } finally {
+      setIsApplyingDeposits(false);
+    }
+  };
+
   // Handle refund payment
   const handleRefundPayment = async (amount?: number, reason?: string, refundMethod?: string) => {
     if (!invoice) return;
@@ -506,7 +633,12 @@ export default function InvoiceDetailPage({
       const isProviderPayment = invoice.paymentReference && invoice.paymentMethod &&
         invoice.paymentMethod !== "manual" && invoice.paymentMethod !== "cash" && invoice.paymentMethod !== "check";
 
-      if (isProviderPayment && hasPermission("payments.refund")) {
+      // Store credit never goes back through the payment provider
+      if (
+        isProviderPayment &&
+        refundMethod !== "store_credit" &&
+        hasPermission("payments.refund")
+      ) {
         // Use payment provider refund
       const result = await refundPayment({
           transactionId: invoice.paymentReference!,
@@ -520,7 +652,7 @@ export default function InvoiceDetailPage({
         }
       } else if (hasPermission("invoices.markPaid")) {
         // Use manual refund
-        const maxRefundAmount = invoice.totalAmount - (invoice.refundAmount || 0);
+        const maxRefundAmount = invoice.amountPaid - (invoice.refundAmount || 0);
         const refundAmount = amount || maxRefundAmount;
         await refundInvoice(invoice.id, {
           refundAmount: refundAmount,
@@ -545,13 +677,48 @@ export default function InvoiceDetailPage({
     }
   };
 
+  // Handle itemized return
+  const handleCreateReturn = async (data: CreateInvoiceReturnData) => {
+    if (!invoice) return;
+
+    setIsProcessingPayment(true);
+    try {
+      const response = await createInvoiceReturn(invoice.id, data);
+      await refreshInvoice();
+      setShowReturnModal(false);
+      if (response.data) {
+        alert(
+          `Return ${response.data.returnNumber} recorded. Refunded $${response.data.refundAmount.toFixed(2)}.`
+        );
+      }
+    } catch (err) {
+      console.error("Error returning items:", err);
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Failed to return items. Please try again.";
+      alert(errorMessage);
+    } finally {
+      setIsProcessingPayment(false);
+    }
+  };
+
   // Handle PDF generation
   const handleGeneratePDF = async () => {
     if (!invoice) return;
 
     setIsGeneratingPDF(true);
     try {
-      await generateInvoicePDF(invoice);
+      // Include the customer's drop-off and pick-up signatures when the invoice is for a repair
+      let signatures: TicketSignature[] = [];
+      if (invoice.ticketId) {
+        try {
+          const response = await getTicketSignatures(invoice.ticketId);
+          signatures = response.data || [];
+        } catch (err) {
+          console.error("Error fetching ticket signatures:", err);
+        }
+      }
+      await generateInvoicePDF(invoice, signatures);
     } catch (err) {
       console.error("Error generating PDF:", err);
       const errorMessage = err instanceof Error
@@ -582,6 +749,8 @@ export default function InvoiceDetailPage({
         return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
       case "issued":
         return "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100";
+      case "partially_paid":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100";
       case "paid":
         return "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100";
       case "overdue":
@@ -704,6 +873,17 @@ export default function InvoiceDetailPage({
                     {isProcessingPayment ? "Processing..." : "Process Payment"}
                   </button>
                 )}
+                {creditBalance > 0 && hasPermission("invoices.markPaid") && (
+                  <button
+                    onClick={handleApplyDeposits}
+                    disabled={isApplyingDeposits}
+                    className="inline-flex items-center justify-center rounded-md border border-green-600 bg-white dark:bg-gray-800 px-4 py-2 text-sm font-medium text-green-700 dark:text-green-400 shadow-sm hover:bg-green-50 dark:hover:bg-green-900/20 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-50"
+                  >
+                    {isApplyingDeposits
+                      ? "Applying..."
+                      : `Apply Deposits ($${creditBalance.toFixed(2)})`}
+                  </button>
+                )}
                 {hasPermission("invoices.markPaid") && (
                   <button
                     onClick={() => {
@@ -718,12 +898,12 @@ export default function InvoiceDetailPage({
                     disabled={isProcessing}
                     className="inline-flex items-center justify-center rounded-md border border-transparent bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-50"
                   >
-                    Mark as Paid
+                    {invoice.status === "partially_paid" ? "Record Payment" : "Mark as Paid"}
                   </button>
                 )}
               </>
             )}
-            {invoice.status === "paid" && (hasPermission("payments.refund") || hasPermission("invoices.markPaid")) && (
+            {(invoice.status === "paid" || invoice.status === "partially_paid") && (hasPermission("payments.refund") || hasPermission("invoices.markPaid")) && (
               <button
                 onClick={() => setShowRefundModal(true)}
                 disabled={isProcessingPayment}
@@ -732,6 +912,18 @@ export default function InvoiceDetailPage({
                 Refund Payment
               </button>
             )}
+            {(invoice.status === "paid" || invoice.status === "partially_paid") &&
+              canMarkPaid &&
+              invoice.invoiceItems &&
+              invoice.invoiceItems.length > 0 && (
+                <button
+                  onClick={() => setShowReturnModal(true)}
+                  disabled={isProcessingPayment}
+                  className="inline-flex items-center justify-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-50"
+                >
+                  Return Items
+                </button>
+              )}
           </div>
         </div>
 
@@ -754,7 +946,7 @@ export default function InvoiceDetailPage({
                       invoice.status
                     )}`}
                   >
-                    {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                    {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1).replace("_", " ")}
                   </span>
                 </dd>
               </div>
@@ -826,6 +1018,18 @@ export default function InvoiceDetailPage({
                   </dd>
                 </div>
               )}
+              {invoice.warrantyExpiresAt && (
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Warranty
+                  </dt>
+                  <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                    {new Date(invoice.warrantyExpiresAt).getTime() >= Date.now()
+                      ? `Until ${formatDate(invoice.warrantyExpiresAt)}`
+                      : `Expired on ${formatDate(invoice.warrantyExpiresAt)}`}
+                  </dd>
+                </div>
+              )}
             </dl>
           </div>
         </div>
@@ -837,12 +1041,24 @@ export default function InvoiceDetailPage({
               Invoice Items
             </h3>
             {canEdit && (
-              <button
-                onClick={() => setIsAddingItem(!isAddingItem)}
-                className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-              >
-                {isAddingItem ? "Cancel" : "Add Item"}
-              </button>
+              <div className="flex gap-2">
+                {invoice.ticketId && unbilledMinutes > 0 && (
+                  <button
+                    onClick={handleAddLabor}
+                    disabled={isProcessing}
+                    title="Bill the ticket's logged time at the labor rates"
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-xs font-medium rounded text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Add Labor ({formatMinutes(unbilledMinutes)})
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsAddingItem(!isAddingItem)}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  {isAddingItem ? "Cancel" : "Add Item"}
+                </button>
+              </div>
             )}
           </div>
 
@@ -1231,10 +1447,166 @@ export default function InvoiceDetailPage({
                   ${Number(invoice.totalAmount).toFixed(2)}
                 </dd>
               </div>
+              {invoice.amountPaid > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Paid
+                    </dt>
+                    <dd className="text-sm text-gray-900 dark:text-gray-100">
+                      -${Number(invoice.amountPaid).toFixed(2)}
+                    </dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-base font-medium text-gray-900 dark:text-gray-100">
+                      Balance Due
+                    </dt>
+                    <dd className="text-base font-medium text-gray-900 dark:text-gray-100">
+                      ${Number(invoice.balanceDue).toFixed(2)}
+                    </dd>
+                  </div>
+                </>
+              )}
             </dl>
           </div>
         </div>
 
+        {/* Payments */}
+        {invoice.payments && invoice.payments.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg mb-6">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                Payments
+              </h3>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {invoice.payments.map((payment) => (
+                <li key={payment.id} className="px-4 py-3 sm:px-6 flex justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {payment.paymentMethod}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(payment.paidAt)}
+                      {payment.paymentReference && ` · Ref ${payment.paymentReference}`}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-900 dark:text-gray-100">
+                    ${Number(payment.amount).toFixed(2)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Credit Memos */}
+        {creditMemos.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg mb-6">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                Credit Memos
+              </h3>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {creditMemos.map((memo) => (
+                <li key={memo.id} className="px-4 py-3 sm:px-6 flex justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {memo.creditMemoNumber}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(memo.createdAt)} ·{" "}
+                      {memo.refundMethod === "store_credit"
+                        ? "Store credit"
+                        : memo.refundMethod}
+                      {memo.reason && ` · ${memo.reason}`}
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-900 dark:text-gray-100">
+                    -${Number(memo.amount).toFixed(2)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Returns */}
+        {invoiceReturns.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg mb-6">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100">
+                Returns
+              </h3>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {invoiceReturns.map((invoiceReturn) => (
+                <li key={invoiceReturn.id} className="px-4 py-4 sm:px-6 space-y-2">
+                  <div className="flex justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {invoiceReturn.returnNumber}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDate(invoiceReturn.createdAt)} ·{" "}
+                        {invoiceReturn.refundMethod === "store_credit"
+                          ? "Store credit"
+                          : invoiceReturn.refundMethod}
+                        {invoiceReturn.reason && ` · ${invoiceReturn.reason}`}
+                      </p>
+                    </div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      -${invoiceReturn.refundAmount.toFixed(2)}
+                    </p>
+                  </div>
+                  <table className="min-w-full text-xs text-gray-600 dark:text-gray-400">
+                    <tbody>
+                      {invoiceReturn.items.map((item) => (
+                        <tr key={item.id}>
+                          <td className="py-0.5">
+                            {item.quantity} × {item.description}
+                          </td>
+                          <td className="py-0.5">
+                            {item.disposition === "restock" ? "Restocked" : "Written off"}
+                          </td>
+                          <td className="py-0.5 text-right">
+                            ${item.subtotal.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                      {invoiceReturn.discountAmount > 0 && (
+                        <tr>
+                          <td colSpan={2} className="py-0.5">Discount</td>
+                          <td className="py-0.5 text-right">
+                            -${invoiceReturn.discountAmount.toFixed(2)}
+                          </td>
+                        </tr>
+                      )}
+                      {invoiceReturn.taxAmount > 0 && (
+                        <tr>
+                          <td colSpan={2} className="py-0.5">Tax</td>
+                          <td className="py-0.5 text-right">
+                            ${invoiceReturn.taxAmount.toFixed(2)}
+                          </td>
+                        </tr>
+                      )}
+                      {invoiceReturn.restockingFee > 0 && (
+                        <tr>
+                          <td colSpan={2} className="py-0.5">Restocking fee</td>
+                          <td className="py-0.5 text-right">
+                            -${invoiceReturn.restockingFee.toFixed(2)}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Notes */}
         {invoice.notes && (
           <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-lg">
@@ -1254,6 +1626,8 @@ export default function InvoiceDetailPage({
         {/* Mark as Paid Modal */}
         {showMarkPaidModal && (
           <MarkInvoicePaidModal
+            balanceDue={Number(invoice.balanceDue)}
+            hasCustomer={!!invoice.customerId}
             onClose={() => setShowMarkPaidModal(false)}
             onConfirm={handleMarkAsPaid}
             isProcessing={isProcessing}
@@ -1272,6 +1646,17 @@ export default function InvoiceDetailPage({
           />
         )}
 
+        {/* Return Items Modal */}
+        {showReturnModal && invoice && (
+          <ReturnItemsModal
+            invoice={invoice}
+            previousReturns={invoiceReturns}
+            onClose={() => setShowReturnModal(false)}
+            onConfirm={handleCreateReturn}
+            isProcessing={isProcessingPayment}
+          />
+        )}
+
         {/* Refund Payment Modal */}
         {showRefundModal && invoice && (
           <RefundPaymentModal
@@ -1288,25 +1673,27 @@ export default function InvoiceDetailPage({
 
 // Mark Invoice Paid Modal Component
 function MarkInvoicePaidModal({
+  balanceDue,
+  hasCustomer,
   onClose,
   onConfirm,
   isProcessing,
 }: {
+  balanceDue: number;
+  hasCustomer: boolean;
   onClose: () => void;
-  onConfirm: (data: {
-    paymentMethod: string;
-    paymentReference?: string;
-    paidDate?: string;
-    notes?: string;
-  }) => void;
+  onConfirm: (data: MarkInvoicePaidData) => void;
   isProcessing: boolean;
 }) {
   const [formData, setFormData] = useState({
     paymentMethod: "",
+    amount: balanceDue.toFixed(2),
     paymentReference: "",
+    giftCardCode: "",
     paidDate: new Date().toISOString().split("T")[0],
     notes: "",
   });
+  const isGiftCard = formData.paymentMethod === GIFT_CARD_PAYMENT_METHOD;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -1314,9 +1701,20 @@ function MarkInvoicePaidModal({
       alert("Payment method is required");
       return;
     }
+    if (isGiftCard && !formData.giftCardCode.trim()) {
+      alert("Gift card code is required");
+      return;
+    }
+    const amount = Number(formData.amount);
+    if (balanceDue > 0 && (!amount || amount <= 0 || amount > balanceDue)) {
+      alert(`Amount must be between $0.01 and $${balanceDue.toFixed(2)}`);
+      return;
+    }
     onConfirm({
       paymentMethod: formData.paymentMethod,
+      amount: balanceDue > 0 ? amount : undefined,
       paymentReference: formData.paymentReference || undefined,
+      giftCardCode: isGiftCard ? formData.giftCardCode.trim() : undefined,
       paidDate: formData.paidDate || undefined,
       notes: formData.notes || undefined,
     });
@@ -1327,7 +1725,7 @@ function MarkInvoicePaidModal({
       <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
       <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-md w-full p-6 shadow-xl">
         <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
-          Mark Invoice as Paid
+          Record Payment
         </h3>
         <form onSubmit={handleSubmit}>
           <div className="space-y-4">
@@ -1338,6 +1736,7 @@ function MarkInvoicePaidModal({
               <input
                 type="text"
                 required
+                list="payment-method-options"
                 value={formData.paymentMethod}
                 onChange={(e) =>
                   setFormData({ ...formData, paymentMethod: e.target.value })
@@ -1345,7 +1744,53 @@ function MarkInvoicePaidModal({
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 placeholder="e.g., Credit Card, Cash, Check"
               />
+              <datalist id="payment-method-options">
+                <option value="Cash" />
+                <option value="Check" />
+                <option value="Credit Card" />
+                <option value={GIFT_CARD_PAYMENT_METHOD} />
+                {hasCustomer && <option value={STORE_CREDIT_PAYMENT_METHOD} />}
+              </datalist>
             </div>
+            {isGiftCard && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Gift Card Code *
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.giftCardCode}
+                  onChange={(e) =>
+                    setFormData({ ...formData, giftCardCode: e.target.value })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                />
+              </div>
+            )}
+            {balanceDue > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Amount *
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0.01"
+                  max={balanceDue}
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amount: e.target.value })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Balance due: ${balanceDue.toFixed(2)}. Enter less to record a partial payment.
+                </p>
+              </div>
+            )}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                 Payment Reference
@@ -1402,7 +1847,7 @@ function MarkInvoicePaidModal({
               disabled={isProcessing}
               className="inline-flex justify-center rounded-md border border-transparent bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
             >
-              {isProcessing ? "Processing..." : "Mark as Paid"}
+              {isProcessing ? "Processing..." : "Record Payment"}
             </button>
           </div>
         </form>
@@ -1463,7 +1908,7 @@ function ProcessPaymentModal({
               Invoice: <strong>{invoice.invoiceNumber}</strong>
             </p>
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
-              Amount: <strong>${Number(invoice.totalAmount).toFixed(2)}</strong>
+              Amount: <strong>${Number(invoice.balanceDue).toFixed(2)}</strong>
             </p>
           </div>
 
@@ -1478,7 +1923,7 @@ function ProcessPaymentModal({
               applicationId={paymentConfig.applicationId}
               locationId={locationId}
               testMode={paymentConfig.settings?.testMode === true}
-              amount={Number(invoice.totalAmount)}
+              amount={Number(invoice.balanceDue)}
               onPaymentSuccess={handleSquarePaymentSuccess}
               onError={handleSquarePaymentError}
               isProcessing={isProcessing}
@@ -1517,7 +1962,7 @@ function ProcessPaymentModal({
             Process payment for invoice <strong>{invoice.invoiceNumber}</strong>
           </p>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
-            Amount: <strong>${Number(invoice.totalAmount).toFixed(2)}</strong>
+            Amount: <strong>${Number(invoice.balanceDue).toFixed(2)}</strong>
           </p>
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
             Payment will be processed using your configured payment provider.
@@ -1558,7 +2003,7 @@ function RefundPaymentModal({
   onConfirm: (amount?: number, reason?: string, refundMethod?: string) => void;
   isProcessing: boolean;
 }) {
-  const maxRefundAmount = invoice.totalAmount - (invoice.refundAmount || 0);
+  const maxRefundAmount = invoice.amountPaid - (invoice.refundAmount || 0);
   const [formData, setFormData] = useState({
     amount: maxRefundAmount.toString(),
     reason: "",
@@ -1587,7 +2032,7 @@ function RefundPaymentModal({
             {invoice.refundAmount && invoice.refundAmount > 0 && (
               <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded">
                 <p className="text-sm text-yellow-800 dark:text-yellow-200">
-                  Already refunded: ${Number(invoice.refundAmount).toFixed(2)} of ${Number(invoice.totalAmount).toFixed(2)}
+                  Already refunded: ${Number(invoice.refundAmount).toFixed(2)} of ${Number(invoice.amountPaid).toFixed(2)}
                 </p>
                 <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
                   Maximum refundable: ${maxRefundAmount.toFixed(2)}
@@ -1650,7 +2095,15 @@ function RefundPaymentModal({
                 <option value="credit_card">Credit Card</option>
                 <option value="debit_card">Debit Card</option>
                 <option value="bank_transfer">Bank Transfer</option>
+                {invoice.customerId && (
+                  <option value="store_credit">Store Credit</option>
+                )}
               </select>
+              {formData.refundMethod === "store_credit" && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  The refund is added to the customer&apos;s store credit balance.
+                </p>
+              )}
             </div>
             <div className="mt-4">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -1689,3 +2142,210 @@ function RefundPaymentModal({
     </div>
   );
 }
+
+// Return Items Modal Component
+function ReturnItemsModal({
+  invoice,
+  previousReturns,
+  onClose,
+  onConfirm,
+  isProcessing,
+}: {
+  invoice: Invoice;
+  previousReturns: InvoiceReturn[];
+  onClose: () => void;
+  onConfirm: (data: CreateInvoiceReturnData) => void;
+  isProcessing: boolean;
+}) {
+  // What's left of each line after earlier returns
+  const returnableLines = (invoice.invoiceItems || [])
+    .map((item) => {
+      const returned = previousReturns
+        .flatMap((invoiceReturn) => invoiceReturn.items)
+        .filter((returnItem) => returnItem.invoiceItemId === item.id)
+        .reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+      return { item, returnable: item.quantity - returned };
+    })
+    .filter((line) => line.returnable > 0);
+
+  const [lines, setLines] = useState<
+    Record<string, { quantity: string; disposition: "restock" | "write_off" }>
+  >(() =>
+    Object.fromEntries(
+      returnableLines.map(({ item }) => [
+        item.id,
+        {
+          quantity: "0",
+          // Parts go back on the shelf unless they're marked as damaged
+          disposition: item.inventoryItemId ? "restock" : "write_off",
+        },
+      ])
+    )
+  );
+  const [restockingFee, setRestockingFee] = useState("");
+  const [refundMethod, setRefundMethod] = useState("manual");
+  const [reason, setReason] = useState("");
+
+  const updateLine = (
+    itemId: string,
+    field: "quantity" | "disposition",
+    value: string
+  ) => {
+    setLines({ ...lines, [itemId]: { ...lines[itemId], [field]: value } });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = returnableLines
+      .map(({ item }) => ({
+        invoiceItemId: item.id,
+        quantity: parseInt(lines[item.id].quantity) || 0,
+        disposition: lines[item.id].disposition,
+      }))
+      .filter((line) => line.quantity > 0);
+    if (items.length === 0) {
+      alert("Enter a quantity for at least one item");
+      return;
+    }
+    onConfirm({
+      items,
+      restockingFee: parseFloat(restockingFee) || undefined,
+      refundMethod,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-black opacity-30" onClick={onClose}></div>
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+          Return Items
+        </h3>
+        <form onSubmit={handleSubmit}>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Choose what came back on invoice <strong>{invoice.invoiceNumber}</strong>.
+            Each line is refunded at the price charged, plus its tax.
+          </p>
+          {returnableLines.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Everything on this invoice has already been returned.
+            </p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+              <thead>
+                <tr>
+                  <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Item
+                  </th>
+                  <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Return
+                  </th>
+                  <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Condition
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {returnableLines.map(({ item, returnable }) => (
+                  <tr key={item.id}>
+                    <td className="py-2 pr-2 text-sm text-gray-900 dark:text-gray-100">
+                      {item.description}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {returnable} of {item.quantity} returnable
+                      </span>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max={returnable}
+                        step="1"
+                        value={lines[item.id].quantity}
+                        onChange={(e) => updateLine(item.id, "quantity", e.target.value)}
+                        className="block w-20 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </td>
+                    <td className="py-2">
+                      <select
+                        value={lines[item.id].disposition}
+                        onChange={(e) => updateLine(item.id, "disposition", e.target.value)}
+                        className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        {item.inventoryItemId && (
+                          <option value="restock">Restock</option>
+                        )}
+                        <option value="write_off">Write off</option>
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Restocking Fee
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={restockingFee}
+                onChange={(e) => setRestockingFee(e.target.value)}
+                placeholder="0.00"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Refund Method
+              </label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                <option value="manual">Manual</option>
+                {invoice.customerId && (
+                  <option value="store_credit">Store Credit</option>
+                )}
+              </select>
+            </div>
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Reason (Optional)
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              placeholder="Reason for return"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isProcessing}
+              className="inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isProcessing || returnableLines.length === 0}
+              className="inline-flex justify-center rounded-md border border-transparent bg-orange-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50"
+            >
+              {isProcessing ? "Processing..." : "Return Items"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
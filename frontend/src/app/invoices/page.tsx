@@ -1,19 +1,57 @@
 "use client";
 
+import SavedViewsBar, { SortOption } from "@/components/SavedViewsBar";
 import { Invoice, getInvoices } from "@/lib/api/invoice.api";
+import { getSavedView } from "@/lib/api/saved-view.api";
 import { useUser } from "@/lib/UserContext";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import React, { useCallback, useEffect, useState } from "react";
 
+const PAGE_SIZE = 50;
+
+const DEFAULT_SORT = "-createdAt";
+
+const sortOptions: SortOption[] = [
+  { value: "-createdAt", label: "Newest first" },
+  { value: "createdAt", label: "Oldest first" },
+  { value: "-updatedAt", label: "Recently updated" },
+  { value: "invoiceNumber", label: "Invoice number" },
+  { value: "-total", label: "Highest total" },
+  { value: "total", label: "Lowest total" },
+];
+
+const filterFields = [
+  "status",
+  "customer",
+  "location",
+  "ticket",
+  "payment",
+  "total",
+  "collected",
+  "refunded",
+  "created",
+  "issued",
+  "due",
+  "paid",
+];
+
 export default function InvoicesListPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const viewId = searchParams.get("view");
   const { user, hasPermission, isLoading: userLoading } = useUser();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [allInvoices, setAllInvoices] = useState<Invoice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [listFilter, setListFilter] = useState("");
+  const [listSort, setListSort] = useState(DEFAULT_SORT);
+  // The view whose filter and sort are applied, so the list isn't loaded before it arrives
+  const [appliedViewId, setAppliedViewId] = useState<string | null>(null);
 
   // Check if user has permission to access this page
   useEffect(() => {
@@ -22,14 +60,53 @@ export default function InvoicesListPage() {
     }
   }, [user, userLoading, hasPermission, router]);
 
-  // Function to fetch all invoices
+  // Apply the saved view in the URL, e.g. from a link pinned in the sidebar
+  useEffect(() => {
+    if (!viewId) {
+      setListFilter("");
+      setListSort(DEFAULT_SORT);
+      setAppliedViewId(null);
+      return;
+    }
+
+    const fetchView = async () => {
+      try {
+        const response = await getSavedView(viewId);
+        if (response.data) {
+          setListFilter(response.data.filter);
+          setListSort(response.data.sort || DEFAULT_SORT);
+        }
+      } catch (err) {
+        console.error("Error fetching saved view:", err);
+        setError(err instanceof Error ? err.message : "Failed to load saved view");
+      } finally {
+        setAppliedViewId(viewId);
+      }
+    };
+
+    fetchView();
+  }, [viewId]);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (listFilter) params.append("filter", listFilter);
+    params.append("sort", listSort);
+    params.append("limit", String(PAGE_SIZE));
+    return params;
+  }, [listFilter, listSort]);
+
+  // Function to fetch the first page of invoices
   const fetchAllInvoices = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
     try {
-      const response = await getInvoices();
+      const response = await getInvoices(buildParams());
       if (response.data) {
         setInvoices(response.data);
         setAllInvoices(response.data);
+        setSearchQuery("");
       }
+      setNextCursor(response.pagination?.nextCursor ?? null);
     } catch (err) {
       console.error("Error fetching invoices:", err);
       setError(
@@ -40,12 +117,42 @@ export default function InvoicesListPage() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [buildParams]);
 
-  // Initial load
+  // Initial load, and again whenever the filter or sort changes
   useEffect(() => {
-    fetchAllInvoices();
-  }, [fetchAllInvoices]);
+    if (viewId === appliedViewId) {
+      fetchAllInvoices();
+    }
+  }, [fetchAllInvoices, viewId, appliedViewId]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const params = buildParams();
+      params.append("cursor", nextCursor);
+      const response = await getInvoices(params);
+      const more = response.data ?? [];
+      setAllInvoices((current) => [...current, ...more]);
+      setInvoices((current) => [...current, ...more]);
+      setSearchQuery("");
+      setNextCursor(response.pagination?.nextCursor ?? null);
+    } catch (err) {
+      console.error("Error fetching invoices:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load invoices. Please try again."
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSelectView = (id: string | null) => {
+    router.push(id ? `/invoices?view=${id}` : "/invoices");
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -93,6 +200,8 @@ export default function InvoicesListPage() {
         return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
       case "issued":
         return "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100";
+      case "partially_paid":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100";
       case "paid":
         return "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100";
       case "overdue":
@@ -138,6 +247,21 @@ export default function InvoicesListPage() {
         )}
       </div>
 
+      <SavedViewsBar
+        resource="invoices"
+        filter={listFilter}
+        sort={listSort}
+        sortOptions={sortOptions}
+        filterPlaceholder="e.g. status:issued,overdue total:>500 due:<today"
+        filterFields={filterFields}
+        viewId={viewId}
+        onChange={(filter, sort) => {
+          setListFilter(filter);
+          setListSort(sort);
+        }}
+        onSelectView={handleSelectView}
+      />
+
       {/* Search */}
       <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-6">
         <form onSubmit={handleSearch} className="sm:flex sm:items-center">
@@ -248,6 +372,11 @@ export default function InvoicesListPage() {
                           <span className="font-medium">
                             ${Number(invoice.totalAmount || 0).toFixed(2)}
                           </span>
+                          {invoice.status === "partially_paid" && (
+                            <span className="ml-1">
+                              (${Number(invoice.balanceDue || 0).toFixed(2)} due)
+                            </span>
+                          )}
                         </div>
                         <div
                           className={`mt-1 sm:mt-0 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(
@@ -255,7 +384,7 @@ export default function InvoicesListPage() {
                           )}`}
                         >
                           {invoice.status.charAt(0).toUpperCase() +
-                            invoice.status.slice(1)}
+                            invoice.status.slice(1).replace("_", " ")}
                         </div>
                       </div>
                     </div>
@@ -275,6 +404,18 @@ export default function InvoicesListPage() {
             ))}
           </ul>
         )}
+        {!isLoading && nextCursor && (
+          <div className="p-4 text-center border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {isLoadingMore ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,177 @@
+"use client";
+
+import {
+  Conversation,
+  getConversations,
+  MESSAGES_CHANGED_EVENT,
+} from "@/lib/api/message.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
+
+export default function MessagesPage() {
+  const router = useRouter();
+  const { user, hasPermission, isLoading: userLoading } = useUser();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+
+  // Check if user has permission to access this page
+  useEffect(() => {
+    if (!userLoading && (!user || !hasPermission("customers.read"))) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await getConversations();
+      if (response.data) {
+        setConversations(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching conversations:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load messages. Please try again."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+    window.addEventListener(MESSAGES_CHANGED_EVENT, fetchConversations);
+    return () => {
+      window.removeEventListener(MESSAGES_CHANGED_EVENT, fetchConversations);
+    };
+  }, [fetchConversations]);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (userLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || !hasPermission("customers.read")) {
+    return null;
+  }
+
+  const totalUnread = conversations.reduce(
+    (sum, conversation) => sum + conversation.unreadCount,
+    0
+  );
+  const visibleConversations = unreadOnly
+    ? conversations.filter((conversation) => conversation.unreadCount > 0)
+    : conversations;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-6 lg:p-8">
+      <div className="sm:flex sm:items-center sm:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Messages
+          </h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            Emails and texts with customers
+            {totalUnread > 0 &&
+              ` - ${totalUnread} unread ${totalUnread === 1 ? "reply" : "replies"}`}
+          </p>
+        </div>
+        <label className="mt-4 sm:mt-0 inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={(e) => setUnreadOnly(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+          />
+          <span className="ml-2">Unread only</span>
+        </label>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Conversations List */}
+      <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
+        {isLoading ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent mb-3"></div>
+            <p>Loading messages...</p>
+          </div>
+        ) : visibleConversations.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 dark:text-gray-400">
+            <p>
+              {unreadOnly ? "No unread replies." : "No customer messages yet."}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visibleConversations.map((conversation) => (
+              <li key={conversation.customerId}>
+                <Link
+                  href={`/customers/${conversation.customerId}#messages`}
+                  className="block hover:bg-gray-50 dark:hover:bg-gray-700/50 px-4 py-4 sm:px-6"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <p
+                          className={`text-sm text-gray-900 dark:text-gray-100 ${
+                            conversation.unreadCount > 0 ? "font-semibold" : "font-medium"
+                          }`}
+                        >
+                          {conversation.customerFirstName}{" "}
+                          {conversation.customerLastName}
+                        </p>
+                        {conversation.unreadCount > 0 && (
+                          <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-blue-600 text-white">
+                            {conversation.unreadCount}
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 truncate">
+                        {conversation.lastMessage.direction === "outbound" && "You: "}
+                        {conversation.lastMessage.subject
+                          ? `${conversation.lastMessage.subject} - `
+                          : ""}
+                        {conversation.lastMessage.body}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0 text-right text-xs text-gray-500 dark:text-gray-400">
+                      <p>{formatDate(conversation.lastMessage.createdAt)}</p>
+                      <p className="mt-1">
+                        {conversation.lastMessage.channel === "sms" ? "Text" : "Email"}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
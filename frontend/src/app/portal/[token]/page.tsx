@@ -0,0 +1,345 @@
+"use client";
+
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { getErrorMessage } from "@/lib/api";
+import {
+  getPortalTicket,
+  payPortalInvoice,
+  PortalTicket,
+} from "@/lib/api/portal.api";
+import { getStatusColor } from "@/lib/utils/ticketUtils";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+
+const SquarePaymentForm = dynamic(
+  () => import("@/components/SquarePaymentForm"),
+  {
+    ssr: false,
+    loading: () => <LoadingSpinner text="Loading payment form..." />,
+  }
+);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
+    Number(amount)
+  );
+
+export default function PortalTicketPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const { token } = params;
+  const [portal, setPortal] = useState<PortalTicket | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showPayment, setShowPayment] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const [paymentError, setPaymentError] = useState("");
+  const [paymentSuccess, setPaymentSuccess] = useState(false);
+
+  useEffect(() => {
+    const fetchTicket = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getPortalTicket(token);
+        if (response.data) {
+          setPortal(response.data);
+        }
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTicket();
+  }, [token]);
+
+  // Stable so the payment form doesn't re-initialize on every render
+  const handlePaymentError = useCallback((message: string) => {
+    setPaymentError(message);
+  }, []);
+
+  const handlePayment = async (sourceId: string) => {
+    setIsPaying(true);
+    setPaymentError("");
+    try {
+      const response = await payPortalInvoice(token, sourceId);
+      if (response.data) {
+        setPortal(response.data);
+      }
+      setShowPayment(false);
+      setPaymentSuccess(true);
+    } catch (err) {
+      setPaymentError(getErrorMessage(err));
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!portal) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col justify-center">
+        <div className="sm:mx-auto sm:w-full sm:max-w-md">
+          <div className="bg-white dark:bg-gray-800 py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+            <p className="text-red-700 dark:text-red-400">
+              {error || "This link is invalid or has expired"}
+            </p>
+            <Link
+              href="/portal"
+              className="mt-4 inline-block font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Look up your repair by ticket number
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { ticket, updates, invoice, payment } = portal;
+  const device = [ticket.deviceType, ticket.deviceBrand, ticket.deviceModel]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-10 px-4">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="text-center">
+          {portal.companyName && (
+            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">
+              {portal.companyName}
+            </p>
+          )}
+          <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Repair {ticket.ticketNumber}
+          </h1>
+        </div>
+
+        {portal.pendingEstimateToken && (
+          <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 sm:rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-indigo-800 dark:text-indigo-200">
+              We&apos;ve sent you an estimate for this repair. Work continues
+              once you approve it.
+            </p>
+            <Link
+              href={`/portal/estimates/${portal.pendingEstimateToken}`}
+              className="px-4 py-2 text-sm font-medium bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+            >
+              Review estimate
+            </Link>
+          </div>
+        )}
+
+        {/* Status */}
+        <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Status
+            </h2>
+            <span
+              className={`px-3 py-1 text-sm font-medium rounded-full ${getStatusColor(
+                ticket.status,
+                ticket.statusColor
+              )}`}
+            >
+              {ticket.statusLabel}
+            </span>
+          </div>
+          <dl className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <dt className="text-sm text-gray-500 dark:text-gray-400">Device</dt>
+              <dd className="text-sm text-gray-900 dark:text-gray-100">{device}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500 dark:text-gray-400">Dropped off</dt>
+              <dd className="text-sm text-gray-900 dark:text-gray-100">
+                {formatDate(ticket.createdAt)}
+              </dd>
+            </div>
+            {ticket.completedDate ? (
+              <div>
+                <dt className="text-sm text-gray-500 dark:text-gray-400">Completed</dt>
+                <dd className="text-sm text-gray-900 dark:text-gray-100">
+                  {formatDate(ticket.completedDate)}
+                </dd>
+              </div>
+            ) : (
+              !ticket.isClosed &&
+              ticket.estimatedCompletionDate && (
+                <div>
+                  <dt className="text-sm text-gray-500 dark:text-gray-400">
+                    Estimated completion
+                  </dt>
+                  <dd className="text-sm text-gray-900 dark:text-gray-100">
+                    {formatDate(ticket.estimatedCompletionDate)}
+                  </dd>
+                </div>
+              )
+            )}
+            <div className="sm:col-span-2">
+              <dt className="text-sm text-gray-500 dark:text-gray-400">Issue</dt>
+              <dd className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                {ticket.issueDescription}
+              </dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* Updates */}
+        {updates.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Updates from our team
+            </h2>
+            <ul className="mt-4 space-y-4">
+              {updates.map((update) => (
+                <li
+                  key={update.id}
+                  className="border-l-4 border-blue-500 dark:border-blue-400 pl-4"
+                >
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(update.createdAt)}
+                    {update.authorName && ` - ${update.authorName}`}
+                  </p>
+                  <p className="mt-1 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                    {update.body}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Invoice */}
+        {invoice && (
+          <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                Invoice {invoice.invoiceNumber}
+              </h2>
+              <span
+                className={`px-3 py-1 text-xs font-medium rounded-full ${
+                  invoice.status === "paid"
+                    ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                    : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400"
+                }`}
+              >
+                {invoice.status === "paid" ? "Paid" : "Due"}
+              </span>
+            </div>
+            <table className="mt-4 min-w-full text-sm">
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {invoice.items.map((item, index) => (
+                  <tr key={index}>
+                    <td className="py-2 text-gray-900 dark:text-gray-100">
+                      {item.description}
+                      {Number(item.quantity) !== 1 && (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {" "}
+                          x {item.quantity}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right text-gray-900 dark:text-gray-100">
+                      {formatCurrency(item.subtotal)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <dl className="mt-4 space-y-1 text-sm border-t border-gray-200 dark:border-gray-700 pt-4">
+              <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                <dt>Subtotal</dt>
+                <dd>{formatCurrency(invoice.subtotal)}</dd>
+              </div>
+              {Number(invoice.discountAmount) > 0 && (
+                <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                  <dt>Discount</dt>
+                  <dd>-{formatCurrency(invoice.discountAmount)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                <dt>Tax</dt>
+                <dd>{formatCurrency(invoice.taxAmount)}</dd>
+              </div>
+              <div className="flex justify-between font-medium text-gray-900 dark:text-gray-100">
+                <dt>Total</dt>
+                <dd>{formatCurrency(invoice.totalAmount)}</dd>
+              </div>
+              {invoice.status !== "paid" && Number(invoice.amountPaid) > 0 && (
+                <>
+                  <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                    <dt>Paid</dt>
+                    <dd>-{formatCurrency(invoice.amountPaid)}</dd>
+                  </div>
+                  <div className="flex justify-between font-medium text-gray-900 dark:text-gray-100">
+                    <dt>Balance due</dt>
+                    <dd>{formatCurrency(invoice.balanceDue)}</dd>
+                  </div>
+                </>
+              )}
+            </dl>
+
+            {paymentSuccess && (
+              <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-md border border-green-200 dark:border-green-800">
+                Thank you! Your payment was received.
+              </div>
+            )}
+
+            {invoice.status !== "paid" && payment && (
+              <div className="mt-6">
+                {paymentError && (
+                  <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
+                    {paymentError}
+                  </div>
+                )}
+                {showPayment ? (
+                  <SquarePaymentForm
+                    applicationId={payment.applicationId}
+                    locationId={payment.locationId}
+                    testMode={payment.testMode}
+                    amount={Number(invoice.balanceDue)}
+                    onPaymentSuccess={handlePayment}
+                    onError={handlePaymentError}
+                    isProcessing={isPaying}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setShowPayment(true)}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    Pay {formatCurrency(invoice.balanceDue)} online
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Questions about your repair? Please contact us and quote your ticket
+          number.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  approvePortalEstimate,
+  declinePortalEstimate,
+  getPortalEstimate,
+  PortalEstimate,
+} from "@/lib/api/portal.api";
+import React, { useEffect, useState } from "react";
+
+const inputClassName =
+  "block w-full appearance-none rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 placeholder-gray-400 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 dark:focus:border-blue-500 focus:outline-none focus:ring-blue-500 dark:focus:ring-blue-500";
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
+    Number(amount)
+  );
+
+export default function PortalEstimatePage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const { token } = params;
+  const [estimate, setEstimate] = useState<PortalEstimate | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [response, setResponse] = useState<"approve" | "decline" | null>(null);
+  const [name, setName] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchEstimate = async () => {
+      setIsLoading(true);
+      try {
+        const result = await getPortalEstimate(token);
+        if (result.data) {
+          setEstimate(result.data);
+        }
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEstimate();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const result =
+        response === "approve"
+          ? await approvePortalEstimate(token, name.trim())
+          : await declinePortalEstimate(token, reason.trim() || undefined);
+      if (result.data) {
+        setEstimate(result.data);
+      }
+      setResponse(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!estimate) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col justify-center">
+        <div className="sm:mx-auto sm:w-full sm:max-w-md">
+          <div className="bg-white dark:bg-gray-800 py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+            <p className="text-red-700 dark:text-red-400">
+              {error || "This link is invalid or has expired"}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const canRespond = estimate.status === "sent" && !estimate.isExpired;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-10 px-4">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="text-center">
+          {estimate.companyName && (
+            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">
+              {estimate.companyName}
+            </p>
+          )}
+          <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Estimate {estimate.estimateNumber}
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Repair {estimate.ticketNumber} - {estimate.device}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
+            {error}
+          </div>
+        )}
+
+        {estimate.status === "approved" && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-md border border-green-200 dark:border-green-800">
+            Approved by {estimate.approvedByName}
+            {estimate.respondedAt && ` on ${formatDate(estimate.respondedAt)}`}.
+            Thank you, we&apos;ll get started on your repair.
+          </div>
+        )}
+        {estimate.status === "declined" && (
+          <div className="p-3 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md border border-gray-200 dark:border-gray-700">
+            You declined this estimate
+            {estimate.respondedAt && ` on ${formatDate(estimate.respondedAt)}`}.
+            We&apos;ll be in touch about your device.
+          </div>
+        )}
+        {estimate.status === "withdrawn" && (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-md border border-yellow-200 dark:border-yellow-800">
+            This estimate has been withdrawn. Please contact us for an updated
+            estimate.
+          </div>
+        )}
+        {estimate.status === "sent" && estimate.isExpired && (
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-md border border-yellow-200 dark:border-yellow-800">
+            This estimate has expired. Please contact us for an updated
+            estimate.
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Issue
+          </h2>
+          <p className="mt-1 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+            {estimate.issueDescription}
+          </p>
+
+          <table className="mt-6 min-w-full text-sm">
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {estimate.items.map((item, index) => (
+                <tr key={index}>
+                  <td className="py-2 text-gray-900 dark:text-gray-100">
+                    {item.description}
+                    {Number(item.quantity) !== 1 && (
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {" "}
+                        x {item.quantity}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-gray-900 dark:text-gray-100">
+                    {formatCurrency(item.subtotal)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <dl className="mt-4 space-y-1 text-sm border-t border-gray-200 dark:border-gray-700 pt-4">
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <dt>Subtotal</dt>
+              <dd>{formatCurrency(estimate.subtotal)}</dd>
+            </div>
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <dt>Tax</dt>
+              <dd>{formatCurrency(estimate.taxAmount)}</dd>
+            </div>
+            <div className="flex justify-between font-medium text-gray-900 dark:text-gray-100">
+              <dt>Total</dt>
+              <dd>{formatCurrency(estimate.totalAmount)}</dd>
+            </div>
+          </dl>
+
+          {estimate.notes && (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+              {estimate.notes}
+            </p>
+          )}
+          {estimate.validUntil && canRespond && (
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+              Valid until {formatDate(estimate.validUntil)}
+            </p>
+          )}
+        </div>
+
+        {canRespond && (
+          <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+            {response === null ? (
+              <div className="flex flex-col gap-3 sm:flex-row">
+                <button
+                  type="button"
+                  onClick={() => setResponse("approve")}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  Approve estimate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setResponse("decline")}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600"
+                >
+                  Decline
+                </button>
+              </div>
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                {response === "approve" ? (
+                  <div>
+                    <label
+                      htmlFor="name"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Type your full name to approve{" "}
+                      {formatCurrency(estimate.totalAmount)}
+                    </label>
+                    <div className="mt-1">
+                      <input
+                        id="name"
+                        name="name"
+                        type="text"
+                        required
+                        maxLength={255}
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label
+                      htmlFor="reason"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Let us know why (optional)
+                    </label>
+                    <div className="mt-1">
+                      <textarea
+                        id="reason"
+                        name="reason"
+                        rows={3}
+                        maxLength={1000}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        className={inputClassName}
+                      ></textarea>
+                    </div>
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setResponse(null)}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600"
+                  >
+                    Back
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={
+                      isSubmitting || (response === "approve" && !name.trim())
+                    }
+                    className={`flex-1 px-4 py-2 text-white rounded-md disabled:opacity-50 ${
+                      response === "approve"
+                        ? "bg-green-600 hover:bg-green-700"
+                        : "bg-red-600 hover:bg-red-700"
+                    }`}
+                  >
+                    {isSubmitting
+                      ? "Submitting..."
+                      : response === "approve"
+                        ? "Approve"
+                        : "Decline estimate"}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Questions about this estimate? Please contact us and quote your
+          ticket number.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import { lookupPortalTicket } from "@/lib/api/portal.api";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+const inputClassName =
+  "block w-full appearance-none rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 placeholder-gray-400 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 dark:focus:border-blue-500 focus:outline-none focus:ring-blue-500 dark:focus:ring-blue-500";
+
+export default function PortalLookupPage() {
+  const router = useRouter();
+  const [ticketNumber, setTicketNumber] = useState("");
+  const [contact, setContact] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      const response = await lookupPortalTicket(ticketNumber, contact);
+      if (response.data) {
+        router.push(`/portal/${response.data.token}`);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col justify-center">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <h2 className="text-center text-3xl font-bold tracking-tight text-gray-900 dark:text-gray-100">
+          Check your repair status
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+          Enter the ticket number from your receipt and the phone number or
+          email you gave us.
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white dark:bg-gray-800 py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
+              {error}
+            </div>
+          )}
+
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label
+                htmlFor="ticketNumber"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Ticket number
+              </label>
+              <div className="mt-1">
+                <input
+                  id="ticketNumber"
+                  name="ticketNumber"
+                  type="text"
+                  required
+                  value={ticketNumber}
+                  onChange={(e) => setTicketNumber(e.target.value)}
+                  className={inputClassName}
+                  placeholder="TKT-12345678-123"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="contact"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Phone number or email
+              </label>
+              <div className="mt-1">
+                <input
+                  id="contact"
+                  name="contact"
+                  type="text"
+                  required
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex w-full justify-center rounded-md border border-transparent bg-blue-600 dark:bg-blue-700 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-blue-700 dark:hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-75"
+              >
+                {isLoading ? "Looking up..." : "Find my repair"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
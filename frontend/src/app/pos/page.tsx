@@ -3,6 +3,7 @@
 import CashPaymentModal from "@/components/CashPaymentModal";
 import DrawerStatusBadge from "@/components/DrawerStatusBadge";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import SignatureCaptureModal from "@/components/SignatureCaptureModal";
 import SquarePaymentForm from "@/components/SquarePaymentForm";
 import {
     Customer,
@@ -20,9 +21,11 @@ import {
     getInvoices,
     Invoice,
     markInvoiceAsPaid,
+    MarkInvoicePaidData,
     removeInvoiceItem
 } from "@/lib/api/invoice.api";
 import { processPayment } from "@/lib/api/payment.api";
+import { getTicketSignatures } from "@/lib/api/signature.api";
 import { useUser } from "@/lib/UserContext";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState } from "react";
@@ -68,6 +71,9 @@ export default function POSPage() {
   const [showManualCardForm, setShowManualCardForm] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [error, setError] = useState("");
+  // Pick-up signature for invoices that belong to a repair ticket
+  const [pickupSigned, setPickupSigned] = useState<boolean | null>(null);
+  const [showPickupSignature, setShowPickupSignature] = useState(false);
   const [posEnabled, setPosEnabled] = useState<boolean | null>(null);
   const [isPaymentConfigured, setIsPaymentConfigured] = useState(false);
   const [paymentConfig, setPaymentConfig] = useState<IntegrationConfig | null>(null);
@@ -205,6 +211,8 @@ export default function POSPage() {
       totalAmount: typeof inv.totalAmount === 'string' ? parseFloat(inv.totalAmount) : Number(inv.totalAmount) || 0,
       taxRate: typeof inv.taxRate === 'string' ? parseFloat(inv.taxRate) : Number(inv.taxRate) || 0,
       refundAmount: typeof inv.refundAmount === 'string' ? parseFloat(inv.refundAmount) : Number(inv.refundAmount) || 0,
+      amountPaid: typeof inv.amountPaid === 'string' ? parseFloat(inv.amountPaid) : Number(inv.amountPaid) || 0,
+      balanceDue: typeof inv.balanceDue === 'string' ? parseFloat(inv.balanceDue) : Number(inv.balanceDue) || 0,
       invoiceItems: inv.invoiceItems?.map(item => ({
         ...item,
         quantity: typeof item.quantity === 'string' ? parseInt(item.quantity) : Number(item.quantity) || 0,
@@ -430,7 +438,7 @@ export default function POSPage() {
       await processPayment({
         invoiceId: invoice.id,
         sourceId,
-        amount: invoice.totalAmount,
+        amount: invoice.balanceDue,
       });
 
       // Refresh invoice
@@ -468,12 +476,7 @@ export default function POSPage() {
   };
 
   // Handle manual card payment (when payment integration is not configured)
-  const handleManualCardPayment = async (paymentData: {
-    paymentMethod: string;
-    paymentReference?: string;
-    paidDate?: string;
-    notes?: string;
-  }) => {
+  const handleManualCardPayment = async (paymentData: MarkInvoicePaidData) => {
     if (!invoice) return;
 
     setIsProcessingPayment(true);
@@ -503,6 +506,29 @@ export default function POSPage() {
     }
   };
 
+  // Check whether the customer has signed for pick-up on the invoice's ticket
+  const invoiceTicketId = invoice?.ticketId;
+  useEffect(() => {
+    if (!invoiceTicketId) {
+      setPickupSigned(null);
+      return;
+    }
+
+    const fetchSignatures = async () => {
+      try {
+        const response = await getTicketSignatures(invoiceTicketId);
+        setPickupSigned(
+          (response.data || []).some((signature) => signature.kind === "pickup")
+        );
+      } catch (err) {
+        console.error("Error fetching ticket signatures:", err);
+        setPickupSigned(null);
+      }
+    };
+
+    fetchSignatures();
+  }, [invoiceTicketId]);
+
   // Start new transaction
   const handleNewTransaction = () => {
     setInvoice(null);
@@ -912,6 +938,23 @@ export default function POSPage() {
                     <span>Total:</span>
                     <span>${invoice.totalAmount.toFixed(2)}</span>
                   </div>
+                  {invoice.amountPaid > 0 && (
+                    <>
+                      {invoice.payments?.map((payment) => (
+                        <div
+                          key={payment.id}
+                          className="flex justify-between text-sm text-gray-600 dark:text-gray-400"
+                        >
+                          <span>Paid ({payment.paymentMethod}):</span>
+                          <span>-${Number(payment.amount).toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between text-lg font-bold">
+                        <span>Balance Due:</span>
+                        <span>${invoice.balanceDue.toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 {/* Payment Method Selection */}
@@ -959,7 +1002,7 @@ export default function POSPage() {
                           onPaymentSuccess={handleCardTokenized}
                           onError={(err) => setError(err)}
                           disabled={isProcessingPayment}
-                          amount={invoice.totalAmount}
+                          amount={invoice.balanceDue}
                           isProcessing={isProcessingPayment}
                         />
                         <button
@@ -1005,6 +1048,38 @@ export default function POSPage() {
                     </div>
                   </div>
                 )}
+
+                {/* Partially Paid Status */}
+                {invoice.status === "partially_paid" && !paymentMethod && (
+                  <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded">
+                    <div className="text-yellow-800 dark:text-yellow-300 font-medium">
+                      Partially Paid
+                    </div>
+                    <div className="text-sm text-yellow-700 dark:text-yellow-400 mt-1">
+                      Take another payment for the ${invoice.balanceDue.toFixed(2)} balance.
+                    </div>
+                  </div>
+                )}
+
+                {/* Pick-up signature */}
+                {invoice.status === "paid" &&
+                  invoice.ticketId &&
+                  pickupSigned !== null && (
+                    <div className="mt-4">
+                      {pickupSigned ? (
+                        <div className="text-sm text-gray-600 dark:text-gray-400">
+                          Customer has signed for pick-up.
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setShowPickupSignature(true)}
+                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+                        >
+                          Capture Pick-up Signature
+                        </button>
+                      )}
+                    </div>
+                  )}
               </div>
             )}
           </div>
@@ -1021,6 +1096,22 @@ export default function POSPage() {
         />
       )}
 
+      {/* Pick-up Signature Modal */}
+      {invoice?.ticketId && (
+        <SignatureCaptureModal
+          ticketId={invoice.ticketId}
+          kind="pickup"
+          defaultSignerName={
+            selectedCustomer
+              ? `${selectedCustomer.firstName} ${selectedCustomer.lastName}`
+              : ""
+          }
+          isOpen={showPickupSignature}
+          onClose={() => setShowPickupSignature(false)}
+          onSuccess={() => setPickupSigned(true)}
+        />
+      )}
+
       {/* Manual Card Payment Form Modal */}
       {invoice && (
         <ManualCardPaymentModal
@@ -1049,29 +1140,39 @@ function ManualCardPaymentModal({
   invoice: Invoice;
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (data: {
-    paymentMethod: string;
-    paymentReference?: string;
-    paidDate?: string;
-    notes?: string;
-  }) => void;
+  onConfirm: (data: MarkInvoicePaidData) => void;
   isProcessing: boolean;
 }) {
   const [formData, setFormData] = useState({
     paymentMethod: "Card",
+    amount: invoice.balanceDue.toFixed(2),
     paymentReference: "",
     paidDate: new Date().toISOString().split("T")[0],
     notes: "",
   });
 
+  // Default to paying off whatever is left on the invoice
+  const balanceDue = invoice.balanceDue;
+  useEffect(() => {
+    if (isOpen) {
+      setFormData((current) => ({ ...current, amount: balanceDue.toFixed(2) }));
+    }
+  }, [isOpen, balanceDue]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.paymentMethod.trim()) {
       alert("Payment method is required");
       return;
     }
+    const amount = Number(formData.amount);
+    if (!amount || amount <= 0 || amount > invoice.balanceDue) {
+      alert(`Amount must be between $0.01 and $${invoice.balanceDue.toFixed(2)}`);
+      return;
+    }
     onConfirm({
       paymentMethod: formData.paymentMethod,
+      amount,
       paymentReference: formData.paymentReference || undefined,
       paidDate: formData.paidDate || undefined,
       notes: formData.notes || undefined,
@@ -1110,6 +1211,23 @@ function ManualCardPaymentModal({
                 <option value="Discover">Discover</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Amount *
+              </label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                max={invoice.balanceDue}
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) =>
+                  setFormData({ ...formData, amount: e.target.value })
+                }
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                 Payment Reference
@@ -1153,9 +1271,9 @@ function ManualCardPaymentModal({
             </div>
             <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md">
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600 dark:text-gray-400">Total Amount:</span>
+                <span className="text-gray-600 dark:text-gray-400">Balance Due:</span>
                 <span className="font-medium text-gray-900 dark:text-gray-100">
-                  ${invoice.totalAmount.toFixed(2)}
+                  ${invoice.balanceDue.toFixed(2)}
                 </span>
               </div>
             </div>
@@ -6,17 +6,20 @@ import {
   getTechnicianPerformance,
   getTicketPriorityDistribution,
   getTicketStatusDistribution,
+  getWarrantyReturns,
   type StatusDistribution,
   type PriorityDistribution,
   type RevenueByLocation,
   type TechnicianPerformance,
   type InvoiceStatusBreakdown,
+  type WarrantyReturnReport,
 } from "@/lib/api/reporting.api";
 import { useUser } from "@/lib/UserContext";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import dynamic from "next/dynamic";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import WarrantyReturnsTable from "@/components/Reporting/WarrantyReturnsTable";
 
 const TicketStatusChart = dynamic(
   () => import("@/components/Reporting/TicketStatusChart"),
@@ -75,6 +78,7 @@ export default function ReportingPage() {
   const [revenueByLocationData, setRevenueByLocationData] = useState<RevenueByLocation[]>([]);
   const [technicianPerformanceData, setTechnicianPerformanceData] = useState<TechnicianPerformance[]>([]);
   const [invoiceStatusData, setInvoiceStatusData] = useState<InvoiceStatusBreakdown[]>([]);
+  const [warrantyReturnsData, setWarrantyReturnsData] = useState<WarrantyReturnReport | null>(null);
 
   // Loading states
   const [loadingTicketStatus, setLoadingTicketStatus] = useState(false);
@@ -82,6 +86,7 @@ export default function ReportingPage() {
   const [loadingRevenueByLocation, setLoadingRevenueByLocation] = useState(false);
   const [loadingTechnicianPerformance, setLoadingTechnicianPerformance] = useState(false);
   const [loadingInvoiceStatus, setLoadingInvoiceStatus] = useState(false);
+  const [loadingWarrantyReturns, setLoadingWarrantyReturns] = useState(false);
 
   // Error states
   const [errorTicketStatus, setErrorTicketStatus] = useState<string | null>(null);
@@ -89,6 +94,7 @@ export default function ReportingPage() {
   const [errorRevenueByLocation, setErrorRevenueByLocation] = useState<string | null>(null);
   const [errorTechnicianPerformance, setErrorTechnicianPerformance] = useState<string | null>(null);
   const [errorInvoiceStatus, setErrorInvoiceStatus] = useState<string | null>(null);
+  const [errorWarrantyReturns, setErrorWarrantyReturns] = useState<string | null>(null);
 
   // Initialize date range to last 30 days
   useEffect(() => {
@@ -224,6 +230,35 @@ export default function ReportingPage() {
     fetchTechnicianPerformance();
   }, [user, hasPermission, startDate, endDate, selectedLocationId]);
 
+  // Fetch warranty return rates (admin/manager only)
+  useEffect(() => {
+    if (!user || !hasPermission("reporting.read") || !startDate || !endDate) return;
+
+    const fetchWarrantyReturns = async () => {
+      setLoadingWarrantyReturns(true);
+      setErrorWarrantyReturns(null);
+      try {
+        const response = await getWarrantyReturns(
+          selectedLocationId || undefined,
+          startDate,
+          endDate
+        );
+        if (response.data) {
+          setWarrantyReturnsData(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching warranty returns:", err);
+        setErrorWarrantyReturns(
+          err instanceof Error ? err.message : "Failed to load warranty return data"
+        );
+      } finally {
+        setLoadingWarrantyReturns(false);
+      }
+    };
+
+    fetchWarrantyReturns();
+  }, [user, hasPermission, startDate, endDate, selectedLocationId]);
+
   // Fetch invoice status breakdown (admin/manager/technician)
   useEffect(() => {
     if (!user || (!hasPermission("reporting.read") && !hasPermission("invoices.read")) || !startDate || !endDate) return;
@@ -386,6 +421,20 @@ export default function ReportingPage() {
               </div>
             )}
 
+            {/* Warranty Returns - Admin/Manager only */}
+            {canViewFinancialReports && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                  Warranty Returns
+                </h2>
+                <WarrantyReturnsTable
+                  data={warrantyReturnsData}
+                  loading={loadingWarrantyReturns}
+                  error={errorWarrantyReturns}
+                />
+              </div>
+            )}
+
             {/* Invoice Status - Admin/Manager/Technician */}
             {canViewInvoiceReports && (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
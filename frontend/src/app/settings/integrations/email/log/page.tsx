@@ -0,0 +1,296 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import { PaginationInfo } from "@/lib/api/company.api";
+import {
+  EmailMessage,
+  EmailMessageStatus,
+  getEmailMessages,
+  resendEmailMessage,
+} from "@/lib/api/email-message.api";
+import { useUser } from "@/lib/UserContext";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+
+const PAGE_SIZE = 25;
+
+const statusStyles: Record<EmailMessageStatus, string> = {
+  pending:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  sent: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  delivered:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  opened:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  bounced: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+const statusLabels: Record<EmailMessageStatus, string> = {
+  pending: "Retrying",
+  sent: "Sent",
+  delivered: "Delivered",
+  opened: "Opened",
+  bounced: "Bounced",
+  failed: "Failed",
+};
+
+const templateLabels: Record<string, string> = {
+  ticket_status: "Ticket status",
+  invoice: "Invoice",
+  estimate: "Estimate",
+  customer_message: "Message",
+  sla_alert: "SLA alert",
+  invitation: "Invitation",
+  password_reset: "Password reset",
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function EmailLogPage() {
+  const router = useRouter();
+  const { user, hasPermission, isLoading: userLoading } = useUser();
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [status, setStatus] = useState<EmailMessageStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  // Check if user has permission to access settings (admin only)
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/settings");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  const fetchMessages = useCallback(async () => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const response = await getEmailMessages({
+        status: status || undefined,
+        page,
+        limit: PAGE_SIZE,
+      });
+      setMessages(response.data);
+      setPagination(response.pagination);
+    } catch (err) {
+      console.error("Error fetching email log:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+    fetchMessages();
+  }, [user, fetchMessages]);
+
+  const handleResend = async (message: EmailMessage) => {
+    setResendingId(message.id);
+    setError("");
+    try {
+      const response = await resendEmailMessage(message.id);
+      if (response.data) {
+        const updated = response.data;
+        setMessages((current) =>
+          current.map((item) => (item.id === updated.id ? updated : item))
+        );
+      }
+    } catch (err) {
+      console.error("Error resending email:", err);
+      setError(getErrorMessage(err));
+      // The failed attempt and its error are in the log now
+      fetchMessages();
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  if (userLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin" || !hasPermission("settings.access")) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <button
+          onClick={() => router.push("/settings/integrations/email")}
+          className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 mb-4"
+        >
+          ← Back to Email Settings
+        </button>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Email Log
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Every email sent for your shop. Emails that fail to send are retried
+          automatically for a few hours; once retries run out, or an email
+          bounces, you can resend it from here.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label
+          htmlFor="status"
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Status
+        </label>
+        <select
+          id="status"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as EmailMessageStatus | "");
+            setPage(1);
+          }}
+          className="rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        >
+          <option value="">All</option>
+          {(Object.keys(statusLabels) as EmailMessageStatus[]).map((key) => (
+            <option key={key} value={key}>
+              {statusLabels[key]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+            No emails found.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900/50">
+              <tr>
+                {["Sent", "Recipient", "Email", "Status", ""].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {messages.map((message) => (
+                <tr key={message.id}>
+                  <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {formatDateTime(message.createdAt)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 break-all">
+                    {message.toAddress}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <p className="text-gray-900 dark:text-gray-100">
+                      {message.subject}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {templateLabels[message.template] || message.template}
+                      {message.attempts > 1 &&
+                        ` · ${message.attempts} attempts`}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[message.status]}`}
+                    >
+                      {statusLabels[message.status]}
+                    </span>
+                    {message.status === "pending" && message.nextAttemptAt && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Next try {formatDateTime(message.nextAttemptAt)}
+                      </p>
+                    )}
+                    {message.openedAt && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Opened {formatDateTime(message.openedAt)}
+                      </p>
+                    )}
+                    {message.error &&
+                      (message.status === "pending" ||
+                        message.status === "failed" ||
+                        message.status === "bounced") && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-1 break-words">
+                          {message.error}
+                        </p>
+                      )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                    {(message.status === "failed" ||
+                      message.status === "bounced") && (
+                      <button
+                        onClick={() => handleResend(message)}
+                        disabled={resendingId !== null}
+                        className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 border border-blue-600 dark:border-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50"
+                      >
+                        {resendingId === message.id ? "Resending..." : "Resend"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Page {pagination.page} of {pagination.totalPages} ·{" "}
+            {pagination.total} emails
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pagination.totalPages || isLoading}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
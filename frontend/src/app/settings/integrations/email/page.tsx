@@ -4,6 +4,7 @@ import { useUser } from "@/lib/UserContext";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
 import dynamic from "next/dynamic";
+import Link from "next/link";
 import LoadingSpinner from "@/components/LoadingSpinner";
 
 const EmailIntegrationForm = dynamic(
@@ -14,6 +15,14 @@ const EmailIntegrationForm = dynamic(
   }
 );
 
+const EmailTemplateEditor = dynamic(
+  () => import("@/components/EmailTemplateEditor"),
+  {
+    ssr: false,
+    loading: () => <LoadingSpinner text="Loading templates..." />,
+  }
+);
+
 export default function EmailIntegrationPage() {
   const router = useRouter();
   const { user, hasPermission, isLoading } = useUser();
@@ -42,15 +51,24 @@ export default function EmailIntegrationPage() {
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-        <div className="mb-6">
+        <div className="mb-6 flex items-start justify-between">
           <button
             onClick={() => router.back()}
             className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 mb-4"
           >
             ← Back to Settings
           </button>
+          <Link
+            href="/settings/integrations/email/log"
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            View email log →
+          </Link>
         </div>
         <EmailIntegrationForm />
+        <div className="mt-8 border-t border-gray-200 dark:border-gray-700">
+          <EmailTemplateEditor />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,378 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  createLaborCategory,
+  deleteLaborCategory,
+  getLaborSettings,
+  LaborCategory,
+  setDefaultLaborRate,
+  updateLaborCategory,
+} from "@/lib/api/labor.api";
+import { useUser } from "@/lib/UserContext";
+import { useRouter } from "next/navigation";
+import React, { useEffect, useState } from "react";
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+// Rates are edited as text so an empty field can mean "no rate"
+const toRate = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+const fromRate = (rate: number | null) => (rate === null ? "" : String(rate));
+
+export default function LaborSettingsPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading, hasPermission } = useUser();
+  const [defaultRate, setDefaultRate] = useState("");
+  const [categories, setCategories] = useState<LaborCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+
+  // The category being edited, or "new" while adding one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [categoryName, setCategoryName] = useState("");
+  const [categoryRate, setCategoryRate] = useState("");
+  const [categoryWarranty, setCategoryWarranty] = useState("");
+
+  // Check if user has permission
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await getLaborSettings();
+      if (response.data) {
+        setDefaultRate(fromRate(response.data.defaultHourlyRate));
+        setCategories(response.data.categories);
+      }
+    } catch (err) {
+      console.error("Error fetching labor settings:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Initial load
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+    fetchSettings();
+  }, [user]);
+
+  const isValidRate = (value: string) =>
+    value.trim() === "" || Number(value) >= 0;
+
+  const handleSaveRate = async () => {
+    setError("");
+    setSuccessMessage("");
+    if (!isValidRate(defaultRate)) {
+      setError("Hourly rate must be a non-negative number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await setDefaultLaborRate(toRate(defaultRate));
+      if (response.data) {
+        setDefaultRate(fromRate(response.data.defaultHourlyRate));
+      }
+      setSuccessMessage("Default labor rate saved");
+    } catch (err) {
+      console.error("Error saving labor rate:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (category?: LaborCategory) => {
+    setEditing(category ? category.id : "new");
+    setCategoryName(category?.name || "");
+    setCategoryRate(category ? fromRate(category.hourlyRate) : "");
+    setCategoryWarranty(category ? fromRate(category.warrantyDays) : "");
+  };
+
+  const handleSaveCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccessMessage("");
+    if (!categoryName.trim()) {
+      setError("Category name is required");
+      return;
+    }
+    if (!isValidRate(categoryRate)) {
+      setError("Hourly rate must be a non-negative number");
+      return;
+    }
+    if (
+      categoryWarranty.trim() !== "" &&
+      !Number.isInteger(Number(categoryWarranty))
+    ) {
+      setError("Warranty must be a whole number of days");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = {
+        name: categoryName.trim(),
+        hourlyRate: toRate(categoryRate),
+        warrantyDays: toRate(categoryWarranty),
+      };
+      if (editing === "new") {
+        await createLaborCategory(data);
+      } else if (editing) {
+        await updateLaborCategory(editing, data);
+      }
+      setEditing(null);
+      await fetchSettings();
+    } catch (err) {
+      console.error("Error saving labor category:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteCategory = async (category: LaborCategory) => {
+    if (
+      !confirm(
+        `Delete the ${category.name} labor category? Time already logged keeps its category.`
+      )
+    )
+      return;
+
+    setError("");
+    setSuccessMessage("");
+    try {
+      await deleteLaborCategory(category.id);
+      await fetchSettings();
+    } catch (err) {
+      console.error("Error deleting labor category:", err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  if (userLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Labor Rates
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Time technicians log on a ticket is added to its invoice as labor at
+          these hourly rates.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-800 dark:text-green-200">{successMessage}</p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+          Default hourly rate
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Used for time without a category and for categories without their
+          own rate.
+        </p>
+        <div className="mt-4 flex items-end gap-3">
+          <div className="w-48">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Not set"
+              value={defaultRate}
+              onChange={(e) => setDefaultRate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSaveRate}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Rate
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg overflow-hidden">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Labor categories
+          </h2>
+          {editing === null && (
+            <button
+              type="button"
+              onClick={() => startEditing()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Add Category
+            </button>
+          )}
+        </div>
+
+        {editing !== null && (
+          <form
+            onSubmit={handleSaveCategory}
+            className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex flex-wrap items-end gap-3"
+          >
+            <div className="flex-1 min-w-48">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Name
+              </label>
+              <input
+                type="text"
+                maxLength={100}
+                value={categoryName}
+                onChange={(e) => setCategoryName(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div className="w-48">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Hourly rate
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Default rate"
+                value={categoryRate}
+                onChange={(e) => setCategoryRate(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div className="w-40">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Warranty (days)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="3650"
+                step="1"
+                placeholder="Default"
+                value={categoryWarranty}
+                onChange={(e) => setCategoryWarranty(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Category"}
+            </button>
+          </form>
+        )}
+
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 border-t border-gray-200 dark:border-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700/50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Hourly rate
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Warranty
+              </th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {categories.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={4}
+                  className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 italic"
+                >
+                  No labor categories yet. All time is billed at the default
+                  rate.
+                </td>
+              </tr>
+            ) : (
+              categories.map((category) => (
+                <tr key={category.id}>
+                  <td className="px-6 py-4 text-sm text-gray-900 dark:text-gray-100">
+                    {category.name}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                    {category.hourlyRate === null
+                      ? "Default rate"
+                      : `$${category.hourlyRate.toFixed(2)}`}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                    {category.warrantyDays === null
+                      ? "Default"
+                      : `${category.warrantyDays} days`}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => startEditing(category)}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteCategory(category)}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -2,19 +2,25 @@
 
 import { useUser } from "@/lib/UserContext";
 import {
+  ArrowsRightLeftIcon,
   ClipboardDocumentCheckIcon,
   Cog6ToothIcon,
   CreditCardIcon,
   EnvelopeIcon,
   FlagIcon,
   MapPinIcon,
+  PencilSquareIcon,
   ShieldCheckIcon,
   UserCircleIcon,
   UsersIcon,
   TagIcon,
   Squares2X2Icon,
   BuildingStorefrontIcon,
+  ClockIcon,
   CpuChipIcon,
+  CurrencyDollarIcon,
+  DevicePhoneMobileIcon,
+  ShieldExclamationIcon,
 } from "@heroicons/react/24/outline";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -67,6 +73,46 @@ export default function SettingsPage() {
       permission: "settings.access",
       adminOnly: true,
     },
+    {
+      name: "Ticket Workflow",
+      description: "Customize ticket statuses and who can move tickets between them",
+      href: "/settings/workflow",
+      icon: ArrowsRightLeftIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
+    {
+      name: "SLA Policies",
+      description: "Set assignment and completion targets for each ticket priority",
+      href: "/settings/sla",
+      icon: ClockIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
+    {
+      name: "Labor Rates",
+      description: "Set hourly rates and categories for billing technician time",
+      href: "/settings/labor",
+      icon: CurrencyDollarIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
+    {
+      name: "Warranty",
+      description: "Set the default warranty on repairs",
+      href: "/settings/warranty",
+      icon: ShieldExclamationIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
+    {
+      name: "Signature Terms",
+      description: "Edit the terms customers sign at drop-off and pick-up",
+      href: "/settings/signatures",
+      icon: PencilSquareIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
     {
       name: "Locations",
       description: "Manage business locations",
@@ -83,6 +129,14 @@ export default function SettingsPage() {
       permission: "settings.access",
       adminOnly: true,
     },
+    {
+      name: "SMS Integration",
+      description: "Configure text message notifications for customers",
+      href: "/settings/integrations/sms",
+      icon: DevicePhoneMobileIcon,
+      permission: "settings.access",
+      adminOnly: true,
+    },
     {
       name: "Payment Integration",
       description: "Configure payment processing for invoices",
@@ -0,0 +1,219 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  getSignatureTerms,
+  getSignatureTermsHistory,
+  saveSignatureTerms,
+  SignatureKind,
+  SignatureTerms,
+} from "@/lib/api/signature.api";
+import { useUser } from "@/lib/UserContext";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+const kindDetails: Record<SignatureKind, { title: string; description: string }> =
+  {
+    intake: {
+      title: "Drop-off Terms",
+      description: "Shown to customers when they sign to leave a device for repair.",
+    },
+    pickup: {
+      title: "Pick-up Terms",
+      description: "Shown to customers when they sign to collect a repaired device.",
+    },
+  };
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+function TermsEditor({ terms }: { terms: SignatureTerms }) {
+  const [current, setCurrent] = useState(terms);
+  const [body, setBody] = useState(terms.body);
+  const [history, setHistory] = useState<SignatureTerms[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+  const details = kindDetails[terms.kind];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    setSuccessMessage("");
+    try {
+      const response = await saveSignatureTerms(terms.kind, body.trim());
+      if (response.data) {
+        setCurrent(response.data);
+        setBody(response.data.body);
+        setSuccessMessage(`Saved as version ${response.data.version}`);
+      }
+      setHistory(null);
+    } catch (err) {
+      console.error("Error saving signature terms:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleHistory = async () => {
+    if (history) {
+      setHistory(null);
+      return;
+    }
+    try {
+      const response = await getSignatureTermsHistory(terms.kind);
+      setHistory(response.data || []);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            {details.title}
+          </h2>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {details.description}{" "}
+            {current.version === 0
+              ? "Using the default terms."
+              : `Version ${current.version}${current.createdAt ? `, saved ${formatDate(current.createdAt)}` : ""}.`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !body.trim() || body.trim() === current.body}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+      </div>
+      <div className="px-4 py-5 sm:px-6 space-y-3">
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        {successMessage && (
+          <p className="text-sm text-green-600 dark:text-green-400">
+            {successMessage}
+          </p>
+        )}
+        <textarea
+          rows={6}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        ></textarea>
+        {current.version > 0 && (
+          <button
+            type="button"
+            onClick={toggleHistory}
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            {history ? "Hide" : "Show"} previous versions
+          </button>
+        )}
+        {history && (
+          <ul className="space-y-3 border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+            {history.map((version) => (
+              <li key={version.version}>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Version {version.version}
+                  {version.createdAt && ` - ${formatDate(version.createdAt)}`}
+                </p>
+                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                  {version.body}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SignatureSettingsPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading, hasPermission } = useUser();
+  const [terms, setTerms] = useState<SignatureTerms[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // Check if user has permission
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  // Initial load
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+
+    const fetchTerms = async () => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const response = await getSignatureTerms();
+        if (response.data) {
+          setTerms(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching signature terms:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTerms();
+  }, [user]);
+
+  if (userLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Signature Terms
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Customers sign against these terms at drop-off and pick-up. Every
+          change is saved as a new version, and each signature keeps the exact
+          text the customer agreed to.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {terms.map((item) => (
+        <TermsEditor key={item.kind} terms={item} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  getSlaPolicies,
+  saveSlaPolicies,
+  SlaPolicy,
+  SlaPriority,
+} from "@/lib/api/sla.api";
+import { useUser } from "@/lib/UserContext";
+import { formatPriority, getPriorityColor } from "@/lib/utils/ticketUtils";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+// Targets are edited in hours but stored in minutes
+interface EditablePolicy {
+  priority: SlaPriority;
+  assignmentHours: string;
+  completionHours: string;
+  warningPercent: string;
+}
+
+const toHours = (minutes: number | null) =>
+  minutes === null ? "" : String(Math.round((minutes / 60) * 100) / 100);
+
+const toMinutes = (hours: string) =>
+  hours.trim() === "" ? null : Math.round(Number(hours) * 60);
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function SlaSettingsPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading, hasPermission } = useUser();
+  const [policies, setPolicies] = useState<EditablePolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+
+  // Check if user has permission
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  const loadPolicies = (data: SlaPolicy[]) => {
+    setPolicies(
+      data.map((policy) => ({
+        priority: policy.priority,
+        assignmentHours: toHours(policy.assignmentTargetMinutes),
+        completionHours: toHours(policy.completionTargetMinutes),
+        warningPercent: String(policy.warningPercent),
+      }))
+    );
+  };
+
+  // Initial load
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+
+    const fetchPolicies = async () => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const response = await getSlaPolicies();
+        if (response.data) {
+          loadPolicies(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching SLA policies:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPolicies();
+  }, [user]);
+
+  const updatePolicy = (index: number, changes: Partial<EditablePolicy>) => {
+    setPolicies(
+      policies.map((policy, i) => (i === index ? { ...policy, ...changes } : policy))
+    );
+  };
+
+  const handleSave = async () => {
+    setError("");
+    setSuccessMessage("");
+
+    for (const policy of policies) {
+      for (const hours of [policy.assignmentHours, policy.completionHours]) {
+        if (hours.trim() !== "" && !(Number(hours) > 0)) {
+          setError(`${formatPriority(policy.priority)} targets must be a positive number of hours`);
+          return;
+        }
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await saveSlaPolicies(
+        policies.map((policy) => ({
+          priority: policy.priority,
+          assignmentTargetMinutes: toMinutes(policy.assignmentHours),
+          completionTargetMinutes: toMinutes(policy.completionHours),
+          warningPercent: Number(policy.warningPercent) || undefined,
+        }))
+      );
+      if (response.data) {
+        loadPolicies(response.data);
+      }
+      setSuccessMessage("SLA policies saved");
+    } catch (err) {
+      console.error("Error saving SLA policies:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (userLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            SLA Policies
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Set how quickly tickets of each priority should be assigned and
+            completed. The assigned technician and managers are emailed when a
+            ticket is at risk or misses a target.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save Policies"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-800 dark:text-green-200">{successMessage}</p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700/50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Priority
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Assign within (hours)
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Complete within (hours)
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                At risk after (%)
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {policies.map((policy, index) => (
+              <tr key={policy.priority}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getPriorityColor(
+                      policy.priority
+                    )}`}
+                  >
+                    {formatPriority(policy.priority)}
+                  </span>
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    placeholder="No target"
+                    value={policy.assignmentHours}
+                    onChange={(e) =>
+                      updatePolicy(index, { assignmentHours: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    placeholder="No target"
+                    value={policy.completionHours}
+                    onChange={(e) =>
+                      updatePolicy(index, { completionHours: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={policy.warningPercent}
+                    onChange={(e) =>
+                      updatePolicy(index, { warningPercent: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-6 py-3 text-sm text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+          Targets are measured from when the ticket was created. Leave both
+          targets empty to turn off SLAs for a priority. Tickets created before
+          a policy is added are not flagged.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  getWarrantySettings,
+  updateWarrantySettings,
+} from "@/lib/api/warranty.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function WarrantySettingsPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading, hasPermission } = useUser();
+  // Edited as text so an empty field can mean "no default warranty"
+  const [defaultDays, setDefaultDays] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+
+  // Check if user has permission
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  // Initial load
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+
+    const fetchSettings = async () => {
+      try {
+        const response = await getWarrantySettings();
+        if (response.data) {
+          const days = response.data.defaultWarrantyDays;
+          setDefaultDays(days === null ? "" : String(days));
+        }
+      } catch (err) {
+        console.error("Error fetching warranty settings:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, [user]);
+
+  const handleSave = async () => {
+    setError("");
+    setSuccessMessage("");
+    const days = defaultDays.trim() === "" ? null : Number(defaultDays);
+    if (days !== null && (!Number.isInteger(days) || days < 0 || days > 3650)) {
+      setError("Warranty must be a whole number of days between 0 and 3650");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateWarrantySettings(days);
+      setSuccessMessage("Default warranty saved");
+    } catch (err) {
+      console.error("Error saving warranty settings:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (userLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Warranty
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          A repair&apos;s warranty starts when its ticket is completed and is
+          recorded on the ticket and its invoice. The longest warranty among
+          the parts used and the{" "}
+          <Link
+            href="/settings/labor"
+            className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            labor categories
+          </Link>{" "}
+          worked applies.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-800 dark:text-green-200">{successMessage}</p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg p-6">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+          Default warranty (days)
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Used when none of a repair&apos;s parts or labor categories carry a
+          warranty of their own. Leave empty for no default warranty.
+        </p>
+        <div className="mt-4 flex items-end gap-3">
+          <div className="w-48">
+            <input
+              type="number"
+              min="0"
+              max="3650"
+              step="1"
+              placeholder="No warranty"
+              value={defaultDays}
+              onChange={(e) => setDefaultDays(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Warranty
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,545 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  getWorkflow,
+  getWorkflowOptions,
+  resetWorkflow,
+  saveWorkflow,
+  Workflow,
+  WorkflowOptions,
+  WorkflowRole,
+  WorkflowTransition,
+} from "@/lib/api/workflow.api";
+import { useUser } from "@/lib/UserContext";
+import { getStatusColor } from "@/lib/utils/ticketUtils";
+import { useRouter } from "next/navigation";
+import React, { useEffect, useState } from "react";
+
+interface EditableStatus {
+  key: string;
+  label: string;
+  color: string;
+  isClosed: boolean;
+  isSystem: boolean;
+  // New statuses get their key from the label until saved
+  isNew: boolean;
+}
+
+const ROLE_LABELS: Record<WorkflowRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  technician: "Technician",
+  frontdesk: "Front Desk",
+};
+
+// Derive a status key (e.g. "Awaiting Parts" -> "awaiting_parts")
+const toStatusKey = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 50);
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+export default function WorkflowSettingsPage() {
+  const router = useRouter();
+  const { user, isLoading: userLoading, hasPermission } = useUser();
+  const [options, setOptions] = useState<WorkflowOptions | null>(null);
+  const [statuses, setStatuses] = useState<EditableStatus[]>([]);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMessage, setSuccessMessage] = useState("");
+
+  // Check if user has permission
+  useEffect(() => {
+    if (
+      !userLoading &&
+      (!user || !hasPermission("settings.access") || user.role !== "admin")
+    ) {
+      router.push("/dashboard");
+    }
+  }, [user, userLoading, hasPermission, router]);
+
+  const loadWorkflow = (workflow: Workflow) => {
+    setStatuses(
+      workflow.statuses.map((status) => ({
+        key: status.key,
+        label: status.label,
+        color: status.color,
+        isClosed: status.isClosed,
+        isSystem: status.isSystem,
+        isNew: false,
+      }))
+    );
+    setTransitions(workflow.transitions);
+    setIsDefault(workflow.isDefault);
+  };
+
+  // Initial load
+  useEffect(() => {
+    if (!user || user.role !== "admin") return;
+
+    const fetchWorkflow = async () => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const [workflowResponse, optionsResponse] = await Promise.all([
+          getWorkflow(),
+          getWorkflowOptions(),
+        ]);
+        if (workflowResponse.data) {
+          loadWorkflow(workflowResponse.data);
+        }
+        if (optionsResponse.data) {
+          setOptions(optionsResponse.data);
+        }
+      } catch (err) {
+        console.error("Error fetching workflow:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchWorkflow();
+  }, [user]);
+
+  const statusLabel = (key: string) =>
+    statuses.find((status) => status.key === key)?.label || key;
+
+  const updateStatus = (index: number, changes: Partial<EditableStatus>) => {
+    const status = statuses[index];
+    const updated = { ...status, ...changes };
+
+    // A new status's key follows its label; keep its transitions pointing at it
+    if (status.isNew && changes.label !== undefined) {
+      updated.key = toStatusKey(changes.label);
+      setTransitions(
+        transitions.map((t) => ({
+          ...t,
+          from: t.from === status.key ? updated.key : t.from,
+          to: t.to === status.key ? updated.key : t.to,
+        }))
+      );
+    }
+
+    setStatuses(statuses.map((s, i) => (i === index ? updated : s)));
+  };
+
+  const moveStatus = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= statuses.length) return;
+    const reordered = [...statuses];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStatuses(reordered);
+  };
+
+  const addStatus = () => {
+    setStatuses([
+      ...statuses,
+      {
+        key: "",
+        label: "",
+        color: "gray",
+        isClosed: false,
+        isSystem: false,
+        isNew: true,
+      },
+    ]);
+  };
+
+  const removeStatus = (index: number) => {
+    const removed = statuses[index];
+    setStatuses(statuses.filter((_, i) => i !== index));
+    setTransitions(
+      transitions.filter((t) => t.from !== removed.key && t.to !== removed.key)
+    );
+  };
+
+  const updateTransition = (
+    index: number,
+    changes: Partial<WorkflowTransition>
+  ) => {
+    setTransitions(
+      transitions.map((transition, i) =>
+        i === index ? { ...transition, ...changes } : transition
+      )
+    );
+  };
+
+  const toggleInList = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const transitionStatuses = statuses.filter(
+    (status) => !options?.managedStatuses.includes(status.key)
+  );
+
+  const addTransition = () => {
+    if (transitionStatuses.length < 2) return;
+    setTransitions([
+      ...transitions,
+      {
+        from: transitionStatuses[0].key,
+        to: transitionStatuses[1].key,
+        allowedRoles: ["admin", "manager", "technician"],
+        requiredConditions: [],
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError("");
+    setSuccessMessage("");
+    try {
+      const response = await saveWorkflow({
+        statuses: statuses.map((status) => ({
+          key: status.key,
+          label: status.label.trim(),
+          color: status.color,
+          isClosed: status.isClosed,
+        })),
+        transitions,
+      });
+      if (response.data) {
+        loadWorkflow(response.data);
+      }
+      setSuccessMessage("Workflow saved successfully!");
+      setTimeout(() => setSuccessMessage(""), 3000);
+    } catch (err) {
+      console.error("Error saving workflow:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (
+      !confirm(
+        "Reset to the default workflow? Custom statuses and transitions will be removed."
+      )
+    ) {
+      return;
+    }
+    setIsSaving(true);
+    setError("");
+    try {
+      const response = await resetWorkflow();
+      if (response.data) {
+        loadWorkflow(response.data);
+      }
+    } catch (err) {
+      console.error("Error resetting workflow:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (userLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user || user.role !== "admin") {
+    return null;
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Ticket Workflow
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Define the statuses tickets move through and who can move them.
+            {isDefault && " You are using the default workflow."}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {!isDefault && (
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Reset to Default
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : "Save Workflow"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+          <p className="text-green-800 dark:text-green-200">{successMessage}</p>
+        </div>
+      )}
+
+      {/* Statuses */}
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Statuses
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Built-in statuses can be renamed but not removed. Closed
+              statuses count as finished work.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addStatus}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Add Status
+          </button>
+        </div>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {statuses.map((status, index) => (
+            <li
+              key={status.isNew ? `new-${index}` : status.key}
+              className="px-4 py-3 sm:px-6 flex flex-wrap items-center gap-3"
+            >
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  onClick={() => moveStatus(index, -1)}
+                  disabled={index === 0}
+                  className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                  aria-label={`Move ${status.label} up`}
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveStatus(index, 1)}
+                  disabled={index === statuses.length - 1}
+                  className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-30"
+                  aria-label={`Move ${status.label} down`}
+                >
+                  ▼
+                </button>
+              </div>
+              <div className="w-48">
+                <input
+                  type="text"
+                  value={status.label}
+                  placeholder="Status name"
+                  onChange={(e) => updateStatus(index, { label: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <code className="text-xs text-gray-500 dark:text-gray-400 w-32 truncate">
+                {status.key || "—"}
+              </code>
+              <select
+                value={status.color}
+                onChange={(e) => updateStatus(index, { color: e.target.value })}
+                className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {options?.colors.map((color) => (
+                  <option key={color} value={color}>
+                    {color.charAt(0).toUpperCase() + color.slice(1)}
+                  </option>
+                ))}
+              </select>
+              <span
+                className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(
+                  status.key,
+                  status.color
+                )}`}
+              >
+                {status.label || "Preview"}
+              </span>
+              <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={status.isClosed}
+                  disabled={status.isSystem}
+                  onChange={(e) =>
+                    updateStatus(index, { isClosed: e.target.checked })
+                  }
+                  className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                />
+                <span className="ml-2">Closed</span>
+              </label>
+              <div className="ml-auto">
+                {status.isSystem ? (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    Built-in
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => removeStatus(index)}
+                    className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Transitions */}
+      <div className="bg-white dark:bg-gray-800 shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Transitions
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Tickets can only move between statuses listed here, by the
+              selected roles, once the required conditions are met.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addTransition}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Add Transition
+          </button>
+        </div>
+        {transitions.length === 0 ? (
+          <p className="px-4 py-5 sm:px-6 text-sm text-gray-500 dark:text-gray-400 italic">
+            No transitions. Tickets will not be able to change status.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {transitions.map((transition, index) => (
+              <li key={index} className="px-4 py-4 sm:px-6 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={transition.from}
+                    onChange={(e) =>
+                      updateTransition(index, { from: e.target.value })
+                    }
+                    aria-label="From status"
+                    className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    {transitionStatuses.map((status, i) => (
+                      <option key={`${status.key}-${i}`} value={status.key}>
+                        {statusLabel(status.key)}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500 dark:text-gray-400">→</span>
+                  <select
+                    value={transition.to}
+                    onChange={(e) =>
+                      updateTransition(index, { to: e.target.value })
+                    }
+                    aria-label="To status"
+                    className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    {transitionStatuses.map((status, i) => (
+                      <option key={`${status.key}-${i}`} value={status.key}>
+                        {statusLabel(status.key)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setTransitions(transitions.filter((_, i) => i !== index))
+                    }
+                    className="ml-auto text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                      Roles
+                    </span>
+                    {options?.roles.map((role) => (
+                      <label
+                        key={role}
+                        className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={transition.allowedRoles.includes(role)}
+                          onChange={() =>
+                            updateTransition(index, {
+                              allowedRoles: toggleInList(
+                                transition.allowedRoles,
+                                role
+                              ),
+                            })
+                          }
+                          className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="ml-1">{ROLE_LABELS[role]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                      Requires
+                    </span>
+                    {options?.conditions.map((condition) => (
+                      <label
+                        key={condition.key}
+                        className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300"
+                        title={condition.description}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={transition.requiredConditions.includes(
+                            condition.key
+                          )}
+                          onChange={() =>
+                            updateTransition(index, {
+                              requiredConditions: toggleInList(
+                                transition.requiredConditions,
+                                condition.key
+                              ),
+                            })
+                          }
+                          className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="ml-1">{condition.description}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
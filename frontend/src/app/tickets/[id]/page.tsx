@@ -1,6 +1,6 @@
 "use client";
 
-import { getTechnicians, Technician } from "@/lib/api";
+import { getErrorMessage, getTechnicians, Technician } from "@/lib/api";
 import { getInvoicesByTicket, Invoice } from "@/lib/api/invoice.api";
 import {
   getChecklistTemplates,
@@ -10,18 +10,34 @@ import {
   addDiagnosticNote,
   addRepairNote,
   assignTechnician,
+  AvailableTransition,
   getTicketById,
+  getTicketTransitions,
   Ticket,
   updateTicket,
   updateTicketStatus,
 } from "@/lib/api/ticket.api";
+import { getWorkflow, WorkflowStatus } from "@/lib/api/workflow.api";
 import { useUser } from "@/lib/UserContext";
-import { getPriorityColor, getStatusColor } from "@/lib/utils/ticketUtils";
+import {
+  formatStatus,
+  getPriorityColor,
+  getStatusColor,
+} from "@/lib/utils/ticketUtils";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import React, { useEffect, useState } from "react";
 import dynamic from "next/dynamic";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import AttachmentGallery from "@/components/AttachmentGallery";
+import CustomerMessages from "@/components/CustomerMessages";
+import TicketComments from "@/components/TicketComments";
+import TicketEstimates from "@/components/TicketEstimates";
+import TicketParts from "@/components/TicketParts";
+import TicketPrintMenu from "@/components/TicketPrintMenu";
+import TicketSignatures from "@/components/TicketSignatures";
+import TicketTimeline from "@/components/TicketTimeline";
+import TicketTimeTracking from "@/components/TicketTimeTracking";
 
 const ChecklistResponseForm = dynamic(
   () => import("@/components/ChecklistResponseForm"),
@@ -45,6 +61,10 @@ export default function TicketDetailPage({
   const [technicians, setTechnicians] = useState<Technician[]>([]);
   const [selectedTechnicianId, setSelectedTechnicianId] = useState("");
   const [selectedStatus, setSelectedStatus] = useState("");
+  const [workflowStatuses, setWorkflowStatuses] = useState<WorkflowStatus[]>(
+    []
+  );
+  const [transitions, setTransitions] = useState<AvailableTransition[]>([]);
   const [selectedPriority, setSelectedPriority] = useState("");
   const [newNote, setNewNote] = useState("");
   const [noteType, setNoteType] = useState<"diagnostic" | "repair">(
@@ -100,6 +120,43 @@ export default function TicketDetailPage({
     fetchTicket();
   }, [params.id]);
 
+  // Fetch the company workflow for status labels and colors
+  useEffect(() => {
+    const fetchWorkflow = async () => {
+      try {
+        const response = await getWorkflow();
+        if (response.data) {
+          setWorkflowStatuses(response.data.statuses);
+        }
+      } catch (err) {
+        console.error("Error fetching workflow:", err);
+      }
+    };
+
+    fetchWorkflow();
+  }, []);
+
+  // Fetch the statuses this user can move the ticket to from its current status
+  useEffect(() => {
+    const fetchTransitions = async () => {
+      if (!ticket?.id) {
+        return;
+      }
+      try {
+        const response = await getTicketTransitions(ticket.id);
+        setTransitions(response.data ?? []);
+      } catch (err) {
+        console.error("Error fetching status transitions:", err);
+      }
+    };
+
+    fetchTransitions();
+  }, [ticket?.id, ticket?.status]);
+
+  const currentStatus = workflowStatuses.find(
+    (status) => status.key === ticket?.status
+  );
+
   // Fetch invoices for this ticket
   useEffect(() => {
     const fetchInvoices = async () => {
@@ -138,6 +195,20 @@ export default function TicketDetailPage({
     fetchTemplates();
   }, []);
 
+  // Estimates move the ticket in and out of Awaiting Approval on the server
+  const refreshTicket = async () => {
+    if (!ticket) return;
+    try {
+      const response = await getTicketById(ticket.id);
+      if (response.data) {
+        setTicket(response.data);
+        setSelectedStatus(response.data.status);
+      }
+    } catch (err) {
+      console.error("Error refreshing ticket:", err);
+    }
+  };
+
   const handleAssignTemplate = async (templateId: string) => {
     if (!ticket) return;
 
@@ -207,26 +278,14 @@ export default function TicketDetailPage({
 
     setIsUpdating(true);
     try {
-      const response = await updateTicketStatus(
-        ticket.id,
-        selectedStatus as
-          | "new"
-          | "assigned"
-          | "in_progress"
-          | "on_hold"
-          | "completed"
-          | "cancelled"
-      );
+      const response = await updateTicketStatus(ticket.id, selectedStatus);
       if (response.data) {
         setTicket(response.data);
       }
     } catch (err) {
       console.error("Error updating status:", err);
-      setError(
-        err instanceof Error
-          ? err.message
-          : "Failed to update status. Please try again."
-      );
+      // Show the workflow's reason (e.g. missing checklist items) rather than a generic error
+      setError(getErrorMessage(err));
     } finally {
       setIsUpdating(false);
     }
@@ -372,11 +431,11 @@ export default function TicketDetailPage({
               </h1>
               <span
                 className={`ml-3 px-3 py-1 text-xs font-medium rounded-full ${getStatusColor(
-                  ticket.status
+                  ticket.status,
+                  currentStatus?.color
                 )}`}
               >
-                {ticket.status.replace("_", " ").charAt(0).toUpperCase() +
-                  ticket.status.replace("_", " ").slice(1)}
+                {currentStatus?.label || formatStatus(ticket.status)}
               </span>
               <span
                 className={`ml-2 px-3 py-1 text-xs font-medium rounded-full ${getPriorityColor(
@@ -386,6 +445,19 @@ export default function TicketDetailPage({
                 {ticket.priority.charAt(0).toUpperCase() +
                   ticket.priority.slice(1)}
               </span>
+              {ticket.slaBreachedAt && (
+                <span
+                  className="ml-2 px-3 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                  title={`Missed an SLA target on ${formatDate(ticket.slaBreachedAt)}`}
+                >
+                  SLA breached
+                </span>
+              )}
+              {ticket.ticketType === "warranty_claim" && (
+                <span className="ml-2 px-3 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400">
+                  Warranty claim
+                </span>
+              )}
             </div>
             <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
               Created on {formatDate(ticket.createdAt)}
@@ -398,6 +470,10 @@ export default function TicketDetailPage({
             >
               Back to List
             </button>
+            <TicketPrintMenu
+              ticketId={ticket.id}
+              ticketNumber={ticket.ticketNumber}
+            />
             {hasPermission("invoices.create") && (
               <button
                 onClick={() => router.push(`/invoices/new?customerId=${ticket.customerId}&ticketId=${ticket.id}`)}
@@ -484,6 +560,59 @@ export default function TicketDetailPage({
                       : "N/A"}
                   </dd>
                 </div>
+
+                {ticket.ticketType === "warranty_claim" ? (
+                  <div className="sm:col-span-2">
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Claimed Against
+                    </dt>
+                    <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100 flex flex-wrap gap-x-4 gap-y-1">
+                      {ticket.originalTicketId ? (
+                        <Link
+                          href={`/tickets/${ticket.originalTicketId}`}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300"
+                        >
+                          Original ticket
+                        </Link>
+                      ) : (
+                        <span>Original ticket was removed</span>
+                      )}
+                      {ticket.originalInvoiceId &&
+                        hasPermission("invoices.read") && (
+                          <Link
+                            href={`/invoices/${ticket.originalInvoiceId}`}
+                            className="text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300"
+                          >
+                            Original invoice
+                          </Link>
+                        )}
+                    </dd>
+                  </div>
+                ) : (
+                  ticket.warrantyStartsAt && (
+                    <div className="sm:col-span-2">
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Warranty
+                      </dt>
+                      <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                        {!ticket.warrantyExpiresAt ? (
+                          "No warranty"
+                        ) : new Date(ticket.warrantyExpiresAt).getTime() >=
+                          Date.now() ? (
+                          <span className="text-green-700 dark:text-green-400">
+                            {ticket.warrantyDays} days, under warranty until{" "}
+                            {formatDate(ticket.warrantyExpiresAt)}
+                          </span>
+                        ) : (
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {ticket.warrantyDays} days, expired on{" "}
+                            {formatDate(ticket.warrantyExpiresAt)}
+                          </span>
+                        )}
+                      </dd>
+                    </div>
+                  )
+                )}
                 {hasPermission("invoices.read") && invoices.length > 0 && (
                   <div className="sm:col-span-2">
                     <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
@@ -645,6 +774,86 @@ export default function TicketDetailPage({
               </div>
             </div>
 
+            {/* Attachments section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Photos & Attachments
+              </h3>
+              <AttachmentGallery
+                ownerType="ticket"
+                ownerId={ticket.id}
+                canDelete={hasPermission("tickets.update")}
+              />
+            </div>
+
+            {/* Signatures section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Customer Signatures
+              </h3>
+              <TicketSignatures
+                ticketId={ticket.id}
+                customerName={`${ticket.customer.firstName} ${ticket.customer.lastName}`}
+                canCapture={[
+                  "admin",
+                  "manager",
+                  "technician",
+                  "frontdesk",
+                  "superuser",
+                ].includes(user?.role || "")}
+              />
+            </div>
+
+            {/* Estimates section */}
+            {["admin", "manager", "technician", "superuser"].includes(
+              user?.role || ""
+            ) && (
+              <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                  Estimates
+                </h3>
+                <TicketEstimates
+                  ticketId={ticket.id}
+                  onTicketChange={refreshTicket}
+                />
+              </div>
+            )}
+
+            {/* Parts section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Parts
+              </h3>
+              <TicketParts
+                ticketId={ticket.id}
+                locationId={ticket.locationId ?? null}
+              />
+            </div>
+
+            {/* Time tracking section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Time Tracking
+              </h3>
+              <TicketTimeTracking ticketId={ticket.id} />
+            </div>
+
+            {/* Comments section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Comments
+              </h3>
+              <TicketComments ticketId={ticket.id} />
+            </div>
+
+            {/* Messages section */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Customer Messages
+              </h3>
+              <CustomerMessages ticketId={ticket.id} customer={ticket.customer} />
+            </div>
+
             {/* Checklist section */}
             {(ticket.checklistTemplateId ||
               (hasPermission("tickets.update") &&
@@ -698,6 +907,18 @@ export default function TicketDetailPage({
                 )}
               </div>
             )}
+
+            {/* Activity timeline */}
+            <div className="px-4 py-5 sm:px-6 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100 mb-4">
+                Activity
+              </h3>
+              <TicketTimeline
+                ticketId={ticket.id}
+                refreshKey={ticket.updatedAt}
+                technicians={technicians}
+              />
+            </div>
           </div>
 
           {/* Right column - Customer and Actions */}
@@ -849,12 +1070,17 @@ export default function TicketDetailPage({
                     value={selectedStatus}
                     onChange={(e) => setSelectedStatus(e.target.value)}
                   >
-                    <option value="new">New</option>
-                    <option value="assigned">Assigned</option>
-                    <option value="in_progress">In Progress</option>
-                    <option value="on_hold">On Hold</option>
-                    <option value="completed">Completed</option>
-                    <option value="cancelled">Cancelled</option>
+                    <option value={ticket.status}>
+                      {currentStatus?.label || formatStatus(ticket.status)}
+                    </option>
+                    {transitions.map((transition) => (
+                      <option
+                        key={transition.status.key}
+                        value={transition.status.key}
+                      >
+                        {transition.status.label}
+                      </option>
+                    ))}
                   </select>
                   <button
                     type="button"
@@ -865,6 +1091,19 @@ export default function TicketDetailPage({
                     {isUpdating ? "Updating..." : "Update"}
                   </button>
                 </div>
+                {ticket.status === "awaiting_approval" ? (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Waiting for the customer to respond to an estimate.
+                    Withdraw the estimate to change the status yourself.
+                  </p>
+                ) : (
+                  transitions.length === 0 && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      The workflow doesn&apos;t allow you to change this
+                      ticket&apos;s status.
+                    </p>
+                  )
+                )}
               </div>
             </div>
 
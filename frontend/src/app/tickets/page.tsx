@@ -1,11 +1,43 @@
 "use client";
 
-import { getTickets } from "@/lib/api/ticket.api";
+import SavedViewsBar, { SortOption } from "@/components/SavedViewsBar";
+import TicketBulkActions from "@/components/TicketBulkActions";
+import { getSavedView } from "@/lib/api/saved-view.api";
+import { BulkTicketSummary, getTickets } from "@/lib/api/ticket.api";
+import { getWorkflow, WorkflowStatus } from "@/lib/api/workflow.api";
 import { useUser } from "@/lib/UserContext";
 import { formatPriority, formatStatus, getPriorityColor, getStatusColor } from "@/lib/utils/ticketUtils";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
-import { useEffect, useState, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useState, useRef } from "react";
+
+const PAGE_SIZE = 50;
+
+const DEFAULT_SORT = "-createdAt";
+
+const sortOptions: SortOption[] = [
+  { value: "-createdAt", label: "Newest first" },
+  { value: "createdAt", label: "Oldest first" },
+  { value: "-updatedAt", label: "Recently updated" },
+  { value: "ticketNumber", label: "Ticket number" },
+];
+
+const filterFields = [
+  "status",
+  "priority",
+  "type",
+  "technician",
+  "location",
+  "customer",
+  "device",
+  "brand",
+  "model",
+  "serial",
+  "created",
+  "updated",
+  "due",
+  "completed",
+];
 
 // Define ticket interface based on your model
 interface Ticket {
@@ -17,6 +49,7 @@ interface Ticket {
   deviceBrand?: string;
   deviceModel?: string;
   issueDescription: string;
+  slaBreachedAt?: string | null;
   createdAt: string;
   customer: {
     id: string;
@@ -35,15 +68,34 @@ interface Ticket {
 
 export default function TicketsListPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const viewId = searchParams.get("view");
   const { user, hasPermission, isLoading: userLoading } = useUser();
   const [tickets, setTickets] = useState<Ticket[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState("");
-  const [filterStatus, setFilterStatus] = useState<string[]>(["new", "assigned", "in_progress", "on_hold"]);
+  // A saved view shows every status unless its filter says otherwise
+  const [openedWithView] = useState(viewId !== null);
+  const [filterStatus, setFilterStatus] = useState<string[]>(
+    openedWithView ? [] : ["new", "assigned", "in_progress", "on_hold", "awaiting_approval"]
+  );
   const [filterPriority, setFilterPriority] = useState("");
+  const [filterSlaBreached, setFilterSlaBreached] = useState(
+    searchParams.get("slaBreached") === "true"
+  );
   const [searchQuery, setSearchQuery] = useState("");
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
+  const [workflowStatuses, setWorkflowStatuses] = useState<WorkflowStatus[]>([]);
   const statusDropdownRef = useRef<HTMLDivElement>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkResult, setBulkResult] = useState<BulkTicketSummary | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [listFilter, setListFilter] = useState("");
+  const [listSort, setListSort] = useState(DEFAULT_SORT);
+  // The view whose filter and sort are applied, so the list isn't loaded before it arrives
+  const [appliedViewId, setAppliedViewId] = useState<string | null>(null);
 
   // Check if user has permission to access this page
   useEffect(() => {
@@ -52,19 +104,90 @@ export default function TicketsListPage() {
     }
   }, [user, userLoading, hasPermission, router]);
 
+  // Load the company's statuses so custom ones can be filtered on
   useEffect(() => {
-    const fetchTickets = async () => {
-      setIsLoading(true);
+    const fetchWorkflow = async () => {
+      try {
+        const response = await getWorkflow();
+        if (response.data) {
+          setWorkflowStatuses(response.data.statuses);
+          // Open tickets are shown by default, including those in custom statuses
+          if (!response.data.isDefault && !openedWithView) {
+            setFilterStatus(
+              response.data.statuses
+                .filter((status) => !status.isClosed)
+                .map((status) => status.key)
+            );
+          }
+        }
+      } catch (err) {
+        console.error("Error fetching workflow:", err);
+      }
+    };
+
+    fetchWorkflow();
+  }, [openedWithView]);
+
+  // Apply the saved view in the URL, e.g. from a link pinned in the sidebar
+  useEffect(() => {
+    if (!viewId) {
+      setListFilter("");
+      setListSort(DEFAULT_SORT);
+      setAppliedViewId(null);
+      return;
+    }
+
+    const fetchView = async () => {
       try {
-        // Build query params for filtering
-        const params = new URLSearchParams();
-        if (filterStatus.length > 0) {
-          params.append("status", filterStatus.join(","));
+        const response = await getSavedView(viewId);
+        if (response.data) {
+          setListFilter(response.data.filter);
+          setListSort(response.data.sort || DEFAULT_SORT);
+          setFilterStatus([]);
+          setFilterPriority("");
+          setFilterSlaBreached(false);
         }
-        if (filterPriority) params.append("priority", filterPriority);
+      } catch (err) {
+        console.error("Error fetching saved view:", err);
+        setError(err instanceof Error ? err.message : "Failed to load saved view");
+      } finally {
+        setAppliedViewId(viewId);
+      }
+    };
 
-        const response = await getTickets(params);
+    fetchView();
+  }, [viewId]);
+
+  const statusByKey = new Map(
+    workflowStatuses.map((status) => [status.key, status])
+  );
+
+  // Build query params for filtering
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (filterStatus.length > 0) {
+      params.append("status", filterStatus.join(","));
+    }
+    if (filterPriority) params.append("priority", filterPriority);
+    if (filterSlaBreached) params.append("slaBreached", "true");
+    if (listFilter) params.append("filter", listFilter);
+    params.append("sort", listSort);
+    params.append("limit", String(PAGE_SIZE));
+    return params;
+  }, [filterStatus, filterPriority, filterSlaBreached, listFilter, listSort]);
+
+  useEffect(() => {
+    if (viewId !== appliedViewId) {
+      return;
+    }
+
+    const fetchTickets = async () => {
+      setIsLoading(true);
+      setError("");
+      try {
+        const response = await getTickets(buildParams());
         setTickets(response.data ?? []);
+        setNextCursor(response.pagination?.nextCursor ?? null);
       } catch (err) {
         console.error("Error fetching tickets:", err);
         setError(
@@ -78,7 +201,32 @@ export default function TicketsListPage() {
     };
 
     fetchTickets();
-  }, [filterStatus, filterPriority]);
+  }, [buildParams, viewId, appliedViewId, refreshKey]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const params = buildParams();
+      params.append("cursor", nextCursor);
+      const response = await getTickets(params);
+      setTickets((current) => [...current, ...(response.data ?? [])]);
+      setNextCursor(response.pagination?.nextCursor ?? null);
+    } catch (err) {
+      console.error("Error fetching tickets:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to load tickets. Please try again."
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSelectView = (id: string | null) => {
+    router.push(id ? `/tickets?view=${id}` : "/tickets");
+  };
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -126,6 +274,39 @@ export default function TicketsListPage() {
     );
   });
 
+  // Only act on tickets that are still listed after filtering
+  const visibleSelectedIds = selectedIds.filter((id) =>
+    filteredTickets.some((ticket) => ticket.id === id)
+  );
+  const allSelected =
+    filteredTickets.length > 0 &&
+    visibleSelectedIds.length === filteredTickets.length;
+
+  const toggleSelected = (ticketId: string) => {
+    setSelectedIds((current) =>
+      current.includes(ticketId)
+        ? current.filter((id) => id !== ticketId)
+        : [...current, ticketId]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : filteredTickets.map((ticket) => ticket.id));
+  };
+
+  // Keep the tickets that failed selected so they can be retried
+  const handleBulkComplete = (summary: BulkTicketSummary) => {
+    setBulkResult(summary);
+    setSelectedIds(
+      summary.results.filter((result) => !result.success).map((result) => result.ticketId)
+    );
+    setRefreshKey((key) => key + 1);
+  };
+
+  const ticketNumbers = new Map(
+    tickets.map((ticket) => [ticket.id, ticket.ticketNumber])
+  );
+
   if (userLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -187,26 +368,19 @@ export default function TicketsListPage() {
               {showStatusDropdown && (
                 <div className="absolute z-10 mt-1 w-56 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
                   <div className="py-1" role="menu">
-                    {[
-                      { value: "new", label: "New" },
-                      { value: "assigned", label: "Assigned" },
-                      { value: "in_progress", label: "In Progress" },
-                      { value: "on_hold", label: "On Hold" },
-                      { value: "completed", label: "Completed" },
-                      { value: "cancelled", label: "Cancelled" },
-                    ].map((status) => (
+                    {workflowStatuses.map((status) => (
                       <label
-                        key={status.value}
+                        key={status.key}
                         className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
                       >
                         <input
                           type="checkbox"
-                          checked={filterStatus.includes(status.value)}
+                          checked={filterStatus.includes(status.key)}
                           onChange={(e) => {
                             if (e.target.checked) {
-                              setFilterStatus([...filterStatus, status.value]);
+                              setFilterStatus([...filterStatus, status.key]);
                             } else {
-                              setFilterStatus(filterStatus.filter((s) => s !== status.value));
+                              setFilterStatus(filterStatus.filter((s) => s !== status.key));
                             }
                           }}
                           className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
@@ -229,10 +403,34 @@ export default function TicketsListPage() {
               <option value="high">High</option>
               <option value="urgent">Urgent</option>
             </select>
+            <label className="mt-3 sm:mt-0 flex items-center text-sm text-gray-700 dark:text-gray-300 cursor-pointer whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={filterSlaBreached}
+                onChange={(e) => setFilterSlaBreached(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2">SLA breached</span>
+            </label>
           </div>
         </div>
       </div>
 
+      <SavedViewsBar
+        resource="tickets"
+        filter={listFilter}
+        sort={listSort}
+        sortOptions={sortOptions}
+        filterPlaceholder='e.g. technician:me brand:apple created:>=30d "cracked screen"'
+        filterFields={filterFields}
+        viewId={viewId}
+        onChange={(filter, sort) => {
+          setListFilter(filter);
+          setListSort(sort);
+        }}
+        onSelectView={handleSelectView}
+      />
+
       {/* Error Message */}
       {error && (
         <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-md border border-red-200 dark:border-red-800">
@@ -240,6 +438,53 @@ export default function TicketsListPage() {
         </div>
       )}
 
+      {/* Bulk Action Results */}
+      {bulkResult && (
+        <div
+          className={`mb-4 p-3 rounded-md border text-sm ${
+            bulkResult.failed > 0
+              ? "bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300"
+              : "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300"
+          }`}
+        >
+          <div className="flex items-start justify-between">
+            <p>
+              Updated {bulkResult.succeeded} of{" "}
+              {bulkResult.succeeded + bulkResult.failed} tickets.
+              {bulkResult.failed > 0 && " The tickets below were not changed and are still selected."}
+            </p>
+            <button
+              type="button"
+              onClick={() => setBulkResult(null)}
+              className="ml-4 text-xs underline"
+            >
+              Dismiss
+            </button>
+          </div>
+          {bulkResult.failed > 0 && (
+            <ul className="mt-2 list-disc list-inside">
+              {bulkResult.results
+                .filter((result) => !result.success)
+                .map((result) => (
+                  <li key={result.ticketId}>
+                    {ticketNumbers.get(result.ticketId) || result.ticketId}:{" "}
+                    {result.error}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {visibleSelectedIds.length > 0 && (
+        <TicketBulkActions
+          ticketIds={visibleSelectedIds}
+          statuses={workflowStatuses}
+          onComplete={handleBulkComplete}
+          onClear={() => setSelectedIds([])}
+        />
+      )}
+
       {/* Tickets List */}
       <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md">
         {isLoading ? (
@@ -252,9 +497,29 @@ export default function TicketsListPage() {
           </div>
         ) : (
           <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            <li className="flex items-center px-4 py-2 sm:px-6 bg-gray-50 dark:bg-gray-800/50">
+              <label className="flex items-center text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-3">Select all ({filteredTickets.length})</span>
+              </label>
+            </li>
             {filteredTickets.map((ticket) => (
-              <li key={ticket.id}>
-                <Link href={`/tickets/${ticket.id}`}>
+              <li key={ticket.id} className="flex items-start">
+                <div className="pl-4 pt-5 sm:pl-6">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(ticket.id)}
+                    onChange={() => toggleSelected(ticket.id)}
+                    aria-label={`Select ticket ${ticket.ticketNumber}`}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                </div>
+                <Link href={`/tickets/${ticket.id}`} className="flex-1 min-w-0">
                   <div className="block hover:bg-gray-50 dark:hover:bg-gray-700/50 px-4 py-4 sm:px-6">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
@@ -264,10 +529,12 @@ export default function TicketsListPage() {
                         <div className="ml-4 flex-shrink-0 flex">
                           <p
                             className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(
-                              ticket.status
+                              ticket.status,
+                              statusByKey.get(ticket.status)?.color
                             )}`}
                           >
-                            {formatStatus(ticket.status)}
+                            {statusByKey.get(ticket.status)?.label ||
+                              formatStatus(ticket.status)}
                           </p>
                           <p
                             className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getPriorityColor(
@@ -276,6 +543,11 @@ export default function TicketsListPage() {
                           >
                             {formatPriority(ticket.priority)}
                           </p>
+                          {ticket.slaBreachedAt && (
+                            <p className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">
+                              SLA breached
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="ml-2 flex-shrink-0 flex flex-col sm:flex-row sm:items-center text-sm text-gray-500 dark:text-gray-400">
@@ -318,6 +590,18 @@ export default function TicketsListPage() {
             ))}
           </ul>
         )}
+        {!isLoading && nextCursor && (
+          <div className="p-4 text-center border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {isLoadingMore ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,457 @@
+"use client";
+
+import { getErrorMessage, Technician } from "@/lib/api";
+import {
+  Appointment,
+  AppointmentType,
+  createAppointment,
+  RecurrenceFrequency,
+} from "@/lib/api/appointment.api";
+import { Customer, searchCustomers } from "@/lib/api/customer.api";
+import React, { useEffect, useState } from "react";
+
+interface AppointmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onBooked: (appointments: Appointment[]) => void;
+  technicians: Technician[];
+  // Pre-fills the date, e.g. from the day clicked on the calendar
+  initialDate?: string;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500";
+
+const labelClassName =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const DURATIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+
+const emptyForm = (date: string) => ({
+  technicianId: "",
+  appointmentType: "drop_off" as AppointmentType,
+  date,
+  time: "09:00",
+  durationMinutes: 30,
+  deviceType: "",
+  deviceBrand: "",
+  deviceModel: "",
+  issueDescription: "",
+  address: "",
+  notes: "",
+  repeat: "" as RecurrenceFrequency | "",
+  repeatCount: 4,
+});
+
+export default function AppointmentModal({
+  isOpen,
+  onClose,
+  onBooked,
+  technicians,
+  initialDate,
+}: AppointmentModalProps) {
+  const [form, setForm] = useState(emptyForm(initialDate || ""));
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [customerQuery, setCustomerQuery] = useState("");
+  const [customerResults, setCustomerResults] = useState<Customer[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setForm(emptyForm(initialDate || ""));
+      setCustomer(null);
+      setCustomerQuery("");
+      setCustomerResults([]);
+      setError("");
+    }
+  }, [isOpen, initialDate]);
+
+  // Search customers as the user types, waiting for a pause
+  useEffect(() => {
+    if (customer || customerQuery.trim().length < 2) {
+      setCustomerResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await searchCustomers(customerQuery.trim());
+        setCustomerResults(response.data || []);
+      } catch (err) {
+        console.error("Error searching customers:", err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [customerQuery, customer]);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({
+      ...prev,
+      [name]:
+        name === "durationMinutes" || name === "repeatCount"
+          ? Number(value)
+          : value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!customer) {
+      setError("Choose a customer");
+      return;
+    }
+    if (!form.date || !form.time) {
+      setError("Choose a date and time");
+      return;
+    }
+
+    const startsAt = new Date(`${form.date}T${form.time}`);
+    const endsAt = new Date(startsAt.getTime() + form.durationMinutes * 60000);
+
+    setIsSubmitting(true);
+    try {
+      const response = await createAppointment({
+        customerId: customer.id,
+        technicianId: form.technicianId || null,
+        appointmentType: form.appointmentType,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        deviceType: form.deviceType.trim() || null,
+        deviceBrand: form.deviceBrand.trim() || null,
+        deviceModel: form.deviceModel.trim() || null,
+        issueDescription: form.issueDescription.trim() || null,
+        address:
+          form.appointmentType === "on_site"
+            ? form.address.trim() || null
+            : null,
+        notes: form.notes.trim() || null,
+        recurrence: form.repeat
+          ? { frequency: form.repeat, count: form.repeatCount }
+          : undefined,
+      });
+      if (response.data) {
+        onBooked(response.data);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50 flex items-center justify-center">
+      <div
+        className="fixed inset-0 bg-black opacity-30"
+        onClick={onClose}
+      ></div>
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto mx-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+          New Appointment
+        </h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="customerQuery" className={labelClassName}>
+              Customer <span className="text-red-500">*</span>
+            </label>
+            {customer ? (
+              <div className="flex items-center justify-between px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md">
+                <span className="text-gray-900 dark:text-gray-100">
+                  {customer.firstName} {customer.lastName}
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                    {customer.email}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setCustomer(null)}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Change
+                </button>
+              </div>
+            ) : (
+              <div className="relative">
+                <input
+                  id="customerQuery"
+                  type="text"
+                  value={customerQuery}
+                  onChange={(e) => setCustomerQuery(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Search by name, email or phone"
+                  autoComplete="off"
+                />
+                {customerResults.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-48 overflow-y-auto">
+                    {customerResults.map((result) => (
+                      <li key={result.id}>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setCustomer(result);
+                            setCustomerResults([]);
+                          }}
+                          className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-900 dark:text-gray-100"
+                        >
+                          {result.firstName} {result.lastName}
+                          <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                            {result.email}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="appointmentType" className={labelClassName}>
+                Type
+              </label>
+              <select
+                id="appointmentType"
+                name="appointmentType"
+                value={form.appointmentType}
+                onChange={handleChange}
+                className={inputClassName}
+              >
+                <option value="drop_off">Drop-off</option>
+                <option value="on_site">On-site visit</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="technicianId" className={labelClassName}>
+                Technician
+              </label>
+              <select
+                id="technicianId"
+                name="technicianId"
+                value={form.technicianId}
+                onChange={handleChange}
+                className={inputClassName}
+              >
+                <option value="">Unassigned</option>
+                {technicians.map((technician) => (
+                  <option key={technician.id} value={technician.id}>
+                    {technician.firstName} {technician.lastName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {form.appointmentType === "on_site" && (
+            <div>
+              <label htmlFor="address" className={labelClassName}>
+                Visit Address
+              </label>
+              <textarea
+                id="address"
+                name="address"
+                rows={2}
+                value={form.address}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="date" className={labelClassName}>
+                Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="date"
+                name="date"
+                type="date"
+                value={form.date}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="time" className={labelClassName}>
+                Time <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="time"
+                name="time"
+                type="time"
+                value={form.time}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="durationMinutes" className={labelClassName}>
+                Length
+              </label>
+              <select
+                id="durationMinutes"
+                name="durationMinutes"
+                value={form.durationMinutes}
+                onChange={handleChange}
+                className={inputClassName}
+              >
+                {DURATIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes < 60
+                      ? `${minutes} min`
+                      : `${minutes / 60} hr${minutes > 60 ? "s" : ""}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="repeat" className={labelClassName}>
+                Repeat
+              </label>
+              <select
+                id="repeat"
+                name="repeat"
+                value={form.repeat}
+                onChange={handleChange}
+                className={inputClassName}
+              >
+                <option value="">Does not repeat</option>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            {form.repeat && (
+              <div>
+                <label htmlFor="repeatCount" className={labelClassName}>
+                  Number of Appointments
+                </label>
+                <input
+                  id="repeatCount"
+                  name="repeatCount"
+                  type="number"
+                  min={2}
+                  max={52}
+                  value={form.repeatCount}
+                  onChange={handleChange}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="deviceType" className={labelClassName}>
+                Device Type
+              </label>
+              <input
+                id="deviceType"
+                name="deviceType"
+                value={form.deviceType}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="deviceBrand" className={labelClassName}>
+                Brand
+              </label>
+              <input
+                id="deviceBrand"
+                name="deviceBrand"
+                value={form.deviceBrand}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="deviceModel" className={labelClassName}>
+                Model
+              </label>
+              <input
+                id="deviceModel"
+                name="deviceModel"
+                value={form.deviceModel}
+                onChange={handleChange}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="issueDescription" className={labelClassName}>
+              Issue
+            </label>
+            <textarea
+              id="issueDescription"
+              name="issueDescription"
+              rows={2}
+              value={form.issueDescription}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes" className={labelClassName}>
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              name="notes"
+              rows={2}
+              value={form.notes}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Booking..." : "Book Appointment"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
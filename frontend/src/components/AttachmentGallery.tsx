@@ -0,0 +1,281 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  Attachment,
+  ATTACHMENT_ACCEPT,
+  AttachmentOwnerType,
+  deleteAttachment,
+  getAttachmentFile,
+  getAttachments,
+  uploadAttachments,
+} from "@/lib/api/attachment.api";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+interface AttachmentGalleryProps {
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  canUpload?: boolean;
+  canDelete?: boolean;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function AttachmentGallery({
+  ownerType,
+  ownerId,
+  canUpload = true,
+  canDelete = false,
+}: AttachmentGalleryProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Object URLs for thumbnails, keyed by attachment ID
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<{ url: string; name: string } | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getAttachments(ownerType, ownerId);
+      const items = response.data || [];
+      setAttachments(items);
+
+      const urls: Record<string, string> = {};
+      await Promise.all(
+        items
+          .filter((attachment) => attachment.hasThumbnail)
+          .map(async (attachment) => {
+            try {
+              const blob = await getAttachmentFile(
+                ownerType,
+                ownerId,
+                attachment.id,
+                true
+              );
+              urls[attachment.id] = URL.createObjectURL(blob);
+            } catch (err) {
+              console.error("Error loading thumbnail:", err);
+            }
+          })
+      );
+      setThumbnails((previous) => {
+        Object.values(previous).forEach((url) => URL.revokeObjectURL(url));
+        return urls;
+      });
+    } catch (err) {
+      console.error("Error fetching attachments:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ownerType, ownerId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // Release thumbnail object URLs when they are replaced or the gallery unmounts
+  useEffect(() => {
+    return () => {
+      Object.values(thumbnails).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [thumbnails]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setError("");
+    try {
+      await uploadAttachments(ownerType, ownerId, files);
+      await fetchAttachments();
+    } catch (err) {
+      console.error("Error uploading attachments:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    try {
+      const blob = await getAttachmentFile(ownerType, ownerId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      if (attachment.contentType.startsWith("image/")) {
+        setPreview({ url, name: attachment.fileName });
+      } else {
+        window.open(url, "_blank");
+      }
+    } catch (err) {
+      console.error("Error downloading attachment:", err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const closePreview = () => {
+    if (preview) {
+      URL.revokeObjectURL(preview.url);
+    }
+    setPreview(null);
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Are you sure you want to delete ${attachment.fileName}?`)) {
+      return;
+    }
+    try {
+      await deleteAttachment(ownerType, ownerId, attachment.id);
+      await fetchAttachments();
+    } catch (err) {
+      console.error("Error deleting attachment:", err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading attachments...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No attachments yet
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="group relative">
+              <button
+                type="button"
+                onClick={() => handleOpen(attachment)}
+                className="block w-full aspect-square overflow-hidden rounded-md bg-gray-100 dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {thumbnails[attachment.id] ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={thumbnails[attachment.id]}
+                    alt={attachment.fileName}
+                    className="h-full w-full object-cover"
+                  />
+                ) : (
+                  <span className="flex h-full w-full flex-col items-center justify-center text-gray-500 dark:text-gray-400">
+                    <svg
+                      className="h-10 w-10"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+                      />
+                    </svg>
+                    <span className="mt-1 text-xs uppercase">
+                      {attachment.contentType.split("/")[1]}
+                    </span>
+                  </span>
+                )}
+              </button>
+              <p
+                className="mt-1 truncate text-xs text-gray-700 dark:text-gray-300"
+                title={attachment.fileName}
+              >
+                {attachment.fileName}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatFileSize(attachment.sizeBytes)}
+              </p>
+              {canDelete && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="absolute top-1 right-1 hidden group-hover:block rounded-full bg-white/90 dark:bg-gray-800/90 p-1 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+                  aria-label={`Delete ${attachment.fileName}`}
+                >
+                  <svg
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload && (
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={handleUpload}
+            className="hidden"
+            id={`attachment-upload-${ownerId}`}
+          />
+          <label
+            htmlFor={`attachment-upload-${ownerId}`}
+            className={`inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer ${
+              isUploading ? "opacity-50 pointer-events-none" : ""
+            }`}
+          >
+            {isUploading ? "Uploading..." : "Add Photos or Files"}
+          </label>
+        </div>
+      )}
+
+      {preview && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/75 p-4"
+          onClick={closePreview}
+        >
+          <div className="max-h-full max-w-4xl">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={preview.url}
+              alt={preview.name}
+              className="max-h-[85vh] max-w-full rounded-md"
+            />
+            <p className="mt-2 text-center text-sm text-white">
+              {preview.name}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
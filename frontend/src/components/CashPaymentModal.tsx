@@ -1,7 +1,13 @@
 "use client";
 
-import { Invoice, markInvoiceAsPaid } from "@/lib/api/invoice.api";
-import React, { useState } from "react";
+import {
+  GIFT_CARD_PAYMENT_METHOD,
+  Invoice,
+  InvoicePaymentData,
+  markInvoiceAsPaid,
+  STORE_CREDIT_PAYMENT_METHOD,
+} from "@/lib/api/invoice.api";
+import React, { useEffect, useState } from "react";
 
 interface CashPaymentModalProps {
   invoice: Invoice;
@@ -10,40 +16,141 @@ interface CashPaymentModalProps {
   onSuccess: () => void;
 }
 
+// Tenders other than cash that can be taken alongside it, e.g. part cash, part card
+const OTHER_TENDERS = [
+  "Card",
+  "Credit Card",
+  "Debit Card",
+  "Check",
+  GIFT_CARD_PAYMENT_METHOD,
+  "Other",
+];
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
 export default function CashPaymentModal({
   invoice,
   isOpen,
   onClose,
   onSuccess,
 }: CashPaymentModalProps) {
+  const balanceDue = Number(invoice.balanceDue);
+  const [cashAmount, setCashAmount] = useState(balanceDue.toFixed(2));
   const [amountTendered, setAmountTendered] = useState("");
+  const [otherTenders, setOtherTenders] = useState<
+    { paymentMethod: string; amount: string; paymentReference: string }[]
+  >([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState("");
 
+  // Store credit belongs to a customer, so it's only offered when the invoice has one
+  const tenderOptions = invoice.customerId
+    ? [...OTHER_TENDERS, STORE_CREDIT_PAYMENT_METHOD]
+    : OTHER_TENDERS;
+
+  // Start each payment from the invoice's current balance
+  useEffect(() => {
+    if (isOpen) {
+      setCashAmount(balanceDue.toFixed(2));
+      setAmountTendered("");
+      setOtherTenders([]);
+      setError("");
+    }
+  }, [isOpen, balanceDue]);
+
   if (!isOpen) return null;
 
-  const totalAmount = invoice.totalAmount;
+  const cashAmountNum = parseFloat(cashAmount) || 0;
   const amountTenderedNum = parseFloat(amountTendered) || 0;
-  const change = amountTenderedNum - totalAmount;
+  const otherTotal = otherTenders.reduce(
+    (sum, tender) => sum + (parseFloat(tender.amount) || 0),
+    0
+  );
+  const remaining = roundMoney(balanceDue - cashAmountNum - otherTotal);
+  // Change is only ever given on the cash portion
+  const change = amountTenderedNum - cashAmountNum;
+
+  const updateTender = (
+    index: number,
+    field: "paymentMethod" | "amount" | "paymentReference",
+    value: string
+  ) => {
+    setOtherTenders(
+      otherTenders.map((tender, i) =>
+        i === index ? { ...tender, [field]: value } : tender
+      )
+    );
+  };
+
+  const addTender = () => {
+    // The new tender picks up whatever the cash doesn't cover
+    setOtherTenders([
+      ...otherTenders,
+      {
+        paymentMethod: OTHER_TENDERS[0],
+        amount: remaining > 0 ? remaining.toFixed(2) : "",
+        paymentReference: "",
+      },
+    ]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
 
-    if (amountTenderedNum < totalAmount) {
-      setError("Amount tendered must be at least equal to the total amount");
+    if (cashAmountNum > 0 && amountTenderedNum < cashAmountNum) {
+      setError("Amount tendered must be at least equal to the cash amount");
+      return;
+    }
+    if (remaining < 0) {
+      setError(
+        `Payments total more than the balance due of $${balanceDue.toFixed(2)}`
+      );
+      return;
+    }
+
+    if (
+      otherTenders.some(
+        (tender) =>
+          tender.paymentMethod === GIFT_CARD_PAYMENT_METHOD &&
+          !tender.paymentReference.trim()
+      )
+    ) {
+      setError("Enter the gift card code");
+      return;
+    }
+
+    // A gift card's code goes in the reference box, but is sent as the card to spend from
+    const payments: InvoicePaymentData[] = [
+      { paymentMethod: "Cash", amount: roundMoney(cashAmountNum) },
+      ...otherTenders.map((tender) =>
+        tender.paymentMethod === GIFT_CARD_PAYMENT_METHOD
+          ? {
+              paymentMethod: tender.paymentMethod,
+              amount: roundMoney(parseFloat(tender.amount) || 0),
+              giftCardCode: tender.paymentReference.trim(),
+            }
+          : {
+              paymentMethod: tender.paymentMethod,
+              amount: roundMoney(parseFloat(tender.amount) || 0),
+              paymentReference: tender.paymentReference || undefined,
+            }
+      ),
+    ].filter((payment) => payment.amount > 0);
+
+    if (payments.length === 0) {
+      setError("Enter an amount to pay");
       return;
     }
 
     setIsProcessing(true);
     try {
       await markInvoiceAsPaid(invoice.id, {
-        paymentMethod: "Cash",
+        payments,
         paidDate: new Date().toISOString().split("T")[0],
       });
       onSuccess();
       onClose();
-      setAmountTendered("");
     } catch (err) {
       console.error("Error processing cash payment:", err);
       setError(
@@ -60,7 +167,7 @@ export default function CashPaymentModal({
         className="fixed inset-0 bg-black opacity-30"
         onClick={onClose}
       ></div>
-      <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-md w-full p-6 shadow-xl">
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-md w-full p-6 shadow-xl max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
           Process Cash Payment
         </h3>
@@ -79,10 +186,18 @@ export default function CashPaymentModal({
                   <span>Invoice Number:</span>
                   <span className="font-medium">{invoice.invoiceNumber}</span>
                 </div>
+                {invoice.amountPaid > 0 && (
+                  <div className="flex justify-between">
+                    <span>Already Paid:</span>
+                    <span className="font-medium">
+                      ${Number(invoice.amountPaid).toFixed(2)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span>Total Amount:</span>
+                  <span>Balance Due:</span>
                   <span className="font-medium text-lg">
-                    ${totalAmount.toFixed(2)}
+                    ${balanceDue.toFixed(2)}
                   </span>
                 </div>
               </div>
@@ -90,13 +205,29 @@ export default function CashPaymentModal({
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                Amount Tendered *
+                Cash Amount *
               </label>
               <input
                 type="number"
                 step="0.01"
-                min={totalAmount}
+                min="0"
+                max={balanceDue}
                 required
+                value={cashAmount}
+                onChange={(e) => setCashAmount(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Amount Tendered *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min={cashAmountNum}
+                required={cashAmountNum > 0}
                 value={amountTendered}
                 onChange={(e) => setAmountTendered(e.target.value)}
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
@@ -105,7 +236,75 @@ export default function CashPaymentModal({
               />
             </div>
 
-            {amountTendered && !isNaN(amountTenderedNum) && (
+            {/* Split tender */}
+            {otherTenders.map((tender, index) => (
+              <div
+                key={index}
+                className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-2"
+              >
+                <div className="flex gap-2">
+                  <select
+                    value={tender.paymentMethod}
+                    onChange={(e) =>
+                      updateTender(index, "paymentMethod", e.target.value)
+                    }
+                    className="block w-1/2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    {tenderOptions.map((method) => (
+                      <option key={method} value={method}>
+                        {method}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    required
+                    value={tender.amount}
+                    onChange={(e) =>
+                      updateTender(index, "amount", e.target.value)
+                    }
+                    className="block w-1/2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={tender.paymentReference}
+                    onChange={(e) =>
+                      updateTender(index, "paymentReference", e.target.value)
+                    }
+                    className="block flex-1 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    placeholder={
+                      tender.paymentMethod === GIFT_CARD_PAYMENT_METHOD
+                        ? "Gift card code"
+                        : "Optional reference number"
+                    }
+                    required={tender.paymentMethod === GIFT_CARD_PAYMENT_METHOD}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setOtherTenders(otherTenders.filter((_, i) => i !== index))
+                    }
+                    className="text-sm text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addTender}
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700"
+            >
+              + Split with another tender
+            </button>
+
+            {(amountTendered || otherTenders.length > 0) && (
               <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded">
                 <div className="text-sm space-y-2">
                   <div className="flex justify-between">
@@ -118,12 +317,38 @@ export default function CashPaymentModal({
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600 dark:text-gray-400">
-                      Total:
+                      Cash:
                     </span>
                     <span className="font-medium">
-                      ${totalAmount.toFixed(2)}
+                      ${cashAmountNum.toFixed(2)}
                     </span>
                   </div>
+                  {otherTenders.length > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        Other Tenders:
+                      </span>
+                      <span className="font-medium">
+                        ${otherTotal.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+                  {remaining !== 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        {remaining > 0 ? "Left on Invoice:" : "Over Balance:"}
+                      </span>
+                      <span
+                        className={
+                          remaining > 0
+                            ? "font-medium"
+                            : "font-medium text-red-600 dark:text-red-400"
+                        }
+                      >
+                        ${Math.abs(remaining).toFixed(2)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-lg font-bold border-t border-blue-200 dark:border-blue-700 pt-2">
                     <span>Change:</span>
                     <span
@@ -152,10 +377,18 @@ export default function CashPaymentModal({
             </button>
             <button
               type="submit"
-              disabled={isProcessing || amountTenderedNum < totalAmount}
+              disabled={
+                isProcessing ||
+                remaining < 0 ||
+                (cashAmountNum > 0 && amountTenderedNum < cashAmountNum)
+              }
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isProcessing ? "Processing..." : "Confirm Payment"}
+              {isProcessing
+                ? "Processing..."
+                : remaining > 0
+                  ? "Record Partial Payment"
+                  : "Confirm Payment"}
             </button>
           </div>
         </form>
@@ -0,0 +1,340 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  createCustomerDeposit,
+  CustomerDeposit,
+  getCustomerDeposits,
+  refundCustomerDeposit,
+} from "@/lib/api/customer-deposit.api";
+import { Ticket } from "@/lib/api/ticket.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface CustomerDepositsProps {
+  customerId: string;
+  // The customer's tickets, so a deposit can be taken for one of them
+  tickets?: Ticket[];
+}
+
+const PAYMENT_METHODS = ["Cash", "Card", "Check", "Other"];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+export default function CustomerDeposits({
+  customerId,
+  tickets = [],
+}: CustomerDepositsProps) {
+  const { hasPermission } = useUser();
+  const [deposits, setDeposits] = useState<CustomerDeposit[]>([]);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [ticketId, setTicketId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState(PAYMENT_METHODS[0]);
+  const [paymentReference, setPaymentReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+
+  // Taking and refunding deposits is money handling, same as marking invoices paid
+  const canManage = hasPermission("invoices.markPaid");
+
+  const fetchDeposits = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getCustomerDeposits(customerId);
+      if (response.data) {
+        setDeposits(response.data.deposits);
+        setCreditBalance(response.data.creditBalance);
+      }
+    } catch (err) {
+      console.error("Error fetching deposits:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchDeposits();
+  }, [fetchDeposits]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setTicketId("");
+    setAmount("");
+    setPaymentMethod(PAYMENT_METHODS[0]);
+    setPaymentReference("");
+    setNotes("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountNum = parseFloat(amount);
+    if (!amountNum || amountNum <= 0) {
+      setError("Enter the amount of the deposit");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setError("");
+      await createCustomerDeposit(customerId, {
+        ticketId: ticketId || undefined,
+        amount: Math.round(amountNum * 100) / 100,
+        paymentMethod,
+        paymentReference: paymentReference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      resetForm();
+      await fetchDeposits();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRefund = async (deposit: CustomerDeposit) => {
+    if (
+      !confirm(
+        `Refund the unused $${deposit.remainingAmount.toFixed(2)} of this deposit${
+          deposit.isProviderPayment ? " back to the customer's card" : ""
+        }?`
+      )
+    ) {
+      return;
+    }
+
+    setRefundingId(deposit.id);
+    try {
+      setError("");
+      await refundCustomerDeposit(customerId, deposit.id);
+      await fetchDeposits();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRefundingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between rounded-md bg-gray-50 dark:bg-gray-700/50 px-4 py-3">
+        <div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Credit Balance
+          </p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            ${creditBalance.toFixed(2)}
+          </p>
+        </div>
+        {canManage && !showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+          >
+            Take Deposit
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4"
+        >
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Amount *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                required
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Payment Method *
+              </label>
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                For Ticket
+              </label>
+              <select
+                value={ticketId}
+                onChange={(e) => setTicketId(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                <option value="">Any invoice</option>
+                {tickets.map((ticket) => (
+                  <option key={ticket.id} value={ticket.id}>
+                    {ticket.ticketNumber} - {ticket.deviceType}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Reference
+              </label>
+              <input
+                type="text"
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                maxLength={100}
+                placeholder="Optional reference number"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Screen ordered"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            A deposit for a ticket comes off that ticket&apos;s invoice when
+            it&apos;s created. Deposits not tied to a ticket come off the
+            customer&apos;s next invoice.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Record Deposit"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {deposits.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No deposits taken from this customer.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {deposits.map((deposit) => {
+            const ticket = tickets.find((t) => t.id === deposit.ticketId);
+            return (
+              <li
+                key={deposit.id}
+                className="flex items-start justify-between gap-4 py-3"
+              >
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900 dark:text-gray-100">
+                    ${deposit.amount.toFixed(2)} · {deposit.paymentMethod}
+                    {deposit.paymentReference &&
+                      !deposit.isProviderPayment &&
+                      ` #${deposit.paymentReference}`}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(deposit.createdAt)}
+                    {deposit.ticketId && (
+                      <>
+                        {" · "}
+                        <Link
+                          href={`/tickets/${deposit.ticketId}`}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {ticket ? ticket.ticketNumber : "View ticket"}
+                        </Link>
+                      </>
+                    )}
+                    {deposit.notes && ` · ${deposit.notes}`}
+                  </p>
+                  {(deposit.amountApplied > 0 || deposit.amountRefunded > 0) && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {deposit.amountApplied > 0 &&
+                        `$${deposit.amountApplied.toFixed(2)} applied to invoices`}
+                      {deposit.amountApplied > 0 &&
+                        deposit.amountRefunded > 0 &&
+                        " · "}
+                      {deposit.amountRefunded > 0 &&
+                        `$${deposit.amountRefunded.toFixed(2)} refunded`}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    ${deposit.remainingAmount.toFixed(2)} left
+                  </p>
+                  {canManage && deposit.remainingAmount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRefund(deposit)}
+                      disabled={refundingId !== null}
+                      className="mt-1 text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-500 disabled:opacity-50"
+                    >
+                      {refundingId === deposit.id ? "Refunding..." : "Refund"}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
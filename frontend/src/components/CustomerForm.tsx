@@ -313,6 +313,34 @@ export default function CustomerForm({ customerId }: CustomerFormProps) {
                   </div>
                 </div>
 
+                <div className="sm:col-span-2">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      name="smsOptIn"
+                      id="smsOptIn"
+                      checked={formData.smsOptIn || false}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          smsOptIn: e.target.checked,
+                        }))
+                      }
+                      className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                    />
+                    <label
+                      htmlFor="smsOptIn"
+                      className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      Customer agreed to receive text messages
+                    </label>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Repair updates are only texted to customers who agreed.
+                    Replying STOP opts them out.
+                  </p>
+                </div>
+
                 <div className="sm:col-span-2">
                   <label
                     htmlFor="address"
@@ -0,0 +1,275 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  CustomerMessage,
+  getMessages,
+  markMessagesRead,
+  MessageChannel,
+  sendMessage,
+} from "@/lib/api/message.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface CustomerMessagesProps {
+  // The customer's whole conversation, or just what's about one ticket
+  customerId?: string;
+  ticketId?: string;
+  // Used to steer staff away from channels the customer can't receive
+  customer?: {
+    email?: string;
+    phone?: string;
+    smsOptIn?: boolean;
+  } | null;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const channelLabel = (channel: MessageChannel) =>
+  channel === "sms" ? "Text" : "Email";
+
+const senderName = (message: CustomerMessage) => {
+  if (message.direction === "inbound") {
+    return message.fromAddress || "Customer";
+  }
+  return message.sender
+    ? `${message.sender.firstName} ${message.sender.lastName}`
+    : "Automatic notification";
+};
+
+export default function CustomerMessages({
+  customerId,
+  ticketId,
+  customer,
+}: CustomerMessagesProps) {
+  const { hasPermission } = useUser();
+  const [messages, setMessages] = useState<CustomerMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [channel, setChannel] = useState<MessageChannel>("email");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isMarkingRead, setIsMarkingRead] = useState(false);
+
+  const canSend = hasPermission("customers.read");
+  const canText = customer?.smsOptIn !== false;
+  const unreadCount = messages.filter(
+    (message) => message.direction === "inbound" && !message.readAt
+  ).length;
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getMessages({ customerId, ticketId });
+      if (response.data) {
+        setMessages(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching messages:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId, ticketId]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const handleMarkRead = async () => {
+    setIsMarkingRead(true);
+    try {
+      setError("");
+      await markMessagesRead({ customerId, ticketId });
+      await fetchMessages();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsMarkingRead(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setIsSending(true);
+    try {
+      setError("");
+      await sendMessage({
+        customerId,
+        ticketId,
+        channel,
+        subject: channel === "email" && subject.trim() ? subject.trim() : undefined,
+        body: body.trim(),
+      });
+      setBody("");
+      setSubject("");
+      await fetchMessages();
+    } catch (err) {
+      // Keep the draft so the user can retry
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {unreadCount > 0 && (
+        <div className="flex items-center justify-between rounded-md bg-blue-50 dark:bg-blue-900/20 px-3 py-2">
+          <span className="text-sm font-medium text-blue-800 dark:text-blue-200">
+            {unreadCount} unread {unreadCount === 1 ? "reply" : "replies"}
+          </span>
+          <button
+            type="button"
+            onClick={handleMarkRead}
+            disabled={isMarkingRead}
+            className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500 disabled:opacity-50"
+          >
+            {isMarkingRead ? "Marking..." : "Mark as read"}
+          </button>
+        </div>
+      )}
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No messages yet. Notifications and replies from the customer will
+          show up here.
+        </p>
+      ) : (
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {messages.map((message) => {
+            const isInbound = message.direction === "inbound";
+            const isUnread = isInbound && !message.readAt;
+            return (
+              <li
+                key={message.id}
+                className={`flex ${isInbound ? "justify-start" : "justify-end"}`}
+              >
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-2 ${
+                    isInbound
+                      ? "bg-gray-100 dark:bg-gray-700"
+                      : "bg-blue-50 dark:bg-blue-900/30"
+                  } ${isUnread ? "ring-2 ring-blue-400 dark:ring-blue-500" : ""}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">
+                      {senderName(message)}
+                    </span>
+                    <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-white dark:bg-gray-800">
+                      {channelLabel(message.channel)}
+                    </span>
+                    <span>{formatDateTime(message.createdAt)}</span>
+                    {isUnread && (
+                      <span className="inline-flex items-center px-1.5 py-0.5 rounded bg-blue-600 text-white">
+                        New
+                      </span>
+                    )}
+                    {!ticketId && message.ticketId && (
+                      <Link
+                        href={`/tickets/${message.ticketId}`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        View ticket
+                      </Link>
+                    )}
+                  </div>
+                  {message.subject && (
+                    <p className="mt-1 text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {message.subject}
+                    </p>
+                  )}
+                  <p className="mt-1 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                    {message.body}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canSend && (
+        <form onSubmit={handleSend} className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as MessageChannel)}
+              className="block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="email">Email</option>
+              <option value="sms" disabled={!canText}>
+                {canText ? "Text message" : "Text message (not opted in)"}
+              </option>
+            </select>
+            {channel === "email" && (
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Subject (optional)"
+                maxLength={200}
+                className="flex-1 min-w-[12rem] block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            )}
+          </div>
+          <textarea
+            rows={3}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={
+              channel === "sms"
+                ? "Write a text message..."
+                : "Write an email..."
+            }
+            maxLength={channel === "sms" ? 1600 : 5000}
+            className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          ></textarea>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {channel === "sms"
+                ? customer?.phone
+                  ? `Sent to ${customer.phone}`
+                  : "Sent to the customer's phone"
+                : customer?.email
+                  ? `Sent to ${customer.email}`
+                  : "Sent to the customer's email"}
+            </p>
+            <button
+              type="submit"
+              disabled={isSending || !body.trim()}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isSending ? "Sending..." : "Send"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
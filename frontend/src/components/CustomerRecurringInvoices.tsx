@@ -0,0 +1,632 @@
+"use client";
+
+import LoadingSpinner from "@/components/LoadingSpinner";
+import { getErrorMessage } from "@/lib/api";
+import {
+  createRecurringInvoice,
+  deleteRecurringInvoice,
+  getRecurringInvoices,
+  issueRecurringInvoice,
+  RecurringInvoice,
+  RecurringInvoiceFrequency,
+  removeRecurringInvoiceCard,
+  saveRecurringInvoiceCard,
+  updateRecurringInvoice,
+} from "@/lib/api/recurring-invoice.api";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import React, { useCallback, useEffect, useState } from "react";
+
+const SquarePaymentForm = dynamic(
+  () => import("@/components/SquarePaymentForm"),
+  {
+    ssr: false,
+    loading: () => <LoadingSpinner text="Loading payment form..." />,
+  }
+);
+
+interface CustomerRecurringInvoicesProps {
+  customerId: string;
+}
+
+interface ItemRow {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const FREQUENCY_LABELS: Record<RecurringInvoiceFrequency, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+const STATUS_CLASSES: Record<RecurringInvoice["status"], string> = {
+  active: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  paused: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  ended: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const EMPTY_ITEM: ItemRow = { description: "", quantity: "1", unitPrice: "" };
+
+const lineInputClassName =
+  "block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+const inputClassName = `mt-1 w-full ${lineInputClassName}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+// Date inputs work in the browser's local day, the API in ISO timestamps
+const toDateInput = (dateString: string) => {
+  const date = new Date(dateString);
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`).toISOString();
+
+export default function CustomerRecurringInvoices({
+  customerId,
+}: CustomerRecurringInvoicesProps) {
+  const router = useRouter();
+  const [schedules, setSchedules] = useState<RecurringInvoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  // The schedule being edited, "new" when creating one, or null when the form is closed
+  const [editing, setEditing] = useState<RecurringInvoice | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<RecurringInvoiceFrequency>("monthly");
+  const [nextIssueDate, setNextIssueDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [dueDays, setDueDays] = useState("14");
+  const [notes, setNotes] = useState("");
+  const [autoEmail, setAutoEmail] = useState(true);
+  const [items, setItems] = useState<ItemRow[]>([EMPTY_ITEM]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [cardFormId, setCardFormId] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getRecurringInvoices({ customerId });
+      if (response.data) {
+        setSchedules(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching recurring invoices:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const openForm = (schedule: RecurringInvoice | "new") => {
+    setCardFormId(null);
+    setEditing(schedule);
+    if (schedule === "new") {
+      setName("");
+      setFrequency("monthly");
+      setNextIssueDate(toDateInput(new Date().toISOString()));
+      setEndDate("");
+      setDueDays("14");
+      setNotes("");
+      setAutoEmail(true);
+      setItems([EMPTY_ITEM]);
+    } else {
+      setName(schedule.name);
+      setFrequency(schedule.frequency);
+      setNextIssueDate(toDateInput(schedule.nextIssueDate));
+      setEndDate(schedule.endDate ? toDateInput(schedule.endDate) : "");
+      setDueDays(schedule.dueDays.toString());
+      setNotes(schedule.notes || "");
+      setAutoEmail(schedule.autoEmail);
+      setItems(
+        schedule.items.map((item) => ({
+          description: item.description,
+          quantity: item.quantity.toString(),
+          unitPrice: item.unitPrice.toFixed(2),
+        }))
+      );
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) => {
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const formTotal = items.reduce(
+    (sum, item) => sum + (parseInt(item.quantity, 10) || 0) * (parseFloat(item.unitPrice) || 0),
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const lineItems = items
+      .filter((item) => item.description.trim())
+      .map((item) => ({
+        description: item.description.trim(),
+        quantity: parseInt(item.quantity, 10) || 1,
+        unitPrice: Math.round((parseFloat(item.unitPrice) || 0) * 100) / 100,
+      }));
+    if (lineItems.length === 0) {
+      setError("Add at least one line item");
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      frequency,
+      endDate: endDate ? fromDateInput(endDate) : null,
+      dueDays: parseInt(dueDays, 10) || 0,
+      notes: notes.trim() || null,
+      autoEmail,
+      items: lineItems,
+    };
+
+    setIsSaving(true);
+    try {
+      setError("");
+      if (editing === "new") {
+        await createRecurringInvoice({
+          customerId,
+          nextIssueDate: fromDateInput(nextIssueDate),
+          ...data,
+        });
+      } else if (editing) {
+        // Past dates are rejected, so a schedule that's behind keeps its date unless it's changed
+        const dateChanged = nextIssueDate !== toDateInput(editing.nextIssueDate);
+        await updateRecurringInvoice(
+          editing.id,
+          dateChanged ? { ...data, nextIssueDate: fromDateInput(nextIssueDate) } : data
+        );
+      }
+      setEditing(null);
+      await fetchSchedules();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Runs one action against a schedule, then reloads the list
+  const runAction = async (schedule: RecurringInvoice, action: () => Promise<unknown>) => {
+    setBusyId(schedule.id);
+    try {
+      setError("");
+      await action();
+      await fetchSchedules();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleIssueNow = async (schedule: RecurringInvoice) => {
+    if (
+      !confirm(
+        `Issue the next "${schedule.name}" invoice now? The schedule moves on to the following period.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(schedule.id);
+    try {
+      setError("");
+      const response = await issueRecurringInvoice(schedule.id);
+      if (response.data) {
+        router.push(`/invoices/${response.data.id}`);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (schedule: RecurringInvoice) => {
+    if (
+      !confirm(
+        `Delete "${schedule.name}"? No more invoices will be issued. Invoices already issued are kept.`
+      )
+    ) {
+      return;
+    }
+    runAction(schedule, () => deleteRecurringInvoice(schedule.id));
+  };
+
+  const handleCardTokenized = (schedule: RecurringInvoice, cardToken: string) => {
+    setCardFormId(null);
+    runAction(schedule, () => saveRecurringInvoiceCard(schedule.id, cardToken));
+  };
+
+  const handleRemoveCard = (schedule: RecurringInvoice) => {
+    if (!confirm("Remove the saved card? Invoices will still be issued, but not charged.")) {
+      return;
+    }
+    runAction(schedule, () => removeRecurringInvoiceCard(schedule.id));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!editing && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => openForm("new")}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+          >
+            New Recurring Invoice
+          </button>
+        </div>
+      )}
+
+      {editing && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4"
+        >
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name *
+              </label>
+              <input
+                type="text"
+                required
+                maxLength={255}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Managed devices"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Frequency *
+              </label>
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as RecurringInvoiceFrequency)}
+                className={inputClassName}
+              >
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Next Invoice Date *
+              </label>
+              <input
+                type="date"
+                required
+                value={nextIssueDate}
+                onChange={(e) => setNextIssueDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                End Date
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Due After (days)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="365"
+                value={dueDays}
+                onChange={(e) => setDueDays(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={autoEmail}
+                  onChange={(e) => setAutoEmail(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Email each invoice to the customer
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Line Items *
+            </label>
+            <div className="mt-1 space-y-2">
+              {items.map((item, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={item.description}
+                    onChange={(e) => updateItem(index, { description: e.target.value })}
+                    maxLength={255}
+                    placeholder="Description"
+                    className={`${lineInputClassName} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                    aria-label="Quantity"
+                    className={`${lineInputClassName} w-20`}
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={item.unitPrice}
+                    onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                    placeholder="0.00"
+                    aria-label="Unit price"
+                    className={`${lineInputClassName} w-28`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setItems((current) => current.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                    className="px-2 text-sm text-red-600 dark:text-red-400 hover:text-red-500 disabled:opacity-30"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setItems((current) => [...current, EMPTY_ITEM])}
+                className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500"
+              >
+                + Add Line
+              </button>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                ${formTotal.toFixed(2)} per invoice, before tax
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Printed on each invoice"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : editing === "new" ? "Create Schedule" : "Save Changes"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {schedules.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No recurring invoices for this customer.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {schedules.map((schedule) => {
+            const isBusy = busyId === schedule.id;
+            return (
+              <li key={schedule.id} className="py-3 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">
+                      {schedule.name}{" "}
+                      <span
+                        className={`ml-1 inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_CLASSES[schedule.status]}`}
+                      >
+                        {schedule.status}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      ${schedule.amount.toFixed(2)} {FREQUENCY_LABELS[schedule.frequency].toLowerCase()}
+                      {schedule.status !== "ended" &&
+                        ` · next invoice ${formatDate(schedule.nextIssueDate)}`}
+                      {schedule.endDate && ` · ends ${formatDate(schedule.endDate)}`}
+                      {schedule.autoEmail && " · emailed"}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {schedule.hasSavedCard
+                        ? schedule.autopayEnabled
+                          ? "Autopay on"
+                          : "Card saved, autopay off"
+                        : "No card saved"}
+                      {schedule.lastInvoiceId && (
+                        <>
+                          {" · "}
+                          <Link
+                            href={`/invoices/${schedule.lastInvoiceId}`}
+                            className="text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Last invoice
+                          </Link>
+                          {schedule.lastIssuedAt && ` ${formatDate(schedule.lastIssuedAt)}`}
+                        </>
+                      )}
+                    </p>
+                    {schedule.lastAutopayError && (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        Last autopay failed: {schedule.lastAutopayError}
+                      </p>
+                    )}
+                  </div>
+                  {schedule.status !== "ended" && (
+                    <div className="flex flex-wrap justify-end gap-x-3 gap-y-1 text-sm font-medium">
+                      {schedule.status === "active" && (
+                        <button
+                          type="button"
+                          onClick={() => handleIssueNow(schedule)}
+                          disabled={busyId !== null}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-500 disabled:opacity-50"
+                        >
+                          Issue Now
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => openForm(schedule)}
+                        disabled={busyId !== null}
+                        className="text-blue-600 dark:text-blue-400 hover:text-blue-500 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          runAction(schedule, () =>
+                            updateRecurringInvoice(schedule.id, {
+                              status: schedule.status === "active" ? "paused" : "active",
+                            })
+                          )
+                        }
+                        disabled={busyId !== null}
+                        className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50"
+                      >
+                        {schedule.status === "active" ? "Pause" : "Resume"}
+                      </button>
+                      {schedule.hasSavedCard ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              runAction(schedule, () =>
+                                updateRecurringInvoice(schedule.id, {
+                                  autopayEnabled: !schedule.autopayEnabled,
+                                })
+                              )
+                            }
+                            disabled={busyId !== null}
+                            className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50"
+                          >
+                            {schedule.autopayEnabled ? "Turn Off Autopay" : "Turn On Autopay"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveCard(schedule)}
+                            disabled={busyId !== null}
+                            className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50"
+                          >
+                            Remove Card
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setCardFormId(schedule.id)}
+                          disabled={busyId !== null}
+                          className="text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50"
+                        >
+                          Set Up Autopay
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(schedule)}
+                        disabled={busyId !== null}
+                        className="text-red-600 dark:text-red-400 hover:text-red-500 disabled:opacity-50"
+                      >
+                        {isBusy ? "Working..." : "Delete"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {cardFormId === schedule.id && (
+                  <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded">
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+                      Card for Autopay
+                    </h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                      The card is saved with Square and charged for each invoice when it&apos;s
+                      issued.
+                    </p>
+                    <SquarePaymentForm
+                      onCardTokenized={(cardToken) => handleCardTokenized(schedule, cardToken)}
+                      onError={(err) => setError(err)}
+                      disabled={isBusy}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setCardFormId(null)}
+                      className="mt-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
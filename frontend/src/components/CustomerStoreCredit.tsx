@@ -0,0 +1,261 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  adjustStoreCredit,
+  getStoreCredit,
+  StoreCreditTransaction,
+  StoreCreditTransactionType,
+} from "@/lib/api/store-credit.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface CustomerStoreCreditProps {
+  customerId: string;
+}
+
+const typeLabels: Record<StoreCreditTransactionType, string> = {
+  refund: "Refund",
+  redemption: "Spent",
+  adjustment: "Adjustment",
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatSigned = (amount: number) =>
+  `${amount < 0 ? "-" : "+"}$${Math.abs(amount).toFixed(2)}`;
+
+export default function CustomerStoreCredit({
+  customerId,
+}: CustomerStoreCreditProps) {
+  const { hasPermission } = useUser();
+  const [balance, setBalance] = useState(0);
+  const [transactions, setTransactions] = useState<StoreCreditTransaction[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [direction, setDirection] = useState<"give" | "remove">("give");
+  const [amount, setAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Handing out credit is money handling, same as marking invoices paid
+  const canAdjust = hasPermission("invoices.markPaid");
+
+  const fetchStoreCredit = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getStoreCredit(customerId);
+      if (response.data) {
+        setBalance(response.data.balance);
+        setTransactions(response.data.transactions);
+      }
+    } catch (err) {
+      console.error("Error fetching store credit:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchStoreCredit();
+  }, [fetchStoreCredit]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setDirection("give");
+    setAmount("");
+    setNotes("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountNum = Math.round((parseFloat(amount) || 0) * 100) / 100;
+    if (amountNum <= 0) {
+      setError("Enter an amount");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setError("");
+      await adjustStoreCredit(customerId, {
+        amount: direction === "give" ? amountNum : -amountNum,
+        notes: notes.trim(),
+      });
+      resetForm();
+      await fetchStoreCredit();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between rounded-md bg-gray-50 dark:bg-gray-700/50 px-4 py-3">
+        <div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Balance</p>
+          <p className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            ${balance.toFixed(2)}
+          </p>
+        </div>
+        {canAdjust && !showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Adjust
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4"
+        >
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Change
+              </label>
+              <select
+                value={direction}
+                onChange={(e) =>
+                  setDirection(e.target.value as "give" | "remove")
+                }
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                <option value="give">Give credit</option>
+                <option value="remove">Take credit away</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Amount *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={direction === "remove" ? balance : undefined}
+                required
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Reason *
+            </label>
+            <input
+              type="text"
+              required
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              placeholder="e.g. Goodwill credit for a late repair"
+              className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !notes.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No store credit history. Refunds given as store credit show up here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-96 overflow-y-auto">
+          {transactions.map((transaction) => (
+            <li
+              key={transaction.id}
+              className="flex items-start justify-between gap-4 py-3"
+            >
+              <div className="text-sm">
+                <p className="font-medium text-gray-900 dark:text-gray-100">
+                  {typeLabels[transaction.type]}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatDate(transaction.createdAt)}
+                  {transaction.invoiceId && (
+                    <>
+                      {" · "}
+                      <Link
+                        href={`/invoices/${transaction.invoiceId}`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        View invoice
+                      </Link>
+                    </>
+                  )}
+                  {transaction.notes && ` · ${transaction.notes}`}
+                </p>
+              </div>
+              <div className="text-right whitespace-nowrap text-sm">
+                <p
+                  className={
+                    transaction.amount < 0
+                      ? "font-medium text-red-600 dark:text-red-400"
+                      : "font-medium text-green-600 dark:text-green-400"
+                  }
+                >
+                  {formatSigned(transaction.amount)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  ${transaction.balanceAfter.toFixed(2)} after
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -293,6 +293,36 @@ export default function EmailIntegrationForm() {
               )}
             </div>
           </div>
+          {integration.inboundUrl && (
+            <div className="mt-3">
+              <p className="text-xs font-medium text-blue-900 dark:text-blue-100">
+                Inbound email webhook
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1 break-all font-mono">
+                {integration.inboundUrl}
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                Add this URL as a SendGrid Inbound Parse destination and use
+                that domain&apos;s address as your reply-to email, so customer
+                replies show up in their messages. Keep it private.
+              </p>
+            </div>
+          )}
+          {integration.eventsUrl && (
+            <div className="mt-3">
+              <p className="text-xs font-medium text-blue-900 dark:text-blue-100">
+                Event webhook
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1 break-all font-mono">
+                {integration.eventsUrl}
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                Add this URL as the SendGrid Event Webhook with the delivered,
+                opened, bounced and dropped events, so the email log shows
+                what happened to each email. Keep it private.
+              </p>
+            </div>
+          )}
         </div>
       )}
 
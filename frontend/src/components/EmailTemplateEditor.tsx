@@ -0,0 +1,552 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  EmailBranding,
+  EmailPreview,
+  EmailTemplate,
+  EmailTemplateKey,
+  getEmailTemplates,
+  previewEmailTemplate,
+  removeEmailLogo,
+  resetEmailTemplate,
+  saveEmailTemplate,
+  sendTestEmailTemplate,
+  updateEmailBranding,
+  uploadEmailLogo,
+} from "@/lib/api/email-template.api";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+export default function EmailTemplateEditor() {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [branding, setBranding] = useState<EmailBranding | null>(null);
+  const [colors, setColors] = useState({
+    primaryColor: "#2563eb",
+    accentColor: "#2563eb",
+  });
+  const [selectedKey, setSelectedKey] =
+    useState<EmailTemplateKey>("ticket_status");
+  const [draft, setDraft] = useState({ subject: "", body: "" });
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSendingTest, setIsSendingTest] = useState(false);
+  const [isSavingBranding, setIsSavingBranding] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find((template) => template.key === selectedKey);
+  const isDirty =
+    !!selected &&
+    (draft.subject !== selected.subject || draft.body !== selected.body);
+
+  const showSuccess = (message: string) => {
+    setError("");
+    setSuccess(message);
+  };
+
+  const showError = (err: unknown) => {
+    setSuccess("");
+    setError(getErrorMessage(err));
+  };
+
+  const applyBranding = (updated: EmailBranding) => {
+    setBranding(updated);
+    setColors({
+      primaryColor: updated.primaryColor,
+      accentColor: updated.accentColor,
+    });
+  };
+
+  const replaceTemplate = (updated: EmailTemplate) => {
+    setTemplates((prev) =>
+      prev.map((template) =>
+        template.key === updated.key ? updated : template
+      )
+    );
+    setDraft({ subject: updated.subject, body: updated.body });
+  };
+
+  const refreshPreview = useCallback(
+    async (key: EmailTemplateKey, content?: { subject: string; body: string }) => {
+      setIsPreviewing(true);
+      try {
+        const response = await previewEmailTemplate(key, content);
+        if (response.data) {
+          setPreview(response.data);
+        }
+      } catch (err) {
+        showError(err);
+      } finally {
+        setIsPreviewing(false);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await getEmailTemplates();
+        if (response.data) {
+          setTemplates(response.data.templates);
+          applyBranding(response.data.branding);
+        }
+      } catch (err) {
+        showError(err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchTemplates();
+  }, []);
+
+  // Load the selected template into the editor and show how it looks
+  useEffect(() => {
+    const template = templates.find((t) => t.key === selectedKey);
+    if (template) {
+      setDraft({ subject: template.subject, body: template.body });
+      refreshPreview(selectedKey);
+    }
+    // Only when switching templates, not every time one is saved
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedKey, templates.length, refreshPreview]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await saveEmailTemplate(selectedKey, draft);
+      if (response.data) {
+        replaceTemplate(response.data);
+        showSuccess("Template saved");
+        await refreshPreview(selectedKey);
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (
+      !confirm(
+        "Go back to the built-in template? Your changes to this email will be lost."
+      )
+    ) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const response = await resetEmailTemplate(selectedKey);
+      if (response.data) {
+        replaceTemplate(response.data);
+        showSuccess("Template reset to the default");
+        await refreshPreview(selectedKey);
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    setIsSendingTest(true);
+    try {
+      const response = await sendTestEmailTemplate(selectedKey, draft);
+      showSuccess(
+        `Test email sent to ${response.data?.sentTo || "your email address"}`
+      );
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSendingTest(false);
+    }
+  };
+
+  const handleSaveColors = async () => {
+    setIsSavingBranding(true);
+    try {
+      const response = await updateEmailBranding(colors);
+      if (response.data) {
+        applyBranding(response.data);
+        showSuccess("Brand colors saved");
+        await refreshPreview(selectedKey, draft);
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSavingBranding(false);
+    }
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsSavingBranding(true);
+    try {
+      const response = await uploadEmailLogo(file);
+      if (response.data) {
+        applyBranding(response.data);
+        showSuccess("Logo uploaded");
+        await refreshPreview(selectedKey, draft);
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSavingBranding(false);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    setIsSavingBranding(true);
+    try {
+      const response = await removeEmailLogo();
+      if (response.data) {
+        applyBranding(response.data);
+        showSuccess("Logo removed");
+        await refreshPreview(selectedKey, draft);
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSavingBranding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Email Templates & Branding
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Customize the emails sent to customers and staff. Use variables like{" "}
+          <code className="font-mono text-sm">{"{{customerFirstName}}"}</code>{" "}
+          to fill in details, and{" "}
+          <code className="font-mono text-sm">{"[Button label]({{portalLink}})"}</code>{" "}
+          for a button.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+          <p className="text-sm text-green-800 dark:text-green-200">
+            {success}
+          </p>
+        </div>
+      )}
+
+      {/* Branding */}
+      <div className="mb-8 p-4 bg-white dark:bg-gray-800 shadow rounded-lg">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+          Branding
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Logo
+            </p>
+            <div className="flex items-center gap-3">
+              {branding?.logoUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={branding.logoUrl}
+                  alt="Company logo"
+                  className="max-h-16 max-w-[10rem] rounded border border-gray-200 dark:border-gray-700 bg-white"
+                />
+              ) : (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  No logo - your company name is shown instead
+                </span>
+              )}
+            </div>
+            <div className="mt-2 flex gap-3">
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/webp,image/gif"
+                onChange={handleLogoChange}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => logoInputRef.current?.click()}
+                disabled={isSavingBranding}
+                className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500 disabled:opacity-50"
+              >
+                {branding?.logoUrl ? "Replace logo" : "Upload logo"}
+              </button>
+              {branding?.logoUrl && (
+                <button
+                  type="button"
+                  onClick={handleRemoveLogo}
+                  disabled={isSavingBranding}
+                  className="text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-500 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="primaryColor"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Primary color
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                id="primaryColor"
+                value={colors.primaryColor}
+                onChange={(e) =>
+                  setColors((prev) => ({ ...prev, primaryColor: e.target.value }))
+                }
+                className="h-9 w-14 rounded border border-gray-300 dark:border-gray-600"
+              />
+              <span className="text-sm font-mono text-gray-600 dark:text-gray-400">
+                {colors.primaryColor}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Header and buttons
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="accentColor"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Accent color
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                id="accentColor"
+                value={colors.accentColor}
+                onChange={(e) =>
+                  setColors((prev) => ({ ...prev, accentColor: e.target.value }))
+                }
+                className="h-9 w-14 rounded border border-gray-300 dark:border-gray-600"
+              />
+              <span className="text-sm font-mono text-gray-600 dark:text-gray-400">
+                {colors.accentColor}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Links
+            </p>
+          </div>
+        </div>
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={handleSaveColors}
+            disabled={
+              isSavingBranding ||
+              (colors.primaryColor === branding?.primaryColor &&
+                colors.accentColor === branding?.accentColor)
+            }
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            {isSavingBranding ? "Saving..." : "Save Colors"}
+          </button>
+        </div>
+      </div>
+
+      {/* Templates */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label
+              htmlFor="templateKey"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Email
+            </label>
+            <select
+              id="templateKey"
+              value={selectedKey}
+              onChange={(e) => {
+                if (
+                  isDirty &&
+                  !confirm("Discard your unsaved changes to this email?")
+                ) {
+                  return;
+                }
+                setSelectedKey(e.target.value as EmailTemplateKey);
+              }}
+              className="block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {templates.map((template) => (
+                <option key={template.key} value={template.key}>
+                  {template.name}
+                  {template.isCustom ? " (customized)" : ""}
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {selected.description}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label
+              htmlFor="templateSubject"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Subject
+            </label>
+            <input
+              type="text"
+              id="templateSubject"
+              value={draft.subject}
+              onChange={(e) =>
+                setDraft((prev) => ({ ...prev, subject: e.target.value }))
+              }
+              maxLength={255}
+              className="block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="templateBody"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Body
+            </label>
+            <textarea
+              id="templateBody"
+              rows={16}
+              value={draft.body}
+              onChange={(e) =>
+                setDraft((prev) => ({ ...prev, body: e.target.value }))
+              }
+              maxLength={10000}
+              className="block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+            ></textarea>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave a blank line between paragraphs. Wrap text in{" "}
+              <code className="font-mono">{"{{#notes}}...{{/notes}}"}</code> to
+              only include it when a variable has a value, or{" "}
+              <code className="font-mono">{"{{^notes}}...{{/notes}}"}</code> when
+              it doesn&apos;t.
+            </p>
+          </div>
+
+          {selected && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Variables
+              </p>
+              <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                {selected.variables.map((variable) => (
+                  <li key={variable.name}>
+                    <code className="font-mono text-gray-900 dark:text-gray-100">
+                      {`{{${variable.name}}}`}
+                    </code>{" "}
+                    - {variable.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || !isDirty}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save Template"}
+            </button>
+            <button
+              type="button"
+              onClick={() => refreshPreview(selectedKey, draft)}
+              disabled={isPreviewing}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPreviewing ? "Rendering..." : "Preview"}
+            </button>
+            <button
+              type="button"
+              onClick={handleSendTest}
+              disabled={isSendingTest}
+              className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSendingTest ? "Sending..." : "Send Test"}
+            </button>
+            {selected?.isCustom && (
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={isSaving}
+                className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reset to Default
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Previews and test emails use sample data. Test emails are sent to
+            your own address.
+          </p>
+        </div>
+
+        {/* Preview */}
+        <div>
+          <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Preview
+          </p>
+          {preview ? (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="px-4 py-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+                <p className="text-sm text-gray-900 dark:text-gray-100">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    Subject:
+                  </span>{" "}
+                  {preview.subject}
+                </p>
+              </div>
+              {/* Sandboxed so template content can't run scripts in the app */}
+              <iframe
+                title="Email preview"
+                srcDoc={preview.html}
+                sandbox=""
+                className="w-full h-[36rem] bg-white"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {isPreviewing ? "Rendering preview..." : "No preview yet."}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
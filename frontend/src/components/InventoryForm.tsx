@@ -51,6 +51,8 @@ export default function InventoryForm({ itemId }: InventoryFormProps) {
     reorderLevel: 5,
     supplier: "",
     supplierPartNumber: "",
+    // Kept as text so an empty field means the part carries no warranty of its own
+    warrantyDays: "",
     isActive: true,
     isTaxable: true,
     trackQuantity: true,
@@ -117,6 +119,10 @@ export default function InventoryForm({ itemId }: InventoryFormProps) {
               reorderLevel: item.reorderLevel,
               supplier: item.supplier || "",
               supplierPartNumber: item.supplierPartNumber || "",
+              warrantyDays:
+                item.warrantyDays !== null && item.warrantyDays !== undefined
+                  ? String(item.warrantyDays)
+                  : "",
               isActive: item.isActive,
               isTaxable: item.isTaxable !== undefined ? item.isTaxable : true,
               trackQuantity: item.trackQuantity !== undefined ? item.trackQuantity : true,
@@ -164,6 +170,7 @@ export default function InventoryForm({ itemId }: InventoryFormProps) {
           location: null,
           supplier: formData.supplier || null,
           supplierPartNumber: formData.supplierPartNumber || null,
+          warrantyDays: formData.warrantyDays === "" ? null : parseInt(formData.warrantyDays),
           isActive: formData.isActive,
           isTaxable: formData.isTaxable,
           trackQuantity: formData.trackQuantity,
@@ -188,6 +195,7 @@ export default function InventoryForm({ itemId }: InventoryFormProps) {
           location: null,
           supplier: formData.supplier || null,
           supplierPartNumber: formData.supplierPartNumber || null,
+          warrantyDays: formData.warrantyDays === "" ? null : parseInt(formData.warrantyDays),
           isActive: formData.isActive,
           isTaxable: formData.isTaxable,
           trackQuantity: formData.trackQuantity,
@@ -425,6 +433,24 @@ export default function InventoryForm({ itemId }: InventoryFormProps) {
                 className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Warranty (days)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="3650"
+                step="1"
+                value={formData.warrantyDays}
+                onChange={(e) => setFormData({ ...formData, warrantyDays: e.target.value })}
+                className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Repairs using this part are under warranty this long. Leave empty to use the
+                company default.
+              </p>
+            </div>
             <div>
               <label className="flex items-center">
                 <input
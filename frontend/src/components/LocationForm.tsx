@@ -1,7 +1,9 @@
 "use client";
 
 import {
+    BusinessHours,
     CreateLocationData,
+    Weekday,
     UpdateLocationData,
     createLocation,
     getLocationById,
@@ -18,6 +20,23 @@ interface LocationFormProps {
 
 const BILLING_AMOUNT_PER_LOCATION = 50; // $50 per location per month
 
+const WEEKDAYS: { key: Weekday; label: string }[] = [
+  { key: "monday", label: "Monday" },
+  { key: "tuesday", label: "Tuesday" },
+  { key: "wednesday", label: "Wednesday" },
+  { key: "thursday", label: "Thursday" },
+  { key: "friday", label: "Friday" },
+  { key: "saturday", label: "Saturday" },
+  { key: "sunday", label: "Sunday" },
+];
+
+const SLOT_LENGTHS = [15, 30, 45, 60, 90, 120];
+
+const DEFAULT_TIMEZONE =
+  typeof Intl !== "undefined"
+    ? Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+    : "UTC";
+
 export default function LocationForm({ locationId }: LocationFormProps) {
   const router = useRouter();
   const isUpdateMode = Boolean(locationId);
@@ -36,6 +55,10 @@ export default function LocationForm({ locationId }: LocationFormProps) {
     taxName: "Sales Tax",
     taxEnabled: true,
     taxInclusive: false,
+    timezone: DEFAULT_TIMEZONE,
+    businessHours: null,
+    bookingEnabled: false,
+    bookingSlotMinutes: 30,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -83,6 +106,10 @@ export default function LocationForm({ locationId }: LocationFormProps) {
               taxName: response.data.taxName || "Sales Tax",
               taxEnabled: response.data.taxEnabled !== undefined ? response.data.taxEnabled : true,
               taxInclusive: response.data.taxInclusive !== undefined ? response.data.taxInclusive : false,
+              timezone: response.data.timezone || "UTC",
+              businessHours: response.data.businessHours || null,
+              bookingEnabled: response.data.bookingEnabled || false,
+              bookingSlotMinutes: response.data.bookingSlotMinutes || 30,
             });
           }
         } catch (err) {
@@ -122,6 +149,29 @@ export default function LocationForm({ locationId }: LocationFormProps) {
     }
   };
 
+  const handleHoursChange = (
+    day: Weekday,
+    hours: { open: string; close: string } | null
+  ) => {
+    setFormData((prev) => {
+      const businessHours: BusinessHours = { ...(prev.businessHours || {}) };
+      if (hours) {
+        businessHours[day] = hours;
+      } else {
+        delete businessHours[day];
+      }
+      return { ...prev, businessHours };
+    });
+
+    if (errors.businessHours) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.businessHours;
+        return newErrors;
+      });
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -139,6 +189,13 @@ export default function LocationForm({ locationId }: LocationFormProps) {
       newErrors.phone = "Please enter a valid phone number";
     }
 
+    const openDays = Object.values(formData.businessHours || {});
+    if (openDays.some((hours) => !hours.open || !hours.close || hours.open >= hours.close)) {
+      newErrors.businessHours = "Each open day must close after it opens";
+    } else if (formData.bookingEnabled && openDays.length === 0) {
+      newErrors.businessHours = "Set opening hours to take bookings online";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -208,6 +265,17 @@ export default function LocationForm({ locationId }: LocationFormProps) {
         cleanFormData.taxInclusive = formData.taxInclusive;
       }
 
+      // Include booking settings
+      if (formData.timezone?.trim()) {
+        cleanFormData.timezone = formData.timezone.trim();
+      }
+      cleanFormData.businessHours =
+        formData.businessHours && Object.keys(formData.businessHours).length > 0
+          ? formData.businessHours
+          : null;
+      cleanFormData.bookingEnabled = formData.bookingEnabled;
+      cleanFormData.bookingSlotMinutes = formData.bookingSlotMinutes;
+
       let response;
 
       if (isUpdateMode && locationId) {
@@ -499,6 +567,141 @@ export default function LocationForm({ locationId }: LocationFormProps) {
         </div>
         </div>
 
+      {/* Online Booking Section */}
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+          Opening Hours &amp; Online Booking
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label
+              htmlFor="timezone"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Time Zone
+            </label>
+            <input
+              type="text"
+              id="timezone"
+              name="timezone"
+              value={formData.timezone || ""}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500"
+              placeholder="America/New_York"
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Opening hours and appointment times are in this time zone
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="bookingSlotMinutes"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Booking Slot Length
+            </label>
+            <select
+              id="bookingSlotMinutes"
+              value={formData.bookingSlotMinutes || 30}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  bookingSlotMinutes: Number(e.target.value),
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+            >
+              {SLOT_LENGTHS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {WEEKDAYS.map(({ key, label }) => {
+            const hours = formData.businessHours?.[key];
+            return (
+              <div key={key} className="flex items-center gap-3">
+                <label className="flex items-center space-x-2 w-32">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(hours)}
+                    onChange={(e) =>
+                      handleHoursChange(
+                        key,
+                        e.target.checked ? { open: "09:00", close: "17:00" } : null
+                      )
+                    }
+                    className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{label}</span>
+                </label>
+                {hours ? (
+                  <>
+                    <input
+                      type="time"
+                      aria-label={`${label} opens`}
+                      value={hours.open}
+                      onChange={(e) => handleHoursChange(key, { ...hours, open: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                    <input
+                      type="time"
+                      aria-label={`${label} closes`}
+                      value={hours.close}
+                      onChange={(e) => handleHoursChange(key, { ...hours, close: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Closed</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {errors.businessHours && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.businessHours}</p>
+        )}
+
+        <div className="mt-4">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              name="bookingEnabled"
+              checked={formData.bookingEnabled || false}
+              onChange={handleChange}
+              className="w-4 h-4 text-blue-600 border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Take Bookings Online
+            </span>
+          </label>
+          <p className="ml-6 text-sm text-gray-500 dark:text-gray-400">
+            Customers can book a drop-off or visit during opening hours from this
+            location&apos;s booking page
+            {isUpdateMode && locationId && (
+              <>
+                {": "}
+                <a
+                  href={`/book/${locationId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  /book/{locationId}
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="flex items-center space-x-2">
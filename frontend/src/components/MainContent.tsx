@@ -11,13 +11,14 @@ export default function MainContent({ children }: MainContentProps) {
   const pathname = usePathname();
   const { user, isLoading } = useUser();
 
-  // Don't apply sidebar margin on auth pages, home page, or when user is not logged in
+  // Don't apply sidebar margin on auth pages, home page, the customer portal and booking pages, or when user is not logged in
   const isAuthPage = pathname === "/login" || pathname === "/register";
   const isHomePage = pathname === "/";
-  const shouldShowSidebar = !isLoading && user && !isAuthPage && !isHomePage;
+  const isPortalPage = pathname.startsWith("/portal") || pathname.startsWith("/book/");
+  const shouldShowSidebar = !isLoading && user && !isAuthPage && !isHomePage && !isPortalPage;
 
-  // Don't apply padding on homepage or auth pages (they manage their own spacing)
-  const shouldApplyPadding = !isHomePage && !isAuthPage;
+  // Don't apply padding on homepage, auth pages or the portal (they manage their own spacing)
+  const shouldApplyPadding = !isHomePage && !isAuthPage && !isPortalPage;
 
   return (
     <main className={`flex-1 ${shouldApplyPadding ? "p-4 lg:p-8" : ""} bg-background ${shouldShowSidebar ? "lg:ml-64" : ""}`}>
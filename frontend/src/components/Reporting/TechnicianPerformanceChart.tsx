@@ -91,10 +91,17 @@ export default function TechnicianPerformanceChart({
               if (!item) return [];
               const index = item.dataIndex;
               const tech = data[index];
-              if (tech && tech.averageCompletionDays !== null) {
-                return [`Avg Completion: ${tech.averageCompletionDays} days`];
+              if (!tech) return [];
+              const lines: string[] = [];
+              if (tech.averageCompletionDays !== null) {
+                lines.push(`Avg Completion: ${tech.averageCompletionDays} days`);
               }
-              return [];
+              if (tech.actualHours > 0) {
+                lines.push(
+                  `Hours: ${tech.actualHours} logged, ${tech.billedHours} billed`
+                );
+              }
+              return lines;
             },
             label: (tooltipItem: TooltipItem<"bar">) => {
               const value = tooltipItem.parsed.y;
@@ -12,6 +12,7 @@ import { useEffect, useMemo, useState } from "react";
 import { Pie } from "react-chartjs-2";
 import { StatusDistribution } from "@/lib/api/reporting.api";
 import { useTheme } from "@/lib/ThemeContext";
+import { formatStatus } from "@/lib/utils/ticketUtils";
 
 // Register Chart.js components
 ChartJS.register(ArcElement, Tooltip, Legend, CategoryScale);
@@ -27,6 +28,7 @@ const statusColors: Record<string, string> = {
   assigned: "#8b5cf6", // purple
   in_progress: "#f59e0b", // amber
   on_hold: "#ef4444", // red
+  awaiting_approval: "#6366f1", // indigo
   completed: "#10b981", // green
   cancelled: "#6b7280", // gray
 };
@@ -36,6 +38,7 @@ const statusLabels: Record<string, string> = {
   assigned: "Assigned",
   in_progress: "In Progress",
   on_hold: "On Hold",
+  awaiting_approval: "Awaiting Approval",
   completed: "Completed",
   cancelled: "Cancelled",
 };
@@ -60,7 +63,8 @@ export default function TicketStatusChart({
       };
     }
 
-    const labels = data.map((item) => statusLabels[item.status] || item.status);
+    // Custom workflow statuses aren't in the map, so fall back to a readable version of the key
+    const labels = data.map((item) => statusLabels[item.status] || formatStatus(item.status));
     const counts = data.map((item) => item.count);
     const backgroundColors = data.map((item) => statusColors[item.status] || "#6b7280");
 
@@ -0,0 +1,121 @@
+"use client";
+
+import { WarrantyReturnReport } from "@/lib/api/reporting.api";
+
+interface WarrantyReturnsTableProps {
+  data: WarrantyReturnReport | null;
+  loading?: boolean;
+  error?: string | null;
+}
+
+interface ReturnRow {
+  key: string;
+  label: string;
+  repairs: number;
+  warrantyClaims: number;
+  returnRate: number;
+}
+
+function ReturnsTable({ title, rows }: { title: string; rows: ReturnRow[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {title}
+      </h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No completed repairs with a warranty in this period
+        </p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"></th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Repairs
+              </th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Claims
+              </th>
+              <th className="py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Return rate
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 text-sm text-gray-900 dark:text-gray-100">
+                  {row.label}
+                </td>
+                <td className="py-2 text-sm text-right text-gray-700 dark:text-gray-300">
+                  {row.repairs}
+                </td>
+                <td className="py-2 text-sm text-right text-gray-700 dark:text-gray-300">
+                  {row.warrantyClaims}
+                </td>
+                <td className="py-2 text-sm text-right font-medium text-gray-900 dark:text-gray-100">
+                  {row.returnRate.toFixed(1)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function WarrantyReturnsTable({
+  data,
+  loading = false,
+  error = null,
+}: WarrantyReturnsTableProps) {
+  if (loading) {
+    return (
+      <div className="h-64 flex items-center justify-center bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            Loading warranty returns...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-64 flex items-center justify-center bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ReturnsTable
+        title="By technician"
+        rows={(data?.byTechnician || []).map((row) => ({
+          key: row.technicianId,
+          label: row.technicianName,
+          repairs: row.repairs,
+          warrantyClaims: row.warrantyClaims,
+          returnRate: row.returnRate,
+        }))}
+      />
+      <ReturnsTable
+        title="By part supplier"
+        rows={(data?.bySupplier || []).map((row) => ({
+          key: row.supplier ?? "",
+          label: row.supplier ?? "Unknown supplier",
+          repairs: row.repairs,
+          warrantyClaims: row.warrantyClaims,
+          returnRate: row.returnRate,
+        }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedViews,
+  pinSavedView,
+  SAVED_VIEWS_CHANGED_EVENT,
+  SavedView,
+  SavedViewResource,
+  unpinSavedView,
+  updateSavedView,
+} from "@/lib/api/saved-view.api";
+import { useUser } from "@/lib/UserContext";
+import { useCallback, useEffect, useState } from "react";
+
+export interface SortOption {
+  value: string;
+  label: string;
+}
+
+interface SavedViewsBarProps {
+  resource: SavedViewResource;
+  // The filter expression and sort the list is showing
+  filter: string;
+  sort: string;
+  sortOptions: SortOption[];
+  // Example terms shown in the empty filter box
+  filterPlaceholder: string;
+  // Filter fields the list understands, shown under the filter box
+  filterFields: string[];
+  viewId: string | null;
+  onChange: (filter: string, sort: string) => void;
+  onSelectView: (viewId: string | null) => void;
+}
+
+const inputClassName =
+  "block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 text-sm placeholder-gray-400 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500";
+
+const selectClassName =
+  "rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 py-2 pl-3 pr-10 text-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500";
+
+const secondaryButtonClassName =
+  "inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50";
+
+export default function SavedViewsBar({
+  resource,
+  filter,
+  sort,
+  sortOptions,
+  filterPlaceholder,
+  filterFields,
+  viewId,
+  onChange,
+  onSelectView,
+}: SavedViewsBarProps) {
+  const { user, isSuperuser } = useUser();
+  const [draftFilter, setDraftFilter] = useState(filter);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [shareWithCompany, setShareWithCompany] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  // Only admins and managers can share views with everyone in the company
+  const canShare = isSuperuser || ["admin", "manager"].includes(user?.role || "");
+  const activeView = views.find((view) => view.id === viewId) || null;
+  const canChangeActiveView =
+    !!activeView &&
+    (activeView.userId === user?.id ||
+      (activeView.visibility === "company" && canShare));
+  const hasUnsavedChanges =
+    !!activeView &&
+    (activeView.filter !== filter || (activeView.sort || "") !== sort);
+
+  // Keep the box in step when a view or link changes the filter
+  useEffect(() => {
+    setDraftFilter(filter);
+  }, [filter]);
+
+  const fetchViews = useCallback(async () => {
+    try {
+      const response = await getSavedViews({ resource });
+      setViews(response.data ?? []);
+    } catch (err) {
+      console.error("Error fetching saved views:", err);
+    }
+  }, [resource]);
+
+  useEffect(() => {
+    fetchViews();
+    window.addEventListener(SAVED_VIEWS_CHANGED_EVENT, fetchViews);
+    return () => {
+      window.removeEventListener(SAVED_VIEWS_CHANGED_EVENT, fetchViews);
+    };
+  }, [fetchViews]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError("");
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApplyFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(draftFilter.trim(), sort);
+  };
+
+  const handleSaveView = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const response = await createSavedView({
+        resource,
+        name: viewName.trim(),
+        filter,
+        sort: sort || null,
+        visibility: shareWithCompany ? "company" : "user",
+      });
+      setShowSaveForm(false);
+      setViewName("");
+      setShareWithCompany(false);
+      if (response.data) {
+        onSelectView(response.data.id);
+      }
+    });
+  };
+
+  const handleUpdateView = () => {
+    if (!activeView) return;
+    runAction(async () => {
+      await updateSavedView(activeView.id, { filter, sort: sort || null });
+    });
+  };
+
+  const handleTogglePin = () => {
+    if (!activeView) return;
+    runAction(async () => {
+      if (activeView.pinned) {
+        await unpinSavedView(activeView.id);
+      } else {
+        await pinSavedView(activeView.id);
+      }
+    });
+  };
+
+  const handleDeleteView = () => {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+    runAction(async () => {
+      await deleteSavedView(activeView.id);
+      onSelectView(null);
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 mb-6 space-y-3">
+      <div className="sm:flex sm:items-center gap-3">
+        <select
+          value={viewId || ""}
+          onChange={(e) => onSelectView(e.target.value || null)}
+          aria-label="Saved view"
+          className={`${selectClassName} w-full sm:w-56`}
+        >
+          <option value="">No saved view</option>
+          {views.map((view) => (
+            <option key={view.id} value={view.id}>
+              {view.name}
+              {view.visibility === "company" ? " (shared)" : ""}
+            </option>
+          ))}
+        </select>
+        <form onSubmit={handleApplyFilter} className="mt-3 sm:mt-0 flex-1 flex gap-3">
+          <input
+            type="text"
+            value={draftFilter}
+            onChange={(e) => setDraftFilter(e.target.value)}
+            placeholder={filterPlaceholder}
+            aria-label="Filter"
+            className={inputClassName}
+          />
+          <button type="submit" className={secondaryButtonClassName}>
+            Filter
+          </button>
+        </form>
+        <select
+          value={sort}
+          onChange={(e) => onChange(filter, e.target.value)}
+          aria-label="Sort"
+          className={`${selectClassName} mt-3 sm:mt-0 w-full sm:w-auto`}
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Filter on {filterFields.join(", ")}. Use commas for any of several
+          values, - to exclude, and ranges such as 2025-01-01..2025-01-31 or
+          &gt;=30d.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {activeView && hasUnsavedChanges && canChangeActiveView && (
+            <button
+              type="button"
+              onClick={handleUpdateView}
+              disabled={isWorking}
+              className={secondaryButtonClassName}
+            >
+              Update view
+            </button>
+          )}
+          {activeView && (
+            <button
+              type="button"
+              onClick={handleTogglePin}
+              disabled={isWorking}
+              className={secondaryButtonClassName}
+            >
+              {activeView.pinned ? "Unpin from sidebar" : "Pin to sidebar"}
+            </button>
+          )}
+          {activeView && canChangeActiveView && (
+            <button
+              type="button"
+              onClick={handleDeleteView}
+              disabled={isWorking}
+              className="inline-flex items-center rounded-md border border-red-300 dark:border-red-700 bg-white dark:bg-gray-700 px-3 py-2 text-sm font-medium text-red-700 dark:text-red-400 shadow-sm hover:bg-red-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Delete view
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowSaveForm(!showSaveForm)}
+            className={secondaryButtonClassName}
+          >
+            Save as view
+          </button>
+        </div>
+      </div>
+
+      {showSaveForm && (
+        <form
+          onSubmit={handleSaveView}
+          className="sm:flex sm:items-center gap-3 border-t border-gray-200 dark:border-gray-700 pt-3"
+        >
+          <input
+            type="text"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+            maxLength={100}
+            required
+            className={`${inputClassName} sm:max-w-xs`}
+          />
+          {canShare && (
+            <label className="mt-3 sm:mt-0 flex items-center text-sm text-gray-700 dark:text-gray-300 cursor-pointer whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={shareWithCompany}
+                onChange={(e) => setShareWithCompany(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2">Share with the company</span>
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={isWorking || !viewName.trim()}
+            className="mt-3 sm:mt-0 inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,16 @@
 // components/Sidebar.tsx
 import { logout } from "@/lib/api";
 import { getPosEnabled } from "@/lib/api/feature-flags.api";
+import {
+  getUnreadMessageCount,
+  MESSAGES_CHANGED_EVENT,
+} from "@/lib/api/message.api";
+import {
+  getSavedViews,
+  SAVED_VIEWS_CHANGED_EVENT,
+  SavedView,
+  SavedViewResource,
+} from "@/lib/api/saved-view.api";
 import { useTheme } from "@/lib/ThemeContext";
 import { useUser } from "@/lib/UserContext";
 import { cn } from "@/lib/utils";
@@ -10,18 +20,23 @@ import {
   ArrowPathIcon,
   ArrowRightEndOnRectangleIcon,
   Bars3Icon,
+  CalendarDaysIcon,
   ChartBarIcon,
+  ChatBubbleLeftRightIcon,
   ClipboardDocumentIcon,
   Cog6ToothIcon,
   CreditCardIcon,
   DocumentTextIcon,
   EyeIcon,
+  FunnelIcon,
+  GiftIcon,
   MoonIcon,
   ShoppingBagIcon,
   Squares2X2Icon,
   SunIcon,
   TicketIcon,
   UsersIcon,
+  ViewColumnsIcon,
   XMarkIcon,
 } from "@heroicons/react/24/outline";
 import Link from "next/link";
@@ -34,9 +49,11 @@ interface SidebarLinkProps {
   icon: React.ReactNode;
   label: string;
   active: boolean;
+  // Count shown next to the label, e.g. unread messages
+  badge?: number;
 }
 
-const SidebarLink = ({ href, icon, label, active }: SidebarLinkProps) => {
+const SidebarLink = ({ href, icon, label, active, badge }: SidebarLinkProps) => {
   return (
     <Link
       href={href}
@@ -49,15 +66,29 @@ const SidebarLink = ({ href, icon, label, active }: SidebarLinkProps) => {
     >
       <div className="w-6 h-6">{icon}</div>
       <span>{label}</span>
+      {badge ? (
+        <span className="ml-auto inline-flex items-center justify-center rounded-full bg-blue-600 px-2 py-0.5 text-xs font-medium text-white">
+          {badge}
+        </span>
+      ) : null}
     </Link>
   );
 };
 
+// Permission needed to open each list a saved view belongs to
+const savedViewPermissions: Record<SavedViewResource, string> = {
+  tickets: "tickets.read",
+  invoices: "invoices.read",
+  inventory: "inventory.read",
+};
+
 export default function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
   const [posEnabled, setPosEnabled] = useState(false);
+  const [pinnedViews, setPinnedViews] = useState<SavedView[]>([]);
+  const [unreadMessages, setUnreadMessages] = useState(0);
   const { user, isLoading, setUser, hasPermission, isSuperuser, impersonatedCompanyId, stopImpersonating } = useUser();
   const { theme, toggleTheme } = useTheme();
 
@@ -81,6 +112,57 @@ export default function Sidebar() {
     loadPosFlag();
   }, [isLoading, user]);
 
+  // Load the user's pinned views, and reload when they pin or change one
+  useEffect(() => {
+    if (isLoading || !user || (isSuperuser && !impersonatedCompanyId)) {
+      setPinnedViews([]);
+      return;
+    }
+
+    const loadPinnedViews = async () => {
+      try {
+        const response = await getSavedViews({ pinned: true });
+        setPinnedViews(response.data ?? []);
+      } catch (err) {
+        console.error("Error loading pinned views:", err);
+      }
+    };
+
+    loadPinnedViews();
+    window.addEventListener(SAVED_VIEWS_CHANGED_EVENT, loadPinnedViews);
+    return () => {
+      window.removeEventListener(SAVED_VIEWS_CHANGED_EVENT, loadPinnedViews);
+    };
+  }, [isLoading, user, isSuperuser, impersonatedCompanyId]);
+
+  // Load the unread message count, and reload when messages are read or on navigation
+  useEffect(() => {
+    if (
+      isLoading ||
+      !user ||
+      (isSuperuser && !impersonatedCompanyId) ||
+      !hasPermission("customers.read")
+    ) {
+      setUnreadMessages(0);
+      return;
+    }
+
+    const loadUnreadMessages = async () => {
+      try {
+        const response = await getUnreadMessageCount();
+        setUnreadMessages(response.data?.count ?? 0);
+      } catch (err) {
+        console.error("Error loading unread message count:", err);
+      }
+    };
+
+    loadUnreadMessages();
+    window.addEventListener(MESSAGES_CHANGED_EVENT, loadUnreadMessages);
+    return () => {
+      window.removeEventListener(MESSAGES_CHANGED_EVENT, loadUnreadMessages);
+    };
+  }, [isLoading, user, isSuperuser, impersonatedCompanyId, hasPermission, pathname]);
+
   const handleLogout = () => {
     logout();
     setUser(null);
@@ -100,6 +182,8 @@ export default function Sidebar() {
     icon: React.ReactNode;
     permission: string;
     adminOnly?: boolean;
+    // Limit the item to these roles (superusers always see it)
+    roles?: string[];
     requiresPosEnabled?: boolean;
   }
 
@@ -116,12 +200,31 @@ export default function Sidebar() {
       icon: <TicketIcon className="w-6 h-6" />,
       permission: "tickets.read",
     },
+    {
+      href: "/appointments",
+      label: "Appointments",
+      icon: <CalendarDaysIcon className="w-6 h-6" />,
+      permission: "tickets.read",
+    },
+    {
+      href: "/dispatch",
+      label: "Dispatch",
+      icon: <ViewColumnsIcon className="w-6 h-6" />,
+      permission: "tickets.read",
+      roles: ["admin", "manager"],
+    },
     {
       href: "/customers",
       label: "Customers",
       icon: <UsersIcon className="w-6 h-6" />,
       permission: "customers.read",
     },
+    {
+      href: "/messages",
+      label: "Messages",
+      icon: <ChatBubbleLeftRightIcon className="w-6 h-6" />,
+      permission: "customers.read",
+    },
     {
       href: "/inventory",
       label: "Inventory",
@@ -146,6 +249,13 @@ export default function Sidebar() {
       icon: <DocumentTextIcon className="w-6 h-6" />,
       permission: "invoices.read",
     },
+    {
+      href: "/gift-cards",
+      label: "Gift Cards",
+      icon: <GiftIcon className="w-6 h-6" />,
+      permission: "invoices.read",
+      roles: ["admin", "manager", "frontdesk"],
+    },
     {
       href: "/pos",
       label: "Point of Sale",
@@ -167,8 +277,8 @@ export default function Sidebar() {
     },
   ];
 
-  // Hide sidebar completely on homepage
-  if (pathname === "/") {
+  // Hide sidebar completely on homepage and the public customer portal and booking pages
+  if (pathname === "/" || pathname.startsWith("/portal") || pathname.startsWith("/book/")) {
     return null;
   }
 
@@ -191,6 +301,10 @@ export default function Sidebar() {
       return false;
     }
 
+    if (item.roles && !isSuperuser && !item.roles.includes(user.role)) {
+      return false;
+    }
+
     // Check POS feature flag
     if (item.requiresPosEnabled && !posEnabled) {
       return false;
@@ -199,6 +313,10 @@ export default function Sidebar() {
     return hasPermission(item.permission);
   });
 
+  const visiblePinnedViews = pinnedViews.filter((view) =>
+    hasPermission(savedViewPermissions[view.resource])
+  );
+
   // Show loading state during initial load
   if (isLoading) {
     return (
@@ -267,9 +385,28 @@ export default function Sidebar() {
                   icon={item.icon}
                   label={item.label}
                   active={isActive}
+                  badge={item.href === "/messages" ? unreadMessages : undefined}
                 />
               );
             })}
+
+            {/* Pinned Views */}
+            {visiblePinnedViews.length > 0 && (
+              <div className="pt-4">
+                <p className="px-3 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-500">
+                  Pinned Views
+                </p>
+                {visiblePinnedViews.map((view) => (
+                  <SidebarLink
+                    key={view.id}
+                    href={`/${view.resource}?view=${view.id}`}
+                    icon={<FunnelIcon className="w-6 h-6" />}
+                    label={view.name}
+                    active={false}
+                  />
+                ))}
+              </div>
+            )}
           </nav>
 
           {/* Impersonation Indicator */}
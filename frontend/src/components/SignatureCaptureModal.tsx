@@ -0,0 +1,162 @@
+"use client";
+
+import SignaturePad from "@/components/SignaturePad";
+import { getErrorMessage } from "@/lib/api";
+import {
+  captureTicketSignature,
+  getSignatureTerms,
+  SignatureKind,
+  SignatureTerms,
+  TicketSignature,
+} from "@/lib/api/signature.api";
+import React, { useEffect, useState } from "react";
+
+interface SignatureCaptureModalProps {
+  ticketId: string;
+  kind: SignatureKind;
+  defaultSignerName?: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: (signature: TicketSignature) => void;
+}
+
+const titles: Record<SignatureKind, string> = {
+  intake: "Drop-off Signature",
+  pickup: "Pick-up Signature",
+};
+
+export default function SignatureCaptureModal({
+  ticketId,
+  kind,
+  defaultSignerName = "",
+  isOpen,
+  onClose,
+  onSuccess,
+}: SignatureCaptureModalProps) {
+  const [terms, setTerms] = useState<SignatureTerms | null>(null);
+  const [signerName, setSignerName] = useState(defaultSignerName);
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the current terms each time the modal opens so the customer signs the latest version
+  useEffect(() => {
+    if (!isOpen) return;
+    setError("");
+    setSignatureImage(null);
+    setSignerName(defaultSignerName);
+    setTerms(null);
+
+    const fetchTerms = async () => {
+      try {
+        const response = await getSignatureTerms();
+        setTerms(response.data?.find((t) => t.kind === kind) || null);
+      } catch (err) {
+        setError(getErrorMessage(err));
+      }
+    };
+
+    fetchTerms();
+  }, [isOpen, kind, defaultSignerName]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!terms || !signatureImage || !signerName.trim()) return;
+
+    setIsSaving(true);
+    setError("");
+    try {
+      const response = await captureTicketSignature(ticketId, {
+        kind,
+        signerName: signerName.trim(),
+        signatureImage,
+        termsVersion: terms.version,
+      });
+      if (response.data) {
+        onSuccess(response.data);
+      }
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50 flex items-center justify-center">
+      <div
+        className="fixed inset-0 bg-black opacity-30"
+        onClick={onClose}
+      ></div>
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg max-w-lg w-full p-6 shadow-xl">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+          {titles[kind]}
+        </h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-md max-h-48 overflow-y-auto">
+              {terms ? (
+                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                  {terms.body}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Loading terms...
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Customer name *
+              </label>
+              <input
+                type="text"
+                required
+                maxLength={255}
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <SignaturePad onChange={setSignatureImage} />
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              By signing, the customer agrees to the terms above.
+            </p>
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={
+                isSaving || !terms || !signatureImage || !signerName.trim()
+              }
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Signature"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+
+interface SignaturePadProps {
+  // Called with a PNG data URL after each stroke, or null once cleared
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+}
+
+export default function SignaturePad({
+  onChange,
+  height = 160,
+}: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const hasInk = useRef(false);
+
+  // Size the drawing buffer to the element so strokes line up with the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#111827";
+    }
+  }, [height]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext("2d");
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawing.current = true;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    // Draw a dot so a tap still leaves a mark
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const context = e.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+    hasInk.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    if (hasInk.current) {
+      onChange(e.currentTarget.toDataURL("image/png"));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        style={{ height, touchAction: "none" }}
+        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature pad"
+      />
+      <div className="mt-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>Sign above</span>
+        <button
+          type="button"
+          onClick={handleClear}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,567 @@
+"use client";
+
+import {
+  getIntegration,
+  saveIntegration,
+  testIntegration,
+  deleteIntegration,
+  SaveSmsIntegrationData,
+  IntegrationConfig,
+} from "@/lib/api/integration.api";
+import React, { useEffect, useState } from "react";
+
+const SMS_PROVIDERS = [
+  { id: "twilio", name: "Twilio", description: "Pay-as-you-go text messaging" },
+  {
+    id: "log",
+    name: "Log only",
+    description: "Writes texts to the server log instead of sending them",
+  },
+];
+
+const emptyFormData: SaveSmsIntegrationData = {
+  provider: "twilio",
+  enabled: true,
+  credentials: {
+    accountSid: "",
+    authToken: "",
+  },
+  settings: {
+    fromNumber: "",
+    ticketStatusUpdates: true,
+  },
+};
+
+export default function SmsIntegrationForm() {
+  const [formData, setFormData] =
+    useState<SaveSmsIntegrationData>(emptyFormData);
+
+  const [integration, setIntegration] = useState<IntegrationConfig | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+  const [testResult, setTestResult] = useState<{
+    success: boolean;
+    message: string;
+  } | null>(null);
+
+  const isTwilio = formData.provider === "twilio";
+
+  // Fetch existing integration config
+  useEffect(() => {
+    const fetchIntegration = async () => {
+      setIsLoading(true);
+      try {
+        const response = await getIntegration("sms");
+        if (response && response.data) {
+          setIntegration(response.data);
+          // Pre-fill form with existing config (credentials are masked, so user needs to re-enter)
+          setFormData({
+            provider: response.data.provider,
+            enabled: response.data.enabled,
+            credentials: {
+              accountSid: "", // Always empty - user must re-enter for security
+              authToken: "",
+            },
+            settings: {
+              fromNumber: (response.data.settings?.fromNumber as string) || "",
+              ticketStatusUpdates:
+                response.data.settings?.ticketStatusUpdates !== false,
+            },
+          });
+        }
+        // If response is null, integration is not configured yet - that's fine, form stays empty
+      } catch (err) {
+        console.error("Error fetching integration:", err);
+        setSubmitError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load integration configuration."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchIntegration();
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+
+    if (name.startsWith("settings.")) {
+      const settingKey = name.replace("settings.", "");
+      setFormData((prev) => ({
+        ...prev,
+        settings: {
+          ...prev.settings,
+          [settingKey]: value,
+        },
+      }));
+    } else if (name === "accountSid" || name === "authToken") {
+      setFormData((prev) => ({
+        ...prev,
+        credentials: {
+          ...prev.credentials,
+          [name]: value,
+        },
+      }));
+    } else {
+      setFormData((prev) => ({
+        ...prev,
+        [name]: value,
+      }));
+    }
+
+    // Clear errors when field changes
+    if (errors[name]) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (isTwilio) {
+      if (!formData.credentials.accountSid?.trim()) {
+        newErrors.accountSid = "Account SID is required";
+      }
+
+      if (!formData.credentials.authToken?.trim()) {
+        newErrors.authToken = "Auth token is required";
+      }
+
+      if (!formData.settings?.fromNumber?.trim()) {
+        newErrors["settings.fromNumber"] = "From number is required";
+      } else if (!/^\+[1-9]\d{7,14}$/.test(formData.settings.fromNumber.trim())) {
+        newErrors["settings.fromNumber"] =
+          "Enter the number in international format, e.g. +15551234567";
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // The log provider has no account, so don't send empty Twilio fields
+  const buildSaveData = (): SaveSmsIntegrationData =>
+    isTwilio
+      ? {
+          ...formData,
+          settings: {
+            ...formData.settings,
+            fromNumber: formData.settings?.fromNumber?.trim(),
+          },
+        }
+      : {
+          provider: formData.provider,
+          enabled: formData.enabled,
+          credentials: {},
+          settings: {
+            ticketStatusUpdates: formData.settings?.ticketStatusUpdates,
+          },
+        };
+
+  const handleTest = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsTesting(true);
+    setTestResult(null);
+    setSubmitError("");
+
+    try {
+      // Save first (test requires saved config)
+      await saveIntegration("sms", buildSaveData());
+      // Then test
+      await testIntegration("sms");
+      setTestResult({
+        success: true,
+        message: "Connection test successful!",
+      });
+      // Refresh integration data
+      const response = await getIntegration("sms");
+      if (response && response.data) {
+        setIntegration(response.data);
+      }
+    } catch (err) {
+      setTestResult({
+        success: false,
+        message:
+          err instanceof Error
+            ? err.message
+            : "Connection test failed. Please check your credentials.",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError("");
+    setTestResult(null);
+
+    try {
+      await saveIntegration("sms", buildSaveData());
+      // Re-fetch so the inbound webhook URL is shown after the first save
+      const response = await getIntegration("sms");
+      if (response && response.data) {
+        setIntegration(response.data);
+      }
+      setTestResult({
+        success: true,
+        message: "Integration saved successfully!",
+      });
+    } catch (err) {
+      setSubmitError(
+        err instanceof Error
+          ? err.message
+          : "Failed to save integration. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        "Are you sure you want to delete this integration? This will stop all text notifications."
+      )
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError("");
+
+    try {
+      await deleteIntegration("sms");
+      setIntegration(null);
+      setFormData(emptyFormData);
+      setTestResult({
+        success: true,
+        message: "Integration deleted successfully.",
+      });
+    } catch (err) {
+      setSubmitError(
+        err instanceof Error
+          ? err.message
+          : "Failed to delete integration. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          SMS Integration Configuration
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Configure a text messaging provider to notify customers about their
+          repairs. Only customers who agreed to receive texts are messaged, and
+          anyone can reply STOP to opt out.
+        </p>
+      </div>
+
+      {integration && (
+        <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
+                Status:{" "}
+                <span
+                  className={
+                    integration.enabled
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-gray-600 dark:text-gray-400"
+                  }
+                >
+                  {integration.enabled ? "Enabled" : "Disabled"}
+                </span>
+              </p>
+              {integration.lastTested && (
+                <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                  Last tested:{" "}
+                  {new Date(integration.lastTested).toLocaleString()}
+                </p>
+              )}
+              {integration.lastError && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                  Last error: {integration.lastError}
+                </p>
+              )}
+            </div>
+          </div>
+          {integration.inboundUrl && (
+            <div className="mt-3">
+              <p className="text-xs font-medium text-blue-900 dark:text-blue-100">
+                Incoming message webhook
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1 break-all font-mono">
+                {integration.inboundUrl}
+              </p>
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                Set this as the &quot;A message comes in&quot; webhook (HTTP
+                POST) on your Twilio number so STOP and START replies are
+                recorded.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label
+            htmlFor="provider"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            SMS Provider
+          </label>
+          <select
+            id="provider"
+            name="provider"
+            value={formData.provider}
+            onChange={handleChange}
+            className="block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            disabled={!!integration} // Can't change provider after initial setup
+          >
+            {SMS_PROVIDERS.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name} - {provider.description}
+              </option>
+            ))}
+          </select>
+          {integration && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Provider cannot be changed after initial setup. Delete and recreate
+              to change provider.
+            </p>
+          )}
+        </div>
+
+        {isTwilio && (
+          <>
+            <div>
+              <label
+                htmlFor="accountSid"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Account SID
+              </label>
+              <input
+                type="text"
+                id="accountSid"
+                name="accountSid"
+                value={formData.credentials.accountSid || ""}
+                onChange={handleChange}
+                placeholder={
+                  integration
+                    ? "Re-enter your Account SID to update"
+                    : "ACxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+                }
+                className={`block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                  errors.accountSid ? "border-red-500" : ""
+                }`}
+              />
+              {errors.accountSid && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {errors.accountSid}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label
+                htmlFor="authToken"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Auth Token
+              </label>
+              <input
+                type="password"
+                id="authToken"
+                name="authToken"
+                value={formData.credentials.authToken || ""}
+                onChange={handleChange}
+                placeholder={
+                  integration
+                    ? "Re-enter your auth token to update"
+                    : "Enter your Twilio auth token"
+                }
+                className={`block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                  errors.authToken ? "border-red-500" : ""
+                }`}
+              />
+              {errors.authToken && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {errors.authToken}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Your credentials are encrypted and stored securely. The auth
+                token is also used to verify incoming messages.
+              </p>
+            </div>
+
+            <div>
+              <label
+                htmlFor="settings.fromNumber"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                From Number
+              </label>
+              <input
+                type="tel"
+                id="settings.fromNumber"
+                name="settings.fromNumber"
+                value={formData.settings?.fromNumber || ""}
+                onChange={handleChange}
+                placeholder="+15551234567"
+                className={`block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                  errors["settings.fromNumber"] ? "border-red-500" : ""
+                }`}
+              />
+              {errors["settings.fromNumber"] && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                  {errors["settings.fromNumber"]}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                The Twilio phone number texts are sent from.
+              </p>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center">
+          <input
+            id="settings.ticketStatusUpdates"
+            name="settings.ticketStatusUpdates"
+            type="checkbox"
+            checked={formData.settings?.ticketStatusUpdates !== false}
+            onChange={(e) =>
+              setFormData((prev) => ({
+                ...prev,
+                settings: {
+                  ...prev.settings,
+                  ticketStatusUpdates: e.target.checked,
+                },
+              }))
+            }
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <label
+            htmlFor="settings.ticketStatusUpdates"
+            className="ml-2 block text-sm text-gray-900 dark:text-gray-100"
+          >
+            Text customers when their ticket status changes
+          </label>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            id="enabled"
+            name="enabled"
+            type="checkbox"
+            checked={formData.enabled}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, enabled: e.target.checked }))
+            }
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <label
+            htmlFor="enabled"
+            className="ml-2 block text-sm text-gray-900 dark:text-gray-100"
+          >
+            Enable text notifications
+          </label>
+        </div>
+
+        {testResult && (
+          <div
+            className={`p-4 rounded-lg ${
+              testResult.success
+                ? "bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800"
+                : "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
+            }`}
+          >
+            <p
+              className={`text-sm ${
+                testResult.success
+                  ? "text-green-800 dark:text-green-200"
+                  : "text-red-800 dark:text-red-200"
+              }`}
+            >
+              {testResult.message}
+            </p>
+          </div>
+        )}
+
+        {submitError && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-800 dark:text-red-200">
+              {submitError}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Saving..." : "Save Configuration"}
+          </button>
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={isTesting || isSubmitting}
+            className="flex-1 bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isTesting ? "Testing..." : "Test Connection"}
+          </button>
+          {integration && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
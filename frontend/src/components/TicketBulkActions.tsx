@@ -0,0 +1,302 @@
+"use client";
+
+import { getErrorMessage, getTechnicians, Technician } from "@/lib/api";
+import { getLocations, Location } from "@/lib/api/location.api";
+import {
+  BulkTicketAction,
+  BulkTicketData,
+  BulkTicketSummary,
+  bulkUpdateTickets,
+  exportTickets,
+  getBulkTicketLabels,
+  LabelDpi,
+  LabelFormat,
+  LabelSize,
+} from "@/lib/api/ticket.api";
+import { WorkflowStatus } from "@/lib/api/workflow.api";
+import { useUser } from "@/lib/UserContext";
+import { downloadBlob, openPdfBlob } from "@/lib/utils/fileUtils";
+import { LABEL_SETTINGS_KEY } from "@/components/TicketPrintMenu";
+import { useEffect, useState } from "react";
+
+interface TicketBulkActionsProps {
+  ticketIds: string[];
+  statuses: WorkflowStatus[];
+  onComplete: (summary: BulkTicketSummary) => void;
+  onClear: () => void;
+}
+
+// Who can take each action - the same roles as changing one ticket at a time
+const actionRoles: Record<BulkTicketAction, string[]> = {
+  assign: ["admin", "manager"],
+  status: ["admin", "technician", "manager", "frontdesk"],
+  priority: ["admin", "technician"],
+  location: ["admin", "technician"],
+};
+
+const actionLabels: Record<BulkTicketAction, string> = {
+  assign: "Assign technician",
+  status: "Change status",
+  priority: "Change priority",
+  location: "Move to location",
+};
+
+const selectClassName =
+  "rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 py-1.5 pl-3 pr-8 text-sm focus:border-blue-500 focus:outline-none focus:ring-blue-500";
+
+const secondaryButtonClassName =
+  "inline-flex items-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50";
+
+export default function TicketBulkActions({
+  ticketIds,
+  statuses,
+  onComplete,
+  onClear,
+}: TicketBulkActionsProps) {
+  const { user } = useUser();
+  const [action, setAction] = useState<BulkTicketAction | "">("");
+  const [value, setValue] = useState("");
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  const role = user?.role || "";
+  const availableActions = (Object.keys(actionRoles) as BulkTicketAction[]).filter(
+    (key) => role === "superuser" || actionRoles[key].includes(role)
+  );
+
+  useEffect(() => {
+    if (action === "assign" && technicians.length === 0) {
+      getTechnicians()
+        .then((response) => setTechnicians(response.data ?? []))
+        .catch((err) => console.error("Error fetching technicians:", err));
+    }
+    if (action === "location" && locations.length === 0) {
+      getLocations()
+        .then((response) =>
+          setLocations((response.data ?? []).filter((location) => location.is_active))
+        )
+        .catch((err) => console.error("Error fetching locations:", err));
+    }
+  }, [action, technicians.length, locations.length]);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setError("");
+    try {
+      await task();
+    } catch (err) {
+      console.error("Error running bulk ticket action:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const apply = () =>
+    run(async () => {
+      if (!action) return;
+      const data: BulkTicketData = { action, ticketIds };
+      if (action === "assign") data.technicianId = value || null;
+      if (action === "status") {
+        data.status = value;
+        data.notifyCustomer = notifyCustomer;
+      }
+      if (action === "priority") data.priority = value as BulkTicketData["priority"];
+      if (action === "location") data.locationId = value;
+
+      const response = await bulkUpdateTickets(data);
+      if (response.data) {
+        setAction("");
+        setValue("");
+        onComplete(response.data);
+      }
+    });
+
+  const printLabels = (format: LabelFormat) =>
+    run(async () => {
+      // Use the label stock and resolution last picked on a ticket's print menu
+      let size: LabelSize = "2.25x1.25";
+      let dpi: LabelDpi = 203;
+      try {
+        const saved = JSON.parse(localStorage.getItem(LABEL_SETTINGS_KEY) || "null");
+        if (saved?.size) size = saved.size;
+        if (saved?.dpi) dpi = saved.dpi;
+      } catch {
+        // Ignore unreadable settings and keep the defaults
+      }
+
+      const blob = await getBulkTicketLabels(ticketIds, format, size, dpi);
+      const fileName = `labels-${ticketIds.length}.${format}`;
+      if (format === "pdf") {
+        openPdfBlob(blob, fileName);
+      } else {
+        downloadBlob(blob, fileName);
+      }
+    });
+
+  const exportCsv = () =>
+    run(async () => {
+      const blob = await exportTickets(ticketIds);
+      downloadBlob(blob, `tickets-${new Date().toISOString().slice(0, 10)}.csv`);
+    });
+
+  // Unassigning is a valid choice, every other action needs a value
+  const canApply = !!action && (action === "assign" || !!value) && !isWorking;
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 mb-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-blue-900 dark:text-blue-200">
+          {ticketIds.length} selected
+        </span>
+
+        {availableActions.length > 0 && (
+          <>
+            <select
+              value={action}
+              onChange={(e) => {
+                setAction(e.target.value as BulkTicketAction | "");
+                setValue("");
+              }}
+              className={selectClassName}
+              aria-label="Bulk action"
+            >
+              <option value="">Choose an action...</option>
+              {availableActions.map((key) => (
+                <option key={key} value={key}>
+                  {actionLabels[key]}
+                </option>
+              ))}
+            </select>
+
+            {action === "assign" && (
+              <select
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className={selectClassName}
+                aria-label="Technician"
+              >
+                <option value="">Unassigned</option>
+                {technicians.map((technician) => (
+                  <option key={technician.id} value={technician.id}>
+                    {technician.firstName} {technician.lastName}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {action === "status" && (
+              <>
+                <select
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className={selectClassName}
+                  aria-label="Status"
+                >
+                  <option value="">Select a status...</option>
+                  {statuses.map((status) => (
+                    <option key={status.key} value={status.key}>
+                      {status.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={notifyCustomer}
+                    onChange={(e) => setNotifyCustomer(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">Email customers</span>
+                </label>
+              </>
+            )}
+
+            {action === "priority" && (
+              <select
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className={selectClassName}
+                aria-label="Priority"
+              >
+                <option value="">Select a priority...</option>
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+                <option value="urgent">Urgent</option>
+              </select>
+            )}
+
+            {action === "location" && (
+              <select
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className={selectClassName}
+                aria-label="Location"
+              >
+                <option value="">Select a location...</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {action && (
+              <button
+                type="button"
+                onClick={apply}
+                disabled={!canApply}
+                className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? "Applying..." : "Apply"}
+              </button>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <button
+            type="button"
+            onClick={() => printLabels("pdf")}
+            disabled={isWorking}
+            className={secondaryButtonClassName}
+          >
+            Print Labels
+          </button>
+          <button
+            type="button"
+            onClick={() => printLabels("zpl")}
+            disabled={isWorking}
+            className={secondaryButtonClassName}
+          >
+            Download ZPL
+          </button>
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={isWorking}
+            className={secondaryButtonClassName}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="px-2 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  createTicketComment,
+  deleteTicketComment,
+  getTicketCommentHistory,
+  getTicketComments,
+  TicketComment,
+  TicketCommentRevision,
+  TicketCommentVisibility,
+  updateTicketComment,
+} from "@/lib/api/ticket.api";
+import { useUser } from "@/lib/UserContext";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface TicketCommentsProps {
+  ticketId: string;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const authorName = (comment: TicketComment) =>
+  comment.author
+    ? `${comment.author.firstName} ${comment.author.lastName}`
+    : "Former user";
+
+function VisibilityBadge({
+  visibility,
+}: {
+  visibility: TicketCommentVisibility;
+}) {
+  return visibility === "customer" ? (
+    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+      Shared with customer
+    </span>
+  ) : (
+    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+      Internal
+    </span>
+  );
+}
+
+interface CommentFormProps {
+  initialBody?: string;
+  initialVisibility?: TicketCommentVisibility;
+  // Replies to internal comments can't be shared with the customer
+  allowCustomerVisibility?: boolean;
+  showNotify?: boolean;
+  submitLabel: string;
+  onSubmit: (
+    body: string,
+    visibility: TicketCommentVisibility,
+    notifyCustomer: boolean
+  ) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function CommentForm({
+  initialBody = "",
+  initialVisibility = "internal",
+  allowCustomerVisibility = true,
+  showNotify = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) {
+  const [body, setBody] = useState(initialBody);
+  const [visibility, setVisibility] =
+    useState<TicketCommentVisibility>(initialVisibility);
+  const [notifyCustomer, setNotifyCustomer] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(body, visibility, notifyCustomer);
+      setBody("");
+      setNotifyCustomer(false);
+    } catch {
+      // Keep the draft so the user can retry; the error is shown by the parent
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        rows={3}
+        className="block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 dark:placeholder-gray-500 shadow-sm focus:border-blue-500 dark:focus:border-blue-500 focus:ring-blue-500 dark:focus:ring-blue-500 sm:text-sm"
+        placeholder="Write a comment..."
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      ></textarea>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-4">
+          <select
+            value={visibility}
+            onChange={(e) =>
+              setVisibility(e.target.value as TicketCommentVisibility)
+            }
+            disabled={!allowCustomerVisibility}
+            className="block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            <option value="internal">Internal only</option>
+            {allowCustomerVisibility && (
+              <option value="customer">Visible to customer</option>
+            )}
+          </select>
+          {showNotify && visibility === "customer" && (
+            <label className="inline-flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={notifyCustomer}
+                onChange={(e) => setNotifyCustomer(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2">Email customer now</span>
+            </label>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting || !body.trim()}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default function TicketComments({ ticketId }: TicketCommentsProps) {
+  const { user, hasPermission } = useUser();
+  const [threads, setThreads] = useState<TicketComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<TicketCommentRevision[]>([]);
+
+  const canComment = hasPermission("tickets.read");
+  // Mirrors the backend: admins and managers can edit anyone's comments
+  const canModerate = ["admin", "manager", "superuser"].includes(
+    user?.role || ""
+  );
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getTicketComments(ticketId);
+      if (response.data) {
+        setThreads(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching ticket comments:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const handleCreate =
+    (parentId?: string) =>
+    async (
+      body: string,
+      visibility: TicketCommentVisibility,
+      notifyCustomer: boolean
+    ) => {
+      try {
+        setError("");
+        await createTicketComment(ticketId, {
+          body,
+          visibility,
+          parentId,
+          notifyCustomer,
+        });
+        setReplyingTo(null);
+        await fetchComments();
+      } catch (err) {
+        setError(getErrorMessage(err));
+        throw err;
+      }
+    };
+
+  const handleEdit =
+    (commentId: string) =>
+    async (body: string, visibility: TicketCommentVisibility) => {
+      try {
+        setError("");
+        await updateTicketComment(ticketId, commentId, { body, visibility });
+        setEditingId(null);
+        await fetchComments();
+      } catch (err) {
+        setError(getErrorMessage(err));
+        throw err;
+      }
+    };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm("Are you sure you want to delete this comment?")) return;
+    try {
+      setError("");
+      await deleteTicketComment(ticketId, commentId);
+      await fetchComments();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const toggleHistory = async (commentId: string) => {
+    if (historyFor === commentId) {
+      setHistoryFor(null);
+      return;
+    }
+    try {
+      const response = await getTicketCommentHistory(ticketId, commentId);
+      setHistory(response.data || []);
+      setHistoryFor(commentId);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const renderComment = (
+    comment: TicketComment,
+    parent: TicketComment | null
+  ) => {
+    const canChange = canModerate || comment.authorId === user?.id;
+    return (
+      <div className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {authorName(comment)}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {formatDateTime(comment.createdAt)}
+          </span>
+          <VisibilityBadge visibility={comment.visibility} />
+          {comment.editedAt && (
+            <button
+              type="button"
+              onClick={() => toggleHistory(comment.id)}
+              className="text-xs text-gray-500 dark:text-gray-400 underline hover:text-gray-700 dark:hover:text-gray-200"
+            >
+              (edited)
+            </button>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="mt-2">
+            <CommentForm
+              initialBody={comment.body}
+              initialVisibility={comment.visibility}
+              allowCustomerVisibility={
+                !parent || parent.visibility === "customer"
+              }
+              submitLabel="Save"
+              onSubmit={handleEdit(comment.id)}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
+            {comment.body}
+          </p>
+        )}
+
+        {historyFor === comment.id && (
+          <ul className="mt-2 space-y-2 border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+            {history.map((revision) => (
+              <li key={revision.id}>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Before edit on {formatDateTime(revision.createdAt)}
+                  {revision.editor &&
+                    ` by ${revision.editor.firstName} ${revision.editor.lastName}`}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap line-through">
+                  {revision.body}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canComment && editingId !== comment.id && (
+          <div className="mt-2 flex gap-3 text-xs">
+            {!parent && (
+              <button
+                type="button"
+                onClick={() => setReplyingTo(comment.id)}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Reply
+              </button>
+            )}
+            {canChange && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(comment.id)}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(comment.id)}
+                  className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading comments...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {threads.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No comments yet
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {threads.map((thread) => (
+            <li key={thread.id}>
+              {renderComment(thread, null)}
+              {((thread.replies && thread.replies.length > 0) ||
+                replyingTo === thread.id) && (
+                <ul className="mt-2 ml-6 space-y-2">
+                  {thread.replies?.map((reply) => (
+                    <li key={reply.id}>{renderComment(reply, thread)}</li>
+                  ))}
+                  {replyingTo === thread.id && (
+                    <li>
+                      <CommentForm
+                        initialVisibility={thread.visibility}
+                        allowCustomerVisibility={
+                          thread.visibility === "customer"
+                        }
+                        showNotify
+                        submitLabel="Reply"
+                        onSubmit={handleCreate(thread.id)}
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <CommentForm
+          showNotify
+          submitLabel="Add Comment"
+          onSubmit={handleCreate()}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,605 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  convertEstimateToInvoice,
+  createEstimate,
+  deleteEstimate,
+  Estimate,
+  EstimateItemData,
+  EstimateItemType,
+  EstimateStatus,
+  getEstimatesByTicket,
+  sendEstimate,
+  updateEstimate,
+  withdrawEstimate,
+} from "@/lib/api/estimate.api";
+import { useUser } from "@/lib/UserContext";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface TicketEstimatesProps {
+  ticketId: string;
+  // Called after actions that move the ticket in or out of Awaiting Approval
+  onTicketChange?: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(
+    Number(amount)
+  );
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const statusBadges: Record<EstimateStatus, { label: string; className: string }> =
+  {
+    draft: {
+      label: "Draft",
+      className:
+        "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+    },
+    sent: {
+      label: "Awaiting customer",
+      className:
+        "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300",
+    },
+    approved: {
+      label: "Approved",
+      className:
+        "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+    },
+    declined: {
+      label: "Declined",
+      className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+    },
+    withdrawn: {
+      label: "Withdrawn",
+      className:
+        "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+    },
+  };
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+const emptyLine = (type: EstimateItemType = "part"): EstimateItemData => ({
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  discountPercent: 0,
+  type,
+});
+
+interface EstimateFormProps {
+  estimate?: Estimate;
+  onSubmit: (
+    items: EstimateItemData[],
+    notes: string,
+    validUntil: string
+  ) => Promise<void>;
+  onCancel: () => void;
+}
+
+function EstimateForm({ estimate, onSubmit, onCancel }: EstimateFormProps) {
+  const [items, setItems] = useState<EstimateItemData[]>(
+    estimate
+      ? estimate.items.map((item) => ({
+          inventoryItemId: item.inventoryItemId,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: Number(item.unitPrice),
+          discountPercent: Number(item.discountPercent),
+          type: item.type,
+        }))
+      : [emptyLine("part"), emptyLine("service")]
+  );
+  const [notes, setNotes] = useState(estimate?.notes || "");
+  const [validUntil, setValidUntil] = useState(
+    estimate?.validUntil ? estimate.validUntil.slice(0, 10) : ""
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateLine = (index: number, changes: Partial<EstimateItemData>) => {
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const lines = items.filter((item) => item.description.trim());
+  const total = lines.reduce(
+    (sum, item) =>
+      sum +
+      item.quantity * item.unitPrice * (1 - (item.discountPercent || 0) / 100),
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length === 0) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(lines, notes, validUntil);
+    } catch {
+      // Keep the form open so the user can fix it; the error is shown by the parent
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md"
+    >
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+            <th className="pb-1 pr-2">Description</th>
+            <th className="pb-1 pr-2 w-28">Type</th>
+            <th className="pb-1 pr-2 w-20">Qty</th>
+            <th className="pb-1 pr-2 w-28">Unit price</th>
+            <th className="pb-1 pr-2 w-20">Disc %</th>
+            <th className="pb-1 w-8"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2">
+                <input
+                  type="text"
+                  value={item.description}
+                  onChange={(e) =>
+                    updateLine(index, { description: e.target.value })
+                  }
+                  placeholder={item.type === "service" ? "Labor" : "Part"}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <select
+                  value={item.type}
+                  onChange={(e) =>
+                    updateLine(index, {
+                      type: e.target.value as EstimateItemType,
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="part">Part</option>
+                  <option value="service">Labor</option>
+                  <option value="other">Other</option>
+                </select>
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={item.quantity}
+                  onChange={(e) =>
+                    updateLine(index, {
+                      quantity: parseInt(e.target.value) || 1,
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unitPrice}
+                  onChange={(e) =>
+                    updateLine(index, {
+                      unitPrice: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={item.discountPercent || 0}
+                  onChange={(e) =>
+                    updateLine(index, {
+                      discountPercent: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className={inputClassName}
+                />
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setItems((current) => current.filter((_, i) => i !== index))
+                  }
+                  className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  aria-label="Remove line"
+                >
+                  &times;
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => setItems((current) => [...current, emptyLine("part")])}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          + Add part
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            setItems((current) => [...current, emptyLine("service")])
+          }
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          + Add labor
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div className="sm:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+            Notes for the customer
+          </label>
+          <textarea
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          ></textarea>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+            Valid until
+          </label>
+          <input
+            type="date"
+            value={validUntil}
+            onChange={(e) => setValidUntil(e.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-gray-700 dark:text-gray-300">
+          Before tax: {formatCurrency(total)}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || lines.length === 0}
+            className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Save Draft"}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default function TicketEstimates({
+  ticketId,
+  onTicketChange,
+}: TicketEstimatesProps) {
+  const { user } = useUser();
+  const [estimates, setEstimates] = useState<Estimate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  // "new" while creating, otherwise the id of the draft being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Mirrors the backend route guards
+  const role = user?.role || "";
+  const canEdit = ["admin", "manager", "technician", "superuser"].includes(
+    role
+  );
+  const canConvert = ["admin", "manager", "superuser"].includes(role);
+
+  const fetchEstimates = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getEstimatesByTicket(ticketId);
+      if (response.data) {
+        setEstimates(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching estimates:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    if (canEdit) {
+      fetchEstimates();
+    } else {
+      setIsLoading(false);
+    }
+  }, [canEdit, fetchEstimates]);
+
+  const handleSave =
+    (estimateId?: string) =>
+    async (items: EstimateItemData[], notes: string, validUntil: string) => {
+      const data = {
+        items,
+        notes: notes.trim() || null,
+        validUntil: validUntil ? new Date(validUntil).toISOString() : null,
+      };
+      try {
+        setError("");
+        if (estimateId) {
+          await updateEstimate(estimateId, data);
+        } else {
+          await createEstimate(ticketId, data);
+        }
+        setEditing(null);
+        await fetchEstimates();
+      } catch (err) {
+        setError(getErrorMessage(err));
+        throw err;
+      }
+    };
+
+  const runAction = async (
+    estimateId: string,
+    action: (id: string) => Promise<unknown>,
+    changesTicket: boolean
+  ) => {
+    setBusyId(estimateId);
+    try {
+      setError("");
+      await action(estimateId);
+      await fetchEstimates();
+      if (changesTicket) {
+        onTicketChange?.();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSend = (estimate: Estimate) => {
+    if (
+      !confirm(
+        `Email estimate ${estimate.estimateNumber} to the customer for approval? The ticket will wait in Awaiting Approval until they respond.`
+      )
+    )
+      return;
+    runAction(estimate.id, sendEstimate, true);
+  };
+
+  const handleWithdraw = (estimate: Estimate) => {
+    if (
+      !confirm(
+        `Withdraw estimate ${estimate.estimateNumber}? The customer will no longer be able to respond to it.`
+      )
+    )
+      return;
+    runAction(estimate.id, withdrawEstimate, true);
+  };
+
+  const handleDelete = (estimate: Estimate) => {
+    if (!confirm("Are you sure you want to delete this draft estimate?")) return;
+    runAction(estimate.id, deleteEstimate, false);
+  };
+
+  if (!canEdit) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading estimates...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {estimates.length === 0 && editing !== "new" && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No estimates yet
+        </p>
+      )}
+
+      <ul className="space-y-4">
+        {estimates.map((estimate) => {
+          const badge = statusBadges[estimate.status];
+          const isBusy = busyId === estimate.id;
+
+          if (editing === estimate.id) {
+            return (
+              <li key={estimate.id}>
+                <EstimateForm
+                  estimate={estimate}
+                  onSubmit={handleSave(estimate.id)}
+                  onCancel={() => setEditing(null)}
+                />
+              </li>
+            );
+          }
+
+          return (
+            <li
+              key={estimate.id}
+              className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {estimate.estimateNumber}
+                  </span>
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${badge.className}`}
+                  >
+                    {badge.label}
+                  </span>
+                </div>
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {formatCurrency(estimate.totalAmount)}
+                </span>
+              </div>
+
+              <table className="mt-2 min-w-full text-sm">
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                  {estimate.items.map((item) => (
+                    <tr key={item.id}>
+                      <td className="py-1 text-gray-700 dark:text-gray-300">
+                        {item.description}
+                        {item.quantity !== 1 && (
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {" "}
+                            x {item.quantity}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 text-right text-gray-700 dark:text-gray-300">
+                        {formatCurrency(item.subtotal)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                {estimate.sentAt && <p>Sent {formatDate(estimate.sentAt)}</p>}
+                {estimate.validUntil && estimate.status === "sent" && (
+                  <p>Valid until {formatDate(estimate.validUntil)}</p>
+                )}
+                {estimate.status === "approved" && estimate.respondedAt && (
+                  <p>
+                    Approved by {estimate.approvedByName} on{" "}
+                    {formatDate(estimate.respondedAt)}
+                  </p>
+                )}
+                {estimate.status === "declined" && estimate.respondedAt && (
+                  <p>
+                    Declined on {formatDate(estimate.respondedAt)}
+                    {estimate.declineReason && `: ${estimate.declineReason}`}
+                  </p>
+                )}
+              </div>
+
+              <div className="mt-2 flex flex-wrap gap-3 text-xs">
+                {estimate.status === "draft" && (
+                  <>
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleSend(estimate)}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Send to customer
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => setEditing(estimate.id)}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => handleDelete(estimate)}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+                {estimate.status === "sent" && (
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => handleWithdraw(estimate)}
+                    className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    Withdraw
+                  </button>
+                )}
+                {estimate.status === "approved" &&
+                  (estimate.invoiceId ? (
+                    <Link
+                      href={`/invoices/${estimate.invoiceId}`}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      View invoice
+                    </Link>
+                  ) : (
+                    canConvert && (
+                      <button
+                        type="button"
+                        disabled={isBusy}
+                        onClick={() =>
+                          runAction(
+                            estimate.id,
+                            convertEstimateToInvoice,
+                            false
+                          )
+                        }
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                      >
+                        Create invoice
+                      </button>
+                    )
+                  ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {editing === "new" ? (
+        <EstimateForm
+          onSubmit={handleSave()}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setEditing("new")}
+          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+        >
+          New Estimate
+        </button>
+      )}
+    </div>
+  );
+}
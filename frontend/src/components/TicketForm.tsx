@@ -18,6 +18,9 @@ import {
   updateTicket,
 } from "@/lib/api/ticket.api";
 import { Asset, getAssetsByCustomer } from "@/lib/api/asset.api";
+import { WarrantyCoverage, getWarrantyCoverage } from "@/lib/api/warranty.api";
+import { ATTACHMENT_ACCEPT, uploadAttachments } from "@/lib/api/attachment.api";
+import AttachmentGallery from "@/components/AttachmentGallery";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import React, { useEffect, useState } from "react";
@@ -38,6 +41,7 @@ export default function TicketForm({
     CreateTicketData & { id?: string; status?: string }
   >({
     customerId: initialCustomerId || "",
+    ticketType: "repair",
     assetId: "",
     checklistTemplateId: "",
     technicianId: "",
@@ -56,6 +60,9 @@ export default function TicketForm({
     ChecklistTemplateSummary[]
   >([]);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
+  // The customer's repairs still under warranty, offered when opening a claim
+  const [coverage, setCoverage] = useState<WarrantyCoverage[]>([]);
+  const [isLoadingCoverage, setIsLoadingCoverage] = useState(false);
   const [isLoadingAssets, setIsLoadingAssets] = useState(false);
   const [customerSearchQuery, setCustomerSearchQuery] = useState("");
   const [showCustomerSearch, setShowCustomerSearch] = useState(
@@ -70,6 +77,8 @@ export default function TicketForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [submitError, setSubmitError] = useState("");
+  // Intake photos picked before the ticket exists; uploaded once it is created
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
 
   // Fetch ticket data if in edit mode
   useEffect(() => {
@@ -248,6 +257,45 @@ export default function TicketForm({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [formData.customerId]);
 
+  // Load the repairs a warranty claim can be opened against
+  useEffect(() => {
+    if (formData.ticketType !== "warranty_claim" || !formData.customerId) {
+      setCoverage([]);
+      return;
+    }
+
+    const fetchCoverage = async () => {
+      setIsLoadingCoverage(true);
+      try {
+        const response = await getWarrantyCoverage(formData.customerId);
+        if (response.data) {
+          setCoverage(response.data.filter((c) => c.isActive));
+        }
+      } catch (err) {
+        console.error("Error fetching warranty coverage:", err);
+        setCoverage([]);
+      } finally {
+        setIsLoadingCoverage(false);
+      }
+    };
+
+    fetchCoverage();
+  }, [formData.ticketType, formData.customerId]);
+
+  const handleTicketTypeChange = (ticketType: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      ticketType: ticketType as CreateTicketData["ticketType"],
+      // Only claims link back to an earlier repair
+      originalTicketId: undefined,
+    }));
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.originalTicketId;
+      return newErrors;
+    });
+  };
+
   // Handle asset selection
   const handleAssetChange = (assetId: string) => {
     if (!assetId) {
@@ -326,6 +374,7 @@ export default function TicketForm({
     setFormData((prev) => ({
       ...prev,
       customerId: customer.id,
+      originalTicketId: undefined,
     }));
     setShowCustomerSearch(false);
     setCustomers([]);
@@ -344,6 +393,14 @@ export default function TicketForm({
       newErrors.assetId = "Asset selection is required";
     }
 
+    if (
+      !isEditMode &&
+      formData.ticketType === "warranty_claim" &&
+      !formData.originalTicketId
+    ) {
+      newErrors.originalTicketId = "Select the repair being claimed against";
+    }
+
     if (!formData.issueDescription.trim()) {
       newErrors.issueDescription = "Issue description is required";
     }
@@ -406,6 +463,16 @@ export default function TicketForm({
       } else {
         // Create new ticket
         response = await createTicket(cleanFormData as CreateTicketData);
+
+        if (response.data && pendingFiles.length > 0) {
+          try {
+            await uploadAttachments("ticket", response.data.id, pendingFiles);
+          } catch (uploadErr) {
+            // The ticket exists at this point, so carry on to it; the files
+            // can be re-added from the ticket's gallery
+            console.error("Error uploading intake photos:", uploadErr);
+          }
+        }
       }
 
       if (response.data) {
@@ -669,6 +736,87 @@ export default function TicketForm({
                 )}
               </div>
 
+              {/* Ticket Type Section - warranty claims link back to the original repair */}
+              {!isEditMode && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+                    Ticket Type
+                  </h3>
+                  <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                    <div className="sm:col-span-2">
+                      <label
+                        htmlFor="ticketType"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                      >
+                        Type
+                      </label>
+                      <select
+                        id="ticketType"
+                        name="ticketType"
+                        value={formData.ticketType || "repair"}
+                        onChange={(e) => handleTicketTypeChange(e.target.value)}
+                        className="block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        <option value="repair">Repair</option>
+                        <option value="warranty_claim">Warranty claim</option>
+                      </select>
+                    </div>
+
+                    {formData.ticketType === "warranty_claim" && (
+                      <div className="sm:col-span-4">
+                        <label
+                          htmlFor="originalTicketId"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                        >
+                          Original Repair *
+                        </label>
+                        <select
+                          id="originalTicketId"
+                          name="originalTicketId"
+                          value={formData.originalTicketId || ""}
+                          onChange={handleChange}
+                          disabled={!formData.customerId || isLoadingCoverage}
+                          className={`block w-full rounded-md border dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600 px-3 py-2 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${
+                            errors.originalTicketId
+                              ? "border-red-300 dark:border-red-600"
+                              : "border-gray-300"
+                          }`}
+                        >
+                          <option value="">
+                            {!formData.customerId
+                              ? "Select a customer first"
+                              : isLoadingCoverage
+                              ? "Loading repairs..."
+                              : coverage.length === 0
+                              ? "No repairs under warranty"
+                              : "Select a repair"}
+                          </option>
+                          {coverage.map((repair) => (
+                            <option key={repair.ticketId} value={repair.ticketId}>
+                              {repair.ticketNumber} - {repair.deviceType}
+                              {repair.deviceBrand && ` ${repair.deviceBrand}`}
+                              {repair.deviceModel && ` ${repair.deviceModel}`}
+                              {` (until ${new Date(
+                                repair.warrantyExpiresAt
+                              ).toLocaleDateString()})`}
+                            </option>
+                          ))}
+                        </select>
+                        {errors.originalTicketId ? (
+                          <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                            {errors.originalTicketId}
+                          </p>
+                        ) : (
+                          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            Labor on a warranty claim is billed at no charge.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Checklist Template Selection */}
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
@@ -787,6 +935,61 @@ export default function TicketForm({
                 </div>
               </div>
 
+              {/* Attachments Section */}
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">
+                  Photos & Attachments
+                </h3>
+                {isEditMode && ticketId ? (
+                  <AttachmentGallery ownerType="ticket" ownerId={ticketId} />
+                ) : (
+                  <div>
+                    <label
+                      htmlFor="intakeFiles"
+                      className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Intake photos, damage evidence or signed waivers
+                    </label>
+                    <input
+                      id="intakeFiles"
+                      type="file"
+                      multiple
+                      accept={ATTACHMENT_ACCEPT}
+                      onChange={(e) =>
+                        setPendingFiles((previous) => [
+                          ...previous,
+                          ...Array.from(e.target.files || []),
+                        ])
+                      }
+                      className="mt-1 block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:rounded-md file:border-0 file:bg-blue-50 dark:file:bg-blue-900/30 file:py-2 file:px-4 file:text-sm file:font-medium file:text-blue-700 dark:file:text-blue-300 hover:file:bg-blue-100"
+                    />
+                    {pendingFiles.length > 0 && (
+                      <ul className="mt-3 space-y-1">
+                        {pendingFiles.map((file, index) => (
+                          <li
+                            key={`${file.name}-${index}`}
+                            className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300"
+                          >
+                            <span className="truncate">{file.name}</span>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setPendingFiles((previous) =>
+                                  previous.filter((_, i) => i !== index)
+                                )
+                              }
+                              className="ml-4 text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
                 <p className="text-sm text-gray-500 dark:text-gray-400">
                   Fields marked with * are required
@@ -798,6 +1001,7 @@ export default function TicketForm({
                       onClick={() => {
                         setFormData({
                           customerId: initialCustomerId || "",
+                          ticketType: "repair",
                           assetId: "",
                           technicianId: "",
                           deviceType: "",
@@ -809,6 +1013,7 @@ export default function TicketForm({
                         });
                         setAssets([]);
                         setSelectedAsset(null);
+                        setPendingFiles([]);
                         if (!initialCustomerId) {
                           setSelectedCustomer(null);
                           setShowCustomerSearch(true);
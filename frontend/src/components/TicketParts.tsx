@@ -0,0 +1,330 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import { InventoryItem, searchInventory } from "@/lib/api/inventory.api";
+import {
+  getTicketParts,
+  PartReservation,
+  releasePartReservation,
+  reservePart,
+  updatePartReservation,
+} from "@/lib/api/part-reservation.api";
+import { useUser } from "@/lib/UserContext";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface TicketPartsProps {
+  ticketId: string;
+  // Parts are reserved from the ticket's location
+  locationId: string | null;
+}
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+const statusStyles: Record<PartReservation["status"], string> = {
+  reserved: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  consumed:
+    "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  released: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const statusLabels: Record<PartReservation["status"], string> = {
+  reserved: "Reserved",
+  consumed: "Invoiced",
+  released: "Released",
+};
+
+export default function TicketParts({ ticketId, locationId }: TicketPartsProps) {
+  const { user } = useUser();
+  const [reservations, setReservations] = useState<PartReservation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Part picker
+  const [searchQuery, setSearchQuery] = useState("");
+  const [results, setResults] = useState<InventoryItem[]>([]);
+  const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
+  const [quantity, setQuantity] = useState("1");
+
+  // Mirrors the backend route guards
+  const canReserve = ["admin", "manager", "technician", "superuser"].includes(
+    user?.role || ""
+  );
+
+  const fetchParts = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getTicketParts(ticketId);
+      if (response.data) {
+        setReservations(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching parts:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchParts();
+  }, [fetchParts]);
+
+  // Debounced search for inventory items
+  useEffect(() => {
+    if (!searchQuery.trim() || selectedItem) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await searchInventory(searchQuery);
+        setResults((response.data || []).slice(0, 8));
+      } catch (err) {
+        console.error("Error searching inventory:", err);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, selectedItem]);
+
+  const getAvailable = (item: InventoryItem) => {
+    if (!item.trackQuantity) return null;
+    const locationQty = item.locationQuantities?.find(
+      (lq) => lq.locationId === locationId
+    );
+    return locationQty?.availableQuantity ?? 0;
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      setError("");
+      await action();
+      await fetchParts();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReserve = (e: React.FormEvent) => {
+    e.preventDefault();
+    const units = parseInt(quantity) || 0;
+    if (!selectedItem) {
+      setError("Choose a part to reserve");
+      return;
+    }
+    if (units <= 0) {
+      setError("Quantity must be at least 1");
+      return;
+    }
+    runAction(async () => {
+      await reservePart(ticketId, {
+        inventoryItemId: selectedItem.id,
+        quantity: units,
+      });
+      setSelectedItem(null);
+      setSearchQuery("");
+      setQuantity("1");
+    });
+  };
+
+  // Re-saving the same quantity holds any stock that has arrived since
+  const handleRefill = (reservation: PartReservation) =>
+    runAction(() =>
+      updatePartReservation(ticketId, reservation.id, reservation.quantity)
+    );
+
+  const handleRelease = (reservation: PartReservation) => {
+    if (
+      !confirm(
+        `Release ${reservation.inventoryItem.name} back to available stock?`
+      )
+    )
+      return;
+    runAction(() => releasePartReservation(ticketId, reservation.id));
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading parts...
+      </p>
+    );
+  }
+
+  const shortages = reservations.filter(
+    (reservation) => reservation.shortageQuantity > 0
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {shortages.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3 text-sm text-red-800 dark:text-red-200">
+          Short on {shortages.length} part{shortages.length === 1 ? "" : "s"}:{" "}
+          {shortages
+            .map(
+              (reservation) =>
+                `${reservation.inventoryItem.name} (${reservation.shortageQuantity})`
+            )
+            .join(", ")}
+        </div>
+      )}
+
+      {canReserve && locationId && (
+        <form onSubmit={handleReserve} className="flex flex-wrap items-end gap-3">
+          <div className="relative flex-1 min-w-48">
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+              Part
+            </label>
+            <input
+              type="text"
+              placeholder="Search by name or SKU"
+              value={selectedItem ? `${selectedItem.sku} - ${selectedItem.name}` : searchQuery}
+              onChange={(e) => {
+                setSelectedItem(null);
+                setSearchQuery(e.target.value);
+              }}
+              className={`mt-1 ${inputClassName}`}
+            />
+            {results.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg">
+                {results.map((item) => {
+                  const available = getAvailable(item);
+                  return (
+                    <li key={item.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedItem(item)}
+                        className="w-full flex justify-between px-3 py-2 text-left text-sm text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        <span>
+                          {item.sku} - {item.name}
+                        </span>
+                        {available !== null && (
+                          <span
+                            className={`ml-2 text-xs ${
+                              available > 0
+                                ? "text-gray-500 dark:text-gray-400"
+                                : "text-red-600 dark:text-red-400"
+                            }`}
+                          >
+                            {available} available
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+          <div className="w-24">
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+              Quantity
+            </label>
+            <input
+              type="number"
+              min="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isBusy || !selectedItem}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+          >
+            Reserve
+          </button>
+        </form>
+      )}
+
+      {canReserve && !locationId && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Assign this ticket to a location to reserve parts for it.
+        </p>
+      )}
+
+      {reservations.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No parts reserved yet
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+              <th className="pb-1 pr-2">Part</th>
+              <th className="pb-1 pr-2">Needed</th>
+              <th className="pb-1 pr-2">Held</th>
+              <th className="pb-1 pr-2">Status</th>
+              <th className="pb-1 w-32"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {reservations.map((reservation) => (
+              <tr key={reservation.id}>
+                <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                  {reservation.inventoryItem.name}
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {reservation.inventoryItem.sku}
+                  </span>
+                </td>
+                <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                  {reservation.quantity}
+                </td>
+                <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                  {reservation.reservedQuantity}
+                  {reservation.shortageQuantity > 0 && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                      Short {reservation.shortageQuantity}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 pr-2">
+                  <span
+                    className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                      statusStyles[reservation.status]
+                    }`}
+                  >
+                    {statusLabels[reservation.status]}
+                  </span>
+                </td>
+                <td className="py-1 text-right space-x-3">
+                  {canReserve && reservation.shortageQuantity > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRefill(reservation)}
+                      disabled={isBusy}
+                      className="text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {canReserve && reservation.status === "reserved" && (
+                    <button
+                      type="button"
+                      onClick={() => handleRelease(reservation)}
+                      disabled={isBusy}
+                      className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      Release
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
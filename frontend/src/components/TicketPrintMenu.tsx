@@ -0,0 +1,174 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  getTicketLabel,
+  getTicketReceipt,
+  LabelDpi,
+  LabelFormat,
+  LabelSize,
+} from "@/lib/api/ticket.api";
+import { downloadBlob, openPdfBlob } from "@/lib/utils/fileUtils";
+import { PrinterIcon } from "@heroicons/react/24/outline";
+import { useEffect, useState } from "react";
+
+interface TicketPrintMenuProps {
+  ticketId: string;
+  ticketNumber: string;
+}
+
+const labelSizes: { value: LabelSize; label: string }[] = [
+  { value: "2x1", label: '2" x 1"' },
+  { value: "2.25x1.25", label: '2.25" x 1.25"' },
+  { value: "3x2", label: '3" x 2"' },
+];
+
+// Label stock and printer resolution belong to the workstation, so remember them per browser
+export const LABEL_SETTINGS_KEY = "ticketLabelSettings";
+
+export default function TicketPrintMenu({
+  ticketId,
+  ticketNumber,
+}: TicketPrintMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [labelSize, setLabelSize] = useState<LabelSize>("2.25x1.25");
+  const [labelDpi, setLabelDpi] = useState<LabelDpi>(203);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(
+        localStorage.getItem(LABEL_SETTINGS_KEY) || "null"
+      );
+      if (saved?.size) setLabelSize(saved.size);
+      if (saved?.dpi) setLabelDpi(saved.dpi);
+    } catch {
+      // Ignore unreadable settings and keep the defaults
+    }
+  }, []);
+
+  const saveLabelSettings = (size: LabelSize, dpi: LabelDpi) => {
+    setLabelSize(size);
+    setLabelDpi(dpi);
+    localStorage.setItem(LABEL_SETTINGS_KEY, JSON.stringify({ size, dpi }));
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError("");
+    try {
+      await action();
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Error generating ticket document:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const printReceipt = () =>
+    run(async () => {
+      const blob = await getTicketReceipt(ticketId);
+      openPdfBlob(blob, `receipt-${ticketNumber}.pdf`);
+    });
+
+  const printLabel = (format: LabelFormat) =>
+    run(async () => {
+      const blob = await getTicketLabel(ticketId, format, labelSize, labelDpi);
+      const fileName = `label-${ticketNumber}.${format}`;
+      if (format === "pdf") {
+        openPdfBlob(blob, fileName);
+      } else {
+        downloadBlob(blob, fileName);
+      }
+    });
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full inline-flex items-center justify-center rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+      >
+        <PrinterIcon className="h-4 w-4 mr-2" />
+        Print
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          ></div>
+          <div className="absolute right-0 z-20 mt-2 w-64 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black ring-opacity-5 p-3 space-y-3">
+            {error && (
+              <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              type="button"
+              onClick={printReceipt}
+              disabled={isWorking}
+              className="w-full text-left px-2 py-1.5 text-sm rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Intake Receipt
+            </button>
+
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-2">
+              <p className="px-2 text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+                Device Label
+              </p>
+              <div className="flex gap-2 px-2">
+                <select
+                  value={labelSize}
+                  onChange={(e) =>
+                    saveLabelSettings(e.target.value as LabelSize, labelDpi)
+                  }
+                  className="flex-1 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 text-xs"
+                  aria-label="Label size"
+                >
+                  {labelSizes.map((size) => (
+                    <option key={size.value} value={size.value}>
+                      {size.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={labelDpi}
+                  onChange={(e) =>
+                    saveLabelSettings(
+                      labelSize,
+                      Number(e.target.value) as LabelDpi
+                    )
+                  }
+                  className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 text-xs"
+                  aria-label="Printer resolution"
+                >
+                  <option value={203}>203 dpi</option>
+                  <option value={300}>300 dpi</option>
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={() => printLabel("pdf")}
+                disabled={isWorking}
+                className="w-full text-left px-2 py-1.5 text-sm rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Print Label (PDF)
+              </button>
+              <button
+                type="button"
+                onClick={() => printLabel("zpl")}
+                disabled={isWorking}
+                className="w-full text-left px-2 py-1.5 text-sm rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Download ZPL for Zebra
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
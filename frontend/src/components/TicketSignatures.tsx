@@ -0,0 +1,159 @@
+"use client";
+
+import SignatureCaptureModal from "@/components/SignatureCaptureModal";
+import { getErrorMessage } from "@/lib/api";
+import {
+  getTicketSignatures,
+  SignatureKind,
+  TicketSignature,
+} from "@/lib/api/signature.api";
+import { useCallback, useEffect, useState } from "react";
+
+interface TicketSignaturesProps {
+  ticketId: string;
+  customerName: string;
+  canCapture: boolean;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const kindLabels: Record<SignatureKind, string> = {
+  intake: "Drop-off",
+  pickup: "Pick-up",
+};
+
+export default function TicketSignatures({
+  ticketId,
+  customerName,
+  canCapture,
+}: TicketSignaturesProps) {
+  const [signatures, setSignatures] = useState<TicketSignature[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [capturing, setCapturing] = useState<SignatureKind | null>(null);
+  const [termsFor, setTermsFor] = useState<string | null>(null);
+
+  const fetchSignatures = useCallback(async () => {
+    try {
+      setError("");
+      const response = await getTicketSignatures(ticketId);
+      if (response.data) {
+        setSignatures(response.data);
+      }
+    } catch (err) {
+      console.error("Error fetching signatures:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchSignatures();
+  }, [fetchSignatures]);
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading signatures...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {(["intake", "pickup"] as SignatureKind[]).map((kind) => {
+          const signature = signatures.find((s) => s.kind === kind);
+          return (
+            <div
+              key={kind}
+              className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md"
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {kindLabels[kind]}
+              </p>
+              {signature ? (
+                <>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={signature.signatureImage}
+                    alt={`${kindLabels[kind]} signature of ${signature.signerName}`}
+                    className="mt-2 h-20 w-full object-contain bg-white rounded border border-gray-200 dark:border-gray-600"
+                  />
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-300">
+                    {signature.signerName} on{" "}
+                    {formatDateTime(signature.signedAt)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {signature.capturedBy &&
+                      `Witnessed by ${signature.capturedBy.firstName} ${signature.capturedBy.lastName}. `}
+                    {signature.ipAddress && `IP ${signature.ipAddress}. `}
+                  </p>
+                  {signature.userAgent && (
+                    <p
+                      className="text-xs text-gray-500 dark:text-gray-400 truncate"
+                      title={signature.userAgent}
+                    >
+                      Device: {signature.userAgent}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setTermsFor(termsFor === signature.id ? null : signature.id)
+                    }
+                    className="mt-1 text-xs text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {termsFor === signature.id ? "Hide" : "Show"} terms (version{" "}
+                    {signature.termsVersion})
+                  </button>
+                  {termsFor === signature.id && (
+                    <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
+                      {signature.termsText}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="mt-2">
+                  <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                    Not signed
+                  </p>
+                  {canCapture && (
+                    <button
+                      type="button"
+                      onClick={() => setCapturing(kind)}
+                      className="mt-2 inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600"
+                    >
+                      Capture Signature
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <SignatureCaptureModal
+        ticketId={ticketId}
+        kind={capturing || "intake"}
+        defaultSignerName={customerName}
+        isOpen={capturing !== null}
+        onClose={() => setCapturing(null)}
+        onSuccess={fetchSignatures}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import { getErrorMessage } from "@/lib/api";
+import {
+  deleteTimeEntry,
+  getLaborSettings,
+  getTicketTimeEntries,
+  LaborCategory,
+  logTimeEntry,
+  startTimer,
+  stopTimer,
+  TicketTimeSummary,
+  TimeEntry,
+} from "@/lib/api/labor.api";
+import { useUser } from "@/lib/UserContext";
+import { formatMinutes } from "@/lib/utils/ticketUtils";
+import React, { useCallback, useEffect, useState } from "react";
+
+interface TicketTimeTrackingProps {
+  ticketId: string;
+}
+
+const inputClassName =
+  "block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+const formatElapsed = (startedAt: string, now: number) => {
+  const seconds = Math.max(
+    0,
+    Math.floor((now - new Date(startedAt).getTime()) / 1000)
+  );
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 3600)}:${pad(
+    Math.floor((seconds % 3600) / 60)
+  )}:${pad(seconds % 60)}`;
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export default function TicketTimeTracking({
+  ticketId,
+}: TicketTimeTrackingProps) {
+  const { user } = useUser();
+  const [summary, setSummary] = useState<TicketTimeSummary | null>(null);
+  const [categories, setCategories] = useState<LaborCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Shared by the timer and the manual entry form
+  const [laborCategoryId, setLaborCategoryId] = useState("");
+  const [showLogForm, setShowLogForm] = useState(false);
+  const [hours, setHours] = useState("0");
+  const [minutes, setMinutes] = useState("30");
+  const [workDate, setWorkDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Mirrors the backend route guards
+  const role = user?.role || "";
+  const canTrack = ["admin", "manager", "technician", "superuser"].includes(
+    role
+  );
+  const canManageOthers = ["admin", "manager", "superuser"].includes(role);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setError("");
+      const [entriesResponse, settingsResponse] = await Promise.all([
+        getTicketTimeEntries(ticketId),
+        getLaborSettings(),
+      ]);
+      if (entriesResponse.data) {
+        setSummary(entriesResponse.data);
+      }
+      if (settingsResponse.data) {
+        setCategories(settingsResponse.data.categories);
+      }
+    } catch (err) {
+      console.error("Error fetching time entries:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const runningEntry = summary?.entries.find(
+    (entry) => !entry.endedAt && entry.userId === user?.id
+  );
+
+  // Tick once a second while the current user's timer is running
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntry]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      setError("");
+      await action();
+      await fetchEntries();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () =>
+    runAction(() =>
+      startTimer(ticketId, { laborCategoryId: laborCategoryId || null })
+    );
+
+  const handleStop = (entry: TimeEntry) =>
+    runAction(() => stopTimer(ticketId, entry.id));
+
+  const handleLog = (e: React.FormEvent) => {
+    e.preventDefault();
+    const durationMinutes =
+      (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
+    if (durationMinutes <= 0) {
+      setError("Enter how long you worked");
+      return;
+    }
+    runAction(async () => {
+      await logTimeEntry(ticketId, {
+        laborCategoryId: laborCategoryId || null,
+        durationMinutes,
+        // Manual entries for another day start at noon so the date doesn't shift across time zones
+        startedAt: workDate
+          ? new Date(`${workDate}T12:00:00`).toISOString()
+          : undefined,
+        notes: notes.trim() || undefined,
+      });
+      setShowLogForm(false);
+      setNotes("");
+    });
+  };
+
+  const handleDelete = (entry: TimeEntry) => {
+    if (!confirm("Are you sure you want to delete this time entry?")) return;
+    runAction(() => deleteTimeEntry(ticketId, entry.id));
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading time entries...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {summary && (
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <span>
+            Total: <strong>{formatMinutes(summary.totalMinutes)}</strong>
+          </span>
+          <span>Billed: {formatMinutes(summary.billedMinutes)}</span>
+          <span>Unbilled: {formatMinutes(summary.unbilledMinutes)}</span>
+        </div>
+      )}
+
+      {canTrack && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-48">
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+              Labor category
+            </label>
+            <select
+              value={laborCategoryId}
+              onChange={(e) => setLaborCategoryId(e.target.value)}
+              disabled={!!runningEntry}
+              className={`mt-1 ${inputClassName}`}
+            >
+              <option value="">General</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {runningEntry ? (
+            <button
+              type="button"
+              onClick={() => handleStop(runningEntry)}
+              disabled={isBusy}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 disabled:opacity-50"
+            >
+              Stop Timer ({formatElapsed(runningEntry.startedAt, now)})
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={isBusy}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              Start Timer
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowLogForm(!showLogForm)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Log Time
+          </button>
+        </div>
+      )}
+
+      {showLogForm && (
+        <form
+          onSubmit={handleLog}
+          className="space-y-3 bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md"
+        >
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Hours
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="24"
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Minutes
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="59"
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+                Date (defaults to today)
+              </label>
+              <input
+                type="date"
+                value={workDate}
+                onChange={(e) => setWorkDate(e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300">
+              Notes
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowLogForm(false)}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isBusy ? "Saving..." : "Save Entry"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {summary && summary.entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No time logged yet
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+              <th className="pb-1 pr-2">Technician</th>
+              <th className="pb-1 pr-2">Category</th>
+              <th className="pb-1 pr-2">Started</th>
+              <th className="pb-1 pr-2">Duration</th>
+              <th className="pb-1 w-16"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {summary?.entries.map((entry) => {
+              const canChange =
+                !entry.invoiceItemId &&
+                (entry.userId === user?.id || canManageOthers);
+              return (
+                <tr key={entry.id}>
+                  <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                    {entry.user
+                      ? `${entry.user.firstName} ${entry.user.lastName}`
+                      : "Unknown"}
+                    {entry.notes && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {entry.notes}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                    {entry.laborCategoryName || "General"}
+                  </td>
+                  <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                    {formatDateTime(entry.startedAt)}
+                  </td>
+                  <td className="py-1 pr-2 text-gray-700 dark:text-gray-300">
+                    {entry.durationMinutes === null
+                      ? "Running"
+                      : formatMinutes(entry.durationMinutes)}
+                    {entry.invoiceItemId && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                        Billed
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">
+                    {canTrack && canChange && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry)}
+                        disabled={isBusy}
+                        className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
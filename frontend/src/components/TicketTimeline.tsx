@@ -0,0 +1,177 @@
+"use client";
+
+import { getErrorMessage, Technician } from "@/lib/api";
+import { getTicketTimeline, TicketEvent } from "@/lib/api/ticket.api";
+import { formatStatus } from "@/lib/utils/ticketUtils";
+import React, { useEffect, useState } from "react";
+
+interface TicketTimelineProps {
+  ticketId: string;
+  // Changes whenever the ticket is modified so the timeline refetches
+  refreshKey?: string;
+  // Used to show technician names instead of IDs on assignment events
+  technicians?: Technician[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  customerId: "Customer",
+  assetId: "Asset",
+  checklistTemplateId: "Checklist template",
+  locationId: "Location",
+  technicianId: "Technician",
+  status: "Status",
+  priority: "Priority",
+  deviceType: "Device type",
+  deviceBrand: "Device brand",
+  deviceModel: "Device model",
+  serialNumber: "Serial number",
+  issueDescription: "Issue description",
+  diagnosticNotes: "Diagnostic notes",
+  repairNotes: "Repair notes",
+  estimatedCompletionDate: "Estimated completion",
+  completedDate: "Completed date",
+};
+
+// Fields whose values are long free text; showing old -> new inline is not useful
+const TEXT_FIELDS = ["issueDescription", "diagnosticNotes", "repairNotes"];
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function TicketTimeline({
+  ticketId,
+  refreshKey,
+  technicians = [],
+}: TicketTimelineProps) {
+  const [events, setEvents] = useState<TicketEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      try {
+        setError("");
+        const response = await getTicketTimeline(ticketId);
+        if (response.data) {
+          setEvents(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching ticket timeline:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [ticketId, refreshKey]);
+
+  const technicianName = (id: string | null) => {
+    if (!id) return "Unassigned";
+    const tech = technicians.find((t) => t.id === id);
+    return tech ? `${tech.firstName} ${tech.lastName}` : "another technician";
+  };
+
+  const formatValue = (field: string | null, value: string | null) => {
+    if (value === null) return "none";
+    if (field === "status") return formatStatus(value);
+    if (field === "priority") {
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+    if (field === "estimatedCompletionDate" || field === "completedDate") {
+      return formatDateTime(value);
+    }
+    return value;
+  };
+
+  const describeEvent = (event: TicketEvent): string => {
+    const label = event.field ? FIELD_LABELS[event.field] || event.field : "";
+    switch (event.eventType) {
+      case "created":
+        return "created the ticket";
+      case "deleted":
+        return "deleted the ticket";
+      case "status_changed":
+        return `changed status from ${formatValue("status", event.oldValue)} to ${formatValue("status", event.newValue)}`;
+      case "technician_assigned":
+        return event.newValue
+          ? `assigned ${technicianName(event.newValue)}${event.oldValue ? ` (was ${technicianName(event.oldValue)})` : ""}`
+          : `unassigned ${technicianName(event.oldValue)}`;
+      case "diagnostic_notes_added":
+        return "added a diagnostic note";
+      case "repair_notes_added":
+        return "added a repair note";
+      case "sla_breached":
+        return `flagged the ${event.field === "assignment" ? "assignment" : "completion"} SLA as breached`;
+      case "estimate_sent":
+        return `sent estimate ${event.newValue} to the customer for approval`;
+      case "estimate_approved":
+        return `recorded the customer's approval of estimate ${event.newValue}`;
+      case "estimate_declined":
+        return `recorded that the customer declined estimate ${event.newValue}`;
+      default:
+        if (event.field && TEXT_FIELDS.includes(event.field)) {
+          return `edited ${label.toLowerCase()}`;
+        }
+        return `changed ${label.toLowerCase()} from ${formatValue(event.field, event.oldValue)} to ${formatValue(event.field, event.newValue)}`;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Loading activity...
+      </p>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+        No activity recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {events.map((event) => {
+        const showNote =
+          (event.eventType === "diagnostic_notes_added" ||
+            event.eventType === "repair_notes_added") &&
+          event.newValue;
+        return (
+          <li key={event.id} className="relative pl-6">
+            <span className="absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full bg-blue-500 dark:bg-blue-400"></span>
+            <p className="text-sm text-gray-900 dark:text-gray-100">
+              <span className="font-medium">
+                {event.actor
+                  ? `${event.actor.firstName} ${event.actor.lastName}`
+                  : "System"}
+              </span>{" "}
+              {describeEvent(event)}
+            </p>
+            {showNote && (
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap bg-gray-50 dark:bg-gray-700/50 p-2 rounded-md">
+                {event.newValue}
+              </p>
+            )}
+            <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+              {formatDateTime(event.createdAt)}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,170 @@
+import api, { ApiResponse } from ".";
+import { Ticket } from "./ticket.api";
+
+// Appointment interfaces
+export type AppointmentType = "drop_off" | "on_site";
+
+export type AppointmentStatus =
+  | "scheduled"
+  | "checked_in"
+  | "cancelled"
+  | "no_show";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface Appointment {
+  id: string;
+  locationId: string;
+  customerId: string | null;
+  // The customer's name, or the name given with an online booking
+  customerName: string;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  technicianId: string | null;
+  technicianName: string | null;
+  ticketId: string | null;
+  seriesId: string | null;
+  appointmentType: AppointmentType;
+  status: AppointmentStatus;
+  source: "staff" | "online";
+  startsAt: string;
+  endsAt: string;
+  deviceType: string | null;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  issueDescription: string | null;
+  address: string | null;
+  notes: string | null;
+  checkedInAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AppointmentFilters {
+  start?: string;
+  end?: string;
+  technicianId?: string;
+  customerId?: string;
+}
+
+export interface CreateAppointmentData {
+  customerId: string;
+  technicianId?: string | null;
+  appointmentType?: AppointmentType;
+  startsAt: string;
+  endsAt: string;
+  deviceType?: string | null;
+  deviceBrand?: string | null;
+  deviceModel?: string | null;
+  issueDescription?: string | null;
+  address?: string | null;
+  notes?: string | null;
+  recurrence?: {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    count: number;
+  };
+}
+
+export type UpdateAppointmentData = Partial<
+  Omit<CreateAppointmentData, "customerId" | "recurrence">
+>;
+
+export interface CheckInAppointmentData {
+  assetId?: string | null;
+  deviceType?: string;
+  deviceBrand?: string | null;
+  deviceModel?: string | null;
+  issueDescription?: string;
+}
+
+// Appointment API functions
+export const getAppointments = async (
+  filters: AppointmentFilters = {}
+): Promise<ApiResponse<Appointment[]>> => {
+  const response = await api.get<ApiResponse<Appointment[]>>("/appointments", {
+    params: filters,
+  });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch appointments");
+};
+
+export const createAppointment = async (
+  data: CreateAppointmentData
+): Promise<ApiResponse<Appointment[]>> => {
+  const response = await api.post<ApiResponse<Appointment[]>>(
+    "/appointments",
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to book appointment");
+};
+
+export const updateAppointment = async (
+  id: string,
+  data: UpdateAppointmentData
+): Promise<ApiResponse<Appointment>> => {
+  const response = await api.put<ApiResponse<Appointment>>(
+    `/appointments/${id}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update appointment");
+};
+
+export const cancelAppointment = async (
+  id: string,
+  includeFollowing = false
+): Promise<ApiResponse<Appointment>> => {
+  const response = await api.post<ApiResponse<Appointment>>(
+    `/appointments/${id}/cancel`,
+    { includeFollowing }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to cancel appointment");
+};
+
+export const markAppointmentNoShow = async (
+  id: string
+): Promise<ApiResponse<Appointment>> => {
+  const response = await api.post<ApiResponse<Appointment>>(
+    `/appointments/${id}/no-show`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update appointment");
+};
+
+export const checkInAppointment = async (
+  id: string,
+  data: CheckInAppointmentData = {}
+): Promise<ApiResponse<{ appointment: Appointment; ticket: Ticket }>> => {
+  const response = await api.post<
+    ApiResponse<{ appointment: Appointment; ticket: Ticket }>
+  >(`/appointments/${id}/check-in`, data);
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to check in appointment");
+};
@@ -0,0 +1,102 @@
+import api, { ApiResponse } from ".";
+
+// Attachment interfaces
+export type AttachmentOwnerType = "ticket" | "asset";
+
+export interface Attachment {
+  id: string;
+  ticketId: string | null;
+  assetId: string | null;
+  uploadedBy: string | null;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+// Accepted by the backend; images also get a thumbnail
+export const ATTACHMENT_ACCEPT =
+  "image/jpeg,image/png,image/webp,image/gif,application/pdf";
+
+const attachmentsUrl = (ownerType: AttachmentOwnerType, ownerId: string) =>
+  `/${ownerType === "ticket" ? "tickets" : "assets"}/${ownerId}/attachments`;
+
+// Attachment API functions
+export const getAttachments = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string
+): Promise<ApiResponse<Attachment[]>> => {
+  const response = await api.get<ApiResponse<Attachment[]>>(
+    attachmentsUrl(ownerType, ownerId)
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch attachments"
+  );
+};
+
+export const uploadAttachments = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string,
+  files: File[]
+): Promise<ApiResponse<Attachment[]>> => {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+
+  const response = await api.post<ApiResponse<Attachment[]>>(
+    attachmentsUrl(ownerType, ownerId),
+    formData,
+    { headers: { "Content-Type": "multipart/form-data" } }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to upload attachments"
+  );
+};
+
+/**
+ * Download an attachment (or its thumbnail) as a Blob
+ * Files are behind authentication, so they can't be linked to directly from an <img>
+ */
+export const getAttachmentFile = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string,
+  attachmentId: string,
+  thumbnail = false
+): Promise<Blob> => {
+  const response = await api.get<Blob>(
+    `${attachmentsUrl(ownerType, ownerId)}/${attachmentId}/${
+      thumbnail ? "thumbnail" : "download"
+    }`,
+    { responseType: "blob" }
+  );
+
+  return response.data;
+};
+
+export const deleteAttachment = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string,
+  attachmentId: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `${attachmentsUrl(ownerType, ownerId)}/${attachmentId}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to delete attachment"
+  );
+};
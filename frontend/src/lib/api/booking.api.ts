@@ -0,0 +1,91 @@
+import api, { ApiResponse } from ".";
+import { AppointmentType } from "./appointment.api";
+import { BusinessHours } from "./location.api";
+
+// Online booking interfaces
+export interface BookingLocation {
+  companyName: string;
+  locationName: string;
+  address: string | null;
+  phone: string | null;
+  timezone: string;
+  businessHours: BusinessHours | null;
+  slotMinutes: number;
+  bookingWindowDays: number;
+}
+
+export interface BookingSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface BookAppointmentData {
+  startsAt: string;
+  appointmentType?: AppointmentType;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  deviceType?: string;
+  deviceBrand?: string;
+  deviceModel?: string;
+  issueDescription?: string;
+  address?: string;
+}
+
+export interface BookingConfirmation {
+  appointmentId: string;
+  locationName: string;
+  appointmentType: AppointmentType;
+  startsAt: string;
+  endsAt: string;
+}
+
+// Online booking API functions - public, no login needed
+export const getBookingLocation = async (
+  locationId: string
+): Promise<ApiResponse<BookingLocation>> => {
+  const response = await api.get<ApiResponse<BookingLocation>>(
+    `/booking/${locationId}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Online booking is not available"
+  );
+};
+
+export const getBookingSlots = async (
+  locationId: string,
+  date: string
+): Promise<ApiResponse<BookingSlot[]>> => {
+  const response = await api.get<ApiResponse<BookingSlot[]>>(
+    `/booking/${locationId}/slots`,
+    { params: { date } }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch open times");
+};
+
+export const bookAppointment = async (
+  locationId: string,
+  data: BookAppointmentData
+): Promise<ApiResponse<BookingConfirmation>> => {
+  const response = await api.post<ApiResponse<BookingConfirmation>>(
+    `/booking/${locationId}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to book appointment");
+};
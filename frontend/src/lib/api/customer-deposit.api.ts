@@ -0,0 +1,93 @@
+import api, { ApiResponse } from ".";
+
+// Customer deposit interfaces
+export interface CustomerDeposit {
+  id: string;
+  customerId: string;
+  ticketId: string | null;
+  locationId: string | null;
+  amount: number;
+  amountApplied: number;
+  amountRefunded: number;
+  // What's left to apply to invoices or refund
+  remainingAmount: number;
+  paymentMethod: string;
+  paymentReference: string | null;
+  isProviderPayment: boolean;
+  cashDrawerSessionId: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerDeposits {
+  creditBalance: number;
+  deposits: CustomerDeposit[];
+}
+
+export interface CreateCustomerDepositData {
+  ticketId?: string;
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string;
+  notes?: string;
+}
+
+export interface RefundCustomerDepositData {
+  // Leave out to refund everything that's left
+  amount?: number;
+  reason?: string;
+}
+
+// Customer deposit API functions
+export const getCustomerDeposits = async (
+  customerId: string
+): Promise<ApiResponse<CustomerDeposits>> => {
+  const response = await api.get<ApiResponse<CustomerDeposits>>(
+    `/customers/${customerId}/deposits`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch customer deposits"
+  );
+};
+
+export const createCustomerDeposit = async (
+  customerId: string,
+  data: CreateCustomerDepositData
+): Promise<ApiResponse<CustomerDeposit>> => {
+  const response = await api.post<ApiResponse<CustomerDeposit>>(
+    `/customers/${customerId}/deposits`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to take deposit");
+};
+
+export const refundCustomerDeposit = async (
+  customerId: string,
+  depositId: string,
+  data: RefundCustomerDepositData = {}
+): Promise<ApiResponse<CustomerDeposit>> => {
+  const response = await api.post<ApiResponse<CustomerDeposit>>(
+    `/customers/${customerId}/deposits/${depositId}/refund`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to refund deposit"
+  );
+};
@@ -13,6 +13,10 @@ export interface Customer {
   state?: string;
   zipCode?: string;
   notes?: string;
+  smsOptIn?: boolean;
+  smsOptInChangedAt?: string | null;
+  // Store credit the customer can spend on invoices
+  storeCreditBalance?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,6 +31,7 @@ export interface CreateCustomerData {
   state?: string;
   zipCode?: string;
   notes?: string;
+  smsOptIn?: boolean;
 }
 
 export interface UpdateCustomerData {
@@ -39,6 +44,7 @@ export interface UpdateCustomerData {
   state?: string;
   zipCode?: string;
   notes?: string;
+  smsOptIn?: boolean;
 }
 
 // Customer API functions
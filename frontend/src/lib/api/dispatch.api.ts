@@ -0,0 +1,106 @@
+import api, { API_BASE_URL, ApiResponse, getAuthHeaders } from ".";
+import { Ticket, TicketStatus } from "./ticket.api";
+
+// Dispatch interfaces
+export interface DispatchCard {
+  id: string;
+  ticketNumber: string;
+  status: TicketStatus;
+  priority: Ticket["priority"];
+  technicianId: string | null;
+  customerName: string;
+  device: string;
+  estimatedCompletionDate: string | null;
+  slaBreachedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DispatchTechnician {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  openTickets: number;
+}
+
+export interface DispatchBoard {
+  technicians: DispatchTechnician[];
+  tickets: DispatchCard[];
+}
+
+export interface TicketChange {
+  ticketId: string;
+  eventTypes: string[];
+  actorId: string | null;
+  occurredAt: string;
+}
+
+// Wait before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5000;
+
+// Dispatch API functions
+export const getDispatchBoard = async (): Promise<ApiResponse<DispatchBoard>> => {
+  const response = await api.get<ApiResponse<DispatchBoard>>("/dispatch/board");
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch dispatch board"
+  );
+};
+
+/**
+ * Listen for ticket changes made by anyone in the company
+ * Uses fetch rather than EventSource so the auth headers can be sent.
+ * Reconnects until the returned function is called.
+ */
+export const subscribeToTicketChanges = (
+  onChange: (change: TicketChange) => void
+): (() => void) => {
+  const controller = new AbortController();
+
+  const connect = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await fetch(`${API_BASE_URL}/dispatch/stream`, {
+          headers: getAuthHeaders(),
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Ticket stream failed with status ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Events are separated by a blank line; keep any partial event for the next chunk
+          const events = buffer.split("\n\n");
+          buffer = events.pop() || "";
+          for (const event of events) {
+            const data = event
+              .split("\n")
+              .find((line) => line.startsWith("data: "));
+            if (data) {
+              onChange(JSON.parse(data.slice("data: ".length)));
+            }
+          }
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Ticket stream disconnected:", err);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+    }
+  };
+
+  connect();
+  return () => controller.abort();
+};
@@ -0,0 +1,63 @@
+import api, { ApiResponse } from ".";
+import { PaginatedResponse } from "./company.api";
+
+// Email delivery log interfaces
+export type EmailMessageStatus =
+  | "pending"
+  | "sent"
+  | "delivered"
+  | "opened"
+  | "bounced"
+  | "failed";
+
+export interface EmailMessage {
+  id: string;
+  // Which email this is, e.g. ticket_status or customer_message
+  template: string;
+  sender: "company" | "site_wide";
+  toAddress: string;
+  subject: string;
+  status: EmailMessageStatus;
+  attempts: number;
+  // When a pending email will be retried
+  nextAttemptAt: string | null;
+  providerMessageId: string | null;
+  error: string | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  openedAt: string | null;
+  bouncedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Email delivery log API functions
+export const getEmailMessages = async (
+  params: { status?: EmailMessageStatus; page?: number; limit?: number } = {}
+): Promise<PaginatedResponse<EmailMessage>> => {
+  const response = await api.get<PaginatedResponse<EmailMessage>>(
+    "/email-messages",
+    { params }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch email log");
+};
+
+// Sends a failed or bounced email again; throws with the reason if it fails again
+export const resendEmailMessage = async (
+  id: string
+): Promise<ApiResponse<EmailMessage>> => {
+  const response = await api.post<ApiResponse<EmailMessage>>(
+    `/email-messages/${id}/resend`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to resend email");
+};
@@ -0,0 +1,188 @@
+import api, { ApiResponse } from ".";
+
+// Email template interfaces
+export type EmailTemplateKey =
+  | "ticket_status"
+  | "invoice"
+  | "invitation"
+  | "password_reset";
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+  sample: string;
+}
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  variables: EmailTemplateVariable[];
+  // False while the company is using the built-in template
+  isCustom: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface EmailBranding {
+  primaryColor: string;
+  accentColor: string;
+  // Data URL of the uploaded logo, if any
+  logoUrl: string | null;
+}
+
+export interface EmailTemplateSettings {
+  templates: EmailTemplate[];
+  branding: EmailBranding;
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+}
+
+export interface EmailPreview {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Email template API functions
+export const getEmailTemplates = async (): Promise<
+  ApiResponse<EmailTemplateSettings>
+> => {
+  const response = await api.get<ApiResponse<EmailTemplateSettings>>(
+    "/email-templates"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch email templates"
+  );
+};
+
+export const saveEmailTemplate = async (
+  key: EmailTemplateKey,
+  data: EmailTemplateContent
+): Promise<ApiResponse<EmailTemplate>> => {
+  const response = await api.put<ApiResponse<EmailTemplate>>(
+    `/email-templates/${key}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to save email template"
+  );
+};
+
+export const resetEmailTemplate = async (
+  key: EmailTemplateKey
+): Promise<ApiResponse<EmailTemplate>> => {
+  const response = await api.delete<ApiResponse<EmailTemplate>>(
+    `/email-templates/${key}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to reset email template"
+  );
+};
+
+// Pass the unsaved subject and body to preview edits; leave out to preview the saved template
+export const previewEmailTemplate = async (
+  key: EmailTemplateKey,
+  data?: EmailTemplateContent
+): Promise<ApiResponse<EmailPreview>> => {
+  const response = await api.post<ApiResponse<EmailPreview>>(
+    `/email-templates/${key}/preview`,
+    data || {}
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to preview email template"
+  );
+};
+
+// Emails a sample to the signed-in admin
+export const sendTestEmailTemplate = async (
+  key: EmailTemplateKey,
+  data?: EmailTemplateContent
+): Promise<ApiResponse<{ sentTo: string }>> => {
+  const response = await api.post<ApiResponse<{ sentTo: string }>>(
+    `/email-templates/${key}/test`,
+    data || {}
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to send test email");
+};
+
+export const updateEmailBranding = async (data: {
+  primaryColor?: string;
+  accentColor?: string;
+}): Promise<ApiResponse<EmailBranding>> => {
+  const response = await api.put<ApiResponse<EmailBranding>>(
+    "/email-templates/branding",
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update email branding"
+  );
+};
+
+export const uploadEmailLogo = async (
+  file: File
+): Promise<ApiResponse<EmailBranding>> => {
+  const formData = new FormData();
+  formData.append("logo", file);
+
+  const response = await api.post<ApiResponse<EmailBranding>>(
+    "/email-templates/branding/logo",
+    formData,
+    { headers: { "Content-Type": "multipart/form-data" } }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to upload logo");
+};
+
+export const removeEmailLogo = async (): Promise<
+  ApiResponse<EmailBranding>
+> => {
+  const response = await api.delete<ApiResponse<EmailBranding>>(
+    "/email-templates/branding/logo"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to remove logo");
+};
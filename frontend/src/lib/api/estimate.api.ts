@@ -0,0 +1,170 @@
+import api, { ApiResponse } from ".";
+
+// Estimate interfaces
+export type EstimateStatus =
+  | "draft"
+  | "sent"
+  | "approved"
+  | "declined"
+  | "withdrawn";
+
+export type EstimateItemType = "part" | "service" | "other";
+
+export interface EstimateItem {
+  id: string;
+  inventoryItemId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent: number;
+  discountAmount: number;
+  subtotal: number;
+  type: EstimateItemType;
+  isTaxable: boolean;
+}
+
+export interface Estimate {
+  id: string;
+  locationId: string | null;
+  ticketId: string;
+  customerId: string;
+  estimateNumber: string;
+  status: EstimateStatus;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  totalAmount: number;
+  notes: string | null;
+  validUntil: string | null;
+  sentAt: string | null;
+  respondedAt: string | null;
+  approvedByName: string | null;
+  declineReason: string | null;
+  invoiceId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  items: EstimateItem[];
+}
+
+export interface EstimateItemData {
+  inventoryItemId?: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercent?: number;
+  type: EstimateItemType;
+}
+
+export interface SaveEstimateData {
+  notes?: string | null;
+  validUntil?: string | null;
+  items: EstimateItemData[];
+}
+
+// Estimate API functions
+export const getEstimatesByTicket = async (
+  ticketId: string
+): Promise<ApiResponse<Estimate[]>> => {
+  const response = await api.get<ApiResponse<Estimate[]>>("/estimates", {
+    params: { ticketId },
+  });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch estimates");
+};
+
+export const createEstimate = async (
+  ticketId: string,
+  data: SaveEstimateData
+): Promise<ApiResponse<Estimate>> => {
+  const response = await api.post<ApiResponse<Estimate>>("/estimates", {
+    ticketId,
+    ...data,
+  });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to create estimate");
+};
+
+export const updateEstimate = async (
+  id: string,
+  data: SaveEstimateData
+): Promise<ApiResponse<Estimate>> => {
+  const response = await api.put<ApiResponse<Estimate>>(
+    `/estimates/${id}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update estimate");
+};
+
+export const deleteEstimate = async (
+  id: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/estimates/${id}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to delete estimate");
+};
+
+export const sendEstimate = async (
+  id: string
+): Promise<ApiResponse<Estimate>> => {
+  const response = await api.post<ApiResponse<Estimate>>(
+    `/estimates/${id}/send`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to send estimate");
+};
+
+export const withdrawEstimate = async (
+  id: string
+): Promise<ApiResponse<Estimate>> => {
+  const response = await api.post<ApiResponse<Estimate>>(
+    `/estimates/${id}/withdraw`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to withdraw estimate"
+  );
+};
+
+export const convertEstimateToInvoice = async (
+  id: string
+): Promise<ApiResponse<Estimate>> => {
+  const response = await api.post<ApiResponse<Estimate>>(
+    `/estimates/${id}/convert`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to create invoice from estimate"
+  );
+};
@@ -0,0 +1,119 @@
+import api, { ApiResponse } from ".";
+import { PaginatedResponse } from "./company.api";
+
+// Gift card interfaces
+export interface GiftCard {
+  id: string;
+  code: string;
+  // Customer who bought the card, if known
+  customerId: string | null;
+  initialAmount: number;
+  balance: number;
+  isActive: boolean;
+  notes: string | null;
+  issuedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One change to a card's balance: positive when sold, negative when spent
+export interface GiftCardTransaction {
+  id: string;
+  giftCardId: string;
+  type: "sale" | "redemption";
+  amount: number;
+  balanceAfter: number;
+  paymentMethod: string | null;
+  paymentReference: string | null;
+  cashDrawerSessionId: string | null;
+  invoiceId: string | null;
+  invoicePaymentId: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface GiftCardWithTransactions extends GiftCard {
+  transactions: GiftCardTransaction[];
+}
+
+export interface CreateGiftCardData {
+  amount: number;
+  paymentMethod: string;
+  paymentReference?: string;
+  customerId?: string;
+  // Code printed on a pre-made card; one is generated when left out
+  code?: string;
+  notes?: string;
+}
+
+// Gift card API functions
+export const getGiftCards = async (
+  params: { search?: string; customerId?: string; page?: number; limit?: number } = {}
+): Promise<PaginatedResponse<GiftCard>> => {
+  const response = await api.get<PaginatedResponse<GiftCard>>("/gift-cards", {
+    params,
+  });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch gift cards");
+};
+
+export const getGiftCard = async (
+  id: string
+): Promise<ApiResponse<GiftCardWithTransactions>> => {
+  const response = await api.get<ApiResponse<GiftCardWithTransactions>>(
+    `/gift-cards/${id}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch gift card");
+};
+
+export const getGiftCardByCode = async (
+  code: string
+): Promise<ApiResponse<GiftCard>> => {
+  const response = await api.get<ApiResponse<GiftCard>>(
+    `/gift-cards/code/${encodeURIComponent(code)}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Gift card not found");
+};
+
+export const createGiftCard = async (
+  data: CreateGiftCardData
+): Promise<ApiResponse<GiftCard>> => {
+  const response = await api.post<ApiResponse<GiftCard>>("/gift-cards", data);
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to sell gift card");
+};
+
+export const setGiftCardActive = async (
+  id: string,
+  isActive: boolean
+): Promise<ApiResponse<GiftCard>> => {
+  const response = await api.patch<ApiResponse<GiftCard>>(
+    `/gift-cards/${id}`,
+    { isActive }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update gift card");
+};
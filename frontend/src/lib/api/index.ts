@@ -9,9 +9,12 @@ const getBaseURL = () => {
   return baseUrl.endsWith("/api") ? baseUrl : `${baseUrl}/api`;
 };
 
+// Exported for requests made outside axios
+export const API_BASE_URL = getBaseURL();
+
 // Create axios instance
 const api = axios.create({
-  baseURL: getBaseURL(),
+  baseURL: API_BASE_URL,
   headers: {
     "Content-Type": "application/json",
   },
@@ -27,6 +30,13 @@ export interface ApiResponse<T> {
   };
 }
 
+// Lists paged with a cursor; pass nextCursor back as cursor to get the next page
+export interface CursorPageResponse<T> extends ApiResponse<T[]> {
+  pagination?: {
+    nextCursor: string | null;
+  };
+}
+
 // Types for auth
 export interface User {
   id: string;
@@ -52,31 +62,44 @@ export interface AuthResponse {
 // Token management
 let accessToken: string | null = null;
 
-// Request interceptor
-api.interceptors.request.use(
-  (config) => {
-    // Get token from variable, localStorage, or sessionStorage (in case it was updated elsewhere)
-    let token = accessToken;
-    if (!token && typeof window !== "undefined") {
-      token = localStorage.getItem("accessToken") || sessionStorage.getItem("accessToken");
-      // Update the module-level variable to keep it in sync
-      if (token) {
-        accessToken = token;
-      }
+// Auth and impersonation headers for the current session
+// Also used for requests made outside axios, such as streaming with fetch
+export const getAuthHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = {};
+
+  // Get token from variable, localStorage, or sessionStorage (in case it was updated elsewhere)
+  let token = accessToken;
+  if (!token && typeof window !== "undefined") {
+    token = localStorage.getItem("accessToken") || sessionStorage.getItem("accessToken");
+    // Update the module-level variable to keep it in sync
+    if (token) {
+      accessToken = token;
     }
-    // Add auth token to headers if available
-    if (token && config.headers) {
-      config.headers.Authorization = `Bearer ${token}`;
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  // Add impersonation header if present (for superuser tenant impersonation)
+  if (typeof window !== "undefined") {
+    const impersonateCompanyId = localStorage.getItem("impersonateCompanyId") ||
+                                  sessionStorage.getItem("impersonateCompanyId");
+    if (impersonateCompanyId) {
+      // Express normalizes headers to lowercase, so use lowercase key
+      headers["x-impersonate-company"] = impersonateCompanyId;
     }
+  }
 
-    // Add impersonation header if present (for superuser tenant impersonation)
-    if (typeof window !== "undefined" && config.headers) {
-      const impersonateCompanyId = localStorage.getItem("impersonateCompanyId") ||
-                                    sessionStorage.getItem("impersonateCompanyId");
-      if (impersonateCompanyId) {
-        // Express normalizes headers to lowercase, so use lowercase key
-        config.headers["x-impersonate-company"] = impersonateCompanyId;
-      }
+  return headers;
+};
+
+// Request interceptor
+api.interceptors.request.use(
+  (config) => {
+    if (config.headers) {
+      Object.entries(getAuthHeaders()).forEach(([name, value]) => {
+        config.headers[name] = value;
+      });
     }
 
     return config;
@@ -15,6 +15,10 @@ export interface IntegrationConfig {
   // Square payment integration specific fields (added by backend for SDK initialization)
   applicationId?: string;
   locationId?: string;
+  // Email and SMS integrations: where the provider should post replies from customers
+  inboundUrl?: string;
+  // Email integration: where the provider should post delivery, open and bounce events
+  eventsUrl?: string;
 }
 
 export interface SaveEmailIntegrationData {
@@ -50,6 +54,20 @@ export interface SavePaymentIntegrationData {
   };
 }
 
+export interface SaveSmsIntegrationData {
+  provider: string;
+  enabled?: boolean;
+  credentials: {
+    // Twilio
+    accountSid?: string;
+    authToken?: string;
+  };
+  settings?: {
+    fromNumber?: string;
+    ticketStatusUpdates?: boolean;
+  };
+}
+
 // Integration API functions
 export const getIntegration = async (
   type: IntegrationType
@@ -76,7 +94,11 @@ export const getIntegration = async (
 
 export const saveIntegration = async (
   type: IntegrationType,
-  data: SaveEmailIntegrationData | SavePaymentIntegrationData | Record<string, unknown>
+  data:
+    | SaveEmailIntegrationData
+    | SavePaymentIntegrationData
+    | SaveSmsIntegrationData
+    | Record<string, unknown>
 ): Promise<ApiResponse<IntegrationConfig>> => {
   const response = await api.post<ApiResponse<IntegrationConfig>>(
     `/integrations/${type}`,
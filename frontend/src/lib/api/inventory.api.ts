@@ -1,9 +1,11 @@
-import api, { ApiResponse } from ".";
+import api, { ApiResponse, CursorPageResponse } from ".";
 
 // Inventory interfaces
 export interface LocationQuantity {
   locationId: string;
-  quantity: number;
+  quantity: number; // On hand
+  reservedQuantity: number; // Held for open tickets
+  availableQuantity: number; // On hand less reserved
 }
 
 export interface InventoryCategoryRef {
@@ -44,10 +46,14 @@ export interface InventoryItem {
   costPrice: number;
   sellingPrice: number;
   quantity?: number; // Quantity for specific location when filtered
+  reservedQuantity?: number;
+  availableQuantity?: number;
   reorderLevel: number;
   location: string | null; // Physical location description
   supplier: string | null;
   supplierPartNumber: string | null;
+  // Days a repair using this part is under warranty
+  warrantyDays: number | null;
   isActive: boolean;
   isTaxable: boolean;
   trackQuantity: boolean;
@@ -59,9 +65,9 @@ export interface InventoryItem {
 // Inventory API functions
 export const getInventory = async (
   params?: URLSearchParams
-): Promise<ApiResponse<InventoryItem[]>> => {
+): Promise<CursorPageResponse<InventoryItem>> => {
   const url = params ? `/inventory?${params.toString()}` : "/inventory";
-  const response = await api.get<ApiResponse<InventoryItem[]>>(url);
+  const response = await api.get<CursorPageResponse<InventoryItem>>(url);
 
   if (response.data.success) {
     return response.data;
@@ -113,6 +119,7 @@ export interface CreateInventoryItemData {
   location?: string | null;
   supplier?: string | null;
   supplierPartNumber?: string | null;
+  warrantyDays?: number | null;
   isActive?: boolean;
   isTaxable?: boolean;
   trackQuantity?: boolean;
@@ -133,6 +140,7 @@ export interface UpdateInventoryItemData {
   location?: string | null;
   supplier?: string | null;
   supplierPartNumber?: string | null;
+  warrantyDays?: number | null;
   isActive?: boolean;
   isTaxable?: boolean;
   trackQuantity?: boolean;
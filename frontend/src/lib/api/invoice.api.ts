@@ -1,4 +1,4 @@
-import api, { ApiResponse } from ".";
+import api, { ApiResponse, CursorPageResponse } from ".";
 import { Customer } from "./customer.api";
 import { Ticket } from "./ticket.api";
 
@@ -19,6 +19,32 @@ export interface InvoiceItem {
   updatedAt: string;
 }
 
+export type InvoiceStatus =
+  | "draft"
+  | "issued"
+  | "partially_paid"
+  | "paid"
+  | "overdue"
+  | "cancelled";
+
+// A payment recorded against an invoice; a split tender is several of these
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  paymentMethod: string;
+  paymentReference: string | null;
+  cashDrawerSessionId: string | null;
+  // Set when the payment came out of a customer deposit
+  customerDepositId: string | null;
+  // Set when the payment was spent from a gift card
+  giftCardId: string | null;
+  notes: string | null;
+  receivedBy: string | null;
+  paidAt: string;
+  createdAt: string;
+}
+
 export interface Invoice {
   id: string;
   invoiceNumber: string;
@@ -27,7 +53,7 @@ export interface Invoice {
   ticketId?: string;
   ticket?: Ticket;
   locationId?: string | null;
-  status: "draft" | "issued" | "paid" | "overdue" | "cancelled";
+  status: InvoiceStatus;
   issueDate?: string;
   dueDate?: string;
   paidDate?: string;
@@ -36,6 +62,8 @@ export interface Invoice {
   taxAmount: number;
   discountAmount: number;
   totalAmount: number;
+  amountPaid: number;
+  balanceDue: number;
   refundAmount?: number;
   refundDate?: string;
   refundReason?: string;
@@ -44,7 +72,12 @@ export interface Invoice {
   paymentMethod?: string;
   paymentReference?: string;
   cashDrawerSessionId?: string | null;
+  // Expiry of the warranty on the repair this invoice bills
+  warrantyExpiresAt?: string | null;
+  // Recurring schedule that issued this invoice, if any
+  recurringInvoiceId?: string | null;
   invoiceItems?: InvoiceItem[];
+  payments?: InvoicePayment[];
   createdAt: string;
   updatedAt: string;
 }
@@ -52,7 +85,7 @@ export interface Invoice {
 export interface CreateInvoiceData {
   customerId?: string | null;
   ticketId?: string;
-  status?: "draft" | "issued" | "paid" | "overdue" | "cancelled";
+  status?: InvoiceStatus;
   dueDate?: string;
   subtotal?: number;
   discountAmount?: number;
@@ -66,7 +99,7 @@ export interface CreateInvoiceData {
 export interface UpdateInvoiceData {
   customerId?: string;
   ticketId?: string;
-  status?: "draft" | "issued" | "paid" | "overdue" | "cancelled";
+  status?: InvoiceStatus;
   dueDate?: string;
   subtotal?: number;
   discountAmount?: number;
@@ -97,25 +130,109 @@ export interface UpdateInvoiceItemData {
   type?: "part" | "service" | "other";
 }
 
-export interface MarkInvoicePaidData {
+// Tenders paid from a balance the shop holds rather than money taken at the counter
+export const GIFT_CARD_PAYMENT_METHOD = "Gift Card";
+export const STORE_CREDIT_PAYMENT_METHOD = "Store Credit";
+
+export interface InvoicePaymentData {
   paymentMethod: string;
+  amount: number;
+  paymentReference?: string;
+  // Required for "Gift Card" payments
+  giftCardCode?: string;
+}
+
+// One payment (the balance due unless amount is given), or several for a split tender
+export interface MarkInvoicePaidData {
+  paymentMethod?: string;
+  amount?: number;
   paymentReference?: string;
+  giftCardCode?: string;
+  payments?: InvoicePaymentData[];
   paidDate?: string;
   notes?: string;
 }
 
+// Every available deposit (up to the balance due) unless a deposit or amount is given
+export interface ApplyDepositsData {
+  depositId?: string;
+  amount?: number;
+}
+
 export interface RefundInvoiceData {
   refundAmount: number;
   refundReason?: string;
+  // "store_credit" gives the refund back as the customer's store credit
   refundMethod?: string;
 }
 
+// A refund written up against an invoice
+export interface CreditMemo {
+  id: string;
+  creditMemoNumber: string;
+  invoiceId: string;
+  customerId: string | null;
+  amount: number;
+  refundMethod: string;
+  reason: string | null;
+  issuedBy: string | null;
+  createdAt: string;
+}
+
+export type ReturnDisposition = "restock" | "write_off";
+
+export interface InvoiceReturnItem {
+  id: string;
+  returnId: string;
+  invoiceItemId: string | null;
+  inventoryItemId: string | null;
+  description: string;
+  quantity: number;
+  // Price per unit actually charged, after the line discount
+  unitPrice: number;
+  subtotal: number;
+  taxAmount: number;
+  disposition: ReturnDisposition;
+  createdAt: string;
+}
+
+// A return document listing the lines that came back and what was refunded for them
+export interface InvoiceReturn {
+  id: string;
+  returnNumber: string;
+  invoiceId: string;
+  customerId: string | null;
+  creditMemoId: string | null;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  restockingFee: number;
+  refundAmount: number;
+  refundMethod: string;
+  reason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  items: InvoiceReturnItem[];
+}
+
+export interface CreateInvoiceReturnData {
+  items: {
+    invoiceItemId: string;
+    quantity: number;
+    disposition: ReturnDisposition;
+  }[];
+  restockingFee?: number;
+  // "store_credit" gives the refund back as the customer's store credit
+  refundMethod?: string;
+  reason?: string;
+}
+
 // Invoice API functions
 export const getInvoices = async (
   params?: URLSearchParams
-): Promise<ApiResponse<Invoice[]>> => {
+): Promise<CursorPageResponse<Invoice>> => {
   const url = params ? `/invoices?${params.toString()}` : "/invoices";
-  const response = await api.get<ApiResponse<Invoice[]>>(url);
+  const response = await api.get<CursorPageResponse<Invoice>>(url);
 
   if (response.data.success) {
     return response.data;
@@ -233,6 +350,26 @@ export const removeInvoiceItem = async (
   );
 };
 
+export interface BilledLabor {
+  items: InvoiceItem[];
+  minutes: number;
+}
+
+// Adds the ticket's unbilled time as labor items, one per labor category
+export const addLaborToInvoice = async (
+  invoiceId: string
+): Promise<ApiResponse<BilledLabor>> => {
+  const response = await api.post<ApiResponse<BilledLabor>>(
+    `/invoices/${invoiceId}/labor`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to add labor");
+};
+
 export const markInvoiceAsPaid = async (
   invoiceId: string,
   paymentData: MarkInvoicePaidData
@@ -251,6 +388,56 @@ export const markInvoiceAsPaid = async (
   );
 };
 
+export const applyDepositsToInvoice = async (
+  invoiceId: string,
+  data: ApplyDepositsData = {}
+): Promise<ApiResponse<Invoice>> => {
+  const response = await api.post<ApiResponse<Invoice>>(
+    `/invoices/${invoiceId}/apply-deposits`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to apply deposits"
+  );
+};
+
+export const getInvoicePayments = async (
+  invoiceId: string
+): Promise<ApiResponse<InvoicePayment[]>> => {
+  const response = await api.get<ApiResponse<InvoicePayment[]>>(
+    `/invoices/${invoiceId}/payments`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch invoice payments"
+  );
+};
+
+export const getInvoiceCreditMemos = async (
+  invoiceId: string
+): Promise<ApiResponse<CreditMemo[]>> => {
+  const response = await api.get<ApiResponse<CreditMemo[]>>(
+    `/invoices/${invoiceId}/credit-memos`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch credit memos"
+  );
+};
+
 export const refundInvoice = async (
   invoiceId: string,
   refundData: RefundInvoiceData
@@ -269,6 +456,40 @@ export const refundInvoice = async (
   );
 };
 
+export const getInvoiceReturns = async (
+  invoiceId: string
+): Promise<ApiResponse<InvoiceReturn[]>> => {
+  const response = await api.get<ApiResponse<InvoiceReturn[]>>(
+    `/invoices/${invoiceId}/returns`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch invoice returns"
+  );
+};
+
+export const createInvoiceReturn = async (
+  invoiceId: string,
+  returnData: CreateInvoiceReturnData
+): Promise<ApiResponse<InvoiceReturn>> => {
+  const response = await api.post<ApiResponse<InvoiceReturn>>(
+    `/invoices/${invoiceId}/returns`,
+    returnData
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to return items"
+  );
+};
+
 export const getInvoicesByCustomer = async (
   customerId: string
 ): Promise<ApiResponse<Invoice[]>> => {
@@ -0,0 +1,254 @@
+import api, { ApiResponse } from ".";
+
+// Labor interfaces
+export interface LaborCategory {
+  id: string;
+  name: string;
+  // Null means the company default rate applies
+  hourlyRate: number | null;
+  // Days work of this kind is under warranty
+  warrantyDays: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LaborSettings {
+  defaultHourlyRate: number | null;
+  categories: LaborCategory[];
+}
+
+export interface SaveLaborCategoryData {
+  name: string;
+  hourlyRate?: number | null;
+  warrantyDays?: number | null;
+}
+
+export interface TimeEntry {
+  id: string;
+  ticketId: string;
+  userId: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  laborCategoryId: string | null;
+  laborCategoryName: string | null;
+  startedAt: string;
+  // Null while the timer is running
+  endedAt: string | null;
+  durationMinutes: number | null;
+  notes: string | null;
+  // Set once the time has been billed on an invoice
+  invoiceItemId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TicketTimeSummary {
+  entries: TimeEntry[];
+  totalMinutes: number;
+  billedMinutes: number;
+  unbilledMinutes: number;
+  runningTimers: number;
+}
+
+export interface StartTimerData {
+  laborCategoryId?: string | null;
+  notes?: string;
+}
+
+export interface LogTimeEntryData {
+  userId?: string;
+  laborCategoryId?: string | null;
+  startedAt?: string;
+  durationMinutes: number;
+  notes?: string;
+}
+
+export interface UpdateTimeEntryData {
+  laborCategoryId?: string | null;
+  startedAt?: string;
+  durationMinutes?: number;
+  notes?: string | null;
+}
+
+// Labor settings API functions
+export const getLaborSettings = async (): Promise<ApiResponse<LaborSettings>> => {
+  const response = await api.get<ApiResponse<LaborSettings>>("/labor/settings");
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch labor settings"
+  );
+};
+
+export const setDefaultLaborRate = async (
+  hourlyRate: number | null
+): Promise<ApiResponse<{ defaultHourlyRate: number | null }>> => {
+  const response = await api.put<
+    ApiResponse<{ defaultHourlyRate: number | null }>
+  >("/labor/rate", { hourlyRate });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to save labor rate"
+  );
+};
+
+export const createLaborCategory = async (
+  data: SaveLaborCategoryData
+): Promise<ApiResponse<LaborCategory>> => {
+  const response = await api.post<ApiResponse<LaborCategory>>(
+    "/labor/categories",
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to create labor category"
+  );
+};
+
+export const updateLaborCategory = async (
+  id: string,
+  data: SaveLaborCategoryData
+): Promise<ApiResponse<LaborCategory>> => {
+  const response = await api.put<ApiResponse<LaborCategory>>(
+    `/labor/categories/${id}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update labor category"
+  );
+};
+
+export const deleteLaborCategory = async (
+  id: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/labor/categories/${id}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to delete labor category"
+  );
+};
+
+// Ticket time entry API functions
+export const getTicketTimeEntries = async (
+  ticketId: string
+): Promise<ApiResponse<TicketTimeSummary>> => {
+  const response = await api.get<ApiResponse<TicketTimeSummary>>(
+    `/tickets/${ticketId}/time-entries`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch time entries"
+  );
+};
+
+export const startTimer = async (
+  ticketId: string,
+  data: StartTimerData = {}
+): Promise<ApiResponse<TimeEntry>> => {
+  const response = await api.post<ApiResponse<TimeEntry>>(
+    `/tickets/${ticketId}/time-entries/start`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to start timer");
+};
+
+export const stopTimer = async (
+  ticketId: string,
+  entryId: string
+): Promise<ApiResponse<TimeEntry>> => {
+  const response = await api.post<ApiResponse<TimeEntry>>(
+    `/tickets/${ticketId}/time-entries/${entryId}/stop`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to stop timer");
+};
+
+export const logTimeEntry = async (
+  ticketId: string,
+  data: LogTimeEntryData
+): Promise<ApiResponse<TimeEntry>> => {
+  const response = await api.post<ApiResponse<TimeEntry>>(
+    `/tickets/${ticketId}/time-entries`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to log time");
+};
+
+export const updateTimeEntry = async (
+  ticketId: string,
+  entryId: string,
+  data: UpdateTimeEntryData
+): Promise<ApiResponse<TimeEntry>> => {
+  const response = await api.put<ApiResponse<TimeEntry>>(
+    `/tickets/${ticketId}/time-entries/${entryId}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update time entry"
+  );
+};
+
+export const deleteTimeEntry = async (
+  ticketId: string,
+  entryId: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/tickets/${ticketId}/time-entries/${entryId}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to delete time entry"
+  );
+};
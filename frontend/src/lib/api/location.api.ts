@@ -17,10 +17,29 @@ export interface Location {
   taxName?: string | null;
   taxEnabled?: boolean;
   taxInclusive?: boolean;
+  // IANA time zone the business hours are given in
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  bookingEnabled?: boolean;
+  bookingSlotMinutes?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type Weekday =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+// A missing day is closed
+export type BusinessHours = Partial<
+  Record<Weekday, { open: string; close: string }>
+>;
+
 export interface CreateLocationData {
   name: string;
   address?: string;
@@ -34,6 +53,10 @@ export interface CreateLocationData {
   taxName?: string;
   taxEnabled?: boolean;
   taxInclusive?: boolean;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  bookingEnabled?: boolean;
+  bookingSlotMinutes?: number;
 }
 
 export interface UpdateLocationData {
@@ -49,6 +72,10 @@ export interface UpdateLocationData {
   taxName?: string;
   taxEnabled?: boolean;
   taxInclusive?: boolean;
+  timezone?: string;
+  businessHours?: BusinessHours | null;
+  bookingEnabled?: boolean;
+  bookingSlotMinutes?: number;
 }
 
 export interface LocationUser {
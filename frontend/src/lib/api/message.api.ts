@@ -0,0 +1,147 @@
+import api, { ApiResponse } from ".";
+
+// Customer message interfaces
+export type MessageChannel = "email" | "sms";
+
+export type MessageDirection = "inbound" | "outbound";
+
+export interface CustomerMessage {
+  id: string;
+  customerId: string;
+  ticketId: string | null;
+  channel: MessageChannel;
+  direction: MessageDirection;
+  fromAddress: string | null;
+  toAddress: string;
+  subject: string | null;
+  body: string;
+  providerMessageId: string | null;
+  // Staff member who wrote an outbound reply; null for automatic notifications
+  sentBy: string | null;
+  // When staff read an inbound message; null while unread
+  readAt: string | null;
+  createdAt: string;
+  sender?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface Conversation {
+  customerId: string;
+  customerFirstName: string;
+  customerLastName: string;
+  lastMessage: CustomerMessage;
+  unreadCount: number;
+}
+
+// A customer's conversation, a ticket's, or both
+export interface MessageScope {
+  customerId?: string;
+  ticketId?: string;
+}
+
+export interface SendMessageData extends MessageScope {
+  channel: MessageChannel;
+  subject?: string;
+  body: string;
+}
+
+// Fired on window when messages are sent or read, so unread badges can refresh
+export const MESSAGES_CHANGED_EVENT = "messagesChanged";
+
+export const notifyMessagesChanged = (): void => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(MESSAGES_CHANGED_EVENT));
+  }
+};
+
+const scopeParams = (scope: MessageScope): string => {
+  const params = new URLSearchParams();
+  if (scope.customerId) params.append("customerId", scope.customerId);
+  if (scope.ticketId) params.append("ticketId", scope.ticketId);
+  return params.toString();
+};
+
+// Customer message API functions
+export const getMessages = async (
+  scope: MessageScope
+): Promise<ApiResponse<CustomerMessage[]>> => {
+  const response = await api.get<ApiResponse<CustomerMessage[]>>(
+    `/messages?${scopeParams(scope)}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch messages");
+};
+
+export const getConversations = async (): Promise<
+  ApiResponse<Conversation[]>
+> => {
+  const response = await api.get<ApiResponse<Conversation[]>>(
+    "/messages/conversations"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch conversations"
+  );
+};
+
+export const getUnreadMessageCount = async (
+  scope: MessageScope = {}
+): Promise<ApiResponse<{ count: number }>> => {
+  const query = scopeParams(scope);
+  const response = await api.get<ApiResponse<{ count: number }>>(
+    query ? `/messages/unread-count?${query}` : "/messages/unread-count"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch unread message count"
+  );
+};
+
+export const sendMessage = async (
+  data: SendMessageData
+): Promise<ApiResponse<CustomerMessage>> => {
+  const response = await api.post<ApiResponse<CustomerMessage>>(
+    "/messages",
+    data
+  );
+
+  if (response.data.success) {
+    notifyMessagesChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to send message");
+};
+
+export const markMessagesRead = async (
+  scope: MessageScope
+): Promise<ApiResponse<{ updated: number }>> => {
+  const response = await api.post<ApiResponse<{ updated: number }>>(
+    "/messages/read",
+    scope
+  );
+
+  if (response.data.success) {
+    notifyMessagesChanged();
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to mark messages as read"
+  );
+};
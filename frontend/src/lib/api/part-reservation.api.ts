@@ -0,0 +1,98 @@
+import api, { ApiResponse } from ".";
+
+// Part reservation interfaces
+export type PartReservationStatus = "reserved" | "consumed" | "released";
+
+export interface PartReservation {
+  id: string;
+  ticketId: string;
+  inventoryItemId: string;
+  inventoryItem: {
+    id: string;
+    sku: string;
+    name: string;
+  };
+  locationId: string;
+  // Units the repair needs
+  quantity: number;
+  // Units actually held; the rest is short until stock arrives
+  reservedQuantity: number;
+  shortageQuantity: number;
+  status: PartReservationStatus;
+  // Set once the part has been added to an invoice
+  invoiceItemId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+}
+
+export interface ReservePartData {
+  inventoryItemId: string;
+  quantity: number;
+}
+
+// Part reservation API functions
+export const getTicketParts = async (
+  ticketId: string
+): Promise<ApiResponse<PartReservation[]>> => {
+  const response = await api.get<ApiResponse<PartReservation[]>>(
+    `/tickets/${ticketId}/parts`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch parts");
+};
+
+export const reservePart = async (
+  ticketId: string,
+  data: ReservePartData
+): Promise<ApiResponse<PartReservation>> => {
+  const response = await api.post<ApiResponse<PartReservation>>(
+    `/tickets/${ticketId}/parts`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to reserve part");
+};
+
+export const updatePartReservation = async (
+  ticketId: string,
+  reservationId: string,
+  quantity: number
+): Promise<ApiResponse<PartReservation>> => {
+  const response = await api.put<ApiResponse<PartReservation>>(
+    `/tickets/${ticketId}/parts/${reservationId}`,
+    { quantity }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update part reservation"
+  );
+};
+
+export const releasePartReservation = async (
+  ticketId: string,
+  reservationId: string
+): Promise<ApiResponse<PartReservation>> => {
+  const response = await api.delete<ApiResponse<PartReservation>>(
+    `/tickets/${ticketId}/parts/${reservationId}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to release part");
+};
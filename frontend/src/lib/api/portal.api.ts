@@ -0,0 +1,178 @@
+import api, { ApiResponse } from ".";
+
+// Customer portal interfaces
+export interface PortalTicket {
+  companyName: string;
+  ticket: {
+    ticketNumber: string;
+    status: string;
+    statusLabel: string;
+    statusColor: string;
+    isClosed: boolean;
+    deviceType: string;
+    deviceBrand: string | null;
+    deviceModel: string | null;
+    issueDescription: string;
+    estimatedCompletionDate: string | null;
+    completedDate: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+  updates: {
+    id: string;
+    body: string;
+    authorName: string | null;
+    createdAt: string;
+  }[];
+  invoice: {
+    invoiceNumber: string;
+    status: string;
+    issueDate: string | null;
+    dueDate: string | null;
+    paidDate: string | null;
+    subtotal: number;
+    taxAmount: number;
+    discountAmount: number;
+    totalAmount: number;
+    amountPaid: number;
+    balanceDue: number;
+    items: {
+      description: string;
+      quantity: number;
+      unitPrice: number;
+      subtotal: number;
+    }[];
+  } | null;
+  // Link token for an estimate waiting on the customer's approval
+  pendingEstimateToken: string | null;
+  payment: {
+    provider: string;
+    applicationId: string;
+    locationId: string;
+    testMode: boolean;
+  } | null;
+}
+
+export type PortalEstimateStatus =
+  | "sent"
+  | "approved"
+  | "declined"
+  | "withdrawn";
+
+export interface PortalEstimate {
+  companyName: string;
+  estimateNumber: string;
+  status: PortalEstimateStatus;
+  isExpired: boolean;
+  ticketNumber: string;
+  device: string;
+  issueDescription: string;
+  notes: string | null;
+  validUntil: string | null;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  respondedAt: string | null;
+  approvedByName: string | null;
+  items: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discountAmount: number;
+    subtotal: number;
+    type: "part" | "service" | "other";
+  }[];
+}
+
+// Customer portal API functions (public - no login required)
+export const lookupPortalTicket = async (
+  ticketNumber: string,
+  contact: string
+): Promise<ApiResponse<{ token: string }>> => {
+  const response = await api.post<ApiResponse<{ token: string }>>(
+    "/portal/lookup",
+    { ticketNumber, contact }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to find ticket");
+};
+
+export const getPortalTicket = async (
+  token: string
+): Promise<ApiResponse<PortalTicket>> => {
+  const response = await api.get<ApiResponse<PortalTicket>>(
+    `/portal/tickets/${token}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to load ticket");
+};
+
+export const payPortalInvoice = async (
+  token: string,
+  sourceId: string
+): Promise<ApiResponse<PortalTicket>> => {
+  const response = await api.post<ApiResponse<PortalTicket>>(
+    `/portal/tickets/${token}/pay`,
+    { sourceId }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Payment failed");
+};
+
+export const getPortalEstimate = async (
+  token: string
+): Promise<ApiResponse<PortalEstimate>> => {
+  const response = await api.get<ApiResponse<PortalEstimate>>(
+    `/portal/estimates/${token}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to load estimate");
+};
+
+export const approvePortalEstimate = async (
+  token: string,
+  name: string
+): Promise<ApiResponse<PortalEstimate>> => {
+  const response = await api.post<ApiResponse<PortalEstimate>>(
+    `/portal/estimates/${token}/approve`,
+    { name }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to approve estimate");
+};
+
+export const declinePortalEstimate = async (
+  token: string,
+  reason?: string
+): Promise<ApiResponse<PortalEstimate>> => {
+  const response = await api.post<ApiResponse<PortalEstimate>>(
+    `/portal/estimates/${token}/decline`,
+    { reason }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to decline estimate");
+};
@@ -0,0 +1,219 @@
+import api, { ApiResponse } from ".";
+import { Invoice } from "./invoice.api";
+
+export type RecurringInvoiceFrequency = "monthly" | "quarterly" | "yearly";
+export type RecurringInvoiceStatus = "active" | "paused" | "ended";
+
+// Recurring invoice interfaces
+export interface RecurringInvoiceItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  type: "service" | "other";
+}
+
+export interface RecurringInvoice {
+  id: string;
+  locationId: string;
+  customerId: string;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  status: RecurringInvoiceStatus;
+  nextIssueDate: string;
+  endDate: string | null;
+  // Days after issue that each invoice is due
+  dueDays: number;
+  notes: string | null;
+  autoEmail: boolean;
+  autopayEnabled: boolean;
+  hasSavedCard: boolean;
+  lastInvoiceId: string | null;
+  lastIssuedAt: string | null;
+  // Why the last autopay charge failed, if it did
+  lastAutopayError: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Price of one invoice before tax
+  amount: number;
+  items: RecurringInvoiceItem[];
+}
+
+// An invoice the schedule has issued
+export interface RecurringInvoiceIssuedInvoice {
+  id: string;
+  invoiceNumber: string;
+  status: string;
+  issueDate: string | null;
+  dueDate: string | null;
+  totalAmount: number;
+  amountPaid: number;
+}
+
+export interface RecurringInvoiceWithInvoices extends RecurringInvoice {
+  invoices: RecurringInvoiceIssuedInvoice[];
+}
+
+export interface RecurringInvoiceItemData {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  type?: "service" | "other";
+}
+
+export interface CreateRecurringInvoiceData {
+  customerId: string;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  nextIssueDate: string;
+  endDate?: string | null;
+  dueDays?: number;
+  notes?: string | null;
+  autoEmail?: boolean;
+  items: RecurringInvoiceItemData[];
+}
+
+export interface UpdateRecurringInvoiceData {
+  name?: string;
+  frequency?: RecurringInvoiceFrequency;
+  status?: "active" | "paused";
+  nextIssueDate?: string;
+  endDate?: string | null;
+  dueDays?: number;
+  notes?: string | null;
+  autoEmail?: boolean;
+  autopayEnabled?: boolean;
+  items?: RecurringInvoiceItemData[];
+}
+
+// Recurring invoice API functions
+export const getRecurringInvoices = async (
+  params: { customerId?: string } = {}
+): Promise<ApiResponse<RecurringInvoice[]>> => {
+  const response = await api.get<ApiResponse<RecurringInvoice[]>>(
+    "/recurring-invoices",
+    { params }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch recurring invoices"
+  );
+};
+
+export const getRecurringInvoice = async (
+  id: string
+): Promise<ApiResponse<RecurringInvoiceWithInvoices>> => {
+  const response = await api.get<ApiResponse<RecurringInvoiceWithInvoices>>(
+    `/recurring-invoices/${id}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch recurring invoice"
+  );
+};
+
+export const createRecurringInvoice = async (
+  data: CreateRecurringInvoiceData
+): Promise<ApiResponse<RecurringInvoice>> => {
+  const response = await api.post<ApiResponse<RecurringInvoice>>(
+    "/recurring-invoices",
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to create recurring invoice"
+  );
+};
+
+export const updateRecurringInvoice = async (
+  id: string,
+  data: UpdateRecurringInvoiceData
+): Promise<ApiResponse<RecurringInvoice>> => {
+  const response = await api.put<ApiResponse<RecurringInvoice>>(
+    `/recurring-invoices/${id}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update recurring invoice"
+  );
+};
+
+export const deleteRecurringInvoice = async (
+  id: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/recurring-invoices/${id}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to delete recurring invoice"
+  );
+};
+
+// Issue the schedule's next invoice now instead of waiting for its date
+export const issueRecurringInvoice = async (
+  id: string
+): Promise<ApiResponse<Invoice>> => {
+  const response = await api.post<ApiResponse<Invoice>>(
+    `/recurring-invoices/${id}/issue`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to issue invoice");
+};
+
+// Save the customer's card (a Square card token) and turn on autopay
+export const saveRecurringInvoiceCard = async (
+  id: string,
+  sourceId: string
+): Promise<ApiResponse<RecurringInvoice>> => {
+  const response = await api.post<ApiResponse<RecurringInvoice>>(
+    `/recurring-invoices/${id}/card`,
+    { sourceId }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to save card");
+};
+
+export const removeRecurringInvoiceCard = async (
+  id: string
+): Promise<ApiResponse<RecurringInvoice>> => {
+  const response = await api.delete<ApiResponse<RecurringInvoice>>(
+    `/recurring-invoices/${id}/card`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to remove card");
+};
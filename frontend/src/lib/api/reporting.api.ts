@@ -5,6 +5,7 @@ export interface DashboardStats {
   monthlyRevenue: number;
   lowStockCount: number;
   activeTickets: number;
+  slaBreachedTickets: number;
   totalCustomers: number;
 }
 
@@ -34,6 +35,9 @@ export interface TechnicianPerformance {
   technicianName: string;
   ticketsCompleted: number;
   averageCompletionDays: number | null;
+  // Time logged on tickets; billed is the part already on an invoice as labor
+  actualHours: number;
+  billedHours: number;
 }
 
 export interface InvoiceStatusBreakdown {
@@ -42,6 +46,29 @@ export interface InvoiceStatusBreakdown {
   totalAmount: number;
 }
 
+export interface WarrantyReturnRate {
+  // Completed repairs whose warranty started in the period
+  repairs: number;
+  // Of those, how many came back as a warranty claim
+  warrantyClaims: number;
+  // Percentage of repairs that came back
+  returnRate: number;
+}
+
+export interface TechnicianWarrantyReturns extends WarrantyReturnRate {
+  technicianId: string;
+  technicianName: string;
+}
+
+export interface SupplierWarrantyReturns extends WarrantyReturnRate {
+  supplier: string | null;
+}
+
+export interface WarrantyReturnReport {
+  byTechnician: TechnicianWarrantyReturns[];
+  bySupplier: SupplierWarrantyReturns[];
+}
+
 // Reporting API functions
 export const getDashboardStats = async (
   locationId?: string | null,
@@ -251,3 +278,34 @@ export const getInvoiceStatusBreakdown = async (
     response.data.error?.message || "Failed to fetch invoice status breakdown"
   );
 };
+
+export const getWarrantyReturns = async (
+  locationId?: string | null,
+  startDate?: string,
+  endDate?: string
+): Promise<ApiResponse<WarrantyReturnReport>> => {
+  const params = new URLSearchParams();
+  if (locationId !== undefined && locationId !== null) {
+    params.append("locationId", locationId);
+  }
+  if (startDate) {
+    params.append("startDate", startDate);
+  }
+  if (endDate) {
+    params.append("endDate", endDate);
+  }
+
+  const url = params.toString()
+    ? `/reporting/warranty-returns?${params.toString()}`
+    : "/reporting/warranty-returns";
+
+  const response = await api.get<ApiResponse<WarrantyReturnReport>>(url);
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch warranty returns"
+  );
+};
@@ -0,0 +1,153 @@
+import api, { ApiResponse } from ".";
+
+// Saved view interfaces
+export type SavedViewResource = "tickets" | "invoices" | "inventory";
+
+export type SavedViewVisibility = "user" | "company";
+
+export interface SavedView {
+  id: string;
+  userId: string;
+  resource: SavedViewResource;
+  name: string;
+  // Filter expression, e.g. "status:new,assigned technician:me"
+  filter: string;
+  // Sort field, prefixed with - for descending
+  sort: string | null;
+  visibility: SavedViewVisibility;
+  // Whether the current user has it in their sidebar
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedViewData {
+  resource: SavedViewResource;
+  name: string;
+  filter?: string;
+  sort?: string | null;
+  visibility?: SavedViewVisibility;
+}
+
+export interface UpdateSavedViewData {
+  name?: string;
+  filter?: string;
+  sort?: string | null;
+  visibility?: SavedViewVisibility;
+}
+
+// Fired on window when views are saved, deleted, pinned or unpinned, so the sidebar can refresh
+export const SAVED_VIEWS_CHANGED_EVENT = "savedViewsChanged";
+
+export const notifySavedViewsChanged = (): void => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(SAVED_VIEWS_CHANGED_EVENT));
+  }
+};
+
+// Saved view API functions
+export const getSavedViews = async (
+  options: { resource?: SavedViewResource; pinned?: boolean } = {}
+): Promise<ApiResponse<SavedView[]>> => {
+  const params = new URLSearchParams();
+  if (options.resource) params.append("resource", options.resource);
+  if (options.pinned) params.append("pinned", "true");
+
+  const query = params.toString();
+  const response = await api.get<ApiResponse<SavedView[]>>(
+    query ? `/saved-views?${query}` : "/saved-views"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch saved views");
+};
+
+export const getSavedView = async (
+  id: string
+): Promise<ApiResponse<SavedView>> => {
+  const response = await api.get<ApiResponse<SavedView>>(`/saved-views/${id}`);
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch saved view");
+};
+
+export const createSavedView = async (
+  data: CreateSavedViewData
+): Promise<ApiResponse<SavedView>> => {
+  const response = await api.post<ApiResponse<SavedView>>("/saved-views", data);
+
+  if (response.data.success) {
+    notifySavedViewsChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to save view");
+};
+
+export const updateSavedView = async (
+  id: string,
+  data: UpdateSavedViewData
+): Promise<ApiResponse<SavedView>> => {
+  const response = await api.put<ApiResponse<SavedView>>(
+    `/saved-views/${id}`,
+    data
+  );
+
+  if (response.data.success) {
+    notifySavedViewsChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update view");
+};
+
+export const deleteSavedView = async (
+  id: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/saved-views/${id}`
+  );
+
+  if (response.data.success) {
+    notifySavedViewsChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to delete view");
+};
+
+export const pinSavedView = async (
+  id: string
+): Promise<ApiResponse<SavedView>> => {
+  const response = await api.post<ApiResponse<SavedView>>(
+    `/saved-views/${id}/pin`
+  );
+
+  if (response.data.success) {
+    notifySavedViewsChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to pin view");
+};
+
+export const unpinSavedView = async (
+  id: string
+): Promise<ApiResponse<SavedView>> => {
+  const response = await api.delete<ApiResponse<SavedView>>(
+    `/saved-views/${id}/pin`
+  );
+
+  if (response.data.success) {
+    notifySavedViewsChanged();
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to unpin view");
+};
@@ -0,0 +1,125 @@
+import api, { ApiResponse } from ".";
+
+// Signature interfaces
+export type SignatureKind = "intake" | "pickup";
+
+export interface SignatureTerms {
+  kind: SignatureKind;
+  // 0 means the built-in default terms
+  version: number;
+  body: string;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+export interface TicketSignature {
+  id: string;
+  ticketId: string;
+  kind: SignatureKind;
+  signerName: string;
+  // PNG data URL
+  signatureImage: string;
+  termsVersion: number;
+  termsText: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  capturedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  signedAt: string;
+}
+
+export interface CaptureSignatureData {
+  kind: SignatureKind;
+  signerName: string;
+  signatureImage: string;
+  termsVersion: number;
+}
+
+// Signature terms API functions
+export const getSignatureTerms = async (): Promise<
+  ApiResponse<SignatureTerms[]>
+> => {
+  const response = await api.get<ApiResponse<SignatureTerms[]>>(
+    "/signature-terms"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch signature terms"
+  );
+};
+
+export const getSignatureTermsHistory = async (
+  kind: SignatureKind
+): Promise<ApiResponse<SignatureTerms[]>> => {
+  const response = await api.get<ApiResponse<SignatureTerms[]>>(
+    `/signature-terms/${kind}/history`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch terms history"
+  );
+};
+
+export const saveSignatureTerms = async (
+  kind: SignatureKind,
+  body: string
+): Promise<ApiResponse<SignatureTerms>> => {
+  const response = await api.put<ApiResponse<SignatureTerms>>(
+    `/signature-terms/${kind}`,
+    { body }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to save signature terms"
+  );
+};
+
+// Ticket signature API functions
+export const getTicketSignatures = async (
+  ticketId: string
+): Promise<ApiResponse<TicketSignature[]>> => {
+  const response = await api.get<ApiResponse<TicketSignature[]>>(
+    `/tickets/${ticketId}/signatures`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch ticket signatures"
+  );
+};
+
+export const captureTicketSignature = async (
+  ticketId: string,
+  data: CaptureSignatureData
+): Promise<ApiResponse<TicketSignature>> => {
+  const response = await api.post<ApiResponse<TicketSignature>>(
+    `/tickets/${ticketId}/signatures`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to save signature"
+  );
+};
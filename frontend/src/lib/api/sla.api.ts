@@ -0,0 +1,49 @@
+import api, { ApiResponse } from ".";
+
+// SLA interfaces
+export type SlaPriority = "low" | "medium" | "high" | "urgent";
+
+export interface SlaPolicy {
+  priority: SlaPriority;
+  assignmentTargetMinutes: number | null;
+  completionTargetMinutes: number | null;
+  warningPercent: number;
+  // Null when no policy has been saved for this priority
+  updatedAt: string | null;
+}
+
+export interface SaveSlaPolicyData {
+  priority: SlaPriority;
+  assignmentTargetMinutes: number | null;
+  completionTargetMinutes: number | null;
+  warningPercent?: number;
+}
+
+// SLA API functions
+export const getSlaPolicies = async (): Promise<ApiResponse<SlaPolicy[]>> => {
+  const response = await api.get<ApiResponse<SlaPolicy[]>>("/sla-policies");
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch SLA policies"
+  );
+};
+
+export const saveSlaPolicies = async (
+  policies: SaveSlaPolicyData[]
+): Promise<ApiResponse<SlaPolicy[]>> => {
+  const response = await api.put<ApiResponse<SlaPolicy[]>>("/sla-policies", {
+    policies,
+  });
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to save SLA policies"
+  );
+};
@@ -0,0 +1,65 @@
+import api, { ApiResponse } from ".";
+
+// Store credit interfaces
+export type StoreCreditTransactionType = "refund" | "redemption" | "adjustment";
+
+// One change to a customer's store credit: positive when given, negative when spent or taken away
+export interface StoreCreditTransaction {
+  id: string;
+  customerId: string;
+  type: StoreCreditTransactionType;
+  amount: number;
+  balanceAfter: number;
+  invoiceId: string | null;
+  invoicePaymentId: string | null;
+  creditMemoId: string | null;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface StoreCredit {
+  balance: number;
+  transactions: StoreCreditTransaction[];
+}
+
+export interface AdjustStoreCreditData {
+  // Positive to give credit, negative to take it away
+  amount: number;
+  notes: string;
+}
+
+// Store credit API functions
+export const getStoreCredit = async (
+  customerId: string
+): Promise<ApiResponse<StoreCredit>> => {
+  const response = await api.get<ApiResponse<StoreCredit>>(
+    `/customers/${customerId}/store-credit`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch store credit"
+  );
+};
+
+export const adjustStoreCredit = async (
+  customerId: string,
+  data: AdjustStoreCreditData
+): Promise<ApiResponse<StoreCreditTransaction>> => {
+  const response = await api.post<ApiResponse<StoreCreditTransaction>>(
+    `/customers/${customerId}/store-credit`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to adjust store credit"
+  );
+};
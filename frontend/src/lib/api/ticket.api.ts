@@ -1,19 +1,32 @@
-import api, { ApiResponse } from ".";
+import api, { ApiResponse, CursorPageResponse } from ".";
+import { WorkflowStatus } from "./workflow.api";
 // Ticket interfaces
+// Built-in statuses; companies can add their own through their workflow
+export type TicketStatus =
+  | "new"
+  | "assigned"
+  | "in_progress"
+  | "on_hold"
+  | "awaiting_approval"
+  | "completed"
+  | "cancelled"
+  | (string & {});
+
+export type TicketType = "repair" | "warranty_claim";
+
 export interface Ticket {
   id: string;
   ticketNumber: string;
+  ticketType?: TicketType;
+  // For warranty claims, the repair (and its invoice) being claimed against
+  originalTicketId?: string | null;
+  originalInvoiceId?: string | null;
   customerId: string;
+  locationId?: string | null;
   assetId?: string | null;
   checklistTemplateId?: string | null;
   technicianId?: string;
-  status:
-    | "new"
-    | "assigned"
-    | "in_progress"
-    | "on_hold"
-    | "completed"
-    | "cancelled";
+  status: TicketStatus;
   priority: "low" | "medium" | "high" | "urgent";
   deviceType: string;
   deviceBrand?: string;
@@ -24,6 +37,11 @@ export interface Ticket {
   repairNotes?: string;
   estimatedCompletionDate?: string;
   completedDate?: string;
+  firstAssignedAt?: string | null;
+  slaBreachedAt?: string | null;
+  warrantyDays?: number | null;
+  warrantyStartsAt?: string | null;
+  warrantyExpiresAt?: string | null;
   createdAt: string;
   updatedAt: string;
   customer: {
@@ -43,6 +61,8 @@ export interface Ticket {
 
 export interface CreateTicketData {
   customerId: string;
+  ticketType?: TicketType;
+  originalTicketId?: string;
   assetId?: string;
   checklistTemplateId?: string;
   technicianId?: string;
@@ -64,23 +84,90 @@ export interface UpdateTicketData {
   deviceModel?: string;
   serialNumber?: string;
   issueDescription?: string;
-  status?:
-    | "new"
-    | "assigned"
-    | "in_progress"
-    | "on_hold"
-    | "completed"
-    | "cancelled";
+  status?: TicketStatus;
   priority?: "low" | "medium" | "high" | "urgent";
   estimatedCompletionDate?: string;
   completedDate?: string;
 }
+export type TicketEventType =
+  | "created"
+  | "updated"
+  | "status_changed"
+  | "technician_assigned"
+  | "diagnostic_notes_added"
+  | "repair_notes_added"
+  | "sla_breached"
+  | "estimate_sent"
+  | "estimate_approved"
+  | "estimate_declined"
+  | "deleted";
+
+export interface TicketEvent {
+  id: string;
+  ticketId: string;
+  actorId: string | null;
+  eventType: TicketEventType;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: string;
+  actor?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export type TicketCommentVisibility = "internal" | "customer";
+
+export interface TicketCommentAuthor {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface TicketComment {
+  id: string;
+  ticketId: string;
+  parentId: string | null;
+  authorId: string | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  editedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  author?: TicketCommentAuthor;
+  replies?: TicketComment[];
+}
+
+export interface TicketCommentRevision {
+  id: string;
+  commentId: string;
+  editorId: string | null;
+  body: string;
+  visibility: TicketCommentVisibility;
+  createdAt: string;
+  editor?: TicketCommentAuthor;
+}
+
+export interface CreateTicketCommentData {
+  body: string;
+  visibility?: TicketCommentVisibility;
+  parentId?: string | null;
+  notifyCustomer?: boolean;
+}
+
+export interface UpdateTicketCommentData {
+  body?: string;
+  visibility?: TicketCommentVisibility;
+}
+
 // Ticket API functions
 export const getTickets = async (
   params?: URLSearchParams
-): Promise<ApiResponse<Ticket[]>> => {
+): Promise<CursorPageResponse<Ticket>> => {
   const url = params ? `/tickets?${params.toString()}` : "/tickets";
-  const response = await api.get<ApiResponse<Ticket[]>>(url);
+  const response = await api.get<CursorPageResponse<Ticket>>(url);
 
   if (response.data.success) {
     return response.data;
@@ -143,13 +230,16 @@ export const deleteTicket = async (
   throw new Error(response.data.error?.message || "Failed to delete ticket");
 };
 
+// Pass expectedTechnicianId (null for unassigned) to fail with a conflict if
+// someone else reassigned the ticket first
 export const assignTechnician = async (
   ticketId: string,
-  technicianId: string | null
+  technicianId: string | null,
+  expectedTechnicianId?: string | null
 ): Promise<ApiResponse<Ticket>> => {
   const response = await api.post<ApiResponse<Ticket>>(
     `/tickets/${ticketId}/assign`,
-    { technicianId: technicianId || null }
+    { technicianId: technicianId || null, expectedTechnicianId }
   );
 
   if (response.data.success) {
@@ -161,19 +251,15 @@ export const assignTechnician = async (
   );
 };
 
+// Pass expectedStatus to fail with a conflict if someone else moved the ticket first
 export const updateTicketStatus = async (
   ticketId: string,
-  status:
-    | "new"
-    | "assigned"
-    | "in_progress"
-    | "on_hold"
-    | "completed"
-    | "cancelled"
+  status: TicketStatus,
+  expectedStatus?: TicketStatus
 ): Promise<ApiResponse<Ticket>> => {
   const response = await api.post<ApiResponse<Ticket>>(
     `/tickets/${ticketId}/status`,
-    { status }
+    { status, expectedStatus }
   );
 
   if (response.data.success) {
@@ -185,6 +271,30 @@ export const updateTicketStatus = async (
   );
 };
 
+export interface AvailableTransition {
+  status: WorkflowStatus;
+  requiredConditions: string[];
+}
+
+/**
+ * Get the statuses the current user can move a ticket to
+ */
+export const getTicketTransitions = async (
+  ticketId: string
+): Promise<ApiResponse<AvailableTransition[]>> => {
+  const response = await api.get<ApiResponse<AvailableTransition[]>>(
+    `/tickets/${ticketId}/transitions`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch status transitions"
+  );
+};
+
 export const addDiagnosticNote = async (
   ticketId: string,
   notes: string
@@ -218,3 +328,196 @@ export const addRepairNote = async (
 
   throw new Error(response.data.error?.message || "Failed to add repair note");
 };
+
+export const getTicketTimeline = async (
+  ticketId: string
+): Promise<ApiResponse<TicketEvent[]>> => {
+  const response = await api.get<ApiResponse<TicketEvent[]>>(
+    `/tickets/${ticketId}/timeline`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch ticket timeline"
+  );
+};
+
+export const getTicketComments = async (
+  ticketId: string,
+  visibility?: TicketCommentVisibility
+): Promise<ApiResponse<TicketComment[]>> => {
+  const response = await api.get<ApiResponse<TicketComment[]>>(
+    `/tickets/${ticketId}/comments`,
+    { params: visibility ? { visibility } : undefined }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch ticket comments"
+  );
+};
+
+export const createTicketComment = async (
+  ticketId: string,
+  data: CreateTicketCommentData
+): Promise<ApiResponse<TicketComment>> => {
+  const response = await api.post<ApiResponse<TicketComment>>(
+    `/tickets/${ticketId}/comments`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to add comment");
+};
+
+export const updateTicketComment = async (
+  ticketId: string,
+  commentId: string,
+  data: UpdateTicketCommentData
+): Promise<ApiResponse<TicketComment>> => {
+  const response = await api.put<ApiResponse<TicketComment>>(
+    `/tickets/${ticketId}/comments/${commentId}`,
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update comment");
+};
+
+export const deleteTicketComment = async (
+  ticketId: string,
+  commentId: string
+): Promise<ApiResponse<{ message: string }>> => {
+  const response = await api.delete<ApiResponse<{ message: string }>>(
+    `/tickets/${ticketId}/comments/${commentId}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to delete comment");
+};
+
+export const getTicketCommentHistory = async (
+  ticketId: string,
+  commentId: string
+): Promise<ApiResponse<TicketCommentRevision[]>> => {
+  const response = await api.get<ApiResponse<TicketCommentRevision[]>>(
+    `/tickets/${ticketId}/comments/${commentId}/history`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch comment history"
+  );
+};
+
+export type LabelFormat = "pdf" | "zpl";
+export type LabelSize = "2x1" | "2.25x1.25" | "3x2";
+export type LabelDpi = 203 | 300;
+
+export const getTicketReceipt = async (ticketId: string): Promise<Blob> => {
+  const response = await api.get<Blob>(`/tickets/${ticketId}/receipt`, {
+    responseType: "blob",
+  });
+
+  return response.data;
+};
+
+export const getTicketLabel = async (
+  ticketId: string,
+  format: LabelFormat,
+  size: LabelSize,
+  dpi: LabelDpi
+): Promise<Blob> => {
+  const response = await api.get<Blob>(`/tickets/${ticketId}/label`, {
+    params: { format, size, dpi },
+    responseType: "blob",
+  });
+
+  return response.data;
+};
+
+// Bulk actions
+export type BulkTicketAction = "assign" | "status" | "priority" | "location";
+
+export interface BulkTicketData {
+  action: BulkTicketAction;
+  ticketIds: string[];
+  technicianId?: string | null;
+  status?: TicketStatus;
+  priority?: Ticket["priority"];
+  locationId?: string;
+  notifyCustomer?: boolean;
+}
+
+export interface BulkTicketResult {
+  ticketId: string;
+  success: boolean;
+  error?: string;
+  ticket?: Ticket;
+}
+
+export interface BulkTicketSummary {
+  action: BulkTicketAction;
+  succeeded: number;
+  failed: number;
+  results: BulkTicketResult[];
+}
+
+// Each ticket succeeds or fails on its own; check the results for the ones that didn't change
+export const bulkUpdateTickets = async (
+  data: BulkTicketData
+): Promise<ApiResponse<BulkTicketSummary>> => {
+  const response = await api.post<ApiResponse<BulkTicketSummary>>(
+    "/tickets/bulk",
+    data
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to update tickets");
+};
+
+export const getBulkTicketLabels = async (
+  ticketIds: string[],
+  format: LabelFormat,
+  size: LabelSize,
+  dpi: LabelDpi
+): Promise<Blob> => {
+  const response = await api.post<Blob>(
+    "/tickets/bulk/labels",
+    { ticketIds, format, size, dpi },
+    { responseType: "blob" }
+  );
+
+  return response.data;
+};
+
+export const exportTickets = async (ticketIds: string[]): Promise<Blob> => {
+  const response = await api.post<Blob>(
+    "/tickets/bulk/export",
+    { ticketIds },
+    { responseType: "blob" }
+  );
+
+  return response.data;
+};
@@ -0,0 +1,72 @@
+import api, { ApiResponse } from ".";
+
+// Warranty interfaces
+export interface WarrantySettings {
+  // Used when none of a repair's parts or kinds of work carry a warranty of their own
+  defaultWarrantyDays: number | null;
+}
+
+export interface WarrantyCoverage {
+  ticketId: string;
+  ticketNumber: string;
+  deviceType: string;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  serialNumber: string | null;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  warrantyDays: number;
+  warrantyStartsAt: string;
+  warrantyExpiresAt: string;
+  isActive: boolean;
+}
+
+// Warranty API functions
+export const getWarrantySettings = async (): Promise<
+  ApiResponse<WarrantySettings>
+> => {
+  const response = await api.get<ApiResponse<WarrantySettings>>(
+    "/warranty/settings"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch warranty settings"
+  );
+};
+
+export const updateWarrantySettings = async (
+  defaultWarrantyDays: number | null
+): Promise<ApiResponse<WarrantySettings>> => {
+  const response = await api.put<ApiResponse<WarrantySettings>>(
+    "/warranty/settings",
+    { defaultWarrantyDays }
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to update warranty settings"
+  );
+};
+
+export const getWarrantyCoverage = async (
+  customerId: string
+): Promise<ApiResponse<WarrantyCoverage[]>> => {
+  const response = await api.get<ApiResponse<WarrantyCoverage[]>>(
+    `/warranty/coverage?customerId=${encodeURIComponent(customerId)}`
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch warranty coverage"
+  );
+};
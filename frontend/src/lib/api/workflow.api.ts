@@ -0,0 +1,93 @@
+import api, { ApiResponse } from ".";
+
+// Workflow interfaces
+export type WorkflowRole = "admin" | "manager" | "technician" | "frontdesk";
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  color: string;
+  sortOrder: number;
+  isClosed: boolean;
+  isSystem: boolean;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  allowedRoles: WorkflowRole[];
+  requiredConditions: string[];
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  isDefault: boolean;
+}
+
+export interface WorkflowOptions {
+  colors: string[];
+  roles: WorkflowRole[];
+  conditions: { key: string; description: string }[];
+  // Statuses tickets are moved in and out of automatically (not usable in transitions)
+  managedStatuses: string[];
+}
+
+export interface SaveWorkflowData {
+  statuses: {
+    key: string;
+    label: string;
+    color?: string;
+    isClosed?: boolean;
+  }[];
+  transitions: WorkflowTransition[];
+}
+
+// Workflow API functions
+export const getWorkflow = async (): Promise<ApiResponse<Workflow>> => {
+  const response = await api.get<ApiResponse<Workflow>>("/workflow");
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to fetch workflow");
+};
+
+export const getWorkflowOptions = async (): Promise<
+  ApiResponse<WorkflowOptions>
+> => {
+  const response = await api.get<ApiResponse<WorkflowOptions>>(
+    "/workflow/options"
+  );
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(
+    response.data.error?.message || "Failed to fetch workflow options"
+  );
+};
+
+export const saveWorkflow = async (
+  data: SaveWorkflowData
+): Promise<ApiResponse<Workflow>> => {
+  const response = await api.put<ApiResponse<Workflow>>("/workflow", data);
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to save workflow");
+};
+
+export const resetWorkflow = async (): Promise<ApiResponse<Workflow>> => {
+  const response = await api.delete<ApiResponse<Workflow>>("/workflow");
+
+  if (response.data.success) {
+    return response.data;
+  }
+
+  throw new Error(response.data.error?.message || "Failed to reset workflow");
+};
@@ -0,0 +1,34 @@
+/**
+ * Utility functions for opening and saving files fetched from the API
+ */
+
+/**
+ * Open a PDF in a new tab, falling back to a download if popups are blocked
+ */
+export function openPdfBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const newWindow = window.open(url, "_blank");
+  if (newWindow) {
+    // Clean up the URL after a delay to allow the browser to load it
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+  } else {
+    downloadBlob(blob, fileName);
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Save a file to the user's downloads folder
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
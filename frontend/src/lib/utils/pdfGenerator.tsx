@@ -1,6 +1,8 @@
 "use client";
 
 import { Invoice, InvoiceItem } from "../api/invoice.api";
+import { TicketSignature } from "../api/signature.api";
+import { openPdfBlob } from "./fileUtils";
 
 /**
  * Format a date string to a readable format
@@ -29,11 +31,25 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
 /**
  * Generate a PDF invoice from invoice data
  * Uses @react-pdf/renderer for React/Next.js compatibility
+ * Drop-off and pick-up signatures from the invoice's ticket are printed at the end
  */
-export async function generateInvoicePDF(invoice: Invoice): Promise<void> {
+export async function generateInvoicePDF(
+  invoice: Invoice,
+  signatures: TicketSignature[] = []
+): Promise<void> {
   // Ensure we're in the browser
   if (typeof window === "undefined") {
     throw new Error("PDF generation is only available in the browser");
@@ -42,7 +58,7 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<void> {
   // Dynamic import for client-side only libraries
   // Use direct import so webpack can bundle it properly
   const reactPdfModule = await import("@react-pdf/renderer");
-  const { pdf, Document, Page, Text, View, StyleSheet } = reactPdfModule;
+  const { pdf, Document, Page, Text, View, Image, StyleSheet } = reactPdfModule;
 
   // Create styles
   const styles = StyleSheet.create({
@@ -200,6 +216,26 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<void> {
       fontSize: 9,
       color: "#34495e",
     },
+    signatureRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+    },
+    signatureBlock: {
+      width: "48%",
+    },
+    signatureImage: {
+      height: 60,
+      objectFit: "contain",
+      borderBottomWidth: 1,
+      borderBottomColor: "#34495e",
+      borderBottomStyle: "solid",
+      marginBottom: 4,
+    },
+    signatureTerms: {
+      fontSize: 7,
+      color: "#7f8c8d",
+      marginTop: 4,
+    },
     footer: {
       position: "absolute",
       bottom: 30,
@@ -379,6 +415,28 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<void> {
           </View>
         )}
 
+        {/* Customer Signatures */}
+        {signatures.length > 0 && (
+          <View style={styles.section} wrap={false}>
+            <Text style={styles.sectionTitle}>Customer Signatures:</Text>
+            <View style={styles.signatureRow}>
+              {signatures.map((signature) => (
+                <View key={signature.id} style={styles.signatureBlock}>
+                  {/* eslint-disable-next-line jsx-a11y/alt-text */}
+                  <Image src={signature.signatureImage} style={styles.signatureImage} />
+                  <Text style={styles.customerInfo}>
+                    {signature.kind === "intake" ? "Drop-off" : "Pick-up"}: {signature.signerName}
+                  </Text>
+                  <Text style={styles.customerInfo}>{formatDateTime(signature.signedAt)}</Text>
+                  <Text style={styles.signatureTerms}>
+                    Signed against terms version {signature.termsVersion}: {signature.termsText}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Footer */}
         <View style={styles.footer}>
           <Text>Thank you for your business!</Text>
@@ -392,21 +450,5 @@ export async function generateInvoicePDF(invoice: Invoice): Promise<void> {
 
   // Generate and open the PDF in a new tab
   const blob = await pdf(InvoiceDocument).toBlob();
-  const url = URL.createObjectURL(blob);
-  const newWindow = window.open(url, "_blank");
-  if (newWindow) {
-    // Clean up the URL after a delay to allow the browser to load it
-    setTimeout(() => {
-      URL.revokeObjectURL(url);
-    }, 100);
-  } else {
-    // If popup was blocked, fall back to download
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `invoice-${invoice.invoiceNumber}.pdf`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }
+  openPdfBlob(blob, `invoice-${invoice.invoiceNumber}.pdf`);
 }
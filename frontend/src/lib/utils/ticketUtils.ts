@@ -2,27 +2,41 @@
  * Utility functions for ticket status and priority styling
  */
 
+// Badge classes for each color a workflow status can use
+const STATUS_COLOR_CLASSES: Record<string, string> = {
+  gray: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  purple: "bg-purple-100 text-purple-800 dark:bg-purple-800 dark:text-purple-100",
+  yellow: "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100",
+  orange: "bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-100",
+  green: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  red: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+  teal: "bg-teal-100 text-teal-800 dark:bg-teal-800 dark:text-teal-100",
+  indigo: "bg-indigo-100 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100",
+  pink: "bg-pink-100 text-pink-800 dark:bg-pink-800 dark:text-pink-100",
+};
+
+// Default colors for the built-in statuses
+const BUILT_IN_STATUS_COLORS: Record<string, string> = {
+  new: "blue",
+  assigned: "purple",
+  in_progress: "yellow",
+  on_hold: "orange",
+  awaiting_approval: "indigo",
+  completed: "green",
+  cancelled: "gray",
+};
+
 /**
  * Get status color classes for ticket status badges
+ * Pass the workflow status color for custom statuses; built-in statuses have defaults
  * Includes both light and dark mode variants
  */
-export function getStatusColor(status: string): string {
-  switch (status) {
-    case "new":
-      return "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100";
-    case "assigned":
-      return "bg-purple-100 text-purple-800 dark:bg-purple-800 dark:text-purple-100";
-    case "in_progress":
-      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100";
-    case "on_hold":
-      return "bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-100";
-    case "completed":
-      return "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100";
-    case "cancelled":
-      return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
-    default:
-      return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
-  }
+export function getStatusColor(status: string, color?: string): string {
+  return (
+    STATUS_COLOR_CLASSES[color || BUILT_IN_STATUS_COLORS[status]] ||
+    STATUS_COLOR_CLASSES.gray
+  );
 }
 
 /**
@@ -48,10 +62,8 @@ export function getPriorityColor(priority: string): string {
  * Format ticket status for display (capitalize and replace underscores)
  */
 export function formatStatus(status: string): string {
-  return status
-    .replace("_", " ")
-    .charAt(0)
-    .toUpperCase() + status.replace("_", " ").slice(1);
+  const text = status.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
 }
 
 /**
@@ -60,3 +72,12 @@ export function formatStatus(status: string): string {
 export function formatPriority(priority: string): string {
   return priority.charAt(0).toUpperCase() + priority.slice(1);
 }
+
+/**
+ * Format logged time for display, e.g. "1h 30m" or "45m"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+}